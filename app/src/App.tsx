@@ -18,6 +18,7 @@ import { ErrorBoundary } from './components/ErrorBoundary';
 import { RouteErrorBoundary } from './components/RouteErrorBoundary';
 import { useTokenRefresh } from './hooks/useTokenRefresh';
 import { useSslSettingsSync } from './hooks/useSslSettingsSync';
+import { useMonitorStatusSampler } from './hooks/useMonitorStatusHistory';
 import AppLayout from './components/layout/AppLayout';
 import { NotificationHandler } from './components/NotificationHandler';
 import { Button } from './components/ui/button';
@@ -33,6 +34,7 @@ const Montage = lazy(() => import('./pages/Montage'));
 const Events = lazy(() => import('./pages/Events'));
 const EventDetail = lazy(() => import('./pages/EventDetail'));
 const Timeline = lazy(() => import('./pages/Timeline'));
+const EventAnalytics = lazy(() => import('./pages/EventAnalytics'));
 const Profiles = lazy(() => import('./pages/Profiles'));
 const Settings = lazy(() => import('./pages/Settings'));
 const Server = lazy(() => import('./pages/Server'));
@@ -77,6 +79,9 @@ function AppRoutes() {
   // Sync SSL cert setting to native layer (Capacitor Preferences → UserDefaults)
   useSslSettingsSync();
 
+  // Keep FPS and bandwidth history for monitor health trends
+  useMonitorStatusSampler();
+
   // Apply compact mode class to root element
   useEffect(() => {
     const root = document.getElementById('root');
@@ -227,6 +232,14 @@ function AppRoutes() {
               </RouteErrorBoundary>
             }
           />
+          <Route
+            path="/analytics"
+            element={
+              <RouteErrorBoundary routePath="/analytics">
+                <EventAnalytics />
+              </RouteErrorBoundary>
+            }
+          />
           <Route
             path="/profiles"
             element={
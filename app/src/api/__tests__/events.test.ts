@@ -1,10 +1,14 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import {
+  buildEventFilterSegments,
   deleteEvent,
+  getAllEvents,
   getConsoleEvents,
   getEvent,
+  getEventFrames,
   getEvents,
   setEventArchived,
+  updateEvent,
 } from '../events';
 import { getApiClient } from '../client';
 import { validateApiResponse } from '../../lib/api-validator';
@@ -181,6 +185,21 @@ describe('Events API', () => {
     expect(event.Event.Id).toBe('5');
   });
 
+  it('updates only provided event fields', async () => {
+    mockPut.mockResolvedValue({
+      data: {
+        event: buildEventData(5),
+      },
+    });
+
+    await updateEvent('5', { Name: 'Driveway', Notes: '' });
+
+    expect(mockPut).toHaveBeenCalledWith('/events/5.json', {
+      'Event[Name]': 'Driveway',
+      'Event[Notes]': '',
+    });
+  });
+
   it('deletes an event', async () => {
     mockDelete.mockResolvedValue({});
 
@@ -217,6 +236,34 @@ describe('Events API', () => {
     expect(call).toContain('Notes%20REGEXP%3Adetected%3A');
   });
 
+  it('applies archived, text, range and storage filters to events endpoint', async () => {
+    mockGet.mockResolvedValue({
+      data: {
+        events: [buildEventData(10)],
+        pagination: {
+          pageCount: 1, page: 1, current: 1, count: 1,
+          prevPage: false, nextPage: false, limit: 100,
+        },
+      },
+    });
+
+    await getEvents({
+      archived: false,
+      cause: { value: 'Motion', match: 'equals' },
+      maxScore: { min: 50 },
+      length: { min: 30, max: 600 },
+      storage: { ids: ['2'] },
+    });
+
+    const call = mockGet.mock.calls[0][0] as string;
+    expect(call).toContain('Archived%3A0');
+    expect(call).toContain('Cause%3AMotion');
+    expect(call).toContain('MaxScore%20%3E%3D%3A50');
+    expect(call).toContain('Length%20%3E%3D%3A30');
+    expect(call).toContain('Length%20%3C%3D%3A600');
+    expect(call).toContain('StorageId%3A2');
+  });
+
   it('validates responses through api-validator', async () => {
     mockGet.mockResolvedValue({
       data: {
@@ -237,4 +284,126 @@ describe('Events API', () => {
 
     expect(validateApiResponse).toHaveBeenCalled();
   });
+
+  it('fetches every matching page without a page cap', async () => {
+    const pageCount = 12;
+    mockGet.mockImplementation(async (_url: string, { params }: { params: { page: number } }) => ({
+      data: {
+        events: [buildEventData(params.page)],
+        pagination: {
+          pageCount,
+          page: params.page,
+          current: params.page,
+          count: pageCount,
+          prevPage: params.page > 1,
+          nextPage: params.page < pageCount,
+          limit: 100,
+        },
+      },
+    }));
+    const onPage = vi.fn();
+
+    const events = await getAllEvents({ monitorId: '1' }, { onPage });
+
+    expect(events).toHaveLength(pageCount);
+    expect(mockGet).toHaveBeenCalledTimes(pageCount);
+    expect(mockGet.mock.calls[0][0]).toBe('/events/index/MonitorId%3A1.json');
+    expect(onPage).toHaveBeenLastCalledWith(expect.any(Array), {
+      page: pageCount,
+      pageCount,
+      fetched: pageCount,
+      total: pageCount,
+    });
+  });
+
+  it('fetches event frames across pages ordered by frame number', async () => {
+    const frame = (id: number, type: string, score: number) => ({
+      Frame: { Id: String(500 + id), EventId: '7', FrameId: String(id), Type: type, Delta: String(id / 10), Score: String(score) },
+    });
+    mockGet
+      .mockResolvedValueOnce({
+        data: { frames: [frame(3, 'Alarm', 40), frame(1, 'Normal', 0)], pagination: { page: 1, nextPage: true } },
+      })
+      .mockResolvedValueOnce({
+        data: { frames: [frame(2, 'Alarm', 12)], pagination: { page: 2, nextPage: false } },
+      });
+
+    const frames = await getEventFrames('7');
+
+    expect(mockGet).toHaveBeenNthCalledWith(1, '/frames/index/EventId:7.json', { params: { page: 1 } });
+    expect(mockGet).toHaveBeenNthCalledWith(2, '/frames/index/EventId:7.json', { params: { page: 2 } });
+    expect(frames.map((item) => item.Id)).toEqual(['501', '502', '503']);
+  });
+
+  it('hands each page to the callback once without keeping it when asked', async () => {
+    const page = (ids: number[], nextPage: boolean) => ({
+      data: { events: ids.map((id) => buildEventData(id)), pagination: { count: 3, nextPage } },
+    });
+    // Event 2 shifts onto the second page while paging
+    mockGet.mockResolvedValueOnce(page([1, 2], true)).mockResolvedValueOnce(page([2, 3], false));
+    const seen: string[][] = [];
+
+    const events = await getAllEvents(
+      {},
+      {
+        keepEvents: false,
+        onPage: async (pageEvents) => {
+          seen.push(pageEvents.map(({ Event }) => Event.Id));
+        },
+      }
+    );
+
+    expect(events).toEqual([]);
+    expect(seen).toEqual([['1', '2'], ['3']]);
+  });
+
+  it('stops fetching all events when aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(getAllEvents({}, { signal: controller.signal })).rejects.toThrow('Aborted');
+    expect(mockGet).not.toHaveBeenCalled();
+  });
+});
+
+describe('buildEventFilterSegments', () => {
+  const decode = (segments: string[]) => segments.map((segment) => decodeURIComponent(segment.slice(1)));
+
+  it('returns no segments for empty filters', () => {
+    expect(buildEventFilterSegments({})).toEqual([]);
+  });
+
+  it('maps text match modes and negation to operators', () => {
+    expect(decode(buildEventFilterSegments({ cause: { value: 'Motion', match: 'equals' } }))).toEqual(['Cause:Motion']);
+    expect(decode(buildEventFilterSegments({ cause: { value: 'Motion', match: 'equals', negate: true } }))).toEqual(['Cause !=:Motion']);
+    expect(decode(buildEventFilterSegments({ name: { value: 'Event' } }))).toEqual(['Name LIKE:%Event%']);
+    expect(decode(buildEventFilterSegments({ name: { value: 'Event', negate: true } }))).toEqual(['Name NOT LIKE:%Event%']);
+    expect(decode(buildEventFilterSegments({ notes: { value: 'person|car', match: 'regexp' } }))).toEqual(['Notes REGEXP:person|car']);
+    expect(decode(buildEventFilterSegments({ notes: { value: 'spider', match: 'regexp', negate: true } }))).toEqual(['Notes NOT REGEXP:spider']);
+  });
+
+  it('skips empty text filters', () => {
+    expect(buildEventFilterSegments({ cause: { value: '' } })).toEqual([]);
+  });
+
+  it('maps ranges to inclusive comparisons', () => {
+    expect(decode(buildEventFilterSegments({
+      avgScore: { min: 5, max: 20 },
+      frames: { max: 100 },
+    }))).toEqual(['AvgScore >=:5', 'AvgScore <=:20', 'Frames <=:100']);
+  });
+
+  it('includes zero-valued range bounds', () => {
+    expect(decode(buildEventFilterSegments({ maxScore: { min: 0 } }))).toEqual(['MaxScore >=:0']);
+  });
+
+  it('maps archived true and false', () => {
+    expect(decode(buildEventFilterSegments({ archived: true }))).toEqual(['Archived:1']);
+    expect(decode(buildEventFilterSegments({ archived: false }))).toEqual(['Archived:0']);
+  });
+
+  it('builds one segment per storage ID and supports negation', () => {
+    expect(decode(buildEventFilterSegments({ storage: { ids: ['1', ' 2', ''] } }))).toEqual(['StorageId:1', 'StorageId:2']);
+    expect(decode(buildEventFilterSegments({ storage: { ids: ['3'], negate: true } }))).toEqual(['StorageId !=:3']);
+  });
 });
@@ -1,10 +1,13 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
-import { getGroups } from '../groups';
+import { createGroup, deleteGroup, getGroups, updateGroup } from '../groups';
 import { getApiClient } from '../client';
 import { validateApiResponse } from '../../lib/api-validator';
 import type { ApiClient } from '../client';
 
 const mockGet = vi.fn();
+const mockPost = vi.fn();
+const mockPut = vi.fn();
+const mockDelete = vi.fn();
 
 vi.mock('../client', () => ({
   getApiClient: vi.fn(),
@@ -19,6 +22,9 @@ describe('Groups API', () => {
     vi.clearAllMocks();
     vi.mocked(getApiClient).mockReturnValue({
       get: mockGet,
+      post: mockPost,
+      put: mockPut,
+      delete: mockDelete,
     } as unknown as ApiClient);
   });
 
@@ -97,4 +103,52 @@ describe('Groups API', () => {
 
     expect(response.groups[0].Monitor).toHaveLength(0);
   });
+
+  it('creates a nested group with members', async () => {
+    mockPost.mockResolvedValue({ data: {} });
+
+    await createGroup({ name: ' Porch ', parentId: '1', monitorIds: ['2', '3'] });
+
+    const [url, body] = mockPost.mock.calls[0];
+    expect(url).toBe('/groups.json');
+    const params = new URLSearchParams(body);
+    expect(params.get('Group[Name]')).toBe('Porch');
+    expect(params.get('Group[ParentId]')).toBe('1');
+    expect(params.getAll('Monitor[Monitor][]')).toEqual(['2', '3']);
+  });
+
+  it('updates only the given fields', async () => {
+    mockPut.mockResolvedValue({ data: {} });
+
+    await updateGroup('4', { parentId: null });
+
+    const [url, body] = mockPut.mock.calls[0];
+    expect(url).toBe('/groups/4.json');
+    expect(body).toBe('Group%5BParentId%5D=');
+  });
+
+  it('clears group membership with an empty list', async () => {
+    mockPut.mockResolvedValue({ data: {} });
+
+    await updateGroup('4', { monitorIds: [] });
+
+    const params = new URLSearchParams(mockPut.mock.calls[0][1]);
+    expect(params.has('Monitor[Monitor]')).toBe(true);
+    expect(params.getAll('Monitor[Monitor][]')).toEqual([]);
+  });
+
+  it('rejects empty names and self-parenting', async () => {
+    await expect(createGroup({ name: '  ' })).rejects.toThrow('Group name cannot be empty');
+    await expect(updateGroup('4', { parentId: '4' })).rejects.toThrow('own parent');
+    expect(mockPost).not.toHaveBeenCalled();
+    expect(mockPut).not.toHaveBeenCalled();
+  });
+
+  it('deletes a group', async () => {
+    mockDelete.mockResolvedValue({ data: {} });
+
+    await deleteGroup('4');
+
+    expect(mockDelete).toHaveBeenCalledWith('/groups/4.json');
+  });
 });
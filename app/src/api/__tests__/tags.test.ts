@@ -0,0 +1,175 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  assignTagToEvent,
+  createTag,
+  deleteTag,
+  renameTag,
+  setEventTags,
+  unassignTagFromEvent,
+} from '../tags';
+import { getApiClient } from '../client';
+import type { ApiClient } from '../client';
+
+const mockGet = vi.fn();
+const mockPost = vi.fn();
+const mockPut = vi.fn();
+const mockDelete = vi.fn();
+
+vi.mock('../client', () => ({
+  getApiClient: vi.fn(),
+}));
+
+vi.mock('../../lib/logger', () => ({
+  log: { api: vi.fn() },
+  LogLevel: { INFO: 'info', ERROR: 'error', DEBUG: 'debug', WARN: 'warn' },
+}));
+
+const buildTag = (id: string, name: string) => ({
+  Id: id,
+  Name: name,
+  CreateDate: '2026-01-01 00:00:00',
+  CreatedBy: '1',
+  LastAssignedDate: null,
+});
+
+describe('Tags API', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getApiClient).mockReturnValue({
+      get: mockGet,
+      post: mockPost,
+      put: mockPut,
+      delete: mockDelete,
+    } as unknown as ApiClient);
+  });
+
+  describe('createTag', () => {
+    it('posts the trimmed name and returns the saved tag', async () => {
+      mockPost.mockResolvedValue({ data: { tag: { Tag: buildTag('7', 'delivery') } } });
+
+      const tag = await createTag('  delivery ');
+
+      expect(mockPost).toHaveBeenCalledWith(
+        '/tags.json',
+        'Tag%5BName%5D=delivery',
+        { headers: { 'Content-Type': 'application/x-www-form-urlencoded' } }
+      );
+      expect(tag).toMatchObject({ Id: '7', Name: 'delivery' });
+    });
+
+    it('looks the tag up by name when the server does not echo it', async () => {
+      mockPost.mockResolvedValue({ data: { message: 'Saved' } });
+      mockGet.mockResolvedValue({
+        data: { tags: [{ Tag: buildTag('3', 'Person') }, { Tag: buildTag('9', 'Delivery') }] },
+      });
+
+      const tag = await createTag('delivery');
+
+      expect(mockGet).toHaveBeenCalledWith('/tags.json');
+      expect(tag.Id).toBe('9');
+    });
+
+    it('rejects empty names without calling the API', async () => {
+      await expect(createTag('   ')).rejects.toThrow('Tag name cannot be empty');
+      expect(mockPost).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('renameTag', () => {
+    it('puts the new name to the tag endpoint', async () => {
+      mockPut.mockResolvedValue({ data: {} });
+
+      await renameTag('7', 'parcel');
+
+      expect(mockPut).toHaveBeenCalledWith(
+        '/tags/7.json',
+        'Tag%5BName%5D=parcel',
+        { headers: { 'Content-Type': 'application/x-www-form-urlencoded' } }
+      );
+    });
+  });
+
+  describe('deleteTag', () => {
+    it('deletes the tag endpoint', async () => {
+      mockDelete.mockResolvedValue({ data: {} });
+
+      await deleteTag('7');
+
+      expect(mockDelete).toHaveBeenCalledWith('/tags/7.json');
+    });
+  });
+
+  describe('setEventTags', () => {
+    it('sends every tag id as a list field', async () => {
+      mockPut.mockResolvedValue({ data: {} });
+
+      await setEventTags('42', ['1', '5']);
+
+      const body = new URLSearchParams(mockPut.mock.calls[0][1]);
+      expect(mockPut.mock.calls[0][0]).toBe('/events/42.json');
+      expect(body.getAll('Tag[Tag][]')).toEqual(['1', '5']);
+    });
+
+    it('sends an empty association to clear all tags', async () => {
+      mockPut.mockResolvedValue({ data: {} });
+
+      await setEventTags('42', []);
+
+      const body = new URLSearchParams(mockPut.mock.calls[0][1]);
+      expect(body.get('Tag[Tag]')).toBe('');
+      expect(body.has('Tag[Tag][]')).toBe(false);
+    });
+  });
+
+  describe('assignTagToEvent', () => {
+    it('keeps existing tags when adding a new one', async () => {
+      mockGet.mockResolvedValue({
+        data: { tags: [{ Tag: buildTag('1', 'person'), Events_Tags: { EventId: '42' } }] },
+      });
+      mockPut.mockResolvedValue({ data: {} });
+
+      const result = await assignTagToEvent('42', '5');
+
+      expect(mockGet).toHaveBeenCalledWith('/tags/index/Events.Id:42.json');
+      expect(new URLSearchParams(mockPut.mock.calls[0][1]).getAll('Tag[Tag][]')).toEqual(['1', '5']);
+      expect(result).toEqual(['1', '5']);
+    });
+
+    it('skips the update when the tag is already assigned', async () => {
+      mockGet.mockResolvedValue({
+        data: { tags: [{ Tag: buildTag('5', 'car'), Events_Tags: { EventId: '42' } }] },
+      });
+
+      const result = await assignTagToEvent('42', '5');
+
+      expect(mockPut).not.toHaveBeenCalled();
+      expect(result).toEqual(['5']);
+    });
+
+    it('fails when tags are not supported', async () => {
+      mockGet.mockRejectedValue({ status: 404 });
+
+      await expect(assignTagToEvent('42', '5')).rejects.toThrow('Tags are not supported');
+      expect(mockPut).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('unassignTagFromEvent', () => {
+    it('removes only the given tag', async () => {
+      mockGet.mockResolvedValue({
+        data: {
+          tags: [
+            { Tag: buildTag('1', 'person'), Events_Tags: { EventId: '42' } },
+            { Tag: buildTag('5', 'car'), Events_Tags: { EventId: '42' } },
+          ],
+        },
+      });
+      mockPut.mockResolvedValue({ data: {} });
+
+      const result = await unassignTagFromEvent('42', '5');
+
+      expect(new URLSearchParams(mockPut.mock.calls[0][1]).getAll('Tag[Tag][]')).toEqual(['1']);
+      expect(result).toEqual(['1']);
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createZone, deleteZone, updateZone, validateZone, type ZoneInput } from '../zones';
+import { getApiClient } from '../client';
+import type { ApiClient } from '../client';
+
+const mockPost = vi.fn();
+const mockPut = vi.fn();
+const mockDelete = vi.fn();
+
+vi.mock('../client', () => ({
+  getApiClient: vi.fn(),
+}));
+
+vi.mock('../../lib/logger', () => ({
+  log: { api: vi.fn() },
+  LogLevel: { INFO: 'info', ERROR: 'error', DEBUG: 'debug', WARN: 'warn' },
+}));
+
+const BOUNDS = { width: 640, height: 480 };
+
+const zone: ZoneInput = {
+  Name: ' Driveway ',
+  Type: 'Active',
+  Coords: '0,0 100,0 100,50 0,50',
+  CheckMethod: 'Blobs',
+  MinAlarmPixels: 10,
+  MaxAlarmPixels: 500,
+};
+
+describe('Zones API', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getApiClient).mockReturnValue({
+      post: mockPost,
+      put: mockPut,
+      delete: mockDelete,
+    } as unknown as ApiClient);
+  });
+
+  describe('createZone', () => {
+    it('posts the zone with derived coordinate count and area', async () => {
+      mockPost.mockResolvedValue({ data: { message: 'Saved' } });
+
+      await createZone('3', zone, BOUNDS);
+
+      const [url, body, config] = mockPost.mock.calls[0];
+      const params = new URLSearchParams(body);
+      expect(url).toBe('/zones.json');
+      expect(config).toEqual({ headers: { 'Content-Type': 'application/x-www-form-urlencoded' } });
+      expect(params.get('Zone[MonitorId]')).toBe('3');
+      expect(params.get('Zone[Name]')).toBe('Driveway');
+      expect(params.get('Zone[Units]')).toBe('Pixels');
+      expect(params.get('Zone[NumCoords]')).toBe('4');
+      expect(params.get('Zone[Area]')).toBe('5000');
+      expect(params.get('Zone[MinAlarmPixels]')).toBe('10');
+    });
+
+    it('rejects invalid zones without calling the API', async () => {
+      await expect(createZone('3', { ...zone, Coords: '0,0 700,0 700,50' }, BOUNDS)).rejects.toMatchObject({
+        name: 'ZoneValidationError',
+        code: 'OUT_OF_BOUNDS',
+      });
+      expect(mockPost).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateZone', () => {
+    it('puts the zone to its endpoint', async () => {
+      mockPut.mockResolvedValue({ data: {} });
+
+      await updateZone(12, zone, BOUNDS);
+
+      const [url, body] = mockPut.mock.calls[0];
+      expect(url).toBe('/zones/12.json');
+      expect(new URLSearchParams(body).get('Zone[Coords]')).toBe('0,0 100,0 100,50 0,50');
+      expect(new URLSearchParams(body).has('Zone[MonitorId]')).toBe(false);
+    });
+  });
+
+  describe('deleteZone', () => {
+    it('deletes the zone', async () => {
+      mockDelete.mockResolvedValue({ data: {} });
+
+      await deleteZone(12);
+
+      expect(mockDelete).toHaveBeenCalledWith('/zones/12.json');
+    });
+  });
+
+  describe('validateZone', () => {
+    it('requires a name', () => {
+      expect(() => validateZone({ ...zone, Name: '  ' }, BOUNDS)).toThrow('Zone name cannot be empty');
+    });
+
+    it('rejects a minimum above its maximum', () => {
+      expect(() => validateZone({ ...zone, MinBlobs: 5, MaxBlobs: 2 }, BOUNDS)).toThrow(
+        'MinBlobs cannot exceed MaxBlobs'
+      );
+    });
+
+    it('treats a zero maximum as no limit', () => {
+      expect(() => validateZone({ ...zone, MinBlobs: 5, MaxBlobs: 0 }, BOUNDS)).not.toThrow();
+    });
+
+    it('rejects pixel thresholds outside 0-255', () => {
+      expect(() => validateZone({ ...zone, MaxPixelThreshold: 300 }, BOUNDS)).toThrow(
+        'MaxPixelThreshold must be between 0 and 255'
+      );
+    });
+  });
+});
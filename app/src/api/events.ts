@@ -2,12 +2,18 @@
  * Events API
  * 
  * Handles fetching event lists, details, and generating URLs for event media (images, video).
- * Supports filtering, pagination, and archiving.
+ * Supports filtering (full ZoneMinder filter grammar), pagination, archiving,
+ * and editing of event name, cause and notes.
  */
 
 import { getApiClient } from './client';
-import type { EventsResponse, EventData } from './types';
-import { EventsResponseSchema, EventResponseSchema, ConsoleEventsResponseSchema } from './types';
+import type { EventsResponse, EventData, Frame } from './types';
+import {
+  EventsResponseSchema,
+  EventResponseSchema,
+  ConsoleEventsResponseSchema,
+  FramesResponseSchema,
+} from './types';
 import { log, LogLevel } from '../lib/logger';
 import { validateApiResponse } from '../lib/api-validator';
 import {
@@ -17,6 +23,33 @@ import {
 } from '../lib/url-builder';
 import { wrapWithImageProxy } from '../lib/proxy-utils';
 
+/**
+ * How a text filter matches against an event field.
+ * - equals: exact match (`=` / `!=`)
+ * - contains: substring match (`LIKE` / `NOT LIKE` with `%` wildcards)
+ * - regexp: MySQL regular expression (`REGEXP` / `NOT REGEXP`)
+ */
+export type EventTextMatch = 'equals' | 'contains' | 'regexp';
+
+/** Text filter on a string field such as Cause, Name or Notes. */
+export interface EventTextFilter {
+  value: string;
+  match?: EventTextMatch; // Defaults to 'contains'
+  negate?: boolean; // Exclude matching events instead of including them
+}
+
+/** Inclusive numeric range filter. Either bound may be omitted. */
+export interface EventRangeFilter {
+  min?: number;
+  max?: number;
+}
+
+/** Filter on a list of IDs (e.g. storage areas), optionally negated. */
+export interface EventIdListFilter {
+  ids: string[];
+  negate?: boolean;
+}
+
 export interface EventFilters {
   monitorId?: string;
   startDateTime?: string;
@@ -24,29 +57,63 @@ export interface EventFilters {
   archived?: boolean;
   minAlarmFrames?: number;
   notesRegexp?: string; // REGEXP filter on Notes field (e.g., "detected:" for object detection)
+  cause?: EventTextFilter;
+  name?: EventTextFilter;
+  notes?: EventTextFilter;
+  maxScore?: EventRangeFilter;
+  avgScore?: EventRangeFilter;
+  length?: EventRangeFilter; // Event length in seconds
+  frames?: EventRangeFilter;
+  storage?: EventIdListFilter;
   limit?: number;
   sort?: string;
   direction?: 'asc' | 'desc';
 }
 
 /**
- * Get events with optional filtering.
- * 
- * Automatically fetches multiple pages if needed to reach the desired limit.
- * Handles ZM API pagination logic internally.
- * 
- * @param filters - Object containing filter criteria (monitor, date, etc.)
- * @returns Promise resolving to EventsResponse with list of events and pagination info
+ * Operators used for each text match mode, as [include, exclude].
+ * These are the operators ZoneMinder's API FilterComponent accepts in named parameters.
  */
-export async function getEvents(filters: EventFilters = {}): Promise<EventsResponse> {
-  const client = getApiClient();
+const TEXT_MATCH_OPERATORS: Record<EventTextMatch, [string, string]> = {
+  equals: ['', ' !='],
+  contains: [' LIKE', ' NOT LIKE'],
+  regexp: [' REGEXP', ' NOT REGEXP'],
+};
 
-  // Build filter path for ZM API
+/**
+ * Build the CakePHP filter segments for the given event filters.
+ *
+ * Each segment has the form `Field[ operator]:value` and is URL-encoded.
+ * ZoneMinder combines repeated fields with the same operator into an IN clause,
+ * and separate fields are ANDed together.
+ *
+ * @param filters - Event filter criteria
+ * @returns Array of encoded path segments, each with a leading slash
+ */
+export function buildEventFilterSegments(filters: EventFilters): string[] {
   const filterSegments: string[] = [];
   const addFilterSegment = (segment: string) => {
     filterSegments.push(`/${encodeURIComponent(segment)}`);
   };
 
+  const addTextFilter = (field: string, filter: EventTextFilter | undefined) => {
+    if (!filter || !filter.value) return;
+    const match = filter.match ?? 'contains';
+    const operator = TEXT_MATCH_OPERATORS[match][filter.negate ? 1 : 0];
+    const value = match === 'contains' ? `%${filter.value}%` : filter.value;
+    addFilterSegment(`${field}${operator}:${value}`);
+  };
+
+  const addRangeFilter = (field: string, range: EventRangeFilter | undefined) => {
+    if (!range) return;
+    if (range.min !== undefined && Number.isFinite(range.min)) {
+      addFilterSegment(`${field} >=:${range.min}`);
+    }
+    if (range.max !== undefined && Number.isFinite(range.max)) {
+      addFilterSegment(`${field} <=:${range.max}`);
+    }
+  };
+
   if (filters.monitorId) {
     // Support multiple monitor IDs separated by commas
     const monitorIds = filters.monitorId.split(',');
@@ -63,13 +130,49 @@ export async function getEvents(filters: EventFilters = {}): Promise<EventsRespo
     const formattedEnd = filters.endDateTime.replace('T', ' ');
     addFilterSegment(`EndDateTime <=:${formattedEnd}`);
   }
+  if (filters.archived !== undefined) {
+    addFilterSegment(`Archived:${filters.archived ? 1 : 0}`);
+  }
   if (filters.minAlarmFrames) {
     addFilterSegment(`AlarmFrames >=:${filters.minAlarmFrames}`);
   }
   if (filters.notesRegexp) {
     addFilterSegment(`Notes REGEXP:${filters.notesRegexp}`);
   }
+  addTextFilter('Cause', filters.cause);
+  addTextFilter('Name', filters.name);
+  addTextFilter('Notes', filters.notes);
+  addRangeFilter('MaxScore', filters.maxScore);
+  addRangeFilter('AvgScore', filters.avgScore);
+  addRangeFilter('Length', filters.length);
+  addRangeFilter('Frames', filters.frames);
+  if (filters.storage) {
+    const operator = filters.storage.negate ? ' !=' : '';
+    filters.storage.ids
+      .map(id => id.trim())
+      .filter(Boolean)
+      .forEach(id => {
+        addFilterSegment(`StorageId${operator}:${id}`);
+      });
+  }
+
+  return filterSegments;
+}
+
+/**
+ * Get events with optional filtering.
+ * 
+ * Automatically fetches multiple pages if needed to reach the desired limit.
+ * Handles ZM API pagination logic internally.
+ * 
+ * @param filters - Object containing filter criteria (monitor, date, etc.)
+ * @returns Promise resolving to EventsResponse with list of events and pagination info
+ */
+export async function getEvents(filters: EventFilters = {}): Promise<EventsResponse> {
+  const client = getApiClient();
 
+  // Build filter path for ZM API
+  const filterSegments = buildEventFilterSegments(filters);
   const filterPath = filterSegments.join('');
 
   // Use /events/index.json for both filtered and unfiltered requests
@@ -158,6 +261,91 @@ export async function getEvents(filters: EventFilters = {}): Promise<EventsRespo
   };
 }
 
+export interface EventPageProgress {
+  /** Pages fetched so far */
+  page: number;
+  /** Total pages reported by the server */
+  pageCount: number;
+  /** Events fetched so far */
+  fetched: number;
+  /** Total events matching the filters */
+  total: number;
+}
+
+/** Events requested per page by getAllEvents */
+const ALL_EVENTS_PAGE_SIZE = 100;
+
+export interface GetAllEventsOptions {
+  /** Abort the remaining page requests */
+  signal?: AbortSignal;
+  /** Called with the new events of each page as it arrives; the next page waits for it */
+  onPage?: (events: EventData[], progress: EventPageProgress) => void | Promise<void>;
+  /** Collect the events for the result; turn off when onPage consumes them (default true) */
+  keepEvents?: boolean;
+}
+
+/**
+ * Get every event matching the filters.
+ *
+ * Unlike getEvents this has no page cap, so it is meant for bulk operations
+ * (select all matching, exports) rather than list display. `filters.limit`
+ * is ignored.
+ *
+ * @param filters - Filter criteria, as for getEvents
+ * @param options - Abort signal and per-page callback
+ * @returns Promise resolving to all matching events, or none when keepEvents is off
+ */
+export async function getAllEvents(
+  filters: EventFilters = {},
+  options: GetAllEventsOptions = {}
+): Promise<EventData[]> {
+  const client = getApiClient();
+  const filterPath = buildEventFilterSegments(filters).join('');
+  const url = filterPath ? `/events/index${filterPath}.json` : '/events/index.json';
+
+  const seenIds = new Set<string>();
+  const events: EventData[] = [];
+  let page = 1;
+  let hasMore = true;
+
+  while (hasMore) {
+    if (options.signal?.aborted) {
+      throw new DOMException('Aborted', 'AbortError');
+    }
+
+    const params: Record<string, string | number> = { page, limit: ALL_EVENTS_PAGE_SIZE };
+    if (filters.sort) params.sort = filters.sort;
+    if (filters.direction) params.direction = filters.direction;
+
+    log.api(`Fetching all events page ${page}`, LogLevel.DEBUG, { fetched: seenIds.size });
+
+    const response = await client.get<EventsResponse>(url, { params, signal: options.signal });
+    const validated = validateApiResponse(EventsResponseSchema, response.data, {
+      endpoint: url,
+      method: 'GET',
+    });
+
+    // Deduplicate in case new events shift page boundaries while paging
+    const pageEvents = validated.events.filter((event) => !seenIds.has(event.Event.Id));
+    pageEvents.forEach((event) => seenIds.add(event.Event.Id));
+    if (options.keepEvents !== false) events.push(...pageEvents);
+
+    await options.onPage?.(pageEvents, {
+      page,
+      pageCount: validated.pagination?.pageCount ?? page,
+      fetched: seenIds.size,
+      total: validated.pagination?.count ?? seenIds.size,
+    });
+
+    hasMore = !!validated.pagination?.nextPage && validated.events.length > 0;
+    page++;
+  }
+
+  log.api('Fetched all matching events', LogLevel.INFO, { total: seenIds.size, pages: page - 1 });
+
+  return events;
+}
+
 /**
  * Get a single event by ID.
  *
@@ -177,6 +365,48 @@ export async function getEvent(eventId: string): Promise<EventData> {
   return validated.event;
 }
 
+/**
+ * Get the stored frames of an event, ordered by frame number.
+ *
+ * Each frame carries its type (Normal, Bulk or Alarm), score and delta
+ * (seconds since event start). Servers that paginate the frames endpoint
+ * are followed page by page.
+ *
+ * @param eventId - The ID of the event
+ * @returns Promise resolving to the event's frames
+ */
+export async function getEventFrames(eventId: string): Promise<Frame[]> {
+  const client = getApiClient();
+  const url = `/frames/index/EventId:${eventId}.json`;
+
+  const framesById = new Map<string, Frame>();
+  let page = 1;
+  let hasMore = true;
+
+  while (hasMore) {
+    const response = await client.get(url, { params: { page } });
+    const validated = validateApiResponse(FramesResponseSchema, response.data, {
+      endpoint: url,
+      method: 'GET',
+    });
+
+    validated.frames.forEach(({ Frame: frame }) => framesById.set(frame.Id, frame));
+
+    hasMore = !!validated.pagination?.nextPage && validated.frames.length > 0;
+    page++;
+  }
+
+  const frames = Array.from(framesById.values()).sort((a, b) => a.FrameId - b.FrameId);
+
+  log.api('Fetched event frames', LogLevel.DEBUG, {
+    eventId,
+    count: frames.length,
+    alarmFrames: frames.filter((frame) => frame.Type === 'Alarm').length,
+  });
+
+  return frames;
+}
+
 /**
  * Delete an event.
  * 
@@ -209,6 +439,41 @@ export async function setEventArchived(eventId: string, archived: boolean): Prom
   return validated.event;
 }
 
+/** Event fields that can be edited from the app (empty Notes clears them) */
+export type EventEditableFields = Partial<Record<'Name' | 'Cause' | 'Notes', string>>;
+
+/**
+ * Update editable fields of an event.
+ *
+ * Sends only the provided fields as `Event[Field]` form values.
+ *
+ * @param eventId - The ID of the event
+ * @param fields - Fields to update (Name, Cause, Notes)
+ * @returns Promise resolving to updated EventData
+ */
+export async function updateEvent(eventId: string, fields: EventEditableFields): Promise<EventData> {
+  const client = getApiClient();
+  const payload: Record<string, string> = {};
+  (Object.keys(fields) as Array<keyof EventEditableFields>).forEach((key) => {
+    const value = fields[key];
+    if (value !== undefined) {
+      payload[`Event[${key}]`] = value;
+    }
+  });
+
+  log.api('Updating event', LogLevel.INFO, { eventId, fields: Object.keys(payload) });
+
+  const response = await client.put(`/events/${eventId}.json`, payload);
+
+  // Validate response with Zod
+  const validated = validateApiResponse(EventResponseSchema, response.data, {
+    endpoint: `/events/${eventId}.json`,
+    method: 'PUT',
+  });
+
+  return validated.event;
+}
+
 /**
  * Get event count for console (recent events per monitor).
  *
@@ -251,14 +516,14 @@ export async function getConsoleEvents(interval: string = '1 hour'): Promise<Rec
  *
  * @param portalUrl - Base portal URL
  * @param eventId - The ID of the event
- * @param frame - Frame number, 'snapshot', or 'objdetect'
+ * @param frame - Frame number, 'snapshot', 'alarm', or 'objdetect'
  * @param options - Options for token, dimensions, and API URL override
  * @returns Full URL string for the image
  */
 export function getEventImageUrl(
   portalUrl: string,
   eventId: string,
-  frame: number | 'snapshot' | 'objdetect',
+  frame: number | 'snapshot' | 'alarm' | 'objdetect',
   options: {
     token?: string;
     width?: number;
@@ -1,7 +1,7 @@
 /**
  * Groups API
  *
- * Handles fetching monitor groups from ZoneMinder.
+ * Handles fetching and managing monitor groups in ZoneMinder.
  * Groups are hierarchical (parent/child) and monitors can belong to multiple groups.
  */
 
@@ -31,3 +31,86 @@ export async function getGroups(): Promise<GroupsResponse> {
     method: 'GET',
   });
 }
+
+/**
+ * Editable group fields. Omitted fields are left unchanged on update.
+ */
+export interface GroupInput {
+  name?: string;
+  /** Parent group ID, or null for a top-level group */
+  parentId?: string | null;
+  /** Complete list of member monitor IDs */
+  monitorIds?: string[];
+}
+
+function buildGroupForm({ name, parentId, monitorIds }: GroupInput): URLSearchParams {
+  const formData = new URLSearchParams();
+  if (name !== undefined) {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error('Group name cannot be empty');
+    }
+    formData.append('Group[Name]', trimmed);
+  }
+  if (parentId !== undefined) {
+    formData.append('Group[ParentId]', parentId ?? '');
+  }
+  // Groups_Monitors is saved from the group side and must list every member;
+  // an empty value clears the membership
+  if (monitorIds !== undefined) {
+    if (monitorIds.length === 0) {
+      formData.append('Monitor[Monitor]', '');
+    } else {
+      monitorIds.forEach((monitorId) => formData.append('Monitor[Monitor][]', monitorId));
+    }
+  }
+  return formData;
+}
+
+/**
+ * Create a group.
+ *
+ * @param group - Group fields; a name is required
+ */
+export async function createGroup(group: GroupInput & { name: string }): Promise<void> {
+  const formData = buildGroupForm(group);
+
+  log.api('Creating group', LogLevel.INFO, { name: group.name, parentId: group.parentId });
+
+  const client = getApiClient();
+  await client.post('/groups.json', formData.toString(), {
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+  });
+}
+
+/**
+ * Update a group's name, parent or members.
+ *
+ * @param groupId - ID of the group to update
+ * @param group - Fields to change
+ */
+export async function updateGroup(groupId: string, group: GroupInput): Promise<void> {
+  if (group.parentId === groupId) {
+    throw new Error('A group cannot be its own parent');
+  }
+  const formData = buildGroupForm(group);
+
+  log.api('Updating group', LogLevel.INFO, { groupId, ...group });
+
+  const client = getApiClient();
+  await client.put(`/groups/${groupId}.json`, formData.toString(), {
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+  });
+}
+
+/**
+ * Delete a group. Its monitors are not deleted.
+ *
+ * @param groupId - ID of the group to delete
+ */
+export async function deleteGroup(groupId: string): Promise<void> {
+  log.api('Deleting group', LogLevel.INFO, { groupId });
+
+  const client = getApiClient();
+  await client.delete(`/groups/${groupId}.json`);
+}
@@ -288,6 +288,12 @@ export function getStreamUrl(
   return wrapWithImageProxy(fullUrl);
 }
 
+export interface PTZCommandOptions {
+  speed?: number;
+  tiltSpeed?: number;
+  point?: { x: number; y: number };
+}
+
 /**
  * Send PTZ control command to a monitor.
  * 
@@ -295,16 +301,18 @@ export function getStreamUrl(
  * @param monitorId - The ID of the monitor
  * @param command - The PTZ command to execute
  * @param token - Optional auth token
+ * @param options - Optional move speeds in percent of the control's speed range, or a map point
  */
 export async function controlMonitor(
   portalUrl: string,
   monitorId: string,
   command: string,
-  token?: string
+  token?: string,
+  options: PTZCommandOptions = {}
 ): Promise<void> {
-  log.api('Sending PTZ control command', LogLevel.INFO, { monitorId, command });
+  log.api('Sending PTZ control command', LogLevel.INFO, { monitorId, command, ...options });
 
-  const url = buildMonitorControlUrl(portalUrl, monitorId, command, { token });
+  const url = buildMonitorControlUrl(portalUrl, monitorId, command, { token, ...options });
 
   // In dev mode on web, use proxy server to avoid CORS issues
   const proxiedUrl = wrapWithImageProxy(url);
@@ -1,14 +1,14 @@
 /**
  * Tags API
  *
- * Handles fetching tags and event-tag mappings from ZoneMinder.
+ * Handles fetching and managing tags and event-tag mappings in ZoneMinder.
  * Tags are labels that can be assigned to events (e.g., "person", "car", "cat").
  * Not all ZoneMinder instances support tags - this module handles graceful degradation.
  */
 
 import { getApiClient } from './client';
-import type { TagsResponse, EventTagsResponse, Tag } from './types';
-import { TagsResponseSchema, EventTagsResponseSchema } from './types';
+import type { TagsResponse, EventTagsResponse, Tag, TagResponse } from './types';
+import { TagsResponseSchema, EventTagsResponseSchema, TagResponseSchema } from './types';
 import { safeValidateApiResponse, validateApiResponse } from '../lib/api-validator';
 import { log, LogLevel } from '../lib/logger';
 import { TAGS_BATCH_SIZE } from '../lib/zm-constants';
@@ -206,3 +206,153 @@ export async function checkTagsSupported(): Promise<boolean> {
   const tags = await getTags();
   return tags !== null;
 }
+
+/**
+ * Create a new tag.
+ *
+ * Servers that don't echo the saved tag back are handled by looking the
+ * new tag up by name in the refreshed tags list.
+ *
+ * @param name - Tag name (trimmed)
+ * @returns Promise resolving to the created tag
+ */
+export async function createTag(name: string): Promise<Tag> {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('Tag name cannot be empty');
+  }
+
+  log.api('Creating tag', LogLevel.INFO, { name: trimmed });
+
+  const client = getApiClient();
+  const formData = new URLSearchParams();
+  formData.append('Tag[Name]', trimmed);
+
+  const response = await client.post<TagResponse>('/tags.json', formData.toString(), {
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+  });
+
+  const validated = safeValidateApiResponse(TagResponseSchema, response.data, {
+    endpoint: '/tags.json',
+    method: 'POST',
+  });
+  if (validated?.tag) {
+    return validated.tag.Tag;
+  }
+
+  const tags = await getTags();
+  const created = tags
+    ? extractUniqueTags(tags).find((tag) => tag.Name.toLowerCase() === trimmed.toLowerCase())
+    : undefined;
+  if (!created) {
+    throw new Error(`Tag "${trimmed}" was not found after creation`);
+  }
+  return created;
+}
+
+/**
+ * Rename an existing tag.
+ *
+ * @param tagId - ID of the tag to rename
+ * @param name - New tag name (trimmed)
+ */
+export async function renameTag(tagId: string, name: string): Promise<void> {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('Tag name cannot be empty');
+  }
+
+  log.api('Renaming tag', LogLevel.INFO, { tagId, name: trimmed });
+
+  const client = getApiClient();
+  const formData = new URLSearchParams();
+  formData.append('Tag[Name]', trimmed);
+
+  await client.put(`/tags/${tagId}.json`, formData.toString(), {
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+  });
+}
+
+/**
+ * Delete a tag. ZoneMinder removes its event assignments as well.
+ *
+ * @param tagId - ID of the tag to delete
+ */
+export async function deleteTag(tagId: string): Promise<void> {
+  log.api('Deleting tag', LogLevel.INFO, { tagId });
+
+  const client = getApiClient();
+  await client.delete(`/tags/${tagId}.json`);
+}
+
+/**
+ * Replace the full set of tags assigned to an event.
+ *
+ * ZoneMinder saves the Events_Tags association from the event side, so the
+ * request must list every tag the event should keep. An empty list clears
+ * all tags.
+ *
+ * @param eventId - Event to update
+ * @param tagIds - Complete list of tag IDs for the event
+ */
+export async function setEventTags(eventId: string, tagIds: string[]): Promise<void> {
+  log.api('Setting event tags', LogLevel.INFO, { eventId, tagIds });
+
+  const client = getApiClient();
+  const formData = new URLSearchParams();
+  if (tagIds.length === 0) {
+    formData.append('Tag[Tag]', '');
+  } else {
+    tagIds.forEach((tagId) => formData.append('Tag[Tag][]', tagId));
+  }
+
+  await client.put(`/events/${eventId}.json`, formData.toString(), {
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+  });
+}
+
+/**
+ * Fetch the current tag IDs of one event, failing when tags are unsupported.
+ */
+async function getCurrentTagIds(eventId: string): Promise<string[]> {
+  const eventTagMap = await getEventTags([eventId]);
+  if (eventTagMap === null) {
+    throw new Error('Tags are not supported on this server');
+  }
+  return (eventTagMap.get(eventId) ?? []).map((tag) => tag.Id);
+}
+
+/**
+ * Assign a tag to an event, keeping its other tags.
+ * The event's current tags are re-read first so concurrent edits are not lost.
+ *
+ * @param eventId - Event to tag
+ * @param tagId - Tag to assign
+ * @returns Tag IDs assigned to the event afterwards
+ */
+export async function assignTagToEvent(eventId: string, tagId: string): Promise<string[]> {
+  const current = await getCurrentTagIds(eventId);
+  if (current.includes(tagId)) {
+    return current;
+  }
+  const next = [...current, tagId];
+  await setEventTags(eventId, next);
+  return next;
+}
+
+/**
+ * Remove a tag from an event, keeping its other tags.
+ *
+ * @param eventId - Event to untag
+ * @param tagId - Tag to remove
+ * @returns Tag IDs assigned to the event afterwards
+ */
+export async function unassignTagFromEvent(eventId: string, tagId: string): Promise<string[]> {
+  const current = await getCurrentTagIds(eventId);
+  if (!current.includes(tagId)) {
+    return current;
+  }
+  const next = current.filter((id) => id !== tagId);
+  await setEventTags(eventId, next);
+  return next;
+}
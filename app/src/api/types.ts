@@ -368,6 +368,38 @@ export const EventResponseSchema = z.object({
 
 export type EventResponse = z.infer<typeof EventResponseSchema>;
 
+// Frame types (per-frame records of an event)
+// Normal frames are stored for every frame in Record mode; Mocord stores
+// periodic Bulk frames outside of alarms, and every alarmed frame as Alarm.
+export const FrameTypeEnum = z.enum(['Normal', 'Bulk', 'Alarm']);
+
+export const FrameSchema = z.object({
+  Id: z.coerce.string(),
+  EventId: z.coerce.string(),
+  FrameId: z.coerce.number(),  // 1-based frame number within the event
+  Type: FrameTypeEnum,
+  TimeStamp: z.string().optional(),
+  Delta: z.coerce.number(),  // Seconds since the start of the event
+  Score: z.coerce.number(),
+});
+
+export const FrameDataSchema = z.object({
+  Frame: FrameSchema,
+});
+
+export const FramesResponseSchema = z.object({
+  frames: z.array(FrameDataSchema),
+  pagination: z.object({
+    page: z.coerce.number(),
+    nextPage: z.boolean(),
+  }).partial().optional(),
+});
+
+export type Frame = z.infer<typeof FrameSchema>;
+export type FrameType = z.infer<typeof FrameTypeEnum>;
+export type FrameData = z.infer<typeof FrameDataSchema>;
+export type FramesResponse = z.infer<typeof FramesResponseSchema>;
+
 // Console events response (for getConsoleEvents endpoint)
 // API can return either an object (record) or an array, so we handle both
 export const ConsoleEventsResponseSchema = z.object({
@@ -562,6 +594,9 @@ export interface EventCardProps {
   thumbnailWidth: number;
   thumbnailHeight: number;
   tags?: Tag[];
+  /** Portal URL for hover/long-press scrub previews; previews are off without it */
+  portalUrl?: string;
+  accessToken?: string;
 }
 
 // Zone types
@@ -681,8 +716,15 @@ export const EventTagsResponseSchema = z.object({
   tags: z.array(TagEventMappingSchema),
 });
 
+// Response schema for POST /api/tags.json and PUT /api/tags/{id}.json
+// Older servers only return a status message, so the tag is optional
+export const TagResponseSchema = z.object({
+  tag: TagDataSchema.optional(),
+});
+
 export type Tag = z.infer<typeof TagSchema>;
 export type TagData = z.infer<typeof TagDataSchema>;
 export type TagEventMapping = z.infer<typeof TagEventMappingSchema>;
 export type TagsResponse = z.infer<typeof TagsResponseSchema>;
 export type EventTagsResponse = z.infer<typeof EventTagsResponseSchema>;
+export type TagResponse = z.infer<typeof TagResponseSchema>;
@@ -1,15 +1,49 @@
 /**
  * Zones API
  *
- * Handles fetching zone data for monitors.
+ * Handles fetching and editing zone data for monitors.
  * Zones define detection areas on a monitor.
  */
 
 import { getApiClient } from './client';
-import type { ZonesResponse, Zone } from './types';
+import type { ZonesResponse, Zone, ZoneType } from './types';
 import { ZonesResponseSchema } from './types';
 import { validateApiResponse } from '../lib/api-validator';
 import { log, LogLevel } from '../lib/logger';
+import {
+  formatZoneCoords,
+  getPolygonArea,
+  parseZoneCoords,
+  validateZonePolygon,
+  ZoneValidationError,
+} from '../lib/zone-utils';
+
+/** Threshold fields as [min, max] pairs; each min must not exceed its max */
+export const ZONE_THRESHOLD_PAIRS = [
+  ['MinPixelThreshold', 'MaxPixelThreshold'],
+  ['MinAlarmPixels', 'MaxAlarmPixels'],
+  ['MinFilterPixels', 'MaxFilterPixels'],
+  ['MinBlobPixels', 'MaxBlobPixels'],
+  ['MinBlobs', 'MaxBlobs'],
+] as const;
+
+export type ZoneThresholdField = (typeof ZONE_THRESHOLD_PAIRS)[number][number] | 'FilterX' | 'FilterY';
+
+/**
+ * Editable zone fields. Coords are in the monitor's original (unrotated) pixels.
+ */
+export type ZoneInput = {
+  Name: string;
+  Type: ZoneType;
+  Coords: string;
+  CheckMethod?: string;
+} & Partial<Record<ZoneThresholdField, number | null>>;
+
+/** Size of the monitor image the zone must fit in */
+export interface ZoneBounds {
+  width: number;
+  height: number;
+}
 
 /**
  * Get all zones for a specific monitor.
@@ -51,3 +85,112 @@ export async function getAllZones(): Promise<Zone[]> {
   // Extract Zone objects from the wrapper
   return validated.zones.map((z) => z.Zone);
 }
+
+/**
+ * Check a zone before it is sent to the server.
+ *
+ * @param zone - Zone fields to check
+ * @param bounds - Monitor image size (original, before rotation)
+ * @throws ZoneValidationError describing the first problem found
+ */
+export function validateZone(zone: ZoneInput, bounds: ZoneBounds): void {
+  if (!zone.Name.trim()) {
+    throw new ZoneValidationError('Zone name cannot be empty', 'NAME_REQUIRED');
+  }
+
+  const problem = validateZonePolygon(parseZoneCoords(zone.Coords), bounds.width, bounds.height);
+  if (problem) {
+    throw new ZoneValidationError(`Invalid zone polygon: ${problem}`, problem);
+  }
+
+  const thresholds: ZoneThresholdField[] = [...ZONE_THRESHOLD_PAIRS.flat(), 'FilterX', 'FilterY'];
+  for (const field of thresholds) {
+    const value = zone[field];
+    if (value !== undefined && value !== null && (!Number.isFinite(value) || value < 0)) {
+      throw new ZoneValidationError(`${field} must be a positive number`, 'INVALID_THRESHOLD');
+    }
+  }
+  for (const field of ['MinPixelThreshold', 'MaxPixelThreshold'] as const) {
+    const value = zone[field];
+    if (value !== undefined && value !== null && value > 255) {
+      throw new ZoneValidationError(`${field} must be between 0 and 255`, 'INVALID_THRESHOLD');
+    }
+  }
+  for (const [minField, maxField] of ZONE_THRESHOLD_PAIRS) {
+    const min = zone[minField];
+    const max = zone[maxField];
+    if (min !== undefined && min !== null && max !== undefined && max !== null && max > 0 && min > max) {
+      throw new ZoneValidationError(`${minField} cannot exceed ${maxField}`, 'INVALID_THRESHOLD');
+    }
+  }
+}
+
+/**
+ * Build the form body for a zone save.
+ * NumCoords and Area are derived from the coordinates.
+ */
+function buildZoneForm(zone: ZoneInput, extra: Record<string, string> = {}): string {
+  const points = parseZoneCoords(zone.Coords);
+  const formData = new URLSearchParams();
+  const fields: Record<string, unknown> = {
+    ...extra,
+    ...zone,
+    Name: zone.Name.trim(),
+    Coords: formatZoneCoords(points),
+    NumCoords: points.length,
+    Area: Math.round(getPolygonArea(points)),
+  };
+  Object.entries(fields).forEach(([key, value]) => {
+    if (value === undefined || value === null) return;
+    formData.append(`Zone[${key}]`, String(value));
+  });
+  return formData.toString();
+}
+
+/**
+ * Create a zone on a monitor.
+ *
+ * @param monitorId - The monitor to add the zone to
+ * @param zone - Zone fields
+ * @param bounds - Monitor image size, for validation
+ * @throws ZoneValidationError if the zone is invalid; nothing is sent then
+ */
+export async function createZone(monitorId: string, zone: ZoneInput, bounds: ZoneBounds): Promise<void> {
+  validateZone(zone, bounds);
+  log.api('Creating zone', LogLevel.INFO, { monitorId, name: zone.Name });
+
+  const client = getApiClient();
+  await client.post('/zones.json', buildZoneForm(zone, { MonitorId: monitorId, Units: 'Pixels' }), {
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+  });
+}
+
+/**
+ * Update an existing zone.
+ *
+ * @param zoneId - The zone to update
+ * @param zone - Zone fields
+ * @param bounds - Monitor image size, for validation
+ * @throws ZoneValidationError if the zone is invalid; nothing is sent then
+ */
+export async function updateZone(zoneId: number, zone: ZoneInput, bounds: ZoneBounds): Promise<void> {
+  validateZone(zone, bounds);
+  log.api('Updating zone', LogLevel.INFO, { zoneId, name: zone.Name });
+
+  const client = getApiClient();
+  await client.put(`/zones/${zoneId}.json`, buildZoneForm(zone), {
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+  });
+}
+
+/**
+ * Delete a zone.
+ *
+ * @param zoneId - The zone to delete
+ */
+export async function deleteZone(zoneId: number): Promise<void> {
+  log.api('Deleting zone', LogLevel.INFO, { zoneId });
+
+  const client = getApiClient();
+  await client.delete(`/zones/${zoneId}.json`);
+}
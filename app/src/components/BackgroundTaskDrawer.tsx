@@ -7,7 +7,7 @@
 
 import * as React from 'react';
 import { useTranslation } from 'react-i18next';
-import { ChevronDown, ChevronUp, X, Download, Upload, RefreshCw, FileDown, AlertCircle, CheckCircle2 } from 'lucide-react';
+import { ChevronDown, ChevronUp, X, Download, Upload, RefreshCw, FileDown, AlertCircle, CheckCircle2, ListChecks, RotateCcw } from 'lucide-react';
 import { useBackgroundTasks, type BackgroundTask, type TaskType } from '../stores/backgroundTasks';
 import { Progress } from './ui/progress';
 import { Badge } from './ui/badge';
@@ -19,6 +19,7 @@ const TASK_ICONS: Record<TaskType, React.ElementType> = {
   upload: Upload,
   sync: RefreshCw,
   export: FileDown,
+  bulk: ListChecks,
 };
 
 interface TaskItemProps {
@@ -27,7 +28,10 @@ interface TaskItemProps {
 
 function TaskItem({ task }: TaskItemProps) {
   const { t } = useTranslation();
-  const { cancelTask, removeTask } = useBackgroundTasks();
+  const { cancelTask, removeTask, retryTask } = useBackgroundTasks();
+  const [showFailures, setShowFailures] = React.useState(false);
+  const items = task.items;
+  const failedItems = items?.failed ?? [];
   const Icon = TASK_ICONS[task.type] || Download;
 
   const formatBytes = (bytes: number) => {
@@ -83,6 +87,18 @@ function TaskItem({ task }: TaskItemProps) {
 
         {/* Actions */}
         <div className="flex items-center gap-1">
+          {task.status === 'failed' && task.retryFn && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => retryTask(task.id)}
+              className="h-6 px-2 text-xs gap-1"
+              data-testid="task-retry-button"
+            >
+              <RotateCcw className="h-3 w-3" />
+              {t('backgroundTasks.retry_failed')}
+            </Button>
+          )}
           {task.status === 'in_progress' && task.cancelFn && (
             <Button
               variant="ghost"
@@ -113,7 +129,19 @@ function TaskItem({ task }: TaskItemProps) {
         <div className="space-y-1" role="progressbar" aria-valuenow={task.progress} aria-valuemin={0} aria-valuemax={100}>
           <Progress value={task.progress} className="h-1.5" data-testid="task-progress-bar" />
           <div className="flex items-center justify-between text-xs text-muted-foreground">
-            <span aria-live="polite" data-testid="task-progress-text">{task.progress}%</span>
+            <span aria-live="polite" data-testid="task-progress-text">
+              {items
+                ? t('backgroundTasks.items_progress', {
+                    processed: items.succeeded + items.failed.length,
+                    total: items.total,
+                  })
+                : `${task.progress}%`}
+            </span>
+            {items && failedItems.length > 0 && (
+              <span className="text-red-500" data-testid="task-failed-count">
+                {t('backgroundTasks.items_failed_count', { count: failedItems.length })}
+              </span>
+            )}
             {task.metadata.fileSize && task.metadata.bytesProcessed !== undefined && (
               <span data-testid="task-size-text">
                 {formatBytes(task.metadata.bytesProcessed)} / {formatBytes(task.metadata.fileSize)}
@@ -124,7 +152,32 @@ function TaskItem({ task }: TaskItemProps) {
       )}
 
       {/* Error message */}
-      {task.status === 'failed' && task.error && (
+      {task.status === 'failed' && items && failedItems.length > 0 ? (
+        <div className="space-y-1">
+          <button
+            type="button"
+            className="text-xs text-red-500 text-left hover:underline"
+            onClick={() => setShowFailures((show) => !show)}
+            aria-expanded={showFailures}
+            data-testid="task-error-message"
+          >
+            {t('backgroundTasks.items_failed', {
+              failed: failedItems.length,
+              total: items.total,
+              succeeded: items.succeeded,
+            })}
+          </button>
+          {showFailures && (
+            <ul className="max-h-32 overflow-y-auto text-xs text-muted-foreground space-y-0.5" data-testid="task-failure-list">
+              {failedItems.map((failure) => (
+                <li key={failure.id} className="truncate" title={failure.error}>
+                  #{failure.id}: {failure.error}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ) : task.status === 'failed' && task.error && (
         <p className="text-xs text-red-500" role="alert" aria-live="assertive" data-testid="task-error-message">
           {task.error.message}
         </p>
@@ -133,7 +186,19 @@ function TaskItem({ task }: TaskItemProps) {
       {/* Completed status */}
       {task.status === 'completed' && (
         <p className="text-xs text-green-500" role="status" aria-live="polite" data-testid="task-completed-text">
-          {t('backgroundTasks.completed')}
+          {items
+            ? t('backgroundTasks.items_completed', { count: items.succeeded })
+            : t('backgroundTasks.completed')}
+        </p>
+      )}
+
+      {/* Cancelled multi-item task */}
+      {task.status === 'cancelled' && items && (
+        <p className="text-xs text-muted-foreground" data-testid="task-cancelled-text">
+          {t('backgroundTasks.items_cancelled', {
+            processed: items.succeeded + items.failed.length,
+            total: items.total,
+          })}
         </p>
       )}
     </div>
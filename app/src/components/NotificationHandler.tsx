@@ -14,7 +14,7 @@ import { useCurrentProfile } from '../hooks/useCurrentProfile';
 import { useProfileStore } from '../stores/profile';
 import { useAuthStore } from '../stores/auth';
 import { toast } from 'sonner';
-import { Bell } from 'lucide-react';
+import { Bell, HeartPulse } from 'lucide-react';
 import { getEventCauseIcon } from '../lib/event-icons';
 import { log, LogLevel } from '../lib/logger';
 import { navigationService } from '../lib/navigation';
@@ -23,6 +23,8 @@ import { Capacitor } from '@capacitor/core';
 import { Platform } from '../lib/platform';
 import { getPushService } from '../services/pushNotifications';
 import { getEventPoller } from '../services/eventPoller';
+import { getHealthWatchdog } from '../services/healthWatchdog';
+import { getCameraHealthMessage } from '../lib/camera-health';
 import { getNotificationService } from '../services/notifications';
 
 /**
@@ -34,6 +36,7 @@ export function NotificationHandler() {
   const navigate = useNavigate();
   const { currentProfile } = useCurrentProfile();
   const getDecryptedPassword = useProfileStore((state) => state.getDecryptedPassword);
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
   const { t } = useTranslation();
 
   const {
@@ -431,6 +434,16 @@ export function NotificationHandler() {
     };
   }, [currentProfile?.id, settings?.notificationMode, settings?.enabled]);
 
+  // Camera health watchdog runs independently of event notifications
+  const healthAlerts = settings?.healthAlerts ?? false;
+  useEffect(() => {
+    if (!currentProfile?.id || !isAuthenticated || !healthAlerts) return;
+
+    const watchdog = getHealthWatchdog();
+    watchdog.start(currentProfile.id);
+    return () => watchdog.stop();
+  }, [currentProfile?.id, isAuthenticated, healthAlerts]);
+
   // Listen for new events and show toasts
   useEffect(() => {
     if (!settings?.showToasts || events.length === 0) {
@@ -443,6 +456,30 @@ export function NotificationHandler() {
     if (latestEvent.EventId !== lastEventId.current) {
       lastEventId.current = latestEvent.EventId;
 
+      if (latestEvent.health) {
+        const { key, options } = getCameraHealthMessage(latestEvent.health);
+        const isRecovery = latestEvent.health.status === 'recovered';
+        toast[isRecovery ? 'success' : 'warning'](latestEvent.MonitorName, {
+          description: t(key, options),
+          icon: <HeartPulse className="h-4 w-4" />,
+          duration: isRecovery ? 5000 : 10000,
+          action: {
+            label: t('common.view'),
+            onClick: () => navigate(`/monitors/${latestEvent.MonitorId}`),
+          },
+        });
+        if (settings?.playSound) {
+          playNotificationSound();
+        }
+        log.notifications('Showed camera health toast', LogLevel.INFO, {
+          profileId: currentProfile?.id,
+          monitor: latestEvent.MonitorName,
+          issue: latestEvent.health.issue,
+          status: latestEvent.health.status,
+        });
+        return;
+      }
+
       // Show toast notification
       toast(
         <div className="flex items-start gap-3">
@@ -15,6 +15,7 @@ const mockSetDrawerState = vi.fn();
 const mockClearCompleted = vi.fn();
 const mockCancelTask = vi.fn();
 const mockRemoveTask = vi.fn();
+const mockRetryTask = vi.fn();
 
 vi.mock('../../stores/backgroundTasks', () => ({
   useBackgroundTasks: (selector?: (state: any) => any) => {
@@ -25,6 +26,7 @@ vi.mock('../../stores/backgroundTasks', () => ({
       clearCompleted: mockClearCompleted,
       cancelTask: mockCancelTask,
       removeTask: mockRemoveTask,
+      retryTask: mockRetryTask,
       activeTasks: () => mockTasks.filter(t => t.status === 'pending' || t.status === 'in_progress'),
       completedTasks: () => mockTasks.filter(t => t.status === 'completed' || t.status === 'failed' || t.status === 'cancelled'),
     };
@@ -46,6 +48,7 @@ describe('BackgroundTaskDrawer', () => {
     mockClearCompleted.mockClear();
     mockCancelTask.mockClear();
     mockRemoveTask.mockClear();
+    mockRetryTask.mockClear();
   });
 
   describe('Hidden State', () => {
@@ -429,4 +432,52 @@ describe('BackgroundTaskDrawer', () => {
       expect(errorMessage).toHaveTextContent('Network error');
     });
   });
+
+  describe('Multi-item Tasks', () => {
+    it('should show item counts instead of a percentage', () => {
+      mockDrawerState = 'expanded';
+      mockTasks = [
+        {
+          id: 'task-1',
+          type: 'bulk',
+          status: 'in_progress',
+          progress: 40,
+          metadata: { title: 'Archive 5 events' },
+          createdAt: Date.now(),
+          items: { total: 5, succeeded: 1, failed: [{ id: '7', error: 'Forbidden' }] },
+        },
+      ];
+
+      render(<BackgroundTaskDrawer />);
+
+      expect(screen.getByTestId('task-progress-text')).toHaveTextContent('backgroundTasks.items_progress');
+      expect(screen.getByTestId('task-failed-count')).toBeInTheDocument();
+    });
+
+    it('should list failed items and retry them', () => {
+      mockDrawerState = 'expanded';
+      mockTasks = [
+        {
+          id: 'task-1',
+          type: 'bulk',
+          status: 'failed',
+          progress: 100,
+          metadata: { title: 'Delete 3 events' },
+          createdAt: Date.now(),
+          completedAt: Date.now(),
+          error: new Error('1 of 3 items failed'),
+          items: { total: 3, succeeded: 2, failed: [{ id: '42', error: 'Forbidden' }] },
+          retryFn: vi.fn(),
+        },
+      ];
+
+      render(<BackgroundTaskDrawer />);
+
+      fireEvent.click(screen.getByTestId('task-error-message'));
+      expect(screen.getByTestId('task-failure-list')).toHaveTextContent('#42: Forbidden');
+
+      fireEvent.click(screen.getByTestId('task-retry-button'));
+      expect(mockRetryTask).toHaveBeenCalledWith('task-1');
+    });
+  });
 });
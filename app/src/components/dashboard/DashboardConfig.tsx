@@ -5,6 +5,7 @@
  * Features:
  * - Widget type selection (monitor, events, timeline, heatmap)
  * - Monitor selection for monitor widgets
+ * - Saved zoom view per monitor for monitor widgets
  * - Custom widget titles
  * - Form validation
  * - Profile-aware widget creation
@@ -36,6 +37,7 @@ import { Input } from '../ui/input';
 import { Checkbox } from '../ui/checkbox';
 import { ScrollArea } from '../ui/scroll-area';
 import { useTranslation } from 'react-i18next';
+import { ZoomViewPicker } from './ZoomViewPicker';
 
 export function DashboardConfig() {
     const { t } = useTranslation();
@@ -44,6 +46,7 @@ export function DashboardConfig() {
     const [selectedMonitors, setSelectedMonitors] = useState<string[]>([]);
     const [title, setTitle] = useState('');
     const [feedFit, setFeedFit] = useState<MonitorFeedFit>('contain');
+    const [zoomViews, setZoomViews] = useState<Record<string, string>>({});
     const addWidget = useDashboardStore((state) => state.addWidget);
     const currentProfile = useProfileStore(
         useShallow((state) => {
@@ -112,6 +115,10 @@ export function DashboardConfig() {
         if (type === 'monitor') {
             settings.monitorIds = monitors;
             settings.feedFit = fit;
+            const chosenViews = Object.entries(zoomViews).filter(([monitorId]) => monitors.includes(monitorId));
+            if (chosenViews.length > 0) {
+                settings.zoomViews = Object.fromEntries(chosenViews);
+            }
         } else if (type === 'events') {
             settings.monitorId = monitors[0] || undefined;
             settings.eventCount = 5;
@@ -148,6 +155,7 @@ export function DashboardConfig() {
         setSelectedMonitors([]);
         setTitle('');
         setFeedFit('contain');
+        setZoomViews({});
     };
 
     /**
@@ -250,6 +258,16 @@ export function DashboardConfig() {
                             )}
                         </div>
                     )}
+                    {selectedType === 'monitor' && (
+                        <ZoomViewPicker
+                            profileId={profileId}
+                            monitors={enabledMonitors
+                                .filter((m) => selectedMonitors.includes(m.Monitor.Id))
+                                .map((m) => m.Monitor)}
+                            value={zoomViews}
+                            onChange={setZoomViews}
+                        />
+                    )}
                     {selectedType === 'monitor' && (
                         <div className="space-y-2">
                             <Label>{t('dashboard.feed_fit')}</Label>
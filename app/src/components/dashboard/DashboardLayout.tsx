@@ -174,13 +174,16 @@ export function DashboardLayout() {
                                     <MonitorWidget
                                         monitorIds={monitorIds}
                                         objectFit={widget.settings.feedFit || 'contain'}
+                                        zoomViews={widget.settings.zoomViews}
                                     />
                                 )}
                                 {widget.type === 'events' && (
                                     <EventsWidget
                                         monitorIds={widget.settings.monitorIds ?? (widget.settings.monitorId ? [widget.settings.monitorId] : undefined)}
+                                        savedSearchId={widget.settings.savedSearchId}
                                         limit={widget.settings.eventCount}
                                         refreshInterval={widget.settings.refreshInterval}
+                                        groupIncidents={widget.settings.groupIncidents}
                                     />
                                 )}
                                 {widget.type === 'timeline' && (
@@ -5,6 +5,8 @@
  * Features:
  * - Edit widget title
  * - Change monitor selection for monitor widgets
+ * - Pick saved zoom views for monitor widgets
+ * - Pick a saved search for events widgets
  * - Update widget settings
  * - Form validation
  */
@@ -27,10 +29,16 @@ import { getMonitors } from '../../api/monitors';
 import { Label } from '../ui/label';
 import { Input } from '../ui/input';
 import { Checkbox } from '../ui/checkbox';
+import { Switch } from '../ui/switch';
 import { ScrollArea } from '../ui/scroll-area';
 import { useTranslation } from 'react-i18next';
 import { filterEnabledMonitors } from '../../lib/filters';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { useSavedSearchesStore } from '../../stores/savedSearches';
+import { ZoomViewPicker } from './ZoomViewPicker';
+
+/** Select value for "no saved search" (Radix Select does not allow empty values) */
+const NO_SAVED_SEARCH = 'none';
 
 interface WidgetEditDialogProps {
     open: boolean;
@@ -46,7 +54,15 @@ export function WidgetEditDialog({ open, onOpenChange, widget, profileId }: Widg
         widget.settings.monitorIds || (widget.settings.monitorId ? [widget.settings.monitorId] : [])
     );
     const [feedFit, setFeedFit] = useState<MonitorFeedFit>((widget.settings.feedFit as MonitorFeedFit) || 'contain');
+    const [zoomViews, setZoomViews] = useState<Record<string, string>>(widget.settings.zoomViews ?? {});
+    const [savedSearchId, setSavedSearchId] = useState<string>(widget.settings.savedSearchId || NO_SAVED_SEARCH);
+    const [groupIncidents, setGroupIncidents] = useState<boolean>(!!widget.settings.groupIncidents);
     const updateWidget = useDashboardStore((state) => state.updateWidget);
+    const profileSearches = useSavedSearchesStore((state) => state.profileSearches[profileId]);
+    const savedSearches = useMemo(
+        () => [...(profileSearches ?? [])].sort((a, b) => a.name.localeCompare(b.name)),
+        [profileSearches]
+    );
 
     const { data: monitors } = useQuery({
         queryKey: ['monitors'],
@@ -65,6 +81,9 @@ export function WidgetEditDialog({ open, onOpenChange, widget, profileId }: Widg
             widget.settings.monitorIds || (widget.settings.monitorId ? [widget.settings.monitorId] : [])
         );
         setFeedFit((widget.settings.feedFit as MonitorFeedFit) || 'contain');
+        setZoomViews(widget.settings.zoomViews ?? {});
+        setSavedSearchId(widget.settings.savedSearchId || NO_SAVED_SEARCH);
+        setGroupIncidents(!!widget.settings.groupIncidents);
     }, [widget]);
 
     /**
@@ -87,8 +106,12 @@ export function WidgetEditDialog({ open, onOpenChange, widget, profileId }: Widg
         if (widget.type === 'monitor') {
             updatedSettings.monitorIds = selectedMonitors;
             updatedSettings.feedFit = feedFit;
+            const chosenViews = Object.entries(zoomViews).filter(([monitorId]) => selectedMonitors.includes(monitorId));
+            updatedSettings.zoomViews = chosenViews.length > 0 ? Object.fromEntries(chosenViews) : undefined;
         } else if (widget.type === 'events') {
             updatedSettings.monitorIds = selectedMonitors;
+            updatedSettings.savedSearchId = savedSearchId === NO_SAVED_SEARCH ? undefined : savedSearchId;
+            updatedSettings.groupIncidents = groupIncidents;
         }
 
         updateWidget(profileId, widget.id, {
@@ -122,6 +145,53 @@ export function WidgetEditDialog({ open, onOpenChange, widget, profileId }: Widg
                         />
                     </div>
 
+                    {/* Saved Search (for events widgets) */}
+                    {widget.type === 'events' && (
+                        <div className="space-y-2">
+                            <Label>{t('saved_searches.widget_label')}</Label>
+                            <Select value={savedSearchId} onValueChange={setSavedSearchId}>
+                                <SelectTrigger data-testid="widget-edit-saved-search-select">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value={NO_SAVED_SEARCH} data-testid="widget-edit-saved-search-none">
+                                        {t('saved_searches.widget_none')}
+                                    </SelectItem>
+                                    {savedSearches.map((search) => (
+                                        <SelectItem
+                                            key={search.id}
+                                            value={search.id}
+                                            data-testid={`widget-edit-saved-search-${search.id}`}
+                                        >
+                                            {search.name}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                            <p className="text-xs text-muted-foreground">
+                                {savedSearches.length === 0 ? t('saved_searches.widget_empty_hint') : t('saved_searches.widget_hint')}
+                            </p>
+                        </div>
+                    )}
+
+                    {/* Incident grouping (for events widgets) */}
+                    {widget.type === 'events' && (
+                        <div className="flex items-center justify-between gap-2 p-3 rounded-md border bg-card">
+                            <div className="space-y-0.5">
+                                <Label htmlFor="widget-group-incidents" className="cursor-pointer">
+                                    {t('dashboard.group_incidents')}
+                                </Label>
+                                <p className="text-xs text-muted-foreground">{t('dashboard.group_incidents_hint')}</p>
+                            </div>
+                            <Switch
+                                id="widget-group-incidents"
+                                checked={groupIncidents}
+                                onCheckedChange={setGroupIncidents}
+                                data-testid="widget-edit-group-incidents"
+                            />
+                        </div>
+                    )}
+
                     {/* Monitor Selection (for monitor and events widgets) */}
                     {(widget.type === 'monitor' || widget.type === 'events') && (
                         <div className="space-y-2">
@@ -155,6 +225,16 @@ export function WidgetEditDialog({ open, onOpenChange, widget, profileId }: Widg
                             )}
                         </div>
                     )}
+                    {widget.type === 'monitor' && (
+                        <ZoomViewPicker
+                            profileId={profileId}
+                            monitors={enabledMonitors
+                                .filter((monitor) => selectedMonitors.includes(monitor.Monitor.Id))
+                                .map((monitor) => monitor.Monitor)}
+                            value={zoomViews}
+                            onChange={setZoomViews}
+                        />
+                    )}
                     {widget.type === 'monitor' && (
                         <div className="space-y-2">
                             <Label>{t('dashboard.feed_fit')}</Label>
@@ -0,0 +1,71 @@
+/**
+ * Zoom View Picker
+ *
+ * Lets a monitor widget show a saved zoom view of a monitor instead of its
+ * whole image. Only the chosen monitors that have saved views are listed.
+ */
+
+import { useTranslation } from 'react-i18next';
+import type { Monitor } from '../../api/types';
+import { useZoomViewsStore } from '../../stores/zoomViews';
+import { Label } from '../ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+
+/** Select value for the whole image (Radix Select does not allow empty values) */
+const FULL_VIEW = 'full';
+
+interface ZoomViewPickerProps {
+    profileId: string;
+    /** Monitors chosen for the widget */
+    monitors: Monitor[];
+    /** Zoom view ID per monitor ID */
+    value: Record<string, string>;
+    onChange: (value: Record<string, string>) => void;
+}
+
+export function ZoomViewPicker({ profileId, monitors, value, onChange }: ZoomViewPickerProps) {
+    const { t } = useTranslation();
+    const profileZoom = useZoomViewsStore((state) => state.profileZoom[profileId]);
+    const withViews = monitors.filter((monitor) => (profileZoom?.[monitor.Id]?.views.length ?? 0) > 0);
+
+    if (withViews.length === 0) return null;
+
+    const handleChange = (monitorId: string, viewId: string) => {
+        const next = { ...value };
+        if (viewId === FULL_VIEW) {
+            delete next[monitorId];
+        } else {
+            next[monitorId] = viewId;
+        }
+        onChange(next);
+    };
+
+    return (
+        <div className="space-y-2">
+            <Label>{t('dashboard.zoom_views')}</Label>
+            {withViews.map((monitor) => {
+                const views = profileZoom?.[monitor.Id]?.views ?? [];
+                const selected = views.some((view) => view.id === value[monitor.Id]) ? value[monitor.Id] : FULL_VIEW;
+
+                return (
+                    <div key={monitor.Id} className="flex items-center gap-2">
+                        <span className="flex-1 truncate text-sm">{monitor.Name}</span>
+                        <Select value={selected} onValueChange={(viewId) => handleChange(monitor.Id, viewId)}>
+                            <SelectTrigger className="h-8 w-40" data-testid={`dashboard-zoom-view-${monitor.Id}`}>
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value={FULL_VIEW}>{t('dashboard.zoom_full_view')}</SelectItem>
+                                {views.map((view) => (
+                                    <SelectItem key={view.id} value={view.id}>
+                                        {view.name}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
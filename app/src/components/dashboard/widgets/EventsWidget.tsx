@@ -6,44 +6,127 @@
  * - Auto-refresh every 30 seconds
  * - Clickable events navigate to event detail
  * - Optional monitor filtering
+ * - Optional saved search (monitors, dates, tags, favorites, advanced filters)
  * - Configurable event limit
+ * - Optional grouping into incidents across monitors
  * - Loading and empty states
  */
 
-import { memo } from 'react';
+import { memo, useMemo } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { getEvents } from '../../../api/events';
+import { getMonitors } from '../../../api/monitors';
 import { format } from 'date-fns';
 import { useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { getEventCauseIcon } from '../../../lib/event-icons';
 import { useBandwidthSettings } from '../../../hooks/useBandwidthSettings';
+import { useCurrentProfile } from '../../../hooks/useCurrentProfile';
+import { useEventTagMapping } from '../../../hooks/useEventTags';
+import { useSavedSearchesStore } from '../../../stores/savedSearches';
+import { useEventFavoritesStore } from '../../../stores/eventFavorites';
+import { savedSearchToEventFilters } from '../../../lib/saved-searches';
+import { formatForServer } from '../../../lib/time';
+import { groupEventsIntoIncidents } from '../../../lib/event-incidents';
+import { useAuthStore } from '../../../stores/auth';
+import { IncidentThumbnailStrip } from '../../events/IncidentCard';
+
+/**
+ * How many more events to fetch when a saved search filters by tags or
+ * favorites, which can only be applied to the fetched events.
+ */
+const CLIENT_FILTER_FETCH_FACTOR = 10;
+
+/** How many more events to fetch when grouping, as incidents span several events */
+const INCIDENT_FETCH_FACTOR = 5;
 
 interface EventsWidgetProps {
     /** Optional monitor IDs to filter events */
     monitorIds?: string[];
+    /** Optional saved search; its monitors take precedence over monitorIds */
+    savedSearchId?: string;
     /** Maximum number of events to display (default: 5) */
     limit?: number;
     /** Override auto-refresh interval in milliseconds (default: uses bandwidth settings) */
     refreshInterval?: number;
+    /** Show incidents (near-simultaneous events across monitors) instead of single events; limit counts incidents */
+    groupIncidents?: boolean;
 }
 
-export const EventsWidget = memo(function EventsWidget({ monitorIds, limit = 5, refreshInterval }: EventsWidgetProps) {
+export const EventsWidget = memo(function EventsWidget({ monitorIds, savedSearchId, limit = 5, refreshInterval, groupIncidents = false }: EventsWidgetProps) {
     const { t } = useTranslation();
     const navigate = useNavigate();
     const bandwidth = useBandwidthSettings();
+    const { currentProfile, settings } = useCurrentProfile();
+    const accessToken = useAuthStore((state) => state.accessToken);
+    const profileId = currentProfile?.id;
+    const savedSearch = useSavedSearchesStore((state) =>
+        profileId && savedSearchId
+            ? state.profileSearches[profileId]?.find((search) => search.id === savedSearchId)
+            : undefined
+    );
+    const favoriteIds = useEventFavoritesStore((state) => (profileId ? state.profileFavorites[profileId] : undefined));
+
     const monitorIdFilter = monitorIds?.length ? monitorIds.join(',') : undefined;
+    const needsClientFilter = !!savedSearch && (savedSearch.favoritesOnly || savedSearch.tagIds.length > 0);
+    const fetchLimit = (needsClientFilter ? limit * CLIENT_FILTER_FETCH_FACTOR : limit)
+        * (groupIncidents ? INCIDENT_FETCH_FACTOR : 1);
+
     const { data: events, isLoading } = useQuery({
-        queryKey: ['events', monitorIdFilter, limit],
-        queryFn: () => getEvents({
-            monitorId: monitorIdFilter,
-            limit,
-            sort: 'StartTime',
-            direction: 'desc'
-        }),
+        queryKey: ['events', monitorIdFilter, fetchLimit, savedSearch?.id, savedSearch?.updatedAt],
+        // Relative date ranges are resolved on every fetch so the widget follows the clock
+        queryFn: () => {
+            const searchFilters = savedSearch ? savedSearchToEventFilters(savedSearch, formatForServer) : {};
+            return getEvents({
+                ...searchFilters,
+                monitorId: searchFilters.monitorId ?? monitorIdFilter,
+                limit: fetchLimit,
+                sort: 'StartTime',
+                direction: 'desc'
+            });
+        },
         refetchInterval: refreshInterval ?? bandwidth.eventsWidgetInterval,
     });
 
+    const eventIdsForTags = useMemo(
+        () => (savedSearch?.tagIds.length ? events?.events.map(({ Event }) => Event.Id) ?? [] : []),
+        [events, savedSearch]
+    );
+    const { eventTagMap } = useEventTagMapping({
+        eventIds: eventIdsForTags,
+        enabled: eventIdsForTags.length > 0,
+    });
+
+    const filteredEvents = useMemo(() => {
+        const list = events?.events ?? [];
+        if (!savedSearch || !needsClientFilter) return list;
+        const favorites = new Set(favoriteIds ?? []);
+        return list.filter(({ Event }) => {
+            if (savedSearch.favoritesOnly && !favorites.has(Event.Id)) return false;
+            if (savedSearch.tagIds.length > 0) {
+                const tags = eventTagMap.get(Event.Id) || [];
+                if (!tags.some((tag) => savedSearch.tagIds.includes(tag.Id))) return false;
+            }
+            return true;
+        });
+    }, [events, savedSearch, needsClientFilter, favoriteIds, eventTagMap]);
+
+    const visibleEvents = useMemo(() => filteredEvents.slice(0, limit), [filteredEvents, limit]);
+
+    const incidentGapSeconds = settings.incidentGapSeconds;
+    const incidents = useMemo(
+        () => (groupIncidents ? groupEventsIntoIncidents(filteredEvents, incidentGapSeconds).slice(0, limit) : []),
+        [groupIncidents, filteredEvents, incidentGapSeconds, limit]
+    );
+
+    const { data: monitorsData } = useQuery({
+        queryKey: ['monitors'],
+        queryFn: getMonitors,
+        enabled: groupIncidents,
+    });
+    const getMonitorName = (monitorId: string) =>
+        monitorsData?.monitors.find(({ Monitor }) => Monitor.Id === monitorId)?.Monitor.Name || `Camera ${monitorId}`;
+
     if (isLoading) {
         return (
             <div className="p-4 space-y-2">
@@ -54,7 +137,7 @@ export const EventsWidget = memo(function EventsWidget({ monitorIds, limit = 5,
         );
     }
 
-    if (!events?.events.length) {
+    if (!visibleEvents.length) {
         return (
             <div className="h-full flex items-center justify-center text-muted-foreground text-sm p-4">
                 {t('dashboard.no_recent_events')}
@@ -62,10 +145,46 @@ export const EventsWidget = memo(function EventsWidget({ monitorIds, limit = 5,
         );
     }
 
+    if (groupIncidents && currentProfile) {
+        return (
+            <div className="h-full overflow-y-auto [&::-webkit-scrollbar]:hidden [-ms-overflow-style:none] [scrollbar-width:none]">
+                <div className="divide-y">
+                    {incidents.map((incident) => (
+                        <div
+                            key={incident.id}
+                            className="p-3 hover:bg-muted/50 cursor-pointer transition-colors space-y-2"
+                            onClick={() => navigate(`/events/${incident.events[0].Event.Id}`, { state: { from: '/dashboard' } })}
+                            data-testid="events-widget-incident"
+                        >
+                            <div className="flex items-center justify-between gap-2">
+                                <span className="font-medium text-sm truncate">
+                                    {incident.monitorIds.map(getMonitorName).join(', ')}
+                                </span>
+                                <span className="text-[10px] text-muted-foreground whitespace-nowrap">
+                                    {Number.isFinite(incident.start)
+                                        ? `${format(incident.start, 'HH:mm:ss')} – ${format(incident.end, 'HH:mm:ss')}`
+                                        : incident.events[0].Event.StartDateTime || t('common.unknown')}
+                                </span>
+                            </div>
+                            <IncidentThumbnailStrip
+                                incident={incident}
+                                getMonitorName={getMonitorName}
+                                portalUrl={currentProfile.portalUrl}
+                                accessToken={accessToken || undefined}
+                                from="/dashboard"
+                                compact
+                            />
+                        </div>
+                    ))}
+                </div>
+            </div>
+        );
+    }
+
     return (
         <div className="h-full overflow-y-auto [&::-webkit-scrollbar]:hidden [-ms-overflow-style:none] [scrollbar-width:none]">
             <div className="divide-y">
-                {events.events.map((event) => (
+                {visibleEvents.map((event) => (
                     <div
                         key={event.Event.Id}
                         className="p-3 hover:bg-muted/50 cursor-pointer transition-colors flex items-center gap-3"
@@ -10,6 +10,8 @@
  * - Error handling and offline states
  * - Stream URL generation with auth tokens
  * - Hover overlay with monitor name
+ * - Optional saved zoom view per monitor
+ * - Digital zoom with Ctrl/Cmd + wheel outside edit mode
  */
 
 import { useEffect, useState, useRef, useMemo, memo } from 'react';
@@ -24,9 +26,16 @@ import { useAuthStore } from '../../../stores/auth';
 import { useMonitorStore } from '../../../stores/monitors';
 import { useSettingsStore, type MonitorFeedFit } from '../../../stores/settings';
 import { useBandwidthSettings } from '../../../hooks/useBandwidthSettings';
+import { useDigitalZoom } from '../../../hooks/useDigitalZoom';
+import { useZoomViewsStore } from '../../../stores/zoomViews';
+import { useDashboardStore } from '../../../stores/dashboard';
+import { FULL_CROP, type ZoomCrop } from '../../../lib/digital-zoom';
+import { parseMonitorRotation } from '../../../lib/monitor-rotation';
+import { getOrientedDimensions } from '../../../lib/zone-utils';
 import { useShallow } from 'zustand/react/shallow';
 import { AlertTriangle, VideoOff } from 'lucide-react';
 import { Skeleton } from '../../ui/skeleton';
+import { ZoomIndicator } from '../../video/ZoomIndicator';
 import { useTranslation } from 'react-i18next';
 import { calculateGridDimensions, getGridTemplateStyle } from '../../../lib/grid-utils';
 import { filterEnabledMonitors } from '../../../lib/filters';
@@ -36,6 +45,8 @@ interface MonitorWidgetProps {
     /** Array of monitor IDs to display */
     monitorIds: string[];
     objectFit?: MonitorFeedFit;
+    /** Saved zoom view ID per monitor ID */
+    zoomViews?: Record<string, string>;
 }
 
 /**
@@ -43,7 +54,15 @@ interface MonitorWidgetProps {
  * Renders a single monitor stream with error handling
  * Respects streaming vs snapshot settings from user preferences
  */
-function SingleMonitor({ monitorId, objectFit }: { monitorId: string; objectFit: MonitorFeedFit }) {
+function SingleMonitor({
+    monitorId,
+    objectFit,
+    zoomViewId,
+}: {
+    monitorId: string;
+    objectFit: MonitorFeedFit;
+    zoomViewId?: string;
+}) {
     const { t } = useTranslation();
     const navigate = useNavigate();
     const bandwidth = useBandwidthSettings();
@@ -61,6 +80,29 @@ function SingleMonitor({ monitorId, objectFit }: { monitorId: string; objectFit:
     );
     const accessToken = useAuthStore((state) => state.accessToken);
     const regenerateConnKey = useMonitorStore((state) => state.regenerateConnKey);
+    const isEditing = useDashboardStore((state) => state.isEditing);
+    const zoomView = useZoomViewsStore((state) =>
+        currentProfile && zoomViewId
+            ? state.profileZoom[currentProfile.id]?.[monitorId]?.views.find((view) => view.id === zoomViewId)
+            : undefined
+    );
+    // Opens on the saved view; wheel and click belong to the dashboard, so zooming needs a modifier key
+    const viewCrop = zoomView?.crop ?? FULL_CROP;
+    const [crop, setCrop] = useState<ZoomCrop>(viewCrop);
+    const { ref: digitalZoomRef, ...digitalZoom } = useDigitalZoom({
+        crop,
+        onCropChange: setCrop,
+        imageSize: getOrientedDimensions(
+            Number(monitor?.Monitor.Width) || 1920,
+            Number(monitor?.Monitor.Height) || 1080,
+            parseMonitorRotation(monitor?.Monitor.Orientation)
+        ),
+        fit: objectFit,
+        enabled: !isEditing,
+        wheelNeedsModifier: true,
+        touch: false,
+        doubleClick: false,
+    });
     // Select raw profileSettings to avoid calling getProfileSettings() which creates new objects
     const rawSettings = useSettingsStore(
         useShallow((state) => state.profileSettings[currentProfile?.id || ''])
@@ -232,8 +274,11 @@ function SingleMonitor({ monitorId, objectFit }: { monitorId: string; objectFit:
 
     return (
         <div
+            ref={digitalZoomRef}
             className="w-full h-full bg-black relative group overflow-hidden cursor-pointer"
-            onClick={() => navigate(`/monitors/${monitor.Monitor.Id}`, { state: { from: '/dashboard' } })}
+            onClick={() =>
+                !digitalZoom.wasDragged() && navigate(`/monitors/${monitor.Monitor.Id}`, { state: { from: '/dashboard' } })
+            }
         >
             {displayedImageUrl && (
                 <img
@@ -241,7 +286,7 @@ function SingleMonitor({ monitorId, objectFit }: { monitorId: string; objectFit:
                     src={displayedImageUrl}
                     alt={monitor.Monitor.Name}
                     className="w-full h-full"
-                    style={{ objectFit }}
+                    style={{ objectFit, ...digitalZoom.mediaStyle }}
                     onError={(e) => {
                         (e.target as HTMLImageElement).style.display = 'none';
                         (e.target as HTMLImageElement).nextElementSibling?.classList.remove('hidden');
@@ -251,14 +296,17 @@ function SingleMonitor({ monitorId, objectFit }: { monitorId: string; objectFit:
             <div className="hidden absolute inset-0 flex items-center justify-center text-white/50 bg-zinc-900">
                 <VideoOff className="h-8 w-8" />
             </div>
+            {(zoomView ? crop !== viewCrop : digitalZoom.isZoomed) && <ZoomIndicator scale={crop.scale} onReset={() => setCrop(viewCrop)} />}
             <div className="absolute bottom-0 left-0 right-0 p-2 bg-gradient-to-t from-black/80 to-transparent opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none">
-                <p className="text-white text-xs font-medium truncate">{monitor.Monitor.Name}</p>
+                <p className="text-white text-xs font-medium truncate">
+                    {zoomView ? `${monitor.Monitor.Name} · ${zoomView.name}` : monitor.Monitor.Name}
+                </p>
             </div>
         </div>
     );
 }
 
-export const MonitorWidget = memo(function MonitorWidget({ monitorIds, objectFit = 'contain' }: MonitorWidgetProps) {
+export const MonitorWidget = memo(function MonitorWidget({ monitorIds, objectFit = 'contain', zoomViews }: MonitorWidgetProps) {
     const { t } = useTranslation();
 
     // Fetch all monitors to check which ones are deleted
@@ -294,7 +342,15 @@ export const MonitorWidget = memo(function MonitorWidget({ monitorIds, objectFit
     }
 
     if (activeMonitorIds.length === 1) {
-        return <SingleMonitor monitorId={activeMonitorIds[0]} objectFit={objectFit} />;
+        return (
+            <SingleMonitor
+                // A different zoom view starts over from that view
+                key={zoomViews?.[activeMonitorIds[0]]}
+                monitorId={activeMonitorIds[0]}
+                objectFit={objectFit}
+                zoomViewId={zoomViews?.[activeMonitorIds[0]]}
+            />
+        );
     }
 
     // Calculate optimal grid layout for multiple monitors
@@ -308,7 +364,7 @@ export const MonitorWidget = memo(function MonitorWidget({ monitorIds, objectFit
         >
             {activeMonitorIds.map((id) => (
                 <div key={id} className="relative overflow-hidden">
-                    <SingleMonitor monitorId={id} objectFit={objectFit} />
+                    <SingleMonitor key={zoomViews?.[id]} monitorId={id} objectFit={objectFit} zoomViewId={zoomViews?.[id]} />
                 </div>
             ))}
         </div>
@@ -0,0 +1,65 @@
+/**
+ * Continuous Gap Overlay Component
+ *
+ * Shown over the player in continuous playback when there is a gap before
+ * the next recording. Continues automatically after a short pause.
+ */
+
+import { useEffect } from 'react';
+import { format } from 'date-fns';
+import { useTranslation } from 'react-i18next';
+import { SkipForward } from 'lucide-react';
+import { Button } from '../ui/button';
+
+interface ContinuousGapOverlayProps {
+  /** Seconds without recording */
+  gapSeconds: number;
+  /** Start of the next recording, in epoch milliseconds */
+  nextStart: number;
+  /** Play the next recording */
+  onContinue: () => void;
+  /** Stay on the current event */
+  onCancel: () => void;
+}
+
+/** How long the gap is announced before the next recording starts */
+const GAP_OVERLAY_MS = 3000;
+
+const formatGap = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = Math.round(seconds % 60);
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${rest}s`;
+  return `${rest}s`;
+};
+
+export function ContinuousGapOverlay({ gapSeconds, nextStart, onContinue, onCancel }: ContinuousGapOverlayProps) {
+  const { t } = useTranslation();
+
+  useEffect(() => {
+    const timeout = setTimeout(onContinue, GAP_OVERLAY_MS);
+    return () => clearTimeout(timeout);
+  }, [onContinue]);
+
+  return (
+    <div
+      className="absolute inset-0 z-10 flex flex-col items-center justify-center gap-3 bg-black/75 text-white"
+      data-testid="continuous-gap-overlay"
+    >
+      <p className="text-lg font-semibold">{t('event_detail.continuous.gap', { duration: formatGap(gapSeconds) })}</p>
+      <p className="text-sm text-white/80">
+        {t('event_detail.continuous.gap_next', { time: format(nextStart, 'HH:mm:ss') })}
+      </p>
+      <div className="flex gap-2">
+        <Button size="sm" onClick={onContinue} data-testid="continuous-gap-continue">
+          <SkipForward className="h-4 w-4 mr-2" />
+          {t('event_detail.continuous.play_next')}
+        </Button>
+        <Button size="sm" variant="secondary" onClick={onCancel} data-testid="continuous-gap-cancel">
+          {t('common.cancel')}
+        </Button>
+      </div>
+    </div>
+  );
+}
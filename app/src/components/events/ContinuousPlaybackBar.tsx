@@ -0,0 +1,168 @@
+/**
+ * Continuous Playback Bar Component
+ *
+ * Progress bar for continuous playback on the event detail page. Spans a
+ * whole hour or day of a monitor's recordings, marks the current position
+ * and lets the user jump to any recording. Includes the span, gap and
+ * previous/next event controls.
+ */
+
+import { useMemo, type MouseEvent } from 'react';
+import { format } from 'date-fns';
+import { useTranslation } from 'react-i18next';
+import { SkipBack, SkipForward } from 'lucide-react';
+import type { EventData } from '../../api/types';
+import {
+  getPlaylistPosition,
+  getPlaylistSegments,
+  type ContinuousPlaybackGaps,
+  type ContinuousPlaybackSpan,
+} from '../../lib/continuous-playback';
+import type { EventTimeRange } from '../../lib/review-playback';
+import { cn } from '../../lib/utils';
+import { Button } from '../ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+
+interface ContinuousPlaybackBarProps {
+  playlist: EventData[];
+  range: EventTimeRange;
+  span: ContinuousPlaybackSpan;
+  gaps: ContinuousPlaybackGaps;
+  currentEventId: string;
+  /** Playback position in the current event, in seconds */
+  currentTime: number | null;
+  previous: EventData | null;
+  next: EventData | null;
+  onSpanChange: (span: ContinuousPlaybackSpan) => void;
+  onGapsChange: (gaps: ContinuousPlaybackGaps) => void;
+  /** Play another event from its start */
+  onSelectEvent: (eventId: string) => void;
+  /** Seek within the current event, in seconds */
+  onSeek: (time: number) => void;
+}
+
+export function ContinuousPlaybackBar({
+  playlist,
+  range,
+  span,
+  gaps,
+  currentEventId,
+  currentTime,
+  previous,
+  next,
+  onSpanChange,
+  onGapsChange,
+  onSelectEvent,
+  onSeek,
+}: ContinuousPlaybackBarProps) {
+  const { t } = useTranslation();
+
+  const segments = useMemo(() => getPlaylistSegments(playlist, range, gaps), [playlist, range, gaps]);
+  const position = getPlaylistPosition(segments, playlist, range, currentEventId, currentTime ?? 0);
+
+  const handleBarClick = (e: MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    if (rect.width <= 0) return;
+    const fraction = (e.clientX - rect.left) / rect.width;
+
+    // Clicking a gap plays the recording after it
+    const segment =
+      segments.find((item) => fraction >= item.start && fraction <= item.start + item.width) ??
+      segments.find((item) => item.start >= fraction);
+    if (!segment) return;
+
+    if (segment.eventId === currentEventId) {
+      const event = playlist.find(({ Event }) => Event.Id === currentEventId);
+      const length = parseFloat(event?.Event.Length ?? '0');
+      onSeek(((fraction - segment.start) / segment.width) * length);
+    } else {
+      onSelectEvent(segment.eventId);
+    }
+  };
+
+  return (
+    <div className="space-y-2" data-testid="continuous-playback-bar">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          variant="outline"
+          size="icon"
+          className="h-8 w-8"
+          onClick={() => previous && onSelectEvent(previous.Event.Id)}
+          disabled={!previous}
+          aria-label={t('event_detail.continuous.previous')}
+          title={t('event_detail.continuous.previous')}
+          data-testid="continuous-previous"
+        >
+          <SkipBack className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="outline"
+          size="icon"
+          className="h-8 w-8"
+          onClick={() => next && onSelectEvent(next.Event.Id)}
+          disabled={!next}
+          aria-label={t('event_detail.continuous.next')}
+          title={t('event_detail.continuous.next')}
+          data-testid="continuous-next"
+        >
+          <SkipForward className="h-4 w-4" />
+        </Button>
+        <span className="text-xs text-muted-foreground" data-testid="continuous-count">
+          {t('event_detail.continuous.recordings', { count: segments.length })}
+        </span>
+
+        <div className="ml-auto flex items-center gap-2">
+          <Select value={span} onValueChange={(value) => onSpanChange(value as ContinuousPlaybackSpan)}>
+            <SelectTrigger className="h-8 w-28" data-testid="continuous-span-select">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="hour">{t('event_detail.continuous.span_hour')}</SelectItem>
+              <SelectItem value="day">{t('event_detail.continuous.span_day')}</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select value={gaps} onValueChange={(value) => onGapsChange(value as ContinuousPlaybackGaps)}>
+            <SelectTrigger className="h-8 w-36" data-testid="continuous-gaps-select">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="compress">{t('event_detail.continuous.gaps_compress')}</SelectItem>
+              <SelectItem value="overlay">{t('event_detail.continuous.gaps_overlay')}</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div
+        className="relative h-6 cursor-pointer overflow-hidden rounded bg-muted"
+        onClick={handleBarClick}
+        role="presentation"
+        data-testid="continuous-bar"
+      >
+        {segments.map((segment) => (
+          <div
+            key={segment.eventId}
+            className={cn(
+              'absolute inset-y-0 border-r border-background/60',
+              segment.eventId === currentEventId ? 'bg-primary' : 'bg-primary/40 hover:bg-primary/60'
+            )}
+            style={{ left: `${segment.start * 100}%`, width: `${segment.width * 100}%` }}
+            data-testid={`continuous-segment-${segment.eventId}`}
+          />
+        ))}
+        {position !== null && (
+          <div
+            className="pointer-events-none absolute inset-y-0 w-0.5 bg-foreground"
+            style={{ left: `${position * 100}%` }}
+            data-testid="continuous-position"
+          />
+        )}
+      </div>
+
+      <div className="flex justify-between text-xs tabular-nums text-muted-foreground">
+        <span>{format(range.start, span === 'day' ? 'MMM d, HH:mm' : 'HH:mm')}</span>
+        <span>{format(range.end, span === 'day' ? 'MMM d, HH:mm' : 'HH:mm')}</span>
+      </div>
+    </div>
+  );
+}
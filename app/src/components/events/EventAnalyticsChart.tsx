@@ -0,0 +1,89 @@
+/**
+ * Event Analytics Chart Component
+ *
+ * Bar chart card for one distribution on the Analytics page. Long category
+ * lists (monitors, causes) use horizontal bars so the labels stay readable.
+ */
+
+import { useTranslation } from 'react-i18next';
+import type { LucideIcon } from 'lucide-react';
+import { Bar, BarChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Card } from '../ui/card';
+
+export interface EventAnalyticsBar {
+  label: string;
+  count: number;
+}
+
+interface EventAnalyticsChartProps {
+  title: string;
+  icon: LucideIcon;
+  data: EventAnalyticsBar[];
+  /** Draw horizontal bars, sized to the number of categories */
+  horizontal?: boolean;
+  testId?: string;
+}
+
+const tooltipContentStyle = {
+  backgroundColor: 'hsl(var(--popover))',
+  borderColor: 'hsl(var(--border))',
+  color: 'hsl(var(--popover-foreground))',
+  borderRadius: '0.5rem',
+  fontSize: '12px',
+};
+
+/** Height of one horizontal bar row, in pixels */
+const HORIZONTAL_ROW_HEIGHT = 28;
+
+export function EventAnalyticsChart({ title, icon: Icon, data, horizontal = false, testId }: EventAnalyticsChartProps) {
+  const { t } = useTranslation();
+  const height = horizontal ? Math.max(160, data.length * HORIZONTAL_ROW_HEIGHT + 24) : 200;
+
+  return (
+    <Card className="p-4 space-y-2" data-testid={testId}>
+      <div className="flex items-center gap-2">
+        <Icon className="h-4 w-4 text-primary" />
+        <h3 className="font-semibold text-sm text-muted-foreground uppercase tracking-wider">{title}</h3>
+      </div>
+      {data.length === 0 ? (
+        <p className="py-8 text-center text-sm text-muted-foreground">{t('analytics.no_data')}</p>
+      ) : (
+        <div className="w-full" style={{ height }}>
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart
+              data={data}
+              layout={horizontal ? 'vertical' : 'horizontal'}
+              margin={{ top: 4, right: 8, bottom: 0, left: horizontal ? 0 : -24 }}
+            >
+              {horizontal ? (
+                <>
+                  <XAxis type="number" stroke="#888888" fontSize={10} tickLine={false} axisLine={false} allowDecimals={false} />
+                  <YAxis
+                    type="category"
+                    dataKey="label"
+                    stroke="#888888"
+                    fontSize={10}
+                    tickLine={false}
+                    axisLine={false}
+                    width={110}
+                  />
+                </>
+              ) : (
+                <>
+                  <XAxis dataKey="label" stroke="#888888" fontSize={10} tickLine={false} axisLine={false} />
+                  <YAxis stroke="#888888" fontSize={10} tickLine={false} axisLine={false} allowDecimals={false} />
+                </>
+              )}
+              <Tooltip
+                contentStyle={tooltipContentStyle}
+                cursor={{ fill: 'hsl(var(--muted))' }}
+                formatter={(value) => [value, t('analytics.events')]}
+              />
+              <Bar dataKey="count" fill="hsl(var(--primary))" radius={2} isAnimationActive={false} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </Card>
+  );
+}
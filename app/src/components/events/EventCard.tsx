@@ -2,24 +2,35 @@
  * Event Card Component
  *
  * Displays a summary of a single event, including a thumbnail,
- * event details (name, cause, time), and statistics (frames, score).
+ * event details (name, cause, time, notes), and statistics (frames, score).
  * It is used in event lists and grids.
+ * A context menu (kebab button or right-click) offers quick edits.
+ * Hovering or long-pressing the thumbnail scrubs through the event's frames.
  */
 
-import { memo } from 'react';
+import { memo, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { format } from 'date-fns';
 import { Card } from '../ui/card';
 import { Badge } from '../ui/badge';
 import { SecureImage } from '../ui/secure-image';
-import { Video, Calendar, Clock, Star } from 'lucide-react';
+import { Video, Calendar, Clock, Star, MoreVertical, Pencil } from 'lucide-react';
 import { getEventCauseIcon } from '../../lib/event-icons';
 import type { EventCardProps } from '../../api/types';
 import { useTranslation } from 'react-i18next';
 import { cn } from '../../lib/utils';
 import { useEventFavoritesStore } from '../../stores/eventFavorites';
 import { useCurrentProfile } from '../../hooks/useCurrentProfile';
+import { useEventScrubPreview } from '../../hooks/useEventScrubPreview';
+import { EventScrubOverlay } from './EventScrubOverlay';
 import { TagChipList } from './TagChip';
+import { EventEditDialog } from './EventEditDialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '../ui/dropdown-menu';
 
 /**
  * EventCard component.
@@ -29,12 +40,33 @@ import { TagChipList } from './TagChip';
  * @param props.event - The event data object
  * @param props.monitorName - Name of the monitor that recorded the event
  * @param props.thumbnailUrl - URL for the event thumbnail image
+ * @param props.portalUrl - Portal URL used for scrub previews
  */
-function EventCardComponent({ event, monitorName, thumbnailUrl, objectFit = 'contain', thumbnailWidth, thumbnailHeight, tags }: EventCardProps) {
+function EventCardComponent({
+  event,
+  monitorName,
+  thumbnailUrl,
+  objectFit = 'contain',
+  thumbnailWidth,
+  thumbnailHeight,
+  tags,
+  portalUrl,
+  accessToken,
+}: EventCardProps) {
   const navigate = useNavigate();
   const { t } = useTranslation();
   const { currentProfile } = useCurrentProfile();
   const toggleFavorite = useEventFavoritesStore((state) => state.toggleFavorite);
+  const [isMenuOpen, setIsMenuOpen] = useState(false);
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const preview = useEventScrubPreview({
+    portalUrl,
+    eventId: event.Id,
+    totalFrames: parseInt(event.Frames, 10),
+    width: thumbnailWidth,
+    height: thumbnailHeight,
+    token: accessToken,
+  });
 
   // Subscribe to the specific favorite state for this event
   // This ensures re-renders when favorite status changes
@@ -74,6 +106,10 @@ function EventCardComponent({ event, monitorName, thumbnailUrl, objectFit = 'con
           navigate(`/events/${event.Id}`, { state: { from: '/events' } });
         }
       }}
+      onContextMenu={(e) => {
+        e.preventDefault();
+        setIsMenuOpen(true);
+      }}
       role="button"
       tabIndex={0}
       aria-label={`${t('common.view')}: ${event.Name}`}
@@ -81,7 +117,12 @@ function EventCardComponent({ event, monitorName, thumbnailUrl, objectFit = 'con
     >
       <div className="flex gap-2 sm:gap-3 p-2 sm:p-3">
         {/* Thumbnail - Fixed width container for consistent text alignment */}
-        <div className="relative flex-shrink-0 rounded overflow-hidden bg-black w-24 sm:w-28 md:w-32 max-w-[40%]">
+        <div
+          className="relative flex-shrink-0 rounded overflow-hidden bg-black w-24 sm:w-28 md:w-32 max-w-[40%] select-none"
+          style={{ WebkitTouchCallout: 'none' }}
+          {...preview.handlers}
+          data-testid="event-thumbnail-container"
+        >
           <div
             className="w-full max-h-28"
             style={{ aspectRatio: aspectRatio.toString() }}
@@ -98,6 +139,7 @@ function EventCardComponent({ event, monitorName, thumbnailUrl, objectFit = 'con
               data-testid="event-thumbnail"
             />
           </div>
+          <EventScrubOverlay preview={preview} alt={event.Name} objectFit={objectFit} />
           <div className="absolute bottom-0.5 right-0.5 sm:bottom-1 sm:right-1 bg-black/80 text-white text-[10px] sm:text-xs px-1 sm:px-1.5 py-0.5 rounded font-medium">
             {event.Length}s
           </div>
@@ -138,6 +180,38 @@ function EventCardComponent({ event, monitorName, thumbnailUrl, objectFit = 'con
                     </Badge>
                   );
                 })()}
+                {/* Context menu - portaled content still bubbles through React, so stop it here */}
+                <div
+                  onClick={(e) => e.stopPropagation()}
+                  onKeyDown={(e) => e.stopPropagation()}
+                >
+                  <DropdownMenu open={isMenuOpen} onOpenChange={setIsMenuOpen}>
+                    <DropdownMenuTrigger asChild>
+                      <button
+                        className={cn(
+                          "p-1 rounded-full hover:bg-accent transition-colors",
+                          "focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+                        )}
+                        aria-label={t('events.actions')}
+                        data-testid="event-actions-button"
+                      >
+                        <MoreVertical className="h-4 w-4 text-muted-foreground" />
+                      </button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem
+                        onSelect={() => setIsEditOpen(true)}
+                        data-testid="event-action-edit"
+                      >
+                        <Pencil className="h-4 w-4 mr-2" />
+                        {t('events.edit_details')}
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                  {isEditOpen && (
+                    <EventEditDialog event={event} open={isEditOpen} onOpenChange={setIsEditOpen} />
+                  )}
+                </div>
               </div>
             </div>
 
@@ -178,6 +252,17 @@ function EventCardComponent({ event, monitorName, thumbnailUrl, objectFit = 'con
             )}
           </div>
 
+          {/* Notes */}
+          {event.Notes && (
+            <p
+              className="mt-1 text-[10px] sm:text-xs text-muted-foreground italic truncate"
+              title={event.Notes}
+              data-testid="event-notes"
+            >
+              {event.Notes}
+            </p>
+          )}
+
           {/* Tags */}
           {tags && tags.length > 0 && (
             <TagChipList
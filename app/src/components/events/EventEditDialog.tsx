@@ -0,0 +1,32 @@
+/**
+ * Event Edit Dialog Component
+ *
+ * Dialog wrapper around EventEditForm, opened from the event card context menu.
+ */
+
+import { useTranslation } from 'react-i18next';
+import type { Event } from '../../api/types';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '../ui/dialog';
+import { EventEditForm } from './EventEditForm';
+
+interface EventEditDialogProps {
+  event: Event;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function EventEditDialog({ event, open, onOpenChange }: EventEditDialogProps) {
+  const { t } = useTranslation();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md" data-testid="event-edit-dialog">
+        <DialogHeader>
+          <DialogTitle>{t('event_detail.edit_event')}</DialogTitle>
+          <DialogDescription>{t('event_detail.edit_event_desc', { id: event.Id })}</DialogDescription>
+        </DialogHeader>
+        <EventEditForm event={event} onDone={() => onOpenChange(false)} />
+      </DialogContent>
+    </Dialog>
+  );
+}
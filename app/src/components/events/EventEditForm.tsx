@@ -0,0 +1,94 @@
+/**
+ * Event Edit Form Component
+ *
+ * Form for editing an event's name, cause and notes.
+ * Saves optimistically through useUpdateEvent and only sends changed fields.
+ * Used inline on the event detail page and inside EventEditDialog.
+ */
+
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import type { Event } from '../../api/types';
+import type { EventEditableFields } from '../../api/events';
+import { useUpdateEvent } from '../../hooks/useEventMutations';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Textarea } from '../ui/textarea';
+
+interface EventEditFormProps {
+  event: Event;
+  /** Called after the change is submitted (or cancelled) */
+  onDone?: () => void;
+  /** Focus the notes field instead of the name field */
+  focusNotes?: boolean;
+}
+
+export function EventEditForm({ event, onDone, focusNotes = false }: EventEditFormProps) {
+  const { t } = useTranslation();
+  const updateEventMutation = useUpdateEvent();
+  const [name, setName] = useState(event.Name);
+  const [cause, setCause] = useState(event.Cause);
+  const [notes, setNotes] = useState(event.Notes ?? '');
+
+  const changes: EventEditableFields = {};
+  if (name.trim() !== event.Name) changes.Name = name.trim();
+  if (cause.trim() !== event.Cause) changes.Cause = cause.trim();
+  if (notes !== (event.Notes ?? '')) changes.Notes = notes;
+  const hasChanges = Object.keys(changes).length > 0;
+  const isValid = name.trim() !== '';
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!hasChanges || !isValid) return;
+
+    // Cache is updated optimistically, so the form can close right away;
+    // the mutation reports the outcome itself once the form is gone
+    updateEventMutation.mutate({ eventId: event.Id, fields: changes });
+    onDone?.();
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3" data-testid="event-edit-form">
+      <div className="grid gap-1.5">
+        <Label htmlFor={`event-${event.Id}-name`}>{t('event_detail.name')}</Label>
+        <Input
+          id={`event-${event.Id}-name`}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          autoFocus={!focusNotes}
+          data-testid="event-edit-name"
+        />
+      </div>
+      <div className="grid gap-1.5">
+        <Label htmlFor={`event-${event.Id}-cause`}>{t('event_detail.cause')}</Label>
+        <Input
+          id={`event-${event.Id}-cause`}
+          value={cause}
+          onChange={(e) => setCause(e.target.value)}
+          data-testid="event-edit-cause"
+        />
+      </div>
+      <div className="grid gap-1.5">
+        <Label htmlFor={`event-${event.Id}-notes`}>{t('event_detail.notes')}</Label>
+        <Textarea
+          id={`event-${event.Id}-notes`}
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          placeholder={t('event_detail.notes_placeholder')}
+          autoFocus={focusNotes}
+          rows={4}
+          data-testid="event-edit-notes"
+        />
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={onDone} data-testid="event-edit-cancel">
+          {t('common.cancel')}
+        </Button>
+        <Button type="submit" size="sm" disabled={!hasChanges || !isValid} data-testid="event-edit-save">
+          {t('common.save')}
+        </Button>
+      </div>
+    </form>
+  );
+}
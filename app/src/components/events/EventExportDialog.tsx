@@ -0,0 +1,150 @@
+/**
+ * Event Export Dialog Component
+ *
+ * Lets the user pick the file format and columns for exporting the events
+ * that match the current filters. The choice is remembered per profile and
+ * restored when the dialog is mounted.
+ */
+
+import { useState } from 'react';
+import { FileDown } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import {
+  DEFAULT_EVENT_EXPORT_COLUMNS,
+  EVENT_EXPORT_COLUMNS,
+  type EventExportColumn,
+  type EventExportFormat,
+} from '../../lib/event-export';
+import { useCurrentProfile } from '../../hooks/useCurrentProfile';
+import { useSettingsStore } from '../../stores/settings';
+import { Button } from '../ui/button';
+import { Checkbox } from '../ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../ui/dialog';
+import { Label } from '../ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+
+interface EventExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Number of events matching the server-side filters, when known */
+  matchCount?: number;
+  /** Start the export */
+  onExport: (format: EventExportFormat, columns: EventExportColumn[]) => void;
+}
+
+export function EventExportDialog({ open, onOpenChange, matchCount, onExport }: EventExportDialogProps) {
+  const { t } = useTranslation();
+  const { currentProfile, settings } = useCurrentProfile();
+  const updateSettings = useSettingsStore((state) => state.updateProfileSettings);
+  const [format, setFormat] = useState<EventExportFormat>(settings.eventExport.format);
+  const [columns, setColumns] = useState<EventExportColumn[]>(settings.eventExport.columns);
+
+  const toggleColumn = (column: EventExportColumn) => {
+    setColumns((prev) =>
+      prev.includes(column)
+        ? prev.filter((item) => item !== column)
+        : EVENT_EXPORT_COLUMNS.filter((item) => item === column || prev.includes(item))
+    );
+  };
+
+  const handleExport = () => {
+    if (currentProfile) {
+      updateSettings(currentProfile.id, { eventExport: { format, columns } });
+    }
+    onExport(format, columns);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md" data-testid="event-export-dialog">
+        <DialogHeader>
+          <DialogTitle>{t('events.export.title')}</DialogTitle>
+          <DialogDescription>
+            {matchCount !== undefined
+              ? t('events.export.description_count', { count: matchCount })
+              : t('events.export.description')}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>{t('events.export.format')}</Label>
+            <Select value={format} onValueChange={(value) => setFormat(value as EventExportFormat)}>
+              <SelectTrigger data-testid="event-export-format-select">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="csv" data-testid="event-export-format-csv">
+                  {t('events.export.format_csv')}
+                </SelectItem>
+                <SelectItem value="json" data-testid="event-export-format-json">
+                  {t('events.export.format_json')}
+                </SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>{t('events.export.columns_label')}</Label>
+              <div className="flex gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 text-xs"
+                  onClick={() => setColumns(EVENT_EXPORT_COLUMNS)}
+                  data-testid="event-export-columns-all"
+                >
+                  {t('events.export.columns_all')}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 text-xs"
+                  onClick={() => setColumns(DEFAULT_EVENT_EXPORT_COLUMNS)}
+                  data-testid="event-export-columns-default"
+                >
+                  {t('events.export.columns_default')}
+                </Button>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-2 rounded-md border p-3">
+              {EVENT_EXPORT_COLUMNS.map((column) => (
+                <div key={column} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`event-export-column-${column}`}
+                    checked={columns.includes(column)}
+                    onCheckedChange={() => toggleColumn(column)}
+                    data-testid={`event-export-column-${column}`}
+                  />
+                  <label htmlFor={`event-export-column-${column}`} className="text-sm cursor-pointer">
+                    {t(`events.export.columns.${column}`)}
+                  </label>
+                </div>
+              ))}
+            </div>
+            <p className="text-xs text-muted-foreground">{t('events.export.filters_hint')}</p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            {t('common.cancel')}
+          </Button>
+          <Button onClick={handleExport} disabled={columns.length === 0} data-testid="event-export-confirm">
+            <FileDown className="h-4 w-4 mr-2" />
+            {t('events.export.start')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -4,18 +4,29 @@
  * List view of events with thumbnails and metadata.
  * Uses virtualization only for large lists (>100 items) to avoid complexity
  * with scroll margin calculations when there's content above the list.
+ * Can group near-simultaneous events across monitors into incidents.
  */
 
 import { useTranslation } from 'react-i18next';
 import { useVirtualizer } from '@tanstack/react-virtual';
-import { useLayoutEffect, useRef, useState } from 'react';
+import { useLayoutEffect, useMemo, useRef, useState } from 'react';
 import { Loader2 } from 'lucide-react';
 import { Button } from '../ui/button';
+import { Checkbox } from '../ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
 import { EventCard } from './EventCard';
+import { IncidentCard } from './IncidentCard';
 import { getEventImageUrl } from '../../api/events';
 import { calculateThumbnailDimensions, EVENT_GRID_CONSTANTS } from '../../lib/event-utils';
+import {
+  DEFAULT_INCIDENT_GAP_SECONDS,
+  INCIDENT_GAP_OPTIONS,
+  groupEventsIntoIncidents,
+  type EventGrouping,
+} from '../../lib/event-incidents';
 // import { EVENT_LIST } from '../../lib/zmng-constants';
-import type { Monitor, Tag } from '../../api/types';
+import type { EventData, Monitor, Tag } from '../../api/types';
+import type { ToggleSelectionOptions } from '../../hooks/useEventSelection';
 
 interface EventListViewProps {
   events: any[];
@@ -31,6 +42,15 @@ interface EventListViewProps {
   parentRef: React.RefObject<HTMLDivElement | null>;
   parentElement: HTMLDivElement | null;
   eventTagMap?: Map<string, Tag[]>;
+  /** Selected event IDs; shows selection checkboxes when provided with onToggleSelect */
+  selectedEventIds?: Set<string>;
+  /** Toggle an event's selection; `range` is set for shift-clicks */
+  onToggleSelect?: (eventId: string, options?: ToggleSelectionOptions) => void;
+  /** Show single events or incidents (default: none) */
+  grouping?: EventGrouping;
+  /** Largest gap between events of one incident, in seconds */
+  incidentGapSeconds?: number;
+  onIncidentGapChange?: (seconds: number) => void;
 }
 
 // Helper to render a single event item
@@ -41,6 +61,8 @@ const EventItem = ({
   portalUrl,
   accessToken,
   eventTagMap,
+  isSelected,
+  onToggleSelect,
 }: {
   event: any;
   monitors: Array<{ Monitor: Monitor }>;
@@ -48,7 +70,10 @@ const EventItem = ({
   portalUrl: string;
   accessToken?: string;
   eventTagMap?: Map<string, Tag[]>;
+  isSelected?: boolean;
+  onToggleSelect?: (eventId: string, options?: ToggleSelectionOptions) => void;
 }) => {
+  const { t } = useTranslation();
   const { Event } = event;
   const monitorData = monitors.find((m) => m.Monitor.Id === Event.MonitorId)?.Monitor;
 
@@ -70,17 +95,45 @@ const EventItem = ({
 
   const monitorName = monitorData?.Name || `Camera ${Event.MonitorId}`;
 
+  const card = (
+    <EventCard
+      event={Event}
+      monitorName={monitorName}
+      thumbnailUrl={thumbnailUrl}
+      objectFit={thumbnailFit}
+      thumbnailWidth={thumbnailWidth}
+      thumbnailHeight={thumbnailHeight}
+      tags={eventTagMap?.get(Event.Id)}
+      portalUrl={portalUrl}
+      accessToken={accessToken}
+    />
+  );
+
+  if (!onToggleSelect) {
+    return <div className="pb-3">{card}</div>;
+  }
+
+  const handleSelectClick = (e: React.MouseEvent) => {
+    // In selection mode a click selects instead of opening the event
+    e.preventDefault();
+    e.stopPropagation();
+    onToggleSelect(Event.Id, { range: e.shiftKey });
+  };
+
   return (
-    <div className="pb-3">
-      <EventCard
-        event={Event}
-        monitorName={monitorName}
-        thumbnailUrl={thumbnailUrl}
-        objectFit={thumbnailFit}
-        thumbnailWidth={thumbnailWidth}
-        thumbnailHeight={thumbnailHeight}
-        tags={eventTagMap?.get(Event.Id)}
+    <div className="pb-3 flex items-center gap-2">
+      <Checkbox
+        checked={!!isSelected}
+        onClick={handleSelectClick}
+        aria-label={t('events.selection.select_event', { id: Event.Id })}
+        data-testid={`event-select-${Event.Id}`}
       />
+      <div
+        className={`flex-1 min-w-0 rounded-xl ${isSelected ? 'ring-2 ring-primary' : ''}`}
+        onClickCapture={handleSelectClick}
+      >
+        {card}
+      </div>
     </div>
   );
 };
@@ -99,12 +152,22 @@ export const EventListView = ({
   parentRef,
   parentElement,
   eventTagMap,
+  selectedEventIds,
+  onToggleSelect,
+  grouping = 'none',
+  incidentGapSeconds = DEFAULT_INCIDENT_GAP_SECONDS,
+  onIncidentGapChange,
 }: EventListViewProps) => {
   const { t } = useTranslation();
   const listContainerRef = useRef<HTMLDivElement>(null);
   const [scrollMargin, setScrollMargin] = useState(0);
   const [marginReady, setMarginReady] = useState(false);
 
+  const incidents = useMemo(
+    () => (grouping === 'incidents' ? groupEventsIntoIncidents(events as EventData[], incidentGapSeconds) : []),
+    [events, grouping, incidentGapSeconds]
+  );
+
   // Disable virtualization - it's causing rendering issues in Tauri where new items
   // don't appear until window resize. Non-virtualized rendering works fine even with
   // large lists (tested with 500+ events) and is more reliable across platforms.
@@ -204,11 +267,35 @@ export const EventListView = ({
 
   // Status header - shows "Showing X of Y events" at the top
   const header = (
-    <div className="text-xs text-muted-foreground pb-3 flex items-center gap-2">
+    <div className="text-xs text-muted-foreground pb-3 flex flex-wrap items-center gap-2">
       {isFetching && <Loader2 className="h-3 w-3 animate-spin" />}
       {totalCount !== undefined
         ? t('events.showing_of_total', { showing: events.length, total: totalCount })
         : t('events.showing_events', { count: events.length })}
+      {grouping === 'incidents' && (
+        <>
+          <span data-testid="event-list-incident-count">
+            {t('events.incidents.count', { count: incidents.length })}
+          </span>
+          {onIncidentGapChange && (
+            <div className="ml-auto flex items-center gap-2">
+              <span>{t('events.incidents.gap')}</span>
+              <Select value={String(incidentGapSeconds)} onValueChange={(value) => onIncidentGapChange(Number(value))}>
+                <SelectTrigger className="h-7 w-24 text-xs" data-testid="event-list-incident-gap">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {INCIDENT_GAP_OPTIONS.map((seconds) => (
+                    <SelectItem key={seconds} value={String(seconds)}>
+                      {t('events.incidents.gap_seconds', { count: seconds })}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </>
+      )}
     </div>
   );
 
@@ -235,6 +322,28 @@ export const EventListView = ({
     </div>
   ) : null;
 
+  if (grouping === 'incidents') {
+    return (
+      <div className="min-h-0" data-testid="event-list">
+        {header}
+        {incidents.map((incident) => (
+          <div key={incident.id} className="pb-3">
+            <IncidentCard
+              incident={incident}
+              monitors={monitors}
+              thumbnailFit={thumbnailFit}
+              portalUrl={portalUrl}
+              accessToken={accessToken}
+              selectedEventIds={selectedEventIds}
+              onToggleSelect={onToggleSelect}
+            />
+          </div>
+        ))}
+        {footer}
+      </div>
+    );
+  }
+
   // Non-virtualized rendering for smaller lists
   if (!shouldVirtualize) {
     return (
@@ -249,6 +358,8 @@ export const EventListView = ({
             portalUrl={portalUrl}
             accessToken={accessToken}
             eventTagMap={eventTagMap}
+            isSelected={selectedEventIds?.has(event.Event.Id)}
+            onToggleSelect={onToggleSelect}
           />
         ))}
         {footer}
@@ -292,6 +403,8 @@ export const EventListView = ({
                 portalUrl={portalUrl}
                 accessToken={accessToken}
                 eventTagMap={eventTagMap}
+                isSelected={selectedEventIds?.has(event.Event.Id)}
+                onToggleSelect={onToggleSelect}
               />
             </div>
           );
@@ -6,14 +6,18 @@
  * - Responsive grid layout
  * - Haptic feedback on downloads (native platforms)
  * - Touch-optimized download buttons
+ * - Optional multi-select with checkboxes and shift-click ranges
+ * - Hover/long-press scrub previews on thumbnails
  */
 
+import type { ReactNode } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { Download, Loader2 } from 'lucide-react';
 import { getEventCauseIcon } from '../../lib/event-icons';
 import { format } from 'date-fns';
 import { Card } from '../ui/card';
+import { Checkbox } from '../ui/checkbox';
 import { Badge } from '../ui/badge';
 import { Button } from '../ui/button';
 import { SecureImage } from '../ui/secure-image';
@@ -21,9 +25,71 @@ import { downloadEventVideo } from '../../lib/download';
 import { getEventImageUrl } from '../../api/events';
 import { calculateThumbnailDimensions } from '../../lib/event-utils';
 import { ZM_INTEGRATION } from '../../lib/zmng-constants';
-import type { Monitor, Tag } from '../../api/types';
+import type { EventData, Monitor, Tag } from '../../api/types';
+import type { ToggleSelectionOptions } from '../../hooks/useEventSelection';
+import { useEventScrubPreview } from '../../hooks/useEventScrubPreview';
+import { cn } from '../../lib/utils';
 import { Capacitor } from '@capacitor/core';
 import { TagChipList } from './TagChip';
+import { EventScrubOverlay } from './EventScrubOverlay';
+
+interface EventMontageThumbnailProps {
+  event: EventData['Event'];
+  imageUrl: string;
+  thumbnailFit: 'contain' | 'cover' | 'none' | 'scale-down';
+  thumbnailWidth: number;
+  thumbnailHeight: number;
+  portalUrl: string;
+  accessToken?: string;
+  /** Controls drawn over the thumbnail (selection, badges, actions) */
+  children?: ReactNode;
+}
+
+/**
+ * Tile thumbnail with a scrub preview; controls stay above the preview.
+ */
+const EventMontageThumbnail = ({
+  event,
+  imageUrl,
+  thumbnailFit,
+  thumbnailWidth,
+  thumbnailHeight,
+  portalUrl,
+  accessToken,
+  children,
+}: EventMontageThumbnailProps) => {
+  const preview = useEventScrubPreview({
+    portalUrl,
+    eventId: event.Id,
+    totalFrames: parseInt(event.Frames, 10),
+    width: thumbnailWidth,
+    height: thumbnailHeight,
+    token: accessToken,
+  });
+
+  return (
+    <div
+      className="relative bg-black select-none"
+      style={{ aspectRatio: (thumbnailWidth / thumbnailHeight).toString(), WebkitTouchCallout: 'none' }}
+      {...preview.handlers}
+    >
+      <SecureImage
+        src={imageUrl}
+        alt={event.Name}
+        className="w-full h-full"
+        style={{ objectFit: thumbnailFit }}
+        loading="lazy"
+        onError={(e) => {
+          const img = e.target as HTMLImageElement;
+          img.src =
+            'data:image/svg+xml,%3Csvg xmlns="http://www.w3.org/2000/svg" width="300" height="200"%3E%3Crect fill="%231a1a1a" width="300" height="200"/%3E%3Ctext fill="%23444" x="50%" y="50%" text-anchor="middle" font-family="sans-serif"%3ENo Image%3C/text%3E%3C/svg%3E';
+        }}
+      />
+      <EventScrubOverlay preview={preview} alt={event.Name} objectFit={thumbnailFit} />
+      {children}
+    </div>
+  );
+};
 
 interface EventMontageViewProps {
   events: any[];
@@ -38,6 +104,10 @@ interface EventMontageViewProps {
   isFetching?: boolean;
   onLoadMore: () => void;
   eventTagMap?: Map<string, Tag[]>;
+  /** Selected event IDs; shows selection checkboxes when provided with onToggleSelect */
+  selectedEventIds?: Set<string>;
+  /** Toggle an event's selection; `range` is set for shift-clicks */
+  onToggleSelect?: (eventId: string, options?: ToggleSelectionOptions) => void;
 }
 
 export const EventMontageView = ({
@@ -53,6 +123,8 @@ export const EventMontageView = ({
   isFetching = false,
   onLoadMore,
   eventTagMap,
+  selectedEventIds,
+  onToggleSelect,
 }: EventMontageViewProps) => {
   const navigate = useNavigate();
   const { t } = useTranslation();
@@ -108,27 +180,47 @@ export const EventMontageView = ({
           });
 
           const hasVideo = event.Videoed === '1';
-          const aspectRatio = thumbnailWidth / thumbnailHeight;
+          const isSelected = !!selectedEventIds?.has(event.Id);
 
           return (
             <Card
               key={event.Id}
-              className="overflow-hidden cursor-pointer hover:ring-2 hover:ring-primary transition-all"
-              onClick={() => navigate(`/events/${event.Id}`)}
+              className={cn(
+                'overflow-hidden cursor-pointer hover:ring-2 hover:ring-primary transition-all',
+                isSelected && 'ring-2 ring-primary'
+              )}
+              onClick={(e) => {
+                if (onToggleSelect) {
+                  onToggleSelect(event.Id, { range: e.shiftKey });
+                } else {
+                  navigate(`/events/${event.Id}`);
+                }
+              }}
+              data-testid="event-montage-card"
             >
-              <div className="relative bg-black" style={{ aspectRatio: aspectRatio.toString() }}>
-                <SecureImage
-                  src={imageUrl}
-                  alt={event.Name}
-                  className="w-full h-full"
-                  style={{ objectFit: thumbnailFit }}
-                  loading="lazy"
-                  onError={(e) => {
-                    const img = e.target as HTMLImageElement;
-                    img.src =
-                      'data:image/svg+xml,%3Csvg xmlns="http://www.w3.org/2000/svg" width="300" height="200"%3E%3Crect fill="%231a1a1a" width="300" height="200"/%3E%3Ctext fill="%23444" x="50%" y="50%" text-anchor="middle" font-family="sans-serif"%3ENo Image%3C/text%3E%3C/svg%3E';
-                  }}
-                />
+              <EventMontageThumbnail
+                event={event}
+                imageUrl={imageUrl}
+                thumbnailFit={thumbnailFit}
+                thumbnailWidth={thumbnailWidth}
+                thumbnailHeight={thumbnailHeight}
+                portalUrl={portalUrl}
+                accessToken={accessToken}
+              >
+                {onToggleSelect && (
+                  <div className="absolute top-2 left-2 z-10 rounded bg-background/80 p-1">
+                    <Checkbox
+                      checked={isSelected}
+                      onClick={(e) => {
+                        e.preventDefault();
+                        e.stopPropagation();
+                        onToggleSelect(event.Id, { range: e.shiftKey });
+                      }}
+                      aria-label={t('events.selection.select_event', { id: event.Id })}
+                      data-testid={`event-select-${event.Id}`}
+                    />
+                  </div>
+                )}
                 <div className="absolute top-2 right-2 flex items-center gap-2">
                   <Badge variant="secondary" className="text-xs">
                     {event.Length}s
@@ -152,7 +244,7 @@ export const EventMontageView = ({
                     </Button>
                   )}
                 </div>
-              </div>
+              </EventMontageThumbnail>
               <div className="p-3 space-y-1">
                 <div className="font-medium text-sm truncate" title={event.Name}>
                   {event.Name}
@@ -0,0 +1,159 @@
+/**
+ * Event Quick Search Component
+ *
+ * Search box on the Events page that turns a typed query such as
+ * "person front door yesterday after 6pm" into event filters. Recognized
+ * phrases are shown as chips: tap a chip to edit its text, or remove it to
+ * drop that part of the search. New text is added to the current chips.
+ */
+
+import { useMemo, useRef, useState, type FormEvent } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Archive, Calendar, Clock, ScanEye, Search, Tag as TagIcon, Timer, Video, X } from 'lucide-react';
+import type { Monitor, Tag } from '../../api/types';
+import {
+  parseQuickSearch,
+  type QuickSearchResult,
+  type QuickSearchTokenKind,
+} from '../../lib/event-quick-search';
+import { getProfileTimeZone } from '../../lib/time';
+import { Input } from '../ui/input';
+import { Button } from '../ui/button';
+
+const TOKEN_ICONS: Record<QuickSearchTokenKind, typeof Search> = {
+  monitor: Video,
+  tag: TagIcon,
+  date: Calendar,
+  time: Clock,
+  length: Timer,
+  archived: Archive,
+  detection: ScanEye,
+};
+
+interface EventQuickSearchProps {
+  /** Applied query, empty when none */
+  query: string;
+  monitors: Array<{ Monitor: Monitor }>;
+  tags: Tag[];
+  onSearch: (query: string, result: QuickSearchResult) => void;
+}
+
+export function EventQuickSearch({ query, monitors, tags, onSearch }: EventQuickSearchProps) {
+  const { t } = useTranslation();
+  const [input, setInput] = useState('');
+  const [unrecognized, setUnrecognized] = useState<string[]>([]);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const context = useMemo(
+    () => ({ monitors: monitors.map(({ Monitor }) => Monitor), tags }),
+    [monitors, tags]
+  );
+
+  const parse = (text: string) => parseQuickSearch(text, { ...context, timeZone: getProfileTimeZone() });
+
+  const tokens = useMemo(
+    () => (query ? parseQuickSearch(query, { ...context, timeZone: getProfileTimeZone() }).tokens : []),
+    [query, context]
+  );
+
+  // Store only the recognized phrases, so the query always matches its chips
+  const search = (text: string) => {
+    const result = parse(text);
+    setUnrecognized(result.unrecognized);
+    onSearch(result.tokens.map((token) => token.text).join(' '), result);
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!input.trim()) return;
+    search([...tokens.map((token) => token.text), input].join(' '));
+    setInput('');
+  };
+
+  const removeToken = (index: number) => {
+    search(tokens.filter((_, i) => i !== index).map((token) => token.text).join(' '));
+  };
+
+  const editToken = (index: number) => {
+    setInput(tokens[index].text);
+    removeToken(index);
+    inputRef.current?.focus();
+  };
+
+  return (
+    <div className="space-y-2" data-testid="events-quick-search">
+      <form onSubmit={handleSubmit} className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            ref={inputRef}
+            type="search"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder={t('events.quick_search.placeholder')}
+            aria-label={t('events.quick_search.label')}
+            className="pl-8 h-8 sm:h-9"
+            enterKeyHint="search"
+            data-testid="events-quick-search-input"
+          />
+        </div>
+        {(tokens.length > 0 || unrecognized.length > 0) && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-8 sm:h-9"
+            onClick={() => {
+              setInput('');
+              search('');
+            }}
+            data-testid="events-quick-search-clear"
+          >
+            {t('common.clear')}
+          </Button>
+        )}
+      </form>
+
+      {tokens.length > 0 && (
+        <div className="flex flex-wrap gap-1.5" data-testid="events-quick-search-chips">
+          {tokens.map((token, index) => {
+            const Icon = TOKEN_ICONS[token.kind];
+            return (
+              <span
+                key={`${token.kind}-${token.text}-${index}`}
+                className="inline-flex items-center gap-1 rounded-full border bg-secondary text-secondary-foreground text-xs pl-2 pr-1 py-0.5"
+                data-testid={`events-quick-search-chip-${token.kind}`}
+              >
+                <button
+                  type="button"
+                  className="inline-flex items-center gap-1 focus:outline-none focus:underline"
+                  onClick={() => editToken(index)}
+                  title={t('events.quick_search.edit_chip')}
+                >
+                  <Icon className="h-3 w-3" aria-hidden="true" />
+                  <span className="sr-only">{t(`events.quick_search.kind.${token.kind}`)}:</span>
+                  {token.text}
+                </button>
+                <button
+                  type="button"
+                  className="rounded-full p-0.5 hover:bg-background/60 focus:outline-none focus:ring-1 focus:ring-ring"
+                  onClick={() => removeToken(index)}
+                  aria-label={t('events.quick_search.remove_chip', { text: token.text })}
+                  data-testid="events-quick-search-chip-remove"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+            );
+          })}
+        </div>
+      )}
+
+      {unrecognized.length > 0 && (
+        <p className="text-xs text-muted-foreground" data-testid="events-quick-search-unrecognized">
+          {t('events.quick_search.unrecognized', { words: unrecognized.join(', ') })}
+        </p>
+      )}
+    </div>
+  );
+}
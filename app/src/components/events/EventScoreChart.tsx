@@ -0,0 +1,130 @@
+/**
+ * Event Score Chart Component
+ *
+ * Plots the alarm score of every stored frame of an event over time.
+ * Features:
+ * - Shaded alarm runs (consecutive alarm frames)
+ * - Playhead synced with the active player
+ * - Click anywhere on the chart to seek the player to that moment
+ */
+
+import { useCallback, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  Area,
+  AreaChart,
+  ReferenceArea,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import type { MouseHandlerDataParam } from 'recharts';
+import type { Frame } from '../../api/types';
+import { buildFrameScoreSeries, getAlarmFrameRuns } from '../../lib/video-markers';
+import { cn } from '../../lib/utils';
+
+interface EventScoreChartProps {
+  frames: Frame[];
+  /** Event duration in seconds */
+  eventLength: number;
+  /** Current playback position in seconds */
+  currentTime?: number | null;
+  /** Seek the player to a position in seconds */
+  onSeek?: (time: number) => void;
+  className?: string;
+}
+
+const tooltipContentStyle = {
+  backgroundColor: 'hsl(var(--popover))',
+  borderColor: 'hsl(var(--border))',
+  color: 'hsl(var(--popover-foreground))',
+  borderRadius: '0.5rem',
+  fontSize: '12px',
+};
+
+const formatSeconds = (value: number) => `${Math.round(value * 10) / 10}s`;
+
+export function EventScoreChart({
+  frames,
+  eventLength,
+  currentTime,
+  onSeek,
+  className,
+}: EventScoreChartProps) {
+  const { t } = useTranslation();
+
+  const series = useMemo(() => buildFrameScoreSeries(frames), [frames]);
+  const alarmRuns = useMemo(() => getAlarmFrameRuns(frames), [frames]);
+
+  const maxTime = Math.max(eventLength, series.length > 0 ? series[series.length - 1].time : 0);
+
+  const handleClick = useCallback((state: MouseHandlerDataParam) => {
+    const time = Number(state?.activeLabel);
+    if (onSeek && Number.isFinite(time)) {
+      onSeek(Math.max(0, Math.min(time, maxTime)));
+    }
+  }, [onSeek, maxTime]);
+
+  const tooltipLabelFormatter = useCallback(
+    (value: unknown) => t('event_detail.score_chart_time', { time: formatSeconds(Number(value)) }),
+    [t]
+  );
+
+  if (series.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={cn('h-32 w-full', onSeek && 'cursor-pointer', className)} data-testid="event-score-chart">
+      <ResponsiveContainer width="100%" height="100%">
+        <AreaChart data={series} onClick={handleClick} margin={{ top: 4, right: 8, bottom: 0, left: -24 }}>
+          <XAxis
+            dataKey="time"
+            type="number"
+            domain={[0, maxTime]}
+            stroke="#888888"
+            fontSize={10}
+            tickLine={false}
+            axisLine={false}
+            tickFormatter={formatSeconds}
+          />
+          <YAxis
+            stroke="#888888"
+            fontSize={10}
+            tickLine={false}
+            axisLine={false}
+            allowDecimals={false}
+          />
+          <Tooltip
+            contentStyle={tooltipContentStyle}
+            labelFormatter={tooltipLabelFormatter}
+            formatter={(value) => [value, t('event_detail.score')]}
+          />
+          {alarmRuns.map((run) => (
+            <ReferenceArea
+              key={run.startFrameId}
+              x1={run.startTime}
+              x2={Math.max(run.endTime, run.startTime + maxTime / 200)}
+              fill="hsl(var(--destructive))"
+              fillOpacity={0.15}
+              ifOverflow="hidden"
+            />
+          ))}
+          <Area
+            type="stepAfter"
+            dataKey="score"
+            stroke="hsl(var(--primary))"
+            fill="hsl(var(--primary))"
+            fillOpacity={0.25}
+            isAnimationActive={false}
+          />
+          {currentTime != null && Number.isFinite(currentTime) && (
+            <ReferenceLine x={Math.min(currentTime, maxTime)} stroke="hsl(var(--destructive))" strokeWidth={2} />
+          )}
+        </AreaChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+/**
+ * Event Scrub Overlay Component
+ *
+ * Drawn over an event thumbnail while a scrub preview is active: the
+ * previewed frame and a bar marking its position within the event.
+ */
+
+import type { CSSProperties } from 'react';
+import type { EventScrubPreview } from '../../hooks/useEventScrubPreview';
+
+interface EventScrubOverlayProps {
+  preview: EventScrubPreview;
+  alt: string;
+  objectFit?: CSSProperties['objectFit'];
+}
+
+export function EventScrubOverlay({ preview, alt, objectFit }: EventScrubOverlayProps) {
+  if (!preview.isScrubbing) return null;
+
+  return (
+    <div className="absolute inset-0 pointer-events-none" data-testid="event-scrub-preview">
+      {preview.frameUrl && (
+        <img src={preview.frameUrl} alt={alt} className="w-full h-full bg-black" style={{ objectFit }} draggable={false} />
+      )}
+      <div className="absolute inset-x-0 bottom-0 h-1 bg-black/50">
+        <div className="h-full bg-primary" style={{ width: `${preview.position * 100}%` }} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,265 @@
+/**
+ * Event Selection Bar Component
+ *
+ * Toolbar shown while events are being multi-selected on the Events page.
+ * Shows the selection count, select-all/clear controls and bulk actions
+ * (archive, favorite, tag, download, ZIP bundle, delete) for the selected events.
+ * The actions themselves are run by the parent as background tasks.
+ */
+
+import { useMemo, useState } from 'react';
+import {
+  Archive,
+  ArchiveRestore,
+  ChevronDown,
+  Download,
+  Loader2,
+  Minus,
+  Package,
+  Star,
+  StarOff,
+  Trash2,
+} from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'sonner';
+import type { Tag } from '../../api/types';
+import { useCreateTag, useEventTags } from '../../hooks/useEventTags';
+import { Button } from '../ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '../ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '../ui/alert-dialog';
+import { TagPicker } from './TagPicker';
+
+export type BulkEventAction =
+  | 'archive'
+  | 'unarchive'
+  | 'favorite'
+  | 'unfavorite'
+  | 'download'
+  | 'bundle'
+  | 'delete';
+
+interface EventSelectionBarProps {
+  /** IDs of the selected events (may include events that are not loaded) */
+  selectedEventIds: string[];
+  /** Number of events currently shown */
+  visibleCount: number;
+  /** Whether the server has matching events that are not loaded */
+  hasUnloadedMatches?: boolean;
+  /** Whether all matching events are being fetched for selection */
+  isSelectingMatching?: boolean;
+  /** Select every shown event */
+  onSelectAll: () => void;
+  /** Select every event matching the current filters */
+  onSelectAllMatching?: () => void;
+  /** Clear the selection */
+  onClearSelection: () => void;
+  /** Leave selection mode */
+  onDone: () => void;
+  /** Run a bulk action on the selection */
+  onAction: (action: BulkEventAction) => void;
+  /** Assign or remove a tag on the selection */
+  onTag: (tag: Tag, mode: 'assign' | 'unassign') => void;
+  /** Tags of the shown events, used to offer removal of existing tags */
+  eventTagMap?: Map<string, Tag[]>;
+}
+
+export function EventSelectionBar({
+  selectedEventIds,
+  visibleCount,
+  hasUnloadedMatches = false,
+  isSelectingMatching = false,
+  onSelectAll,
+  onSelectAllMatching,
+  onClearSelection,
+  onDone,
+  onAction,
+  onTag,
+  eventTagMap,
+}: EventSelectionBarProps) {
+  const { t } = useTranslation();
+  const { availableTags, tagsSupported } = useEventTags();
+  const createTagMutation = useCreateTag();
+  const [isDeleteConfirmOpen, setIsDeleteConfirmOpen] = useState(false);
+
+  const selectedCount = selectedEventIds.length;
+  const hasSelection = selectedCount > 0;
+  const canSelectMatching = !!onSelectAllMatching && hasUnloadedMatches;
+
+  // Tags present on at least one selected event
+  const selectionTags = useMemo(() => {
+    const tags = new Map<string, Tag>();
+    selectedEventIds.forEach((eventId) => {
+      eventTagMap?.get(eventId)?.forEach((tag) => tags.set(tag.Id, tag));
+    });
+    return Array.from(tags.values());
+  }, [selectedEventIds, eventTagMap]);
+
+  const handleCreateTag = async (name: string) => {
+    try {
+      const tag = await createTagMutation.mutateAsync(name);
+      onTag(tag, 'assign');
+    } catch {
+      toast.error(t('tags.create_failed', { name }));
+    }
+  };
+
+  return (
+    <div
+      className="sticky top-0 z-10 mb-3 flex flex-wrap items-center gap-2 rounded-md border bg-card p-2 shadow-sm"
+      data-testid="event-selection-bar"
+    >
+      <span className="text-sm font-medium px-1" data-testid="event-selection-count">
+        {t('events.selection.count', { count: selectedCount })}
+      </span>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-7 text-xs"
+        onClick={onSelectAll}
+        disabled={selectedCount === visibleCount}
+        data-testid="event-selection-select-all"
+      >
+        {t('events.selection.select_all', { count: visibleCount })}
+      </Button>
+      {canSelectMatching && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 text-xs"
+          onClick={onSelectAllMatching}
+          disabled={isSelectingMatching}
+          data-testid="event-selection-select-matching"
+        >
+          {isSelectingMatching && <Loader2 className="h-3 w-3 mr-1 animate-spin" />}
+          {t('events.selection.select_matching')}
+        </Button>
+      )}
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-7 text-xs"
+        onClick={onClearSelection}
+        disabled={!hasSelection}
+        data-testid="event-selection-clear"
+      >
+        {t('common.clear')}
+      </Button>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 gap-1 text-xs"
+            disabled={!hasSelection}
+            data-testid="event-selection-actions"
+          >
+            {t('events.bulk.actions')}
+            <ChevronDown className="h-3 w-3" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          <DropdownMenuItem onSelect={() => onAction('archive')} data-testid="event-bulk-archive">
+            <Archive className="h-4 w-4 mr-2" />
+            {t('events.bulk.archive')}
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => onAction('unarchive')} data-testid="event-bulk-unarchive">
+            <ArchiveRestore className="h-4 w-4 mr-2" />
+            {t('events.bulk.unarchive')}
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => onAction('favorite')} data-testid="event-bulk-favorite">
+            <Star className="h-4 w-4 mr-2" />
+            {t('events.bulk.favorite')}
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => onAction('unfavorite')} data-testid="event-bulk-unfavorite">
+            <StarOff className="h-4 w-4 mr-2" />
+            {t('events.bulk.unfavorite')}
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => onAction('download')} data-testid="event-bulk-download">
+            <Download className="h-4 w-4 mr-2" />
+            {t('events.bulk.download')}
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => onAction('bundle')} data-testid="event-bulk-bundle">
+            <Package className="h-4 w-4 mr-2" />
+            {t('events.bulk.bundle')}
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            onSelect={() => setIsDeleteConfirmOpen(true)}
+            className="text-destructive focus:text-destructive"
+            data-testid="event-bulk-delete"
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            {t('events.bulk.delete')}
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {tagsSupported && (
+        <>
+          <TagPicker
+            availableTags={availableTags}
+            onSelect={(tag) => onTag(tag, 'assign')}
+            onCreate={handleCreateTag}
+            disabled={!hasSelection || createTagMutation.isPending}
+            testId="event-selection-tag-add"
+          />
+          {selectionTags.length > 0 && (
+            <TagPicker
+              availableTags={selectionTags}
+              onSelect={(tag) => onTag(tag, 'unassign')}
+              triggerLabel={t('tags.remove_tag')}
+              triggerIcon={<Minus className="h-3 w-3" />}
+              disabled={!hasSelection}
+              testId="event-selection-tag-remove"
+            />
+          )}
+        </>
+      )}
+
+      <Button
+        variant="outline"
+        size="sm"
+        className="ml-auto h-7 text-xs"
+        onClick={onDone}
+        data-testid="event-selection-done"
+      >
+        {t('common.done')}
+      </Button>
+
+      <AlertDialog open={isDeleteConfirmOpen} onOpenChange={setIsDeleteConfirmOpen}>
+        <AlertDialogContent data-testid="event-bulk-delete-dialog">
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('events.bulk.delete_confirm_title', { count: selectedCount })}</AlertDialogTitle>
+            <AlertDialogDescription>{t('events.bulk.delete_confirm_desc')}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => onAction('delete')}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              data-testid="event-bulk-delete-confirm"
+            >
+              {t('common.delete')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
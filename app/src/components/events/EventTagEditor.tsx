@@ -0,0 +1,88 @@
+/**
+ * Event Tag Editor Component
+ *
+ * Shows an event's tags as removable chips with a picker to assign
+ * existing tags or create new ones. Renders the read-only chips when
+ * the server does not support tags.
+ */
+
+import { useTranslation } from 'react-i18next';
+import { toast } from 'sonner';
+import type { Tag } from '../../api/types';
+import {
+  useAssignEventTag,
+  useCreateTag,
+  useEventTags,
+  useUnassignEventTag,
+} from '../../hooks/useEventTags';
+import { TagChip } from './TagChip';
+import { TagPicker } from './TagPicker';
+
+interface EventTagEditorProps {
+  eventId: string;
+  /** Tags currently assigned to the event */
+  tags: Tag[];
+}
+
+export function EventTagEditor({ eventId, tags }: EventTagEditorProps) {
+  const { t } = useTranslation();
+  const { availableTags, tagsSupported } = useEventTags();
+  const createTagMutation = useCreateTag();
+  const assignTagMutation = useAssignEventTag();
+  const unassignTagMutation = useUnassignEventTag();
+
+  const isBusy = createTagMutation.isPending;
+
+  const handleAssign = (tag: Tag) => {
+    assignTagMutation.mutate(
+      { eventIds: [eventId], tag },
+      { onError: () => toast.error(t('tags.assign_failed', { name: tag.Name })) }
+    );
+  };
+
+  const handleCreate = async (name: string) => {
+    try {
+      const tag = await createTagMutation.mutateAsync(name);
+      handleAssign(tag);
+    } catch {
+      toast.error(t('tags.create_failed', { name }));
+    }
+  };
+
+  const handleRemove = (tagId: string) => {
+    const tag = tags.find((item) => item.Id === tagId);
+    if (!tag) return;
+    unassignTagMutation.mutate(
+      { eventIds: [eventId], tag },
+      { onError: () => toast.error(t('tags.unassign_failed', { name: tag.Name })) }
+    );
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2" data-testid="event-tag-editor">
+      {tags.map((tag) => (
+        <TagChip
+          key={tag.Id}
+          tag={tag}
+          size="md"
+          removable={tagsSupported}
+          onRemove={handleRemove}
+          removeLabel={t('tags.remove_named', { name: tag.Name })}
+        />
+      ))}
+      {tags.length === 0 && (
+        <span className="text-sm text-muted-foreground">{t('tags.no_tags_assigned')}</span>
+      )}
+      {tagsSupported && (
+        <TagPicker
+          availableTags={availableTags}
+          excludeTagIds={tags.map((tag) => tag.Id)}
+          onSelect={handleAssign}
+          onCreate={handleCreate}
+          disabled={isBusy}
+          testId="event-tag-picker"
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,251 @@
+/**
+ * Events Advanced Filters Component
+ *
+ * Collapsible section of the events filter popover for server-side filters
+ * beyond monitors and date range: archive status, cause/name/notes text
+ * matching, score/length/frame ranges and storage areas.
+ */
+
+import { useState } from 'react';
+import { ChevronDown, SlidersHorizontal } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import type { EventRangeFilter, EventTextFilter, EventTextMatch } from '../../api/events';
+import {
+  countAdvancedFilters,
+  EVENT_RANGE_FILTER_KEYS,
+  EVENT_TEXT_FILTER_KEYS,
+  type EventAdvancedFilters,
+  type EventRangeFilterKey,
+  type EventTextFilterKey,
+} from '../../lib/event-filter-params';
+import { Button } from '../ui/button';
+import { Checkbox } from '../ui/checkbox';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '../ui/collapsible';
+
+interface EventsAdvancedFiltersProps {
+  filters: EventAdvancedFilters;
+  onChange: (filters: EventAdvancedFilters) => void;
+}
+
+const TEXT_LABEL_KEYS: Record<EventTextFilterKey, string> = {
+  cause: 'events.filter.cause',
+  name: 'events.filter.name',
+  notes: 'events.filter.notes',
+};
+
+const RANGE_LABEL_KEYS: Record<EventRangeFilterKey, string> = {
+  maxScore: 'events.filter.max_score',
+  avgScore: 'events.filter.avg_score',
+  length: 'events.filter.length',
+  frames: 'events.filter.frames',
+};
+
+const parseNumberInput = (value: string): number | undefined => {
+  if (value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+export function EventsAdvancedFilters({ filters, onChange }: EventsAdvancedFiltersProps) {
+  const { t } = useTranslation();
+  const activeCount = countAdvancedFilters(filters);
+  const [isOpen, setIsOpen] = useState(activeCount > 0);
+
+  const updateText = (key: EventTextFilterKey, changes: Partial<EventTextFilter>) => {
+    const current: EventTextFilter = filters[key] ?? { value: '', match: 'contains' };
+    // Match and exclude choices stay while the value is empty; empty filters are not sent
+    onChange({ ...filters, [key]: { ...current, ...changes } });
+  };
+
+  const updateRange = (key: EventRangeFilterKey, changes: Partial<EventRangeFilter>) => {
+    const next = { ...filters[key], ...changes };
+    const isEmpty = next.min === undefined && next.max === undefined;
+    onChange({ ...filters, [key]: isEmpty ? undefined : next });
+  };
+
+  const archivedValue =
+    filters.archived === undefined ? 'any' : filters.archived ? 'archived' : 'unarchived';
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+      <div className="p-3 rounded-md border bg-card">
+        <CollapsibleTrigger asChild>
+          <button
+            type="button"
+            className="w-full flex items-center justify-between"
+            data-testid="events-advanced-filters-toggle"
+          >
+            <span className="flex items-center gap-2">
+              <SlidersHorizontal className="h-4 w-4 text-muted-foreground" />
+              <span className="font-medium text-sm">{t('events.filter.advanced')}</span>
+              {activeCount > 0 && (
+                <span className="text-xs rounded-full bg-primary text-primary-foreground px-1.5">
+                  {activeCount}
+                </span>
+              )}
+            </span>
+            <ChevronDown className={`h-4 w-4 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+          </button>
+        </CollapsibleTrigger>
+
+        <CollapsibleContent>
+          <div className="mt-3 space-y-4" data-testid="events-advanced-filters">
+            {/* Archive status */}
+            <div className="grid gap-1.5">
+              <Label htmlFor="events-archived-filter" className="text-xs">
+                {t('events.filter.archived')}
+              </Label>
+              <Select
+                value={archivedValue}
+                onValueChange={(value) =>
+                  onChange({
+                    ...filters,
+                    archived: value === 'any' ? undefined : value === 'archived',
+                  })
+                }
+              >
+                <SelectTrigger id="events-archived-filter" className="h-8" data-testid="events-archived-filter">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">{t('events.filter.archived_any')}</SelectItem>
+                  <SelectItem value="archived">{t('events.filter.archived_only')}</SelectItem>
+                  <SelectItem value="unarchived">{t('events.filter.unarchived_only')}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Text filters */}
+            {EVENT_TEXT_FILTER_KEYS.map((key) => {
+              const filter = filters[key];
+              return (
+                <div key={key} className="grid gap-1.5">
+                  <Label htmlFor={`events-${key}-filter`} className="text-xs">
+                    {t(TEXT_LABEL_KEYS[key])}
+                  </Label>
+                  <div className="flex gap-2">
+                    <Input
+                      id={`events-${key}-filter`}
+                      className="h-8 flex-1"
+                      value={filter?.value ?? ''}
+                      onChange={(e) => updateText(key, { value: e.target.value })}
+                      data-testid={`events-${key}-filter`}
+                    />
+                    <Select
+                      value={filter?.match ?? 'contains'}
+                      onValueChange={(value) => updateText(key, { match: value as EventTextMatch })}
+                    >
+                      <SelectTrigger className="h-8 w-[110px]" data-testid={`events-${key}-match`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="contains">{t('events.filter.match_contains')}</SelectItem>
+                        <SelectItem value="equals">{t('events.filter.match_equals')}</SelectItem>
+                        <SelectItem value="regexp">{t('events.filter.match_regexp')}</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id={`events-${key}-negate`}
+                      checked={!!filter?.negate}
+                      onCheckedChange={(checked) => updateText(key, { negate: checked === true })}
+                    />
+                    <label htmlFor={`events-${key}-negate`} className="text-xs text-muted-foreground cursor-pointer">
+                      {t('events.filter.exclude')}
+                    </label>
+                  </div>
+                </div>
+              );
+            })}
+
+            {/* Range filters */}
+            {EVENT_RANGE_FILTER_KEYS.map((key) => {
+              const range = filters[key];
+              return (
+                <div key={key} className="grid gap-1.5">
+                  <Label className="text-xs">{t(RANGE_LABEL_KEYS[key])}</Label>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      type="number"
+                      inputMode="decimal"
+                      min={0}
+                      className="h-8"
+                      placeholder={t('events.filter.min')}
+                      aria-label={`${t(RANGE_LABEL_KEYS[key])} ${t('events.filter.min')}`}
+                      value={range?.min ?? ''}
+                      onChange={(e) => updateRange(key, { min: parseNumberInput(e.target.value) })}
+                      data-testid={`events-${key}-min`}
+                    />
+                    <span className="text-muted-foreground">–</span>
+                    <Input
+                      type="number"
+                      inputMode="decimal"
+                      min={0}
+                      className="h-8"
+                      placeholder={t('events.filter.max')}
+                      aria-label={`${t(RANGE_LABEL_KEYS[key])} ${t('events.filter.max')}`}
+                      value={range?.max ?? ''}
+                      onChange={(e) => updateRange(key, { max: parseNumberInput(e.target.value) })}
+                      data-testid={`events-${key}-max`}
+                    />
+                  </div>
+                </div>
+              );
+            })}
+
+            {/* Storage areas */}
+            <div className="grid gap-1.5">
+              <Label htmlFor="events-storage-filter" className="text-xs">
+                {t('events.filter.storage')}
+              </Label>
+              <Input
+                id="events-storage-filter"
+                className="h-8"
+                placeholder={t('events.filter.storage_placeholder')}
+                value={filters.storage?.ids.join(',') ?? ''}
+                onChange={(e) => {
+                  const ids = e.target.value === '' ? [] : e.target.value.split(',').map((id) => id.trim());
+                  onChange({
+                    ...filters,
+                    storage: ids.length > 0 ? { ids, negate: filters.storage?.negate } : undefined,
+                  });
+                }}
+                data-testid="events-storage-filter"
+              />
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="events-storage-negate"
+                  checked={!!filters.storage?.negate}
+                  disabled={!filters.storage}
+                  onCheckedChange={(checked) =>
+                    filters.storage &&
+                    onChange({ ...filters, storage: { ...filters.storage, negate: checked === true } })
+                  }
+                />
+                <label htmlFor="events-storage-negate" className="text-xs text-muted-foreground cursor-pointer">
+                  {t('events.filter.exclude')}
+                </label>
+              </div>
+            </div>
+
+            {activeCount > 0 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="w-full h-7 text-xs"
+                onClick={() => onChange({})}
+                data-testid="events-advanced-filters-reset"
+              >
+                {t('events.filter.reset_advanced')}
+              </Button>
+            )}
+          </div>
+        </CollapsibleContent>
+      </div>
+    </Collapsible>
+  );
+}
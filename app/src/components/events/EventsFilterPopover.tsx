@@ -2,7 +2,8 @@
  * Events Filter Popover Component
  *
  * Extracted from Events.tsx to reduce component complexity.
- * Provides filtering UI for events by monitors, favorites, tags, and date range.
+ * Provides filtering UI for events by monitors, favorites, tags, date range,
+ * and advanced server-side filters (cause, name, notes, scores, length, frames, storage).
  */
 
 import { Star, Tag, X, Loader2 } from 'lucide-react';
@@ -16,6 +17,8 @@ import { Switch } from '../ui/switch';
 import { QuickDateRangeButtons } from '../ui/quick-date-range-buttons';
 import { MonitorFilterPopoverContent } from '../filters/MonitorFilterPopover';
 import { TagChip } from './TagChip';
+import { EventsAdvancedFilters } from './EventsAdvancedFilters';
+import type { EventAdvancedFilters } from '../../lib/event-filter-params';
 import { cn } from '../../lib/utils';
 
 interface EventsFilterPopoverProps {
@@ -37,6 +40,10 @@ interface EventsFilterPopoverProps {
   selectedTagIds?: string[];
   onTagSelectionChange?: (ids: string[]) => void;
   isLoadingTags?: boolean;
+  onManageTags?: () => void;
+  // Advanced filter props
+  advancedFilters?: EventAdvancedFilters;
+  onAdvancedFiltersChange?: (filters: EventAdvancedFilters) => void;
 }
 
 export function EventsFilterPopover({
@@ -57,6 +64,9 @@ export function EventsFilterPopover({
   selectedTagIds = [],
   onTagSelectionChange,
   isLoadingTags = false,
+  onManageTags,
+  advancedFilters,
+  onAdvancedFiltersChange,
 }: EventsFilterPopoverProps) {
   const { t } = useTranslation();
 
@@ -128,6 +138,17 @@ export function EventsFilterPopover({
             <div className="flex items-center gap-2">
               <Tag className="h-4 w-4 text-muted-foreground" />
               <Label className="font-medium">{t('events.filter.tags')}</Label>
+              {onManageTags && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="ml-auto h-6 px-2 text-xs"
+                  onClick={onManageTags}
+                  data-testid="events-manage-tags"
+                >
+                  {t('tags.manage')}
+                </Button>
+              )}
             </div>
 
             {/* Loading state */}
@@ -223,6 +244,9 @@ export function EventsFilterPopover({
             <QuickDateRangeButtons onRangeSelect={onQuickRangeSelect} />
           </div>
         </div>
+        {advancedFilters && onAdvancedFiltersChange && (
+          <EventsAdvancedFilters filters={advancedFilters} onChange={onAdvancedFiltersChange} />
+        )}
       </div>
     </PopoverContent>
   );
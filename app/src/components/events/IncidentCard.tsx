@@ -0,0 +1,196 @@
+/**
+ * Incident Card Component
+ *
+ * Shows one incident (near-simultaneous events across monitors) in the event
+ * list: the time span, the participating monitors and a thumbnail strip with
+ * one snapshot per event. Clicking a thumbnail opens that event, or selects
+ * it in selection mode.
+ */
+
+import { memo, type MouseEvent } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { format } from 'date-fns';
+import { Calendar, Clock, Layers } from 'lucide-react';
+import type { Monitor } from '../../api/types';
+import { getEventImageUrl } from '../../api/events';
+import type { ToggleSelectionOptions } from '../../hooks/useEventSelection';
+import type { EventIncident } from '../../lib/event-incidents';
+import { cn } from '../../lib/utils';
+import { Badge } from '../ui/badge';
+import { Card } from '../ui/card';
+import { SecureImage } from '../ui/secure-image';
+
+/** Thumbnail size requested from the server */
+const STRIP_THUMBNAIL_WIDTH = 160;
+const STRIP_THUMBNAIL_HEIGHT = 90;
+
+interface IncidentThumbnailStripProps {
+  incident: EventIncident;
+  getMonitorName: (monitorId: string) => string;
+  portalUrl: string;
+  accessToken?: string;
+  thumbnailFit?: 'contain' | 'cover' | 'none' | 'scale-down';
+  /** Page to return to from the event detail view */
+  from: string;
+  selectedEventIds?: Set<string>;
+  onToggleSelect?: (eventId: string, options?: ToggleSelectionOptions) => void;
+  /** Smaller thumbnails without captions, e.g. for dashboard widgets */
+  compact?: boolean;
+  className?: string;
+}
+
+/**
+ * Combined thumbnail strip of an incident's events, oldest first.
+ */
+export function IncidentThumbnailStrip({
+  incident,
+  getMonitorName,
+  portalUrl,
+  accessToken,
+  thumbnailFit = 'cover',
+  from,
+  selectedEventIds,
+  onToggleSelect,
+  compact = false,
+  className,
+}: IncidentThumbnailStripProps) {
+  const navigate = useNavigate();
+  const { t } = useTranslation();
+
+  const handleClick = (e: MouseEvent, eventId: string) => {
+    e.stopPropagation();
+    if (onToggleSelect) {
+      onToggleSelect(eventId);
+    } else {
+      navigate(`/events/${eventId}`, { state: { from } });
+    }
+  };
+
+  return (
+    <div className={cn('flex gap-2 overflow-x-auto pb-1', className)} data-testid="incident-thumbnail-strip">
+      {incident.events.map(({ Event }) => {
+        const isSelected = selectedEventIds?.has(Event.Id);
+        return (
+          <button
+            key={Event.Id}
+            type="button"
+            className={cn(
+              'relative shrink-0 aspect-video rounded overflow-hidden bg-black focus:outline-none focus:ring-2 focus:ring-primary',
+              compact ? 'w-16' : 'w-28 sm:w-32',
+              isSelected && 'ring-2 ring-primary'
+            )}
+            onClick={(e) => handleClick(e, Event.Id)}
+            aria-label={
+              onToggleSelect
+                ? t('events.selection.select_event', { id: Event.Id })
+                : `${t('common.view')}: ${Event.Name}`
+            }
+            aria-pressed={onToggleSelect ? !!isSelected : undefined}
+            data-testid={`incident-event-${Event.Id}`}
+          >
+            <SecureImage
+              src={getEventImageUrl(portalUrl, Event.Id, 'snapshot', {
+                token: accessToken,
+                width: STRIP_THUMBNAIL_WIDTH,
+                height: STRIP_THUMBNAIL_HEIGHT,
+              })}
+              alt={Event.Name}
+              title={compact ? getMonitorName(Event.MonitorId) : undefined}
+              className="w-full h-full"
+              style={{ objectFit: thumbnailFit }}
+              loading="lazy"
+            />
+            {!compact && (
+              <div className="absolute inset-x-0 bottom-0 bg-black/70 px-1 py-0.5 text-left text-[10px] text-white">
+                <div className="truncate font-medium">{getMonitorName(Event.MonitorId)}</div>
+                <div className="tabular-nums opacity-80">
+                  {format(new Date(Event.StartDateTime.replace(' ', 'T')), 'HH:mm:ss')}
+                </div>
+              </div>
+            )}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+interface IncidentCardProps {
+  incident: EventIncident;
+  monitors: Array<{ Monitor: Monitor }>;
+  thumbnailFit: 'contain' | 'cover' | 'none' | 'scale-down';
+  portalUrl: string;
+  accessToken?: string;
+  selectedEventIds?: Set<string>;
+  onToggleSelect?: (eventId: string, options?: ToggleSelectionOptions) => void;
+}
+
+function IncidentCardComponent({
+  incident,
+  monitors,
+  thumbnailFit,
+  portalUrl,
+  accessToken,
+  selectedEventIds,
+  onToggleSelect,
+}: IncidentCardProps) {
+  const { t } = useTranslation();
+
+  const getMonitorName = (monitorId: string) =>
+    monitors.find(({ Monitor }) => Monitor.Id === monitorId)?.Monitor.Name || `Camera ${monitorId}`;
+
+  // Events with an unreadable start time form incidents without a known time
+  const hasTime = Number.isFinite(incident.start);
+  const durationSeconds = Math.round((incident.end - incident.start) / 1000);
+
+  return (
+    <Card className="p-2 sm:p-3 space-y-2" data-testid="incident-card">
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs sm:text-sm">
+        <span className="flex items-center gap-1.5 font-semibold">
+          <Layers className="h-4 w-4 text-primary" />
+          {t('events.incidents.event_count', { count: incident.events.length })}
+        </span>
+        {hasTime ? (
+          <>
+            <span className="flex items-center gap-1 text-muted-foreground">
+              <Calendar className="h-3 w-3" />
+              {format(incident.start, 'MMM d, yyyy')}
+            </span>
+            <span className="flex items-center gap-1 text-muted-foreground tabular-nums">
+              <Clock className="h-3 w-3" />
+              {format(incident.start, 'HH:mm:ss')} – {format(incident.end, 'HH:mm:ss')}
+            </span>
+            <Badge variant="secondary" className="text-[10px]">
+              {durationSeconds}s
+            </Badge>
+          </>
+        ) : (
+          <span className="flex items-center gap-1 text-muted-foreground">
+            <Clock className="h-3 w-3" />
+            {incident.events[0].Event.StartDateTime || t('common.unknown')}
+          </span>
+        )}
+      </div>
+      <div className="flex flex-wrap gap-1" data-testid="incident-monitors">
+        {incident.monitorIds.map((monitorId) => (
+          <Badge key={monitorId} variant="outline" className="text-[10px]">
+            {getMonitorName(monitorId)}
+          </Badge>
+        ))}
+      </div>
+      <IncidentThumbnailStrip
+        incident={incident}
+        getMonitorName={getMonitorName}
+        portalUrl={portalUrl}
+        accessToken={accessToken}
+        thumbnailFit={thumbnailFit}
+        from="/events"
+        selectedEventIds={selectedEventIds}
+        onToggleSelect={onToggleSelect}
+      />
+    </Card>
+  );
+}
+
+export const IncidentCard = memo(IncidentCardComponent);
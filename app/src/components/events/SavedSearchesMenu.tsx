@@ -0,0 +1,352 @@
+/**
+ * Saved Searches Menu Component
+ *
+ * Dropdown for recalling named event searches of the current profile.
+ * Features:
+ * - Apply a saved search
+ * - Save the current filters under a name, with a relative or absolute date range
+ * - Delete searches
+ * - Import and export searches as JSON
+ */
+
+import { useMemo, useRef, useState } from 'react';
+import { Bookmark, BookmarkPlus, Check, Download, Trash2, Upload } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'sonner';
+import { useCurrentProfile } from '../../hooks/useCurrentProfile';
+import { useSavedSearchesStore } from '../../stores/savedSearches';
+import { downloadTextFile } from '../../lib/download';
+import { log, LogLevel } from '../../lib/logger';
+import {
+  RELATIVE_RANGE_PRESETS,
+  exportSavedSearches,
+  inferSavedSearchDateRange,
+  parseSavedSearchesImport,
+  type SavedEventSearch,
+  type SavedEventSearchInput,
+  type SavedSearchDateRange,
+} from '../../lib/saved-searches';
+import { Button } from '../ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '../ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '../ui/dialog';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+
+/** Current filters offered for saving; dates are datetime-local strings */
+export interface SavedSearchDraft extends Omit<SavedEventSearchInput, 'name' | 'dateRange'> {
+  startDateTime: string;
+  endDateTime: string;
+}
+
+interface SavedSearchesMenuProps {
+  /** Apply a saved search */
+  onApply: (search: SavedEventSearch) => void;
+  /** Current filters; omit to hide "save current filters" */
+  draft?: SavedSearchDraft;
+  /** ID of the search currently applied, shown with a check mark */
+  activeSearchId?: string | null;
+  /** Show the button label next to the icon */
+  showLabel?: boolean;
+  /** Test id prefix */
+  testId?: string;
+}
+
+/**
+ * Encode a date range for the date range select.
+ */
+function dateRangeToOption(range: SavedSearchDateRange | null): string {
+  if (!range) return 'none';
+  return range.type === 'relative' ? `relative:${range.hours}` : 'absolute';
+}
+
+export function SavedSearchesMenu({
+  onApply,
+  draft,
+  activeSearchId,
+  showLabel = false,
+  testId = 'saved-searches',
+}: SavedSearchesMenuProps) {
+  const { t } = useTranslation();
+  const { currentProfile } = useCurrentProfile();
+  const profileId = currentProfile?.id;
+  const searches = useSavedSearchesStore((state) => (profileId ? state.profileSearches[profileId] : undefined));
+  const addSearch = useSavedSearchesStore((state) => state.addSearch);
+  const updateSearch = useSavedSearchesStore((state) => state.updateSearch);
+  const removeSearch = useSavedSearchesStore((state) => state.removeSearch);
+  const importSearches = useSavedSearchesStore((state) => state.importSearches);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [isSaveDialogOpen, setIsSaveDialogOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [dateOption, setDateOption] = useState('none');
+
+  const savedSearches = useMemo(
+    () => [...(searches ?? [])].sort((a, b) => a.name.localeCompare(b.name)),
+    [searches]
+  );
+
+  const formatRange = (range: SavedSearchDateRange | null): string => {
+    if (!range) return t('saved_searches.any_time');
+    if (range.type === 'absolute') {
+      return t('saved_searches.absolute_range', {
+        start: range.start.replace('T', ' '),
+        end: range.end.replace('T', ' '),
+      });
+    }
+    return range.hours % 24 === 0
+      ? t('saved_searches.last_days', { count: range.hours / 24 })
+      : t('saved_searches.last_hours', { count: range.hours });
+  };
+
+  // Relative presets, plus the range of the current filter if it is not a preset
+  const inferredRange = useMemo(
+    () => (draft ? inferSavedSearchDateRange(draft.startDateTime, draft.endDateTime) : null),
+    [draft]
+  );
+  const relativeOptions = useMemo(() => {
+    const hours = [...RELATIVE_RANGE_PRESETS];
+    if (inferredRange?.type === 'relative' && !hours.includes(inferredRange.hours)) {
+      hours.push(inferredRange.hours);
+      hours.sort((a, b) => a - b);
+    }
+    return hours;
+  }, [inferredRange]);
+  const hasAbsoluteDates = !!draft && (!!draft.startDateTime || !!draft.endDateTime);
+
+  const openSaveDialog = () => {
+    setName('');
+    setDateOption(dateRangeToOption(inferredRange));
+    setIsSaveDialogOpen(true);
+  };
+
+  const handleSave = () => {
+    if (!profileId || !draft) return;
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    let dateRange: SavedSearchDateRange | null = null;
+    if (dateOption === 'absolute') {
+      dateRange = { type: 'absolute', start: draft.startDateTime, end: draft.endDateTime };
+    } else if (dateOption.startsWith('relative:')) {
+      dateRange = { type: 'relative', hours: Number(dateOption.slice('relative:'.length)) };
+    }
+
+    const input: SavedEventSearchInput = {
+      name: trimmed,
+      monitorIds: draft.monitorIds,
+      tagIds: draft.tagIds,
+      dateRange,
+      favoritesOnly: draft.favoritesOnly,
+      advanced: draft.advanced,
+    };
+
+    // Saving under an existing name replaces that search
+    const existing = savedSearches.find((search) => search.name.toLowerCase() === trimmed.toLowerCase());
+    if (existing) {
+      updateSearch(profileId, existing.id, input);
+      toast.success(t('saved_searches.updated', { name: trimmed }));
+    } else {
+      addSearch(profileId, input);
+      toast.success(t('saved_searches.saved', { name: trimmed }));
+    }
+    setIsSaveDialogOpen(false);
+  };
+
+  const handleDelete = (search: SavedEventSearch) => {
+    if (!profileId) return;
+    removeSearch(profileId, search.id);
+    toast.success(t('saved_searches.deleted', { name: search.name }));
+  };
+
+  const handleExport = async () => {
+    try {
+      const date = new Date().toISOString().split('T')[0];
+      if (await downloadTextFile(exportSavedSearches(savedSearches), `zmng-saved-searches-${date}.json`)) {
+        toast.success(t('saved_searches.exported', { count: savedSearches.length }));
+      }
+    } catch {
+      toast.error(t('saved_searches.export_failed'));
+    }
+  };
+
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !profileId) return;
+
+    try {
+      const { searches: imported, skipped } = parseSavedSearchesImport(await file.text());
+      const count = importSearches(profileId, imported);
+      if (count === 0) {
+        toast.error(t('saved_searches.import_empty'));
+        return;
+      }
+      toast.success(t('saved_searches.imported', { count }));
+      if (skipped > 0) {
+        toast.warning(t('saved_searches.import_skipped', { count: skipped }));
+      }
+    } catch (error) {
+      log.profile('Failed to import saved event searches', LogLevel.WARN, { error });
+      toast.error(t('saved_searches.import_failed'));
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant={activeSearchId ? 'default' : 'outline'}
+            size={showLabel ? 'sm' : 'icon'}
+            className={showLabel ? 'h-8 sm:h-9 gap-2' : undefined}
+            aria-label={t('saved_searches.title')}
+            title={t('saved_searches.title')}
+            disabled={!profileId}
+            data-testid={`${testId}-button`}
+          >
+            <Bookmark className="h-4 w-4" />
+            {showLabel && <span className="hidden sm:inline">{t('saved_searches.title')}</span>}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-72" data-testid={`${testId}-menu`}>
+          <DropdownMenuLabel>{t('saved_searches.title')}</DropdownMenuLabel>
+          {savedSearches.length === 0 ? (
+            <p className="px-2 py-1.5 text-xs text-muted-foreground" data-testid={`${testId}-empty`}>
+              {t('saved_searches.empty')}
+            </p>
+          ) : (
+            savedSearches.map((search) => (
+              <DropdownMenuItem
+                key={search.id}
+                onSelect={() => onApply(search)}
+                className="flex items-center gap-2"
+                data-testid={`${testId}-item-${search.id}`}
+              >
+                <Check className={search.id === activeSearchId ? 'h-4 w-4' : 'h-4 w-4 invisible'} />
+                <div className="flex-1 min-w-0">
+                  <div className="truncate text-sm">{search.name}</div>
+                  <div className="truncate text-xs text-muted-foreground">{formatRange(search.dateRange)}</div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 shrink-0"
+                  aria-label={t('saved_searches.delete', { name: search.name })}
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleDelete(search);
+                  }}
+                  onPointerDown={(e) => e.stopPropagation()}
+                  data-testid={`${testId}-delete-${search.id}`}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </DropdownMenuItem>
+            ))
+          )}
+          <DropdownMenuSeparator />
+          {draft && (
+            <DropdownMenuItem onSelect={openSaveDialog} data-testid={`${testId}-save`}>
+              <BookmarkPlus className="h-4 w-4 mr-2" />
+              {t('saved_searches.save_current')}
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem onSelect={() => fileInputRef.current?.click()} data-testid={`${testId}-import`}>
+            <Upload className="h-4 w-4 mr-2" />
+            {t('saved_searches.import')}
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            onSelect={handleExport}
+            disabled={savedSearches.length === 0}
+            data-testid={`${testId}-export`}
+          >
+            <Download className="h-4 w-4 mr-2" />
+            {t('saved_searches.export')}
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={handleImportFile}
+        data-testid={`${testId}-file-input`}
+      />
+
+      <Dialog open={isSaveDialogOpen} onOpenChange={setIsSaveDialogOpen}>
+        <DialogContent className="sm:max-w-md" data-testid={`${testId}-save-dialog`}>
+          <DialogHeader>
+            <DialogTitle>{t('saved_searches.save_title')}</DialogTitle>
+            <DialogDescription>{t('saved_searches.save_desc')}</DialogDescription>
+          </DialogHeader>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleSave();
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor={`${testId}-name`}>{t('saved_searches.name')}</Label>
+              <Input
+                id={`${testId}-name`}
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder={t('saved_searches.name_placeholder')}
+                autoFocus
+                data-testid={`${testId}-name-input`}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>{t('saved_searches.date_range')}</Label>
+              <Select value={dateOption} onValueChange={setDateOption}>
+                <SelectTrigger data-testid={`${testId}-date-range-select`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">{t('saved_searches.any_time')}</SelectItem>
+                  {relativeOptions.map((hours) => (
+                    <SelectItem key={hours} value={`relative:${hours}`}>
+                      {formatRange({ type: 'relative', hours })}
+                    </SelectItem>
+                  ))}
+                  {hasAbsoluteDates && (
+                    <SelectItem value="absolute">
+                      {formatRange({ type: 'absolute', start: draft.startDateTime, end: draft.endDateTime })}
+                    </SelectItem>
+                  )}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">{t('saved_searches.date_range_hint')}</p>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsSaveDialogOpen(false)}>
+                {t('common.cancel')}
+              </Button>
+              <Button type="submit" disabled={!name.trim()} data-testid={`${testId}-save-confirm`}>
+                {t('common.save')}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
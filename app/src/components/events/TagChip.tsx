@@ -17,6 +17,8 @@ interface TagChipProps {
   removable?: boolean;
   /** Callback when remove button is clicked */
   onRemove?: (tagId: string) => void;
+  /** Accessible label for the remove button */
+  removeLabel?: string;
   /** Additional class names */
   className?: string;
   /** Size variant */
@@ -43,6 +45,7 @@ function TagChipComponent({
   tag,
   removable = false,
   onRemove,
+  removeLabel,
   className,
   size = 'sm',
 }: TagChipProps) {
@@ -77,7 +80,7 @@ function TagChipComponent({
             'rounded-full hover:bg-black/10 transition-colors flex-shrink-0',
             size === 'sm' ? 'p-0.5' : 'p-0.5'
           )}
-          aria-label={`Remove ${tag.Name}`}
+          aria-label={removeLabel ?? `Remove ${tag.Name}`}
           data-testid="tag-chip-remove"
         >
           <X className={cn(size === 'sm' ? 'h-2.5 w-2.5' : 'h-3 w-3')} />
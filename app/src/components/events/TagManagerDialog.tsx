@@ -0,0 +1,264 @@
+/**
+ * Tag Manager Dialog Component
+ *
+ * Create, rename and delete the tags defined on the ZoneMinder server.
+ * Opened from the tags section of the events filter popover.
+ */
+
+import { useState } from 'react';
+import { Check, Loader2, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'sonner';
+import type { Tag } from '../../api/types';
+import { useCreateTag, useDeleteTag, useEventTags, useRenameTag } from '../../hooks/useEventTags';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '../ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '../ui/alert-dialog';
+import { TagChip } from './TagChip';
+
+interface TagManagerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function TagManagerDialog({ open, onOpenChange }: TagManagerDialogProps) {
+  const { t } = useTranslation();
+  const { availableTags, isLoadingTags } = useEventTags();
+  const createTagMutation = useCreateTag();
+  const renameTagMutation = useRenameTag();
+  const deleteTagMutation = useDeleteTag();
+
+  const [newTagName, setNewTagName] = useState('');
+  const [editingTagId, setEditingTagId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [tagToDelete, setTagToDelete] = useState<Tag | null>(null);
+
+  const sortedTags = [...availableTags].sort((a, b) => a.Name.localeCompare(b.Name));
+
+  const isDuplicateName = (name: string, ignoreTagId?: string) =>
+    availableTags.some(
+      (tag) => tag.Id !== ignoreTagId && tag.Name.toLowerCase() === name.trim().toLowerCase()
+    );
+
+  const handleCreate = () => {
+    const name = newTagName.trim();
+    if (!name) return;
+    if (isDuplicateName(name)) {
+      toast.error(t('tags.duplicate_name', { name }));
+      return;
+    }
+    createTagMutation.mutate(name, {
+      onSuccess: () => {
+        setNewTagName('');
+        toast.success(t('tags.created', { name }));
+      },
+      onError: () => toast.error(t('tags.create_failed', { name })),
+    });
+  };
+
+  const startRename = (tag: Tag) => {
+    setEditingTagId(tag.Id);
+    setEditingName(tag.Name);
+  };
+
+  const handleRename = () => {
+    if (!editingTagId) return;
+    const name = editingName.trim();
+    const original = availableTags.find((tag) => tag.Id === editingTagId);
+    if (!name || name === original?.Name) {
+      setEditingTagId(null);
+      return;
+    }
+    if (isDuplicateName(name, editingTagId)) {
+      toast.error(t('tags.duplicate_name', { name }));
+      return;
+    }
+    renameTagMutation.mutate(
+      { tagId: editingTagId, name },
+      {
+        onSuccess: () => {
+          setEditingTagId(null);
+          toast.success(t('tags.renamed', { name }));
+        },
+        onError: () => toast.error(t('tags.rename_failed')),
+      }
+    );
+  };
+
+  const handleDelete = () => {
+    if (!tagToDelete) return;
+    const { Id, Name } = tagToDelete;
+    deleteTagMutation.mutate(Id, {
+      onSuccess: () => toast.success(t('tags.deleted', { name: Name })),
+      onError: () => toast.error(t('tags.delete_failed', { name: Name })),
+    });
+    setTagToDelete(null);
+  };
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-md" data-testid="tag-manager-dialog">
+          <DialogHeader>
+            <DialogTitle>{t('tags.manage_title')}</DialogTitle>
+            <DialogDescription>{t('tags.manage_desc')}</DialogDescription>
+          </DialogHeader>
+
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleCreate();
+            }}
+          >
+            <Input
+              className="h-9"
+              value={newTagName}
+              placeholder={t('tags.new_tag_placeholder')}
+              onChange={(e) => setNewTagName(e.target.value)}
+              aria-label={t('tags.new_tag_placeholder')}
+              data-testid="tag-manager-new-name"
+            />
+            <Button
+              type="submit"
+              size="sm"
+              className="h-9 gap-1"
+              disabled={!newTagName.trim() || createTagMutation.isPending}
+              data-testid="tag-manager-create"
+            >
+              {createTagMutation.isPending ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <Plus className="h-4 w-4" />
+              )}
+              {t('tags.create')}
+            </Button>
+          </form>
+
+          <div className="max-h-80 overflow-y-auto space-y-1" data-testid="tag-manager-list">
+            {isLoadingTags && (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                <span>{t('events.tags.loading')}</span>
+              </div>
+            )}
+            {!isLoadingTags && sortedTags.length === 0 && (
+              <p className="text-sm text-muted-foreground">{t('events.filter.noTags')}</p>
+            )}
+            {sortedTags.map((tag) => (
+              <div
+                key={tag.Id}
+                className="flex items-center gap-2 rounded-md border px-2 py-1.5"
+                data-testid={`tag-manager-row-${tag.Id}`}
+              >
+                {editingTagId === tag.Id ? (
+                  <form
+                    className="flex flex-1 items-center gap-1"
+                    onSubmit={(e) => {
+                      e.preventDefault();
+                      handleRename();
+                    }}
+                  >
+                    <Input
+                      autoFocus
+                      className="h-7 flex-1"
+                      value={editingName}
+                      onChange={(e) => setEditingName(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Escape' && setEditingTagId(null)}
+                      aria-label={t('tags.rename')}
+                      data-testid="tag-manager-rename-input"
+                    />
+                    <Button
+                      type="submit"
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      disabled={renameTagMutation.isPending}
+                      aria-label={t('common.save')}
+                      data-testid="tag-manager-rename-save"
+                    >
+                      <Check className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => setEditingTagId(null)}
+                      aria-label={t('common.cancel')}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </form>
+                ) : (
+                  <>
+                    <div className="flex-1 min-w-0">
+                      <TagChip tag={tag} size="md" />
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => startRename(tag)}
+                      aria-label={t('tags.rename_named', { name: tag.Name })}
+                      data-testid={`tag-manager-rename-${tag.Id}`}
+                    >
+                      <Pencil className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 text-destructive hover:text-destructive"
+                      onClick={() => setTagToDelete(tag)}
+                      aria-label={t('tags.delete_named', { name: tag.Name })}
+                      data-testid={`tag-manager-delete-${tag.Id}`}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </>
+                )}
+              </div>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!tagToDelete} onOpenChange={(isOpen) => !isOpen && setTagToDelete(null)}>
+        <AlertDialogContent data-testid="tag-delete-dialog">
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('tags.delete_confirm_title')}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t('tags.delete_confirm_desc', { name: tagToDelete?.Name ?? '' })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              data-testid="tag-delete-confirm"
+            >
+              {t('common.delete')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
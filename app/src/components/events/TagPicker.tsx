@@ -0,0 +1,185 @@
+/**
+ * TagPicker Component
+ *
+ * Popover with an autocomplete input for choosing a tag.
+ * Matches existing tags by name and, when allowed, offers to create
+ * a new tag from the typed text.
+ */
+
+import { useMemo, useState } from 'react';
+import { Plus, Tag as TagIcon } from 'lucide-react';
+import { useTranslation } from 'react-i18next';
+import type { Tag } from '../../api/types';
+import { cn } from '../../lib/utils';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '../ui/popover';
+
+interface TagPickerProps {
+  /** Tags that can be picked */
+  availableTags: Tag[];
+  /** Tags to leave out of the suggestions (e.g. already assigned) */
+  excludeTagIds?: string[];
+  /** Called with the chosen tag */
+  onSelect: (tag: Tag) => void;
+  /** Called with a new tag name; omit to disable tag creation */
+  onCreate?: (name: string) => void;
+  /** Text for the trigger button */
+  triggerLabel?: string;
+  /** Icon for the trigger button (defaults to a plus sign) */
+  triggerIcon?: React.ReactNode;
+  /** Disable the trigger button */
+  disabled?: boolean;
+  /** Maximum number of suggestions shown */
+  maxSuggestions?: number;
+  /** Test id prefix for the trigger, input and options */
+  testId?: string;
+}
+
+/**
+ * Rank tags for a query: prefix matches first, then substring matches,
+ * each group sorted alphabetically.
+ */
+function filterTagSuggestions(tags: Tag[], query: string, excludeTagIds: string[] = []): Tag[] {
+  const needle = query.trim().toLowerCase();
+  const candidates = tags.filter((tag) => !excludeTagIds.includes(tag.Id));
+  const byName = (a: Tag, b: Tag) => a.Name.localeCompare(b.Name);
+  if (!needle) return [...candidates].sort(byName);
+
+  const prefix = candidates.filter((tag) => tag.Name.toLowerCase().startsWith(needle));
+  const contains = candidates.filter(
+    (tag) => !tag.Name.toLowerCase().startsWith(needle) && tag.Name.toLowerCase().includes(needle)
+  );
+  return [...prefix.sort(byName), ...contains.sort(byName)];
+}
+
+export function TagPicker({
+  availableTags,
+  excludeTagIds = [],
+  onSelect,
+  onCreate,
+  triggerLabel,
+  triggerIcon,
+  disabled = false,
+  maxSuggestions = 8,
+  testId = 'tag-picker',
+}: TagPickerProps) {
+  const { t } = useTranslation();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [highlighted, setHighlighted] = useState(0);
+
+  const suggestions = useMemo(
+    () => filterTagSuggestions(availableTags, query, excludeTagIds).slice(0, maxSuggestions),
+    [availableTags, query, excludeTagIds, maxSuggestions]
+  );
+
+  const trimmed = query.trim();
+  // Tag names are unique regardless of case, so don't offer to create a duplicate
+  const canCreate =
+    !!onCreate &&
+    trimmed !== '' &&
+    !availableTags.some((tag) => tag.Name.toLowerCase() === trimmed.toLowerCase());
+  const optionCount = suggestions.length + (canCreate ? 1 : 0);
+
+  const close = () => {
+    setOpen(false);
+    setQuery('');
+    setHighlighted(0);
+  };
+
+  const choose = (index: number) => {
+    if (index < suggestions.length) {
+      onSelect(suggestions[index]);
+      close();
+    } else if (canCreate) {
+      onCreate?.(trimmed);
+      close();
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted((index) => (optionCount === 0 ? 0 : (index + 1) % optionCount));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted((index) => (optionCount === 0 ? 0 : (index - 1 + optionCount) % optionCount));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (optionCount > 0) choose(Math.min(highlighted, optionCount - 1));
+    }
+  };
+
+  return (
+    <Popover open={open} onOpenChange={(next) => (next ? setOpen(true) : close())}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7 gap-1 text-xs"
+          disabled={disabled}
+          data-testid={`${testId}-trigger`}
+        >
+          {triggerIcon ?? <Plus className="h-3 w-3" />}
+          {triggerLabel ?? t('tags.add_tag')}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 p-2" align="start" onClick={(e) => e.stopPropagation()}>
+        <Input
+          autoFocus
+          className="h-8"
+          value={query}
+          placeholder={onCreate ? t('tags.search_or_create') : t('tags.search')}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setHighlighted(0);
+          }}
+          onKeyDown={handleKeyDown}
+          aria-label={t('tags.search')}
+          data-testid={`${testId}-input`}
+        />
+        <div className="mt-2 max-h-56 overflow-y-auto" role="listbox">
+          {suggestions.map((tag, index) => (
+            <button
+              key={tag.Id}
+              type="button"
+              role="option"
+              aria-selected={index === highlighted}
+              className={cn(
+                'w-full flex items-center gap-2 rounded px-2 py-1.5 text-sm text-left hover:bg-accent',
+                index === highlighted && 'bg-accent'
+              )}
+              onMouseEnter={() => setHighlighted(index)}
+              onClick={() => choose(index)}
+              data-testid={`${testId}-option`}
+            >
+              <TagIcon className="h-3 w-3 text-muted-foreground flex-shrink-0" />
+              <span className="truncate">{tag.Name}</span>
+            </button>
+          ))}
+          {canCreate && (
+            <button
+              type="button"
+              role="option"
+              aria-selected={highlighted === suggestions.length}
+              className={cn(
+                'w-full flex items-center gap-2 rounded px-2 py-1.5 text-sm text-left hover:bg-accent',
+                highlighted === suggestions.length && 'bg-accent'
+              )}
+              onMouseEnter={() => setHighlighted(suggestions.length)}
+              onClick={() => choose(suggestions.length)}
+              data-testid={`${testId}-create`}
+            >
+              <Plus className="h-3 w-3 text-muted-foreground flex-shrink-0" />
+              <span className="truncate">{t('tags.create_named', { name: trimmed })}</span>
+            </button>
+          )}
+          {optionCount === 0 && (
+            <p className="px-2 py-1.5 text-xs text-muted-foreground">{t('tags.no_matches')}</p>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
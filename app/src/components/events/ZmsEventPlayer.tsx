@@ -3,9 +3,11 @@
  *
  * Provides video playback controls for ZoneMinder events using ZMS streaming.
  * Includes play/pause, speed controls, frame navigation, and alarm frames display.
+ * Polls the stream status while playing so the position can be shared with
+ * other views (e.g. the score chart), and accepts seek requests from them.
  */
 
-import { useState, useCallback, useMemo } from 'react';
+import { useState, useCallback, useMemo, useEffect, type CSSProperties, type ReactNode, type Ref } from 'react';
 import { Button } from '../ui/button';
 import { Badge } from '../ui/badge';
 import { Card } from '../ui/card';
@@ -24,6 +26,7 @@ import { useTranslation } from 'react-i18next';
 import { httpGet } from '../../lib/http';
 import { log, LogLevel } from '../../lib/logger';
 import { getEventZmsUrl, getZmsControlUrl } from '../../lib/url-builder';
+import type { VideoMarker } from '../../lib/video-markers';
 
 // ZoneMinder stream command constants
 const ZM_CMD = {
@@ -40,6 +43,20 @@ const ZM_CMD = {
   QUERY: 99,
 } as const;
 
+// How often the stream position is queried while playing
+const STATUS_POLL_INTERVAL_MS = 1000;
+
+interface ZmsStreamStatus {
+  status?: {
+    progress?: number | string;
+  };
+}
+
+/** Request to move playback to a position, in seconds since event start */
+export interface ZmsSeekRequest {
+  time: number;
+}
+
 interface ZmsEventPlayerProps {
   portalUrl: string;
   eventId: string;
@@ -50,6 +67,20 @@ interface ZmsEventPlayerProps {
   alarmFrameId?: string;
   maxScoreFrameId?: string;
   eventLength: number; // Event duration in seconds
+  /** Timeline markers (e.g. alarm runs); replaces the alarm/max score frame markers */
+  markers?: VideoMarker[];
+  /** Seek when a new request object is passed */
+  seekRequest?: ZmsSeekRequest | null;
+  /** Called with the playback position in seconds when it changes */
+  onTimeUpdate?: (time: number) => void;
+  /** Called when playback reaches the last frame */
+  onEnded?: () => void;
+  /** Content drawn over the stream (e.g. detection boxes) */
+  overlay?: ReactNode;
+  /** Ref for the stream's frame, which takes digital zoom gestures */
+  viewportRef?: Ref<HTMLDivElement>;
+  /** Style for the stream and its overlay, such as a digital zoom transform */
+  mediaStyle?: CSSProperties;
   className?: string;
 }
 
@@ -63,6 +94,13 @@ export function ZmsEventPlayer({
   alarmFrameId,
   maxScoreFrameId,
   eventLength,
+  markers,
+  seekRequest,
+  onTimeUpdate,
+  onEnded,
+  overlay,
+  viewportRef,
+  mediaStyle,
   className,
 }: ZmsEventPlayerProps) {
   const { t } = useTranslation();
@@ -78,6 +116,15 @@ export function ZmsEventPlayer({
 
   // Calculate alarm frame positions for progress bar
   const alarmFramePositions = useMemo(() => {
+    if (markers && markers.length > 0) {
+      return markers
+        .filter((marker) => marker.frameId !== undefined)
+        .map((marker) => ({
+          frameId: marker.frameId!,
+          position: (marker.frameId! / totalFrames) * 100,
+        }));
+    }
+
     const positions = [];
 
     // Add first alarm frame
@@ -99,7 +146,7 @@ export function ZmsEventPlayer({
     }
 
     return positions;
-  }, [alarmFrameId, maxScoreFrameId, totalFrames]);
+  }, [markers, alarmFrameId, maxScoreFrameId, totalFrames]);
 
   // Build ZMS stream URL
   const zmsUrl = useMemo(() => {
@@ -134,6 +181,39 @@ export function ZmsEventPlayer({
     return (frame / totalFrames) * eventLength;
   }, [totalFrames, eventLength]);
 
+  // Follow the stream position while playing
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    const queryStatus = async () => {
+      const url = getZmsControlUrl(portalUrl, ZM_CMD.QUERY, connKey, { token, apiUrl });
+      try {
+        const response = await httpGet<ZmsStreamStatus>(url);
+        const progress = Number(response.data?.status?.progress);
+        if (Number.isFinite(progress) && eventLength > 0) {
+          const frame = Math.round((progress / eventLength) * totalFrames);
+          setCurrentFrame(Math.max(1, Math.min(frame, totalFrames)));
+        }
+      } catch (err) {
+        log.zmsEventPlayer('Stream status query failed', LogLevel.DEBUG, {
+          connkey: connKey,
+          error: err,
+        });
+      }
+    };
+
+    const interval = setInterval(queryStatus, STATUS_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isPlaying, portalUrl, apiUrl, connKey, token, eventLength, totalFrames]);
+
+  useEffect(() => {
+    onTimeUpdate?.(frameToOffset(currentFrame));
+  }, [currentFrame, frameToOffset, onTimeUpdate]);
+
+  useEffect(() => {
+    if (isPlaying && totalFrames > 0 && currentFrame >= totalFrames) onEnded?.();
+  }, [isPlaying, currentFrame, totalFrames, onEnded]);
+
   // Handle play/pause
   const togglePlayPause = useCallback(() => {
     if (isPlaying) {
@@ -155,6 +235,14 @@ export function ZmsEventPlayer({
     sendCommand(ZM_CMD.SEEK, offset);
   }, [totalFrames, frameToOffset, sendCommand]);
 
+  // Seek requested by another view
+  useEffect(() => {
+    if (!seekRequest || totalFrames < 1 || eventLength <= 0) return;
+    goToFrame(Math.round((seekRequest.time / eventLength) * totalFrames));
+    // Only react to new requests
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [seekRequest]);
+
   const stepBackward = useCallback(() => {
     sendCommand(ZM_CMD.PREV);
     setCurrentFrame((prev) => Math.max(1, prev - 1));
@@ -200,12 +288,18 @@ export function ZmsEventPlayer({
     <div className={className}>
       {/* Video Display */}
       <Card className="overflow-hidden shadow-2xl border-0 ring-1 ring-border/20 bg-black">
-        <div className="aspect-video relative bg-black">
+        <div ref={viewportRef} className="aspect-video relative bg-black overflow-hidden">
           <img
             src={zmsUrl}
             alt={t('event_detail.event_playback')}
             className="w-full h-full object-contain"
+            style={mediaStyle}
           />
+          {overlay && (
+            <div className="absolute inset-0 pointer-events-none" style={mediaStyle}>
+              {overlay}
+            </div>
+          )}
 
           {/* Status Badge */}
           <div className="absolute top-4 left-4">
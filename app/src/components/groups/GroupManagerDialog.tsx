@@ -0,0 +1,407 @@
+/**
+ * Group Manager Dialog Component
+ *
+ * Create, rename, nest and delete monitor groups, and edit which monitors
+ * belong to each group. Membership can be edited with checkboxes or by
+ * dragging a monitor onto a group. Opened from the Monitors page.
+ */
+
+import { useMemo, useState, type DragEvent } from 'react';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'sonner';
+import { Folder, GripVertical, Loader2, Plus, Trash2 } from 'lucide-react';
+import type { GroupData, MonitorData } from '../../api/types';
+import { useCreateGroup, useDeleteGroup, useGroups, useUpdateGroup } from '../../hooks/useGroups';
+import { useGroupFilter } from '../../hooks/useGroupFilter';
+import { buildGroupHierarchy, getDescendantGroupIds } from '../../lib/filters';
+import { cn } from '../../lib/utils';
+import { Button } from '../ui/button';
+import { Checkbox } from '../ui/checkbox';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '../ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '../ui/alert-dialog';
+
+/** Select value for "no parent", since Radix Select doesn't allow '' */
+const NO_PARENT = 'none';
+
+const MONITOR_DRAG_TYPE = 'application/x-zmng-monitor-id';
+
+interface GroupDraft {
+  groupId: string;
+  name: string;
+  parentId: string | null;
+  monitorIds: string[];
+}
+
+interface GroupManagerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  monitors: MonitorData[];
+}
+
+export function GroupManagerDialog({ open, onOpenChange, monitors }: GroupManagerDialogProps) {
+  const { t } = useTranslation();
+  const { groups, isLoading } = useGroups();
+  const { selectedGroupId: filterGroupId, clearGroupFilter } = useGroupFilter();
+  const createGroupMutation = useCreateGroup();
+  const updateGroupMutation = useUpdateGroup();
+  const deleteGroupMutation = useDeleteGroup();
+
+  const [newGroupName, setNewGroupName] = useState('');
+  const [newGroupParentId, setNewGroupParentId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<GroupDraft | null>(null);
+  const [groupToDelete, setGroupToDelete] = useState<GroupData | null>(null);
+  const [dropTargetId, setDropTargetId] = useState<string | null>(null);
+
+  const hierarchy = useMemo(() => buildGroupHierarchy(groups), [groups]);
+
+  // A group can't be nested under itself or one of its own descendants
+  const parentOptions = useMemo(() => {
+    if (!draft) return hierarchy;
+    const excluded = new Set([draft.groupId, ...getDescendantGroupIds(draft.groupId, groups)]);
+    return hierarchy.filter(({ group }) => !excluded.has(group.Group.Id));
+  }, [hierarchy, draft, groups]);
+
+  const isDuplicateName = (name: string, parentId: string | null, ignoreGroupId?: string) =>
+    groups.some(
+      ({ Group }) =>
+        Group.Id !== ignoreGroupId &&
+        (Group.ParentId || null) === parentId &&
+        Group.Name.toLowerCase() === name.trim().toLowerCase()
+    );
+
+  const selectGroup = (group: GroupData) => {
+    setDraft({
+      groupId: group.Group.Id,
+      name: group.Group.Name,
+      parentId: group.Group.ParentId || null,
+      monitorIds: group.Monitor.map((monitor) => monitor.Id),
+    });
+  };
+
+  const handleCreate = () => {
+    const name = newGroupName.trim();
+    if (!name) return;
+    if (isDuplicateName(name, newGroupParentId)) {
+      toast.error(t('groups.duplicate_name', { name }));
+      return;
+    }
+    createGroupMutation.mutate(
+      { name, parentId: newGroupParentId },
+      {
+        onSuccess: () => {
+          setNewGroupName('');
+          toast.success(t('groups.created', { name }));
+        },
+        onError: () => toast.error(t('groups.create_failed', { name })),
+      }
+    );
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    const name = draft.name.trim();
+    if (!name) return;
+    if (isDuplicateName(name, draft.parentId, draft.groupId)) {
+      toast.error(t('groups.duplicate_name', { name }));
+      return;
+    }
+    updateGroupMutation.mutate(
+      { groupId: draft.groupId, group: { name, parentId: draft.parentId, monitorIds: draft.monitorIds } },
+      {
+        onSuccess: () => toast.success(t('groups.saved', { name })),
+        onError: () => toast.error(t('groups.save_failed', { name })),
+      }
+    );
+  };
+
+  const handleDelete = () => {
+    if (!groupToDelete) return;
+    const { Id, Name } = groupToDelete.Group;
+    deleteGroupMutation.mutate(Id, {
+      onSuccess: () => {
+        // Don't leave the group filter pointing at a group that no longer exists
+        if (filterGroupId === Id) clearGroupFilter();
+        if (draft?.groupId === Id) setDraft(null);
+        toast.success(t('groups.deleted', { name: Name }));
+      },
+      onError: () => toast.error(t('groups.delete_failed', { name: Name })),
+    });
+    setGroupToDelete(null);
+  };
+
+  const toggleMonitor = (monitorId: string, checked: boolean) => {
+    setDraft((prev) =>
+      prev && {
+        ...prev,
+        monitorIds: checked
+          ? [...prev.monitorIds, monitorId]
+          : prev.monitorIds.filter((id) => id !== monitorId),
+      }
+    );
+  };
+
+  const handleDrop = (event: DragEvent, group: GroupData) => {
+    event.preventDefault();
+    setDropTargetId(null);
+    const monitorId = event.dataTransfer.getData(MONITOR_DRAG_TYPE);
+    const memberIds = group.Monitor.map((monitor) => monitor.Id);
+    if (!monitorId || memberIds.includes(monitorId)) return;
+
+    const monitorName = monitors.find(({ Monitor }) => Monitor.Id === monitorId)?.Monitor.Name ?? monitorId;
+    updateGroupMutation.mutate(
+      { groupId: group.Group.Id, group: { monitorIds: [...memberIds, monitorId] } },
+      {
+        onSuccess: () => {
+          // Keep an open edit of the same group in step with the server
+          setDraft((prev) =>
+            prev?.groupId === group.Group.Id && !prev.monitorIds.includes(monitorId)
+              ? { ...prev, monitorIds: [...prev.monitorIds, monitorId] }
+              : prev
+          );
+          toast.success(t('groups.monitor_added', { monitor: monitorName, group: group.Group.Name }));
+        },
+        onError: () => toast.error(t('groups.save_failed', { name: group.Group.Name })),
+      }
+    );
+  };
+
+  const renderParentSelect = (
+    value: string | null,
+    onChange: (parentId: string | null) => void,
+    options: typeof hierarchy,
+    testId: string
+  ) => (
+    <Select value={value ?? NO_PARENT} onValueChange={(next) => onChange(next === NO_PARENT ? null : next)}>
+      <SelectTrigger className="h-9" aria-label={t('groups.parent')} data-testid={testId}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_PARENT}>{t('groups.no_parent')}</SelectItem>
+        {options.map(({ group, level }) => (
+          <SelectItem key={group.Group.Id} value={group.Group.Id}>
+            <span style={{ paddingLeft: `${level * 12}px` }}>{group.Group.Name}</span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent
+          className="max-w-3xl w-[calc(100%-1.5rem)] max-h-[90vh] overflow-y-auto"
+          data-testid="group-manager-dialog"
+        >
+          <DialogHeader>
+            <DialogTitle>{t('groups.manage_title')}</DialogTitle>
+            <DialogDescription>{t('groups.manage_desc')}</DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-3">
+              <form
+                className="grid gap-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  handleCreate();
+                }}
+              >
+                <Input
+                  className="h-9"
+                  value={newGroupName}
+                  placeholder={t('groups.new_group_placeholder')}
+                  onChange={(e) => setNewGroupName(e.target.value)}
+                  aria-label={t('groups.new_group_placeholder')}
+                  data-testid="group-manager-new-name"
+                />
+                <div className="flex gap-2">
+                  <div className="flex-1 min-w-0">
+                    {renderParentSelect(newGroupParentId, setNewGroupParentId, hierarchy, 'group-manager-new-parent')}
+                  </div>
+                  <Button
+                    type="submit"
+                    size="sm"
+                    className="h-9 gap-1"
+                    disabled={!newGroupName.trim() || createGroupMutation.isPending}
+                    data-testid="group-manager-create"
+                  >
+                    {createGroupMutation.isPending ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <Plus className="h-4 w-4" />
+                    )}
+                    {t('groups.create')}
+                  </Button>
+                </div>
+              </form>
+
+              <div className="space-y-1" data-testid="group-manager-list">
+                {isLoading && (
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    <span>{t('common.loading')}</span>
+                  </div>
+                )}
+                {!isLoading && hierarchy.length === 0 && (
+                  <p className="text-sm text-muted-foreground">{t('groups.no_groups')}</p>
+                )}
+                {hierarchy.map(({ group, level, monitorCount }) => (
+                  <div
+                    key={group.Group.Id}
+                    className={cn(
+                      'flex items-center gap-1 rounded-md border pr-1 transition-colors',
+                      draft?.groupId === group.Group.Id && 'border-primary bg-primary/5',
+                      dropTargetId === group.Group.Id && 'border-primary bg-primary/10'
+                    )}
+                    style={{ marginLeft: `${level * 16}px` }}
+                    onDragOver={(e) => {
+                      if (!e.dataTransfer.types.includes(MONITOR_DRAG_TYPE)) return;
+                      e.preventDefault();
+                      setDropTargetId(group.Group.Id);
+                    }}
+                    onDragLeave={() => setDropTargetId(null)}
+                    onDrop={(e) => handleDrop(e, group)}
+                    data-testid={`group-manager-row-${group.Group.Id}`}
+                  >
+                    <button
+                      type="button"
+                      className="flex flex-1 min-w-0 items-center gap-1.5 px-2 py-1.5 text-left text-sm"
+                      onClick={() => selectGroup(group)}
+                    >
+                      <Folder className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+                      <span className="truncate">{group.Group.Name}</span>
+                      <span className="text-xs text-muted-foreground">({monitorCount})</span>
+                    </button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 text-destructive hover:text-destructive"
+                      onClick={() => setGroupToDelete(group)}
+                      aria-label={t('groups.delete_named', { name: group.Group.Name })}
+                      data-testid={`group-manager-delete-${group.Group.Id}`}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              {draft ? (
+                <div className="grid gap-2" data-testid="group-manager-editor">
+                  <Label htmlFor="group-manager-name" className="text-xs">
+                    {t('groups.name')}
+                  </Label>
+                  <Input
+                    id="group-manager-name"
+                    className="h-9"
+                    value={draft.name}
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                    data-testid="group-manager-name"
+                  />
+                  <Label className="text-xs">{t('groups.parent')}</Label>
+                  {renderParentSelect(
+                    draft.parentId,
+                    (parentId) => setDraft({ ...draft, parentId }),
+                    parentOptions,
+                    'group-manager-parent'
+                  )}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">{t('groups.select_hint')}</p>
+              )}
+
+              <div>
+                <Label className="text-xs">{t('groups.monitors')}</Label>
+                <div className="mt-1 max-h-64 overflow-y-auto space-y-1" data-testid="group-manager-monitors">
+                  {monitors.map(({ Monitor }) => (
+                    <div
+                      key={Monitor.Id}
+                      draggable
+                      onDragStart={(e) => {
+                        e.dataTransfer.setData(MONITOR_DRAG_TYPE, Monitor.Id);
+                        e.dataTransfer.effectAllowed = 'copy';
+                      }}
+                      className="flex items-center gap-2 rounded-md border px-2 py-1.5 text-sm cursor-grab active:cursor-grabbing"
+                      data-testid={`group-manager-monitor-${Monitor.Id}`}
+                    >
+                      <GripVertical className="h-3.5 w-3.5 shrink-0 text-muted-foreground" aria-hidden="true" />
+                      {draft && (
+                        <Checkbox
+                          id={`group-manager-member-${Monitor.Id}`}
+                          checked={draft.monitorIds.includes(Monitor.Id)}
+                          onCheckedChange={(checked) => toggleMonitor(Monitor.Id, checked === true)}
+                          data-testid={`group-manager-member-${Monitor.Id}`}
+                        />
+                      )}
+                      <label htmlFor={`group-manager-member-${Monitor.Id}`} className="truncate flex-1">
+                        {Monitor.Name}
+                      </label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {draft && (
+                <div className="flex justify-end gap-2">
+                  <Button size="sm" variant="outline" onClick={() => setDraft(null)}>
+                    {t('common.cancel')}
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={handleSave}
+                    disabled={!draft.name.trim() || updateGroupMutation.isPending}
+                    data-testid="group-manager-save"
+                  >
+                    {t('common.save')}
+                  </Button>
+                </div>
+              )}
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!groupToDelete} onOpenChange={(isOpen) => !isOpen && setGroupToDelete(null)}>
+        <AlertDialogContent data-testid="group-delete-dialog">
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('groups.delete_confirm_title')}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t('groups.delete_confirm_desc', { name: groupToDelete?.Group.Name ?? '' })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              data-testid="group-delete-confirm"
+            >
+              {t('common.delete')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -23,6 +23,7 @@ import {
   Video,
   Clock,
   ChartGantt,
+  BarChart3,
   Settings,
   Menu,
   Users,
@@ -154,6 +155,7 @@ function SidebarContent({ onMobileClose, isCollapsed }: SidebarContentProps) {
     { path: '/montage', label: t('sidebar.montage'), icon: LayoutGrid },
     { path: '/events', label: t('sidebar.events'), icon: Clock },
     { path: '/timeline', label: t('sidebar.timeline'), icon: ChartGantt },
+    { path: '/analytics', label: t('sidebar.analytics'), icon: BarChart3 },
     { path: '/notifications', label: t('sidebar.notifications'), icon: Bell },
     { path: '/profiles', label: t('sidebar.profiles'), icon: Users },
     { path: '/settings', label: t('sidebar.settings'), icon: Settings },
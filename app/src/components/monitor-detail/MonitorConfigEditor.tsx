@@ -0,0 +1,226 @@
+/**
+ * Monitor Config Editor
+ *
+ * Sectioned form for common monitor settings (frame rates, buffers,
+ * recording, timestamp). Changes are validated as you type, shown as a diff
+ * for review before saving, and the last saved change can be undone.
+ */
+
+import { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ArrowRight, Undo2 } from 'lucide-react';
+import type { Monitor } from '../../api/types';
+import {
+  diffMonitorConfig,
+  getMonitorConfigValues,
+  MONITOR_CONFIG_SECTIONS,
+  validateMonitorConfig,
+  type MonitorConfigField,
+  type MonitorConfigKey,
+  type MonitorConfigValues,
+} from '../../lib/monitor-config';
+import type { UseMonitorConfigReturn } from '../../pages/hooks/useMonitorConfig';
+import { Button } from '../ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { Switch } from '../ui/switch';
+
+interface MonitorConfigEditorProps {
+  monitor: Monitor;
+  config: UseMonitorConfigReturn;
+}
+
+export function MonitorConfigEditor({ monitor, config }: MonitorConfigEditorProps) {
+  const { t } = useTranslation();
+  const { isConfigSaving, lastConfigChanges, saveConfigChanges, undoLastConfigChange } = config;
+  const [edits, setEdits] = useState<Partial<MonitorConfigValues>>({});
+  const [isReviewing, setIsReviewing] = useState(false);
+
+  const original = useMemo(() => getMonitorConfigValues(monitor), [monitor]);
+  const values = useMemo(() => ({ ...original, ...edits }), [original, edits]);
+  const errors = useMemo(() => validateMonitorConfig(values, original), [values, original]);
+  const changes = useMemo(() => diffMonitorConfig(original, values), [original, values]);
+  const hasErrors = Object.keys(errors).length > 0;
+
+  const setValue = (key: MonitorConfigKey, value: string) => {
+    setEdits((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const formatValue = (key: MonitorConfigKey, value: string) => {
+    if (!value) return t('monitor_config.empty');
+    if (key === 'RecordAudio') return value === '1' ? t('common.yes') : t('common.no');
+    return t(`monitor_config.options.${key}.${value}`, { defaultValue: value });
+  };
+
+  const handleSave = async () => {
+    if (await saveConfigChanges(changes)) {
+      setEdits({});
+      setIsReviewing(false);
+    }
+  };
+
+  const renderInput = (field: MonitorConfigField) => {
+    const id = `monitor-config-${field.key}`;
+    const value = values[field.key];
+    const label = t(`monitor_config.fields.${field.key}`);
+
+    switch (field.type) {
+      case 'boolean':
+        return (
+          <Switch
+            id={id}
+            checked={value === '1'}
+            onCheckedChange={(checked) => setValue(field.key, checked ? '1' : '0')}
+            data-testid={id}
+          />
+        );
+      case 'select': {
+        // Keep values the app doesn't know about selectable
+        const options = field.options.includes(value) || !value ? field.options : [...field.options, value];
+        return (
+          <Select value={value} onValueChange={(next) => setValue(field.key, next)}>
+            <SelectTrigger id={id} className="h-8" aria-label={label} data-testid={id}>
+              <SelectValue placeholder={t('monitor_config.empty')} />
+            </SelectTrigger>
+            <SelectContent>
+              {options.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {formatValue(field.key, option)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      }
+      case 'number':
+        return (
+          <Input
+            id={id}
+            type="number"
+            inputMode="decimal"
+            min={field.min}
+            max={field.max}
+            step={field.integer ? 1 : 'any'}
+            className="h-8"
+            placeholder={field.optional ? t('monitors.unlimited') : undefined}
+            value={value}
+            onChange={(e) => setValue(field.key, e.target.value)}
+            aria-invalid={!!errors[field.key]}
+            data-testid={id}
+          />
+        );
+      case 'text':
+        return (
+          <Input
+            id={id}
+            className="h-8"
+            maxLength={field.maxLength}
+            value={value}
+            onChange={(e) => setValue(field.key, e.target.value)}
+            aria-invalid={!!errors[field.key]}
+            data-testid={id}
+          />
+        );
+    }
+  };
+
+  return (
+    <Card className="border-muted/60 shadow-sm sm:col-span-2" data-testid="monitor-config-editor">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-semibold">{t('monitor_config.title')}</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        {isReviewing ? (
+          <div className="space-y-3" data-testid="monitor-config-review">
+            <p className="text-xs text-muted-foreground">{t('monitor_config.review_desc')}</p>
+            <ul className="divide-y rounded-md border">
+              {changes.map((change) => (
+                <li
+                  key={change.key}
+                  className="flex flex-wrap items-center gap-2 px-3 py-2"
+                  data-testid={`monitor-config-change-${change.key}`}
+                >
+                  <span className="font-medium flex-1 min-w-[8rem]">{t(`monitor_config.fields.${change.key}`)}</span>
+                  <span className="text-muted-foreground line-through">{formatValue(change.key, change.from)}</span>
+                  <ArrowRight className="h-3.5 w-3.5 text-muted-foreground" aria-hidden="true" />
+                  <span className="font-medium">{formatValue(change.key, change.to)}</span>
+                </li>
+              ))}
+            </ul>
+            <div className="flex justify-end gap-2">
+              <Button size="sm" variant="outline" onClick={() => setIsReviewing(false)} disabled={isConfigSaving}>
+                {t('monitor_config.back')}
+              </Button>
+              <Button size="sm" onClick={handleSave} disabled={isConfigSaving} data-testid="monitor-config-save">
+                {t('common.save')}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <>
+            {MONITOR_CONFIG_SECTIONS.map((section) => (
+              <section key={section.id} className="space-y-2" data-testid={`monitor-config-section-${section.id}`}>
+                <h3 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">
+                  {t(`monitor_config.sections.${section.id}`)}
+                </h3>
+                <div className="grid gap-3 sm:grid-cols-2">
+                  {section.fields.map((field) => {
+                    const error = errors[field.key];
+                    return (
+                      <div
+                        key={field.key}
+                        className={
+                          field.type === 'boolean' ? 'flex items-center justify-between gap-3' : 'grid gap-1.5'
+                        }
+                      >
+                        <Label htmlFor={`monitor-config-${field.key}`} className="text-xs">
+                          {t(`monitor_config.fields.${field.key}`)}
+                        </Label>
+                        {renderInput(field)}
+                        {error && (
+                          <p className="text-xs text-destructive" data-testid={`monitor-config-error-${field.key}`}>
+                            {t(`monitor_config.errors.${error.code}`, { limit: error.limit })}
+                          </p>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              </section>
+            ))}
+
+            <div className="flex flex-wrap items-center gap-2">
+              {lastConfigChanges && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={undoLastConfigChange}
+                  disabled={isConfigSaving}
+                  data-testid="monitor-config-undo"
+                >
+                  <Undo2 className="h-4 w-4 mr-1.5" />
+                  {t('monitor_config.undo', { count: lastConfigChanges.length })}
+                </Button>
+              )}
+              <div className="ml-auto flex gap-2">
+                <Button size="sm" variant="outline" onClick={() => setEdits({})} disabled={changes.length === 0}>
+                  {t('monitor_config.reset')}
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={() => setIsReviewing(true)}
+                  disabled={changes.length === 0 || hasErrors}
+                  data-testid="monitor-config-review-button"
+                >
+                  {t('monitor_config.review', { count: changes.length })}
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,7 +1,8 @@
 /**
  * Monitor Settings Dialog
  *
- * Displays monitor information and cycle settings in a dialog.
+ * Displays monitor information, cycle settings and the monitor configuration
+ * editor in a dialog.
  */
 
 import { useTranslation } from 'react-i18next';
@@ -11,6 +12,8 @@ import { Badge } from '../ui/badge';
 import { Label } from '../ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
 import type { Monitor } from '../../api/types';
+import type { UseMonitorConfigReturn } from '../../pages/hooks/useMonitorConfig';
+import { MonitorConfigEditor } from './MonitorConfigEditor';
 
 interface MonitorSettingsDialogProps {
   open: boolean;
@@ -21,6 +24,7 @@ interface MonitorSettingsDialogProps {
   feedFit: string;
   orientedResolution: string;
   rotationStatus: string;
+  config: UseMonitorConfigReturn;
 }
 
 export function MonitorSettingsDialog({
@@ -32,6 +36,7 @@ export function MonitorSettingsDialog({
   feedFit,
   orientedResolution,
   rotationStatus,
+  config,
 }: MonitorSettingsDialogProps) {
   const { t } = useTranslation();
 
@@ -162,6 +167,8 @@ export function MonitorSettingsDialog({
               </div>
             </CardContent>
           </Card>
+
+          <MonitorConfigEditor key={monitor.Id} monitor={monitor} config={config} />
         </div>
       </DialogContent>
     </Dialog>
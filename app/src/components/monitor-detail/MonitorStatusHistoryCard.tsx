@@ -0,0 +1,227 @@
+/**
+ * Monitor Status History Card
+ *
+ * Charts the recorded capture FPS, analysis FPS and bandwidth of a monitor,
+ * marks the low FPS threshold and lets the user change it.
+ */
+
+import { useCallback, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { format } from 'date-fns';
+import {
+  Area,
+  AreaChart,
+  CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from 'recharts';
+import { AlertTriangle, Trash2 } from 'lucide-react';
+import {
+  formatBandwidth,
+  getRecentCaptureFps,
+  isLowFps,
+  type MonitorStatusSample,
+} from '../../lib/monitor-status-history';
+import { MONITOR_STATUS_HISTORY } from '../../lib/zmng-constants';
+import { Button } from '../ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Label } from '../ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+
+interface MonitorStatusHistoryCardProps {
+  samples: MonitorStatusSample[];
+  /** Whether the monitor is currently capturing */
+  isRunning: boolean;
+  lowFpsThreshold: number;
+  onLowFpsThresholdChange: (threshold: number) => void;
+  onClearHistory: () => void;
+  /** Seconds between samples */
+  sampleIntervalSeconds: number;
+}
+
+const tooltipContentStyle = {
+  backgroundColor: 'hsl(var(--popover))',
+  borderColor: 'hsl(var(--border))',
+  color: 'hsl(var(--popover-foreground))',
+  borderRadius: '0.5rem',
+  fontSize: '12px',
+};
+
+const formatTime = (time: number) => format(time, 'HH:mm');
+
+export function MonitorStatusHistoryCard({
+  samples,
+  isRunning,
+  lowFpsThreshold,
+  onLowFpsThresholdChange,
+  onClearHistory,
+  sampleIntervalSeconds,
+}: MonitorStatusHistoryCardProps) {
+  const { t } = useTranslation();
+
+  const lowFps = isRunning && isLowFps(samples, lowFpsThreshold);
+  const recentFps = useMemo(() => getRecentCaptureFps(samples), [samples]);
+  const hasBandwidth = useMemo(() => samples.some((sample) => sample.bandwidth !== null), [samples]);
+  const domain = useMemo<[number, number]>(
+    () => (samples.length > 0 ? [samples[0].time, samples[samples.length - 1].time] : [0, 0]),
+    [samples]
+  );
+
+  const tooltipLabelFormatter = useCallback((value: unknown) => format(Number(value), 'PPpp'), []);
+
+  return (
+    <Card className="border-muted/60 shadow-sm" data-testid="monitor-status-history-card">
+      <CardHeader className="pb-2 flex flex-row flex-wrap items-center justify-between gap-2 space-y-0">
+        <CardTitle className="text-sm font-semibold">{t('monitor_detail.status_history')}</CardTitle>
+        <div className="flex items-center gap-2">
+          <Label htmlFor="low-fps-threshold" className="text-xs text-muted-foreground">
+            {t('monitor_detail.low_fps_threshold')}
+          </Label>
+          <Select
+            value={String(lowFpsThreshold)}
+            onValueChange={(value) => onLowFpsThresholdChange(Number(value))}
+          >
+            <SelectTrigger id="low-fps-threshold" className="h-8 w-[110px]" data-testid="low-fps-threshold-select">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MONITOR_STATUS_HISTORY.lowFpsThresholds.map((threshold) => (
+                <SelectItem key={threshold} value={String(threshold)}>
+                  {threshold === 0 ? t('common.off') : t('monitor_detail.fps_value', { fps: threshold })}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={onClearHistory}
+            disabled={samples.length === 0}
+            title={t('monitor_detail.clear_status_history')}
+            aria-label={t('monitor_detail.clear_status_history')}
+            data-testid="clear-status-history"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        {lowFps && recentFps !== null && (
+          <div
+            className="flex items-center gap-2 rounded-md border border-amber-500/40 bg-amber-500/10 px-3 py-2 text-xs text-amber-700 dark:text-amber-400"
+            data-testid="monitor-low-fps-warning"
+          >
+            <AlertTriangle className="h-4 w-4 shrink-0" />
+            {t('monitor_detail.low_fps_warning', {
+              fps: Math.round(recentFps * 10) / 10,
+              threshold: lowFpsThreshold,
+            })}
+          </div>
+        )}
+
+        {samples.length < 2 ? (
+          <p className="text-xs text-muted-foreground" data-testid="status-history-empty">
+            {t('monitor_detail.status_history_empty', { seconds: sampleIntervalSeconds })}
+          </p>
+        ) : (
+          <>
+            <div className="h-40 w-full" data-testid="status-history-fps-chart">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={samples} margin={{ top: 4, right: 8, bottom: 0, left: -24 }}>
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-muted" vertical={false} />
+                  <XAxis
+                    dataKey="time"
+                    type="number"
+                    domain={domain}
+                    stroke="#888888"
+                    fontSize={10}
+                    tickLine={false}
+                    axisLine={false}
+                    tickFormatter={formatTime}
+                  />
+                  <YAxis stroke="#888888" fontSize={10} tickLine={false} axisLine={false} />
+                  <Tooltip contentStyle={tooltipContentStyle} labelFormatter={tooltipLabelFormatter} />
+                  <Legend wrapperStyle={{ fontSize: '11px' }} />
+                  {lowFpsThreshold > 0 && (
+                    <ReferenceLine
+                      y={lowFpsThreshold}
+                      stroke="hsl(var(--destructive))"
+                      strokeDasharray="4 4"
+                      ifOverflow="extendDomain"
+                    />
+                  )}
+                  <Line
+                    type="monotone"
+                    dataKey="captureFps"
+                    name={t('monitor_detail.capture_fps')}
+                    stroke="hsl(var(--primary))"
+                    dot={false}
+                    connectNulls={false}
+                    isAnimationActive={false}
+                  />
+                  <Line
+                    type="monotone"
+                    dataKey="analysisFps"
+                    name={t('monitor_detail.analysis_fps')}
+                    stroke="#f59e0b"
+                    dot={false}
+                    connectNulls={false}
+                    isAnimationActive={false}
+                  />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+
+            {hasBandwidth && (
+              <div className="h-32 w-full" data-testid="status-history-bandwidth-chart">
+                <ResponsiveContainer width="100%" height="100%">
+                  <AreaChart data={samples} margin={{ top: 4, right: 8, bottom: 0, left: 8 }}>
+                    <CartesianGrid strokeDasharray="3 3" className="stroke-muted" vertical={false} />
+                    <XAxis
+                      dataKey="time"
+                      type="number"
+                      domain={domain}
+                      stroke="#888888"
+                      fontSize={10}
+                      tickLine={false}
+                      axisLine={false}
+                      tickFormatter={formatTime}
+                    />
+                    <YAxis
+                      stroke="#888888"
+                      fontSize={10}
+                      tickLine={false}
+                      axisLine={false}
+                      width={56}
+                      tickFormatter={(value: number) => formatBandwidth(value)}
+                    />
+                    <Tooltip
+                      contentStyle={tooltipContentStyle}
+                      labelFormatter={tooltipLabelFormatter}
+                      formatter={(value) => [formatBandwidth(Number(value)), t('monitor_detail.bandwidth')]}
+                    />
+                    <Area
+                      type="monotone"
+                      dataKey="bandwidth"
+                      stroke="hsl(var(--primary))"
+                      fill="hsl(var(--primary))"
+                      fillOpacity={0.2}
+                      isAnimationActive={false}
+                    />
+                  </AreaChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,218 @@
+/**
+ * PTZ Patrol Panel
+ *
+ * Edits a monitor's patrol tour: the presets it visits in order, how long it
+ * stays at each and whether the camera goes home when the patrol ends. The
+ * patrol is started, stopped, paused and resumed from here, and the stop
+ * being visited is highlighted.
+ */
+
+import { useTranslation } from 'react-i18next';
+import { ChevronDown, ChevronUp, Pause, Play, Plus, Square, X } from 'lucide-react';
+import type { UsePTZPatrolReturn } from '../../pages/hooks/usePTZPatrol';
+import { getNextStopPreset } from '../../lib/ptz-patrol';
+import type { PtzPreset } from '../../lib/ptz-presets';
+import { PTZ_PATROL } from '../../lib/zmng-constants';
+import { cn } from '../../lib/utils';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { Switch } from '../ui/switch';
+
+interface PTZPatrolPanelProps {
+  patrol: UsePTZPatrolReturn;
+  presets: PtzPreset[];
+  /** Whether the control has a home position */
+  canGoHome: boolean;
+  className?: string;
+}
+
+export function PTZPatrolPanel({ patrol, presets, canGoHome, className }: PTZPatrolPanelProps) {
+  const { t } = useTranslation();
+
+  if (presets.length === 0) {
+    return null;
+  }
+
+  const { stops, returnHome } = patrol.patrol;
+  const labelOf = (number: number) =>
+    presets.find((preset) => preset.number === number)?.name || t('ptz.preset_number', { number });
+  const nextPreset = getNextStopPreset(
+    patrol.patrol,
+    presets.map((preset) => preset.number)
+  );
+
+  const status = !patrol.isRunning
+    ? t('ptz.patrol_stopped')
+    : patrol.isPausedByInput
+      ? t('ptz.patrol_paused_input')
+      : patrol.isPaused
+        ? t('ptz.patrol_paused')
+        : t('ptz.patrol_running', {
+            name: labelOf(stops[patrol.currentStop ?? 0].preset),
+          });
+
+  return (
+    <div className={cn('w-full', className)} data-testid="ptz-patrol-panel">
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <div className="min-w-0">
+          <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider">{t('ptz.patrol')}</p>
+          <p className="text-xs text-muted-foreground truncate" data-testid="ptz-patrol-status">
+            {status}
+          </p>
+        </div>
+        <div className="flex shrink-0 items-center gap-1">
+          {patrol.isRunning && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7"
+              onClick={patrol.isPaused ? patrol.resume : patrol.pause}
+              data-testid="ptz-patrol-pause"
+            >
+              {patrol.isPaused ? <Play className="h-3.5 w-3.5 mr-1" /> : <Pause className="h-3.5 w-3.5 mr-1" />}
+              {patrol.isPaused ? t('ptz.patrol_resume') : t('ptz.patrol_pause')}
+            </Button>
+          )}
+          <Button
+            variant={patrol.isRunning ? 'secondary' : 'default'}
+            size="sm"
+            className="h-7"
+            onClick={patrol.isRunning ? patrol.stop : patrol.start}
+            disabled={stops.length === 0}
+            data-testid="ptz-patrol-toggle"
+          >
+            {patrol.isRunning ? <Square className="h-3.5 w-3.5 mr-1" /> : <Play className="h-3.5 w-3.5 mr-1" />}
+            {patrol.isRunning ? t('ptz.patrol_stop') : t('ptz.patrol_start')}
+          </Button>
+        </div>
+      </div>
+
+      {stops.length === 0 ? (
+        <p className="text-xs text-muted-foreground mb-2">{t('ptz.patrol_empty')}</p>
+      ) : (
+        <ol className="space-y-2 mb-2">
+          {stops.map((stop, index) => (
+            <li
+              // Stops can repeat a preset, so the position is the identity
+              key={index}
+              className={cn(
+                'flex items-center gap-2 rounded-lg border bg-background/50 p-1.5',
+                patrol.currentStop === index && 'border-primary ring-1 ring-primary/50'
+              )}
+              data-testid={`ptz-patrol-stop-${index}`}
+            >
+              <span className="w-5 shrink-0 text-center text-xs text-muted-foreground">{index + 1}</span>
+              <Select
+                value={String(stop.preset)}
+                onValueChange={(value) => patrol.updateStop(index, { preset: Number(value) })}
+              >
+                <SelectTrigger
+                  className="h-8 min-w-0 flex-1"
+                  aria-label={t('ptz.patrol_stop_preset', { number: index + 1 })}
+                  data-testid="ptz-patrol-stop-preset"
+                >
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {presets.map((preset) => (
+                    <SelectItem key={preset.number} value={String(preset.number)}>
+                      {labelOf(preset.number)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <div className="flex shrink-0 items-center gap-1">
+                <Input
+                  // Remount when the stored time changes so the field shows it
+                  key={stop.dwellSeconds}
+                  type="number"
+                  inputMode="numeric"
+                  defaultValue={stop.dwellSeconds}
+                  min={PTZ_PATROL.minDwellSeconds}
+                  max={PTZ_PATROL.maxDwellSeconds}
+                  className="h-8 w-16 text-sm"
+                  aria-label={t('ptz.patrol_dwell', { number: index + 1 })}
+                  onBlur={(e) => {
+                    if (Number(e.target.value) !== stop.dwellSeconds) {
+                      patrol.updateStop(index, { dwellSeconds: Number(e.target.value) });
+                    }
+                  }}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') e.currentTarget.blur();
+                  }}
+                  data-testid="ptz-patrol-stop-dwell"
+                />
+                <span className="text-xs text-muted-foreground">{t('ptz.patrol_seconds')}</span>
+              </div>
+
+              <div className="flex shrink-0 items-center">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => patrol.moveStop(index, -1)}
+                  disabled={index === 0}
+                  title={t('ptz.move_preset_up')}
+                  aria-label={t('ptz.move_preset_up')}
+                >
+                  <ChevronUp className="h-3.5 w-3.5" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => patrol.moveStop(index, 1)}
+                  disabled={index === stops.length - 1}
+                  title={t('ptz.move_preset_down')}
+                  aria-label={t('ptz.move_preset_down')}
+                >
+                  <ChevronDown className="h-3.5 w-3.5" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => patrol.removeStop(index)}
+                  title={t('ptz.patrol_remove_stop')}
+                  aria-label={t('ptz.patrol_remove_stop')}
+                  data-testid="ptz-patrol-stop-remove"
+                >
+                  <X className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7"
+          onClick={() => nextPreset !== null && patrol.addStop(nextPreset)}
+          data-testid="ptz-patrol-add-stop"
+        >
+          <Plus className="h-3.5 w-3.5 mr-1" />
+          {t('ptz.patrol_add_stop')}
+        </Button>
+        {canGoHome && (
+          <div className="flex items-center gap-2">
+            <Switch
+              id="ptz-patrol-return-home"
+              checked={returnHome}
+              onCheckedChange={patrol.setReturnHome}
+              data-testid="ptz-patrol-return-home"
+            />
+            <Label htmlFor="ptz-patrol-return-home" className="text-xs">
+              {t('ptz.patrol_return_home')}
+            </Label>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
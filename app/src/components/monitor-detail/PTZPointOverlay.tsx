@@ -0,0 +1,148 @@
+/**
+ * PTZ Point Overlay
+ *
+ * Layer over the live view for point-and-zoom PTZ. A tap centers the camera
+ * on that spot and a drawn rectangle zooms to that area. Pointer positions
+ * are found on the drawn image (allowing for object-fit) and mapped back
+ * through the monitor rotation to the camera's own image.
+ */
+
+import { useEffect, useRef, useState, type PointerEvent, type RefObject } from 'react';
+import { useTranslation } from 'react-i18next';
+import { toCameraPoint, type MonitorRotation } from '../../lib/monitor-rotation';
+import {
+  getImagePoint,
+  getObjectFitBox,
+  getRegion,
+  isTap,
+  type PtzPoint,
+  type PtzRegion,
+} from '../../lib/ptz-point';
+import { getOrientedDimensions } from '../../lib/zone-utils';
+import type { MonitorFeedFit } from '../../stores/settings';
+
+interface PTZPointOverlayProps {
+  mediaRef: RefObject<HTMLImageElement | HTMLVideoElement | null>;
+  rotation: MonitorRotation;
+  /** Camera image size before rotation */
+  width: number;
+  height: number;
+  fit: MonitorFeedFit;
+  /** Called with a point of the camera image */
+  onCenter: (point: PtzPoint) => void;
+  /** Called with an area of the camera image */
+  onZoom: (region: PtzRegion) => void;
+}
+
+interface Drag {
+  /** Image box relative to the overlay */
+  box: { left: number; top: number; width: number; height: number };
+  start: PtzPoint;
+  end: PtzPoint;
+}
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+export function PTZPointOverlay({ mediaRef, rotation, width, height, fit, onCenter, onZoom }: PTZPointOverlayProps) {
+  const { t } = useTranslation();
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const markerTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const [marker, setMarker] = useState<{ left: number; top: number } | null>(null);
+
+  useEffect(() => {
+    return () => {
+      if (markerTimerRef.current) clearTimeout(markerTimerRef.current);
+    };
+  }, []);
+
+  const getImageBox = () => {
+    const media = mediaRef.current;
+    const overlay = overlayRef.current;
+    if (!media || !overlay) return null;
+
+    // The stream's own size when known, otherwise the monitor's oriented size
+    const natural =
+      media instanceof HTMLVideoElement
+        ? { width: media.videoWidth, height: media.videoHeight }
+        : { width: media.naturalWidth, height: media.naturalHeight };
+    const image = natural.width && natural.height ? natural : getOrientedDimensions(width, height, rotation);
+
+    const box = getObjectFitBox(media.getBoundingClientRect(), image, fit);
+    const overlayRect = overlay.getBoundingClientRect();
+    return { ...box, left: box.left - overlayRect.left, top: box.top - overlayRect.top, overlayRect };
+  };
+
+  const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    if (event.button !== 0) return;
+    const imageBox = getImageBox();
+    if (!imageBox) return;
+
+    const { overlayRect, ...box } = imageBox;
+    const start = getImagePoint(event.clientX - overlayRect.left, event.clientY - overlayRect.top, box);
+    if (!start) return;
+
+    event.currentTarget.setPointerCapture?.(event.pointerId);
+    setDrag({ box, start, end: start });
+  };
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    if (!drag) return;
+    const overlayRect = event.currentTarget.getBoundingClientRect();
+    const end = {
+      x: clamp((event.clientX - overlayRect.left - drag.box.left) / drag.box.width),
+      y: clamp((event.clientY - overlayRect.top - drag.box.top) / drag.box.height),
+    };
+    setDrag({ ...drag, end });
+  };
+
+  const handlePointerUp = () => {
+    if (!drag) return;
+    const { box, start, end } = drag;
+    setDrag(null);
+
+    if (isTap(start, end)) {
+      setMarker({ left: box.left + start.x * box.width, top: box.top + start.y * box.height });
+      if (markerTimerRef.current) clearTimeout(markerTimerRef.current);
+      markerTimerRef.current = setTimeout(() => setMarker(null), 800);
+      onCenter(toCameraPoint(start, rotation));
+    } else {
+      onZoom(getRegion(toCameraPoint(start, rotation), toCameraPoint(end, rotation)));
+    }
+  };
+
+  const region = drag && !isTap(drag.start, drag.end) ? getRegion(drag.start, drag.end) : null;
+
+  return (
+    <div
+      ref={overlayRef}
+      className="absolute inset-0 z-10 cursor-crosshair touch-none select-none"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => setDrag(null)}
+      title={t('ptz.point_hint')}
+      data-testid="ptz-point-overlay"
+    >
+      {drag && region && (
+        <div
+          className="absolute border-2 border-white bg-white/10 shadow-[0_0_0_1px_rgba(0,0,0,0.5)] pointer-events-none"
+          style={{
+            left: drag.box.left + region.x * drag.box.width,
+            top: drag.box.top + region.y * drag.box.height,
+            width: region.width * drag.box.width,
+            height: region.height * drag.box.height,
+          }}
+          data-testid="ptz-point-region"
+        />
+      )}
+      {marker && (
+        <span
+          className="absolute h-8 w-8 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white animate-ping pointer-events-none"
+          style={marker}
+          data-testid="ptz-point-marker"
+        />
+      )}
+    </div>
+  );
+}
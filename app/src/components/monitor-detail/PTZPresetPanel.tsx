@@ -0,0 +1,189 @@
+/**
+ * PTZ Preset Panel
+ *
+ * Lists a camera's presets with their thumbnails and names. Presets can be
+ * renamed, reordered, pinned as quick buttons over the live view, sent to the
+ * camera and, when the control allows it, overwritten with the current view.
+ */
+
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ChevronDown, ChevronUp, Crosshair, Pin, PinOff, Save, Trash2 } from 'lucide-react';
+import type { UsePTZPresetsReturn } from '../../pages/hooks/usePTZPresets';
+import { PTZ_PRESETS } from '../../lib/zmng-constants';
+import { cn } from '../../lib/utils';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '../ui/alert-dialog';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+
+interface PTZPresetPanelProps {
+  presets: UsePTZPresetsReturn;
+  disabled?: boolean;
+  className?: string;
+}
+
+export function PTZPresetPanel({ presets, disabled, className }: PTZPresetPanelProps) {
+  const { t } = useTranslation();
+  const [pendingSave, setPendingSave] = useState<number | null>(null);
+
+  if (presets.presets.length === 0) {
+    return null;
+  }
+
+  const labelOf = (number: number, name?: string) => name || t('ptz.preset_number', { number });
+  const pendingPreset = presets.presets.find((preset) => preset.number === pendingSave);
+
+  return (
+    <div className={cn('w-full', className)} data-testid="ptz-preset-panel">
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider">{t('ptz.presets')}</p>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7"
+          onClick={presets.clearPresets}
+          title={t('ptz.clear_presets')}
+          aria-label={t('ptz.clear_presets')}
+        >
+          <Trash2 className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+
+      <ul className="space-y-2">
+        {presets.presets.map((preset, index) => {
+          const label = labelOf(preset.number, preset.name);
+          return (
+            <li
+              key={preset.number}
+              className="flex items-center gap-2 rounded-lg border bg-background/50 p-1.5"
+              data-testid={`ptz-preset-${preset.number}`}
+            >
+              <button
+                type="button"
+                className="relative h-10 w-16 shrink-0 overflow-hidden rounded bg-muted text-xs font-medium text-muted-foreground disabled:opacity-50"
+                onClick={() => presets.gotoPreset(preset.number)}
+                disabled={disabled}
+                title={t('ptz.goto_preset', { name: label })}
+                aria-label={t('ptz.goto_preset', { name: label })}
+                data-testid="ptz-preset-goto"
+              >
+                {preset.thumbnail ? (
+                  <img src={preset.thumbnail} alt="" className="h-full w-full object-cover" />
+                ) : (
+                  <span className="flex h-full w-full items-center justify-center">
+                    <Crosshair className="h-3 w-3 mr-1" />
+                    {preset.number}
+                  </span>
+                )}
+              </button>
+
+              <Input
+                // Remount when the stored name changes so the field shows it
+                key={preset.name ?? ''}
+                defaultValue={preset.name ?? ''}
+                placeholder={t('ptz.preset_number', { number: preset.number })}
+                maxLength={PTZ_PRESETS.maxNameLength}
+                className="h-8 text-sm"
+                aria-label={t('ptz.preset_name', { number: preset.number })}
+                onBlur={(e) => {
+                  if (e.target.value !== (preset.name ?? '')) {
+                    presets.renamePreset(preset.number, e.target.value);
+                  }
+                }}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') e.currentTarget.blur();
+                }}
+                data-testid="ptz-preset-name"
+              />
+
+              <div className="flex shrink-0 items-center">
+                <Button
+                  variant={preset.pinned ? 'secondary' : 'ghost'}
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => presets.togglePinned(preset.number)}
+                  title={preset.pinned ? t('ptz.unpin_preset') : t('ptz.pin_preset')}
+                  aria-label={preset.pinned ? t('ptz.unpin_preset') : t('ptz.pin_preset')}
+                  aria-pressed={!!preset.pinned}
+                  data-testid="ptz-preset-pin"
+                >
+                  {preset.pinned ? <PinOff className="h-3.5 w-3.5" /> : <Pin className="h-3.5 w-3.5" />}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => presets.movePreset(preset.number, -1)}
+                  disabled={index === 0}
+                  title={t('ptz.move_preset_up')}
+                  aria-label={t('ptz.move_preset_up')}
+                  data-testid="ptz-preset-up"
+                >
+                  <ChevronUp className="h-3.5 w-3.5" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => presets.movePreset(preset.number, 1)}
+                  disabled={index === presets.presets.length - 1}
+                  title={t('ptz.move_preset_down')}
+                  aria-label={t('ptz.move_preset_down')}
+                  data-testid="ptz-preset-down"
+                >
+                  <ChevronDown className="h-3.5 w-3.5" />
+                </Button>
+                {presets.canSet && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => setPendingSave(preset.number)}
+                    disabled={disabled}
+                    title={t('ptz.save_preset')}
+                    aria-label={t('ptz.save_preset')}
+                    data-testid="ptz-preset-save"
+                  >
+                    <Save className="h-3.5 w-3.5" />
+                  </Button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      <AlertDialog open={pendingSave !== null} onOpenChange={(open) => !open && setPendingSave(null)}>
+        <AlertDialogContent data-testid="ptz-preset-save-dialog">
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {t('ptz.save_preset_title', { name: labelOf(pendingSave ?? 0, pendingPreset?.name) })}
+            </AlertDialogTitle>
+            <AlertDialogDescription>{t('ptz.save_preset_desc')}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (pendingSave !== null) presets.savePreset(pendingSave);
+                setPendingSave(null);
+              }}
+              data-testid="ptz-preset-save-confirm"
+            >
+              {t('ptz.save_preset')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
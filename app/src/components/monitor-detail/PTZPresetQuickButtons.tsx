@@ -0,0 +1,57 @@
+/**
+ * PTZ Preset Quick Buttons
+ *
+ * Pinned presets shown over the live view, in the order set in the preset
+ * panel, so a camera can be switched between positions with one tap.
+ */
+
+import { useTranslation } from 'react-i18next';
+import type { PtzPreset } from '../../lib/ptz-presets';
+import { cn } from '../../lib/utils';
+
+interface PTZPresetQuickButtonsProps {
+  presets: PtzPreset[];
+  onGoto: (number: number) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+export function PTZPresetQuickButtons({ presets, onGoto, disabled, className }: PTZPresetQuickButtonsProps) {
+  const { t } = useTranslation();
+
+  if (presets.length === 0) {
+    return null;
+  }
+
+  return (
+    <div
+      className={cn('absolute bottom-2 left-2 right-2 z-10 flex gap-1.5 overflow-x-auto pointer-events-none', className)}
+      data-testid="ptz-quick-buttons"
+    >
+      {presets.map((preset) => {
+        const label = preset.name || t('ptz.preset_number', { number: preset.number });
+        return (
+          <button
+            key={preset.number}
+            type="button"
+            className="pointer-events-auto flex shrink-0 items-center gap-1.5 rounded-md bg-black/60 py-1 pl-1 pr-2 text-xs font-medium text-white backdrop-blur-sm transition-colors hover:bg-black/80 disabled:opacity-50"
+            onClick={(e) => {
+              e.stopPropagation();
+              onGoto(preset.number);
+            }}
+            disabled={disabled}
+            title={t('ptz.goto_preset', { name: label })}
+            data-testid={`ptz-quick-button-${preset.number}`}
+          >
+            {preset.thumbnail ? (
+              <img src={preset.thumbnail} alt="" className="h-6 w-10 rounded-sm object-cover" />
+            ) : (
+              <span className="flex h-6 w-6 items-center justify-center rounded-sm bg-white/20">{preset.number}</span>
+            )}
+            <span className="max-w-[8rem] truncate">{label}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
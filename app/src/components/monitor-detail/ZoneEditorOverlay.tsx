@@ -0,0 +1,289 @@
+/**
+ * Zone Editor Overlay
+ *
+ * Editable SVG layer over the live view. In select mode, tap a zone to edit
+ * it, drag its corner handles to move them and drag a "+" handle on an edge
+ * to add a corner. The polygon tool places a corner per tap (tap the first
+ * corner to close the shape); the rectangle tool drags out a box. Pointer
+ * positions are mapped back through the monitor rotation so zones are
+ * stored in the camera's own coordinates.
+ */
+
+import { useMemo, useRef, useState, type PointerEvent } from 'react';
+import type { Zone } from '../../api/types';
+import type { MonitorRotation } from '../../lib/monitor-rotation';
+import {
+  clampPoint,
+  coordsToSvgPointsWithTransform,
+  getOrientedDimensions,
+  getRectanglePoints,
+  getZoneColor,
+  inverseTransformPoint,
+  transformPoint,
+  type Point,
+  type ZoneTransform,
+} from '../../lib/zone-utils';
+import type { UseZoneEditorReturn } from '../../pages/hooks/useZoneEditor';
+
+interface ZoneEditorOverlayProps {
+  editor: UseZoneEditorReturn;
+  /** Saved zones of this monitor */
+  zones: Zone[];
+  /** Monitor rotation applied to the video */
+  rotation: MonitorRotation;
+}
+
+type DragState = { kind: 'vertex'; index: number } | { kind: 'rectangle'; start: Point } | null;
+
+const toSvgPoints = (points: Point[]) => points.map((p) => `${p.x},${p.y}`).join(' ');
+
+export function ZoneEditorOverlay({ editor, zones, rotation }: ZoneEditorOverlayProps) {
+  const { draft, tool, pendingPoints, selectedVertex, polygonProblem, width, height } = editor;
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<DragState>(null);
+  const [rectangleEnd, setRectangleEnd] = useState<Point | null>(null);
+  const [rectangleStart, setRectangleStart] = useState<Point | null>(null);
+
+  const { transform, viewBoxWidth, viewBoxHeight } = useMemo(() => {
+    const oriented = getOrientedDimensions(width, height, rotation);
+    const zoneTransform: ZoneTransform = { rotation, originalWidth: width, originalHeight: height };
+    return { transform: zoneTransform, viewBoxWidth: oriented.width, viewBoxHeight: oriented.height };
+  }, [rotation, width, height]);
+
+  // Handles scale with the image so they stay a usable size on tablets
+  const handleRadius = Math.max(viewBoxWidth, viewBoxHeight) * 0.012;
+  const display = (point: Point) => transformPoint(point, transform);
+
+  /**
+   * Maps a pointer position to original monitor coordinates, accounting for
+   * the letterboxing of preserveAspectRatio="xMidYMid meet".
+   */
+  const toZonePoint = (event: PointerEvent): Point | null => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect) return null;
+    const scale = Math.min(rect.width / viewBoxWidth, rect.height / viewBoxHeight);
+    if (!scale) return null;
+    const offsetX = (rect.width - viewBoxWidth * scale) / 2;
+    const offsetY = (rect.height - viewBoxHeight * scale) / 2;
+    const displayPoint = {
+      x: (event.clientX - rect.left - offsetX) / scale,
+      y: (event.clientY - rect.top - offsetY) / scale,
+    };
+    const point = inverseTransformPoint(displayPoint, transform);
+    return clampPoint({ x: Math.round(point.x), y: Math.round(point.y) }, width, height);
+  };
+
+  const capture = (event: PointerEvent) => {
+    svgRef.current?.setPointerCapture?.(event.pointerId);
+  };
+
+  const handleBackgroundPointerDown = (event: PointerEvent) => {
+    const point = toZonePoint(event);
+    if (!point) return;
+
+    if (tool === 'polygon') {
+      const first = pendingPoints[0];
+      const firstDisplay = first && display(first);
+      const pointDisplay = display(point);
+      if (
+        pendingPoints.length >= 3 &&
+        Math.hypot(firstDisplay.x - pointDisplay.x, firstDisplay.y - pointDisplay.y) <= handleRadius * 2
+      ) {
+        editor.finishPolygon();
+      } else {
+        editor.addPendingPoint(point);
+      }
+    } else if (tool === 'rectangle') {
+      capture(event);
+      dragRef.current = { kind: 'rectangle', start: point };
+      setRectangleStart(point);
+      setRectangleEnd(point);
+    } else {
+      editor.setSelectedVertex(null);
+    }
+  };
+
+  const handleVertexPointerDown = (event: PointerEvent, index: number) => {
+    event.stopPropagation();
+    capture(event);
+    dragRef.current = { kind: 'vertex', index };
+    editor.setSelectedVertex(index);
+  };
+
+  const handleMidpointPointerDown = (event: PointerEvent, index: number, point: Point) => {
+    event.stopPropagation();
+    capture(event);
+    editor.insertVertex(index, point);
+    dragRef.current = { kind: 'vertex', index: index + 1 };
+  };
+
+  const handlePointerMove = (event: PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const point = toZonePoint(event);
+    if (!point) return;
+
+    if (drag.kind === 'vertex') {
+      editor.moveVertex(drag.index, point);
+    } else {
+      setRectangleEnd(point);
+    }
+  };
+
+  const handlePointerUp = () => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (drag?.kind !== 'rectangle') return;
+
+    if (rectangleEnd && rectangleEnd.x !== drag.start.x && rectangleEnd.y !== drag.start.y) {
+      editor.createFromPoints(getRectanglePoints(drag.start, rectangleEnd));
+    }
+    setRectangleStart(null);
+    setRectangleEnd(null);
+  };
+
+  const draftColor = polygonProblem ? '#ef4444' : draft ? getZoneColor(draft.fields.Type) : '#ffffff';
+
+  return (
+    <svg
+      ref={svgRef}
+      className="absolute inset-0 w-full h-full touch-none select-none"
+      viewBox={`0 0 ${viewBoxWidth} ${viewBoxHeight}`}
+      preserveAspectRatio="xMidYMid meet"
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      data-testid="zone-editor-overlay"
+    >
+      {/* Catches taps on empty space; sized to the image, not the letterbox */}
+      <rect
+        width={viewBoxWidth}
+        height={viewBoxHeight}
+        fill="transparent"
+        className={tool === 'select' ? undefined : 'cursor-crosshair'}
+        onPointerDown={handleBackgroundPointerDown}
+        data-testid="zone-editor-canvas"
+      />
+
+      {zones
+        .filter((zone) => zone.Id !== draft?.id)
+        .map((zone) => {
+          const color = getZoneColor(zone.Type);
+          return (
+            <polygon
+              key={zone.Id}
+              points={coordsToSvgPointsWithTransform(zone.Coords, transform)}
+              fill={color}
+              fillOpacity={0.15}
+              stroke={color}
+              strokeWidth={2}
+              strokeOpacity={0.6}
+              vectorEffect="non-scaling-stroke"
+              className={tool === 'select' ? 'cursor-pointer' : 'pointer-events-none'}
+              onPointerDown={(event) => {
+                event.stopPropagation();
+                editor.selectZone(zone);
+              }}
+              data-testid={`zone-editor-zone-${zone.Id}`}
+            />
+          );
+        })}
+
+      {draft && (
+        <g data-testid="zone-editor-draft">
+          <polygon
+            points={toSvgPoints(draft.points.map(display))}
+            fill={draftColor}
+            fillOpacity={0.3}
+            stroke={draftColor}
+            strokeWidth={2}
+            vectorEffect="non-scaling-stroke"
+            className="pointer-events-none"
+          />
+          {draft.points.map((point, index) => {
+            const next = draft.points[(index + 1) % draft.points.length];
+            const midpoint = { x: Math.round((point.x + next.x) / 2), y: Math.round((point.y + next.y) / 2) };
+            const at = display(midpoint);
+            return (
+              <g
+                key={`mid-${index}`}
+                className="cursor-copy"
+                onPointerDown={(event) => handleMidpointPointerDown(event, index, midpoint)}
+                data-testid={`zone-editor-midpoint-${index}`}
+              >
+                <circle cx={at.x} cy={at.y} r={handleRadius * 2} fill="transparent" />
+                <circle cx={at.x} cy={at.y} r={handleRadius * 0.7} fill="white" fillOpacity={0.6} stroke={draftColor} />
+              </g>
+            );
+          })}
+          {draft.points.map((point, index) => {
+            const at = display(point);
+            const isSelected = selectedVertex === index;
+            return (
+              <g
+                key={`vertex-${index}`}
+                className="cursor-move"
+                onPointerDown={(event) => handleVertexPointerDown(event, index)}
+                onDoubleClick={() => editor.removeVertex(index)}
+                data-testid={`zone-editor-vertex-${index}`}
+              >
+                {/* Larger invisible hit area for touch */}
+                <circle cx={at.x} cy={at.y} r={handleRadius * 2.5} fill="transparent" />
+                <circle
+                  cx={at.x}
+                  cy={at.y}
+                  r={isSelected ? handleRadius * 1.3 : handleRadius}
+                  fill={isSelected ? draftColor : 'white'}
+                  stroke={draftColor}
+                  strokeWidth={2}
+                  vectorEffect="non-scaling-stroke"
+                />
+              </g>
+            );
+          })}
+        </g>
+      )}
+
+      {tool === 'polygon' && pendingPoints.length > 0 && (
+        <g className="pointer-events-none" data-testid="zone-editor-pending">
+          <polyline
+            points={toSvgPoints(pendingPoints.map(display))}
+            fill="none"
+            stroke="white"
+            strokeWidth={2}
+            strokeDasharray="6 4"
+            vectorEffect="non-scaling-stroke"
+          />
+          {pendingPoints.map((point, index) => {
+            const at = display(point);
+            return (
+              <circle
+                key={index}
+                cx={at.x}
+                cy={at.y}
+                r={index === 0 && pendingPoints.length >= 3 ? handleRadius * 1.5 : handleRadius}
+                fill="white"
+                stroke="black"
+                vectorEffect="non-scaling-stroke"
+              />
+            );
+          })}
+        </g>
+      )}
+
+      {rectangleStart && rectangleEnd && (
+        <polygon
+          points={toSvgPoints(getRectanglePoints(rectangleStart, rectangleEnd).map(display))}
+          fill="white"
+          fillOpacity={0.15}
+          stroke="white"
+          strokeWidth={2}
+          strokeDasharray="6 4"
+          vectorEffect="non-scaling-stroke"
+          className="pointer-events-none"
+          data-testid="zone-editor-rectangle-preview"
+        />
+      )}
+    </svg>
+  );
+}
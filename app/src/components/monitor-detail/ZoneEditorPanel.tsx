@@ -0,0 +1,268 @@
+/**
+ * Zone Editor Panel
+ *
+ * Drawing tools, the list of zones, and the settings of the zone being
+ * edited: name, type, check method and detection thresholds.
+ */
+
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { AlertTriangle, MousePointer2, PenTool, Square, Trash2 } from 'lucide-react';
+import type { Zone } from '../../api/types';
+import { ZoneTypeEnum, type ZoneType } from '../../api/types';
+import { ZONE_THRESHOLD_PAIRS, type ZoneThresholdField } from '../../api/zones';
+import { ZM_ZONE_CHECK_METHODS } from '../../lib/zm-constants';
+import { getZoneColor } from '../../lib/zone-utils';
+import type { UseZoneEditorReturn, ZoneEditorTool } from '../../pages/hooks/useZoneEditor';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '../ui/alert-dialog';
+import { Button } from '../ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+
+const TOOLS: Array<{ tool: ZoneEditorTool; icon: typeof Square }> = [
+  { tool: 'select', icon: MousePointer2 },
+  { tool: 'polygon', icon: PenTool },
+  { tool: 'rectangle', icon: Square },
+];
+
+const parseNumberInput = (value: string): number | null => (value === '' ? null : Number(value));
+
+interface ZoneEditorPanelProps {
+  editor: UseZoneEditorReturn;
+  /** Saved zones of this monitor */
+  zones: Zone[];
+  onClose: () => void;
+}
+
+export function ZoneEditorPanel({ editor, zones, onClose }: ZoneEditorPanelProps) {
+  const { t } = useTranslation();
+  const { draft, tool, selectedVertex, pendingPoints, polygonProblem, isSaving } = editor;
+  const [isDeleteConfirmOpen, setIsDeleteConfirmOpen] = useState(false);
+
+  const thresholdInput = (field: ZoneThresholdField, label: string) => (
+    <Input
+      type="number"
+      inputMode="numeric"
+      min={0}
+      className="h-8"
+      aria-label={label}
+      value={draft?.fields[field] ?? ''}
+      onChange={(e) => editor.updateFields({ [field]: parseNumberInput(e.target.value) })}
+      data-testid={`zone-editor-${field}`}
+    />
+  );
+
+  return (
+    <Card className="border-muted/60 shadow-sm" data-testid="zone-editor-panel">
+      <CardHeader className="pb-2 flex flex-row items-center justify-between gap-2 space-y-0">
+        <CardTitle className="text-sm font-semibold">{t('zone_editor.title')}</CardTitle>
+        <div className="flex items-center gap-1">
+          {TOOLS.map(({ tool: value, icon: Icon }) => (
+            <Button
+              key={value}
+              variant={tool === value ? 'secondary' : 'ghost'}
+              size="icon"
+              className="h-9 w-9"
+              onClick={() => editor.setTool(value)}
+              title={t(`zone_editor.tools.${value}`)}
+              aria-label={t(`zone_editor.tools.${value}`)}
+              aria-pressed={tool === value}
+              data-testid={`zone-editor-tool-${value}`}
+            >
+              <Icon className="h-4 w-4" />
+            </Button>
+          ))}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        <p className="text-xs text-muted-foreground">
+          {tool === 'polygon' && pendingPoints.length >= 3
+            ? t('zone_editor.hints.polygon_close')
+            : t(`zone_editor.hints.${draft && tool === 'select' ? 'edit' : tool}`)}
+        </p>
+
+        {tool === 'polygon' && pendingPoints.length >= 3 && (
+          <Button size="sm" onClick={editor.finishPolygon} data-testid="zone-editor-finish-polygon">
+            {t('zone_editor.finish_polygon')}
+          </Button>
+        )}
+
+        {!draft && tool === 'select' && (
+          <div className="flex flex-wrap gap-1.5" data-testid="zone-editor-zone-list">
+            {zones.length === 0 && <span className="text-xs text-muted-foreground">{t('zone_editor.no_zones')}</span>}
+            {zones.map((zone) => (
+              <Button
+                key={zone.Id}
+                variant="outline"
+                size="sm"
+                className="h-8"
+                onClick={() => editor.selectZone(zone)}
+              >
+                <span
+                  className="h-2.5 w-2.5 rounded-full mr-1.5"
+                  style={{ backgroundColor: getZoneColor(zone.Type) }}
+                  aria-hidden="true"
+                />
+                {zone.Name}
+              </Button>
+            ))}
+          </div>
+        )}
+
+        {draft && (
+          <div className="space-y-4" data-testid="zone-editor-form">
+            {polygonProblem && (
+              <p className="flex items-center gap-1.5 text-xs text-destructive" data-testid="zone-editor-problem">
+                <AlertTriangle className="h-3.5 w-3.5" />
+                {t(`zone_editor.errors.${polygonProblem}`)}
+              </p>
+            )}
+
+            <div className="grid gap-3 sm:grid-cols-3">
+              <div className="grid gap-1.5">
+                <Label htmlFor="zone-editor-name" className="text-xs">{t('zone_editor.name')}</Label>
+                <Input
+                  id="zone-editor-name"
+                  className="h-8"
+                  value={draft.fields.Name}
+                  onChange={(e) => editor.updateFields({ Name: e.target.value })}
+                  data-testid="zone-editor-name"
+                />
+              </div>
+              <div className="grid gap-1.5">
+                <Label className="text-xs">{t('zone_editor.type')}</Label>
+                <Select
+                  value={draft.fields.Type}
+                  onValueChange={(value) => editor.updateFields({ Type: value as ZoneType })}
+                >
+                  <SelectTrigger className="h-8" data-testid="zone-editor-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ZoneTypeEnum.options.map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {t(`zone_editor.types.${type}`)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-1.5">
+                <Label className="text-xs">{t('zone_editor.check_method')}</Label>
+                <Select
+                  value={draft.fields.CheckMethod ?? ZM_ZONE_CHECK_METHODS.blobs}
+                  onValueChange={(value) => editor.updateFields({ CheckMethod: value })}
+                >
+                  <SelectTrigger className="h-8" data-testid="zone-editor-check-method">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.values(ZM_ZONE_CHECK_METHODS).map((method) => (
+                      <SelectItem key={method} value={method}>
+                        {t(`zone_editor.check_methods.${method}`)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid gap-2">
+              <div className="grid grid-cols-[1fr_5rem_5rem] sm:grid-cols-[1fr_7rem_7rem] gap-2 text-xs text-muted-foreground">
+                <span />
+                <span>{t('zone_editor.min')}</span>
+                <span>{t('zone_editor.max')}</span>
+              </div>
+              {ZONE_THRESHOLD_PAIRS.map(([minField, maxField]) => {
+                const label = t(`zone_editor.thresholds.${minField.replace(/^Min/, '')}`);
+                return (
+                  <div
+                    key={minField}
+                    className="grid grid-cols-[1fr_5rem_5rem] sm:grid-cols-[1fr_7rem_7rem] gap-2 items-center"
+                  >
+                    <Label className="text-xs">{label}</Label>
+                    {thresholdInput(minField, `${label} ${t('zone_editor.min')}`)}
+                    {thresholdInput(maxField, `${label} ${t('zone_editor.max')}`)}
+                  </div>
+                );
+              })}
+              <div className="grid grid-cols-[1fr_5rem_5rem] sm:grid-cols-[1fr_7rem_7rem] gap-2 items-center">
+                <Label className="text-xs">{t('zone_editor.thresholds.FilterSize')}</Label>
+                {thresholdInput('FilterX', `${t('zone_editor.thresholds.FilterSize')} X`)}
+                {thresholdInput('FilterY', `${t('zone_editor.thresholds.FilterSize')} Y`)}
+              </div>
+              <p className="text-xs text-muted-foreground">{t('zone_editor.thresholds_help')}</p>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              <Button size="sm" onClick={editor.save} disabled={isSaving || !!polygonProblem} data-testid="zone-editor-save">
+                {t('common.save')}
+              </Button>
+              <Button size="sm" variant="outline" onClick={editor.cancel} disabled={isSaving}>
+                {t('common.cancel')}
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => selectedVertex !== null && editor.removeVertex(selectedVertex)}
+                disabled={selectedVertex === null || draft.points.length <= 3}
+                data-testid="zone-editor-remove-vertex"
+              >
+                {t('zone_editor.remove_vertex')}
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="ml-auto text-destructive hover:text-destructive"
+                onClick={() => (draft.id === null ? editor.remove() : setIsDeleteConfirmOpen(true))}
+                disabled={isSaving}
+                data-testid="zone-editor-delete"
+              >
+                <Trash2 className="h-4 w-4 mr-1.5" />
+                {draft.id === null ? t('zone_editor.discard') : t('common.delete')}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {!draft && (
+          <div className="flex justify-end">
+            <Button size="sm" variant="outline" onClick={onClose} data-testid="zone-editor-done">
+              {t('zone_editor.done')}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={isDeleteConfirmOpen} onOpenChange={setIsDeleteConfirmOpen}>
+        <AlertDialogContent data-testid="zone-editor-delete-dialog">
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('zone_editor.delete_confirm_title', { name: draft?.fields.Name })}</AlertDialogTitle>
+            <AlertDialogDescription>{t('zone_editor.delete_confirm_desc')}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t('common.cancel')}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={editor.remove}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              data-testid="zone-editor-delete-confirm"
+            >
+              {t('common.delete')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
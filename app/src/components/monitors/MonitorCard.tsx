@@ -6,16 +6,20 @@
  * It handles stream connection regeneration and snapshot downloading.
  */
 
-import { memo } from 'react';
+import { memo, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Card } from '../ui/card';
 import { Badge } from '../ui/badge';
 import { Button } from '../ui/button';
-import { Activity, Settings, Download, Clock } from 'lucide-react';
+import { Activity, Settings, Download, Clock, Gauge, AlertTriangle } from 'lucide-react';
 import { cn, formatEventCount } from '../../lib/utils';
 import { downloadSnapshotFromElement } from '../../lib/download';
 import { toast } from 'sonner';
 import { useMonitorStream } from '../../hooks/useMonitorStream';
+import { useMonitorStatusSamples } from '../../hooks/useMonitorStatusHistory';
+import { useCurrentProfile } from '../../hooks/useCurrentProfile';
+import { formatBandwidth, isLowFps } from '../../lib/monitor-status-history';
+import { StatusSparkline } from './StatusSparkline';
 import type { MonitorCardProps } from '../../api/types';
 import { log, LogLevel } from '../../lib/logger';
 import { useTranslation } from 'react-i18next';
@@ -49,6 +53,14 @@ function MonitorCardComponent({
   const resolvedFit: CSSProperties['objectFit'] = objectFit ?? 'cover';
   const isRunning = status?.Status === 'Connected';
   const aspectRatio = getMonitorAspectRatio(monitor.Width, monitor.Height, monitor.Orientation);
+  const { settings } = useCurrentProfile();
+
+  // FPS and bandwidth trend from the status history
+  const samples = useMonitorStatusSamples(monitor.Id);
+  const fpsValues = useMemo(() => samples.map((sample) => sample.captureFps), [samples]);
+  const bandwidthValues = useMemo(() => samples.map((sample) => sample.bandwidth), [samples]);
+  const lowFps = isRunning && isLowFps(samples, settings.lowFpsThreshold);
+  const bandwidth = samples.length > 0 ? samples[samples.length - 1].bandwidth : null;
 
   // Use the custom hook to manage the monitor stream URL and connection state
   const {
@@ -165,15 +177,45 @@ function MonitorCardComponent({
               </Badge>
             </div>
             <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
-              <span className="flex items-center gap-1">
+              <span
+                className={cn('flex items-center gap-1', lowFps && 'text-amber-600 dark:text-amber-400')}
+                data-testid="monitor-fps"
+              >
                 <Activity className="h-3 w-3" />
                 {status?.CaptureFPS || '0'} FPS
+                <StatusSparkline
+                  values={fpsValues}
+                  label={t('monitors.fps_history')}
+                  data-testid="monitor-fps-sparkline"
+                />
               </span>
+              {bandwidth !== null && (
+                <span className="flex items-center gap-1">
+                  <Gauge className="h-3 w-3" />
+                  {formatBandwidth(bandwidth)}
+                  <StatusSparkline
+                    values={bandwidthValues}
+                    label={t('monitors.bandwidth_history')}
+                    data-testid="monitor-bandwidth-sparkline"
+                  />
+                </span>
+              )}
               <span>
                 {monitor.Width}x{monitor.Height}
               </span>
               <span>{monitor.Type}</span>
             </div>
+            {lowFps && (
+              <Badge
+                variant="outline"
+                className="mt-2 gap-1 text-[10px] border-amber-500/60 text-amber-600 dark:text-amber-400"
+                title={t('monitors.low_fps_desc', { threshold: settings.lowFpsThreshold })}
+                data-testid="monitor-low-fps"
+              >
+                <AlertTriangle className="h-3 w-3" />
+                {t('monitors.low_fps')}
+              </Badge>
+            )}
           </div>
 
           <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
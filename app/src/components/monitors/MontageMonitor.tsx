@@ -7,6 +7,8 @@
  * - WebRTC monitors start muted to avoid cacophony
  * - Auto-reconnection on stream failure
  * - Header bar with action buttons (download, events, timeline, maximize)
+ * - Runs the monitor's PTZ patrol, with a header button to pause it
+ * - Digital zoom with Ctrl/Cmd + wheel; a zoom view tile opens on its saved view
  * - Drag handle for grid repositioning (in edit mode)
  * - Click to navigate to monitor detail view
  * - Fullscreen mode: header slides in on hover from top edge
@@ -25,13 +27,18 @@ import { Card } from '../ui/card';
 import { Button } from '../ui/button';
 import { Badge } from '../ui/badge';
 import { VideoPlayer } from '../video/VideoPlayer';
-import { Clock, ChartGantt, Download, Maximize2 } from 'lucide-react';
+import { Clock, ChartGantt, Download, Maximize2, Route } from 'lucide-react';
 import { cn } from '../../lib/utils';
 import { downloadSnapshotFromElement } from '../../lib/download';
 import { toast } from 'sonner';
 import { useTranslation } from 'react-i18next';
 import { log, LogLevel } from '../../lib/logger';
-import { getMonitorAspectRatio } from '../../lib/monitor-rotation';
+import { getMonitorAspectRatio, parseMonitorRotation } from '../../lib/monitor-rotation';
+import { usePTZPatrol } from '../../pages/hooks/usePTZPatrol';
+import { useDigitalZoom } from '../../hooks/useDigitalZoom';
+import { FULL_CROP, type ZoomCrop, type ZoomView } from '../../lib/digital-zoom';
+import { getOrientedDimensions } from '../../lib/zone-utils';
+import { ZoomIndicator } from '../video/ZoomIndicator';
 
 interface MontageMonitorProps {
   monitor: Monitor;
@@ -42,6 +49,8 @@ interface MontageMonitorProps {
   isFullscreen?: boolean;
   isEditing?: boolean;
   objectFit?: 'contain' | 'cover' | 'fill' | 'none' | 'scale-down';
+  /** Shows a saved zoom view of the monitor instead of the whole image */
+  zoomView?: ZoomView;
 }
 
 function MontageMonitorComponent({
@@ -53,6 +62,7 @@ function MontageMonitorComponent({
   isFullscreen = false,
   isEditing = false,
   objectFit,
+  zoomView,
 }: MontageMonitorProps) {
   const { t } = useTranslation();
   const isRunning = status?.Status === 'Connected';
@@ -65,6 +75,32 @@ function MontageMonitorComponent({
   const mediaRef = useRef<HTMLImageElement | HTMLVideoElement>(null);
   const resolvedFit = objectFit ?? (isFullscreen ? 'cover' : 'contain');
   const aspectRatio = getMonitorAspectRatio(monitor.Width, monitor.Height, monitor.Orientation);
+  const ptzPatrol = usePTZPatrol({
+    portalUrl: currentProfile?.portalUrl || '',
+    monitorId: monitor.Id,
+    accessToken,
+    speed: settings.ptzSpeed,
+    // A zoom view tile shares its camera with the monitor's own tile, which runs the patrol
+    enabled: monitor.Controllable === '1' && !zoomView,
+  });
+
+  // Wheel and click belong to the page and the tile, so zooming needs a modifier key
+  const viewCrop = zoomView?.crop ?? FULL_CROP;
+  const [crop, setCrop] = useState<ZoomCrop>(viewCrop);
+  const { ref: digitalZoomRef, ...digitalZoom } = useDigitalZoom({
+    crop,
+    onCropChange: setCrop,
+    imageSize: getOrientedDimensions(
+      Number(monitor.Width) || 1920,
+      Number(monitor.Height) || 1080,
+      parseMonitorRotation(monitor.Orientation)
+    ),
+    fit: resolvedFit,
+    enabled: !isEditing,
+    wheelNeedsModifier: true,
+    touch: false,
+    doubleClick: false,
+  });
 
   // Track previous connKey to send CMD_QUIT before regenerating
   const prevConnKeyRef = useRef<number>(0);
@@ -192,13 +228,41 @@ function MontageMonitorComponent({
           <span className={cn(
             "text-xs font-medium truncate",
             isFullscreen && "text-white"
-          )} title={monitor.Name}>
+          )} title={zoomView ? `${monitor.Name} · ${zoomView.name}` : monitor.Name}>
             {monitor.Name}
+            {zoomView && (
+              <span className={isFullscreen ? "text-white/70" : "text-muted-foreground"}> · {zoomView.name}</span>
+            )}
           </span>
         </div>
 
         {/* Action buttons */}
         <div className="flex items-center gap-0.5">
+          {ptzPatrol.isRunning && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className={cn(
+                "h-6 w-6",
+                isFullscreen ? "text-white hover:bg-white/20" : "text-muted-foreground hover:text-foreground",
+                !ptzPatrol.isPaused && (isFullscreen ? "text-green-400" : "text-primary")
+              )}
+              onClick={(e) => {
+                e.stopPropagation();
+                if (ptzPatrol.isPaused) {
+                  ptzPatrol.resume();
+                } else {
+                  ptzPatrol.pause();
+                }
+              }}
+              title={ptzPatrol.isPaused ? t('ptz.patrol_resume') : t('ptz.patrol_pause')}
+              aria-label={ptzPatrol.isPaused ? t('ptz.patrol_resume') : t('ptz.patrol_pause')}
+              aria-pressed={!ptzPatrol.isPaused}
+              data-testid="montage-patrol-btn"
+            >
+              <Route className="h-3 w-3" />
+            </Button>
+          )}
           <Button
             variant="ghost"
             size="icon"
@@ -275,7 +339,8 @@ function MontageMonitorComponent({
           !isFullscreen && "cursor-pointer"
         )}
         style={!isFullscreen && aspectRatio ? { aspectRatio } : undefined}
-        onClick={() => !isEditing && navigate(`/monitors/${monitor.Id}`)}
+        ref={digitalZoomRef}
+        onClick={() => !isEditing && !digitalZoom.wasDragged() && navigate(`/monitors/${monitor.Id}`)}
       >
         {/* Skeleton loader with correct aspect ratio */}
         {!imageLoaded && (
@@ -295,7 +360,9 @@ function MontageMonitorComponent({
           showStatus={false}
           muted={true}
           className="w-full h-full"
+          mediaStyle={digitalZoom.mediaStyle}
         />
+        {(zoomView ? crop !== viewCrop : digitalZoom.isZoomed) && <ZoomIndicator scale={crop.scale} onReset={() => setCrop(viewCrop)} />}
       </div>
     </Card>
   );
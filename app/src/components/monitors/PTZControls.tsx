@@ -1,8 +1,11 @@
-import { ArrowUp, ArrowDown, ArrowLeft, ArrowRight, ZoomIn, ZoomOut, Home, Square, RotateCcw } from 'lucide-react';
+import type { KeyboardEvent, MouseEvent, PointerEvent } from 'react';
+import { ArrowUp, ArrowDown, ArrowLeft, ArrowRight, ZoomIn, ZoomOut, Home, Square, RotateCcw, Gauge } from 'lucide-react';
 import { Button } from '../ui/button';
+import { Slider } from '../ui/slider';
 import { cn } from '../../lib/utils';
 import { useTranslation } from 'react-i18next';
 import type { ZMControl } from '../../api/types';
+import { getMovePrefix, getZoomPrefix, hasMoveSpeed, isContinuousCommand } from '../../lib/ptz-input';
 
 // PTZ Controls Component
 interface PTZControlsProps {
@@ -10,29 +13,69 @@ interface PTZControlsProps {
   className?: string;
   disabled?: boolean;
   control?: ZMControl;
+  // Continuous moves run from onMoveStart until onMoveStop; without these they are single commands
+  onMoveStart?: (command: string) => void;
+  onMoveStop?: () => void;
+  // Move speed in percent, with a slider shown when the control takes a speed
+  speed?: number;
+  onSpeedChange?: (speed: number) => void;
 }
 
-export function PTZControls({ onCommand, className, disabled, control }: PTZControlsProps) {
+export function PTZControls({
+  onCommand,
+  className,
+  disabled,
+  control,
+  onMoveStart,
+  onMoveStop,
+  speed,
+  onSpeedChange,
+}: PTZControlsProps) {
   const { t } = useTranslation();
 
   // Determine capabilities
   const canMove = control?.CanMove === '1';
   const canMoveDiag = control?.CanMoveDiag === '1';
-  const canMoveCon = control?.CanMoveCon === '1';
-  const canMoveRel = control?.CanMoveRel === '1';
-  
+
   const canZoom = control?.CanZoom === '1';
-  const canZoomCon = control?.CanZoomCon === '1';
-  const canZoomRel = control?.CanZoomRel === '1';
 
   const hasPresets = control?.HasPresets === '1';
-  const numPresets = parseInt(control?.NumPresets || '0', 10);
   const hasHome = control?.HasHomePreset === '1' || hasPresets; // Fallback to presets if home not explicit
   const canReset = control?.CanReset === '1';
 
   // Determine command prefix based on capabilities (prefer Continuous, then Relative)
-  const movePrefix = canMoveCon ? 'moveCon' : (canMoveRel ? 'moveRel' : 'moveCon');
-  const zoomPrefix = canZoomCon ? 'zoomCon' : (canZoomRel ? 'zoomRel' : 'zoomCon');
+  const movePrefix = getMovePrefix(control);
+  const zoomPrefix = getZoomPrefix(control);
+  const hasSpeed = hasMoveSpeed(control);
+
+  // Continuous commands run while the button is held, others fire on click
+  const commandProps = (command: string) => {
+    if (!isContinuousCommand(command) || !onMoveStart || !onMoveStop) {
+      return { onClick: () => onCommand(command) };
+    }
+    return {
+      onPointerDown: (e: PointerEvent<HTMLButtonElement>) => {
+        if (e.button !== 0) return;
+        // Keep receiving the release even if the finger slides off the button
+        e.currentTarget.setPointerCapture?.(e.pointerId);
+        onMoveStart(command);
+      },
+      onPointerUp: onMoveStop,
+      onPointerCancel: onMoveStop,
+      onLostPointerCapture: onMoveStop,
+      onKeyDown: (e: KeyboardEvent<HTMLButtonElement>) => {
+        if ((e.key === 'Enter' || e.key === ' ') && !e.repeat) {
+          e.preventDefault();
+          onMoveStart(command);
+        }
+      },
+      onKeyUp: (e: KeyboardEvent<HTMLButtonElement>) => {
+        if (e.key === 'Enter' || e.key === ' ') onMoveStop();
+      },
+      // A long press would otherwise open the context menu on touch screens
+      onContextMenu: (e: MouseEvent<HTMLButtonElement>) => e.preventDefault(),
+    };
+  };
 
   if (!control) {
     return null;
@@ -41,13 +84,13 @@ export function PTZControls({ onCommand, className, disabled, control }: PTZCont
   return (
     <div className={cn("flex flex-col items-center gap-4 p-4 bg-card/50 rounded-xl border shadow-sm backdrop-blur-sm", className)}>
       {canMove && (
-        <div className="grid grid-cols-3 gap-2">
+        <div className="grid grid-cols-3 gap-2 touch-none select-none">
           {/* Top Row */}
           <Button
             variant="outline"
             size="icon"
             className={cn("rounded-full rotate-[-45deg]", !canMoveDiag && "invisible")}
-            onClick={() => onCommand(`${movePrefix}UpLeft`)}
+            {...commandProps(`${movePrefix}UpLeft`)}
             disabled={disabled}
             title={t('ptz.move_up_left')}
           >
@@ -57,7 +100,7 @@ export function PTZControls({ onCommand, className, disabled, control }: PTZCont
             variant="outline"
             size="icon"
             className="rounded-full"
-            onClick={() => onCommand(`${movePrefix}Up`)}
+            {...commandProps(`${movePrefix}Up`)}
             disabled={disabled}
             title={t('ptz.move_up')}
           >
@@ -67,7 +110,7 @@ export function PTZControls({ onCommand, className, disabled, control }: PTZCont
             variant="outline"
             size="icon"
             className={cn("rounded-full rotate-[45deg]", !canMoveDiag && "invisible")}
-            onClick={() => onCommand(`${movePrefix}UpRight`)}
+            {...commandProps(`${movePrefix}UpRight`)}
             disabled={disabled}
             title={t('ptz.move_up_right')}
           >
@@ -79,7 +122,7 @@ export function PTZControls({ onCommand, className, disabled, control }: PTZCont
             variant="outline"
             size="icon"
             className="rounded-full"
-            onClick={() => onCommand(`${movePrefix}Left`)}
+            {...commandProps(`${movePrefix}Left`)}
             disabled={disabled}
             title={t('ptz.move_left')}
           >
@@ -99,7 +142,7 @@ export function PTZControls({ onCommand, className, disabled, control }: PTZCont
             variant="outline"
             size="icon"
             className="rounded-full"
-            onClick={() => onCommand(`${movePrefix}Right`)}
+            {...commandProps(`${movePrefix}Right`)}
             disabled={disabled}
             title={t('ptz.move_right')}
           >
@@ -111,7 +154,7 @@ export function PTZControls({ onCommand, className, disabled, control }: PTZCont
             variant="outline"
             size="icon"
             className={cn("rounded-full rotate-[-135deg]", !canMoveDiag && "invisible")}
-            onClick={() => onCommand(`${movePrefix}DownLeft`)}
+            {...commandProps(`${movePrefix}DownLeft`)}
             disabled={disabled}
             title={t('ptz.move_down_left')}
           >
@@ -121,7 +164,7 @@ export function PTZControls({ onCommand, className, disabled, control }: PTZCont
             variant="outline"
             size="icon"
             className="rounded-full"
-            onClick={() => onCommand(`${movePrefix}Down`)}
+            {...commandProps(`${movePrefix}Down`)}
             disabled={disabled}
             title={t('ptz.move_down')}
           >
@@ -131,7 +174,7 @@ export function PTZControls({ onCommand, className, disabled, control }: PTZCont
             variant="outline"
             size="icon"
             className={cn("rounded-full rotate-[135deg]", !canMoveDiag && "invisible")}
-            onClick={() => onCommand(`${movePrefix}DownRight`)}
+            {...commandProps(`${movePrefix}DownRight`)}
             disabled={disabled}
             title={t('ptz.move_down_right')}
           >
@@ -140,13 +183,17 @@ export function PTZControls({ onCommand, className, disabled, control }: PTZCont
         </div>
       )}
 
+      {canMove && onMoveStart && (
+        <p className="text-xs text-muted-foreground text-center -mt-2">{t('ptz.keyboard_hint')}</p>
+      )}
+
       {canZoom && (
-        <div className="flex items-center gap-4 w-full justify-center border-t pt-4">
+        <div className="flex items-center gap-4 w-full justify-center border-t pt-4 touch-none select-none">
           <Button
             variant="outline"
             size="icon"
             className="rounded-full"
-            onClick={() => onCommand(`${zoomPrefix}Wide`)}
+            {...commandProps(`${zoomPrefix}Wide`)}
             disabled={disabled}
             title={t('ptz.zoom_out')}
           >
@@ -157,7 +204,7 @@ export function PTZControls({ onCommand, className, disabled, control }: PTZCont
             variant="outline"
             size="icon"
             className="rounded-full"
-            onClick={() => onCommand(`${zoomPrefix}Tele`)}
+            {...commandProps(`${zoomPrefix}Tele`)}
             disabled={disabled}
             title={t('ptz.zoom_in')}
           >
@@ -166,6 +213,23 @@ export function PTZControls({ onCommand, className, disabled, control }: PTZCont
         </div>
       )}
       
+      {hasSpeed && speed !== undefined && onSpeedChange && (
+        <div className="flex items-center gap-3 w-full border-t pt-4">
+          <Gauge className="h-4 w-4 text-muted-foreground shrink-0" />
+          <Slider
+            value={[speed]}
+            min={10}
+            max={100}
+            step={10}
+            onValueChange={([value]) => onSpeedChange(value)}
+            disabled={disabled}
+            aria-label={t('ptz.speed')}
+            data-testid="ptz-speed-slider"
+          />
+          <span className="text-xs font-medium text-muted-foreground w-10 text-right tabular-nums">{speed}%</span>
+        </div>
+      )}
+
       {(hasHome || canReset) && (
         <div className="flex items-center gap-2 w-full justify-center border-t pt-4">
           {hasHome && (
@@ -196,26 +260,6 @@ export function PTZControls({ onCommand, className, disabled, control }: PTZCont
           )}
         </div>
       )}
-
-      {hasPresets && numPresets > 0 && (
-        <div className="w-full border-t pt-4">
-          <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider text-center mb-2">{t('ptz.presets')}</p>
-          <div className="grid grid-cols-5 gap-2">
-            {Array.from({ length: numPresets }, (_, i) => i + 1).map((num) => (
-              <Button
-                key={num}
-                variant="outline"
-                size="sm"
-                className="h-8 w-full px-0"
-                onClick={() => onCommand(`presetGoto${num}`)}
-                disabled={disabled}
-              >
-                {num}
-              </Button>
-            ))}
-          </div>
-        </div>
-      )}
     </div>
   );
 }
@@ -0,0 +1,50 @@
+/**
+ * Status Sparkline Component
+ *
+ * Small inline SVG line of recent monitor status values. Kept free of the
+ * charting library so a page of monitor cards stays cheap to render.
+ */
+
+import { useMemo } from 'react';
+import { buildSparklinePaths } from '../../lib/monitor-status-history';
+import { cn } from '../../lib/utils';
+
+interface StatusSparklineProps {
+  values: (number | null)[];
+  /** Accessible description, e.g. the metric and its latest value */
+  label: string;
+  className?: string;
+  'data-testid'?: string;
+}
+
+const WIDTH = 64;
+const HEIGHT = 16;
+
+export function StatusSparkline({ values, label, className, 'data-testid': testId }: StatusSparklineProps) {
+  const paths = useMemo(() => buildSparklinePaths(values, WIDTH, HEIGHT), [values]);
+
+  if (paths.length === 0) return null;
+
+  return (
+    <svg
+      viewBox={`-1 -1 ${WIDTH + 2} ${HEIGHT + 2}`}
+      className={cn('h-4 w-16 overflow-visible', className)}
+      role="img"
+      aria-label={label}
+      data-testid={testId}
+    >
+      {paths.map((points) => (
+        <polyline
+          key={points}
+          points={points}
+          fill="none"
+          stroke="currentColor"
+          strokeWidth={1.5}
+          strokeLinejoin="round"
+          strokeLinecap="round"
+          vectorEffect="non-scaling-stroke"
+        />
+      ))}
+    </svg>
+  );
+}
@@ -1,8 +1,11 @@
-import { describe, expect, it, vi } from 'vitest';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
 import { render, screen } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { MonitorCard } from '../MonitorCard';
 import type { Monitor, MonitorStatus } from '../../../api/types';
+import type { MonitorStatusSample } from '../../../lib/monitor-status-history';
+
+let mockSamples: MonitorStatusSample[] = [];
 
 vi.mock('../../../hooks/useMonitorStream', () => ({
   useMonitorStream: () => ({
@@ -13,6 +16,10 @@ vi.mock('../../../hooks/useMonitorStream', () => ({
   }),
 }));
 
+vi.mock('../../../hooks/useMonitorStatusHistory', () => ({
+  useMonitorStatusSamples: () => mockSamples,
+}));
+
 vi.mock('react-router-dom', () => ({
   useNavigate: () => vi.fn(),
 }));
@@ -44,7 +51,29 @@ vi.mock('sonner', () => ({
   },
 }));
 
+const monitor = {
+  Id: '1',
+  Name: 'Front Door',
+  Type: 'Local',
+  Function: 'Monitor',
+  Enabled: '1',
+  Controllable: '0',
+  Width: '640',
+  Height: '480',
+} as Monitor;
+
+const sample = (time: number, captureFps: number): MonitorStatusSample => ({
+  time,
+  captureFps,
+  analysisFps: null,
+  bandwidth: 40000,
+});
+
 describe('MonitorCard', () => {
+  beforeEach(() => {
+    mockSamples = [];
+  });
+
   it('calls settings callback when settings button is clicked', async () => {
     const user = userEvent.setup();
     const onShowSettings = vi.fn();
@@ -79,4 +108,34 @@ describe('MonitorCard', () => {
       expect.objectContaining({ Id: '1', Name: 'Front Door' })
     );
   });
+
+  it('shows status sparklines and flags a low capture rate', () => {
+    mockSamples = [sample(1000, 10), sample(2000, 1), sample(3000, 1), sample(4000, 1)];
+
+    render(
+      <MonitorCard
+        monitor={monitor}
+        status={{ MonitorId: '1', Status: 'Connected', CaptureFPS: '1' } as MonitorStatus}
+        onShowSettings={vi.fn()}
+      />
+    );
+
+    expect(screen.getByTestId('monitor-fps-sparkline')).toBeInTheDocument();
+    expect(screen.getByTestId('monitor-bandwidth-sparkline')).toBeInTheDocument();
+    expect(screen.getByTestId('monitor-low-fps')).toBeInTheDocument();
+  });
+
+  it('does not flag an offline monitor for low FPS', () => {
+    mockSamples = [sample(1000, 0), sample(2000, 0), sample(3000, 0)];
+
+    render(
+      <MonitorCard
+        monitor={monitor}
+        status={{ MonitorId: '1', Status: 'NotRunning', CaptureFPS: '0' } as MonitorStatus}
+        onShowSettings={vi.fn()}
+      />
+    );
+
+    expect(screen.queryByTestId('monitor-low-fps')).not.toBeInTheDocument();
+  });
 });
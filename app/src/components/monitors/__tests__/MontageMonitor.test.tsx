@@ -55,6 +55,18 @@ vi.mock('../../../lib/logger', () => ({
 vi.mock('../../../lib/monitor-rotation', () => ({
   getMonitorAspectRatio: (width: number, height: number) =>
     `${width}/${height}`,
+  parseMonitorRotation: () => ({ kind: 'none' }),
+}));
+
+vi.mock('../../../hooks/useDigitalZoom', () => ({
+  useDigitalZoom: () => ({
+    ref: vi.fn(),
+    mediaStyle: {},
+    isZoomed: false,
+    isGesturing: false,
+    wasDragged: () => false,
+    reset: vi.fn(),
+  }),
 }));
 
 vi.mock('../../video/VideoPlayer', () => ({
@@ -189,4 +201,21 @@ describe('MontageMonitor', () => {
       expect(badge).toBeInTheDocument();
     });
   });
+
+  it('names the zoom view shown by a view tile', async () => {
+    render(
+      <MontageMonitor
+        monitor={mockMonitor}
+        status={mockStatus}
+        currentProfile={mockProfile}
+        accessToken="test-token"
+        navigate={mockNavigate}
+        zoomView={{ id: 'v1', name: 'Driveway', crop: { x: 0.25, y: 0.25, scale: 2 } }}
+      />
+    );
+
+    await waitFor(() => {
+      expect(screen.getByTitle('Front Door · Driveway')).toBeInTheDocument();
+    });
+  });
 });
@@ -4,6 +4,6 @@
  * Re-exports all hooks used by the Montage page.
  */
 
-export { useMontageGrid, getMaxColsForWidth } from './useMontageGrid';
+export { useMontageGrid, getMaxColsForWidth, type MontageViewTile } from './useMontageGrid';
 export { useContainerResize } from './useContainerResize';
 export { useFullscreenMode } from './useFullscreenMode';
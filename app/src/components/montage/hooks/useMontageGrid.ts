@@ -11,9 +11,10 @@ import { GRID_LAYOUT } from '../../../lib/zmng-constants';
 import { useSettingsStore } from '../../../stores/settings';
 import { getMonitorAspectRatio } from '../../../lib/monitor-rotation';
 import type { Layout } from 'react-grid-layout';
-import type { Monitor, MonitorData } from '../../../api/types';
+import type { Monitor, MonitorData, MonitorStatus } from '../../../api/types';
 import type { Profile } from '../../../api/types';
 import type { ProfileSettings } from '../../../stores/settings';
+import type { ZoomView } from '../../../lib/digital-zoom';
 
 export const getMaxColsForWidth = (width: number, minWidth: number, margin: number): number => {
   if (width <= 0) return 1;
@@ -72,8 +73,20 @@ const areLayoutsEqual = (a: Layout[], b: Layout[]): boolean => {
   return true;
 };
 
+/** Extra tile showing a saved zoom view of a monitor */
+export interface MontageViewTile {
+  id: string;
+  monitor: Monitor;
+  status: MonitorStatus | undefined;
+  view: ZoomView;
+}
+
+const NO_VIEW_TILES: MontageViewTile[] = [];
+
 interface UseMontageGridOptions {
   monitors: MonitorData[];
+  /** Zoom view tiles, laid out after the monitors */
+  viewTiles?: MontageViewTile[];
   currentProfile: Profile | null;
   settings: ProfileSettings;
   isFullscreen: boolean;
@@ -96,6 +109,7 @@ interface UseMontageGridReturn {
 
 export function useMontageGrid({
   monitors,
+  viewTiles = NO_VIEW_TILES,
   currentProfile,
   settings,
   isFullscreen,
@@ -122,24 +136,30 @@ export function useMontageGrid({
     updateSettingsRef.current = updateSettings;
   }, [currentProfile, updateSettings]);
 
+  // Monitor shown by each tile; a view tile has the aspect ratio of its monitor
   const monitorMap = useMemo(() => {
-    return new Map(monitors.map((item) => [item.Monitor.Id, item.Monitor]));
-  }, [monitors]);
+    return new Map([
+      ...monitors.map((item): [string, Monitor] => [item.Monitor.Id, item.Monitor]),
+      ...viewTiles.map((tile): [string, Monitor] => [tile.id, tile.monitor]),
+    ]);
+  }, [monitors, viewTiles]);
+
+  const tileIds = useMemo(() => [...monitorMap.keys()], [monitorMap]);
 
   const buildDefaultLayout = useCallback(
-    (monitorList: MonitorData[], cols: number, gridWidth: number, margin: number): Layout[] => {
-      return monitorList.map(({ Monitor }, index) => {
+    (ids: string[], cols: number, gridWidth: number, margin: number): Layout[] => {
+      return ids.map((tileId, index) => {
         const widthUnits = 1;
         const heightUnits = calculateHeightUnits(
           monitorMap,
-          Monitor.Id,
+          tileId,
           widthUnits,
           gridWidth,
           cols,
           margin
         );
         return {
-          i: Monitor.Id,
+          i: tileId,
           x: index % cols,
           y: Math.floor(index / cols) * heightUnits,
           w: widthUnits,
@@ -168,9 +188,9 @@ export function useMontageGrid({
     setGridCols(settings.montageGridCols);
   }, [currentProfile?.id, settings.montageGridCols]);
 
-  // Build/restore layout when monitors or settings change
+  // Build/restore layout when tiles or settings change
   useEffect(() => {
-    if (monitors.length === 0) return;
+    if (tileIds.length === 0) return;
     if (!hasWidth || currentWidthRef.current === 0) return;
 
     const margin = isFullscreen ? 0 : GRID_LAYOUT.montageMargin;
@@ -178,14 +198,13 @@ export function useMontageGrid({
     const stored = settings.montageLayouts?.lg;
 
     if (stored && stored.length > 0) {
-      const existingIds = new Set(monitors.map((item) => item.Monitor.Id));
-      const filtered = stored.filter((item) => existingIds.has(item.i));
+      const filtered = stored.filter((item) => monitorMap.has(item.i));
       const presentIds = new Set(filtered.map((item) => item.i));
-      const missing = monitors.filter((item) => !presentIds.has(item.Monitor.Id));
+      const missing = tileIds.filter((tileId) => !presentIds.has(tileId));
       const defaults = buildDefaultLayout(missing, gridCols, currentWidthRef.current, margin);
       nextLayout = [...filtered, ...defaults];
     } else {
-      nextLayout = buildDefaultLayout(monitors, gridCols, currentWidthRef.current, margin);
+      nextLayout = buildDefaultLayout(tileIds, gridCols, currentWidthRef.current, margin);
     }
 
     const normalized = normalizeLayout(
@@ -196,7 +215,7 @@ export function useMontageGrid({
     );
 
     setLayout((prev) => (areLayoutsEqual(prev, normalized) ? prev : normalized));
-  }, [monitors, gridCols, settings.montageLayouts, hasWidth, isFullscreen, buildDefaultLayout, normalizeLayout]);
+  }, [monitorMap, tileIds, gridCols, settings.montageLayouts, hasWidth, isFullscreen, buildDefaultLayout, normalizeLayout]);
 
   const handleApplyGridLayout = useCallback(
     (cols: number) => {
@@ -220,7 +239,7 @@ export function useMontageGrid({
         montageGridCols: cols,
       });
 
-      const nextLayout = buildDefaultLayout(monitors, cols, currentWidthRef.current, margin);
+      const nextLayout = buildDefaultLayout(tileIds, cols, currentWidthRef.current, margin);
       setLayout(nextLayout);
       saveMontageLayout(currentProfile.id, { ...settings.montageLayouts, lg: nextLayout });
 
@@ -229,7 +248,7 @@ export function useMontageGrid({
     [
       currentProfile,
       isFullscreen,
-      monitors,
+      tileIds,
       settings.montageLayouts,
       updateSettings,
       saveMontageLayout,
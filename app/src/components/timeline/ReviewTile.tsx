@@ -0,0 +1,151 @@
+/**
+ * Review Tile Component
+ *
+ * One monitor in the Timeline review grid. Plays the event covering the
+ * shared clock's moment, kept in sync with the clock, or shows a gap
+ * indicator when the monitor recorded nothing at that moment.
+ */
+
+import { useCallback, useEffect, useRef } from 'react';
+import { format } from 'date-fns';
+import { useTranslation } from 'react-i18next';
+import { Link } from 'react-router-dom';
+import { VideoOff } from 'lucide-react';
+import { getEventImageUrl, getEventVideoUrl } from '../../api/events';
+import type { Monitor } from '../../api/types';
+import {
+  getEventFrameAtOffset,
+  getEventOffsetSeconds,
+  getEventTimeRange,
+  type ReviewCoverage,
+} from '../../lib/review-playback';
+import { TIMELINE } from '../../lib/zmng-constants';
+import { Button } from '../ui/button';
+
+interface ReviewTileProps {
+  monitor: Monitor;
+  coverage: ReviewCoverage;
+  /** Shared clock moment in epoch milliseconds */
+  time: number;
+  isPlaying: boolean;
+  speed: number;
+  portalUrl: string;
+  token?: string;
+  apiUrl?: string;
+  /** Move the shared clock, e.g. to the next recording */
+  onJump: (time: number) => void;
+}
+
+export function ReviewTile({
+  monitor,
+  coverage,
+  time,
+  isPlaying,
+  speed,
+  portalUrl,
+  token,
+  apiUrl,
+  onJump,
+}: ReviewTileProps) {
+  const { t } = useTranslation();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const { event, nextEvent } = coverage;
+  const hasVideo = !!event?.Event.DefaultVideo;
+  const offset = event ? getEventOffsetSeconds(event, time) : 0;
+
+  // Follow the shared clock, re-seeking only when the video drifted away
+  const syncVideo = useCallback(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.playbackRate = speed;
+    if (Math.abs(video.currentTime - offset) > TIMELINE.reviewSyncToleranceSec) {
+      video.currentTime = offset;
+    }
+    if (isPlaying && video.paused) {
+      video.play().catch(() => {
+        // Autoplay may be blocked until the user interacts; the clock keeps running
+      });
+    } else if (!isPlaying && !video.paused) {
+      video.pause();
+    }
+  }, [offset, isPlaying, speed]);
+
+  useEffect(() => {
+    syncVideo();
+  }, [syncVideo]);
+
+  const renderMedia = () => {
+    if (!event) {
+      return (
+        <div
+          className="absolute inset-0 flex flex-col items-center justify-center gap-2 bg-[repeating-linear-gradient(45deg,transparent,transparent_8px,hsl(var(--muted))_8px,hsl(var(--muted))_16px)] text-muted-foreground"
+          data-testid="review-tile-gap"
+        >
+          <VideoOff className="h-6 w-6" />
+          <span className="text-xs font-medium">{t('timeline.review.no_recording')}</span>
+          {nextEvent && (
+            <Button
+              variant="secondary"
+              size="sm"
+              className="h-6 text-xs"
+              onClick={() => onJump(getEventTimeRange(nextEvent).start)}
+              data-testid="review-tile-next"
+            >
+              {t('timeline.review.next_recording', {
+                time: format(getEventTimeRange(nextEvent).start, 'HH:mm:ss'),
+              })}
+            </Button>
+          )}
+        </div>
+      );
+    }
+
+    if (hasVideo) {
+      return (
+        <video
+          key={event.Event.Id}
+          ref={videoRef}
+          src={getEventVideoUrl(portalUrl, event.Event.Id, token, apiUrl)}
+          className="absolute inset-0 h-full w-full object-contain"
+          muted
+          playsInline
+          preload="auto"
+          onLoadedMetadata={syncVideo}
+          data-testid="review-tile-video"
+        />
+      );
+    }
+
+    // JPEG-only events: show the frame at the clock, updated once per second of event time
+    const frame = getEventFrameAtOffset(event, Math.floor(offset));
+    return (
+      <img
+        src={getEventImageUrl(portalUrl, event.Event.Id, frame, { token, apiUrl })}
+        alt={event.Event.Name}
+        className="absolute inset-0 h-full w-full object-contain"
+        data-testid="review-tile-frame"
+      />
+    );
+  };
+
+  return (
+    <div
+      className="relative aspect-video overflow-hidden rounded-md border bg-black"
+      data-testid={`review-tile-${monitor.Id}`}
+    >
+      {renderMedia()}
+      <div className="absolute inset-x-0 top-0 flex items-center justify-between gap-2 bg-gradient-to-b from-black/70 to-transparent px-2 py-1 text-xs text-white">
+        <span className="truncate font-medium">{monitor.Name}</span>
+        {event && (
+          <Link
+            to={`/events/${event.Event.Id}`}
+            className="shrink-0 underline-offset-2 hover:underline"
+            data-testid="review-tile-event-link"
+          >
+            {t('timeline.review.open_event', { id: event.Event.Id })}
+          </Link>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+/**
+ * Timeline Review Component
+ *
+ * Synchronized multi-monitor playback for the Timeline page. Every monitor
+ * plays whatever event covers the shared clock's moment in a montage grid,
+ * driven by one scrubber and one play/pause/speed control.
+ */
+
+import { useMemo } from 'react';
+import { format } from 'date-fns';
+import { useTranslation } from 'react-i18next';
+import { Pause, Play, Rewind, FastForward } from 'lucide-react';
+import type { EventData, MonitorData } from '../../api/types';
+import type { ReviewClock } from '../../hooks/useReviewClock';
+import { getReviewCoverage } from '../../lib/review-playback';
+import { formatLocalDateTime } from '../../lib/time';
+import { TIMELINE } from '../../lib/zmng-constants';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { Slider } from '../ui/slider';
+import { ReviewTile } from './ReviewTile';
+
+interface TimelineReviewProps {
+  /** Events to play, of any monitors */
+  events: EventData[];
+  /** Monitors shown in the grid */
+  monitors: MonitorData[];
+  clock: ReviewClock;
+  portalUrl: string;
+  token?: string;
+  apiUrl?: string;
+}
+
+/** Seconds moved by the skip buttons */
+const SKIP_SECONDS = 10;
+
+const getGridColumns = (count: number) => {
+  if (count <= 1) return 'grid-cols-1';
+  if (count <= 4) return 'grid-cols-1 sm:grid-cols-2';
+  if (count <= 9) return 'grid-cols-2 lg:grid-cols-3';
+  return 'grid-cols-2 lg:grid-cols-4';
+};
+
+export function TimelineReview({ events, monitors, clock, portalUrl, token, apiUrl }: TimelineReviewProps) {
+  const { t } = useTranslation();
+  const { time, window: reviewWindow, isPlaying, speed } = clock;
+
+  const coverage = useMemo(
+    () => monitors.map(({ Monitor }) => ({ monitor: Monitor, coverage: getReviewCoverage(events, Monitor.Id, time) })),
+    [events, monitors, time]
+  );
+  const recordingCount = coverage.filter(({ coverage: item }) => item.event).length;
+
+  return (
+    <div className="space-y-3" data-testid="timeline-review">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button
+          variant="outline"
+          size="icon"
+          className="h-8 w-8"
+          onClick={() => clock.seek(time - SKIP_SECONDS * 1000)}
+          aria-label={t('timeline.review.skip_back', { count: SKIP_SECONDS })}
+          title={t('timeline.review.skip_back', { count: SKIP_SECONDS })}
+          data-testid="timeline-review-skip-back"
+        >
+          <Rewind className="h-4 w-4" />
+        </Button>
+        <Button
+          size="icon"
+          className="h-8 w-8"
+          onClick={clock.togglePlay}
+          aria-label={isPlaying ? t('timeline.review.pause') : t('timeline.review.play')}
+          title={isPlaying ? t('timeline.review.pause') : t('timeline.review.play')}
+          data-testid="timeline-review-play"
+        >
+          {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+        </Button>
+        <Button
+          variant="outline"
+          size="icon"
+          className="h-8 w-8"
+          onClick={() => clock.seek(time + SKIP_SECONDS * 1000)}
+          aria-label={t('timeline.review.skip_forward', { count: SKIP_SECONDS })}
+          title={t('timeline.review.skip_forward', { count: SKIP_SECONDS })}
+          data-testid="timeline-review-skip-forward"
+        >
+          <FastForward className="h-4 w-4" />
+        </Button>
+
+        <Select value={String(speed)} onValueChange={(value) => clock.setSpeed(Number(value))}>
+          <SelectTrigger className="h-8 w-20" aria-label={t('timeline.review.speed')} data-testid="timeline-review-speed">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TIMELINE.reviewSpeeds.map((option) => (
+              <SelectItem key={option} value={String(option)}>
+                {option}x
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <span className="font-mono text-sm tabular-nums" data-testid="timeline-review-time">
+          {format(time, 'yyyy-MM-dd HH:mm:ss')}
+        </span>
+        <span className="text-xs text-muted-foreground" data-testid="timeline-review-coverage">
+          {t('timeline.review.recording_count', { count: recordingCount, total: monitors.length })}
+        </span>
+
+        <Input
+          type="datetime-local"
+          className="ml-auto h-8 w-auto"
+          value={formatLocalDateTime(new Date(time))}
+          onChange={(e) => {
+            const picked = new Date(e.target.value).getTime();
+            if (Number.isFinite(picked)) clock.jumpTo(picked);
+          }}
+          aria-label={t('timeline.review.jump_to')}
+          title={t('timeline.review.jump_to')}
+          data-testid="timeline-review-jump"
+        />
+      </div>
+
+      <div className="flex items-center gap-3">
+        <span className="text-xs tabular-nums text-muted-foreground">{format(reviewWindow.start, 'HH:mm:ss')}</span>
+        <Slider
+          value={[time - reviewWindow.start]}
+          min={0}
+          max={reviewWindow.end - reviewWindow.start}
+          step={1000}
+          onValueChange={([value]) => clock.seek(reviewWindow.start + value)}
+          aria-label={t('timeline.review.scrubber')}
+          data-testid="timeline-review-scrubber"
+        />
+        <span className="text-xs tabular-nums text-muted-foreground">{format(reviewWindow.end, 'HH:mm:ss')}</span>
+      </div>
+
+      {monitors.length === 0 ? (
+        <p className="py-8 text-center text-sm text-muted-foreground">{t('timeline.no_monitors')}</p>
+      ) : (
+        <div className={`grid gap-2 ${getGridColumns(monitors.length)}`}>
+          {coverage.map(({ monitor, coverage: item }) => (
+            <ReviewTile
+              key={monitor.Id}
+              monitor={monitor}
+              coverage={item}
+              time={time}
+              isPlaying={isPlaying}
+              speed={speed}
+              portalUrl={portalUrl}
+              token={token}
+              apiUrl={apiUrl}
+              onJump={clock.jumpTo}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+/**
+ * Detection Overlay Component
+ *
+ * Renders object detection bounding boxes and labels as an SVG overlay
+ * on top of a video player or image. Read-only visualization.
+ */
+
+import { useMemo } from 'react';
+import type { MonitorRotation } from '../../lib/monitor-rotation';
+import type { DetectedObject } from '../../lib/object-detection';
+import { getOrientedDimensions, transformPoint, type ZoneTransform } from '../../lib/zone-utils';
+
+interface DetectionOverlayProps {
+  /** Detected objects; objects without a box are skipped */
+  objects: DetectedObject[];
+  /** Width of the analysed image in pixels (original, before rotation) */
+  imageWidth: number;
+  /** Height of the analysed image in pixels (original, before rotation) */
+  imageHeight: number;
+  /** Monitor rotation applied to the media */
+  rotation: MonitorRotation;
+  /** Whether the overlay is visible */
+  visible: boolean;
+}
+
+/**
+ * Box colors, picked per label so the same label keeps its color.
+ * Uses Tailwind color values.
+ */
+const boxColors = [
+  '#22c55e', // green-500
+  '#3b82f6', // blue-500
+  '#f97316', // orange-500
+  '#a855f7', // purple-500
+  '#eab308', // yellow-500
+  '#ec4899', // pink-500
+  '#14b8a6', // teal-500
+];
+
+function getLabelColor(label: string): string {
+  let hash = 0;
+  for (let i = 0; i < label.length; i++) {
+    hash = (hash * 31 + label.charCodeAt(i)) >>> 0;
+  }
+  return boxColors[hash % boxColors.length];
+}
+
+/**
+ * DetectionOverlay component.
+ * Renders detection boxes as an SVG overlay.
+ */
+export function DetectionOverlay({
+  objects,
+  imageWidth,
+  imageHeight,
+  rotation,
+  visible,
+}: DetectionOverlayProps) {
+  // Transform boxes into the rotated display space
+  const { boxes, viewBoxWidth, viewBoxHeight } = useMemo(() => {
+    const transform: ZoneTransform = {
+      rotation,
+      originalWidth: imageWidth,
+      originalHeight: imageHeight,
+    };
+    const oriented = getOrientedDimensions(imageWidth, imageHeight, rotation);
+
+    const transformed = objects.flatMap((object, index) => {
+      if (!object.box) return [];
+      const a = transformPoint({ x: object.box.x1, y: object.box.y1 }, transform);
+      const b = transformPoint({ x: object.box.x2, y: object.box.y2 }, transform);
+      return [{
+        key: `${object.label}-${index}`,
+        label: object.confidence !== null
+          ? `${object.label} ${Math.round(object.confidence * 100)}%`
+          : object.label,
+        color: getLabelColor(object.label),
+        x: Math.min(a.x, b.x),
+        y: Math.min(a.y, b.y),
+        width: Math.abs(b.x - a.x),
+        height: Math.abs(b.y - a.y),
+      }];
+    });
+
+    return {
+      boxes: transformed,
+      viewBoxWidth: oriented.width,
+      viewBoxHeight: oriented.height,
+    };
+  }, [objects, rotation, imageWidth, imageHeight]);
+
+  if (!visible || boxes.length === 0) {
+    return null;
+  }
+
+  // Scale strokes and text with the image so they stay readable at any resolution
+  const unit = Math.max(viewBoxWidth, viewBoxHeight) / 640;
+  const fontSize = Math.round(14 * unit);
+
+  return (
+    <svg
+      className="absolute inset-0 w-full h-full pointer-events-none"
+      viewBox={`0 0 ${viewBoxWidth} ${viewBoxHeight}`}
+      preserveAspectRatio="xMidYMid meet"
+      data-testid="detection-overlay"
+    >
+      {boxes.map((box) => {
+        const labelWidth = box.label.length * fontSize * 0.6 + fontSize;
+        const labelY = box.y >= fontSize * 1.5 ? box.y - fontSize * 1.5 : box.y;
+
+        return (
+          <g key={box.key} data-testid="detection-box">
+            <rect
+              x={box.x}
+              y={box.y}
+              width={box.width}
+              height={box.height}
+              fill="none"
+              stroke={box.color}
+              strokeWidth={2 * unit}
+            />
+            <rect
+              x={box.x}
+              y={labelY}
+              width={labelWidth}
+              height={fontSize * 1.5}
+              fill={box.color}
+              fillOpacity={0.85}
+            />
+            <text
+              x={box.x + fontSize / 2}
+              y={labelY + fontSize * 1.1}
+              fill="white"
+              fontSize={fontSize}
+              fontWeight="500"
+              className="select-none"
+            >
+              {box.label}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
@@ -22,6 +22,8 @@ export interface VideoPlayerProps {
   showStatus?: boolean;
   externalMediaRef?: React.RefObject<HTMLImageElement | HTMLVideoElement | null>;
   muted?: boolean;
+  /** Extra style for the video itself, such as a digital zoom transform */
+  mediaStyle?: React.CSSProperties;
 }
 
 export function VideoPlayer({
@@ -32,6 +34,7 @@ export function VideoPlayer({
   showStatus = false,
   externalMediaRef,
   muted = false,
+  mediaStyle,
 }: VideoPlayerProps) {
   const { t } = useTranslation();
   const containerRef = useRef<HTMLDivElement>(null);
@@ -162,7 +165,7 @@ export function VideoPlayer({
         <div
           ref={containerRef}
           className={`w-full h-full ${className}`}
-          style={{ objectFit } as React.CSSProperties}
+          style={{ objectFit, ...mediaStyle } as React.CSSProperties}
           data-testid="video-player-webrtc-container"
         />
       )}
@@ -171,7 +174,7 @@ export function VideoPlayer({
         <img
           ref={imgRef}
           className={`w-full h-full ${className}`}
-          style={{ objectFit }}
+          style={{ objectFit, ...mediaStyle }}
           data-testid="video-player-mjpeg"
           src={mjpegStream.streamUrl}
           alt={monitor.Name}
@@ -0,0 +1,40 @@
+/**
+ * Zoom Indicator
+ *
+ * Shows the magnification over a digitally zoomed view, with a button that
+ * returns to the whole image.
+ */
+
+import { useTranslation } from 'react-i18next';
+import { X } from 'lucide-react';
+import { cn } from '../../lib/utils';
+
+interface ZoomIndicatorProps {
+  scale: number;
+  onReset: () => void;
+  className?: string;
+}
+
+export function ZoomIndicator({ scale, onReset, className }: ZoomIndicatorProps) {
+  const { t } = useTranslation();
+
+  return (
+    <button
+      type="button"
+      className={cn(
+        'absolute top-2 right-2 z-10 flex items-center gap-1 rounded-md bg-black/60 px-2 py-1 text-xs font-medium text-white backdrop-blur-sm transition-colors hover:bg-black/80',
+        className
+      )}
+      onClick={(e) => {
+        e.stopPropagation();
+        onReset();
+      }}
+      title={t('zoom.reset')}
+      aria-label={t('zoom.reset')}
+      data-testid="zoom-indicator"
+    >
+      {t('zoom.scale', { scale: scale.toFixed(1) })}
+      <X className="h-3 w-3" />
+    </button>
+  );
+}
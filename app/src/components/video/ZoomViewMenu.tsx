@@ -0,0 +1,148 @@
+/**
+ * Zoom View Menu
+ *
+ * Lists the zoom views saved for a monitor. A view is applied with a tap,
+ * and the current zoom can be saved under a new name. Where montage tiles
+ * are offered, each view can be shown as a tile of its own.
+ */
+
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Crop, LayoutGrid, Plus, Trash2 } from 'lucide-react';
+import type { ZoomView } from '../../lib/digital-zoom';
+import { DIGITAL_ZOOM } from '../../lib/zmng-constants';
+import { cn } from '../../lib/utils';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '../ui/popover';
+
+interface ZoomViewMenuProps {
+  views: ZoomView[];
+  /** Whether the view is zoomed, so there is something to save */
+  canSave: boolean;
+  onApply: (view: ZoomView) => void;
+  onSave: (name: string) => void;
+  onRemove: (viewId: string) => void;
+  /** Offers showing views as montage tiles when given */
+  onToggleMontage?: (viewId: string) => void;
+  variant?: 'ghost' | 'outline';
+  className?: string;
+}
+
+export function ZoomViewMenu({
+  views,
+  canSave,
+  onApply,
+  onSave,
+  onRemove,
+  onToggleMontage,
+  variant = 'ghost',
+  className,
+}: ZoomViewMenuProps) {
+  const { t } = useTranslation();
+  const [name, setName] = useState('');
+
+  const handleSave = () => {
+    if (!canSave || !name.trim()) return;
+    onSave(name);
+    setName('');
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant={variant}
+          size="icon"
+          className={cn('h-8 w-8', className)}
+          title={t('zoom.views')}
+          aria-label={t('zoom.views')}
+          data-testid="zoom-view-menu"
+        >
+          <Crop className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 p-2" align="start" data-testid="zoom-view-panel">
+        <p className="px-1 pb-2 text-xs font-medium text-muted-foreground uppercase tracking-wider">
+          {t('zoom.views')}
+        </p>
+
+        {views.length === 0 ? (
+          <p className="px-1 pb-2 text-xs text-muted-foreground">{t('zoom.no_views')}</p>
+        ) : (
+          <ul className="space-y-1 pb-2">
+            {views.map((view) => (
+              <li key={view.id} className="flex items-center gap-1" data-testid={`zoom-view-${view.id}`}>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 min-w-0 flex-1 justify-start"
+                  onClick={() => onApply(view)}
+                  title={t('zoom.apply_view', { name: view.name })}
+                  data-testid="zoom-view-apply"
+                >
+                  <span className="truncate">{view.name}</span>
+                  <span className="ml-auto pl-2 text-xs text-muted-foreground">
+                    {t('zoom.scale', { scale: view.crop.scale.toFixed(1) })}
+                  </span>
+                </Button>
+                {onToggleMontage && (
+                  <Button
+                    variant={view.montage ? 'secondary' : 'ghost'}
+                    size="icon"
+                    className="h-8 w-8 shrink-0"
+                    onClick={() => onToggleMontage(view.id)}
+                    title={view.montage ? t('zoom.hide_in_montage') : t('zoom.show_in_montage')}
+                    aria-label={view.montage ? t('zoom.hide_in_montage') : t('zoom.show_in_montage')}
+                    aria-pressed={!!view.montage}
+                    data-testid="zoom-view-montage"
+                  >
+                    <LayoutGrid className="h-3.5 w-3.5" />
+                  </Button>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8 shrink-0"
+                  onClick={() => onRemove(view.id)}
+                  title={t('zoom.delete_view')}
+                  aria-label={t('zoom.delete_view')}
+                  data-testid="zoom-view-delete"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex items-center gap-1 border-t pt-2">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleSave();
+            }}
+            placeholder={canSave ? t('zoom.view_name') : t('zoom.zoom_to_save')}
+            maxLength={DIGITAL_ZOOM.maxNameLength}
+            disabled={!canSave}
+            className="h-8 text-sm"
+            aria-label={t('zoom.view_name')}
+            data-testid="zoom-view-name"
+          />
+          <Button
+            size="icon"
+            className="h-8 w-8 shrink-0"
+            onClick={handleSave}
+            disabled={!canSave || !name.trim()}
+            title={t('zoom.save_view')}
+            aria-label={t('zoom.save_view')}
+            data-testid="zoom-view-save"
+          >
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,165 @@
+import { describe, expect, it, vi, beforeEach } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import React from 'react';
+import { useUpdateEvent } from '../useEventMutations';
+import { updateEvent } from '../../api/events';
+import { toast } from 'sonner';
+import type { EventData, EventsResponse } from '../../api/types';
+
+vi.mock('../../api/events', () => ({
+  updateEvent: vi.fn(),
+}));
+
+vi.mock('sonner', () => ({
+  toast: {
+    success: vi.fn(),
+    error: vi.fn(),
+  },
+}));
+
+vi.mock('react-i18next', () => ({
+  useTranslation: () => ({
+    t: (key: string) => key,
+  }),
+}));
+
+vi.mock('../../lib/logger', () => ({
+  log: {
+    api: vi.fn(),
+  },
+  LogLevel: {
+    DEBUG: 0,
+    INFO: 1,
+    WARN: 2,
+    ERROR: 3,
+    NONE: 4,
+  },
+}));
+
+const buildEvent = (id: string, overrides: Partial<EventData['Event']> = {}): EventData => ({
+  Event: {
+    Id: id,
+    MonitorId: '1',
+    StorageId: null,
+    SecondaryStorageId: null,
+    Name: `Event ${id}`,
+    Cause: 'Motion',
+    StartDateTime: '2024-01-01 00:00:00',
+    EndDateTime: null,
+    Width: '640',
+    Height: '480',
+    Length: '10',
+    Frames: '100',
+    AlarmFrames: '5',
+    DefaultVideo: null,
+    SaveJPEGs: '0',
+    TotScore: '10',
+    AvgScore: '1',
+    MaxScore: '3',
+    Archived: '0',
+    Videoed: '0',
+    Uploaded: '0',
+    Emailed: '0',
+    Messaged: '0',
+    Executed: '0',
+    Notes: null,
+    StateId: null,
+    Orientation: null,
+    DiskSpace: null,
+    Scheme: null,
+    ...overrides,
+  },
+});
+
+const buildList = (events: EventData[]): EventsResponse => ({
+  events,
+  pagination: {
+    pageCount: 1,
+    page: 1,
+    current: 1,
+    count: events.length,
+    prevPage: false,
+    nextPage: false,
+    limit: 100,
+  },
+});
+
+function setup() {
+  const queryClient = new QueryClient({
+    defaultOptions: {
+      queries: { retry: false },
+      mutations: { retry: false },
+    },
+  });
+  queryClient.setQueryData(['event', '1'], buildEvent('1'));
+  queryClient.setQueryData(['events', { limit: 100 }], buildList([buildEvent('1'), buildEvent('2')]));
+  const wrapper = ({ children }: { children: React.ReactNode }) =>
+    React.createElement(QueryClientProvider, { client: queryClient }, children);
+  return { queryClient, wrapper };
+}
+
+describe('useUpdateEvent', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('optimistically updates the event and list caches', async () => {
+    let resolveUpdate: (value: EventData) => void = () => {};
+    vi.mocked(updateEvent).mockReturnValue(new Promise((resolve) => { resolveUpdate = resolve; }));
+    const { queryClient, wrapper } = setup();
+
+    const { result } = renderHook(() => useUpdateEvent(), { wrapper });
+
+    act(() => {
+      result.current.mutate({ eventId: '1', fields: { Notes: 'delivery driver' } });
+    });
+
+    await waitFor(() => {
+      expect(queryClient.getQueryData<EventData>(['event', '1'])?.Event.Notes).toBe('delivery driver');
+    });
+    const list = queryClient.getQueryData<EventsResponse>(['events', { limit: 100 }]);
+    expect(list?.events[0].Event.Notes).toBe('delivery driver');
+    expect(list?.events[1].Event.Notes).toBeNull();
+
+    await act(async () => {
+      resolveUpdate(buildEvent('1', { Notes: 'delivery driver (server)' }));
+    });
+
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+    expect(queryClient.getQueryData<EventData>(['event', '1'])?.Event.Notes).toBe('delivery driver (server)');
+    expect(updateEvent).toHaveBeenCalledWith('1', { Notes: 'delivery driver' });
+    expect(toast.success).toHaveBeenCalledWith('event_detail.edit_saved');
+  });
+
+  it('rolls back caches when the update fails', async () => {
+    vi.mocked(updateEvent).mockRejectedValue(new Error('Forbidden'));
+    const { queryClient, wrapper } = setup();
+
+    const { result } = renderHook(() => useUpdateEvent(), { wrapper });
+
+    act(() => {
+      result.current.mutate({ eventId: '1', fields: { Name: 'Renamed' } });
+    });
+
+    await waitFor(() => expect(result.current.isError).toBe(true));
+    expect(queryClient.getQueryData<EventData>(['event', '1'])?.Event.Name).toBe('Event 1');
+    const list = queryClient.getQueryData<EventsResponse>(['events', { limit: 100 }]);
+    expect(list?.events[0].Event.Name).toBe('Event 1');
+    expect(toast.error).toHaveBeenCalledWith('event_detail.edit_failed');
+  });
+
+  it('reports the outcome after the form using it has closed', async () => {
+    vi.mocked(updateEvent).mockRejectedValue(new Error('Forbidden'));
+    const { wrapper } = setup();
+
+    const { result, unmount } = renderHook(() => useUpdateEvent(), { wrapper });
+
+    act(() => {
+      result.current.mutate({ eventId: '1', fields: { Name: 'Renamed' } });
+    });
+    unmount();
+
+    await waitFor(() => expect(toast.error).toHaveBeenCalledWith('event_detail.edit_failed'));
+  });
+});
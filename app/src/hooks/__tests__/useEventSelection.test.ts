@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { getSelectionRange, useEventSelection } from '../useEventSelection';
+
+const orderedIds = ['1', '2', '3', '4', '5'];
+
+describe('getSelectionRange', () => {
+  it('returns the ids between anchor and target in either direction', () => {
+    expect(getSelectionRange(orderedIds, '2', '4')).toEqual(['2', '3', '4']);
+    expect(getSelectionRange(orderedIds, '4', '2')).toEqual(['2', '3', '4']);
+  });
+
+  it('returns null when an event is not shown', () => {
+    expect(getSelectionRange(orderedIds, '2', '9')).toBeNull();
+  });
+});
+
+describe('useEventSelection', () => {
+  it('toggles single events', () => {
+    const { result } = renderHook(() => useEventSelection(orderedIds));
+
+    act(() => result.current.toggle('2'));
+    expect(result.current.isSelected('2')).toBe(true);
+
+    act(() => result.current.toggle('2'));
+    expect(result.current.selectedCount).toBe(0);
+  });
+
+  it('selects a range with shift-click', () => {
+    const { result } = renderHook(() => useEventSelection(orderedIds));
+
+    act(() => result.current.toggle('2'));
+    act(() => result.current.toggle('4', { range: true }));
+
+    expect(Array.from(result.current.selectedIds).sort()).toEqual(['2', '3', '4']);
+  });
+
+  it('deselects a range when the anchor was deselected', () => {
+    const { result } = renderHook(() => useEventSelection(orderedIds));
+
+    act(() => result.current.selectAll());
+    act(() => result.current.toggle('1'));
+    act(() => result.current.toggle('3', { range: true }));
+
+    expect(Array.from(result.current.selectedIds).sort()).toEqual(['4', '5']);
+  });
+
+  it('selects an explicit list and clears', () => {
+    const { result } = renderHook(() => useEventSelection(orderedIds));
+
+    act(() => result.current.selectIds(['2', '42']));
+    expect(result.current.isSelected('42')).toBe(true);
+
+    act(() => result.current.clear());
+    expect(result.current.selectedCount).toBe(0);
+  });
+});
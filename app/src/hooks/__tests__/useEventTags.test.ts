@@ -0,0 +1,105 @@
+import { describe, expect, it, vi, beforeEach } from 'vitest';
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import React from 'react';
+import { useAssignEventTag, useUnassignEventTag } from '../useEventTags';
+import { assignTagToEvent, unassignTagFromEvent } from '../../api/tags';
+import type { Tag } from '../../api/types';
+
+vi.mock('../../api/tags', () => ({
+  getTags: vi.fn(),
+  getEventTags: vi.fn(),
+  extractUniqueTags: vi.fn(),
+  createTag: vi.fn(),
+  renameTag: vi.fn(),
+  deleteTag: vi.fn(),
+  assignTagToEvent: vi.fn(),
+  unassignTagFromEvent: vi.fn(),
+}));
+
+vi.mock('../../lib/logger', () => ({
+  log: {
+    api: vi.fn(),
+  },
+  LogLevel: {
+    DEBUG: 0,
+    INFO: 1,
+    WARN: 2,
+    ERROR: 3,
+    NONE: 4,
+  },
+}));
+
+const personTag: Tag = { Id: '1', Name: 'person' };
+const carTag: Tag = { Id: '5', Name: 'car' };
+const tagMapKey = ['eventTags', 'profile-1', ['10', '11', '12']];
+
+describe('event tag mutations', () => {
+  let queryClient: QueryClient;
+
+  const wrapper = ({ children }: { children: React.ReactNode }) =>
+    React.createElement(QueryClientProvider, { client: queryClient }, children);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    queryClient = new QueryClient({
+      defaultOptions: { queries: { retry: false }, mutations: { retry: false } },
+    });
+    queryClient.setQueryData(tagMapKey, new Map([['10', [personTag]]]));
+  });
+
+  it('optimistically adds the tag to every covered event', async () => {
+    let releaseServer: () => void = () => {};
+    const serverGate = new Promise<void>((resolve) => { releaseServer = resolve; });
+    vi.mocked(assignTagToEvent).mockImplementation(async () => {
+      await serverGate;
+      return [];
+    });
+
+    const { result } = renderHook(() => useAssignEventTag(), { wrapper });
+
+    act(() => {
+      result.current.mutate({ eventIds: ['10', '11'], tag: carTag });
+    });
+
+    await waitFor(() => {
+      const map = queryClient.getQueryData<Map<string, Tag[]>>(tagMapKey);
+      expect(map?.get('10')).toEqual([personTag, carTag]);
+      expect(map?.get('11')).toEqual([carTag]);
+      expect(map?.has('12')).toBe(false);
+    });
+
+    releaseServer();
+    await waitFor(() => expect(result.current.isSuccess).toBe(true));
+  });
+
+  it('reports events that failed while keeping the rest', async () => {
+    vi.mocked(assignTagToEvent).mockImplementation(async (eventId) => {
+      if (eventId === '11') throw new Error('server error');
+      return [];
+    });
+
+    const { result } = renderHook(() => useAssignEventTag(), { wrapper });
+
+    await act(async () => {
+      await result.current.mutateAsync({ eventIds: ['10', '11', '12'], tag: carTag });
+    });
+
+    await waitFor(() =>
+      expect(result.current.data).toEqual({ succeeded: ['10', '12'], failed: ['11'] })
+    );
+  });
+
+  it('rolls back the cache when every event fails', async () => {
+    vi.mocked(unassignTagFromEvent).mockRejectedValue(new Error('server error'));
+
+    const { result } = renderHook(() => useUnassignEventTag(), { wrapper });
+
+    act(() => {
+      result.current.mutate({ eventIds: ['10'], tag: personTag });
+    });
+
+    await waitFor(() => expect(result.current.isError).toBe(true));
+    expect(queryClient.getQueryData<Map<string, Tag[]>>(tagMapKey)?.get('10')).toEqual([personTag]);
+  });
+});
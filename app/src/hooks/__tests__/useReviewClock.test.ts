@@ -0,0 +1,86 @@
+import { describe, expect, it, vi, beforeEach, afterEach } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { useReviewClock } from '../useReviewClock';
+import { TIMELINE } from '../../lib/zmng-constants';
+
+const START = new Date('2024-01-15T10:00:00').getTime();
+const HALF_WINDOW = TIMELINE.reviewWindowMs / 2;
+
+describe('useReviewClock', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('centers the window on the initial time', () => {
+    const { result } = renderHook(() => useReviewClock(START));
+
+    expect(result.current.time).toBe(START);
+    expect(result.current.window).toEqual({ start: START - HALF_WINDOW, end: START + HALF_WINDOW });
+    expect(result.current.isPlaying).toBe(false);
+  });
+
+  it('advances while playing, scaled by the speed', () => {
+    const { result } = renderHook(() => useReviewClock(START));
+
+    act(() => {
+      result.current.setSpeed(2);
+      result.current.play();
+    });
+    act(() => {
+      vi.advanceTimersByTime(1000);
+    });
+
+    expect(result.current.time).toBeCloseTo(START + 2000, -2);
+
+    act(() => {
+      result.current.pause();
+    });
+    const paused = result.current.time;
+    act(() => {
+      vi.advanceTimersByTime(1000);
+    });
+
+    expect(result.current.time).toBe(paused);
+  });
+
+  it('stops at the end of the window', () => {
+    const { result } = renderHook(() => useReviewClock(START));
+
+    act(() => {
+      result.current.seek(START + HALF_WINDOW - 500);
+      result.current.play();
+    });
+    act(() => {
+      vi.advanceTimersByTime(2000);
+    });
+
+    expect(result.current.time).toBe(START + HALF_WINDOW);
+    expect(result.current.isPlaying).toBe(false);
+  });
+
+  it('keeps seeks inside the window', () => {
+    const { result } = renderHook(() => useReviewClock(START));
+
+    act(() => {
+      result.current.seek(START - TIMELINE.reviewWindowMs);
+    });
+
+    expect(result.current.time).toBe(START - HALF_WINDOW);
+  });
+
+  it('recenters the window when jumping outside it', () => {
+    const { result } = renderHook(() => useReviewClock(START));
+    const target = START + 60 * 60 * 1000;
+
+    act(() => {
+      result.current.jumpTo(target);
+    });
+
+    expect(result.current.time).toBe(target);
+    expect(result.current.window).toEqual({ start: target - HALF_WINDOW, end: target + HALF_WINDOW });
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it, vi, beforeEach } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import React from 'react';
+import { useReviewEvents } from '../useReviewEvents';
+import { getEvents } from '../../api/events';
+import { formatForServer } from '../../lib/time';
+import { TIMELINE } from '../../lib/zmng-constants';
+import type { EventData } from '../../api/types';
+
+vi.mock('../../api/events', () => ({
+  getEvents: vi.fn(),
+}));
+
+const START = new Date('2024-01-15T10:00:00').getTime();
+const reviewWindow = { start: START, end: START + TIMELINE.reviewWindowMs };
+const event = { Event: { Id: '1', MonitorId: '2' } } as unknown as EventData;
+
+describe('useReviewEvents', () => {
+  let queryClient: QueryClient;
+
+  const wrapper = ({ children }: { children: React.ReactNode }) =>
+    React.createElement(QueryClientProvider, { client: queryClient }, children);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    queryClient = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+    vi.mocked(getEvents).mockResolvedValue({ events: [event] } as Awaited<ReturnType<typeof getEvents>>);
+  });
+
+  it('loads every event of the monitors from before the window to its end', async () => {
+    const { result } = renderHook(
+      () => useReviewEvents({ monitorIds: ['2', '3'], reviewWindow, enabled: true }),
+      { wrapper }
+    );
+
+    await waitFor(() => expect(result.current).toEqual([event]));
+    expect(getEvents).toHaveBeenCalledWith({
+      monitorId: '2,3',
+      startDateTime: formatForServer(new Date(START - TIMELINE.reviewLookbackMs)),
+      endDateTime: formatForServer(new Date(reviewWindow.end)),
+      sort: 'StartDateTime',
+      direction: 'asc',
+      limit: TIMELINE.reviewEventLimit,
+    });
+  });
+
+  it('loads again when the window moves', async () => {
+    const { rerender } = renderHook(
+      ({ window }) => useReviewEvents({ monitorIds: [], reviewWindow: window, enabled: true }),
+      { wrapper, initialProps: { window: reviewWindow } }
+    );
+    await waitFor(() => expect(getEvents).toHaveBeenCalledTimes(1));
+    expect(vi.mocked(getEvents).mock.calls[0]?.[0]?.monitorId).toBeUndefined();
+
+    const later = { start: reviewWindow.end, end: reviewWindow.end + TIMELINE.reviewWindowMs };
+    rerender({ window: later });
+
+    await waitFor(() => expect(getEvents).toHaveBeenCalledTimes(2));
+    expect(vi.mocked(getEvents).mock.calls[1]?.[0]?.startDateTime).toBe(
+      formatForServer(new Date(later.start - TIMELINE.reviewLookbackMs))
+    );
+  });
+
+  it('loads nothing while review is off', () => {
+    renderHook(() => useReviewEvents({ monitorIds: [], reviewWindow, enabled: false }), { wrapper });
+
+    expect(getEvents).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * useBulkEventActions Hook
+ *
+ * Actions that apply to many events at once: archive/unarchive, delete,
+ * favorite, tag, download and ZIP bundle export. Each call runs as one tracked job in the
+ * background task drawer with per-event progress, cancellation and retry
+ * of the events that failed.
+ *
+ * Caches are updated as each event succeeds, so lists reflect progress
+ * while the job is running.
+ */
+
+import { useCallback } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useTranslation } from 'react-i18next';
+import { deleteEvent, setEventArchived } from '../api/events';
+import { assignTagToEvent, unassignTagFromEvent } from '../api/tags';
+import type { Tag } from '../api/types';
+import {
+  downloadEventBundle,
+  downloadFile,
+  getEventVideoDownloadUrl,
+  getEventVideoFilename,
+} from '../lib/download';
+import { runBulkTask, type BulkTaskHandle } from '../lib/bulk-tasks';
+import { useAuthStore } from '../stores/auth';
+import { useEventFavoritesStore } from '../stores/eventFavorites';
+import { useCurrentProfile } from './useCurrentProfile';
+import { applyEventFieldsToCache, removeEventFromCache } from './useEventMutations';
+import { patchEventTagCaches } from './useEventTags';
+
+/** Event fields needed to name downloaded files */
+export interface BulkDownloadEvent {
+  Id: string;
+  Name: string;
+}
+
+export interface UseBulkEventActionsReturn {
+  archive: (eventIds: string[], archived: boolean) => BulkTaskHandle;
+  remove: (eventIds: string[]) => BulkTaskHandle;
+  favorite: (eventIds: string[], favorite: boolean) => BulkTaskHandle | null;
+  tag: (eventIds: string[], tag: Tag, mode: 'assign' | 'unassign') => BulkTaskHandle;
+  download: (events: BulkDownloadEvent[]) => BulkTaskHandle | null;
+  /** Export the events as one ZIP archive; returns the background task ID */
+  bundle: (eventIds: string[], monitorNames?: Map<string, string>) => string | null;
+}
+
+// Downloads are large, so fetch them one at a time
+const DOWNLOAD_CONCURRENCY = 1;
+
+/**
+ * Hook providing bulk actions for selected events.
+ *
+ * @example
+ * ```typescript
+ * const bulk = useBulkEventActions();
+ * bulk.archive(selectedIds, true);
+ * ```
+ */
+export function useBulkEventActions(): UseBulkEventActionsReturn {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+  const { currentProfile } = useCurrentProfile();
+  const accessToken = useAuthStore((state) => state.accessToken);
+  const addFavorite = useEventFavoritesStore((state) => state.addFavorite);
+  const removeFavorite = useEventFavoritesStore((state) => state.removeFavorite);
+
+  const archive = useCallback(
+    (eventIds: string[], archived: boolean) =>
+      runBulkTask({
+        title: t(archived ? 'events.bulk.archive_title' : 'events.bulk.unarchive_title', {
+          count: eventIds.length,
+        }),
+        itemIds: eventIds,
+        action: async (eventId) => {
+          await setEventArchived(eventId, archived);
+        },
+        onItemSuccess: (eventId) =>
+          applyEventFieldsToCache(queryClient, eventId, { Archived: archived ? '1' : '0' }),
+        onFinish: () => queryClient.invalidateQueries({ queryKey: ['events'] }),
+      }),
+    [queryClient, t]
+  );
+
+  const remove = useCallback(
+    (eventIds: string[]) =>
+      runBulkTask({
+        title: t('events.bulk.delete_title', { count: eventIds.length }),
+        itemIds: eventIds,
+        action: (eventId) => deleteEvent(eventId),
+        onItemSuccess: (eventId) => removeEventFromCache(queryClient, eventId),
+        onFinish: () => queryClient.invalidateQueries({ queryKey: ['events'] }),
+      }),
+    [queryClient, t]
+  );
+
+  const favorite = useCallback(
+    (eventIds: string[], isFavorite: boolean) => {
+      if (!currentProfile) return null;
+      const profileId = currentProfile.id;
+      return runBulkTask({
+        title: t(isFavorite ? 'events.bulk.favorite_title' : 'events.bulk.unfavorite_title', {
+          count: eventIds.length,
+        }),
+        itemIds: eventIds,
+        action: async (eventId) => {
+          if (isFavorite) {
+            addFavorite(profileId, eventId);
+          } else {
+            removeFavorite(profileId, eventId);
+          }
+        },
+      });
+    },
+    [currentProfile, addFavorite, removeFavorite, t]
+  );
+
+  const tag = useCallback(
+    (eventIds: string[], tagToApply: Tag, mode: 'assign' | 'unassign') =>
+      runBulkTask({
+        title: t(mode === 'assign' ? 'events.bulk.tag_title' : 'events.bulk.untag_title', {
+          count: eventIds.length,
+          name: tagToApply.Name,
+        }),
+        itemIds: eventIds,
+        action: async (eventId) => {
+          if (mode === 'assign') {
+            await assignTagToEvent(eventId, tagToApply.Id);
+          } else {
+            await unassignTagFromEvent(eventId, tagToApply.Id);
+          }
+        },
+        onItemSuccess: (eventId) =>
+          patchEventTagCaches(queryClient, [eventId], (tags) => {
+            const withoutTag = tags.filter((item) => item.Id !== tagToApply.Id);
+            return mode === 'assign' ? [...withoutTag, tagToApply] : withoutTag;
+          }),
+        onFinish: () => {
+          queryClient.invalidateQueries({ queryKey: ['eventTags'] });
+          queryClient.invalidateQueries({ queryKey: ['tags'] });
+        },
+      }),
+    [queryClient, t]
+  );
+
+  const download = useCallback(
+    (events: BulkDownloadEvent[]) => {
+      if (!currentProfile) return null;
+      const portalUrl = currentProfile.portalUrl;
+      const names = new Map(events.map((event) => [event.Id, event.Name]));
+      return runBulkTask({
+        type: 'download',
+        title: t('events.bulk.download_title', { count: events.length }),
+        itemIds: events.map((event) => event.Id),
+        concurrency: DOWNLOAD_CONCURRENCY,
+        action: (eventId, signal) =>
+          downloadFile(
+            getEventVideoDownloadUrl(portalUrl, eventId, accessToken || undefined),
+            getEventVideoFilename(eventId, names.get(eventId) ?? ''),
+            { signal }
+          ),
+      });
+    },
+    [currentProfile, accessToken, t]
+  );
+
+  const bundle = useCallback(
+    (eventIds: string[], monitorNames?: Map<string, string>) => {
+      if (!currentProfile) return null;
+      return downloadEventBundle(eventIds, {
+        portalUrl: currentProfile.portalUrl,
+        token: accessToken || undefined,
+        monitorNames,
+        description: t('events.bulk.bundle_description', { count: eventIds.length }),
+      });
+    },
+    [currentProfile, accessToken, t]
+  );
+
+  return { archive, remove, favorite, tag, download, bundle };
+}
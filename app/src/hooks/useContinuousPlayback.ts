@@ -0,0 +1,117 @@
+/**
+ * useContinuousPlayback Hook
+ *
+ * Builds the playlist for continuous playback on the event detail page: the
+ * events of the same monitor in the hour or day around the current event.
+ * Finds the next event to play (also past the end of the playlist) and
+ * prefetches its details so it starts without a loading state.
+ */
+
+import { useEffect, useMemo } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { getAllEvents, getEvent, getEventFrames, getEvents } from '../api/events';
+import type { EventData } from '../api/types';
+import {
+  getPlaybackSpanRange,
+  getPlaylistNeighbours,
+  sortPlaylist,
+  type ContinuousPlaybackSpan,
+} from '../lib/continuous-playback';
+import { getEventTimeRange, type EventTimeRange } from '../lib/review-playback';
+import { formatForServer } from '../lib/time';
+
+interface UseContinuousPlaybackOptions {
+  /** Event being played */
+  event: EventData | undefined;
+  span: ContinuousPlaybackSpan;
+  enabled: boolean;
+}
+
+export interface UseContinuousPlaybackReturn {
+  /** Events of the monitor in the span, oldest first */
+  playlist: EventData[];
+  /** The hour or day shown */
+  range: EventTimeRange | null;
+  previous: EventData | null;
+  next: EventData | null;
+  isLoading: boolean;
+}
+
+// Events ending up to this long after the span are still fetched, so a
+// recording crossing the end of the span is on the playlist
+const SPAN_OVERRUN_MS = 60 * 60 * 1000;
+
+/**
+ * Hook providing the continuous playback playlist for an event.
+ *
+ * @example
+ * ```typescript
+ * const { playlist, next } = useContinuousPlayback({ event, span: 'hour', enabled: true });
+ * ```
+ */
+export function useContinuousPlayback({
+  event,
+  span,
+  enabled,
+}: UseContinuousPlaybackOptions): UseContinuousPlaybackReturn {
+  const queryClient = useQueryClient();
+  const monitorId = event?.Event.MonitorId;
+  const eventStart = event ? getEventTimeRange(event).start : null;
+  const range = useMemo(
+    () => (eventStart !== null ? getPlaybackSpanRange(eventStart, span) : null),
+    [eventStart, span]
+  );
+
+  const { data: spanEvents, isLoading } = useQuery({
+    queryKey: ['continuousPlaylist', monitorId, range?.start, span],
+    queryFn: () =>
+      getAllEvents({
+        monitorId,
+        startDateTime: formatForServer(new Date(range!.start)),
+        endDateTime: formatForServer(new Date(range!.end + SPAN_OVERRUN_MS)),
+        sort: 'StartDateTime',
+        direction: 'asc',
+      }),
+    enabled: enabled && !!monitorId && !!range,
+  });
+
+  const playlist = useMemo(() => {
+    if (!event || !range) return [];
+    const inSpan = (spanEvents ?? []).filter((item) => getEventTimeRange(item).start < range.end);
+    // The current event is always on the playlist, even while it is still recording
+    return sortPlaylist([...inSpan, event]);
+  }, [spanEvents, event, range]);
+
+  const { previous, next: nextInSpan } = useMemo(
+    () => (event ? getPlaylistNeighbours(playlist, event.Event.Id) : { previous: null, next: null }),
+    [playlist, event]
+  );
+
+  // Past the end of the span, look up the next recording directly
+  const { data: nextAfterSpan } = useQuery({
+    queryKey: ['continuousNext', monitorId, eventStart],
+    queryFn: async () => {
+      const response = await getEvents({
+        monitorId,
+        startDateTime: formatForServer(new Date(eventStart! + 1000)),
+        sort: 'StartDateTime',
+        direction: 'asc',
+        limit: 1,
+      });
+      return response.events[0] ?? null;
+    },
+    enabled: enabled && !!monitorId && eventStart !== null && !!spanEvents && !nextInSpan,
+  });
+
+  const next = nextInSpan ?? nextAfterSpan ?? null;
+  const nextId = next?.Event.Id;
+
+  // Prefetch the next event so it starts right away
+  useEffect(() => {
+    if (!enabled || !nextId) return;
+    queryClient.prefetchQuery({ queryKey: ['event', nextId], queryFn: () => getEvent(nextId) });
+    queryClient.prefetchQuery({ queryKey: ['eventFrames', nextId], queryFn: () => getEventFrames(nextId) });
+  }, [enabled, nextId, queryClient]);
+
+  return { playlist, range, previous, next, isLoading: enabled && isLoading };
+}
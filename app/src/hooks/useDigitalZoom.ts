@@ -0,0 +1,189 @@
+/**
+ * Digital Zoom Hook
+ *
+ * Zooms into a live or recorded view in the app, without moving the camera.
+ * Features:
+ * - Pinch (touch and trackpad) and wheel zoom around the pointer
+ * - Drag to pan while zoomed
+ * - Double click to zoom in, or back out
+ * - Transform for the media element, measured on the image as drawn
+ *
+ * The zoom itself is controlled, so views can keep it in a store or in state.
+ */
+
+import { useEffect, useRef, useState, type CSSProperties } from 'react';
+import { useGesture } from '@use-gesture/react';
+import {
+  FULL_CROP,
+  getCropTransform,
+  getImageBox,
+  getViewFocus,
+  isZoomed,
+  panCrop,
+  zoomCrop,
+  type ZoomCrop,
+} from '../lib/digital-zoom';
+import { DIGITAL_ZOOM } from '../lib/zmng-constants';
+import type { MonitorFeedFit } from '../stores/settings';
+
+interface UseDigitalZoomOptions {
+  crop: ZoomCrop;
+  onCropChange: (crop: ZoomCrop) => void;
+  /** Image size as shown, after rotation */
+  imageSize: { width: number; height: number };
+  fit: MonitorFeedFit;
+  enabled?: boolean;
+  /** Leave plain wheel scrolling to the page; zoom with Ctrl/Cmd held or a trackpad pinch */
+  wheelNeedsModifier?: boolean;
+  /** Gestures starting on matching elements, such as player controls, are ignored */
+  ignoreSelector?: string;
+  /** Zoom and pan by touch; off where touch belongs to the page, like scrolling a montage */
+  touch?: boolean;
+  /** Zoom in and out with a double click; off where a click already does something */
+  doubleClick?: boolean;
+}
+
+export function useDigitalZoom({
+  crop,
+  onCropChange,
+  imageSize,
+  fit,
+  enabled = true,
+  wheelNeedsModifier = false,
+  ignoreSelector,
+  touch = true,
+  doubleClick = true,
+}: UseDigitalZoomOptions) {
+  // Held in state so listeners attach once the element mounts
+  const [element, setElement] = useState<HTMLDivElement | null>(null);
+  const [viewSize, setViewSize] = useState({ width: 0, height: 0 });
+  const [isGesturing, setIsGesturing] = useState(false);
+  const draggedRef = useRef(false);
+
+  // Wheel and pointer events can arrive faster than renders, so each change
+  // is applied to the latest zoom rather than the rendered one
+  const cropRef = useRef(crop);
+  useEffect(() => {
+    cropRef.current = crop;
+  }, [crop]);
+
+  const change = (next: ZoomCrop) => {
+    cropRef.current = next;
+    onCropChange(next);
+  };
+
+  useEffect(() => {
+    if (!element) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      setViewSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [element]);
+
+  const box = getImageBox(viewSize, imageSize, fit);
+
+  const focusAt = (clientX: number, clientY: number) => {
+    const rect = element?.getBoundingClientRect();
+    if (!rect) return { x: 0.5, y: 0.5 };
+    return getViewFocus(clientX - rect.left, clientY - rect.top, box);
+  };
+
+  const isIgnored = (target: EventTarget | null) =>
+    !!ignoreSelector && target instanceof Element && target.closest(ignoreSelector) !== null;
+
+  useGesture(
+    {
+      onWheel: ({ event, delta: [, dy] }) => {
+        if (wheelNeedsModifier && !event.ctrlKey && !event.metaKey) return;
+        if (isIgnored(event.target)) return;
+        event.preventDefault();
+
+        const factor = Math.exp(-dy * DIGITAL_ZOOM.wheelSensitivity);
+        change(zoomCrop(cropRef.current, factor, focusAt(event.clientX, event.clientY)));
+      },
+      onPinch: ({ origin: [ox, oy], movement: [ms], first, last, memo, event }) => {
+        if (first && isIgnored(event.target)) return;
+
+        // Scale from the zoom the pinch started at
+        const start: ZoomCrop = first ? cropRef.current : (memo ?? cropRef.current);
+        if (first) setIsGesturing(true);
+        change(zoomCrop(start, ms, focusAt(ox, oy)));
+        if (last) setIsGesturing(false);
+        return start;
+      },
+      onDrag: ({ delta: [dx, dy], first, last, pinching, tap, event, cancel }) => {
+        if (first) {
+          draggedRef.current = false;
+          const isTouch = 'touches' in event || ('pointerType' in event && event.pointerType === 'touch');
+          if (isIgnored(event.target) || !isZoomed(cropRef.current) || (isTouch && !touch)) {
+            cancel();
+            return;
+          }
+          setIsGesturing(true);
+        }
+        if (last) setIsGesturing(false);
+        if (pinching || tap || box.width <= 0) return;
+
+        draggedRef.current = true;
+        change(panCrop(cropRef.current, dx / box.width, dy / box.height));
+      },
+    },
+    {
+      target: element ?? undefined,
+      enabled,
+      eventOptions: { passive: false },
+      drag: { filterTaps: true, pointer: { touch: true } },
+      pinch: { enabled: touch, pinchOnWheel: false },
+    }
+  );
+
+  // Double click zooms in on the point, or back out when already zoomed
+  useEffect(() => {
+    if (!element || !enabled || !doubleClick) return;
+
+    const handleDoubleClick = (event: MouseEvent) => {
+      if (isIgnored(event.target)) return;
+      if (isZoomed(cropRef.current)) {
+        change(FULL_CROP);
+      } else {
+        change(zoomCrop(cropRef.current, DIGITAL_ZOOM.doubleClickScale, focusAt(event.clientX, event.clientY)));
+      }
+    };
+
+    element.addEventListener('dblclick', handleDoubleClick);
+    return () => element.removeEventListener('dblclick', handleDoubleClick);
+  });
+
+  const zoomed = isZoomed(crop);
+
+  // Let the page scroll until zoomed, then keep touches for panning
+  useEffect(() => {
+    if (!element || !enabled || !touch) return;
+    element.style.setProperty('touch-action', zoomed ? 'none' : 'pan-y');
+    return () => {
+      element.style.removeProperty('touch-action');
+    };
+  }, [element, enabled, touch, zoomed]);
+
+  const mediaStyle: CSSProperties =
+    zoomed && viewSize.width > 0
+      ? {
+          transform: getCropTransform(crop, box),
+          transformOrigin: '0 0',
+          transition: isGesturing ? 'none' : 'transform 0.15s ease-out',
+        }
+      : {};
+
+  return {
+    /** Callback ref for the element that takes the gestures and holds the media */
+    ref: setElement,
+    mediaStyle,
+    isZoomed: zoomed,
+    isGesturing,
+    /** Whether the last pointer gesture panned, so a following click can be ignored */
+    wasDragged: () => draggedRef.current,
+    reset: () => change(FULL_CROP),
+  };
+}
@@ -0,0 +1,147 @@
+/**
+ * useEventExport Hook
+ *
+ * Exports every event matching the Events page filters to a CSV or JSON file.
+ *
+ * The export runs as one tracked job in the background task drawer:
+ * all result pages are fetched (no page cap), and each page has the
+ * client-side filters (favorites, tags) applied and is formatted as soon as
+ * it arrives. The file is then saved through the platform download paths.
+ */
+
+import { useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { getAllEvents, type EventFilters } from '../api/events';
+import { getEventTags } from '../api/tags';
+import { downloadTextFile } from '../lib/download';
+import {
+  EVENT_EXPORT_COLUMNS,
+  EVENT_EXPORT_MIME_TYPES,
+  createEventExportWriter,
+  getEventExportFilename,
+  type EventExportColumn,
+  type EventExportFormat,
+} from '../lib/event-export';
+import { log, LogLevel } from '../lib/logger';
+import { useBackgroundTasks } from '../stores/backgroundTasks';
+import { useEventFavoritesStore } from '../stores/eventFavorites';
+import { useCurrentProfile } from './useCurrentProfile';
+
+export interface EventExportOptions {
+  /** Server-side filters of the result set */
+  filters: EventFilters;
+  /** Only export favorited events */
+  favoritesOnly: boolean;
+  /** Only export events with at least one of these tags */
+  tagIds: string[];
+  format: EventExportFormat;
+  columns: EventExportColumn[];
+  /** Monitor ID -> name, for the monitor column */
+  monitorNames: Map<string, string>;
+}
+
+export interface UseEventExportReturn {
+  /** Start an export; resolves when the file is saved, the export failed or was cancelled */
+  exportEvents: (options: EventExportOptions) => Promise<void>;
+}
+
+/**
+ * Hook to export filtered events.
+ *
+ * @example
+ * ```typescript
+ * const { exportEvents } = useEventExport();
+ * exportEvents({ filters, favoritesOnly, tagIds, format: 'csv', columns, monitorNames });
+ * ```
+ */
+export function useEventExport(): UseEventExportReturn {
+  const { t } = useTranslation();
+  const { currentProfile } = useCurrentProfile();
+  const profileFavorites = useEventFavoritesStore((state) =>
+    currentProfile ? state.profileFavorites[currentProfile.id] : undefined
+  );
+
+  const exportEvents = useCallback(
+    async ({ filters, favoritesOnly, tagIds, format, columns, monitorNames }: EventExportOptions) => {
+      const abortController = new AbortController();
+      const { signal } = abortController;
+      const taskStore = useBackgroundTasks.getState();
+      const taskId = taskStore.addTask({
+        type: 'export',
+        metadata: {
+          title: t('events.export.task_title', { format: format.toUpperCase() }),
+        },
+        cancelFn: () => {
+          abortController.abort();
+          log.app('Event export cancelled by user', LogLevel.INFO, { format });
+        },
+      });
+
+      const headers = Object.fromEntries(
+        EVENT_EXPORT_COLUMNS.map((column) => [column, t(`events.export.columns.${column}`)])
+      ) as Record<EventExportColumn, string>;
+      const favoriteIds = new Set(profileFavorites ?? []);
+      const needsTags = tagIds.length > 0 || columns.includes('tags');
+
+      try {
+        // Each page is filtered, tagged and formatted as it arrives, so only the output text is kept
+        const writer = createEventExportWriter(format, columns, headers);
+        const chunks = [writer.begin()];
+        let exported = 0;
+
+        await getAllEvents(filters, {
+          signal,
+          keepEvents: false,
+          onPage: async (events, { fetched, total }) => {
+            let page = favoritesOnly ? events.filter(({ Event }) => favoriteIds.has(Event.Id)) : events;
+            const tagMap = needsTags && page.length > 0 ? await getEventTags(page.map(({ Event }) => Event.Id)) : null;
+            if (tagIds.length > 0 && tagMap) {
+              page = page.filter(({ Event }) => (tagMap.get(Event.Id) || []).some((tag) => tagIds.includes(tag.Id)));
+            }
+
+            chunks.push(writer.write(page, { monitorNames, tagMap, favoriteIds }));
+            exported += page.length;
+
+            // Keep the last percent for saving the file
+            const share = total > 0 ? Math.min(1, fetched / total) : 1;
+            useBackgroundTasks.getState().updateProgress(taskId, Math.round(share * 99));
+          },
+        });
+        chunks.push(writer.end());
+
+        if (signal.aborted) return;
+
+        const filename = getEventExportFilename(format);
+        useBackgroundTasks.setState((state) => ({
+          tasks: state.tasks.map((task) =>
+            task.id === taskId
+              ? {
+                  ...task,
+                  metadata: {
+                    ...task.metadata,
+                    description: t('events.export.task_description', { count: exported, filename }),
+                  },
+                }
+              : task
+          ),
+        }));
+
+        if (!(await downloadTextFile(chunks.join(''), filename, EVENT_EXPORT_MIME_TYPES[format]))) {
+          useBackgroundTasks.getState().cancelTask(taskId);
+          return;
+        }
+        useBackgroundTasks.getState().completeTask(taskId);
+        log.app('Exported events', LogLevel.INFO, { format, count: exported, columns: columns.length });
+      } catch (error) {
+        if (signal.aborted) return;
+        log.app('Event export failed', LogLevel.ERROR, { format, error });
+        useBackgroundTasks
+          .getState()
+          .failTask(taskId, error instanceof Error ? error : new Error(String(error)));
+      }
+    },
+    [t, profileFavorites]
+  );
+
+  return { exportEvents };
+}
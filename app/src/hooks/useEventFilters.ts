@@ -8,14 +8,26 @@
  * - Two-way binding between UI state and URL parameters
  * - Multi-monitor selection support
  * - Date range filtering (start/end)
+ * - Advanced server-side filters (archived, cause, name, notes, scores, length, frames, storage)
  * - Active filter counting for UI badges
+ * - Applying named saved searches
+ * - Applying natural-language quick searches (kept in the `q` parameter)
  */
 
 import { useState, useEffect, useCallback, useMemo } from 'react';
 import { useSearchParams, useLocation } from 'react-router-dom';
 import { useCurrentProfile } from './useCurrentProfile';
-import { useSettingsStore } from '../stores/settings';
+import { useSettingsStore, type EventsQuickSearch } from '../stores/settings';
 import type { EventFilters } from '../api/events';
+import {
+  advancedFiltersToParams,
+  countAdvancedFilters,
+  hasAdvancedFilterParams,
+  parseAdvancedFilters,
+  type EventAdvancedFilters,
+} from '../lib/event-filter-params';
+import { resolveSavedSearchDates, savedSearchToParams, type SavedEventSearch } from '../lib/saved-searches';
+import type { QuickSearchResult } from '../lib/event-quick-search';
 
 interface UseEventFiltersReturn {
   filters: EventFilters;
@@ -24,18 +36,30 @@ interface UseEventFiltersReturn {
   startDateInput: string;
   endDateInput: string;
   favoritesOnly: boolean;
+  advancedFilters: EventAdvancedFilters;
+  /** Applied quick search query, empty when none */
+  quickSearchQuery: string;
   setSelectedMonitorIds: (ids: string[]) => void;
   setSelectedTagIds: (ids: string[]) => void;
   setStartDateInput: (date: string) => void;
   setEndDateInput: (date: string) => void;
   setFavoritesOnly: (enabled: boolean) => void;
+  setAdvancedFilters: (filters: EventAdvancedFilters) => void;
   applyFilters: () => void;
   clearFilters: () => void;
+  applySavedSearch: (search: SavedEventSearch) => void;
+  applyQuickSearch: (query: string, result: QuickSearchResult) => void;
   toggleMonitorSelection: (monitorId: string) => void;
   toggleTagSelection: (tagId: string) => void;
   activeFilterCount: number;
 }
 
+/** Quick search to keep, or undefined when neither the query nor its detection filter is set */
+function getQuickSearch(query: string | null | undefined, notesRegexp: string | undefined): EventsQuickSearch | undefined {
+  if (!query && !notesRegexp) return undefined;
+  return { query: query ?? '', ...(notesRegexp && { notesRegexp }) };
+}
+
 /**
  * Custom hook for managing event filters.
  * Handles URL params synchronization and local state.
@@ -57,6 +81,8 @@ export function useEventFilters(): UseEventFiltersReturn {
       monitorId: searchParams.get('monitorId') || undefined,
       startDateTime: searchParams.get('startDateTime') || undefined,
       endDateTime: searchParams.get('endDateTime') || undefined,
+      notesRegexp: searchParams.get('notesRegexp') || undefined,
+      ...parseAdvancedFilters(searchParams),
     }),
     [searchParams, settings.defaultEventLimit]
   );
@@ -102,6 +128,11 @@ export function useEventFilters(): UseEventFiltersReturn {
     return settings.eventsPageFilters.favoritesOnly;
   });
 
+  const [advancedFilters, setAdvancedFilters] = useState<EventAdvancedFilters>(() => {
+    if (hasAdvancedFilterParams(searchParams)) return parseAdvancedFilters(searchParams);
+    return settings.eventsPageFilters.advanced ?? {};
+  });
+
   // Local state for tag filter
   const [selectedTagIds, setSelectedTagIds] = useState<string[]>(() => {
     const urlTagIds = searchParams.get('tagIds');
@@ -116,22 +147,29 @@ export function useEventFilters(): UseEventFiltersReturn {
       searchParams.get('tagIds') ||
       searchParams.get('startDateTime') ||
       searchParams.get('endDateTime') ||
-      searchParams.get('favorites');
+      searchParams.get('favorites') ||
+      searchParams.get('notesRegexp') ||
+      searchParams.get('q') ||
+      hasAdvancedFilterParams(searchParams);
 
     // If no URL filters, apply saved settings to URL
     if (!hasUrlFilters && currentProfile) {
       const savedFilters = settings.eventsPageFilters;
+      const savedAdvancedParams = advancedFiltersToParams(savedFilters.advanced ?? {});
       const hasFilterContent =
         savedFilters.monitorIds.length > 0 ||
         savedFilters.tagIds.length > 0 ||
         savedFilters.startDateTime ||
         savedFilters.endDateTime ||
-        savedFilters.favoritesOnly;
+        savedFilters.favoritesOnly ||
+        savedFilters.quickSearch ||
+        Object.keys(savedAdvancedParams).length > 0;
 
       if (hasFilterContent) {
         const newParams: Record<string, string> = {
           sort: 'StartDateTime',
           direction: 'desc',
+          ...savedAdvancedParams,
         };
         if (savedFilters.monitorIds.length > 0) {
           newParams.monitorId = savedFilters.monitorIds.join(',');
@@ -148,6 +186,12 @@ export function useEventFilters(): UseEventFiltersReturn {
         if (savedFilters.favoritesOnly) {
           newParams.favorites = 'true';
         }
+        if (savedFilters.quickSearch?.query) {
+          newParams.q = savedFilters.quickSearch.query;
+        }
+        if (savedFilters.quickSearch?.notesRegexp) {
+          newParams.notesRegexp = savedFilters.quickSearch.notesRegexp;
+        }
 
         setSearchParams(newParams, { replace: true });
       }
@@ -172,6 +216,8 @@ export function useEventFilters(): UseEventFiltersReturn {
 
     const tagIds = searchParams.get('tagIds');
     setSelectedTagIds(tagIds ? tagIds.split(',') : []);
+
+    setAdvancedFilters(parseAdvancedFilters(searchParams));
   }, [searchParams]);
 
   // Apply filters to URL and save to settings
@@ -179,6 +225,7 @@ export function useEventFilters(): UseEventFiltersReturn {
     const newParams: Record<string, string> = {
       sort: filters.sort || 'StartDateTime',
       direction: filters.direction || 'desc',
+      ...advancedFiltersToParams(advancedFilters),
     };
     if (selectedMonitorIds.length > 0) {
       newParams.monitorId = selectedMonitorIds.join(',');
@@ -189,6 +236,11 @@ export function useEventFilters(): UseEventFiltersReturn {
     if (selectedTagIds.length > 0) {
       newParams.tagIds = selectedTagIds.join(',');
     }
+    // Detection filters are only set by quick search and have no input of their own,
+    // so the quick search stays applied together with them
+    const quickSearch = getQuickSearch(searchParams.get('q'), filters.notesRegexp);
+    if (quickSearch?.query) newParams.q = quickSearch.query;
+    if (quickSearch?.notesRegexp) newParams.notesRegexp = quickSearch.notesRegexp;
 
     // Preserve navigation state when updating search params
     setSearchParams(newParams, {
@@ -205,6 +257,8 @@ export function useEventFilters(): UseEventFiltersReturn {
           startDateTime: startDateInput,
           endDateTime: endDateInput,
           favoritesOnly,
+          advanced: advancedFilters,
+          quickSearch,
         },
       });
     }
@@ -214,8 +268,11 @@ export function useEventFilters(): UseEventFiltersReturn {
     startDateInput,
     endDateInput,
     favoritesOnly,
+    advancedFilters,
     filters.sort,
     filters.direction,
+    filters.notesRegexp,
+    searchParams,
     setSearchParams,
     location.state,
     currentProfile,
@@ -229,6 +286,7 @@ export function useEventFilters(): UseEventFiltersReturn {
     setStartDateInput('');
     setEndDateInput('');
     setFavoritesOnly(false);
+    setAdvancedFilters({});
     setSearchParams(
       {
         sort: 'StartDateTime',
@@ -249,6 +307,82 @@ export function useEventFilters(): UseEventFiltersReturn {
           startDateTime: '',
           endDateTime: '',
           favoritesOnly: false,
+          advanced: {},
+        },
+      });
+    }
+  }, [setSearchParams, location.state, currentProfile, updateSettings]);
+
+  // Replace all filters with a saved search; relative date ranges are resolved against now
+  const applySavedSearch = useCallback((search: SavedEventSearch) => {
+    const now = new Date();
+    const { start, end } = resolveSavedSearchDates(search.dateRange, now);
+    setSelectedMonitorIds(search.monitorIds);
+    setSelectedTagIds(search.tagIds);
+    setStartDateInput(start);
+    setEndDateInput(end);
+    setFavoritesOnly(search.favoritesOnly);
+    setAdvancedFilters(search.advanced);
+    setSearchParams(savedSearchToParams(search, now), {
+      replace: true,
+      state: location.state,
+    });
+
+    if (currentProfile) {
+      updateSettings(currentProfile.id, {
+        eventsPageFilters: {
+          monitorIds: search.monitorIds,
+          tagIds: search.tagIds,
+          startDateTime: start,
+          endDateTime: end,
+          favoritesOnly: search.favoritesOnly,
+          advanced: search.advanced,
+        },
+      });
+    }
+  }, [setSearchParams, location.state, currentProfile, updateSettings]);
+
+  // Replace all filters with a parsed quick search
+  const applyQuickSearch = useCallback((query: string, result: QuickSearchResult) => {
+    const { monitorId, startDateTime = '', endDateTime = '', archived, length, notesRegexp } = result.filters;
+    const monitorIds = monitorId ? monitorId.split(',') : [];
+    const advanced: EventAdvancedFilters = {};
+    if (archived !== undefined) advanced.archived = archived;
+    if (length) advanced.length = length;
+
+    setSelectedMonitorIds(monitorIds);
+    setSelectedTagIds(result.tagIds);
+    setStartDateInput(startDateTime);
+    setEndDateInput(endDateTime);
+    setFavoritesOnly(false);
+    setAdvancedFilters(advanced);
+
+    const newParams: Record<string, string> = {
+      sort: 'StartDateTime',
+      direction: 'desc',
+      ...advancedFiltersToParams(advanced),
+    };
+    if (query) newParams.q = query;
+    if (monitorIds.length > 0) newParams.monitorId = monitorIds.join(',');
+    if (result.tagIds.length > 0) newParams.tagIds = result.tagIds.join(',');
+    if (startDateTime) newParams.startDateTime = startDateTime;
+    if (endDateTime) newParams.endDateTime = endDateTime;
+    if (notesRegexp) newParams.notesRegexp = notesRegexp;
+    setSearchParams(newParams, {
+      replace: true,
+      state: location.state,
+    });
+
+    if (currentProfile) {
+      updateSettings(currentProfile.id, {
+        eventsPageFilters: {
+          monitorIds,
+          tagIds: result.tagIds,
+          startDateTime,
+          endDateTime,
+          favoritesOnly: false,
+          advanced,
+          quickSearch: getQuickSearch(query, notesRegexp),
         },
       });
     }
@@ -281,8 +415,9 @@ export function useEventFilters(): UseEventFiltersReturn {
         filters.startDateTime,
         filters.endDateTime,
         favoritesOnly ? 'favorites' : null,
-      ].filter(Boolean).length,
-    [selectedMonitorIds.length, selectedTagIds.length, filters.startDateTime, filters.endDateTime, favoritesOnly]
+        filters.notesRegexp,
+      ].filter(Boolean).length + countAdvancedFilters(filters),
+    [selectedMonitorIds.length, selectedTagIds.length, filters, favoritesOnly]
   );
 
   return {
@@ -292,13 +427,18 @@ export function useEventFilters(): UseEventFiltersReturn {
     startDateInput,
     endDateInput,
     favoritesOnly,
+    advancedFilters,
+    quickSearchQuery: searchParams.get('q') ?? '',
     setSelectedMonitorIds,
     setSelectedTagIds,
     setStartDateInput,
     setEndDateInput,
     setFavoritesOnly,
+    setAdvancedFilters,
     applyFilters,
     clearFilters,
+    applySavedSearch,
+    applyQuickSearch,
     toggleMonitorSelection,
     toggleTagSelection,
     activeFilterCount,
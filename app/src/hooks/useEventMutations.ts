@@ -0,0 +1,131 @@
+/**
+ * useEventMutations Hook
+ *
+ * Mutations that modify ZoneMinder events from the app.
+ *
+ * Features:
+ * - Optimistic updates of the single event cache (['event', id])
+ * - Optimistic updates of every cached events list (['events', ...])
+ * - Automatic rollback when the server rejects the change
+ * - Success and failure toasts, shown even after the edit form has closed
+ */
+
+import { useMutation, useQueryClient, type QueryClient } from '@tanstack/react-query';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'sonner';
+import { updateEvent, type EventEditableFields } from '../api/events';
+import type { EventData, EventsResponse } from '../api/types';
+import { log, LogLevel } from '../lib/logger';
+
+export interface UpdateEventVariables {
+  eventId: string;
+  fields: EventEditableFields;
+}
+
+interface UpdateEventContext {
+  previousEvent: EventData | undefined;
+  previousLists: Array<[readonly unknown[], EventsResponse | undefined]>;
+}
+
+/**
+ * Apply field changes to one event inside an events list response.
+ * Returns the original object when the event is not in the list.
+ */
+function patchEventsResponse(
+  data: EventsResponse | undefined,
+  eventId: string,
+  fields: Partial<EventData['Event']>
+): EventsResponse | undefined {
+  if (!data || !Array.isArray(data.events)) return data;
+  if (!data.events.some(({ Event }) => Event.Id === eventId)) return data;
+  return {
+    ...data,
+    events: data.events.map((item) =>
+      item.Event.Id === eventId ? { ...item, Event: { ...item.Event, ...fields } } : item
+    ),
+  };
+}
+
+/**
+ * Write event field changes into the single-event and events list caches.
+ */
+export function applyEventFieldsToCache(
+  queryClient: QueryClient,
+  eventId: string,
+  fields: Partial<EventData['Event']>
+): void {
+  queryClient.setQueryData<EventData>(['event', eventId], (old) =>
+    old ? { ...old, Event: { ...old.Event, ...fields } } : old
+  );
+  queryClient.setQueriesData<EventsResponse>({ queryKey: ['events'] }, (old) =>
+    patchEventsResponse(old, eventId, fields)
+  );
+}
+
+/**
+ * Drop a deleted event from the single-event and events list caches.
+ */
+export function removeEventFromCache(queryClient: QueryClient, eventId: string): void {
+  queryClient.removeQueries({ queryKey: ['event', eventId], exact: true });
+  queryClient.setQueriesData<EventsResponse>({ queryKey: ['events'] }, (old) => {
+    if (!old || !Array.isArray(old.events)) return old;
+    if (!old.events.some(({ Event }) => Event.Id === eventId)) return old;
+    return {
+      ...old,
+      events: old.events.filter(({ Event }) => Event.Id !== eventId),
+      pagination: old.pagination?.totalCount
+        ? { ...old.pagination, totalCount: old.pagination.totalCount - 1 }
+        : old.pagination,
+    };
+  });
+}
+
+/**
+ * Hook to update an event's Name, Cause or Notes with optimistic cache updates.
+ *
+ * @returns React Query mutation for updating event fields
+ *
+ * @example
+ * ```typescript
+ * const updateEventMutation = useUpdateEvent();
+ * updateEventMutation.mutate({ eventId: '123', fields: { Notes: 'false alarm: spider' } });
+ * ```
+ */
+export function useUpdateEvent() {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+
+  return useMutation<EventData, Error, UpdateEventVariables, UpdateEventContext>({
+    mutationFn: ({ eventId, fields }) => updateEvent(eventId, fields),
+    onMutate: async ({ eventId, fields }) => {
+      // Stop in-flight refetches from overwriting the optimistic value
+      await queryClient.cancelQueries({ queryKey: ['event', eventId] });
+      await queryClient.cancelQueries({ queryKey: ['events'] });
+
+      const previousEvent = queryClient.getQueryData<EventData>(['event', eventId]);
+      const previousLists = queryClient.getQueriesData<EventsResponse>({ queryKey: ['events'] });
+
+      applyEventFieldsToCache(queryClient, eventId, fields);
+
+      return { previousEvent, previousLists };
+    },
+    onError: (error, { eventId }, context) => {
+      log.api('Event update failed, rolling back', LogLevel.WARN, { eventId, error: error.message });
+      toast.error(t('event_detail.edit_failed', { error: error.message }));
+      if (!context) return;
+      queryClient.setQueryData(['event', eventId], context.previousEvent);
+      context.previousLists.forEach(([queryKey, data]) => {
+        queryClient.setQueryData(queryKey, data);
+      });
+    },
+    onSuccess: (event, { eventId }) => {
+      // Replace optimistic values with what the server stored
+      applyEventFieldsToCache(queryClient, eventId, {
+        Name: event.Event.Name,
+        Cause: event.Event.Cause,
+        Notes: event.Event.Notes,
+      });
+      toast.success(t('event_detail.edit_saved'));
+    },
+  });
+}
@@ -0,0 +1,239 @@
+/**
+ * useEventScrubPreview Hook
+ *
+ * Scrub previews for event thumbnails. Hovering with a mouse, or
+ * long-pressing on touch, sweeps through frames sampled evenly across the
+ * event: the pointer's horizontal position picks the frame. The sampled
+ * frames are preloaded at thumbnail size shortly after a preview starts,
+ * with the frame count and image scale taken from the profile's bandwidth
+ * mode.
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { MouseEvent, PointerEvent } from 'react';
+import { getEventImageUrl } from '../api/events';
+import { getPreviewFrameIndex, getPreviewFrameNumbers } from '../lib/event-preview';
+import { useBandwidthSettings } from './useBandwidthSettings';
+
+/** How long a touch must be held before the preview starts */
+const LONG_PRESS_DELAY_MS = 400;
+
+/** Movement (px) that turns a pending long-press into a scroll */
+const LONG_PRESS_MOVE_TOLERANCE = 10;
+
+/** How long a preview must stay open before its frames are preloaded */
+const PRELOAD_DELAY_MS = 150;
+
+interface UseEventScrubPreviewOptions {
+  /** Portal URL; previews are disabled without it */
+  portalUrl?: string;
+  eventId: string;
+  /** Number of frames in the event */
+  totalFrames: number;
+  /** Thumbnail size in pixels */
+  width: number;
+  height: number;
+  token?: string;
+}
+
+export interface EventScrubPreviewHandlers {
+  onPointerEnter: (e: PointerEvent<HTMLElement>) => void;
+  onPointerMove: (e: PointerEvent<HTMLElement>) => void;
+  onPointerLeave: (e: PointerEvent<HTMLElement>) => void;
+  onPointerDown: (e: PointerEvent<HTMLElement>) => void;
+  onPointerUp: (e: PointerEvent<HTMLElement>) => void;
+  onPointerCancel: (e: PointerEvent<HTMLElement>) => void;
+  onContextMenu: (e: MouseEvent<HTMLElement>) => void;
+  onClickCapture: (e: MouseEvent<HTMLElement>) => void;
+}
+
+export interface EventScrubPreview {
+  isScrubbing: boolean;
+  /** Preloaded frame closest to the pointer; null until one has loaded */
+  frameUrl: string | null;
+  /** Position of the pointer's frame within the event, 0-1 */
+  position: number;
+  /** Spread onto the thumbnail element */
+  handlers: EventScrubPreviewHandlers;
+}
+
+interface PendingPress {
+  timer: ReturnType<typeof setTimeout>;
+  x: number;
+  y: number;
+}
+
+/**
+ * Hook providing hover/long-press scrub previews for an event thumbnail.
+ *
+ * @example
+ * ```tsx
+ * const preview = useEventScrubPreview({ portalUrl, eventId: event.Id, totalFrames: 120, width: 160, height: 120 });
+ * <div {...preview.handlers}>
+ *   <img src={preview.frameUrl ?? snapshotUrl} />
+ * </div>
+ * ```
+ */
+export function useEventScrubPreview({
+  portalUrl,
+  eventId,
+  totalFrames,
+  width,
+  height,
+  token,
+}: UseEventScrubPreviewOptions): EventScrubPreview {
+  const bandwidth = useBandwidthSettings();
+  const [isScrubbing, setIsScrubbing] = useState(false);
+  const [frameIndex, setFrameIndex] = useState(0);
+  const [loadedUrls, setLoadedUrls] = useState<Set<string>>(() => new Set());
+  const pressRef = useRef<PendingPress | null>(null);
+  const elementRef = useRef<HTMLElement | null>(null);
+  const suppressClickRef = useRef(false);
+
+  const frameUrls = useMemo(() => {
+    if (!portalUrl) return [];
+    const scale = bandwidth.imageScale / 100;
+    return getPreviewFrameNumbers(totalFrames, bandwidth.eventPreviewFrames).map((frame) =>
+      getEventImageUrl(portalUrl, eventId, frame, {
+        token,
+        width: Math.max(1, Math.round(width * scale)),
+        height: Math.max(1, Math.round(height * scale)),
+      })
+    );
+  }, [portalUrl, eventId, totalFrames, width, height, token, bandwidth.imageScale, bandwidth.eventPreviewFrames]);
+
+  // Preload the sampled frames once a preview has stayed open briefly, so
+  // moving the mouse across a list does not load every thumbnail it passes
+  useEffect(() => {
+    if (!isScrubbing) return;
+    let images: HTMLImageElement[] = [];
+    const timer = setTimeout(() => {
+      images = frameUrls.map((url) => {
+        const image = new Image();
+        image.onload = () => {
+          setLoadedUrls((prev) => (prev.has(url) ? prev : new Set(prev).add(url)));
+        };
+        image.src = url;
+        return image;
+      });
+    }, PRELOAD_DELAY_MS);
+    return () => {
+      clearTimeout(timer);
+      // Clearing the source stops downloads that have not finished
+      images.forEach((image) => {
+        image.onload = null;
+        image.src = '';
+      });
+    };
+  }, [isScrubbing, frameUrls]);
+
+  // Keep a touch scrub from scrolling the list underneath
+  useEffect(() => {
+    const element = elementRef.current;
+    if (!isScrubbing || !element) return;
+    const preventScroll = (e: TouchEvent) => e.preventDefault();
+    element.addEventListener('touchmove', preventScroll, { passive: false });
+    return () => element.removeEventListener('touchmove', preventScroll);
+  }, [isScrubbing]);
+
+  useEffect(
+    () => () => {
+      if (pressRef.current) clearTimeout(pressRef.current.timer);
+    },
+    []
+  );
+
+  const scrubTo = (element: HTMLElement, clientX: number) => {
+    const rect = element.getBoundingClientRect();
+    setFrameIndex(getPreviewFrameIndex(clientX - rect.left, rect.width, frameUrls.length));
+  };
+
+  const cancelPress = () => {
+    if (pressRef.current) {
+      clearTimeout(pressRef.current.timer);
+      pressRef.current = null;
+    }
+  };
+
+  const handlers: EventScrubPreviewHandlers = {
+    onPointerEnter: (e) => {
+      if (e.pointerType !== 'mouse' || frameUrls.length === 0) return;
+      setIsScrubbing(true);
+      scrubTo(e.currentTarget, e.clientX);
+    },
+    onPointerMove: (e) => {
+      const press = pressRef.current;
+      if (press && Math.hypot(e.clientX - press.x, e.clientY - press.y) > LONG_PRESS_MOVE_TOLERANCE) {
+        cancelPress();
+      }
+      if (isScrubbing) scrubTo(e.currentTarget, e.clientX);
+    },
+    onPointerLeave: (e) => {
+      if (e.pointerType === 'mouse') setIsScrubbing(false);
+    },
+    onPointerDown: (e) => {
+      suppressClickRef.current = false;
+      if (e.pointerType === 'mouse' || frameUrls.length === 0) return;
+      const element = e.currentTarget;
+      const { clientX, clientY, pointerId } = e;
+      elementRef.current = element;
+      cancelPress();
+      pressRef.current = {
+        x: clientX,
+        y: clientY,
+        timer: setTimeout(() => {
+          pressRef.current = null;
+          // The release after a preview must not open the event
+          suppressClickRef.current = true;
+          try {
+            element.setPointerCapture(pointerId);
+          } catch {
+            // Pointer already released
+          }
+          setIsScrubbing(true);
+          scrubTo(element, clientX);
+        }, LONG_PRESS_DELAY_MS),
+      };
+    },
+    onPointerUp: (e) => {
+      if (e.pointerType === 'mouse') return;
+      cancelPress();
+      setIsScrubbing(false);
+    },
+    onPointerCancel: () => {
+      cancelPress();
+      setIsScrubbing(false);
+    },
+    onContextMenu: (e) => {
+      // Long-press opens the context menu on touch devices
+      if (pressRef.current || isScrubbing) {
+        e.preventDefault();
+        e.stopPropagation();
+      }
+    },
+    onClickCapture: (e) => {
+      if (suppressClickRef.current) {
+        suppressClickRef.current = false;
+        e.preventDefault();
+        e.stopPropagation();
+      }
+    },
+  };
+
+  const index = Math.min(frameIndex, Math.max(0, frameUrls.length - 1));
+  let frameUrl: string | null = null;
+  if (isScrubbing) {
+    // Show the nearest frame that has loaded, preferring earlier ones
+    for (let offset = 0; offset < frameUrls.length && !frameUrl; offset++) {
+      const candidates = [frameUrls[index - offset], frameUrls[index + offset]];
+      frameUrl = candidates.find((url) => url !== undefined && loadedUrls.has(url)) ?? null;
+    }
+  }
+
+  return {
+    isScrubbing,
+    frameUrl,
+    position: frameUrls.length > 0 ? (index + 0.5) / frameUrls.length : 0,
+    handlers,
+  };
+}
@@ -0,0 +1,106 @@
+/**
+ * useEventSelection Hook
+ *
+ * Multi-select state for event lists and grids.
+ *
+ * Features:
+ * - Toggle single events
+ * - Shift-click range selection in display order
+ * - Select all shown events, or an explicit list (e.g. all events matching the filter)
+ */
+
+import { useCallback, useMemo, useRef, useState } from 'react';
+
+export interface ToggleSelectionOptions {
+  /** Select every event between the last toggled event and this one */
+  range?: boolean;
+}
+
+export interface UseEventSelectionReturn {
+  selectedIds: Set<string>;
+  selectedCount: number;
+  isSelected: (eventId: string) => boolean;
+  toggle: (eventId: string, options?: ToggleSelectionOptions) => void;
+  selectIds: (eventIds: string[]) => void;
+  selectAll: () => void;
+  clear: () => void;
+}
+
+/**
+ * Get the IDs between two events (inclusive) in display order.
+ * Returns null when either event is not shown.
+ */
+export function getSelectionRange(orderedIds: string[], anchorId: string, targetId: string): string[] | null {
+  const anchorIndex = orderedIds.indexOf(anchorId);
+  const targetIndex = orderedIds.indexOf(targetId);
+  if (anchorIndex === -1 || targetIndex === -1) return null;
+  const [start, end] = anchorIndex < targetIndex ? [anchorIndex, targetIndex] : [targetIndex, anchorIndex];
+  return orderedIds.slice(start, end + 1);
+}
+
+/**
+ * Hook to manage selected events.
+ *
+ * @param orderedIds - IDs of the shown events in display order
+ *
+ * @example
+ * ```typescript
+ * const selection = useEventSelection(events.map(({ Event }) => Event.Id));
+ * selection.toggle('123', { range: e.shiftKey });
+ * ```
+ */
+export function useEventSelection(orderedIds: string[]): UseEventSelectionReturn {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
+  const anchorRef = useRef<string | null>(null);
+
+  const toggle = useCallback(
+    (eventId: string, options: ToggleSelectionOptions = {}) => {
+      const anchorId = anchorRef.current;
+      const range = options.range && anchorId ? getSelectionRange(orderedIds, anchorId, eventId) : null;
+      anchorRef.current = eventId;
+
+      setSelectedIds((prev) => {
+        const next = new Set(prev);
+        if (range) {
+          // Range follows the state of the anchor, like file managers do
+          const select = prev.has(anchorId!);
+          range.forEach((id) => (select ? next.add(id) : next.delete(id)));
+        } else if (next.has(eventId)) {
+          next.delete(eventId);
+        } else {
+          next.add(eventId);
+        }
+        return next;
+      });
+    },
+    [orderedIds]
+  );
+
+  const selectIds = useCallback((eventIds: string[]) => {
+    setSelectedIds(new Set(eventIds));
+  }, []);
+
+  const selectAll = useCallback(() => {
+    setSelectedIds(new Set(orderedIds));
+  }, [orderedIds]);
+
+  const clear = useCallback(() => {
+    anchorRef.current = null;
+    setSelectedIds((prev) => (prev.size === 0 ? prev : new Set()));
+  }, []);
+
+  const isSelected = useCallback((eventId: string) => selectedIds.has(eventId), [selectedIds]);
+
+  return useMemo(
+    () => ({
+      selectedIds,
+      selectedCount: selectedIds.size,
+      isSelected,
+      toggle,
+      selectIds,
+      selectAll,
+      clear,
+    }),
+    [selectedIds, isSelected, toggle, selectIds, selectAll, clear]
+  );
+}
@@ -9,14 +9,25 @@
  * - Fetches available tags list
  * - Fetches tags for specific events with automatic batching
  * - Caches data via React Query
+ * - Tag management and event tag assignment mutations
  */
 
 import { useCallback, useMemo } from 'react';
-import { useQuery } from '@tanstack/react-query';
-import { getTags, getEventTags, extractUniqueTags } from '../api/tags';
+import { useMutation, useQuery, useQueryClient, type QueryClient } from '@tanstack/react-query';
+import {
+  getTags,
+  getEventTags,
+  extractUniqueTags,
+  createTag,
+  renameTag,
+  deleteTag,
+  assignTagToEvent,
+  unassignTagFromEvent,
+} from '../api/tags';
 import { useCurrentProfile } from './useCurrentProfile';
 import { useAuthStore } from '../stores/auth';
 import type { Tag } from '../api/types';
+import { log, LogLevel } from '../lib/logger';
 
 export interface UseEventTagsReturn {
   /** All available tags */
@@ -157,3 +168,172 @@ export function useEventTagMapping(options: UseEventTagMappingOptions): UseEvent
     getTagsForEvent,
   };
 }
+
+/**
+ * Hook to create a tag. Refreshes the available tags list on success.
+ *
+ * @example
+ * ```typescript
+ * const createTagMutation = useCreateTag();
+ * const tag = await createTagMutation.mutateAsync('delivery');
+ * ```
+ */
+export function useCreateTag() {
+  const queryClient = useQueryClient();
+
+  return useMutation<Tag, Error, string>({
+    mutationFn: (name) => createTag(name),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['tags'] });
+    },
+  });
+}
+
+export interface RenameTagVariables {
+  tagId: string;
+  name: string;
+}
+
+/**
+ * Hook to rename a tag. Refreshes the tags list and event tag mappings on success.
+ */
+export function useRenameTag() {
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, RenameTagVariables>({
+    mutationFn: ({ tagId, name }) => renameTag(tagId, name),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['tags'] });
+      queryClient.invalidateQueries({ queryKey: ['eventTags'] });
+    },
+  });
+}
+
+/**
+ * Hook to delete a tag. Refreshes the tags list and event tag mappings on success.
+ */
+export function useDeleteTag() {
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, string>({
+    mutationFn: (tagId) => deleteTag(tagId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['tags'] });
+      queryClient.invalidateQueries({ queryKey: ['eventTags'] });
+    },
+  });
+}
+
+export interface EventTagMutationVariables {
+  /** Events to update */
+  eventIds: string[];
+  /** Tag to assign or remove */
+  tag: Tag;
+}
+
+export interface EventTagMutationResult {
+  /** Events that were updated (or already in the requested state) */
+  succeeded: string[];
+  /** Events the server failed to update */
+  failed: string[];
+}
+
+type EventTagMap = Map<string, Tag[]> | null;
+
+interface EventTagMutationContext {
+  previousMaps: Array<[readonly unknown[], EventTagMap | undefined]>;
+}
+
+/**
+ * Rewrite the tags of the given events in every cached event tag mapping.
+ * Only mappings whose query covered the event are touched.
+ */
+export function patchEventTagCaches(
+  queryClient: QueryClient,
+  eventIds: string[],
+  update: (tags: Tag[]) => Tag[]
+): void {
+  queryClient.getQueriesData<EventTagMap>({ queryKey: ['eventTags'] }).forEach(([queryKey, data]) => {
+    if (!(data instanceof Map)) return;
+    const coveredIds = Array.isArray(queryKey[2]) ? (queryKey[2] as string[]) : [];
+    const affected = eventIds.filter((id) => coveredIds.includes(id) || data.has(id));
+    if (affected.length === 0) return;
+
+    const next = new Map(data);
+    affected.forEach((eventId) => {
+      const tags = update(next.get(eventId) ?? []);
+      if (tags.length > 0) {
+        next.set(eventId, tags);
+      } else {
+        next.delete(eventId);
+      }
+    });
+    queryClient.setQueryData(queryKey, next);
+  });
+}
+
+function useEventTagMutation(mode: 'assign' | 'unassign') {
+  const queryClient = useQueryClient();
+  const request = mode === 'assign' ? assignTagToEvent : unassignTagFromEvent;
+
+  return useMutation<EventTagMutationResult, Error, EventTagMutationVariables, EventTagMutationContext>({
+    mutationFn: async ({ eventIds, tag }) => {
+      const result: EventTagMutationResult = { succeeded: [], failed: [] };
+      // Sequential requests keep the load on the server predictable
+      for (const eventId of eventIds) {
+        try {
+          await request(eventId, tag.Id);
+          result.succeeded.push(eventId);
+        } catch (error) {
+          log.api(`Failed to ${mode} tag`, LogLevel.WARN, { eventId, tagId: tag.Id, error });
+          result.failed.push(eventId);
+        }
+      }
+      if (result.succeeded.length === 0 && result.failed.length > 0) {
+        throw new Error(`Failed to ${mode} tag "${tag.Name}"`);
+      }
+      return result;
+    },
+    onMutate: async ({ eventIds, tag }) => {
+      await queryClient.cancelQueries({ queryKey: ['eventTags'] });
+      const previousMaps = queryClient.getQueriesData<EventTagMap>({ queryKey: ['eventTags'] });
+
+      patchEventTagCaches(queryClient, eventIds, (tags) => {
+        const withoutTag = tags.filter((t) => t.Id !== tag.Id);
+        return mode === 'assign' ? [...withoutTag, tag] : withoutTag;
+      });
+
+      return { previousMaps };
+    },
+    onError: (_error, _variables, context) => {
+      context?.previousMaps.forEach(([queryKey, data]) => {
+        queryClient.setQueryData(queryKey, data);
+      });
+    },
+    onSettled: () => {
+      // Partial failures and LastAssignedDate are only known to the server
+      queryClient.invalidateQueries({ queryKey: ['eventTags'] });
+      queryClient.invalidateQueries({ queryKey: ['tags'] });
+    },
+  });
+}
+
+/**
+ * Hook to assign a tag to one or more events, with optimistic cache updates.
+ *
+ * @example
+ * ```typescript
+ * const assignTag = useAssignEventTag();
+ * assignTag.mutate({ eventIds: ['123', '124'], tag });
+ * ```
+ */
+export function useAssignEventTag() {
+  return useEventTagMutation('assign');
+}
+
+/**
+ * Hook to remove a tag from one or more events, with optimistic cache updates.
+ */
+export function useUnassignEventTag() {
+  return useEventTagMutation('unassign');
+}
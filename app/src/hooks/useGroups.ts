@@ -9,14 +9,16 @@
  * - Builds hierarchical group structure
  * - Provides utility to get all monitor IDs for a group (including children)
  * - Consistent query key with profile ID
+ * - Group create/update/delete mutations
  */
 
 import { useCallback } from 'react';
-import { useQuery } from '@tanstack/react-query';
-import { getGroups } from '../api/groups';
+import { useMutation, useQuery, useQueryClient, type QueryClient } from '@tanstack/react-query';
+import { createGroup, deleteGroup, getGroups, updateGroup, type GroupInput } from '../api/groups';
 import { useCurrentProfile } from './useCurrentProfile';
 import { useAuthStore } from '../stores/auth';
 import type { GroupData } from '../api/types';
+import { getDescendantGroupIds } from '../lib/filters';
 
 export interface UseGroupsReturn {
   /** All groups */
@@ -33,21 +35,6 @@ export interface UseGroupsReturn {
   hasGroups: boolean;
 }
 
-/**
- * Recursively get all child group IDs for a parent group.
- */
-function getChildGroupIds(groupId: string, groups: GroupData[]): string[] {
-  const childIds: string[] = [];
-  const directChildren = groups.filter((g) => g.Group.ParentId === groupId);
-
-  for (const child of directChildren) {
-    childIds.push(child.Group.Id);
-    childIds.push(...getChildGroupIds(child.Group.Id, groups));
-  }
-
-  return childIds;
-}
-
 /**
  * Hook to fetch monitor groups.
  *
@@ -92,7 +79,7 @@ export function useGroups(): UseGroupsReturn {
       );
 
       // Get all child group IDs recursively
-      const childGroupIds = getChildGroupIds(groupId, groups);
+      const childGroupIds = getDescendantGroupIds(groupId, groups);
 
       // Add monitor IDs from all child groups
       for (const childId of childGroupIds) {
@@ -118,3 +105,53 @@ export function useGroups(): UseGroupsReturn {
     hasGroups,
   };
 }
+
+/**
+ * Refresh everything derived from groups: every group filter (they all read
+ * the ['groups'] query) and the GroupIds on monitors.
+ */
+function invalidateGroupQueries(queryClient: QueryClient) {
+  queryClient.invalidateQueries({ queryKey: ['groups'] });
+  queryClient.invalidateQueries({ queryKey: ['monitors'] });
+}
+
+/**
+ * Hook to create a group.
+ */
+export function useCreateGroup() {
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, GroupInput & { name: string }>({
+    mutationFn: (group) => createGroup(group),
+    onSuccess: () => invalidateGroupQueries(queryClient),
+  });
+}
+
+export interface UpdateGroupVariables {
+  groupId: string;
+  group: GroupInput;
+}
+
+/**
+ * Hook to rename, re-parent or change the members of a group.
+ */
+export function useUpdateGroup() {
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, UpdateGroupVariables>({
+    mutationFn: ({ groupId, group }) => updateGroup(groupId, group),
+    onSuccess: () => invalidateGroupQueries(queryClient),
+  });
+}
+
+/**
+ * Hook to delete a group.
+ */
+export function useDeleteGroup() {
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, string>({
+    mutationFn: (groupId) => deleteGroup(groupId),
+    onSuccess: () => invalidateGroupQueries(queryClient),
+  });
+}
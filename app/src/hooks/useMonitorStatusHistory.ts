@@ -0,0 +1,45 @@
+/**
+ * Monitor Status History Hooks
+ *
+ * useMonitorStatusSampler records every monitor status poll into the
+ * history store. useMonitorStatusSamples reads one monitor's history for the
+ * current profile.
+ */
+
+import { useEffect } from 'react';
+import { useMonitors } from './useMonitors';
+import { useCurrentProfile } from './useCurrentProfile';
+import { useMonitorStatusHistoryStore } from '../stores/monitorStatusHistory';
+import type { MonitorStatusSample } from '../lib/monitor-status-history';
+
+const NO_SAMPLES: MonitorStatusSample[] = [];
+
+/**
+ * Samples monitor statuses at the bandwidth mode's monitor status interval.
+ * Should be mounted once at the root of the application (e.g., in App.tsx).
+ * Its monitors query is shared with every screen and the health watchdog, so
+ * the status is still fetched once per interval.
+ */
+export function useMonitorStatusSampler(): void {
+  const { currentProfile } = useCurrentProfile();
+  const { monitors, dataUpdatedAt } = useMonitors();
+  const recordStatuses = useMonitorStatusHistoryStore((state) => state.recordStatuses);
+  const profileId = currentProfile?.id;
+
+  useEffect(() => {
+    if (!profileId || !dataUpdatedAt || monitors.length === 0) return;
+    recordStatuses(profileId, monitors, dataUpdatedAt);
+  }, [profileId, monitors, dataUpdatedAt, recordStatuses]);
+}
+
+/**
+ * Status samples of a monitor for the current profile, oldest first.
+ */
+export function useMonitorStatusSamples(monitorId: string): MonitorStatusSample[] {
+  const { currentProfile } = useCurrentProfile();
+  const profileId = currentProfile?.id;
+
+  return useMonitorStatusHistoryStore((state) =>
+    profileId ? state.profileHistory[profileId]?.[monitorId] ?? NO_SAMPLES : NO_SAMPLES
+  );
+}
@@ -39,6 +39,8 @@ export interface UseMonitorsReturn {
   isLoading: boolean;
   /** Error state */
   error: Error | null;
+  /** Time of the last successful fetch in ms (0 before the first) */
+  dataUpdatedAt: number;
   /** Refetch function */
   refetch: () => void;
 }
@@ -59,7 +61,7 @@ export function useMonitors(options?: UseMonitorsOptions): UseMonitorsReturn {
   const bandwidth = useBandwidthSettings();
   const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
 
-  const { data, isLoading, error, refetch } = useQuery({
+  const { data, isLoading, error, refetch, dataUpdatedAt } = useQuery({
     queryKey: ['monitors', currentProfile?.id],
     queryFn: getMonitors,
     enabled: (options?.enabled ?? true) && !!currentProfile?.id && isAuthenticated,
@@ -84,6 +86,7 @@ export function useMonitors(options?: UseMonitorsOptions): UseMonitorsReturn {
     enabledMonitorIds,
     isLoading,
     error: error as Error | null,
+    dataUpdatedAt,
     refetch,
   };
 }
@@ -0,0 +1,125 @@
+/**
+ * useReviewClock Hook
+ *
+ * Shared playback clock for the Timeline review mode. All review tiles follow
+ * this clock, so one scrubber and one play/pause/speed control drive every
+ * monitor at once.
+ *
+ * The clock covers a window around the picked moment. Jumping to a moment
+ * outside the window recenters it; seeking with the scrubber stays inside it.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { TIMELINE } from '../lib/zmng-constants';
+
+export interface ReviewWindow {
+  start: number;
+  end: number;
+}
+
+export interface ReviewClock {
+  /** Current moment in epoch milliseconds */
+  time: number;
+  /** Scrubber range */
+  window: ReviewWindow;
+  isPlaying: boolean;
+  speed: number;
+  play: () => void;
+  pause: () => void;
+  togglePlay: () => void;
+  /** Move within the current window */
+  seek: (time: number) => void;
+  /** Move to any moment, recentering the window if needed */
+  jumpTo: (time: number) => void;
+  setSpeed: (speed: number) => void;
+}
+
+const centerWindow = (time: number): ReviewWindow => ({
+  start: time - TIMELINE.reviewWindowMs / 2,
+  end: time + TIMELINE.reviewWindowMs / 2,
+});
+
+/**
+ * Hook providing the review playback clock.
+ *
+ * @param initialTime - Moment to start at, in epoch milliseconds (default: now)
+ *
+ * @example
+ * ```typescript
+ * const clock = useReviewClock(Date.parse('2024-01-15T10:30:00'));
+ * clock.play();
+ * ```
+ */
+export function useReviewClock(initialTime?: number): ReviewClock {
+  const [time, setTime] = useState(() => initialTime ?? Date.now());
+  const [reviewWindow, setReviewWindow] = useState<ReviewWindow>(() => centerWindow(time));
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  // Read by the ticker without restarting it on every tick
+  const timeRef = useRef(time);
+  const windowRef = useRef(reviewWindow);
+
+  const updateTime = useCallback((next: number) => {
+    timeRef.current = next;
+    setTime(next);
+  }, []);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    let last = performance.now();
+    const interval = setInterval(() => {
+      const now = performance.now();
+      const next = Math.min(timeRef.current + (now - last) * speed, windowRef.current.end);
+      last = now;
+      updateTime(next);
+      if (next >= windowRef.current.end) {
+        setIsPlaying(false);
+      }
+    }, TIMELINE.reviewTickMs);
+
+    return () => clearInterval(interval);
+  }, [isPlaying, speed, updateTime]);
+
+  const seek = useCallback(
+    (next: number) => {
+      const { start, end } = windowRef.current;
+      updateTime(Math.min(end, Math.max(start, next)));
+    },
+    [updateTime]
+  );
+
+  const jumpTo = useCallback(
+    (next: number) => {
+      const { start, end } = windowRef.current;
+      if (next < start || next > end) {
+        const centered = centerWindow(next);
+        windowRef.current = centered;
+        setReviewWindow(centered);
+      }
+      updateTime(next);
+    },
+    [updateTime]
+  );
+
+  const play = useCallback(() => {
+    // Restart from the beginning when the end of the window was reached
+    if (timeRef.current >= windowRef.current.end) {
+      updateTime(windowRef.current.start);
+    }
+    setIsPlaying(true);
+  }, [updateTime]);
+
+  const pause = useCallback(() => setIsPlaying(false), []);
+
+  const togglePlay = useCallback(() => {
+    if (isPlaying) {
+      pause();
+    } else {
+      play();
+    }
+  }, [isPlaying, play, pause]);
+
+  return { time, window: reviewWindow, isPlaying, speed, play, pause, togglePlay, seek, jumpTo, setSpeed };
+}
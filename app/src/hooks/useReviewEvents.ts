@@ -0,0 +1,56 @@
+/**
+ * useReviewEvents Hook
+ *
+ * Loads the recordings that Timeline review mode plays: every event of the
+ * reviewed monitors around the review window. The timeline's own list is
+ * limited and follows the active search, so it can miss recordings; review
+ * has to show each monitor as it really recorded. Jumping outside the window
+ * recenters it, which loads the events of the new window.
+ */
+
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
+import { getEvents } from '../api/events';
+import type { EventData } from '../api/types';
+import type { ReviewWindow } from './useReviewClock';
+import { formatForServer } from '../lib/time';
+import { TIMELINE } from '../lib/zmng-constants';
+
+interface UseReviewEventsOptions {
+  /** Monitors to load; all monitors when empty */
+  monitorIds: string[];
+  reviewWindow: ReviewWindow;
+  enabled: boolean;
+}
+
+const NO_EVENTS: EventData[] = [];
+
+/**
+ * Hook loading the events covering a review window.
+ *
+ * @example
+ * ```typescript
+ * const events = useReviewEvents({ monitorIds: ['1', '2'], reviewWindow: clock.window, enabled: true });
+ * ```
+ */
+export function useReviewEvents({ monitorIds, reviewWindow, enabled }: UseReviewEventsOptions): EventData[] {
+  const monitorFilter = monitorIds.length > 0 ? monitorIds.join(',') : undefined;
+
+  const { data } = useQuery({
+    queryKey: ['review-events', monitorFilter, reviewWindow.start, reviewWindow.end],
+    queryFn: () =>
+      getEvents({
+        monitorId: monitorFilter,
+        // Events that started a while before the window may still be recording in it
+        startDateTime: formatForServer(new Date(reviewWindow.start - TIMELINE.reviewLookbackMs)),
+        endDateTime: formatForServer(new Date(reviewWindow.end)),
+        sort: 'StartDateTime',
+        direction: 'asc',
+        limit: TIMELINE.reviewEventLimit,
+      }),
+    enabled,
+    // Keep the last window's tiles while the next window loads
+    placeholderData: keepPreviousData,
+  });
+
+  return data?.events ?? NO_EVENTS;
+}
@@ -0,0 +1,70 @@
+/**
+ * Zoom Views Hook
+ *
+ * The digital zoom of a monitor's live view or recorded events, and its saved
+ * zoom views, for the current profile.
+ */
+
+import { useCallback } from 'react';
+import { toast } from 'sonner';
+import { useTranslation } from 'react-i18next';
+import { useCurrentProfile } from './useCurrentProfile';
+import { useZoomViewsStore, type ZoomSource } from '../stores/zoomViews';
+import { FULL_CROP, normalizeViewName, type ZoomCrop, type ZoomView } from '../lib/digital-zoom';
+
+const NO_VIEWS: ZoomView[] = [];
+
+export function useZoomViews(monitorId: string, source: ZoomSource = 'live') {
+  const { t } = useTranslation();
+  const { currentProfile } = useCurrentProfile();
+  const profileId = currentProfile?.id;
+
+  const crop = useZoomViewsStore((state) => {
+    const zoom = profileId ? state.profileZoom[profileId]?.[monitorId] : undefined;
+    return (source === 'live' ? zoom?.crop : zoom?.recordedCrop) ?? FULL_CROP;
+  });
+  const views = useZoomViewsStore((state) =>
+    profileId ? state.profileZoom[profileId]?.[monitorId]?.views ?? NO_VIEWS : NO_VIEWS
+  );
+  const setStoredCrop = useZoomViewsStore((state) => state.setCrop);
+  const saveStoredView = useZoomViewsStore((state) => state.saveView);
+  const updateStoredView = useZoomViewsStore((state) => state.updateView);
+  const removeStoredView = useZoomViewsStore((state) => state.removeView);
+
+  const setCrop = useCallback(
+    (next: ZoomCrop) => {
+      if (!profileId || !monitorId) return;
+      setStoredCrop(profileId, monitorId, next, source);
+    },
+    [profileId, monitorId, source, setStoredCrop]
+  );
+
+  const saveView = useCallback(
+    (name: string, viewCrop: ZoomCrop) => {
+      const normalized = normalizeViewName(name);
+      if (!profileId || !monitorId || !normalized) return;
+      saveStoredView(profileId, monitorId, normalized, viewCrop);
+      toast.success(t('zoom.view_saved', { name: normalized }));
+    },
+    [profileId, monitorId, saveStoredView, t]
+  );
+
+  const removeView = useCallback(
+    (viewId: string) => {
+      if (!profileId || !monitorId) return;
+      removeStoredView(profileId, monitorId, viewId);
+    },
+    [profileId, monitorId, removeStoredView]
+  );
+
+  const toggleMontage = useCallback(
+    (viewId: string) => {
+      if (!profileId || !monitorId) return;
+      const view = views.find((item) => item.id === viewId);
+      updateStoredView(profileId, monitorId, viewId, { montage: !view?.montage });
+    },
+    [profileId, monitorId, views, updateStoredView]
+  );
+
+  return { crop, views, setCrop, saveView, removeView, toggleMontage };
+}
@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { runBulkTask } from '../bulk-tasks';
+import { useBackgroundTasks } from '../../stores/backgroundTasks';
+
+vi.mock('../logger', () => ({
+  log: {
+    app: vi.fn(),
+  },
+  LogLevel: {
+    DEBUG: 0,
+    INFO: 1,
+    WARN: 2,
+    ERROR: 3,
+    NONE: 4,
+  },
+}));
+
+const getTask = (taskId: string) => useBackgroundTasks.getState().tasks.find((task) => task.id === taskId);
+
+describe('runBulkTask', () => {
+  beforeEach(() => {
+    useBackgroundTasks.setState({ tasks: [], drawerState: 'hidden' });
+  });
+
+  it('processes every item and completes the task', async () => {
+    const action = vi.fn().mockResolvedValue(undefined);
+    const onItemSuccess = vi.fn();
+
+    const { taskId, done } = runBulkTask({
+      title: 'Archive 3 events',
+      itemIds: ['1', '2', '3'],
+      action,
+      onItemSuccess,
+    });
+    const result = await done;
+
+    expect(action).toHaveBeenCalledTimes(3);
+    expect(onItemSuccess).toHaveBeenCalledTimes(3);
+    expect(result).toEqual({ succeeded: ['1', '2', '3'], failed: [], cancelled: false });
+    expect(getTask(taskId)?.status).toBe('completed');
+    expect(getTask(taskId)?.items).toEqual({ total: 3, succeeded: 3, failed: [] });
+  });
+
+  it('keeps going after failures and retries only the failed items', async () => {
+    const action = vi.fn(async (itemId: string) => {
+      if (itemId === '2') throw new Error('Forbidden');
+    });
+
+    const { taskId, done } = runBulkTask({
+      title: 'Delete 3 events',
+      itemIds: ['1', '2', '3'],
+      action,
+      concurrency: 1,
+    });
+    const result = await done;
+
+    expect(result.succeeded).toEqual(['1', '3']);
+    expect(result.failed).toEqual([{ id: '2', error: 'Forbidden' }]);
+    expect(getTask(taskId)?.status).toBe('failed');
+    expect(getTask(taskId)?.error?.message).toBe('1 of 3 items failed');
+
+    action.mockClear();
+    action.mockResolvedValue(undefined);
+    useBackgroundTasks.getState().retryTask(taskId);
+
+    expect(getTask(taskId)).toBeUndefined();
+    const [retried] = useBackgroundTasks.getState().tasks;
+    expect(retried.items?.total).toBe(1);
+    await vi.waitFor(() => expect(getTask(retried.id)?.status).toBe('completed'));
+    expect(action).toHaveBeenCalledOnce();
+    expect(action).toHaveBeenCalledWith('2', expect.any(AbortSignal));
+  });
+
+  it('stops picking up items once cancelled', async () => {
+    let releaseFirst: () => void = () => {};
+    const firstGate = new Promise<void>((resolve) => { releaseFirst = resolve; });
+    const action = vi.fn(async (itemId: string) => {
+      if (itemId === '1') await firstGate;
+    });
+    const onFinish = vi.fn();
+
+    const { taskId, done } = runBulkTask({
+      title: 'Download 3 events',
+      itemIds: ['1', '2', '3'],
+      action,
+      concurrency: 1,
+      onFinish,
+    });
+
+    useBackgroundTasks.getState().cancelTask(taskId);
+    releaseFirst();
+    const result = await done;
+
+    expect(action).toHaveBeenCalledOnce();
+    expect(result.cancelled).toBe(true);
+    expect(result.succeeded).toEqual([]);
+    expect(getTask(taskId)?.status).toBe('cancelled');
+    expect(onFinish).toHaveBeenCalledWith(result);
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import type { MonitorData } from '../../api/types';
+import {
+  evaluateCameraHealth,
+  getExpectedDaemons,
+  isDaemonRunning,
+  isMonitorWatched,
+  observeCameraHealth,
+  type CameraHealthObservation,
+} from '../camera-health';
+
+const monitorData = (
+  status: { Status?: string; CaptureFPS?: string | null } = { Status: 'Connected', CaptureFPS: '10.00' },
+  monitor: { Function?: string; Enabled?: string } = {}
+): MonitorData =>
+  ({
+    Monitor: { Id: '1', Name: 'Front Door', Function: 'Modect', Enabled: '1', ...monitor },
+    Monitor_Status: { MonitorId: '1', ...status },
+  }) as unknown as MonitorData;
+
+const observation = (issue: CameraHealthObservation['issue']): CameraHealthObservation => ({
+  monitorId: '1',
+  monitorName: 'Front Door',
+  issue,
+});
+
+describe('isMonitorWatched', () => {
+  it('skips monitors that are not meant to capture', () => {
+    expect(isMonitorWatched(monitorData())).toBe(true);
+    expect(isMonitorWatched(monitorData(undefined, { Function: 'None' }))).toBe(false);
+    expect(isMonitorWatched(monitorData(undefined, { Enabled: '0' }))).toBe(false);
+  });
+});
+
+describe('getExpectedDaemons', () => {
+  it('expects zma only for analysing functions', () => {
+    expect(getExpectedDaemons(monitorData())).toEqual(['zmc', 'zma']);
+    expect(getExpectedDaemons(monitorData(undefined, { Function: 'Record' }))).toEqual(['zmc']);
+  });
+});
+
+describe('isDaemonRunning', () => {
+  it('reads the zmdc status text', () => {
+    expect(isDaemonRunning("'zmc -m 1' running since 19/10/26 10:00:00, pid = 123")).toBe(true);
+    expect(isDaemonRunning("'zmc -m 1' not running")).toBe(false);
+    expect(isDaemonRunning(undefined)).toBe(false);
+  });
+});
+
+describe('observeCameraHealth', () => {
+  it('reports offline, stalled and dead daemon monitors', () => {
+    expect(observeCameraHealth(monitorData(), null).issue).toBeNull();
+    expect(observeCameraHealth(monitorData({ Status: 'NotRunning' }), null).issue).toBe('offline');
+    expect(observeCameraHealth(monitorData({ Status: 'Connected', CaptureFPS: '0.00' }), null).issue).toBe('stalled');
+    expect(observeCameraHealth(monitorData({ Status: 'NotRunning' }), 'zmc')).toMatchObject({
+      issue: 'daemon',
+      daemon: 'zmc',
+    });
+  });
+
+  it('does not guess without a status', () => {
+    expect(observeCameraHealth(monitorData({ Status: 'Connected', CaptureFPS: null }), null).issue).toBeNull();
+    expect(observeCameraHealth(monitorData({}), null).issue).toBeNull();
+  });
+});
+
+describe('evaluateCameraHealth', () => {
+  const grace = 60_000;
+
+  it('alerts once an issue outlasts the grace period', () => {
+    const first = evaluateCameraHealth({}, [observation('offline')], 0, grace);
+    expect(first.notices).toEqual([]);
+
+    const second = evaluateCameraHealth(first.states, [observation('offline')], 30_000, grace);
+    expect(second.notices).toEqual([]);
+
+    const third = evaluateCameraHealth(second.states, [observation('offline')], 60_000, grace);
+    expect(third.notices).toEqual([
+      { monitorId: '1', monitorName: 'Front Door', issue: 'offline', daemon: undefined, status: 'alert' },
+    ]);
+
+    // No repeat while the issue lasts
+    expect(evaluateCameraHealth(third.states, [observation('offline')], 90_000, grace).notices).toEqual([]);
+  });
+
+  it('stays quiet when the camera recovers within the grace period', () => {
+    const first = evaluateCameraHealth({}, [observation('offline')], 0, grace);
+    const second = evaluateCameraHealth(first.states, [observation(null)], 30_000, grace);
+    const third = evaluateCameraHealth(second.states, [observation('offline')], 60_000, grace);
+
+    expect(second.notices).toEqual([]);
+    expect(third.notices).toEqual([]);
+  });
+
+  it('reports recovery after an alert', () => {
+    const alerted = evaluateCameraHealth(
+      evaluateCameraHealth({}, [observation('stalled')], 0, grace).states,
+      [observation('stalled')],
+      60_000,
+      grace
+    );
+    const recovered = evaluateCameraHealth(alerted.states, [observation(null)], 80_000, grace);
+
+    expect(recovered.notices).toEqual([
+      { monitorId: '1', monitorName: 'Front Door', issue: 'stalled', daemon: undefined, status: 'recovered' },
+    ]);
+  });
+
+  it('does not alert twice when the issue changes', () => {
+    const alerted = evaluateCameraHealth(
+      evaluateCameraHealth({}, [observation('stalled')], 0, grace).states,
+      [observation('stalled')],
+      60_000,
+      grace
+    );
+
+    expect(evaluateCameraHealth(alerted.states, [observation('offline')], 120_000, grace).notices).toEqual([]);
+  });
+
+  it('drops monitors that are no longer observed', () => {
+    const { states } = evaluateCameraHealth({}, [observation('offline')], 0, grace);
+
+    expect(evaluateCameraHealth(states, [], 60_000, grace).states).toEqual({});
+  });
+});
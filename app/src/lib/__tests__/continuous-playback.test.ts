@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import type { EventData } from '../../api/types';
+import {
+  getGapSeconds,
+  getPlaybackSpanRange,
+  getPlaylistNeighbours,
+  getPlaylistPosition,
+  getPlaylistSegments,
+  sortPlaylist,
+} from '../continuous-playback';
+
+const makeEvent = (id: string, start: string, end: string, length = '60') =>
+  ({
+    Event: {
+      Id: id,
+      MonitorId: '1',
+      StartDateTime: start,
+      EndDateTime: end,
+      Length: length,
+    },
+  }) as unknown as EventData;
+
+const at = (value: string) => new Date(value).getTime();
+
+const hour = { start: at('2024-01-15T10:00:00'), end: at('2024-01-15T11:00:00') };
+
+describe('getPlaybackSpanRange', () => {
+  it('returns the hour containing a moment', () => {
+    expect(getPlaybackSpanRange(at('2024-01-15T10:42:13'), 'hour')).toEqual(hour);
+  });
+
+  it('returns the day containing a moment', () => {
+    expect(getPlaybackSpanRange(at('2024-01-15T10:42:13'), 'day')).toEqual({
+      start: at('2024-01-15T00:00:00'),
+      end: at('2024-01-16T00:00:00'),
+    });
+  });
+});
+
+describe('sortPlaylist', () => {
+  it('sorts events chronologically and drops duplicates', () => {
+    const first = makeEvent('1', '2024-01-15 10:00:00', '2024-01-15 10:01:00');
+    const second = makeEvent('2', '2024-01-15 10:05:00', '2024-01-15 10:06:00');
+    expect(sortPlaylist([second, first, second]).map(({ Event }) => Event.Id)).toEqual(['1', '2']);
+  });
+});
+
+describe('getPlaylistNeighbours', () => {
+  const playlist = [
+    makeEvent('1', '2024-01-15 10:00:00', '2024-01-15 10:01:00'),
+    makeEvent('2', '2024-01-15 10:05:00', '2024-01-15 10:06:00'),
+    makeEvent('3', '2024-01-15 10:10:00', '2024-01-15 10:11:00'),
+  ];
+
+  it('returns the events around an event', () => {
+    const { previous, next } = getPlaylistNeighbours(playlist, '2');
+    expect(previous?.Event.Id).toBe('1');
+    expect(next?.Event.Id).toBe('3');
+  });
+
+  it('returns null at the ends of the playlist', () => {
+    expect(getPlaylistNeighbours(playlist, '1').previous).toBeNull();
+    expect(getPlaylistNeighbours(playlist, '3').next).toBeNull();
+    expect(getPlaylistNeighbours(playlist, '9')).toEqual({ previous: null, next: null });
+  });
+});
+
+describe('getGapSeconds', () => {
+  it('returns the time between two events', () => {
+    const first = makeEvent('1', '2024-01-15 10:00:00', '2024-01-15 10:01:00');
+    const second = makeEvent('2', '2024-01-15 10:05:00', '2024-01-15 10:06:00');
+    expect(getGapSeconds(first, second)).toBe(240);
+  });
+
+  it('returns 0 for overlapping events', () => {
+    const first = makeEvent('1', '2024-01-15 10:00:00', '2024-01-15 10:01:00');
+    const second = makeEvent('2', '2024-01-15 10:00:30', '2024-01-15 10:02:00');
+    expect(getGapSeconds(first, second)).toBe(0);
+  });
+});
+
+describe('getPlaylistSegments', () => {
+  const playlist = [
+    makeEvent('1', '2024-01-15 09:59:00', '2024-01-15 10:03:00'),
+    makeEvent('2', '2024-01-15 10:30:00', '2024-01-15 10:36:00'),
+  ];
+
+  it('places recordings at their time with gaps shown', () => {
+    const segments = getPlaylistSegments(playlist, hour, 'overlay');
+    expect(segments[0]).toEqual({ eventId: '1', start: 0, width: 3 / 60 });
+    expect(segments[1].start).toBeCloseTo(0.5);
+    expect(segments[1].width).toBeCloseTo(0.1);
+  });
+
+  it('places recordings back to back with gaps compressed', () => {
+    const segments = getPlaylistSegments(playlist, hour, 'compress');
+    expect(segments[0]).toEqual({ eventId: '1', start: 0, width: 1 / 3 });
+    expect(segments[1]).toEqual({ eventId: '2', start: 1 / 3, width: 2 / 3 });
+  });
+
+  it('leaves out recordings outside the range', () => {
+    const outside = makeEvent('3', '2024-01-15 11:10:00', '2024-01-15 11:11:00');
+    expect(getPlaylistSegments([...playlist, outside], hour, 'compress')).toHaveLength(2);
+  });
+});
+
+describe('getPlaylistPosition', () => {
+  const playlist = [
+    makeEvent('1', '2024-01-15 10:00:00', '2024-01-15 10:02:00', '120'),
+    makeEvent('2', '2024-01-15 10:30:00', '2024-01-15 10:32:00', '120'),
+  ];
+
+  it('maps a playback offset onto the bar', () => {
+    const segments = getPlaylistSegments(playlist, hour, 'compress');
+    expect(getPlaylistPosition(segments, playlist, hour, '2', 60)).toBeCloseTo(0.75);
+  });
+
+  it('follows real time with gaps shown', () => {
+    const segments = getPlaylistSegments(playlist, hour, 'overlay');
+    expect(getPlaylistPosition(segments, playlist, hour, '2', 60)).toBeCloseTo(31 / 60);
+  });
+
+  it('returns null for an event not on the bar', () => {
+    const segments = getPlaylistSegments(playlist, hour, 'compress');
+    expect(getPlaylistPosition(segments, playlist, hour, '9', 0)).toBeNull();
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import {
+  clampCrop,
+  FULL_CROP,
+  getCropTransform,
+  getImageBox,
+  getViewFocus,
+  getViewTileId,
+  isZoomed,
+  normalizeViewName,
+  panCrop,
+  zoomCrop,
+} from '../digital-zoom';
+import { DIGITAL_ZOOM } from '../zmng-constants';
+
+describe('clampCrop', () => {
+  it('limits the magnification', () => {
+    expect(clampCrop({ x: 0, y: 0, scale: 100 }).scale).toBe(DIGITAL_ZOOM.maxScale);
+    expect(clampCrop({ x: 0.3, y: 0.3, scale: 0.5 })).toEqual(FULL_CROP);
+  });
+
+  it('keeps the zoom within the image', () => {
+    expect(clampCrop({ x: 0.8, y: -0.2, scale: 2 })).toEqual({ x: 0.5, y: 0, scale: 2 });
+  });
+});
+
+describe('zoomCrop', () => {
+  it('keeps the point under the focus in place', () => {
+    const crop = zoomCrop(FULL_CROP, 2, { x: 0.5, y: 0.5 });
+
+    expect(crop).toEqual({ x: 0.25, y: 0.25, scale: 2 });
+    expect(crop.x + 0.5 / crop.scale).toBeCloseTo(0.5);
+  });
+
+  it('zooms towards a corner', () => {
+    expect(zoomCrop(FULL_CROP, 4, { x: 1, y: 0 })).toEqual({ x: 0.75, y: 0, scale: 4 });
+  });
+
+  it('returns to the whole image when zooming out past it', () => {
+    expect(zoomCrop({ x: 0.25, y: 0.25, scale: 2 }, 0.1, { x: 0.5, y: 0.5 })).toEqual(FULL_CROP);
+  });
+});
+
+describe('panCrop', () => {
+  it('moves the zoom against the drag', () => {
+    const crop = panCrop({ x: 0.25, y: 0.25, scale: 2 }, 0.1, -0.1);
+
+    expect(crop.x).toBeCloseTo(0.2);
+    expect(crop.y).toBeCloseTo(0.3);
+  });
+
+  it('stops at the edges of the image', () => {
+    expect(panCrop({ x: 0.25, y: 0.25, scale: 2 }, 1, -1)).toEqual({ x: 0, y: 0.5, scale: 2 });
+  });
+});
+
+describe('isZoomed', () => {
+  it('ignores rounding around the whole image', () => {
+    expect(isZoomed(FULL_CROP)).toBe(false);
+    expect(isZoomed({ x: 0, y: 0, scale: 1.0001 })).toBe(false);
+    expect(isZoomed({ x: 0, y: 0, scale: 1.5 })).toBe(true);
+  });
+});
+
+describe('getCropTransform', () => {
+  it('moves the zoomed area to the image box', () => {
+    const box = { left: 0, top: 0, width: 200, height: 100 };
+
+    expect(getCropTransform({ x: 0.25, y: 0.25, scale: 2 }, box)).toBe('translate(-100px, -50px) scale(2)');
+  });
+
+  it('allows for letterboxing around the image', () => {
+    const box = getImageBox({ width: 300, height: 100 }, { width: 200, height: 100 }, 'contain');
+
+    expect(box).toEqual({ left: 50, top: 0, width: 200, height: 100 });
+    // The zoom's top-left corner (x 100px on screen) lands on the box's left edge
+    expect(getCropTransform({ x: 0.25, y: 0, scale: 2 }, box)).toBe('translate(-150px, 0px) scale(2)');
+  });
+});
+
+describe('getViewFocus', () => {
+  const box = { left: 50, top: 0, width: 200, height: 100 };
+
+  it('measures points on the drawn image', () => {
+    expect(getViewFocus(150, 25, box)).toEqual({ x: 0.5, y: 0.25 });
+  });
+
+  it('clamps points outside the image', () => {
+    expect(getViewFocus(0, 200, box)).toEqual({ x: 0, y: 1 });
+  });
+
+  it('uses the centre before the view is measured', () => {
+    expect(getViewFocus(10, 10, { left: 0, top: 0, width: 0, height: 0 })).toEqual({ x: 0.5, y: 0.5 });
+  });
+});
+
+describe('normalizeViewName', () => {
+  it('trims and limits names', () => {
+    expect(normalizeViewName('  Driveway ')).toBe('Driveway');
+    expect(normalizeViewName('x'.repeat(50))).toHaveLength(DIGITAL_ZOOM.maxNameLength);
+  });
+
+  it('rejects blank names', () => {
+    expect(normalizeViewName('   ')).toBeUndefined();
+  });
+});
+
+describe('getViewTileId', () => {
+  it('keeps view tiles apart from monitor tiles', () => {
+    expect(getViewTileId('3', 'abc')).toBe('3:abc');
+  });
+});
@@ -1,6 +1,18 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { downloadFile, convertToSnapshotUrl } from '../download';
+import { save } from '@tauri-apps/plugin-dialog';
+import {
+    downloadFile,
+    downloadTextFile,
+    convertToSnapshotUrl,
+    createEventBundle,
+    downloadEventBundle,
+    getBundleMaxBytes,
+    BUNDLE_MAX_FRAMES,
+} from '../download';
 import { Platform } from '../platform';
+import { httpRequest } from '../http';
+import { getEvent } from '../../api/events';
+import { useBackgroundTasks } from '../../stores/backgroundTasks';
 
 // Mock dependencies
 vi.mock('../logger', () => ({
@@ -32,6 +44,10 @@ vi.mock('../http', () => ({
     }),
 }));
 
+vi.mock('../../api/events', () => ({
+    getEvent: vi.fn(),
+}));
+
 vi.mock('@capacitor/filesystem', () => ({
     Filesystem: {
         writeFile: vi.fn().mockResolvedValue({ uri: 'file:///documents/test.mp4' }),
@@ -40,7 +56,16 @@ vi.mock('@capacitor/filesystem', () => ({
             Cache: 'CACHE',
         },
     },
-    Directory: { Documents: 'DOCUMENTS', Cache: 'CACHE' }
+    Directory: { Documents: 'DOCUMENTS', Cache: 'CACHE' },
+    Encoding: { UTF8: 'utf8' },
+}));
+
+vi.mock('@tauri-apps/plugin-dialog', () => ({
+    save: vi.fn(),
+}));
+
+vi.mock('@tauri-apps/plugin-fs', () => ({
+    writeFile: vi.fn(),
 }));
 
 vi.mock('@capacitor-community/media', () => ({
@@ -88,6 +113,169 @@ describe('Mobile Download Logic', () => {
     });
 });
 
+describe('Text File Download', () => {
+    const platform = Platform as { isNative: boolean; isTauri: boolean };
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        platform.isNative = true;
+        platform.isTauri = false;
+    });
+
+    it('writes text to Documents as UTF-8 on mobile', async () => {
+        await downloadTextFile('id,name\r\n1,Front\r\n', 'events.csv', 'text/csv');
+
+        const { Filesystem } = await import('@capacitor/filesystem');
+        expect(Filesystem.writeFile).toHaveBeenCalledWith({
+            path: 'events.csv',
+            data: 'id,name\r\n1,Front\r\n',
+            directory: 'DOCUMENTS',
+            encoding: 'utf8',
+        });
+    });
+
+    it('reports a dismissed save dialog on desktop', async () => {
+        platform.isNative = false;
+        platform.isTauri = true;
+        vi.mocked(save).mockResolvedValue(null);
+
+        await expect(downloadTextFile('[]', 'searches.json')).resolves.toBe(false);
+    });
+
+    it('downloads a blob on web', async () => {
+        platform.isNative = false;
+        const createObjectURL = vi.fn().mockReturnValue('blob:export');
+        window.URL.createObjectURL = createObjectURL;
+        window.URL.revokeObjectURL = vi.fn();
+        const click = vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+
+        await downloadTextFile('[]', 'searches.json');
+
+        expect(createObjectURL).toHaveBeenCalledWith(expect.any(Blob));
+        expect((createObjectURL.mock.calls[0][0] as Blob).type).toBe('application/json');
+        expect(click).toHaveBeenCalled();
+        click.mockRestore();
+    });
+});
+
+describe('Event Bundle', () => {
+    const makeEvent = (overrides: Record<string, unknown> = {}) => ({
+        Event: {
+            Id: '42',
+            MonitorId: '3',
+            Name: 'Event 42',
+            Cause: 'Motion',
+            StartDateTime: '2024-01-15 10:30:00',
+            EndDateTime: '2024-01-15 10:31:00',
+            Frames: '2',
+            DefaultVideo: 'video.mp4',
+            ...overrides,
+        },
+    });
+
+    const sha256 = async (data: Uint8Array) => {
+        const digest = await crypto.subtle.digest('SHA-256', data as Uint8Array<ArrayBuffer>);
+        return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+    };
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        vi.mocked(httpRequest).mockImplementation(async (url: string) => {
+            if (url.includes('fid=snapshot')) throw new Error('HTTP 404: Not Found');
+            return { status: 200, statusText: 'OK', headers: {}, data: new TextEncoder().encode(url).buffer };
+        });
+    });
+
+    it('bundles video, alarm frame and metadata with checksums', async () => {
+        vi.mocked(getEvent).mockResolvedValue(makeEvent() as Awaited<ReturnType<typeof getEvent>>);
+        const onProgress = vi.fn();
+
+        const { data, manifest } = await createEventBundle(['42'], {
+            portalUrl: 'http://zm.example.com',
+            token: 'abc',
+            monitorNames: new Map([['3', 'Front Door']]),
+            onProgress,
+        });
+
+        expect(manifest.events).toHaveLength(1);
+        expect(manifest.events[0]).toMatchObject({ id: '42', monitorName: 'Front Door', media: 'video' });
+        expect(manifest.files.map((file) => file.path)).toEqual([
+            'event-42/event.json',
+            'event-42/video.mp4',
+            'event-42/alarm.jpg',
+        ]);
+        expect(manifest.missing).toEqual([
+            { eventId: '42', path: 'event-42/snapshot.jpg', error: 'HTTP 404: Not Found' },
+        ]);
+
+        const video = manifest.files[1];
+        const videoUrl = vi.mocked(httpRequest).mock.calls[0][0];
+        expect(video.sha256).toBe(await sha256(new TextEncoder().encode(videoUrl)));
+
+        const archiveText = new TextDecoder().decode(data);
+        expect(archiveText).toContain('manifest.json');
+        expect(archiveText).toContain(`${video.sha256}  event-42/video.mp4`);
+        expect(onProgress).toHaveBeenLastCalledWith(100);
+    });
+
+    it('falls back to JPEG frames when the event has no video', async () => {
+        vi.mocked(getEvent).mockResolvedValue(
+            makeEvent({ DefaultVideo: '' }) as Awaited<ReturnType<typeof getEvent>>
+        );
+
+        const { manifest } = await createEventBundle(['42'], { portalUrl: 'http://zm.example.com' });
+
+        expect(manifest.events[0].media).toBe('frames');
+        expect(manifest.events[0].files).toContain('event-42/frames/00001.jpg');
+        expect(manifest.events[0].files).toContain('event-42/frames/00002.jpg');
+        expect(manifest.events[0].files).not.toContain('event-42/video.mp4');
+    });
+
+    it('reports the bundle as cancelled when the save dialog is dismissed', async () => {
+        const platform = Platform as { isNative: boolean; isTauri: boolean };
+        platform.isTauri = true;
+        vi.mocked(getEvent).mockResolvedValue(makeEvent() as Awaited<ReturnType<typeof getEvent>>);
+        vi.mocked(save).mockResolvedValue(null);
+
+        const taskId = downloadEventBundle(['42'], { portalUrl: 'http://zm.example.com' });
+
+        await vi.waitFor(() => {
+            expect(useBackgroundTasks.getState().tasks.find((task) => task.id === taskId)?.status).toBe('cancelled');
+        });
+        platform.isTauri = false;
+    });
+
+    it('refuses events that take up more space than a bundle can hold before fetching media', async () => {
+        vi.mocked(getEvent).mockResolvedValue(
+            makeEvent({ DiskSpace: String(getBundleMaxBytes() + 1) }) as Awaited<ReturnType<typeof getEvent>>
+        );
+
+        await expect(createEventBundle(['42'], { portalUrl: 'http://zm.example.com' })).rejects.toThrow(
+            'select fewer events'
+        );
+        expect(httpRequest).not.toHaveBeenCalled();
+    });
+
+    it('refuses more frames than a bundle can hold', async () => {
+        vi.mocked(getEvent).mockResolvedValue(
+            makeEvent({ DefaultVideo: '', Frames: String(BUNDLE_MAX_FRAMES + 1) }) as Awaited<ReturnType<typeof getEvent>>
+        );
+
+        await expect(createEventBundle(['42'], { portalUrl: 'http://zm.example.com' })).rejects.toThrow(
+            `${BUNDLE_MAX_FRAMES + 1} frames`
+        );
+        expect(httpRequest).not.toHaveBeenCalled();
+    });
+
+    it('fails when no event can be fetched', async () => {
+        vi.mocked(getEvent).mockRejectedValue(new Error('Not found'));
+
+        await expect(createEventBundle(['1', '2'], { portalUrl: 'http://zm.example.com' })).rejects.toThrow(
+            'None of the events could be fetched'
+        );
+    });
+});
+
 describe('ZMS Snapshot URL normalization', () => {
     it('removes streaming params and forces single mode', () => {
         const url = 'http://zm.example.com/cgi-bin/nph-zms?monitor=1&mode=jpeg&scale=100&maxfps=10&connkey=4456&_t=123&token=abc';
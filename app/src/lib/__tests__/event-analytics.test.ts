@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import type { EventData } from '../../api/types';
+import {
+  DURATION_BUCKETS,
+  SCORE_BUCKETS,
+  addEventsToAnalytics,
+  createEventAnalytics,
+  getEventAnalyticsCsv,
+  getHistogramBucket,
+  getHistogramBucketLabel,
+} from '../event-analytics';
+
+const makeEvent = (id: string, overrides: Record<string, string> = {}) =>
+  ({
+    Event: {
+      Id: id,
+      MonitorId: '1',
+      StartDateTime: '2024-01-15 10:30:00', // Monday
+      Cause: 'Motion',
+      Length: '45',
+      MaxScore: '35',
+      Archived: '0',
+      ...overrides,
+    },
+  }) as unknown as EventData;
+
+describe('getHistogramBucket', () => {
+  it('finds the bucket containing a value', () => {
+    expect(getHistogramBucket(0, DURATION_BUCKETS)).toBe(0);
+    expect(getHistogramBucket(10, DURATION_BUCKETS)).toBe(1);
+    expect(getHistogramBucket(45, DURATION_BUCKETS)).toBe(2);
+  });
+
+  it('puts values past the last bound in the last bucket', () => {
+    expect(getHistogramBucket(5000, DURATION_BUCKETS)).toBe(DURATION_BUCKETS.length - 1);
+    expect(getHistogramBucket(100, SCORE_BUCKETS)).toBe(SCORE_BUCKETS.length - 1);
+  });
+});
+
+describe('getHistogramBucketLabel', () => {
+  it('labels closed and open-ended buckets', () => {
+    expect(getHistogramBucketLabel(1, DURATION_BUCKETS)).toBe('10-30');
+    expect(getHistogramBucketLabel(DURATION_BUCKETS.length - 1, DURATION_BUCKETS)).toBe('1800+');
+  });
+});
+
+describe('addEventsToAnalytics', () => {
+  it('counts every distribution', () => {
+    const analytics = addEventsToAnalytics(createEventAnalytics(), [
+      makeEvent('1'),
+      makeEvent('2', { MonitorId: '2', StartDateTime: '2024-01-14 23:05:00', Cause: '', Archived: '1' }),
+    ]);
+
+    expect(analytics.total).toBe(2);
+    expect(analytics.byMonitor).toEqual({ '1': 1, '2': 1 });
+    expect(analytics.byHour[10]).toBe(1);
+    expect(analytics.byHour[23]).toBe(1);
+    expect(analytics.byWeekday[1]).toBe(1);
+    expect(analytics.byWeekday[0]).toBe(1);
+    expect(analytics.byCause).toEqual({ Motion: 1, '': 1 });
+    expect(analytics.byDuration[2]).toBe(2);
+    expect(analytics.byScore[3]).toBe(2);
+    expect(analytics.archived).toBe(1);
+  });
+
+  it('adds pages incrementally without changing the previous aggregate', () => {
+    const first = addEventsToAnalytics(createEventAnalytics(), [makeEvent('1')]);
+    const second = addEventsToAnalytics(first, [makeEvent('2')]);
+
+    expect(first.total).toBe(1);
+    expect(first.byMonitor['1']).toBe(1);
+    expect(second.total).toBe(2);
+    expect(second.byMonitor['1']).toBe(2);
+  });
+
+  it('counts events repeated across pages once', () => {
+    const first = addEventsToAnalytics(createEventAnalytics(), [makeEvent('1')]);
+    const second = addEventsToAnalytics(first, [makeEvent('1'), makeEvent('2')]);
+    expect(second.total).toBe(2);
+  });
+});
+
+describe('getEventAnalyticsCsv', () => {
+  it('writes one row per value', () => {
+    const analytics = addEventsToAnalytics(createEventAnalytics(), [makeEvent('1', { Cause: '' })]);
+    const csv = getEventAnalyticsCsv(analytics, {
+      section: {
+        monitor: 'Monitor',
+        hour: 'Hour',
+        weekday: 'Weekday',
+        cause: 'Cause',
+        duration: 'Duration',
+        score: 'Score',
+        archived: 'Archived',
+      },
+      header: ['Chart', 'Value', 'Events'],
+      monitorName: (monitorId) => `Camera ${monitorId}`,
+      weekdayName: (day) => `D${day}`,
+      noCause: 'No cause',
+      archived: 'Yes',
+      unarchived: 'No',
+    });
+    const rows = csv.trim().split('\r\n');
+
+    expect(rows[0]).toBe('Chart,Value,Events');
+    expect(rows).toContain('Monitor,Camera 1,1');
+    expect(rows).toContain('Hour,10,1');
+    expect(rows).toContain('Weekday,D1,1');
+    expect(rows).toContain('Cause,No cause,1');
+    expect(rows).toContain('Duration,30-60,1');
+    expect(rows).toContain('Archived,No,1');
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import type { EventData } from '../../api/types';
+import {
+  EVENT_EXPORT_COLUMNS,
+  createEventExportWriter,
+  formatCsvCell,
+  getEventExportFilename,
+  getEventExportValue,
+  type EventExportColumn,
+  type EventExportContext,
+} from '../event-export';
+
+const makeEvent = (overrides: Partial<EventData['Event']> = {}): EventData => ({
+  Event: {
+    Id: '101',
+    MonitorId: '1',
+    StorageId: '0',
+    SecondaryStorageId: null,
+    Name: 'Event 101',
+    Cause: 'Motion',
+    StartDateTime: '2024-01-15 10:00:00',
+    EndDateTime: '2024-01-15 10:00:30',
+    Width: '1920',
+    Height: '1080',
+    Length: '30.5',
+    Frames: '300',
+    AlarmFrames: '12',
+    DefaultVideo: null,
+    SaveJPEGs: null,
+    TotScore: '400',
+    AvgScore: '33',
+    MaxScore: '87',
+    Archived: '0',
+    Videoed: '0',
+    Uploaded: '0',
+    Emailed: '0',
+    Messaged: '0',
+    Executed: '0',
+    Notes: 'Person at gate, "front"',
+    StateId: null,
+    Orientation: null,
+    DiskSpace: null,
+    Scheme: null,
+    ...overrides,
+  },
+});
+
+const context: EventExportContext = {
+  monitorNames: new Map([['1', 'Front Door']]),
+  tagMap: new Map([['101', [{ Id: '5', Name: 'delivery' }, { Id: '6', Name: 'person' }]]]),
+  favoriteIds: new Set(['101']),
+};
+
+const headers = Object.fromEntries(EVENT_EXPORT_COLUMNS.map((column) => [column, column.toUpperCase()])) as Record<
+  EventExportColumn,
+  string
+>;
+
+describe('getEventExportValue', () => {
+  it('reads event fields, lookups and numbers', () => {
+    const event = makeEvent();
+    expect(getEventExportValue(event, 'monitor', context)).toBe('Front Door');
+    expect(getEventExportValue(event, 'length', context)).toBe(30.5);
+    expect(getEventExportValue(event, 'maxScore', context)).toBe(87);
+    expect(getEventExportValue(event, 'tags', context)).toEqual(['delivery', 'person']);
+    expect(getEventExportValue(event, 'favorite', context)).toBe(true);
+    expect(getEventExportValue(event, 'archived', context)).toBe(false);
+  });
+
+  it('falls back to the monitor ID and empty tags', () => {
+    const event = makeEvent({ Id: '102', MonitorId: '9' });
+    expect(getEventExportValue(event, 'monitor', context)).toBe('9');
+    expect(getEventExportValue(event, 'tags', { ...context, tagMap: null })).toEqual([]);
+    expect(getEventExportValue(event, 'favorite', context)).toBe(false);
+  });
+});
+
+describe('formatCsvCell', () => {
+  it('quotes cells with separators, quotes and line breaks', () => {
+    expect(formatCsvCell('a,b')).toBe('"a,b"');
+    expect(formatCsvCell('say "hi"')).toBe('"say ""hi"""');
+    expect(formatCsvCell('line\nbreak')).toBe('"line\nbreak"');
+    expect(formatCsvCell('plain')).toBe('plain');
+  });
+
+  it('neutralizes spreadsheet formulas', () => {
+    expect(formatCsvCell('=HYPERLINK("x")')).toBe('"\'=HYPERLINK(""x"")"');
+    expect(formatCsvCell('@cmd')).toBe("'@cmd");
+  });
+
+  it('formats empty values, numbers, booleans and lists', () => {
+    expect(formatCsvCell(null)).toBe('');
+    expect(formatCsvCell(-3)).toBe('-3');
+    expect(formatCsvCell(true)).toBe('true');
+    expect(formatCsvCell(['a', 'b'])).toBe('a; b');
+  });
+});
+
+describe('createEventExportWriter', () => {
+  it('writes CSV with a header row in batches', () => {
+    const writer = createEventExportWriter('csv', ['id', 'monitor', 'notes', 'tags'], headers);
+    const text =
+      writer.begin() +
+      writer.write([makeEvent()], context) +
+      writer.write([makeEvent({ Id: '102', Notes: null })], context) +
+      writer.end();
+
+    expect(text).toBe(
+      '\uFEFFID,MONITOR,NOTES,TAGS\r\n' +
+        '101,Front Door,"Person at gate, ""front""",delivery; person\r\n' +
+        '102,Front Door,,\r\n'
+    );
+  });
+
+  it('writes a JSON array across batches', () => {
+    const writer = createEventExportWriter('json', ['id', 'maxScore', 'favorite'], headers);
+    const text =
+      writer.begin() +
+      writer.write([makeEvent()], context) +
+      writer.write([makeEvent({ Id: '102', MaxScore: '' })], context) +
+      writer.end();
+
+    expect(JSON.parse(text)).toEqual([
+      { id: '101', maxScore: 87, favorite: true },
+      { id: '102', maxScore: null, favorite: false },
+    ]);
+  });
+
+  it('writes an empty JSON array when there are no events', () => {
+    const writer = createEventExportWriter('json', ['id'], headers);
+    expect(JSON.parse(writer.begin() + writer.write([], context) + writer.end())).toEqual([]);
+  });
+});
+
+describe('getEventExportFilename', () => {
+  it('includes the date, time and format', () => {
+    expect(getEventExportFilename('csv', new Date(2024, 0, 5, 9, 7))).toBe('zmng-events-2024-01-05-0907.csv');
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Unit tests for event filter URL parameter utilities
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  advancedFiltersToParams,
+  countAdvancedFilters,
+  hasAdvancedFilterParams,
+  parseAdvancedFilters,
+  parseIdListFilter,
+  parseRangeFilter,
+  parseTextFilter,
+  serializeRangeFilter,
+  serializeTextFilter,
+} from '../event-filter-params';
+
+describe('Event Filter Params', () => {
+  describe('text filters', () => {
+    it('serializes match mode and negation', () => {
+      expect(serializeTextFilter({ value: 'Motion', match: 'equals' })).toBe('equals:Motion');
+      expect(serializeTextFilter({ value: 'spider', negate: true })).toBe('!contains:spider');
+    });
+
+    it('parses serialized values', () => {
+      expect(parseTextFilter('equals:Motion')).toEqual({ value: 'Motion', match: 'equals', negate: false });
+      expect(parseTextFilter('!regexp:^a:b')).toEqual({ value: '^a:b', match: 'regexp', negate: true });
+    });
+
+    it('treats unprefixed values as substring matches', () => {
+      expect(parseTextFilter('Motion')).toEqual({ value: 'Motion', match: 'contains', negate: false });
+      expect(parseTextFilter('time:12')).toEqual({ value: 'time:12', match: 'contains', negate: false });
+    });
+
+    it('returns undefined for empty values', () => {
+      expect(parseTextFilter(null)).toBeUndefined();
+      expect(parseTextFilter('contains:')).toBeUndefined();
+      expect(parseTextFilter('!')).toBeUndefined();
+    });
+  });
+
+  describe('range filters', () => {
+    it('round-trips open and closed ranges', () => {
+      expect(serializeRangeFilter({ min: 30 })).toBe('30..');
+      expect(serializeRangeFilter({ max: 120 })).toBe('..120');
+      expect(parseRangeFilter('30..120')).toEqual({ min: 30, max: 120 });
+      expect(parseRangeFilter('..120')).toEqual({ min: undefined, max: 120 });
+      expect(parseRangeFilter('0..')).toEqual({ min: 0, max: undefined });
+    });
+
+    it('ignores invalid numbers', () => {
+      expect(parseRangeFilter('abc..')).toBeUndefined();
+      expect(parseRangeFilter('..')).toBeUndefined();
+    });
+  });
+
+  describe('id list filters', () => {
+    it('parses ids and negation', () => {
+      expect(parseIdListFilter('1, 2')).toEqual({ ids: ['1', '2'], negate: false });
+      expect(parseIdListFilter('!3')).toEqual({ ids: ['3'], negate: true });
+      expect(parseIdListFilter('!')).toBeUndefined();
+    });
+  });
+
+  describe('advancedFiltersToParams / parseAdvancedFilters', () => {
+    it('round-trips all advanced filters', () => {
+      const filters = {
+        archived: true,
+        cause: { value: 'Motion', match: 'equals' as const, negate: false },
+        notes: { value: 'person', match: 'regexp' as const, negate: true },
+        maxScore: { min: 50, max: undefined },
+        length: { min: 30, max: 600 },
+        storage: { ids: ['1', '2'], negate: true },
+      };
+
+      const params = advancedFiltersToParams(filters);
+      expect(params).toEqual({
+        archived: '1',
+        cause: 'equals:Motion',
+        notes: '!regexp:person',
+        maxScore: '50..',
+        length: '30..600',
+        storageId: '!1,2',
+      });
+
+      expect(parseAdvancedFilters(new URLSearchParams(params))).toEqual(filters);
+    });
+
+    it('omits empty filters', () => {
+      expect(advancedFiltersToParams({
+        cause: { value: '  ' },
+        frames: {},
+        storage: { ids: [''] },
+      })).toEqual({});
+    });
+
+    it('ignores unknown archived values', () => {
+      expect(parseAdvancedFilters(new URLSearchParams({ archived: 'yes' }))).toEqual({});
+    });
+  });
+
+  describe('hasAdvancedFilterParams', () => {
+    it('detects advanced parameters', () => {
+      expect(hasAdvancedFilterParams(new URLSearchParams({ sort: 'StartDateTime' }))).toBe(false);
+      expect(hasAdvancedFilterParams(new URLSearchParams({ frames: '10..' }))).toBe(true);
+    });
+  });
+
+  describe('countAdvancedFilters', () => {
+    it('counts each active filter once', () => {
+      expect(countAdvancedFilters({})).toBe(0);
+      expect(countAdvancedFilters({
+        archived: false,
+        name: { value: 'x' },
+        avgScore: { min: 1, max: 5 },
+        storage: { ids: ['1'] },
+      })).toBe(4);
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import type { EventData } from '../../api/types';
+import { groupEventsIntoIncidents } from '../event-incidents';
+
+const makeEvent = (id: string, monitorId: string, start: string, end: string) =>
+  ({
+    Event: {
+      Id: id,
+      MonitorId: monitorId,
+      StartDateTime: start,
+      EndDateTime: end,
+      Length: '60',
+    },
+  }) as unknown as EventData;
+
+const at = (value: string) => new Date(value).getTime();
+
+const ids = (events: EventData[]) => events.map(({ Event }) => Event.Id);
+
+describe('groupEventsIntoIncidents', () => {
+  it('merges overlapping events from different monitors', () => {
+    const incidents = groupEventsIntoIncidents(
+      [
+        makeEvent('1', '1', '2024-01-15 10:00:00', '2024-01-15 10:00:30'),
+        makeEvent('2', '2', '2024-01-15 10:00:20', '2024-01-15 10:01:00'),
+      ],
+      0
+    );
+
+    expect(incidents).toHaveLength(1);
+    expect(ids(incidents[0].events)).toEqual(['1', '2']);
+    expect(incidents[0].monitorIds).toEqual(['1', '2']);
+    expect(incidents[0].start).toBe(at('2024-01-15T10:00:00'));
+    expect(incidents[0].end).toBe(at('2024-01-15T10:01:00'));
+  });
+
+  it('merges events that start within the gap', () => {
+    const events = [
+      makeEvent('1', '1', '2024-01-15 10:00:00', '2024-01-15 10:00:30'),
+      makeEvent('2', '2', '2024-01-15 10:00:50', '2024-01-15 10:01:10'),
+    ];
+
+    expect(groupEventsIntoIncidents(events, 30)).toHaveLength(1);
+    expect(groupEventsIntoIncidents(events, 10)).toHaveLength(2);
+  });
+
+  it('chains events into one incident through a walk past several cameras', () => {
+    const incidents = groupEventsIntoIncidents(
+      [
+        makeEvent('3', '3', '2024-01-15 10:01:00', '2024-01-15 10:01:30'),
+        makeEvent('1', '1', '2024-01-15 10:00:00', '2024-01-15 10:00:30'),
+        makeEvent('2', '2', '2024-01-15 10:00:40', '2024-01-15 10:00:55'),
+        makeEvent('4', '1', '2024-01-15 10:01:35', '2024-01-15 10:02:00'),
+      ],
+      10
+    );
+
+    expect(incidents).toHaveLength(1);
+    expect(ids(incidents[0].events)).toEqual(['1', '2', '3', '4']);
+    expect(incidents[0].monitorIds).toEqual(['1', '2', '3']);
+  });
+
+  it('keeps back-to-back events of one monitor apart', () => {
+    const incidents = groupEventsIntoIncidents(
+      [
+        makeEvent('1', '1', '2024-01-15 10:00:00', '2024-01-15 10:00:30'),
+        makeEvent('2', '1', '2024-01-15 10:00:30', '2024-01-15 10:01:00'),
+        makeEvent('3', '1', '2024-01-15 10:01:05', '2024-01-15 10:01:30'),
+      ],
+      30
+    );
+
+    expect(incidents.map(({ events }) => ids(events))).toEqual([['3'], ['2'], ['1']]);
+  });
+
+  it('adds an event of the same monitor once another monitor joined', () => {
+    const incidents = groupEventsIntoIncidents(
+      [
+        makeEvent('1', '1', '2024-01-15 10:00:00', '2024-01-15 10:00:30'),
+        makeEvent('2', '2', '2024-01-15 10:00:20', '2024-01-15 10:01:00'),
+        makeEvent('3', '1', '2024-01-15 10:00:50', '2024-01-15 10:01:20'),
+      ],
+      0
+    );
+
+    expect(incidents).toHaveLength(1);
+    expect(ids(incidents[0].events)).toEqual(['1', '2', '3']);
+  });
+
+  it('keeps an incident open until its longest event ends', () => {
+    const incidents = groupEventsIntoIncidents(
+      [
+        makeEvent('1', '1', '2024-01-15 10:00:00', '2024-01-15 10:05:00'),
+        makeEvent('2', '2', '2024-01-15 10:00:10', '2024-01-15 10:00:20'),
+        makeEvent('3', '3', '2024-01-15 10:04:00', '2024-01-15 10:04:10'),
+      ],
+      0
+    );
+
+    expect(incidents).toHaveLength(1);
+    expect(incidents[0].end).toBe(at('2024-01-15T10:05:00'));
+  });
+
+  it('returns incidents newest first with IDs from their first event', () => {
+    const incidents = groupEventsIntoIncidents(
+      [
+        makeEvent('1', '1', '2024-01-15 10:00:00', '2024-01-15 10:00:30'),
+        makeEvent('2', '1', '2024-01-15 11:00:00', '2024-01-15 11:00:30'),
+      ],
+      30
+    );
+
+    expect(incidents.map(({ id }) => id)).toEqual(['incident-2', 'incident-1']);
+  });
+
+  it('lists events with an unreadable start as their own incidents last', () => {
+    const incidents = groupEventsIntoIncidents(
+      [
+        makeEvent('1', '1', 'not a date', ''),
+        makeEvent('2', '2', '2024-01-15 10:00:00', '2024-01-15 10:00:30'),
+      ],
+      30
+    );
+
+    expect(incidents.map(({ id }) => id)).toEqual(['incident-2', 'incident-1']);
+    expect(incidents[1].start).toBeNaN();
+  });
+
+  it('returns no incidents for no events', () => {
+    expect(groupEventsIntoIncidents([], 30)).toEqual([]);
+  });
+});
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { getPreviewFrameIndex, getPreviewFrameNumbers } from '../event-preview';
+
+describe('getPreviewFrameNumbers', () => {
+  it('spreads frames evenly across the event', () => {
+    expect(getPreviewFrameNumbers(100, 4)).toEqual([13, 38, 63, 88]);
+  });
+
+  it('returns each frame once for short events', () => {
+    expect(getPreviewFrameNumbers(3, 12)).toEqual([1, 2, 3]);
+  });
+
+  it('returns no frames for empty or unknown events', () => {
+    expect(getPreviewFrameNumbers(0, 12)).toEqual([]);
+    expect(getPreviewFrameNumbers(NaN, 12)).toEqual([]);
+    expect(getPreviewFrameNumbers(100, 0)).toEqual([]);
+  });
+});
+
+describe('getPreviewFrameIndex', () => {
+  it('maps the pointer position to a frame', () => {
+    expect(getPreviewFrameIndex(0, 200, 4)).toBe(0);
+    expect(getPreviewFrameIndex(60, 200, 4)).toBe(1);
+    expect(getPreviewFrameIndex(199, 200, 4)).toBe(3);
+  });
+
+  it('clamps positions outside the thumbnail', () => {
+    expect(getPreviewFrameIndex(-20, 200, 4)).toBe(0);
+    expect(getPreviewFrameIndex(250, 200, 4)).toBe(3);
+    expect(getPreviewFrameIndex(50, 0, 4)).toBe(0);
+  });
+});
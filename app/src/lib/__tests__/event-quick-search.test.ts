@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { parseQuickSearch, type QuickSearchContext } from '../event-quick-search';
+
+// Use the test machine's timezone so datetime-local results are predictable
+const context: QuickSearchContext = {
+  monitors: [
+    { Id: '1', Name: 'Front Door' },
+    { Id: '2', Name: 'Garage' },
+    { Id: '3', Name: 'Back_Yard' },
+  ],
+  tags: [{ Id: '7', Name: 'Delivery' }],
+  timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  now: new Date(2024, 0, 17, 12, 0), // Wednesday
+};
+
+describe('parseQuickSearch', () => {
+  it('parses a full query', () => {
+    const result = parseQuickSearch('person front door yesterday after 6pm longer than 30s archived', context);
+
+    expect(result.filters).toEqual({
+      monitorId: '1',
+      startDateTime: '2024-01-16T18:00',
+      endDateTime: '2024-01-16T23:59',
+      archived: true,
+      length: { min: 30 },
+      notesRegexp: 'detected:.*person',
+    });
+    expect(result.tokens.map(({ kind, text }) => `${kind}:${text}`)).toEqual([
+      'detection:person',
+      'monitor:front door',
+      'date:yesterday',
+      'time:after 6pm',
+      'length:longer than 30s',
+      'archived:archived',
+    ]);
+    expect(result.unrecognized).toEqual([]);
+  });
+
+  it('matches monitor and tag names regardless of case and separators', () => {
+    const result = parseQuickSearch('Garage back yard delivery', context);
+
+    expect(result.filters.monitorId).toBe('2,3');
+    expect(result.tagIds).toEqual(['7']);
+  });
+
+  it('combines several detection labels', () => {
+    const result = parseQuickSearch('people or cars', context);
+
+    expect(result.filters.notesRegexp).toBe('detected:.*(person|car)');
+    expect(result.unrecognized).toEqual(['or']);
+  });
+
+  it('resolves relative ranges against now', () => {
+    const result = parseQuickSearch('last 2 hours', context);
+
+    expect(result.filters.startDateTime).toBe('2024-01-17T10:00');
+    expect(result.filters.endDateTime).toBe('2024-01-17T12:00');
+  });
+
+  it('resolves weekday names to the most recent one', () => {
+    expect(parseQuickSearch('monday', context).filters.startDateTime).toBe('2024-01-15T00:00');
+    expect(parseQuickSearch('wednesday', context).filters.startDateTime).toBe('2024-01-17T00:00');
+  });
+
+  it('reads time ranges, including ones past midnight', () => {
+    const result = parseQuickSearch('yesterday between 10pm and 6 am', context);
+
+    expect(result.filters.startDateTime).toBe('2024-01-16T22:00');
+    expect(result.filters.endDateTime).toBe('2024-01-17T06:00');
+  });
+
+  it('reads length bounds in other units', () => {
+    expect(parseQuickSearch('under 2 minutes', context).filters.length).toEqual({ max: 120 });
+    expect(parseQuickSearch('at least 1h', context).filters.length).toEqual({ min: 3600 });
+  });
+
+  it('reads unarchived events', () => {
+    expect(parseQuickSearch('not archived', context).filters.archived).toBe(false);
+    expect(parseQuickSearch('unarchived', context).filters.archived).toBe(false);
+  });
+
+  it('reports words it does not understand', () => {
+    const result = parseQuickSearch('the mailbox events', context);
+
+    expect(result.tokens).toEqual([]);
+    expect(result.unrecognized).toEqual(['mailbox']);
+    expect(result.filters).toEqual({});
+  });
+});
@@ -9,6 +9,7 @@ import {
   isMonitorEnabled,
   filterMonitorsByGroup,
   buildGroupHierarchy,
+  getDescendantGroupIds,
 } from '../filters';
 import type { MonitorData, GroupData } from '../../api/types';
 
@@ -418,3 +419,21 @@ describe('buildGroupHierarchy', () => {
     expect(result[2].group.Group.Name).toBe('Zebra');
   });
 });
+
+describe('getDescendantGroupIds', () => {
+  const groups: GroupData[] = [
+    { Group: { Id: '1', Name: 'House', ParentId: null }, Monitor: [] },
+    { Group: { Id: '2', Name: 'Upstairs', ParentId: '1' }, Monitor: [] },
+    { Group: { Id: '3', Name: 'Bedrooms', ParentId: '2' }, Monitor: [] },
+    { Group: { Id: '4', Name: 'Garden', ParentId: null }, Monitor: [] },
+  ];
+
+  it('returns children at every depth', () => {
+    expect(getDescendantGroupIds('1', groups)).toEqual(['2', '3']);
+  });
+
+  it('returns an empty list for leaf groups', () => {
+    expect(getDescendantGroupIds('3', groups)).toEqual([]);
+    expect(getDescendantGroupIds('4', groups)).toEqual([]);
+  });
+});
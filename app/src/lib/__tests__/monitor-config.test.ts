@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import type { Monitor } from '../../api/types';
+import {
+  buildMonitorConfigUpdate,
+  diffMonitorConfig,
+  getMonitorConfigValues,
+  validateMonitorConfig,
+  type MonitorConfigValues,
+} from '../monitor-config';
+
+const monitor = {
+  Name: 'Front Door',
+  Importance: 'Normal',
+  Orientation: 'ROTATE_0',
+  MaxFPS: null,
+  AlarmMaxFPS: '10.00',
+  AnalysisFPSLimit: null,
+  ImageBufferCount: '3',
+  WarmupCount: '0',
+  PreEventCount: '5',
+  PostEventCount: '5',
+  StreamReplayBuffer: '0',
+  AlarmFrameCount: '1',
+  SectionLength: '600',
+  MinSectionLength: '10',
+  EventPrefix: 'Event-',
+  VideoWriter: '2',
+  RecordAudio: null,
+  SaveJPEGs: '0',
+  LabelFormat: '%N - %d/%m/%y %H:%M:%S',
+  LabelX: '0',
+  LabelY: '0',
+} as unknown as Monitor;
+
+const withValues = (values: Partial<MonitorConfigValues>): MonitorConfigValues => ({
+  ...getMonitorConfigValues(monitor),
+  ...values,
+});
+
+describe('getMonitorConfigValues', () => {
+  it('reads missing values as empty, and missing switches as off', () => {
+    const values = getMonitorConfigValues(monitor);
+
+    expect(values.MaxFPS).toBe('');
+    expect(values.AlarmMaxFPS).toBe('10.00');
+    expect(values.RecordAudio).toBe('0');
+  });
+});
+
+describe('validateMonitorConfig', () => {
+  it('accepts the current configuration', () => {
+    expect(validateMonitorConfig(getMonitorConfigValues(monitor))).toEqual({});
+  });
+
+  it('checks required fields, numbers and bounds', () => {
+    const errors = validateMonitorConfig(
+      withValues({ Name: ' ', MaxFPS: 'fast', PreEventCount: '2.5', SectionLength: '0', AlarmFrameCount: '500' })
+    );
+
+    expect(errors).toEqual({
+      Name: { code: 'required' },
+      MaxFPS: { code: 'not_a_number' },
+      PreEventCount: { code: 'not_an_integer' },
+      SectionLength: { code: 'too_small', limit: 1 },
+      AlarmFrameCount: { code: 'too_large', limit: 100 },
+    });
+  });
+
+  it('allows empty frame rate limits', () => {
+    expect(validateMonitorConfig(withValues({ AlarmMaxFPS: '' }))).toEqual({});
+  });
+
+  it('requires the minimum section length to fit in the section length', () => {
+    expect(validateMonitorConfig(withValues({ MinSectionLength: '700' }))).toEqual({
+      MinSectionLength: { code: 'min_section_exceeds_section', limit: 600 },
+    });
+  });
+
+  it('checks only the fields changed from the saved values', () => {
+    const original = withValues({ MaxFPS: 'fast', MinSectionLength: '700' });
+
+    expect(validateMonitorConfig({ ...original, Name: 'Porch' }, original)).toEqual({});
+    expect(validateMonitorConfig({ ...original, Name: '', MaxFPS: '' }, original)).toEqual({
+      Name: { code: 'required' },
+    });
+    expect(validateMonitorConfig({ ...original, SectionLength: '650' }, original)).toEqual({
+      MinSectionLength: { code: 'min_section_exceeds_section', limit: 650 },
+    });
+  });
+});
+
+describe('diffMonitorConfig', () => {
+  it('lists changed fields in section order', () => {
+    const original = getMonitorConfigValues(monitor);
+    const changes = diffMonitorConfig(original, { ...original, PostEventCount: '10', Name: 'Porch ' });
+
+    expect(changes).toEqual([
+      { key: 'Name', from: 'Front Door', to: 'Porch' },
+      { key: 'PostEventCount', from: '5', to: '10' },
+    ]);
+  });
+
+  it('ignores numbers that are written differently', () => {
+    const original = getMonitorConfigValues(monitor);
+
+    expect(diffMonitorConfig(original, { ...original, AlarmMaxFPS: '10' })).toEqual([]);
+  });
+});
+
+describe('buildMonitorConfigUpdate', () => {
+  const changes = [
+    { key: 'MaxFPS' as const, from: '', to: '5' },
+    { key: 'RecordAudio' as const, from: '0', to: '1' },
+  ];
+
+  it('sends the new values', () => {
+    expect(buildMonitorConfigUpdate(changes)).toEqual({ 'Monitor[MaxFPS]': '5', 'Monitor[RecordAudio]': '1' });
+  });
+
+  it('sends the old values when reverting', () => {
+    expect(buildMonitorConfigUpdate(changes, 'revert')).toEqual({
+      'Monitor[MaxFPS]': '',
+      'Monitor[RecordAudio]': '0',
+    });
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { parseMonitorRotation, getMonitorAspectRatio } from '../monitor-rotation';
+import { parseMonitorRotation, getMonitorAspectRatio, toCameraPoint } from '../monitor-rotation';
 
 describe('parseMonitorRotation', () => {
   it('returns none for empty values', () => {
@@ -46,3 +46,24 @@ describe('getMonitorAspectRatio', () => {
     expect(getMonitorAspectRatio('1920', '1080', '270')).toBe('1080 / 1920');
   });
 });
+
+describe('toCameraPoint', () => {
+  const point = { x: 0.25, y: 0.1 };
+
+  it('leaves unrotated points alone', () => {
+    expect(toCameraPoint(point, { kind: 'none' })).toEqual(point);
+    expect(toCameraPoint(point, { kind: 'unknown' })).toEqual(point);
+  });
+
+  it('undoes rotation', () => {
+    expect(toCameraPoint(point, { kind: 'degrees', degrees: 90 })).toEqual({ x: 0.9, y: 0.25 });
+    expect(toCameraPoint(point, { kind: 'degrees', degrees: 180 })).toEqual({ x: 0.75, y: 0.9 });
+    expect(toCameraPoint(point, { kind: 'degrees', degrees: 270 })).toEqual({ x: 0.1, y: 0.75 });
+    expect(toCameraPoint(point, { kind: 'degrees', degrees: -90 })).toEqual({ x: 0.1, y: 0.75 });
+  });
+
+  it('undoes flips', () => {
+    expect(toCameraPoint(point, { kind: 'flip_horizontal' })).toEqual({ x: 0.75, y: 0.1 });
+    expect(toCameraPoint(point, { kind: 'flip_vertical' })).toEqual({ x: 0.25, y: 0.9 });
+  });
+});
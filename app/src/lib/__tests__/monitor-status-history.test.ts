@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import {
+  appendStatusSample,
+  buildSparklinePaths,
+  createStatusSample,
+  formatBandwidth,
+  getRecentCaptureFps,
+  isLowFps,
+  pruneStatusHistory,
+  type MonitorStatusSample,
+} from '../monitor-status-history';
+
+const sample = (time: number, captureFps: number | null = 10): MonitorStatusSample => ({
+  time,
+  captureFps,
+  analysisFps: null,
+  bandwidth: null,
+});
+
+describe('createStatusSample', () => {
+  it('parses the status values', () => {
+    expect(
+      createStatusSample(
+        { MonitorId: '1', Status: 'Connected', CaptureFPS: '9.87', AnalysisFPS: '', CaptureBandwidth: '52340' },
+        1000
+      )
+    ).toEqual({ time: 1000, captureFps: 9.87, analysisFps: null, bandwidth: 52340 });
+  });
+
+  it('returns null when nothing was reported', () => {
+    expect(createStatusSample({ MonitorId: '1', Status: 'NotRunning' }, 1000)).toBeNull();
+    expect(createStatusSample(undefined, 1000)).toBeNull();
+  });
+});
+
+describe('appendStatusSample', () => {
+  it('keeps at most the given number of samples', () => {
+    const samples = [sample(1), sample(2), sample(3)];
+
+    expect(appendStatusSample(samples, sample(4), 3).map((s) => s.time)).toEqual([2, 3, 4]);
+  });
+
+  it('drops samples older than the age limit', () => {
+    const samples = [sample(1000), sample(5000)];
+
+    expect(appendStatusSample(samples, sample(9000), 10, 5000).map((s) => s.time)).toEqual([5000, 9000]);
+  });
+
+  it('ignores a sample that is not newer than the last one', () => {
+    const samples = [sample(1000)];
+
+    expect(appendStatusSample(samples, sample(1000, 1))).toBe(samples);
+  });
+});
+
+describe('pruneStatusHistory', () => {
+  it('removes monitors without recent samples', () => {
+    const history = { '1': [sample(1000), sample(9000)], '2': [sample(2000)] };
+
+    expect(pruneStatusHistory(history, 10000, 5000)).toEqual({ '1': [sample(9000)] });
+  });
+});
+
+describe('low FPS detection', () => {
+  it('averages the most recent samples that report an FPS', () => {
+    const samples = [sample(1, 10), sample(2, 1), sample(3, null), sample(4, 2), sample(5, 3)];
+
+    expect(getRecentCaptureFps(samples)).toBe(2);
+    expect(getRecentCaptureFps([])).toBeNull();
+  });
+
+  it('flags a monitor when the recent FPS is below the threshold', () => {
+    const samples = [sample(1, 10), sample(2, 1), sample(3, 1), sample(4, 1)];
+
+    expect(isLowFps(samples, 2)).toBe(true);
+    expect(isLowFps(samples, 1)).toBe(false);
+    expect(isLowFps(samples, 0)).toBe(false);
+  });
+
+  it('does not flag a single slow poll', () => {
+    expect(isLowFps([sample(1, 10), sample(2, 10), sample(3, 0.5)], 5)).toBe(false);
+  });
+});
+
+describe('buildSparklinePaths', () => {
+  it('scales values to the box and breaks the line at gaps', () => {
+    expect(buildSparklinePaths([0, 10, null, 5, 10], 40, 10)).toEqual(['0,10 10,0', '30,5 40,0']);
+  });
+
+  it('draws a flat line in the middle', () => {
+    expect(buildSparklinePaths([3, 3], 10, 10)).toEqual(['0,5 10,5']);
+  });
+
+  it('returns nothing without values', () => {
+    expect(buildSparklinePaths([null, null], 10, 10)).toEqual([]);
+  });
+});
+
+describe('formatBandwidth', () => {
+  it('formats bytes per second', () => {
+    expect(formatBandwidth(512)).toBe('512 B/s');
+    expect(formatBandwidth(52340)).toBe('51 kB/s');
+    expect(formatBandwidth(3 * 1024 * 1024)).toBe('3.0 MB/s');
+    expect(formatBandwidth(null)).toBe('-');
+  });
+});
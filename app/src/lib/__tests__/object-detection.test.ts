@@ -0,0 +1,108 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getEventDetections, parseDetectionJson, parseDetectionNotes } from '../object-detection';
+import { httpGet } from '../http';
+
+vi.mock('../http', () => ({
+  httpGet: vi.fn(),
+}));
+
+vi.mock('../logger', () => ({
+  log: {
+    app: vi.fn(),
+  },
+  LogLevel: {
+    DEBUG: 0,
+    INFO: 1,
+    WARN: 2,
+    ERROR: 3,
+    NONE: 4,
+  },
+}));
+
+const objdetectJson = {
+  labels: ['person', 'car'],
+  boxes: [
+    [10, 20, 110, 220],
+    [300, 100, 400, 160],
+  ],
+  confidences: [0.97, 0.8],
+  frame_id: 'snapshot',
+  image_dimensions: { original: [1080, 1920], resized: [540, 960] },
+};
+
+describe('parseDetectionJson', () => {
+  it('parses labels, confidences and boxes scaled to the original frame', () => {
+    const result = parseDetectionJson(objdetectJson);
+
+    expect(result).toEqual({
+      objects: [
+        { label: 'person', confidence: 0.97, box: { x1: 20, y1: 40, x2: 220, y2: 440 } },
+        { label: 'car', confidence: 0.8, box: { x1: 600, y1: 200, x2: 800, y2: 320 } },
+      ],
+      frameId: 'snapshot',
+      imageWidth: 1920,
+      imageHeight: 1080,
+      source: 'json',
+    });
+  });
+
+  it('keeps boxes unscaled without resize information', () => {
+    const result = parseDetectionJson({ labels: ['dog'], boxes: [[1, 2, 3, 4]], frame_id: '42' });
+
+    expect(result?.objects[0]).toEqual({ label: 'dog', confidence: null, box: { x1: 1, y1: 2, x2: 3, y2: 4 } });
+    expect(result?.frameId).toBe(42);
+  });
+
+  it('returns null for unrelated data', () => {
+    expect(parseDetectionJson('<html>Not found</html>')).toBeNull();
+    expect(parseDetectionJson({ detections: [] })).toBeNull();
+  });
+});
+
+describe('parseDetectionNotes', () => {
+  it('parses detections and stops at the motion cause', () => {
+    const result = parseDetectionNotes('[a] detected:person:97% car:80% Motion: Front Door');
+
+    expect(result).toEqual({
+      objects: [
+        { label: 'person', confidence: 0.97, box: null },
+        { label: 'car', confidence: 0.8, box: null },
+      ],
+      frameId: 'alarm',
+      source: 'notes',
+    });
+  });
+
+  it('returns null when notes have no detections', () => {
+    expect(parseDetectionNotes('Motion: All')).toBeNull();
+    expect(parseDetectionNotes(null)).toBeNull();
+  });
+});
+
+describe('getEventDetections', () => {
+  beforeEach(() => {
+    vi.mocked(httpGet).mockReset();
+  });
+
+  it('reads objdetect.json from the event directory', async () => {
+    vi.mocked(httpGet).mockResolvedValue({ data: objdetectJson, status: 200, statusText: 'OK', headers: {} });
+
+    const result = await getEventDetections('https://zm.test', '7', null, { token: 'abc' });
+
+    expect(vi.mocked(httpGet).mock.calls[0][0]).toContain('file=objdetect.json');
+    expect(result?.source).toBe('json');
+    expect(result?.objects).toHaveLength(2);
+  });
+
+  it('falls back to the event notes when the file is missing', async () => {
+    vi.mocked(httpGet).mockRejectedValue(new Error('HTTP 404: Not Found'));
+
+    const result = await getEventDetections('https://zm.test', '7', '[s] detected:cat:55%');
+
+    expect(result).toEqual({
+      objects: [{ label: 'cat', confidence: 0.55, box: null }],
+      frameId: 'snapshot',
+      source: 'notes',
+    });
+  });
+});
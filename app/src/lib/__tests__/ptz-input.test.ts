@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import type { ZMControl } from '../../api/types';
+import {
+  combineDirections,
+  getMovePrefix,
+  getStopCommand,
+  getZoomPrefix,
+  isContinuousCommand,
+  isKeyboardControlTarget,
+  readGamepadStick,
+} from '../ptz-input';
+
+const control = (fields: Partial<ZMControl>): ZMControl => fields as ZMControl;
+
+describe('command prefixes', () => {
+  it('prefers continuous moves and zoom', () => {
+    expect(getMovePrefix(control({ CanMoveCon: '1', CanMoveRel: '1' }))).toBe('moveCon');
+    expect(getMovePrefix(control({ CanMoveRel: '1' }))).toBe('moveRel');
+    expect(getMovePrefix(control({}))).toBe('moveCon');
+    expect(getZoomPrefix(control({ CanZoomRel: '1' }))).toBe('zoomRel');
+    expect(getZoomPrefix(control({ CanZoomCon: '1' }))).toBe('zoomCon');
+  });
+});
+
+describe('continuous commands', () => {
+  it('stops moves and zooms with the matching command', () => {
+    expect(isContinuousCommand('moveConUp')).toBe(true);
+    expect(isContinuousCommand('zoomConTele')).toBe(true);
+    expect(isContinuousCommand('moveRelUp')).toBe(false);
+    expect(getStopCommand('moveConUp')).toBe('moveStop');
+    expect(getStopCommand('zoomConWide')).toBe('zoomStop');
+  });
+});
+
+describe('combineDirections', () => {
+  it('combines a vertical and a horizontal direction', () => {
+    expect(combineDirections(['Up'], true)).toBe('Up');
+    expect(combineDirections(['Up', 'Left'], true)).toBe('UpLeft');
+    expect(combineDirections(['Right', 'Down'], true)).toBe('DownRight');
+  });
+
+  it('uses the last pressed direction without diagonal support', () => {
+    expect(combineDirections(['Up', 'Left'], false)).toBe('Left');
+    expect(combineDirections(['Left', 'Up'], false)).toBe('Up');
+  });
+
+  it('cancels out opposite directions', () => {
+    expect(combineDirections(['Up', 'Down'], true)).toBeNull();
+    expect(combineDirections(['Up', 'Down', 'Left'], true)).toBe('Left');
+    expect(combineDirections([], true)).toBeNull();
+  });
+});
+
+describe('readGamepadStick', () => {
+  it('ignores deflection inside the deadzone', () => {
+    expect(readGamepadStick(0.1, -0.1, true)).toBeNull();
+    expect(readGamepadStick(0, 0, true)).toBeNull();
+  });
+
+  it('maps the stick angle to a direction', () => {
+    expect(readGamepadStick(0, -1, true)?.direction).toBe('Up');
+    expect(readGamepadStick(1, 0, true)?.direction).toBe('Right');
+    expect(readGamepadStick(-0.7, 0.7, true)?.direction).toBe('DownLeft');
+    expect(readGamepadStick(-0.9, -0.3, false)?.direction).toBe('Left');
+  });
+
+  it('scales speed from the edge of the deadzone in steps', () => {
+    expect(readGamepadStick(0, -1, true)?.speed).toBe(100);
+    expect(readGamepadStick(0, -0.6, true)?.speed).toBe(50);
+    // Just past the deadzone still moves at the lowest step
+    expect(readGamepadStick(0, -0.21, true)?.speed).toBe(10);
+  });
+});
+
+describe('isKeyboardControlTarget', () => {
+  it('leaves fields, sliders and dialogs their arrow keys', () => {
+    const input = document.createElement('input');
+    const slider = document.createElement('span');
+    slider.setAttribute('role', 'slider');
+    const dialog = document.createElement('div');
+    dialog.setAttribute('role', 'dialog');
+    const button = document.createElement('button');
+    dialog.appendChild(button);
+
+    expect(isKeyboardControlTarget(input)).toBe(true);
+    expect(isKeyboardControlTarget(slider)).toBe(true);
+    expect(isKeyboardControlTarget(button)).toBe(true);
+    expect(isKeyboardControlTarget(document.body)).toBe(false);
+    expect(isKeyboardControlTarget(null)).toBe(false);
+  });
+});
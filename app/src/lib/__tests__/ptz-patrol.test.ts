@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addPatrolStop,
+  clampDwell,
+  EMPTY_PATROL,
+  getNextStopPreset,
+  movePatrolStop,
+  removePatrolStop,
+  updatePatrolStop,
+  type PtzPatrol,
+} from '../ptz-patrol';
+import { PTZ_PATROL } from '../zmng-constants';
+
+const patrol: PtzPatrol = {
+  stops: [
+    { preset: 1, dwellSeconds: 10 },
+    { preset: 3, dwellSeconds: 30 },
+  ],
+  returnHome: false,
+  enabled: true,
+};
+
+describe('clampDwell', () => {
+  it('rounds to whole seconds within the allowed range', () => {
+    expect(clampDwell(12.4)).toBe(12);
+    expect(clampDwell(1)).toBe(PTZ_PATROL.minDwellSeconds);
+    expect(clampDwell(100000)).toBe(PTZ_PATROL.maxDwellSeconds);
+    expect(clampDwell(NaN)).toBe(PTZ_PATROL.defaultDwellSeconds);
+  });
+});
+
+describe('addPatrolStop', () => {
+  it('appends a stop with the default dwell time', () => {
+    expect(addPatrolStop(EMPTY_PATROL, 2).stops).toEqual([
+      { preset: 2, dwellSeconds: PTZ_PATROL.defaultDwellSeconds },
+    ]);
+  });
+});
+
+describe('updatePatrolStop', () => {
+  it('changes one stop and clamps its dwell time', () => {
+    const updated = updatePatrolStop(patrol, 1, { preset: 4, dwellSeconds: 2 });
+    expect(updated.stops).toEqual([
+      { preset: 1, dwellSeconds: 10 },
+      { preset: 4, dwellSeconds: PTZ_PATROL.minDwellSeconds },
+    ]);
+  });
+});
+
+describe('removePatrolStop', () => {
+  it('removes one stop', () => {
+    expect(removePatrolStop(patrol, 0).stops).toEqual([{ preset: 3, dwellSeconds: 30 }]);
+  });
+
+  it('switches off a patrol left without stops', () => {
+    const single = removePatrolStop(patrol, 0);
+    expect(removePatrolStop(single, 0)).toEqual({ stops: [], returnHome: false, enabled: false });
+  });
+});
+
+describe('movePatrolStop', () => {
+  it('swaps a stop with its neighbour', () => {
+    expect(movePatrolStop(patrol, 1, -1).stops.map((stop) => stop.preset)).toEqual([3, 1]);
+  });
+
+  it('leaves the patrol alone at the ends', () => {
+    expect(movePatrolStop(patrol, 0, -1)).toBe(patrol);
+    expect(movePatrolStop(patrol, 1, 1)).toBe(patrol);
+  });
+});
+
+describe('getNextStopPreset', () => {
+  it('continues after the last stop and wraps around', () => {
+    expect(getNextStopPreset(EMPTY_PATROL, [1, 2, 3])).toBe(1);
+    expect(getNextStopPreset(patrol, [1, 2, 3, 4])).toBe(4);
+    expect(getNextStopPreset(patrol, [2, 1, 3])).toBe(2);
+  });
+
+  it('returns null without presets', () => {
+    expect(getNextStopPreset(patrol, [])).toBeNull();
+  });
+});
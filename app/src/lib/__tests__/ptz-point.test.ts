@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import type { ZMControl } from '../../api/types';
+import {
+  getImagePoint,
+  getObjectFitBox,
+  getPointMode,
+  getRegion,
+  isTap,
+  planCenterMove,
+  planRegionZoom,
+} from '../ptz-point';
+
+const control = (fields: Partial<ZMControl>): ZMControl => ({ CanMove: '1', ...fields }) as ZMControl;
+const camera = { width: 1920, height: 1080 };
+
+describe('getPointMode', () => {
+  it('prefers map, then relative, then continuous moves', () => {
+    expect(getPointMode(control({ CanMoveMap: '1', CanMoveRel: '1' }))).toBe('map');
+    expect(getPointMode(control({ CanMoveAbs: '1', CanMoveRel: '1' }))).toBe('relative');
+    expect(getPointMode(control({ CanMoveCon: '1' }))).toBe('continuous');
+    expect(getPointMode(control({ CanMoveAbs: '1' }))).toBeNull();
+    expect(getPointMode(control({ CanMove: '0', CanMoveMap: '1' }))).toBeNull();
+    expect(getPointMode(undefined)).toBeNull();
+  });
+});
+
+describe('getObjectFitBox', () => {
+  const element = { left: 10, top: 20, width: 400, height: 400 };
+  const image = { width: 200, height: 100 };
+
+  it('letterboxes contained images', () => {
+    expect(getObjectFitBox(element, image, 'contain')).toEqual({ left: 10, top: 120, width: 400, height: 200 });
+  });
+
+  it('overflows covered images', () => {
+    expect(getObjectFitBox(element, image, 'cover')).toEqual({ left: -190, top: 20, width: 800, height: 400 });
+  });
+
+  it('stretches filled images and keeps unscaled ones at their size', () => {
+    expect(getObjectFitBox(element, image, 'fill')).toEqual(element);
+    expect(getObjectFitBox(element, image, 'none')).toEqual({ left: 110, top: 170, width: 200, height: 100 });
+    expect(getObjectFitBox(element, image, 'scale-down')).toEqual({ left: 110, top: 170, width: 200, height: 100 });
+  });
+});
+
+describe('getImagePoint', () => {
+  const box = { left: 0, top: 100, width: 400, height: 200 };
+
+  it('normalizes points on the image and ignores the letterbox', () => {
+    expect(getImagePoint(100, 150, box)).toEqual({ x: 0.25, y: 0.25 });
+    expect(getImagePoint(100, 50, box)).toBeNull();
+  });
+});
+
+describe('getRegion and isTap', () => {
+  it('spans two points in any order', () => {
+    expect(getRegion({ x: 0.75, y: 0.5 }, { x: 0.25, y: 0.25 })).toEqual({ x: 0.25, y: 0.25, width: 0.5, height: 0.25 });
+  });
+
+  it('treats short drags as taps', () => {
+    expect(isTap({ x: 0.5, y: 0.5 }, { x: 0.505, y: 0.5 })).toBe(true);
+    expect(isTap({ x: 0.5, y: 0.5 }, { x: 0.6, y: 0.5 })).toBe(false);
+  });
+});
+
+describe('planCenterMove', () => {
+  it('sends map moves the point in camera pixels', () => {
+    expect(planCenterMove(control({ CanMoveMap: '1' }), { x: 0.25, y: 0.5 }, camera, 50)).toEqual([
+      { command: 'moveMap', point: { x: 480, y: 540 } },
+    ]);
+  });
+
+  it('steps relative moves by the offset from the center', () => {
+    expect(planCenterMove(control({ CanMoveRel: '1' }), { x: 0.25, y: 0.5 }, camera, 50)).toEqual([
+      { command: 'moveRelLeft', speed: 50 },
+    ]);
+    expect(planCenterMove(control({ CanMoveRel: '1', CanMoveDiag: '1' }), { x: 1, y: 0.25 }, camera, 50)).toEqual([
+      { command: 'moveRelUpRight', speed: 100, tiltSpeed: 50 },
+    ]);
+    expect(planCenterMove(control({ CanMoveRel: '1' }), { x: 1, y: 0.25 }, camera, 50)).toEqual([
+      { command: 'moveRelRight', speed: 100 },
+      { command: 'moveRelUp', speed: 50 },
+    ]);
+  });
+
+  it('times continuous moves by the offset', () => {
+    expect(planCenterMove(control({ CanMoveCon: '1' }), { x: 0.5, y: 1 }, camera, 60)).toEqual([
+      { command: 'moveConDown', speed: 60, holdMs: 1500 },
+    ]);
+  });
+
+  it('does nothing for points at the center or cameras that cannot move', () => {
+    expect(planCenterMove(control({ CanMoveRel: '1' }), { x: 0.51, y: 0.49 }, camera, 50)).toEqual([]);
+    expect(planCenterMove(control({ CanMove: '0' }), { x: 0, y: 0 }, camera, 50)).toEqual([]);
+  });
+});
+
+describe('planRegionZoom', () => {
+  const region = { x: 0, y: 0.25, width: 0.5, height: 0.25 };
+
+  it('centers on the region and zooms in until it fills the view', () => {
+    expect(planRegionZoom(control({ CanMoveMap: '1', CanZoom: '1', CanZoomRel: '1' }), region, camera, 50)).toEqual([
+      { command: 'moveMap', point: { x: 480, y: 405 } },
+      { command: 'zoomRelTele', speed: 50 },
+    ]);
+  });
+
+  it('times continuous zoom by the magnification', () => {
+    const steps = planRegionZoom(control({ CanMoveMap: '1', CanZoom: '1', CanZoomCon: '1' }), region, camera, 50);
+
+    expect(steps[1]).toEqual({ command: 'zoomConTele', speed: 50, holdMs: 1000 });
+  });
+
+  it('only centers cameras without zoom', () => {
+    expect(planRegionZoom(control({ CanMoveMap: '1' }), region, camera, 50)).toHaveLength(1);
+  });
+});
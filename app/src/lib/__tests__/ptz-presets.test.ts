@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import type { ZMControl } from '../../api/types';
+import {
+  canSetPresets,
+  getPresetCount,
+  movePreset,
+  normalizePresetName,
+  resolvePresets,
+  updatePreset,
+} from '../ptz-presets';
+
+const control = (fields: Partial<ZMControl>): ZMControl => fields as ZMControl;
+
+describe('getPresetCount', () => {
+  it('reads the preset count of controls with presets', () => {
+    expect(getPresetCount(control({ HasPresets: '1', NumPresets: '3' }))).toBe(3);
+    expect(getPresetCount(control({ HasPresets: '0', NumPresets: '3' }))).toBe(0);
+    expect(getPresetCount(control({ HasPresets: '1', NumPresets: 'abc' }))).toBe(0);
+    expect(getPresetCount(undefined)).toBe(0);
+  });
+});
+
+describe('canSetPresets', () => {
+  it('requires presets and the set capability', () => {
+    expect(canSetPresets(control({ HasPresets: '1', NumPresets: '3', CanSetPresets: '1' }))).toBe(true);
+    expect(canSetPresets(control({ HasPresets: '1', NumPresets: '3', CanSetPresets: '0' }))).toBe(false);
+    expect(canSetPresets(control({ HasPresets: '0', CanSetPresets: '1' }))).toBe(false);
+  });
+});
+
+describe('resolvePresets', () => {
+  it('lists every preset by number when nothing is saved', () => {
+    expect(resolvePresets([], 3)).toEqual([{ number: 1 }, { number: 2 }, { number: 3 }]);
+  });
+
+  it('keeps the saved order and appends the rest', () => {
+    const saved = [{ number: 3, name: 'Gate' }, { number: 1 }];
+
+    expect(resolvePresets(saved, 3).map((preset) => preset.number)).toEqual([3, 1, 2]);
+  });
+
+  it('drops presets the control no longer has and duplicates', () => {
+    const saved = [{ number: 5, name: 'Old' }, { number: 2 }, { number: 2, name: 'Twice' }];
+
+    expect(resolvePresets(saved, 2)).toEqual([{ number: 2 }, { number: 1 }]);
+  });
+});
+
+describe('updatePreset', () => {
+  it('changes only the given preset', () => {
+    const presets = [{ number: 1 }, { number: 2, name: 'Gate' }];
+
+    expect(updatePreset(presets, 2, { pinned: true })).toEqual([
+      { number: 1 },
+      { number: 2, name: 'Gate', pinned: true },
+    ]);
+  });
+});
+
+describe('movePreset', () => {
+  const presets = [{ number: 1 }, { number: 2 }, { number: 3 }];
+
+  it('swaps a preset with its neighbour', () => {
+    expect(movePreset(presets, 2, -1).map((preset) => preset.number)).toEqual([2, 1, 3]);
+    expect(movePreset(presets, 2, 1).map((preset) => preset.number)).toEqual([1, 3, 2]);
+  });
+
+  it('leaves the list alone at the edges', () => {
+    expect(movePreset(presets, 1, -1)).toBe(presets);
+    expect(movePreset(presets, 3, 1)).toBe(presets);
+    expect(movePreset(presets, 9, 1)).toBe(presets);
+  });
+});
+
+describe('normalizePresetName', () => {
+  it('trims names and treats blank names as unset', () => {
+    expect(normalizePresetName('  Gate  ')).toBe('Gate');
+    expect(normalizePresetName('   ')).toBeUndefined();
+    expect(normalizePresetName('x'.repeat(50))).toHaveLength(32);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import type { EventData } from '../../api/types';
+import {
+  getEventFrameAtOffset,
+  getEventOffsetSeconds,
+  getEventTimeRange,
+  getReviewCoverage,
+} from '../review-playback';
+
+const makeEvent = (id: string, monitorId: string, start: string, end: string | null, extra = {}) =>
+  ({
+    Event: {
+      Id: id,
+      MonitorId: monitorId,
+      StartDateTime: start,
+      EndDateTime: end,
+      Length: '60',
+      Frames: '600',
+      ...extra,
+    },
+  }) as unknown as EventData;
+
+const at = (value: string) => new Date(value).getTime();
+
+describe('getEventTimeRange', () => {
+  it('uses the start and end time', () => {
+    const range = getEventTimeRange(makeEvent('1', '1', '2024-01-15 10:00:00', '2024-01-15 10:01:30'));
+    expect(range).toEqual({ start: at('2024-01-15T10:00:00'), end: at('2024-01-15T10:01:30') });
+  });
+
+  it('uses the length while the event is still recording', () => {
+    const range = getEventTimeRange(makeEvent('1', '1', '2024-01-15 10:00:00', null));
+    expect(range.end - range.start).toBe(60000);
+  });
+});
+
+describe('getReviewCoverage', () => {
+  const events = [
+    makeEvent('1', '1', '2024-01-15 10:00:00', '2024-01-15 10:01:00'),
+    makeEvent('2', '1', '2024-01-15 10:05:00', '2024-01-15 10:06:00'),
+    makeEvent('3', '2', '2024-01-15 10:00:30', '2024-01-15 10:02:00'),
+    makeEvent('4', '1', '2024-01-15 10:00:40', '2024-01-15 10:00:50'),
+  ];
+
+  it('finds the event covering the moment on the monitor', () => {
+    const coverage = getReviewCoverage(events, '2', at('2024-01-15T10:01:00'));
+    expect(coverage.event?.Event.Id).toBe('3');
+  });
+
+  it('prefers the event that started last when events overlap', () => {
+    const coverage = getReviewCoverage(events, '1', at('2024-01-15T10:00:45'));
+    expect(coverage.event?.Event.Id).toBe('4');
+  });
+
+  it('reports a gap with the next event', () => {
+    const coverage = getReviewCoverage(events, '1', at('2024-01-15T10:02:00'));
+    expect(coverage.event).toBeNull();
+    expect(coverage.nextEvent?.Event.Id).toBe('2');
+  });
+
+  it('treats the end time as exclusive', () => {
+    const coverage = getReviewCoverage(events, '1', at('2024-01-15T10:06:00'));
+    expect(coverage).toEqual({ event: null, nextEvent: null });
+  });
+});
+
+describe('getEventOffsetSeconds', () => {
+  const event = makeEvent('1', '1', '2024-01-15 10:00:00', '2024-01-15 10:01:00');
+
+  it('returns the seconds since the event start', () => {
+    expect(getEventOffsetSeconds(event, at('2024-01-15T10:00:12'))).toBe(12);
+  });
+
+  it('clamps to the event', () => {
+    expect(getEventOffsetSeconds(event, at('2024-01-15T09:59:00'))).toBe(0);
+    expect(getEventOffsetSeconds(event, at('2024-01-15T10:05:00'))).toBe(60);
+  });
+});
+
+describe('getEventFrameAtOffset', () => {
+  const event = makeEvent('1', '1', '2024-01-15 10:00:00', '2024-01-15 10:01:00');
+
+  it('maps the offset to a 1-based frame number', () => {
+    expect(getEventFrameAtOffset(event, 0)).toBe(1);
+    expect(getEventFrameAtOffset(event, 30)).toBe(301);
+  });
+
+  it('stays within the frames of the event', () => {
+    expect(getEventFrameAtOffset(event, 120)).toBe(600);
+  });
+
+  it('returns the first frame for events without a length', () => {
+    expect(getEventFrameAtOffset(makeEvent('1', '1', '2024-01-15 10:00:00', null, { Length: '0' }), 5)).toBe(1);
+  });
+});
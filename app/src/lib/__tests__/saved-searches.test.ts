@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import {
+  exportSavedSearches,
+  inferSavedSearchDateRange,
+  parseSavedSearchesImport,
+  resolveSavedSearchDates,
+  savedSearchToEventFilters,
+  savedSearchToParams,
+  type SavedEventSearch,
+} from '../saved-searches';
+
+const now = new Date(2024, 0, 15, 12, 0);
+
+const makeSearch = (overrides: Partial<SavedEventSearch> = {}): SavedEventSearch => ({
+  id: 'search-1',
+  name: 'Morning check',
+  monitorIds: ['1', '2'],
+  tagIds: ['7'],
+  dateRange: { type: 'relative', hours: 24 },
+  favoritesOnly: true,
+  advanced: { cause: { value: 'Motion', match: 'contains' }, maxScore: { min: 30 } },
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('resolveSavedSearchDates', () => {
+  it('resolves relative ranges against the reference time', () => {
+    expect(resolveSavedSearchDates({ type: 'relative', hours: 24 }, now)).toEqual({
+      start: '2024-01-14T12:00',
+      end: '2024-01-15T12:00',
+    });
+  });
+
+  it('returns absolute ranges unchanged', () => {
+    expect(
+      resolveSavedSearchDates({ type: 'absolute', start: '2024-01-01T00:00', end: '2024-01-02T00:00' }, now)
+    ).toEqual({ start: '2024-01-01T00:00', end: '2024-01-02T00:00' });
+  });
+
+  it('returns empty strings without a date range', () => {
+    expect(resolveSavedSearchDates(null, now)).toEqual({ start: '', end: '' });
+  });
+});
+
+describe('inferSavedSearchDateRange', () => {
+  it('treats a range ending now as relative', () => {
+    expect(inferSavedSearchDateRange('2024-01-14T12:00', '2024-01-15T11:58', now)).toEqual({
+      type: 'relative',
+      hours: 24,
+    });
+  });
+
+  it('keeps a range ending in the past as absolute', () => {
+    expect(inferSavedSearchDateRange('2024-01-10T00:00', '2024-01-11T00:00', now)).toEqual({
+      type: 'absolute',
+      start: '2024-01-10T00:00',
+      end: '2024-01-11T00:00',
+    });
+  });
+
+  it('returns null without dates', () => {
+    expect(inferSavedSearchDateRange('', '', now)).toBeNull();
+  });
+});
+
+describe('savedSearchToParams', () => {
+  it('builds Events page URL parameters', () => {
+    expect(savedSearchToParams(makeSearch(), now)).toEqual({
+      sort: 'StartDateTime',
+      direction: 'desc',
+      monitorId: '1,2',
+      tagIds: '7',
+      favorites: 'true',
+      startDateTime: '2024-01-14T12:00',
+      endDateTime: '2024-01-15T12:00',
+      cause: 'contains:Motion',
+      maxScore: '30..',
+    });
+  });
+
+  it('omits empty filters', () => {
+    const search = makeSearch({ monitorIds: [], tagIds: [], dateRange: null, favoritesOnly: false, advanced: {} });
+    expect(savedSearchToParams(search, now)).toEqual({ sort: 'StartDateTime', direction: 'desc' });
+  });
+});
+
+describe('savedSearchToEventFilters', () => {
+  it('builds server-side filters', () => {
+    const filters = savedSearchToEventFilters(makeSearch(), (date) => date.toISOString(), now);
+    expect(filters.monitorId).toBe('1,2');
+    expect(filters.startDateTime).toBe(new Date(2024, 0, 14, 12, 0).toISOString());
+    expect(filters.endDateTime).toBe(now.toISOString());
+    expect(filters.cause).toEqual({ value: 'Motion', match: 'contains' });
+  });
+});
+
+describe('export and import', () => {
+  it('round-trips searches without IDs', () => {
+    const text = exportSavedSearches([makeSearch()]);
+    expect(text).not.toContain('search-1');
+
+    const { searches, skipped } = parseSavedSearchesImport(text);
+    expect(skipped).toBe(0);
+    expect(searches).toEqual([
+      {
+        name: 'Morning check',
+        monitorIds: ['1', '2'],
+        tagIds: ['7'],
+        dateRange: { type: 'relative', hours: 24 },
+        favoritesOnly: true,
+        advanced: { cause: { value: 'Motion', match: 'contains' }, maxScore: { min: 30 } },
+      },
+    ]);
+  });
+
+  it('accepts a bare array and fills defaults', () => {
+    const { searches } = parseSavedSearchesImport(JSON.stringify([{ name: 'Front door', monitorIds: [3] }]));
+    expect(searches).toEqual([
+      { name: 'Front door', monitorIds: ['3'], tagIds: [], dateRange: null, favoritesOnly: false, advanced: {} },
+    ]);
+  });
+
+  it('skips invalid entries', () => {
+    const text = JSON.stringify({ searches: [{ name: '' }, { name: 'Valid' }, 'nope'] });
+    const { searches, skipped } = parseSavedSearchesImport(text);
+    expect(searches.map((s) => s.name)).toEqual(['Valid']);
+    expect(skipped).toBe(2);
+  });
+
+  it('throws on files that are not saved searches', () => {
+    expect(() => parseSavedSearchesImport('{"foo": 1}')).toThrow();
+    expect(() => parseSavedSearchesImport('not json')).toThrow();
+  });
+});
@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { formatForServer, formatLocalDateTime } from '../time';
+import { formatForServer, formatLocalDateTime, getZonedDateTime, zonedDateTimeToDate } from '../time';
 import { useProfileStore } from '../../stores/profile';
 
 // Mock the profile store - using primitives pattern (not deprecated currentProfile getter)
@@ -226,3 +226,31 @@ describe('formatLocalDateTime', () => {
     });
   });
 });
+
+describe('getZonedDateTime', () => {
+  it('reads the wall clock in another timezone', () => {
+    const result = getZonedDateTime(new Date('2024-01-15T02:30:00Z'), 'America/New_York');
+
+    expect(result).toEqual({ year: 2024, month: 1, day: 14, hour: 21, minute: 30, second: 0 });
+  });
+});
+
+describe('zonedDateTimeToDate', () => {
+  it('finds the instant for a wall-clock time', () => {
+    const result = zonedDateTimeToDate(
+      { year: 2024, month: 1, day: 14, hour: 18, minute: 0, second: 0 },
+      'America/New_York'
+    );
+
+    expect(result.toISOString()).toBe('2024-01-14T23:00:00.000Z');
+  });
+
+  it('uses the offset in effect on that day', () => {
+    const result = zonedDateTimeToDate(
+      { year: 2024, month: 7, day: 1, hour: 18, minute: 0, second: 0 },
+      'America/New_York'
+    );
+
+    expect(result.toISOString()).toBe('2024-07-01T22:00:00.000Z');
+  });
+});
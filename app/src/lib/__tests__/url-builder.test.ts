@@ -13,6 +13,7 @@ import {
   getMonitorStreamUrl,
   getMonitorControlUrl,
   getEventImageUrl,
+  getEventFileUrl,
   getEventVideoUrl,
   getEventZmsUrl,
   getZmsControlUrl,
@@ -152,6 +153,18 @@ describe('getMonitorControlUrl', () => {
     });
     expect(result).toContain('token=mytoken');
   });
+
+  it('passes the move speed as xge and yge', () => {
+    expect(getMonitorControlUrl(portalUrl, monitorId, 'moveConUp')).toContain('xge=0&yge=0');
+    expect(getMonitorControlUrl(portalUrl, monitorId, 'moveConUp', { speed: 70 })).toContain('xge=70&yge=70');
+    expect(getMonitorControlUrl(portalUrl, monitorId, 'moveConUp', { speed: 150 })).toContain('xge=100&yge=100');
+  });
+
+  it('sends map points instead of speeds', () => {
+    const result = getMonitorControlUrl(portalUrl, monitorId, 'moveMap', { point: { x: 480.4, y: 540 } });
+    expect(result).toContain('x=480&y=540&scale=100');
+    expect(result).not.toContain('xge=');
+  });
 });
 
 describe('getEventImageUrl', () => {
@@ -281,6 +294,17 @@ describe('getEventZmsUrl', () => {
   });
 });
 
+describe('getEventFileUrl', () => {
+  it('generates event file URL with token', () => {
+    const result = getEventFileUrl('https://zm.com', '123', 'objdetect.json', { token: 'abc' });
+    expect(result).toContain('/index.php');
+    expect(result).toContain('view=file');
+    expect(result).toContain('eid=123');
+    expect(result).toContain('file=objdetect.json');
+    expect(result).toContain('token=abc');
+  });
+});
+
 describe('getZmsControlUrl', () => {
   const portalUrl = 'https://zm.com';
   const command = 1; // ZMS_COMMANDS.cmdPlay
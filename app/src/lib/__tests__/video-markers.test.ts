@@ -3,8 +3,22 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { frameToTimestamp, generateEventMarkers } from '../video-markers';
-import type { Event } from '../../api/types';
+import {
+  buildFrameScoreSeries,
+  frameToTimestamp,
+  generateEventMarkers,
+  getAlarmFrameRuns,
+} from '../video-markers';
+import type { Event, Frame } from '../../api/types';
+
+const createFrame = (frameId: number, type: Frame['Type'], score = 0): Frame => ({
+  Id: String(1000 + frameId),
+  EventId: '123',
+  FrameId: frameId,
+  Type: type,
+  Delta: frameId / 10,
+  Score: score,
+});
 
 describe('frameToTimestamp', () => {
   it('calculates timestamp for middle frame', () => {
@@ -274,4 +288,71 @@ describe('generateEventMarkers', () => {
     expect(markers[0].time).toBe(1800);
     expect(markers[1].time).toBe(2700);
   });
+
+  it('generates one alarm marker per alarm run when frames are available', () => {
+    const frames = [
+      createFrame(10, 'Bulk'),
+      createFrame(20, 'Alarm', 12),
+      createFrame(21, 'Alarm', 40),
+      createFrame(22, 'Alarm', 8),
+      createFrame(30, 'Normal'),
+      createFrame(70, 'Alarm', 25),
+    ];
+
+    const markers = generateEventMarkers(createMockEvent(), frames);
+
+    expect(markers).toEqual([
+      { time: 2, endTime: 2.2, type: 'alarm', frameId: 20, endFrameId: 22, score: 40 },
+      { time: 7, endTime: 7, type: 'alarm', frameId: 70, endFrameId: 70, score: 25 },
+      { time: 2.1, type: 'maxScore', frameId: 21, score: 40 },
+    ]);
+  });
+
+  it('falls back to the summary frame IDs when frames have no alarms', () => {
+    const markers = generateEventMarkers(createMockEvent(), [createFrame(10, 'Bulk')]);
+
+    expect(markers).toHaveLength(1);
+    expect(markers[0]).toEqual({ time: 5, type: 'alarm', frameId: 50 });
+  });
+});
+
+describe('getAlarmFrameRuns', () => {
+  it('splits runs at stored non-alarm frames', () => {
+    const runs = getAlarmFrameRuns([
+      createFrame(5, 'Alarm', 3),
+      createFrame(4, 'Alarm', 9),
+      createFrame(6, 'Normal'),
+      createFrame(7, 'Alarm', 1),
+    ]);
+
+    expect(runs).toEqual([
+      { startFrameId: 4, endFrameId: 5, startTime: 0.4, endTime: 0.5, maxScore: 9, maxScoreFrameId: 4, maxScoreTime: 0.4 },
+      { startFrameId: 7, endFrameId: 7, startTime: 0.7, endTime: 0.7, maxScore: 1, maxScoreFrameId: 7, maxScoreTime: 0.7 },
+    ]);
+  });
+
+  it('returns no runs without alarm frames', () => {
+    expect(getAlarmFrameRuns([createFrame(1, 'Normal'), createFrame(2, 'Bulk')])).toEqual([]);
+  });
+});
+
+describe('buildFrameScoreSeries', () => {
+  it('keeps every frame for short events', () => {
+    const series = buildFrameScoreSeries([createFrame(2, 'Alarm', 7), createFrame(1, 'Normal')]);
+
+    expect(series).toEqual([
+      { time: 0.1, score: 0, frameId: 1 },
+      { time: 0.2, score: 7, frameId: 2 },
+    ]);
+  });
+
+  it('keeps the peak of each bucket for long events', () => {
+    const frames = Array.from({ length: 100 }, (_, i) => createFrame(i + 1, 'Normal'));
+    frames[42] = createFrame(43, 'Alarm', 99);
+
+    const series = buildFrameScoreSeries(frames, 10);
+
+    expect(series).toHaveLength(10);
+    expect(series[4]).toEqual({ time: 4.3, score: 99, frameId: 43 });
+  });
 });
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { crc32, createZipArchive } from '../zip';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+describe('crc32', () => {
+  it('matches the standard check value', () => {
+    expect(crc32(encode('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('returns 0 for empty input', () => {
+    expect(crc32(new Uint8Array())).toBe(0);
+  });
+});
+
+describe('createZipArchive', () => {
+  it('writes stored entries with local headers and a central directory', () => {
+    const archive = createZipArchive([
+      { name: 'manifest.json', data: encode('{}') },
+      { name: 'event-1/video.mp4', data: encode('video') },
+    ]);
+    const view = new DataView(archive.buffer);
+
+    // First local file header
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint16(8, true)).toBe(0); // stored
+    expect(view.getUint32(14, true)).toBe(crc32(encode('{}')));
+    expect(view.getUint32(18, true)).toBe(2);
+    expect(new TextDecoder().decode(archive.subarray(30, 43))).toBe('manifest.json');
+
+    // End of central directory
+    const end = archive.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+
+    const centralStart = view.getUint32(end + 16, true);
+    expect(view.getUint32(centralStart, true)).toBe(0x02014b50);
+    expect(view.getUint32(centralStart + 42, true)).toBe(0);
+  });
+
+  it('stores data unchanged', () => {
+    const data = new Uint8Array([0, 1, 2, 255]);
+    const archive = createZipArchive([{ name: 'a.bin', data }]);
+
+    expect(Array.from(archive.subarray(35, 39))).toEqual([0, 1, 2, 255]);
+  });
+
+  it('stores the modification time as an MS-DOS date', () => {
+    const archive = createZipArchive([
+      { name: 'a.txt', data: encode('a'), modified: new Date(2024, 0, 15, 10, 30, 20) },
+    ]);
+    const view = new DataView(archive.buffer);
+
+    expect(view.getUint16(10, true)).toBe((10 << 11) | (30 << 5) | 10);
+    expect(view.getUint16(12, true)).toBe(((2024 - 1980) << 9) | (1 << 5) | 15);
+  });
+});
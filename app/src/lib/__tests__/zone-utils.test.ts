@@ -11,6 +11,13 @@ import {
   transformPoint,
   coordsToSvgPointsWithTransform,
   getOrientedDimensions,
+  inverseTransformPoint,
+  formatZoneCoords,
+  getPolygonArea,
+  getRectanglePoints,
+  clampPoint,
+  isPolygonSelfIntersecting,
+  validateZonePolygon,
   type ZoneTransform,
 } from '../zone-utils';
 import type { MonitorRotation } from '../monitor-rotation';
@@ -252,3 +259,63 @@ describe('getOrientedDimensions', () => {
     expect(result).toEqual({ width: 1920, height: 1080 });
   });
 });
+
+describe('inverseTransformPoint', () => {
+  it.each([0, 90, 180, 270])('undoes transformPoint at %i degrees', (degrees) => {
+    const transform: ZoneTransform = {
+      rotation: degrees === 0 ? { kind: 'none' } : { kind: 'degrees', degrees },
+      originalWidth: 640,
+      originalHeight: 480,
+    };
+    const point = { x: 100, y: 30 };
+    expect(inverseTransformPoint(transformPoint(point, transform), transform)).toEqual(point);
+  });
+});
+
+describe('formatZoneCoords', () => {
+  it('rounds points to whole pixels', () => {
+    expect(formatZoneCoords([{ x: 0.4, y: 10.6 }, { x: 100, y: 0 }])).toBe('0,11 100,0');
+  });
+});
+
+describe('getPolygonArea', () => {
+  it('computes the area regardless of winding', () => {
+    const square = getRectanglePoints({ x: 10, y: 10 }, { x: 0, y: 0 });
+    expect(getPolygonArea(square)).toBe(100);
+    expect(getPolygonArea([...square].reverse())).toBe(100);
+  });
+});
+
+describe('clampPoint', () => {
+  it('keeps points inside the image', () => {
+    expect(clampPoint({ x: -5, y: 900 }, 640, 480)).toEqual({ x: 0, y: 479 });
+  });
+});
+
+describe('isPolygonSelfIntersecting', () => {
+  it('accepts simple polygons', () => {
+    expect(isPolygonSelfIntersecting(parseZoneCoords('0,0 100,0 100,100 50,50 0,100'))).toBe(false);
+  });
+
+  it('detects crossing edges', () => {
+    // Bow tie
+    expect(isPolygonSelfIntersecting(parseZoneCoords('0,0 100,100 100,0 0,100'))).toBe(true);
+  });
+
+  it('detects a vertex touching another edge', () => {
+    expect(isPolygonSelfIntersecting(parseZoneCoords('0,0 100,0 100,100 50,0 0,100'))).toBe(true);
+  });
+});
+
+describe('validateZonePolygon', () => {
+  it('accepts a valid polygon', () => {
+    expect(validateZonePolygon(parseZoneCoords('0,0 639,0 639,479 0,479'), 640, 480)).toBeNull();
+  });
+
+  it('reports the first problem found', () => {
+    expect(validateZonePolygon(parseZoneCoords('0,0 10,10'), 640, 480)).toBe('TOO_FEW_POINTS');
+    expect(validateZonePolygon(parseZoneCoords('0,0 640,0 640,480'), 640, 480)).toBe('OUT_OF_BOUNDS');
+    expect(validateZonePolygon(parseZoneCoords('0,0 100,100 100,0 0,100'), 640, 480)).toBe('SELF_INTERSECTING');
+    expect(validateZonePolygon(parseZoneCoords('0,0 50,50 100,100'), 640, 480)).toBe('ZERO_AREA');
+  });
+});
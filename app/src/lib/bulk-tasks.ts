@@ -0,0 +1,141 @@
+/**
+ * Bulk Task Runner
+ *
+ * Runs an action over a list of items as a single tracked background task.
+ * Progress is reported per item, the task can be cancelled from the
+ * background task drawer, failures are collected instead of aborting the
+ * whole run, and the failed items can be retried as a new task.
+ */
+
+import {
+  useBackgroundTasks,
+  type BackgroundTaskItemFailure,
+  type TaskType,
+} from '../stores/backgroundTasks';
+import { log, LogLevel } from './logger';
+
+export interface BulkTaskOptions {
+  /** Title shown in the background task drawer */
+  title: string;
+  /** Optional description shown under the title */
+  description?: string;
+  /** Task type, used for the drawer icon */
+  type?: TaskType;
+  /** IDs of the items to process */
+  itemIds: string[];
+  /** Process one item; throw to mark it as failed */
+  action: (itemId: string, signal: AbortSignal) => Promise<void>;
+  /** Number of items processed at the same time */
+  concurrency?: number;
+  /** Called after each item that succeeded */
+  onItemSuccess?: (itemId: string) => void;
+  /** Called once when the run ends (including cancellation) */
+  onFinish?: (result: BulkTaskResult) => void;
+}
+
+export interface BulkTaskResult {
+  succeeded: string[];
+  failed: BackgroundTaskItemFailure[];
+  cancelled: boolean;
+}
+
+export interface BulkTaskHandle {
+  taskId: string;
+  /** Resolves when every item has been processed or the task was cancelled */
+  done: Promise<BulkTaskResult>;
+}
+
+const DEFAULT_CONCURRENCY = 3;
+
+/**
+ * Start a bulk task. Returns immediately; the items are processed in the background.
+ *
+ * @example
+ * ```typescript
+ * runBulkTask({
+ *   title: 'Archive 300 events',
+ *   itemIds: eventIds,
+ *   action: (eventId) => setEventArchived(eventId, true).then(() => undefined),
+ * });
+ * ```
+ */
+export function runBulkTask(options: BulkTaskOptions): BulkTaskHandle {
+  const { title, description, type = 'bulk', itemIds, action, onItemSuccess, onFinish } = options;
+  const concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+  const abortController = new AbortController();
+  const taskStore = useBackgroundTasks.getState();
+
+  const taskId = taskStore.addTask({
+    type,
+    metadata: { title, description },
+    items: { total: itemIds.length, succeeded: 0, failed: [] },
+    cancelFn: () => {
+      abortController.abort();
+      log.app('Bulk task cancelled by user', LogLevel.INFO, { title });
+    },
+  });
+
+  const succeeded: string[] = [];
+  const failed: BackgroundTaskItemFailure[] = [];
+  let nextIndex = 0;
+
+  const report = () => {
+    useBackgroundTasks.getState().updateItems(taskId, {
+      total: itemIds.length,
+      succeeded: succeeded.length,
+      failed: [...failed],
+    });
+  };
+
+  const worker = async () => {
+    while (nextIndex < itemIds.length && !abortController.signal.aborted) {
+      const itemId = itemIds[nextIndex++];
+      try {
+        await action(itemId, abortController.signal);
+        if (abortController.signal.aborted) return;
+        succeeded.push(itemId);
+        onItemSuccess?.(itemId);
+      } catch (error) {
+        if (abortController.signal.aborted) return;
+        failed.push({ id: itemId, error: error instanceof Error ? error.message : String(error) });
+      }
+      report();
+    }
+  };
+
+  const done = (async (): Promise<BulkTaskResult> => {
+    report();
+    await Promise.all(Array.from({ length: Math.min(concurrency, itemIds.length) }, worker));
+
+    const cancelled = abortController.signal.aborted;
+    const result: BulkTaskResult = { succeeded, failed, cancelled };
+    const store = useBackgroundTasks.getState();
+
+    if (cancelled) {
+      // Already marked as cancelled by cancelTask
+    } else if (failed.length > 0) {
+      const failedIds = failed.map((failure) => failure.id);
+      useBackgroundTasks.setState((state) => ({
+        tasks: state.tasks.map((task) =>
+          task.id === taskId
+            ? { ...task, retryFn: () => runBulkTask({ ...options, itemIds: failedIds }) }
+            : task
+        ),
+      }));
+      store.failTask(taskId, new Error(`${failed.length} of ${itemIds.length} items failed`));
+      log.app('Bulk task finished with failures', LogLevel.WARN, {
+        title,
+        succeeded: succeeded.length,
+        failed: failed.length,
+      });
+    } else {
+      store.completeTask(taskId);
+      log.app('Bulk task completed', LogLevel.INFO, { title, count: succeeded.length });
+    }
+
+    onFinish?.(result);
+    return result;
+  })();
+
+  return { taskId, done };
+}
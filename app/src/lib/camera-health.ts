@@ -0,0 +1,177 @@
+/**
+ * Camera Health Utilities
+ *
+ * Detects cameras that went offline, stalled at 0 FPS or lost their capture
+ * or analysis daemon, and decides when to raise an alert or a recovery
+ * notice. A problem must last for the grace period before it is reported,
+ * so brief reconnects and restarts stay quiet.
+ */
+
+import type { MonitorData } from '../api/types';
+
+export type CameraHealthIssue = 'offline' | 'stalled' | 'daemon';
+export type CameraDaemon = 'zmc' | 'zma';
+
+/** Health details attached to a notification entry */
+export interface CameraHealthDetails {
+  issue: CameraHealthIssue;
+  status: 'alert' | 'recovered';
+  /** The daemon that stopped, for daemon issues */
+  daemon?: CameraDaemon;
+}
+
+/** Per-monitor tracking between polls */
+export interface CameraHealthState {
+  issue: CameraHealthIssue | null;
+  daemon?: CameraDaemon;
+  /** When the current issue was first seen (ms) */
+  since: number;
+  /** Whether an alert was raised for the current issue */
+  alerted: boolean;
+}
+
+export interface CameraHealthObservation {
+  monitorId: string;
+  monitorName: string;
+  issue: CameraHealthIssue | null;
+  daemon?: CameraDaemon;
+}
+
+export interface CameraHealthNotice extends CameraHealthDetails {
+  monitorId: string;
+  monitorName: string;
+}
+
+/**
+ * Whether the monitor is expected to be capturing.
+ */
+export function isMonitorWatched({ Monitor }: MonitorData): boolean {
+  return Monitor.Function !== 'None' && Monitor.Enabled !== '0';
+}
+
+/**
+ * Daemons expected to run for a monitor.
+ * zma only runs for the analysing functions.
+ */
+export function getExpectedDaemons({ Monitor }: MonitorData): CameraDaemon[] {
+  return Monitor.Function === 'Modect' || Monitor.Function === 'Mocord' ? ['zmc', 'zma'] : ['zmc'];
+}
+
+/**
+ * Whether a daemonStatus status text reports a running daemon.
+ * zmdc reports "'zmc -m 1' running since ..., pid = 123" or "'zmc -m 1' not running".
+ */
+export function isDaemonRunning(statusText: string | undefined): boolean {
+  if (!statusText) return false;
+  return /\brunning\b/i.test(statusText) && !/\bnot running\b/i.test(statusText);
+}
+
+/**
+ * Work out a monitor's current issue from its status and daemon checks.
+ * A dead daemon takes priority, then a lost connection, then a stall.
+ */
+export function observeCameraHealth(
+  monitor: MonitorData,
+  deadDaemon: CameraDaemon | null
+): CameraHealthObservation {
+  const base = { monitorId: monitor.Monitor.Id, monitorName: monitor.Monitor.Name };
+
+  if (deadDaemon) {
+    return { ...base, issue: 'daemon', daemon: deadDaemon };
+  }
+
+  const status = monitor.Monitor_Status;
+  if (!status?.Status) {
+    return { ...base, issue: null };
+  }
+  if (status.Status !== 'Connected') {
+    return { ...base, issue: 'offline' };
+  }
+
+  const captureFps = Number(status.CaptureFPS);
+  if (status.CaptureFPS != null && status.CaptureFPS !== '' && captureFps === 0) {
+    return { ...base, issue: 'stalled' };
+  }
+  return { ...base, issue: null };
+}
+
+/**
+ * Advance the health state of every observed monitor.
+ *
+ * An alert is raised once an issue has lasted for the grace period, and a
+ * recovery notice when an alerted monitor is healthy again. A monitor that
+ * changes from one issue to another while alerted is not reported twice.
+ * Monitors that are no longer observed are dropped.
+ */
+export function evaluateCameraHealth(
+  previous: Record<string, CameraHealthState>,
+  observations: CameraHealthObservation[],
+  now: number,
+  gracePeriodMs: number
+): { states: Record<string, CameraHealthState>; notices: CameraHealthNotice[] } {
+  const states: Record<string, CameraHealthState> = {};
+  const notices: CameraHealthNotice[] = [];
+
+  observations.forEach(({ monitorId, monitorName, issue, daemon }) => {
+    const prev = previous[monitorId];
+
+    if (!issue) {
+      if (prev?.alerted && prev.issue) {
+        notices.push({ monitorId, monitorName, issue: prev.issue, daemon: prev.daemon, status: 'recovered' });
+      }
+      states[monitorId] = { issue: null, since: now, alerted: false };
+      return;
+    }
+
+    if (prev?.alerted) {
+      states[monitorId] = { ...prev, issue, daemon };
+      return;
+    }
+
+    const since = prev?.issue === issue ? prev.since : now;
+    const alerted = now - since >= gracePeriodMs;
+    if (alerted) {
+      notices.push({ monitorId, monitorName, issue, daemon, status: 'alert' });
+    }
+    states[monitorId] = { issue, daemon, since, alerted };
+  });
+
+  return { states, notices };
+}
+
+/**
+ * Translation key and options describing a health notice.
+ */
+export function getCameraHealthMessage(details: CameraHealthDetails): {
+  key: string;
+  options: Record<string, string>;
+} {
+  const key =
+    details.status === 'alert' ? `camera_health.${details.issue}` : `camera_health.recovered_${details.issue}`;
+  return { key, options: { daemon: details.daemon ?? '' } };
+}
+
+/**
+ * Plain English description, stored as the notification cause.
+ */
+export function describeCameraHealth(details: CameraHealthDetails): string {
+  const daemon = details.daemon ?? 'daemon';
+  if (details.status === 'recovered') {
+    switch (details.issue) {
+      case 'offline':
+        return 'Camera back online';
+      case 'stalled':
+        return 'Camera capturing again';
+      case 'daemon':
+        return `${daemon} running again`;
+    }
+  }
+  switch (details.issue) {
+    case 'offline':
+      return 'Camera offline';
+    case 'stalled':
+      return 'Camera stalled at 0 FPS';
+    case 'daemon':
+      return `${daemon} not running`;
+  }
+}
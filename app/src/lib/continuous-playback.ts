@@ -0,0 +1,143 @@
+/**
+ * Continuous Playback Utilities
+ *
+ * Helpers for playing a monitor's events back to back on the event detail
+ * page. Events of one hour or day form a playlist; the playlist bar either
+ * shows recordings at their real position in time or compresses the gaps
+ * between them away.
+ */
+
+import type { EventData } from '../api/types';
+import { getEventTimeRange, type EventTimeRange } from './review-playback';
+
+/** Length of the playlist shown in continuous mode */
+export type ContinuousPlaybackSpan = 'hour' | 'day';
+
+/**
+ * How gaps between recordings are handled:
+ * - compress: the next event starts right away and the bar leaves gaps out
+ * - overlay: gaps are shown on the bar and announced over the player before the next event starts
+ */
+export type ContinuousPlaybackGaps = 'compress' | 'overlay';
+
+export interface ContinuousPlaybackSettings {
+  enabled: boolean;
+  span: ContinuousPlaybackSpan;
+  gaps: ContinuousPlaybackGaps;
+}
+
+export const DEFAULT_CONTINUOUS_PLAYBACK: ContinuousPlaybackSettings = {
+  enabled: false,
+  span: 'hour',
+  gaps: 'compress',
+};
+
+/** A recording on the playlist bar, as fractions (0-1) of the bar width */
+export interface PlaylistSegment {
+  eventId: string;
+  start: number;
+  width: number;
+}
+
+/**
+ * Get the hour or day containing a moment.
+ */
+export function getPlaybackSpanRange(time: number, span: ContinuousPlaybackSpan): EventTimeRange {
+  const start = new Date(time);
+  start.setMinutes(0, 0, 0);
+  if (span === 'day') {
+    start.setHours(0);
+    const end = new Date(start);
+    end.setDate(end.getDate() + 1);
+    return { start: start.getTime(), end: end.getTime() };
+  }
+  return { start: start.getTime(), end: start.getTime() + 60 * 60 * 1000 };
+}
+
+/**
+ * Sort events chronologically and drop duplicates.
+ */
+export function sortPlaylist(events: EventData[]): EventData[] {
+  const unique = Array.from(new Map(events.map((event) => [event.Event.Id, event])).values());
+  return unique.sort((a, b) => getEventTimeRange(a).start - getEventTimeRange(b).start);
+}
+
+/**
+ * Get the events before and after an event on the playlist.
+ */
+export function getPlaylistNeighbours(
+  playlist: EventData[],
+  eventId: string
+): { previous: EventData | null; next: EventData | null } {
+  const index = playlist.findIndex(({ Event }) => Event.Id === eventId);
+  if (index === -1) return { previous: null, next: null };
+  return {
+    previous: index > 0 ? playlist[index - 1] : null,
+    next: index < playlist.length - 1 ? playlist[index + 1] : null,
+  };
+}
+
+/**
+ * Seconds without recording between the end of one event and the start of the next.
+ */
+export function getGapSeconds(current: EventData, next: EventData): number {
+  return Math.max(0, getEventTimeRange(next).start - getEventTimeRange(current).end) / 1000;
+}
+
+/**
+ * Lay out the playlist on the bar.
+ *
+ * Events are clipped to the range. With compressed gaps the recordings are
+ * placed back to back, sized by their duration.
+ */
+export function getPlaylistSegments(
+  playlist: EventData[],
+  range: EventTimeRange,
+  gaps: ContinuousPlaybackGaps
+): PlaylistSegment[] {
+  const clipped = playlist
+    .map((event) => {
+      const { start, end } = getEventTimeRange(event);
+      return { eventId: event.Event.Id, start: Math.max(start, range.start), end: Math.min(end, range.end) };
+    })
+    .filter(({ start, end }) => end > start);
+
+  if (gaps === 'overlay') {
+    const length = range.end - range.start;
+    return clipped.map(({ eventId, start, end }) => ({
+      eventId,
+      start: (start - range.start) / length,
+      width: (end - start) / length,
+    }));
+  }
+
+  const total = clipped.reduce((sum, { start, end }) => sum + (end - start), 0);
+  let offset = 0;
+  return clipped.map(({ eventId, start, end }) => {
+    const segment = { eventId, start: offset / total, width: (end - start) / total };
+    offset += end - start;
+    return segment;
+  });
+}
+
+/**
+ * Position (0-1) on the bar of a playback offset into an event, or null if
+ * the event is not on the bar.
+ */
+export function getPlaylistPosition(
+  segments: PlaylistSegment[],
+  playlist: EventData[],
+  range: EventTimeRange,
+  eventId: string,
+  offsetSeconds: number
+): number | null {
+  const segment = segments.find((item) => item.eventId === eventId);
+  const event = playlist.find(({ Event }) => Event.Id === eventId);
+  if (!segment || !event) return null;
+
+  const { start, end } = getEventTimeRange(event);
+  const visibleStart = Math.max(start, range.start);
+  const visibleEnd = Math.min(end, range.end);
+  const time = Math.min(visibleEnd, Math.max(visibleStart, start + offsetSeconds * 1000));
+  return segment.start + ((time - visibleStart) / (visibleEnd - visibleStart)) * segment.width;
+}
@@ -0,0 +1,131 @@
+/**
+ * Digital Zoom Utilities
+ *
+ * A zoom is the part of the image that fills the view: its top-left corner,
+ * normalized to 0-1, and its magnification. The part always keeps the
+ * image's aspect ratio, so a zoom saved on one view shows the same area in
+ * any other view of the monitor, such as a montage tile or dashboard widget.
+ *
+ * Positions are measured on the image as drawn (allowing for object-fit), so
+ * letterboxing around the image does not shift the zoom.
+ */
+
+import type { MonitorFeedFit } from '../stores/settings';
+import { getObjectFitBox } from './ptz-point';
+import { DIGITAL_ZOOM } from './zmng-constants';
+
+export interface ZoomCrop {
+  x: number;
+  y: number;
+  /** Magnification, 1 shows the whole image */
+  scale: number;
+}
+
+/** A named zoom saved for a monitor */
+export interface ZoomView {
+  id: string;
+  name: string;
+  crop: ZoomCrop;
+  /** Shown as a montage tile of its own */
+  montage?: boolean;
+}
+
+interface Box {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export const FULL_CROP: ZoomCrop = { x: 0, y: 0, scale: 1 };
+
+/**
+ * Keep a zoom within the image and the allowed magnification.
+ */
+export function clampCrop(crop: ZoomCrop): ZoomCrop {
+  const scale = Math.min(DIGITAL_ZOOM.maxScale, Math.max(1, crop.scale));
+  const max = 1 - 1 / scale;
+  return {
+    x: Math.min(max, Math.max(0, crop.x)),
+    y: Math.min(max, Math.max(0, crop.y)),
+    scale,
+  };
+}
+
+/**
+ * Whether a zoom shows less than the whole image.
+ */
+export function isZoomed(crop: ZoomCrop): boolean {
+  return crop.scale > 1.001;
+}
+
+/**
+ * Change the magnification by a factor, keeping the point under the focus
+ * (a position in the view, 0-1) where it is.
+ */
+export function zoomCrop(crop: ZoomCrop, factor: number, focus: { x: number; y: number }): ZoomCrop {
+  const scale = Math.min(DIGITAL_ZOOM.maxScale, Math.max(1, crop.scale * factor));
+  const size = 1 / crop.scale;
+  const nextSize = 1 / scale;
+  return clampCrop({
+    x: crop.x + focus.x * (size - nextSize),
+    y: crop.y + focus.y * (size - nextSize),
+    scale,
+  });
+}
+
+/**
+ * Move the image with a drag, given as a fraction of the view.
+ */
+export function panCrop(crop: ZoomCrop, dx: number, dy: number): ZoomCrop {
+  return clampCrop({ ...crop, x: crop.x - dx / crop.scale, y: crop.y - dy / crop.scale });
+}
+
+/**
+ * Where the image is drawn in a view of the given size.
+ */
+export function getImageBox(
+  view: { width: number; height: number },
+  image: { width: number; height: number },
+  fit: MonitorFeedFit
+): Box {
+  return getObjectFitBox({ left: 0, top: 0, width: view.width, height: view.height }, image, fit);
+}
+
+/**
+ * CSS transform that shows a zoom, for a media element drawing the image
+ * at the given box with transform-origin at its top-left corner.
+ */
+export function getCropTransform(crop: ZoomCrop, box: Box): string {
+  const { scale } = crop;
+  const tx = box.left * (1 - scale) - scale * crop.x * box.width;
+  const ty = box.top * (1 - scale) - scale * crop.y * box.height;
+  return `translate(${tx}px, ${ty}px) scale(${scale})`;
+}
+
+/**
+ * Position of a point of the view on the drawn image, 0-1.
+ */
+export function getViewFocus(x: number, y: number, box: Box): { x: number; y: number } {
+  if (box.width <= 0 || box.height <= 0) return { x: 0.5, y: 0.5 };
+  return {
+    x: Math.min(1, Math.max(0, (x - box.left) / box.width)),
+    y: Math.min(1, Math.max(0, (y - box.top) / box.height)),
+  };
+}
+
+/**
+ * Trim a view name and limit its length. Returns undefined for blank names.
+ */
+export function normalizeViewName(name: string): string | undefined {
+  const trimmed = name.trim().slice(0, DIGITAL_ZOOM.maxNameLength);
+  return trimmed || undefined;
+}
+
+/**
+ * Layout ID of the montage tile showing a saved view.
+ * Monitor tiles use the bare monitor ID.
+ */
+export function getViewTileId(monitorId: string, viewId: string): string {
+  return `${monitorId}:${viewId}`;
+}
@@ -10,6 +10,7 @@
  * - Desktop (Tauri): Uses native File System and Dialog plugins for robust downloads
  * - Handles CORS issues via native HTTP or proxy
  * - Automatically saves media to device Photo/Video library on mobile
+ * - Bundles several events into one ZIP archive with a checksum manifest
  */
 
 import { writeFile } from '@tauri-apps/plugin-fs';
@@ -19,8 +20,11 @@ import { Platform } from './platform';
 import { wrapWithImageProxyIfNeeded } from './proxy-utils';
 import { httpRequest, type HttpProgress } from './http';
 
-import { getEventVideoUrl as buildEventVideoUrl } from './url-builder';
-import { useBackgroundTasks } from '../stores/backgroundTasks';
+import { getEventImageUrl as buildEventImageUrl, getEventVideoUrl as buildEventVideoUrl } from './url-builder';
+import { createZipArchive, type ZipEntry } from './zip';
+import { getEvent } from '../api/events';
+import type { Event } from '../api/types';
+import { useBackgroundTasks, type BackgroundTaskItemFailure } from '../stores/backgroundTasks';
 
 /**
  * Progress callback for download operations
@@ -413,6 +417,69 @@ async function downloadFromDataUrlWeb(dataUrl: string, filename: string): Promis
   setTimeout(() => document.body.removeChild(link), 100);
 }
 
+/**
+ * Save generated text (JSON, CSV) to a file.
+ *
+ * For web: triggers a browser download of a Blob.
+ * For mobile: writes the file to the Documents directory.
+ * For desktop: prompts the user for a save location.
+ *
+ * @param content - File contents
+ * @param filename - The target filename
+ * @param mimeType - MIME type of the contents (default: application/json)
+ * @returns false when the user cancelled the save dialog
+ */
+export async function downloadTextFile(
+  content: string,
+  filename: string,
+  mimeType: string = 'application/json'
+): Promise<boolean> {
+  try {
+    if (Platform.isTauri) {
+      const extension = filename.split('.').pop() || 'txt';
+      const savePath = await save({
+        defaultPath: filename,
+        filters: [{ name: extension.toUpperCase(), extensions: [extension] }],
+      });
+      if (!savePath) {
+        log.download('[Download] User cancelled save dialog', LogLevel.INFO);
+        return false;
+      }
+      await writeFile(savePath, new TextEncoder().encode(content));
+      log.download('[Download] Text file saved via native dialog', LogLevel.INFO, { path: savePath });
+      return true;
+    }
+
+    if (Platform.isNative) {
+      const { Filesystem, Directory, Encoding } = await import('@capacitor/filesystem');
+      const result = await Filesystem.writeFile({
+        path: filename,
+        data: content,
+        directory: Directory.Documents,
+        encoding: Encoding.UTF8,
+      });
+      log.download('[Download] Text file saved to Documents', LogLevel.INFO, { path: result.uri, filename });
+      return true;
+    }
+
+    const blobUrl = window.URL.createObjectURL(new Blob([content], { type: mimeType }));
+    const link = document.createElement('a');
+    link.href = blobUrl;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    setTimeout(() => {
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(blobUrl);
+    }, 100);
+    log.download('[Download] Text file downloaded via browser', LogLevel.INFO, { filename });
+    return true;
+  } catch (error) {
+    log.download('[Download] Failed to save text file', LogLevel.ERROR, { filename, error });
+    throw error;
+  }
+}
+
 /**
  * Get event video download URL from ZoneMinder.
  * ZoneMinder provides videos in different formats based on event storage.
@@ -425,6 +492,19 @@ export function getEventVideoDownloadUrl(
   return buildEventVideoUrl(portalUrl, eventId, { token });
 }
 
+/**
+ * Build the filename used when saving an event video.
+ */
+export function getEventVideoFilename(eventId: string, eventName: string): string {
+  // Sanitize event name for filename
+  const sanitizedName = eventName.replace(/[^a-zA-Z0-9-_]/g, '_');
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
+
+  // Try to download with appropriate extension
+  // ZoneMinder may return mp4, avi, or mjpeg depending on storage format
+  return `Event_${eventId}_${sanitizedName}_${timestamp}.mp4`;
+}
+
 /**
  * Download event video with background task tracking.
  */
@@ -435,14 +515,7 @@ export function downloadEventVideo(
   token?: string
 ): string {
   const videoUrl = getEventVideoDownloadUrl(portalUrl, eventId, token);
-
-  // Sanitize event name for filename
-  const sanitizedName = eventName.replace(/[^a-zA-Z0-9-_]/g, '_');
-  const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
-
-  // Try to download with appropriate extension
-  // ZoneMinder may return mp4, avi, or mjpeg depending on storage format
-  const filename = `Event_${eventId}_${sanitizedName}_${timestamp}.mp4`;
+  const filename = getEventVideoFilename(eventId, eventName);
 
   // Create abort controller for cancellation support
   const abortController = new AbortController();
@@ -499,3 +572,417 @@ export function downloadEventVideo(
 
   return taskId;
 }
+
+/**
+ * Options for building an event bundle
+ */
+export interface EventBundleOptions {
+  portalUrl: string;
+  token?: string;
+  /** Monitor ID -> name, recorded in the manifest */
+  monitorNames?: Map<string, string>;
+  signal?: AbortSignal;
+  /** Overall progress (0-100) while the files are fetched */
+  onProgress?: (percentage: number) => void;
+}
+
+/**
+ * A file in an event bundle with its SHA-256 checksum
+ */
+export interface EventBundleFile {
+  path: string;
+  size: number;
+  sha256: string;
+}
+
+/**
+ * A file that could not be added to an event bundle
+ */
+export interface EventBundleMissingFile {
+  eventId: string;
+  path: string;
+  error: string;
+}
+
+/**
+ * An event in an event bundle
+ */
+export interface EventBundleEvent {
+  id: string;
+  name: string;
+  monitorId: string;
+  monitorName?: string;
+  cause: string;
+  startDateTime: string;
+  endDateTime: string | null;
+  /** Whether the recording is included as the event video or as JPEG frames */
+  media: 'video' | 'frames';
+  files: string[];
+}
+
+/**
+ * Top-level manifest.json of an event bundle
+ */
+export interface EventBundleManifest {
+  format: 'zmng-event-bundle';
+  version: 1;
+  createdAt: string;
+  server: string;
+  events: EventBundleEvent[];
+  /** Every file in the archive except the manifest and checksum list */
+  files: EventBundleFile[];
+  missing: EventBundleMissingFile[];
+}
+
+export interface EventBundle {
+  data: Uint8Array;
+  manifest: EventBundleManifest;
+}
+
+/** Name of the checksum list, in the format read by `sha256sum -c` */
+const BUNDLE_CHECKSUM_FILE = 'SHA256SUMS';
+
+/** Share of an event's progress used by its recording; the rest is snapshot and alarm frame */
+const BUNDLE_MEDIA_SHARE = 0.9;
+
+const MIB = 1024 * 1024;
+
+/** Most JPEG frames fetched for the events of one bundle that have no video */
+export const BUNDLE_MAX_FRAMES = 3000;
+
+/**
+ * Largest bundle. The whole archive is built in memory, and on mobile it is
+ * encoded once more as base64 to be written, so the limit is lower there.
+ */
+export function getBundleMaxBytes(): number {
+  return Platform.isNative ? 256 * MIB : 1024 * MIB;
+}
+
+function base64ToBytes(base64: string): Uint8Array {
+  const binaryString = atob(base64);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  // Convert in chunks to stay below the argument limit of String.fromCharCode
+  const chunkSize = 0x8000;
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
+
+async function sha256Hex(data: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data as Uint8Array<ArrayBuffer>);
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Fetch a binary file into memory
+ */
+async function fetchBinary(url: string, signal?: AbortSignal): Promise<Uint8Array> {
+  // Use the image proxy for cross-origin URLs in dev mode
+  const response = await httpRequest<ArrayBuffer | string>(wrapWithImageProxyIfNeeded(url), {
+    method: 'GET',
+    responseType: 'arraybuffer',
+    signal,
+  });
+  if (response.status >= 400) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+  // Native HTTP returns binary responses as base64
+  return typeof response.data === 'string' ? base64ToBytes(response.data) : new Uint8Array(response.data);
+}
+
+/**
+ * Save generated binary data to a file, using the same platform paths as downloadTextFile
+ *
+ * @returns false when the user cancelled the save dialog
+ */
+async function saveBinaryFile(data: Uint8Array, filename: string, mimeType: string): Promise<boolean> {
+  if (Platform.isTauri) {
+    const extension = filename.split('.').pop() || 'bin';
+    const savePath = await save({
+      defaultPath: filename,
+      filters: [{ name: extension.toUpperCase(), extensions: [extension] }],
+    });
+    if (!savePath) {
+      log.download('[Download] User cancelled save dialog', LogLevel.INFO);
+      return false;
+    }
+    await writeFile(savePath, data);
+    log.download('[Download] File saved via native dialog', LogLevel.INFO, { path: savePath });
+    return true;
+  }
+
+  if (Platform.isNative) {
+    const { Filesystem, Directory } = await import('@capacitor/filesystem');
+    const result = await Filesystem.writeFile({
+      path: filename,
+      data: bytesToBase64(data),
+      directory: Directory.Documents,
+    });
+    log.download('[Download] File saved to Documents', LogLevel.INFO, { path: result.uri, filename });
+    return true;
+  }
+
+  const blobUrl = window.URL.createObjectURL(new Blob([data as Uint8Array<ArrayBuffer>], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = blobUrl;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  setTimeout(() => {
+    document.body.removeChild(link);
+    window.URL.revokeObjectURL(blobUrl);
+  }, 100);
+  log.download('[Download] File downloaded via browser', LogLevel.INFO, { filename });
+  return true;
+}
+
+/**
+ * Build the filename of an event bundle, e.g. `zmng-event-bundle-2024-01-15-1030.zip`.
+ */
+export function getEventBundleFilename(date: Date = new Date()): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const stamp = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}`;
+  return `zmng-event-bundle-${stamp}.zip`;
+}
+
+/**
+ * Bundle events into one ZIP archive.
+ *
+ * Each event gets a folder with its metadata (event.json), its recording
+ * (video.mp4, or the JPEG frames when the event has no video), the snapshot
+ * and the alarm frame. The archive root holds manifest.json, listing every
+ * file with its SHA-256 checksum, and a SHA256SUMS file for verification
+ * with standard tools.
+ *
+ * Files that cannot be fetched are listed in the manifest under `missing`
+ * instead of failing the whole bundle.
+ *
+ * The archive is built in memory, so the events' disk space and frame counts
+ * are checked against getBundleMaxBytes and BUNDLE_MAX_FRAMES before any
+ * media is fetched, and the fetched files against the size limit as they come.
+ *
+ * @param eventIds - Events to include, in order
+ * @param options - Server, token, progress callback and abort signal
+ * @throws Error if none of the events could be fetched, the bundle would be too large, or when aborted
+ */
+export async function createEventBundle(eventIds: string[], options: EventBundleOptions): Promise<EventBundle> {
+  const { portalUrl, token, monitorNames, signal, onProgress } = options;
+  const encoder = new TextEncoder();
+  const maxBytes = getBundleMaxBytes();
+  const entries: ZipEntry[] = [];
+  const files: EventBundleFile[] = [];
+  const missing: EventBundleMissingFile[] = [];
+  const events: EventBundleEvent[] = [];
+  let bundleBytes = 0;
+
+  const addFile = async (path: string, data: Uint8Array) => {
+    bundleBytes += data.length;
+    if (bundleBytes > maxBytes) {
+      throw new Error(`The bundle would be larger than ${maxBytes / MIB} MB; select fewer events`);
+    }
+    entries.push({ name: path, data });
+    files.push({ path, size: data.length, sha256: await sha256Hex(data) });
+  };
+
+  // Read every event first, so a selection that is too large fails before any media is fetched
+  const fetchedEvents: Event[] = [];
+  for (const eventId of eventIds) {
+    signal?.throwIfAborted();
+    try {
+      fetchedEvents.push((await getEvent(eventId)).Event);
+    } catch (error) {
+      signal?.throwIfAborted();
+      missing.push({ eventId, path: `event-${eventId}/event.json`, error: errorMessage(error) });
+      log.download('[Download] Failed to fetch event for bundle', LogLevel.WARN, { eventId, error });
+    }
+  }
+
+  if (fetchedEvents.length === 0) {
+    throw new Error('None of the events could be fetched');
+  }
+
+  const diskSpace = fetchedEvents.reduce((sum, event) => sum + (Number(event.DiskSpace) || 0), 0);
+  if (diskSpace > maxBytes) {
+    throw new Error(
+      `The events take up ${Math.ceil(diskSpace / MIB)} MB, ` +
+        `more than the ${maxBytes / MIB} MB a bundle can hold; select fewer events`
+    );
+  }
+  const frameTotal = fetchedEvents
+    .filter((event) => !event.DefaultVideo)
+    .reduce((sum, event) => sum + (Number(event.Frames) || 0), 0);
+  if (frameTotal > BUNDLE_MAX_FRAMES) {
+    throw new Error(
+      `The events without video have ${frameTotal} frames, ` +
+        `more than the ${BUNDLE_MAX_FRAMES} a bundle can hold; select fewer events`
+    );
+  }
+
+  for (const [index, event] of fetchedEvents.entries()) {
+    signal?.throwIfAborted();
+    const reportProgress = (share: number) =>
+      onProgress?.(Math.round(((index + share) / fetchedEvents.length) * 100));
+
+    const folder = `event-${event.Id}`;
+    const eventFiles: string[] = [];
+    const addRemoteFile = async (path: string, url: string) => {
+      let data;
+      try {
+        data = await fetchBinary(url, signal);
+      } catch (error) {
+        signal?.throwIfAborted();
+        missing.push({ eventId: event.Id, path, error: errorMessage(error) });
+        return;
+      }
+      await addFile(path, data);
+      eventFiles.push(path);
+    };
+
+    await addFile(`${folder}/event.json`, encoder.encode(JSON.stringify(event, null, 2)));
+    eventFiles.push(`${folder}/event.json`);
+
+    const media = event.DefaultVideo ? 'video' : 'frames';
+    if (media === 'video') {
+      await addRemoteFile(`${folder}/video.mp4`, getEventVideoDownloadUrl(portalUrl, event.Id, token));
+    } else {
+      const frameCount = Number(event.Frames) || 0;
+      for (let frame = 1; frame <= frameCount; frame++) {
+        await addRemoteFile(
+          `${folder}/frames/${String(frame).padStart(5, '0')}.jpg`,
+          buildEventImageUrl(portalUrl, event.Id, frame, { token })
+        );
+        reportProgress((frame / frameCount) * BUNDLE_MEDIA_SHARE);
+      }
+    }
+    reportProgress(BUNDLE_MEDIA_SHARE);
+
+    await addRemoteFile(`${folder}/snapshot.jpg`, buildEventImageUrl(portalUrl, event.Id, 'snapshot', { token }));
+    await addRemoteFile(`${folder}/alarm.jpg`, buildEventImageUrl(portalUrl, event.Id, 'alarm', { token }));
+    reportProgress(1);
+
+    events.push({
+      id: event.Id,
+      name: event.Name,
+      monitorId: event.MonitorId,
+      monitorName: monitorNames?.get(event.MonitorId),
+      cause: event.Cause,
+      startDateTime: event.StartDateTime,
+      endDateTime: event.EndDateTime,
+      media,
+      files: eventFiles,
+    });
+  }
+
+  const manifest: EventBundleManifest = {
+    format: 'zmng-event-bundle',
+    version: 1,
+    createdAt: new Date().toISOString(),
+    server: portalUrl,
+    events,
+    files,
+    missing,
+  };
+
+  const manifestData = encoder.encode(JSON.stringify(manifest, null, 2));
+  const checksums = [...files, { path: 'manifest.json', sha256: await sha256Hex(manifestData) }]
+    .map((file) => `${file.sha256}  ${file.path}\n`)
+    .join('');
+
+  const data = createZipArchive([
+    { name: 'manifest.json', data: manifestData },
+    { name: BUNDLE_CHECKSUM_FILE, data: encoder.encode(checksums) },
+    ...entries,
+  ]);
+
+  return { data, manifest };
+}
+
+/**
+ * Bundle events into a ZIP archive and save it, with background task tracking.
+ *
+ * Events whose metadata or recording could not be fetched are reported as
+ * failed items of the task; the bundle is still saved with everything else.
+ *
+ * @returns The background task ID
+ */
+export function downloadEventBundle(
+  eventIds: string[],
+  options: Omit<EventBundleOptions, 'signal' | 'onProgress'> & { description?: string }
+): string {
+  const { description, ...bundleOptions } = options;
+  const filename = getEventBundleFilename();
+  const abortController = new AbortController();
+  const taskStore = useBackgroundTasks.getState();
+
+  const taskId = taskStore.addTask({
+    type: 'export',
+    metadata: {
+      title: filename,
+      description,
+    },
+    cancelFn: () => {
+      abortController.abort();
+      log.download('Event bundle cancelled by user', LogLevel.INFO, { filename });
+    },
+  });
+
+  (async () => {
+    try {
+      const { data, manifest } = await createEventBundle(eventIds, {
+        ...bundleOptions,
+        signal: abortController.signal,
+        // Keep the last percent for writing the file
+        onProgress: (percentage) => useBackgroundTasks.getState().updateProgress(taskId, Math.min(percentage, 99)),
+      });
+
+      if (!(await saveBinaryFile(data, filename, 'application/zip'))) {
+        useBackgroundTasks.getState().cancelTask(taskId);
+        return;
+      }
+
+      // Report events that are missing their metadata or recording
+      const failed = new Map<string, BackgroundTaskItemFailure>();
+      manifest.missing
+        .filter(({ path }) => /\/(event\.json|video\.mp4|frames\/.*)$/.test(path))
+        .forEach(({ eventId, path, error }) => {
+          if (!failed.has(eventId)) failed.set(eventId, { id: eventId, error: `${path}: ${error}` });
+        });
+      useBackgroundTasks.getState().updateItems(taskId, {
+        total: eventIds.length,
+        succeeded: eventIds.length - failed.size,
+        failed: Array.from(failed.values()),
+      });
+
+      useBackgroundTasks.getState().completeTask(taskId);
+      log.download('Event bundle saved', LogLevel.INFO, {
+        filename,
+        events: manifest.events.length,
+        files: manifest.files.length,
+        missing: manifest.missing.length,
+        size: data.length,
+      });
+    } catch (error) {
+      if (abortController.signal.aborted) {
+        // Already marked as cancelled by cancelFn
+        return;
+      }
+      useBackgroundTasks.getState().failTask(taskId, error instanceof Error ? error : new Error('Export failed'));
+      log.download('Failed to create event bundle', LogLevel.ERROR, { filename, error });
+    }
+  })();
+
+  return taskId;
+}
@@ -0,0 +1,158 @@
+/**
+ * Event Analytics
+ *
+ * Aggregates events into the distributions shown on the Analytics page:
+ * per monitor, hour of day, weekday, cause, duration, score and archive
+ * state. Aggregation is incremental so charts can update as event pages
+ * arrive from the server.
+ */
+
+import type { EventData } from '../api/types';
+import { formatCsvCell } from './event-export';
+
+/** Lower bounds (seconds) of the event duration histogram buckets */
+export const DURATION_BUCKETS = [0, 10, 30, 60, 120, 300, 600, 1800];
+
+/** Lower bounds of the max score histogram buckets */
+export const SCORE_BUCKETS = [0, 10, 20, 30, 40, 50, 60, 70, 80, 90, 100];
+
+export interface EventAnalytics {
+  total: number;
+  /** Event count per monitor ID */
+  byMonitor: Record<string, number>;
+  /** Event count per hour of day (0-23) */
+  byHour: number[];
+  /** Event count per weekday (0 = Sunday) */
+  byWeekday: number[];
+  /** Event count per cause; events without a cause are counted under '' */
+  byCause: Record<string, number>;
+  /** Event count per DURATION_BUCKETS bucket */
+  byDuration: number[];
+  /** Event count per SCORE_BUCKETS bucket */
+  byScore: number[];
+  archived: number;
+  /** IDs already counted, so events repeated across pages are counted once */
+  eventIds: Set<string>;
+}
+
+/**
+ * Create an empty aggregate.
+ */
+export function createEventAnalytics(): EventAnalytics {
+  return {
+    total: 0,
+    byMonitor: {},
+    byHour: new Array(24).fill(0),
+    byWeekday: new Array(7).fill(0),
+    byCause: {},
+    byDuration: new Array(DURATION_BUCKETS.length).fill(0),
+    byScore: new Array(SCORE_BUCKETS.length).fill(0),
+    archived: 0,
+    eventIds: new Set(),
+  };
+}
+
+/**
+ * Get the index of the bucket containing a value.
+ * Bucket i covers [bounds[i], bounds[i + 1]); the last bucket is open-ended.
+ */
+export function getHistogramBucket(value: number, bounds: number[]): number {
+  let index = 0;
+  while (index < bounds.length - 1 && value >= bounds[index + 1]) {
+    index++;
+  }
+  return index;
+}
+
+/**
+ * Add a page of events to an aggregate.
+ * Returns a new aggregate; the given one is left unchanged.
+ */
+export function addEventsToAnalytics(analytics: EventAnalytics, events: EventData[]): EventAnalytics {
+  const next: EventAnalytics = {
+    total: analytics.total,
+    byMonitor: { ...analytics.byMonitor },
+    byHour: [...analytics.byHour],
+    byWeekday: [...analytics.byWeekday],
+    byCause: { ...analytics.byCause },
+    byDuration: [...analytics.byDuration],
+    byScore: [...analytics.byScore],
+    archived: analytics.archived,
+    eventIds: new Set(analytics.eventIds),
+  };
+
+  for (const { Event } of events) {
+    if (next.eventIds.has(Event.Id)) continue;
+    next.eventIds.add(Event.Id);
+    next.total++;
+
+    next.byMonitor[Event.MonitorId] = (next.byMonitor[Event.MonitorId] ?? 0) + 1;
+
+    const start = new Date(Event.StartDateTime.replace(' ', 'T'));
+    if (!Number.isNaN(start.getTime())) {
+      next.byHour[start.getHours()]++;
+      next.byWeekday[start.getDay()]++;
+    }
+
+    const cause = Event.Cause.trim();
+    next.byCause[cause] = (next.byCause[cause] ?? 0) + 1;
+
+    const length = parseFloat(Event.Length);
+    if (Number.isFinite(length)) {
+      next.byDuration[getHistogramBucket(length, DURATION_BUCKETS)]++;
+    }
+
+    const score = parseInt(Event.MaxScore, 10);
+    if (Number.isFinite(score)) {
+      next.byScore[getHistogramBucket(score, SCORE_BUCKETS)]++;
+    }
+
+    if (Event.Archived === '1') next.archived++;
+  }
+
+  return next;
+}
+
+/**
+ * Label of a histogram bucket, e.g. `10-30` or `1800+`.
+ */
+export function getHistogramBucketLabel(index: number, bounds: number[]): string {
+  return index < bounds.length - 1 ? `${bounds[index]}-${bounds[index + 1]}` : `${bounds[index]}+`;
+}
+
+export interface EventAnalyticsCsvLabels {
+  section: Record<'monitor' | 'hour' | 'weekday' | 'cause' | 'duration' | 'score' | 'archived', string>;
+  header: [string, string, string];
+  monitorName: (monitorId: string) => string;
+  weekdayName: (day: number) => string;
+  noCause: string;
+  archived: string;
+  unarchived: string;
+}
+
+/**
+ * Write an aggregate as CSV rows of section, value and event count.
+ */
+export function getEventAnalyticsCsv(analytics: EventAnalytics, labels: EventAnalyticsCsvLabels): string {
+  const rows: (string | number)[][] = [labels.header];
+  const add = (section: string, key: string, count: number) => rows.push([section, key, count]);
+
+  Object.entries(analytics.byMonitor).forEach(([monitorId, count]) =>
+    add(labels.section.monitor, labels.monitorName(monitorId), count)
+  );
+  analytics.byHour.forEach((count, hour) => add(labels.section.hour, String(hour).padStart(2, '0'), count));
+  analytics.byWeekday.forEach((count, day) => add(labels.section.weekday, labels.weekdayName(day), count));
+  Object.entries(analytics.byCause).forEach(([cause, count]) =>
+    add(labels.section.cause, cause || labels.noCause, count)
+  );
+  analytics.byDuration.forEach((count, index) =>
+    add(labels.section.duration, getHistogramBucketLabel(index, DURATION_BUCKETS), count)
+  );
+  analytics.byScore.forEach((count, index) =>
+    add(labels.section.score, getHistogramBucketLabel(index, SCORE_BUCKETS), count)
+  );
+  add(labels.section.archived, labels.archived, analytics.archived);
+  add(labels.section.archived, labels.unarchived, analytics.total - analytics.archived);
+
+  return rows.map((row) => row.map(formatCsvCell).join(',')).join('\r\n') + '\r\n';
+}
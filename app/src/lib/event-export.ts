@@ -0,0 +1,225 @@
+/**
+ * Event Export Utilities
+ *
+ * Formats event listings as CSV or JSON for reports and spreadsheets.
+ *
+ * Output is produced in chunks through a writer, so large result sets can be
+ * formatted page by page as they are fetched instead of building one big
+ * intermediate structure.
+ */
+
+import type { EventData, Tag } from '../api/types';
+
+export type EventExportFormat = 'csv' | 'json';
+
+export type EventExportColumn =
+  | 'id'
+  | 'name'
+  | 'monitor'
+  | 'start'
+  | 'end'
+  | 'length'
+  | 'frames'
+  | 'alarmFrames'
+  | 'maxScore'
+  | 'avgScore'
+  | 'totalScore'
+  | 'cause'
+  | 'notes'
+  | 'tags'
+  | 'favorite'
+  | 'archived';
+
+/** All columns, in output order */
+export const EVENT_EXPORT_COLUMNS: EventExportColumn[] = [
+  'id',
+  'name',
+  'monitor',
+  'start',
+  'end',
+  'length',
+  'frames',
+  'alarmFrames',
+  'maxScore',
+  'avgScore',
+  'totalScore',
+  'cause',
+  'notes',
+  'tags',
+  'favorite',
+  'archived',
+];
+
+/** Columns selected when the export dialog is first opened */
+export const DEFAULT_EVENT_EXPORT_COLUMNS: EventExportColumn[] = [
+  'id',
+  'monitor',
+  'start',
+  'end',
+  'length',
+  'maxScore',
+  'avgScore',
+  'cause',
+  'notes',
+  'tags',
+  'favorite',
+];
+
+/** Lookups needed for columns that are not part of the event itself */
+export interface EventExportContext {
+  /** Monitor ID -> monitor name */
+  monitorNames: Map<string, string>;
+  /** Event ID -> tags; null or undefined when tags are not available */
+  tagMap?: Map<string, Tag[]> | null;
+  /** Favorited event IDs */
+  favoriteIds: Set<string>;
+}
+
+export type EventExportValue = string | number | boolean | string[] | null;
+
+export interface EventExportWriter {
+  /** Text that starts the file */
+  begin: () => string;
+  /** Text for a batch of events */
+  write: (events: EventData[], context: EventExportContext) => string;
+  /** Text that ends the file */
+  end: () => string;
+}
+
+/** MIME type for each format */
+export const EVENT_EXPORT_MIME_TYPES: Record<EventExportFormat, string> = {
+  csv: 'text/csv',
+  json: 'application/json',
+};
+
+/** Byte order mark so spreadsheet applications detect UTF-8 */
+const CSV_BOM = '\uFEFF';
+const CSV_LINE_END = '\r\n';
+
+/** Cell prefixes that spreadsheet applications evaluate as formulas */
+const CSV_FORMULA_PREFIXES = ['=', '+', '-', '@', '\t', '\r'];
+
+const toNumber = (value: string | null | undefined): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+/**
+ * Get the value of one export column for an event.
+ */
+export function getEventExportValue(
+  { Event }: EventData,
+  column: EventExportColumn,
+  context: EventExportContext
+): EventExportValue {
+  switch (column) {
+    case 'id':
+      return Event.Id;
+    case 'name':
+      return Event.Name;
+    case 'monitor':
+      return context.monitorNames.get(Event.MonitorId) ?? Event.MonitorId;
+    case 'start':
+      return Event.StartDateTime;
+    case 'end':
+      return Event.EndDateTime;
+    case 'length':
+      return toNumber(Event.Length);
+    case 'frames':
+      return toNumber(Event.Frames);
+    case 'alarmFrames':
+      return toNumber(Event.AlarmFrames);
+    case 'maxScore':
+      return toNumber(Event.MaxScore);
+    case 'avgScore':
+      return toNumber(Event.AvgScore);
+    case 'totalScore':
+      return toNumber(Event.TotScore);
+    case 'cause':
+      return Event.Cause;
+    case 'notes':
+      return Event.Notes;
+    case 'tags':
+      return (context.tagMap?.get(Event.Id) ?? []).map((tag) => tag.Name);
+    case 'favorite':
+      return context.favoriteIds.has(Event.Id);
+    case 'archived':
+      return Event.Archived === '1';
+  }
+}
+
+/**
+ * Format a value as a CSV cell (RFC 4180).
+ * Text that a spreadsheet would run as a formula is prefixed with a quote.
+ */
+export function formatCsvCell(value: EventExportValue): string {
+  if (value === null) return '';
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+
+  let text = Array.isArray(value) ? value.join('; ') : value;
+  if (CSV_FORMULA_PREFIXES.some((prefix) => text.startsWith(prefix))) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Create a writer for the given format and columns.
+ *
+ * @param format - Output format
+ * @param columns - Columns to include, in order
+ * @param headers - CSV header text for each column (JSON uses the column IDs as keys)
+ *
+ * @example
+ * ```typescript
+ * const writer = createEventExportWriter('csv', ['id', 'start'], headers);
+ * const chunks = [writer.begin(), writer.write(events, context), writer.end()];
+ * ```
+ */
+export function createEventExportWriter(
+  format: EventExportFormat,
+  columns: EventExportColumn[],
+  headers: Record<EventExportColumn, string>
+): EventExportWriter {
+  if (format === 'csv') {
+    return {
+      begin: () => CSV_BOM + columns.map((column) => formatCsvCell(headers[column])).join(',') + CSV_LINE_END,
+      write: (events, context) =>
+        events
+          .map(
+            (event) =>
+              columns.map((column) => formatCsvCell(getEventExportValue(event, column, context))).join(',') +
+              CSV_LINE_END
+          )
+          .join(''),
+      end: () => '',
+    };
+  }
+
+  let isFirst = true;
+  return {
+    begin: () => '[',
+    write: (events, context) =>
+      events
+        .map((event) => {
+          const record = Object.fromEntries(
+            columns.map((column) => [column, getEventExportValue(event, column, context)])
+          );
+          const prefix = isFirst ? '\n  ' : ',\n  ';
+          isFirst = false;
+          return prefix + JSON.stringify(record);
+        })
+        .join(''),
+    end: () => (isFirst ? ']\n' : '\n]\n'),
+  };
+}
+
+/**
+ * Build the export filename, e.g. `zmng-events-2024-01-15-1030.csv`.
+ */
+export function getEventExportFilename(format: EventExportFormat, date: Date = new Date()): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const stamp = `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}`;
+  return `zmng-events-${stamp}.${format}`;
+}
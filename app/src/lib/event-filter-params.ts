@@ -0,0 +1,203 @@
+/**
+ * Event Filter Parameter Utilities
+ *
+ * Serializes the advanced (non monitor/date) event filters to and from
+ * URL search parameters so they survive deep links and browser history.
+ *
+ * Encodings:
+ * - Text filters:  `[!]match:value`  e.g. `contains:Motion`, `!regexp:^spider`
+ * - Range filters: `min..max`        e.g. `30..`, `..120`, `30..120`
+ * - ID lists:      `[!]id,id`        e.g. `1,2`, `!3`
+ * - Archived:      `1` or `0`
+ */
+
+import type {
+  EventFilters,
+  EventIdListFilter,
+  EventRangeFilter,
+  EventTextFilter,
+  EventTextMatch,
+} from '../api/events';
+
+/** Filters beyond monitors and date range, exposed in the advanced filter panel. */
+export type EventAdvancedFilters = Pick<
+  EventFilters,
+  'archived' | 'cause' | 'name' | 'notes' | 'maxScore' | 'avgScore' | 'length' | 'frames' | 'storage'
+>;
+
+export type EventTextFilterKey = 'cause' | 'name' | 'notes';
+export type EventRangeFilterKey = 'maxScore' | 'avgScore' | 'length' | 'frames';
+
+export const EVENT_TEXT_FILTER_KEYS: EventTextFilterKey[] = ['cause', 'name', 'notes'];
+export const EVENT_RANGE_FILTER_KEYS: EventRangeFilterKey[] = ['maxScore', 'avgScore', 'length', 'frames'];
+
+const TEXT_MATCHES: EventTextMatch[] = ['equals', 'contains', 'regexp'];
+
+/** URL search parameter names for each advanced filter */
+export const ADVANCED_FILTER_PARAMS: Record<keyof EventAdvancedFilters, string> = {
+  archived: 'archived',
+  cause: 'cause',
+  name: 'name',
+  notes: 'notes',
+  maxScore: 'maxScore',
+  avgScore: 'avgScore',
+  length: 'length',
+  frames: 'frames',
+  storage: 'storageId',
+};
+
+export function serializeTextFilter(filter: EventTextFilter): string {
+  return `${filter.negate ? '!' : ''}${filter.match ?? 'contains'}:${filter.value}`;
+}
+
+export function parseTextFilter(raw: string | null): EventTextFilter | undefined {
+  if (!raw) return undefined;
+  let rest = raw;
+  const negate = rest.startsWith('!');
+  if (negate) rest = rest.slice(1);
+
+  const separator = rest.indexOf(':');
+  const prefix = separator > 0 ? rest.slice(0, separator) : '';
+  if (TEXT_MATCHES.includes(prefix as EventTextMatch)) {
+    const value = rest.slice(separator + 1);
+    return value ? { value, match: prefix as EventTextMatch, negate } : undefined;
+  }
+
+  // No recognized match prefix - treat the whole string as a substring match
+  return rest ? { value: rest, match: 'contains', negate } : undefined;
+}
+
+export function serializeRangeFilter(range: EventRangeFilter): string {
+  return `${range.min ?? ''}..${range.max ?? ''}`;
+}
+
+export function parseRangeFilter(raw: string | null): EventRangeFilter | undefined {
+  if (!raw) return undefined;
+  const [minRaw = '', maxRaw = ''] = raw.split('..');
+  const toNumber = (value: string) => {
+    if (value.trim() === '') return undefined;
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  };
+  const min = toNumber(minRaw);
+  const max = toNumber(maxRaw);
+  if (min === undefined && max === undefined) return undefined;
+  return { min, max };
+}
+
+export function serializeIdListFilter(filter: EventIdListFilter): string {
+  const ids = filter.ids.map((id) => id.trim()).filter(Boolean);
+  return `${filter.negate ? '!' : ''}${ids.join(',')}`;
+}
+
+export function parseIdListFilter(raw: string | null): EventIdListFilter | undefined {
+  if (!raw) return undefined;
+  const negate = raw.startsWith('!');
+  const ids = (negate ? raw.slice(1) : raw)
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean);
+  return ids.length > 0 ? { ids, negate } : undefined;
+}
+
+/**
+ * Check whether a text filter has a value worth sending.
+ */
+function isTextFilterActive(filter: EventTextFilter | undefined): filter is EventTextFilter {
+  return !!filter && filter.value.trim() !== '';
+}
+
+/**
+ * Check whether a range filter has at least one bound.
+ */
+function isRangeFilterActive(range: EventRangeFilter | undefined): range is EventRangeFilter {
+  return !!range && (range.min !== undefined || range.max !== undefined);
+}
+
+/**
+ * Check whether an ID list filter has at least one non-empty ID.
+ */
+function isIdListFilterActive(filter: EventIdListFilter | undefined): filter is EventIdListFilter {
+  return !!filter && filter.ids.some((id) => id.trim() !== '');
+}
+
+/**
+ * Convert advanced filters into URL search parameters.
+ * Inactive (empty) filters are omitted.
+ *
+ * @param filters - Advanced filters to serialize
+ * @returns Record of search parameter names to values
+ */
+export function advancedFiltersToParams(filters: EventAdvancedFilters): Record<string, string> {
+  const params: Record<string, string> = {};
+
+  if (filters.archived !== undefined) {
+    params[ADVANCED_FILTER_PARAMS.archived] = filters.archived ? '1' : '0';
+  }
+  EVENT_TEXT_FILTER_KEYS.forEach((key) => {
+    const filter = filters[key];
+    if (isTextFilterActive(filter)) {
+      params[ADVANCED_FILTER_PARAMS[key]] = serializeTextFilter(filter);
+    }
+  });
+  EVENT_RANGE_FILTER_KEYS.forEach((key) => {
+    const range = filters[key];
+    if (isRangeFilterActive(range)) {
+      params[ADVANCED_FILTER_PARAMS[key]] = serializeRangeFilter(range);
+    }
+  });
+  if (isIdListFilterActive(filters.storage)) {
+    params[ADVANCED_FILTER_PARAMS.storage] = serializeIdListFilter(filters.storage);
+  }
+
+  return params;
+}
+
+/**
+ * Read advanced filters from URL search parameters.
+ *
+ * @param params - URL search parameters
+ * @returns Parsed advanced filters (only keys that are present)
+ */
+export function parseAdvancedFilters(params: URLSearchParams): EventAdvancedFilters {
+  const filters: EventAdvancedFilters = {};
+
+  const archived = params.get(ADVANCED_FILTER_PARAMS.archived);
+  if (archived === '1' || archived === '0') {
+    filters.archived = archived === '1';
+  }
+  EVENT_TEXT_FILTER_KEYS.forEach((key) => {
+    const filter = parseTextFilter(params.get(ADVANCED_FILTER_PARAMS[key]));
+    if (filter) filters[key] = filter;
+  });
+  EVENT_RANGE_FILTER_KEYS.forEach((key) => {
+    const range = parseRangeFilter(params.get(ADVANCED_FILTER_PARAMS[key]));
+    if (range) filters[key] = range;
+  });
+  const storage = parseIdListFilter(params.get(ADVANCED_FILTER_PARAMS.storage));
+  if (storage) filters.storage = storage;
+
+  return filters;
+}
+
+/**
+ * Check whether any advanced filter parameter is present in the URL.
+ */
+export function hasAdvancedFilterParams(params: URLSearchParams): boolean {
+  return Object.values(ADVANCED_FILTER_PARAMS).some((name) => params.get(name) !== null);
+}
+
+/**
+ * Count the advanced filters that are active, for filter badges.
+ */
+export function countAdvancedFilters(filters: EventAdvancedFilters): number {
+  let count = filters.archived !== undefined ? 1 : 0;
+  EVENT_TEXT_FILTER_KEYS.forEach((key) => {
+    if (isTextFilterActive(filters[key])) count++;
+  });
+  EVENT_RANGE_FILTER_KEYS.forEach((key) => {
+    if (isRangeFilterActive(filters[key])) count++;
+  });
+  if (isIdListFilterActive(filters.storage)) count++;
+  return count;
+}
@@ -0,0 +1,98 @@
+/**
+ * Event Incidents
+ *
+ * Groups near-simultaneous events of different monitors into incidents. An
+ * event joins an incident when its time range overlaps, or starts within a
+ * configurable gap after, an event of another monitor in that incident. One
+ * person walking around a house then shows up as one incident instead of a
+ * separate event per camera, while back-to-back events of a single camera
+ * stay separate incidents.
+ */
+
+import type { EventData } from '../api/types';
+import { getEventTimeRange } from './review-playback';
+
+/** How event lists are grouped */
+export type EventGrouping = 'none' | 'incidents';
+
+/** Default gap (seconds) between events that still belong to one incident */
+export const DEFAULT_INCIDENT_GAP_SECONDS = 30;
+
+/** Gaps offered in the incident settings, in seconds */
+export const INCIDENT_GAP_OPTIONS = [0, 10, 30, 60, 120, 300];
+
+export interface EventIncident {
+  /** Stable ID, taken from the incident's first event */
+  id: string;
+  /** Events of the incident, oldest first */
+  events: EventData[];
+  /** Participating monitors, in order of their first event */
+  monitorIds: string[];
+  /** Start of the first event, in epoch milliseconds */
+  start: number;
+  /** End of the last event to finish, in epoch milliseconds */
+  end: number;
+}
+
+/**
+ * Group events into incidents.
+ *
+ * Events whose start time cannot be read each form their own incident, listed
+ * after all others with NaN start and end.
+ *
+ * @param events - Events in any order
+ * @param gapSeconds - Largest gap between events of different monitors in one incident
+ * @returns Incidents, newest first
+ */
+export function groupEventsIntoIncidents(events: EventData[], gapSeconds: number): EventIncident[] {
+  const gapMs = Math.max(0, gapSeconds) * 1000;
+  const ranged = events.map((event) => ({ event, range: getEventTimeRange(event) }));
+  const sorted = ranged
+    .filter(({ range }) => Number.isFinite(range.start))
+    .sort((a, b) => a.range.start - b.range.start);
+
+  const incidents: EventIncident[] = [];
+  // Latest end per monitor of each incident still open for new events
+  let open: { incident: EventIncident; endByMonitor: Map<string, number> }[] = [];
+
+  for (const { event, range } of sorted) {
+    const monitorId = event.Event.MonitorId;
+    open = open.filter(({ incident }) => incident.end + gapMs >= range.start);
+
+    const joined = open.find(({ endByMonitor }) =>
+      [...endByMonitor].some(([otherId, end]) => otherId !== monitorId && end + gapMs >= range.start)
+    );
+
+    if (joined) {
+      const { incident, endByMonitor } = joined;
+      incident.events.push(event);
+      incident.end = Math.max(incident.end, range.end);
+      if (!incident.monitorIds.includes(monitorId)) {
+        incident.monitorIds.push(monitorId);
+      }
+      endByMonitor.set(monitorId, Math.max(endByMonitor.get(monitorId) ?? range.end, range.end));
+    } else {
+      const incident: EventIncident = {
+        id: `incident-${event.Event.Id}`,
+        events: [event],
+        monitorIds: [monitorId],
+        start: range.start,
+        end: range.end,
+      };
+      incidents.push(incident);
+      open.push({ incident, endByMonitor: new Map([[monitorId, range.end]]) });
+    }
+  }
+
+  const undated: EventIncident[] = ranged
+    .filter(({ range }) => !Number.isFinite(range.start))
+    .map(({ event }) => ({
+      id: `incident-${event.Event.Id}`,
+      events: [event],
+      monitorIds: [event.Event.MonitorId],
+      start: NaN,
+      end: NaN,
+    }));
+
+  return [...incidents.reverse(), ...undated];
+}
@@ -0,0 +1,45 @@
+/**
+ * Event Preview
+ *
+ * Frame sampling for scrub previews on event thumbnails. Frames are spread
+ * evenly across the event so sweeping over a thumbnail shows its whole
+ * course, not just the snapshot.
+ */
+
+/**
+ * Pick frame numbers spread evenly across an event.
+ *
+ * Each frame sits in the middle of its slice of the event, so the first and
+ * last samples avoid the pre/post-event buffer edges.
+ *
+ * @param totalFrames - Number of frames in the event
+ * @param count - Number of frames wanted
+ * @returns Distinct 1-based frame numbers in ascending order
+ */
+export function getPreviewFrameNumbers(totalFrames: number, count: number): number[] {
+  if (!Number.isFinite(totalFrames) || totalFrames < 1 || count < 1) return [];
+
+  const samples = Math.min(Math.floor(count), Math.floor(totalFrames));
+  const frames: number[] = [];
+  for (let i = 0; i < samples; i++) {
+    const frame = Math.min(totalFrames, Math.max(1, Math.round(((i + 0.5) * totalFrames) / samples)));
+    if (frames[frames.length - 1] !== frame) {
+      frames.push(frame);
+    }
+  }
+  return frames;
+}
+
+/**
+ * Map a pointer position over a thumbnail to a preview frame.
+ *
+ * @param offset - Pointer offset from the thumbnail's left edge, in pixels
+ * @param width - Thumbnail width, in pixels
+ * @param count - Number of preview frames
+ * @returns Index into the preview frames
+ */
+export function getPreviewFrameIndex(offset: number, width: number, count: number): number {
+  if (count < 1 || width <= 0) return 0;
+  const ratio = Math.min(1, Math.max(0, offset / width));
+  return Math.min(count - 1, Math.floor(ratio * count));
+}
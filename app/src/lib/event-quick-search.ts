@@ -0,0 +1,379 @@
+/**
+ * Event Quick Search
+ *
+ * Parses short natural-language queries such as
+ * "person front door yesterday after 6pm longer than 30s archived" into
+ * event filters. Recognized:
+ * - Monitor and tag names (multi-word, case-insensitive)
+ * - Days: today, yesterday, weekday names; ranges: last/past N minutes/hours/days/weeks
+ * - Times of day: after 6pm, before 8:30am, between 22:00 and 6am
+ * - Length: longer/shorter than, more/less than, over/under, at least/most + a duration
+ * - archived / unarchived
+ * - Object detection labels (person, car, dog...), matched against the event notes
+ *
+ * Days and times are read in the profile timezone. Every recognized phrase is
+ * returned as a token so the UI can show and edit it; anything else is
+ * returned as unrecognized.
+ */
+
+import type { EventFilters } from '../api/events';
+import type { Tag } from '../api/types';
+import { formatLocalDateTime, getZonedDateTime, zonedDateTimeToDate, type ZonedDateTime } from './time';
+
+export type QuickSearchTokenKind = 'monitor' | 'tag' | 'date' | 'time' | 'length' | 'archived' | 'detection';
+
+export interface QuickSearchToken {
+  kind: QuickSearchTokenKind;
+  /** The words of the query this token was read from */
+  text: string;
+}
+
+export interface QuickSearchContext {
+  monitors: Array<{ Id: string; Name: string }>;
+  tags: Tag[];
+  /** Timezone used for days and times of day */
+  timeZone: string;
+  now?: Date;
+}
+
+export interface QuickSearchResult {
+  /**
+   * Monitor (comma-separated IDs), date range (datetime-local strings like the
+   * filter inputs), archive state, length and detection (notesRegexp) filters
+   */
+  filters: EventFilters;
+  tagIds: string[];
+  tokens: QuickSearchToken[];
+  /** Words that were not understood */
+  unrecognized: string[];
+}
+
+/**
+ * Detection labels written by zm_detect, with the words that refer to them.
+ */
+export const DETECTION_LABEL_WORDS: Record<string, string[]> = {
+  person: ['person', 'persons', 'people', 'human', 'humans'],
+  car: ['car', 'cars'],
+  truck: ['truck', 'trucks'],
+  bus: ['bus', 'buses'],
+  bicycle: ['bicycle', 'bicycles', 'bike', 'bikes'],
+  motorbike: ['motorbike', 'motorbikes', 'motorcycle', 'motorcycles'],
+  dog: ['dog', 'dogs'],
+  cat: ['cat', 'cats'],
+  bird: ['bird', 'birds'],
+  horse: ['horse', 'horses'],
+};
+
+/** Words that carry no filter meaning */
+const FILLER_WORDS = new Set(['a', 'an', 'the', 'on', 'at', 'in', 'from', 'by', 'of', 'with', 'and', 'event', 'events']);
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const DURATION_UNITS: Record<string, number> = {
+  s: 1,
+  sec: 1,
+  secs: 1,
+  second: 1,
+  seconds: 1,
+  m: 60,
+  min: 60,
+  mins: 60,
+  minute: 60,
+  minutes: 60,
+  h: 3600,
+  hr: 3600,
+  hrs: 3600,
+  hour: 3600,
+  hours: 3600,
+};
+
+const RANGE_UNITS_MS: Record<string, number> = {
+  minute: 60_000,
+  minutes: 60_000,
+  hour: 3_600_000,
+  hours: 3_600_000,
+  day: 86_400_000,
+  days: 86_400_000,
+  week: 604_800_000,
+  weeks: 604_800_000,
+};
+
+/** Phrases introducing a length, and which bound they set */
+const LENGTH_PHRASES: Array<{ words: string[]; bound: 'min' | 'max' }> = [
+  { words: ['longer', 'than'], bound: 'min' },
+  { words: ['more', 'than'], bound: 'min' },
+  { words: ['at', 'least'], bound: 'min' },
+  { words: ['over'], bound: 'min' },
+  { words: ['shorter', 'than'], bound: 'max' },
+  { words: ['less', 'than'], bound: 'max' },
+  { words: ['at', 'most'], bound: 'max' },
+  { words: ['under'], bound: 'max' },
+];
+
+interface Match<T> {
+  value: T;
+  /** Number of words consumed */
+  length: number;
+}
+
+interface TimeOfDay {
+  hour: number;
+  minute: number;
+}
+
+const normalizeName = (name: string) => name.toLowerCase().split(/[\s_-]+/).filter(Boolean);
+
+/**
+ * Match the longest of the given names starting at a word.
+ */
+function matchName<T>(words: string[], index: number, names: Array<{ words: string[]; value: T }>): Match<T> | null {
+  let best: Match<T> | null = null;
+  for (const name of names) {
+    if (name.words.length === 0 || (best && name.words.length <= best.length)) continue;
+    if (name.words.every((word, offset) => words[index + offset] === word)) {
+      best = { value: name.value, length: name.words.length };
+    }
+  }
+  return best;
+}
+
+/**
+ * Match a duration such as "30s", "30 sec", "2 minutes" or a bare number of seconds.
+ */
+function matchDuration(words: string[], index: number): Match<number> | null {
+  const match = /^(\d+(?:\.\d+)?)([a-z]*)$/.exec(words[index] ?? '');
+  if (!match) return null;
+  const amount = Number(match[1]);
+  if (match[2]) {
+    const unit = DURATION_UNITS[match[2]];
+    return unit ? { value: amount * unit, length: 1 } : null;
+  }
+  const nextUnit = DURATION_UNITS[words[index + 1] ?? ''];
+  return nextUnit ? { value: amount * nextUnit, length: 2 } : { value: amount, length: 1 };
+}
+
+/**
+ * Match a time of day such as "6pm", "6 pm", "6:30am", "18:00", "noon" or "midnight".
+ */
+function matchTimeOfDay(words: string[], index: number): Match<TimeOfDay> | null {
+  const word = words[index] ?? '';
+  if (word === 'noon') return { value: { hour: 12, minute: 0 }, length: 1 };
+  if (word === 'midnight') return { value: { hour: 0, minute: 0 }, length: 1 };
+
+  const match = /^(\d{1,2})(?::(\d{2}))?(am|pm)?$/.exec(word);
+  if (!match) return null;
+  let length = 1;
+  let meridiem = match[3];
+  const next = words[index + 1];
+  if (!meridiem && (next === 'am' || next === 'pm')) {
+    meridiem = next;
+    length = 2;
+  }
+  // A bare number is only a time with a minute part or am/pm
+  if (!meridiem && match[2] === undefined) return null;
+
+  let hour = Number(match[1]);
+  const minute = Number(match[2] ?? 0);
+  if (minute > 59) return null;
+  if (meridiem) {
+    if (hour < 1 || hour > 12) return null;
+    hour = (hour % 12) + (meridiem === 'pm' ? 12 : 0);
+  } else if (hour > 23) {
+    return null;
+  }
+  return { value: { hour, minute }, length };
+}
+
+const matchPhrase = (words: string[], index: number, phrase: string[]) =>
+  phrase.every((word, offset) => words[index + offset] === word);
+
+/**
+ * Shift a zoned wall-clock date by whole days.
+ */
+function addDays(time: ZonedDateTime, days: number): ZonedDateTime {
+  const shifted = new Date(Date.UTC(time.year, time.month - 1, time.day + days));
+  return {
+    ...time,
+    year: shifted.getUTCFullYear(),
+    month: shifted.getUTCMonth() + 1,
+    day: shifted.getUTCDate(),
+  };
+}
+
+/**
+ * Parse a quick search query into event filters.
+ *
+ * @param query - Free-text query
+ * @param context - Monitors, tags and timezone to resolve names and dates against
+ * @returns Filters, tags, recognized tokens and unrecognized words
+ */
+export function parseQuickSearch(query: string, context: QuickSearchContext): QuickSearchResult {
+  const original = query.split(/[\s,]+/).filter(Boolean);
+  const words = original.map((word) => word.toLowerCase());
+  const now = context.now ?? new Date();
+  const today = getZonedDateTime(now, context.timeZone);
+
+  const monitorNames = context.monitors.map((monitor) => ({ words: normalizeName(monitor.Name), value: monitor.Id }));
+  const tagNames = context.tags.map((tag) => ({ words: normalizeName(tag.Name), value: tag.Id }));
+  const detectionWords = Object.entries(DETECTION_LABEL_WORDS).flatMap(([label, aliases]) =>
+    aliases.map((alias) => ({ words: [alias], value: label }))
+  );
+
+  const tokens: QuickSearchToken[] = [];
+  const unrecognized: string[] = [];
+  const monitorIds: string[] = [];
+  const tagIds: string[] = [];
+  const labels: string[] = [];
+  const length: { min?: number; max?: number } = {};
+  let archived: boolean | undefined;
+  let day: ZonedDateTime | null = null;
+  let relativeMs: number | null = null;
+  let after: TimeOfDay | null = null;
+  let before: TimeOfDay | null = null;
+  const timeTokens: QuickSearchToken[] = [];
+
+  const addUnique = (list: string[], value: string) => {
+    if (!list.includes(value)) list.push(value);
+  };
+
+  let index = 0;
+  while (index < words.length) {
+    const word = words[index];
+    const take = (kind: QuickSearchTokenKind, count: number) => {
+      const token = { kind, text: original.slice(index, index + count).join(' ') };
+      tokens.push(token);
+      index += count;
+      return token;
+    };
+
+    const monitor = matchName(words, index, monitorNames);
+    if (monitor) {
+      addUnique(monitorIds, monitor.value);
+      take('monitor', monitor.length);
+      continue;
+    }
+
+    const tag = matchName(words, index, tagNames);
+    if (tag) {
+      addUnique(tagIds, tag.value);
+      take('tag', tag.length);
+      continue;
+    }
+
+    if (word === 'today' || word === 'yesterday') {
+      day = addDays(today, word === 'today' ? 0 : -1);
+      relativeMs = null;
+      take('date', 1);
+      continue;
+    }
+
+    const weekday = WEEKDAYS.findIndex((name) => name === word || name.slice(0, 3) === word);
+    if (weekday !== -1) {
+      const todayWeekday = new Date(Date.UTC(today.year, today.month - 1, today.day)).getUTCDay();
+      day = addDays(today, -((todayWeekday - weekday + 7) % 7));
+      relativeMs = null;
+      take('date', 1);
+      continue;
+    }
+
+    if (word === 'last' || word === 'past') {
+      const count = Number(words[index + 1]);
+      if (Number.isInteger(count) && count > 0 && RANGE_UNITS_MS[words[index + 2]]) {
+        relativeMs = count * RANGE_UNITS_MS[words[index + 2]];
+        day = null;
+        take('date', 3);
+        continue;
+      }
+      if (RANGE_UNITS_MS[words[index + 1]]) {
+        relativeMs = RANGE_UNITS_MS[words[index + 1]];
+        day = null;
+        take('date', 2);
+        continue;
+      }
+    }
+
+    if (word === 'after' || word === 'since' || word === 'before') {
+      const time = matchTimeOfDay(words, index + 1);
+      if (time) {
+        if (word === 'before') before = time.value;
+        else after = time.value;
+        timeTokens.push(take('time', 1 + time.length));
+        continue;
+      }
+    }
+
+    if (word === 'between') {
+      const from = matchTimeOfDay(words, index + 1);
+      const to = from && words[index + 1 + from.length] === 'and' ? matchTimeOfDay(words, index + 2 + from.length) : null;
+      if (from && to) {
+        after = from.value;
+        before = to.value;
+        timeTokens.push(take('time', 2 + from.length + to.length));
+        continue;
+      }
+    }
+
+    const lengthPhrase = LENGTH_PHRASES.find(({ words: phrase }) => matchPhrase(words, index, phrase));
+    if (lengthPhrase) {
+      const duration = matchDuration(words, index + lengthPhrase.words.length);
+      if (duration) {
+        length[lengthPhrase.bound] = duration.value;
+        take('length', lengthPhrase.words.length + duration.length);
+        continue;
+      }
+    }
+
+    if (word === 'archived' || word === 'unarchived') {
+      archived = word === 'archived';
+      take('archived', 1);
+      continue;
+    }
+    if (word === 'not' && words[index + 1] === 'archived') {
+      archived = false;
+      take('archived', 2);
+      continue;
+    }
+
+    const detection = matchName(words, index, detectionWords);
+    if (detection) {
+      addUnique(labels, detection.value);
+      take('detection', detection.length);
+      continue;
+    }
+
+    if (!FILLER_WORDS.has(word)) {
+      unrecognized.push(original[index]);
+    }
+    index++;
+  }
+
+  const filters: EventFilters = {};
+  if (monitorIds.length > 0) filters.monitorId = monitorIds.join(',');
+  if (archived !== undefined) filters.archived = archived;
+  if (length.min !== undefined || length.max !== undefined) filters.length = length;
+  if (labels.length > 0) {
+    filters.notesRegexp = `detected:.*${labels.length === 1 ? labels[0] : `(${labels.join('|')})`}`;
+  }
+
+  if (relativeMs !== null) {
+    filters.startDateTime = formatLocalDateTime(new Date(now.getTime() - relativeMs));
+    filters.endDateTime = formatLocalDateTime(now);
+    // Times of day only refine a single day
+    timeTokens.forEach((token) => {
+      tokens.splice(tokens.indexOf(token), 1);
+      unrecognized.push(token.text);
+    });
+  } else if (day || after || before) {
+    const date = day ?? today;
+    const at = (time: TimeOfDay, dayOffset = 0) =>
+      zonedDateTimeToDate({ ...addDays(date, dayOffset), hour: time.hour, minute: time.minute, second: 0 }, context.timeZone);
+    const start = at(after ?? { hour: 0, minute: 0 });
+    let end = before ? at(before) : at({ hour: 23, minute: 59 });
+    // "between 22:00 and 6am" runs past midnight
+    if (before && end.getTime() <= start.getTime()) end = at(before, 1);
+    filters.startDateTime = formatLocalDateTime(start);
+    filters.endDateTime = formatLocalDateTime(end);
+  }
+
+  return { filters, tagIds, tokens, unrecognized };
+}
@@ -60,6 +60,25 @@ export function filterMonitorsByGroup(
   return monitors.filter(({ Monitor }) => idSet.has(Monitor.Id));
 }
 
+/**
+ * Recursively get all descendant group IDs of a group.
+ *
+ * @param groupId - The parent group ID
+ * @param groups - List of group data objects
+ * @returns IDs of the group's children, grandchildren, and so on
+ */
+export function getDescendantGroupIds(groupId: string, groups: GroupData[]): string[] {
+  const childIds: string[] = [];
+  const directChildren = groups.filter((g) => g.Group.ParentId === groupId);
+
+  for (const child of directChildren) {
+    childIds.push(child.Group.Id);
+    childIds.push(...getDescendantGroupIds(child.Group.Id, groups));
+  }
+
+  return childIds;
+}
+
 /**
  * Represents a group with its hierarchy level for display.
  */
@@ -0,0 +1,252 @@
+/**
+ * Monitor Configuration
+ *
+ * Describes the monitor fields that can be edited from the app, grouped into
+ * sections, and provides validation, diffing and update building for them.
+ * Values are edited as strings, matching how the API returns them.
+ */
+
+import type { Monitor } from '../api/types';
+
+export type MonitorConfigKey =
+  | 'Name'
+  | 'Importance'
+  | 'Orientation'
+  | 'MaxFPS'
+  | 'AlarmMaxFPS'
+  | 'AnalysisFPSLimit'
+  | 'ImageBufferCount'
+  | 'WarmupCount'
+  | 'PreEventCount'
+  | 'PostEventCount'
+  | 'StreamReplayBuffer'
+  | 'AlarmFrameCount'
+  | 'SectionLength'
+  | 'MinSectionLength'
+  | 'EventPrefix'
+  | 'VideoWriter'
+  | 'RecordAudio'
+  | 'SaveJPEGs'
+  | 'LabelFormat'
+  | 'LabelX'
+  | 'LabelY';
+
+export type MonitorConfigField =
+  | {
+      key: MonitorConfigKey;
+      type: 'number';
+      min?: number;
+      max?: number;
+      integer?: boolean;
+      /** Empty means "no limit" */
+      optional?: boolean;
+    }
+  | { key: MonitorConfigKey; type: 'text'; required?: boolean; maxLength?: number }
+  | { key: MonitorConfigKey; type: 'select'; options: readonly string[] }
+  | { key: MonitorConfigKey; type: 'boolean' };
+
+export interface MonitorConfigSection {
+  id: 'general' | 'frame_rates' | 'buffers' | 'recording' | 'timestamp';
+  fields: MonitorConfigField[];
+}
+
+export const MONITOR_CONFIG_SECTIONS: MonitorConfigSection[] = [
+  {
+    id: 'general',
+    fields: [
+      { key: 'Name', type: 'text', required: true, maxLength: 64 },
+      { key: 'Importance', type: 'select', options: ['Normal', 'Less', 'Not'] },
+      {
+        key: 'Orientation',
+        type: 'select',
+        options: ['ROTATE_0', 'ROTATE_90', 'ROTATE_180', 'ROTATE_270', 'FLIP_HORI', 'FLIP_VERT'],
+      },
+    ],
+  },
+  {
+    id: 'frame_rates',
+    fields: [
+      { key: 'MaxFPS', type: 'number', min: 0.01, max: 120, optional: true },
+      { key: 'AlarmMaxFPS', type: 'number', min: 0.01, max: 120, optional: true },
+      { key: 'AnalysisFPSLimit', type: 'number', min: 0.01, max: 120, optional: true },
+    ],
+  },
+  {
+    id: 'buffers',
+    fields: [
+      { key: 'ImageBufferCount', type: 'number', min: 0, max: 1000, integer: true },
+      { key: 'WarmupCount', type: 'number', min: 0, max: 1000, integer: true },
+      { key: 'PreEventCount', type: 'number', min: 0, max: 1000, integer: true },
+      { key: 'PostEventCount', type: 'number', min: 0, max: 1000, integer: true },
+      { key: 'StreamReplayBuffer', type: 'number', min: 0, max: 10000, integer: true },
+      { key: 'AlarmFrameCount', type: 'number', min: 1, max: 100, integer: true },
+    ],
+  },
+  {
+    id: 'recording',
+    fields: [
+      { key: 'SectionLength', type: 'number', min: 1, max: 86400, integer: true },
+      { key: 'MinSectionLength', type: 'number', min: 0, max: 86400, integer: true },
+      { key: 'EventPrefix', type: 'text', maxLength: 32 },
+      { key: 'VideoWriter', type: 'select', options: ['0', '1', '2'] },
+      { key: 'RecordAudio', type: 'boolean' },
+      { key: 'SaveJPEGs', type: 'select', options: ['0', '1', '2', '3'] },
+    ],
+  },
+  {
+    id: 'timestamp',
+    fields: [
+      { key: 'LabelFormat', type: 'text', maxLength: 64 },
+      { key: 'LabelX', type: 'number', min: 0, max: 10000, integer: true },
+      { key: 'LabelY', type: 'number', min: 0, max: 10000, integer: true },
+    ],
+  },
+];
+
+const FIELDS = new Map<MonitorConfigKey, MonitorConfigField>(
+  MONITOR_CONFIG_SECTIONS.flatMap((section) => section.fields.map((field) => [field.key, field] as const))
+);
+
+export type MonitorConfigValues = Record<MonitorConfigKey, string>;
+
+export type MonitorConfigErrorCode =
+  | 'required'
+  | 'not_a_number'
+  | 'not_an_integer'
+  | 'too_small'
+  | 'too_large'
+  | 'too_long'
+  | 'invalid_option'
+  | 'min_section_exceeds_section';
+
+export interface MonitorConfigError {
+  code: MonitorConfigErrorCode;
+  /** Bound that was crossed, for messages */
+  limit?: number;
+}
+
+export type MonitorConfigErrors = Partial<Record<MonitorConfigKey, MonitorConfigError>>;
+
+export interface MonitorConfigChange {
+  key: MonitorConfigKey;
+  from: string;
+  to: string;
+}
+
+/**
+ * Reads the editable fields of a monitor. Missing values become '', or '0'
+ * for on/off fields.
+ */
+export function getMonitorConfigValues(monitor: Monitor): MonitorConfigValues {
+  const values = {} as MonitorConfigValues;
+  for (const [key, field] of FIELDS) {
+    const value = monitor[key];
+    const missing = field.type === 'boolean' ? '0' : '';
+    values[key] = value === null || value === undefined ? missing : String(value);
+  }
+  return values;
+}
+
+function validateField(field: MonitorConfigField, raw: string): MonitorConfigError | null {
+  const value = raw.trim();
+
+  switch (field.type) {
+    case 'text':
+      if (field.required && !value) return { code: 'required' };
+      if (field.maxLength && value.length > field.maxLength) return { code: 'too_long', limit: field.maxLength };
+      return null;
+    case 'select':
+      // Unknown values from the server are kept as they are
+      return null;
+    case 'boolean':
+      return value === '0' || value === '1' ? null : { code: 'invalid_option' };
+    case 'number': {
+      if (!value) return field.optional ? null : { code: 'required' };
+      const number = Number(value);
+      if (!Number.isFinite(number)) return { code: 'not_a_number' };
+      if (field.integer && !Number.isInteger(number)) return { code: 'not_an_integer' };
+      if (field.min !== undefined && number < field.min) return { code: 'too_small', limit: field.min };
+      if (field.max !== undefined && number > field.max) return { code: 'too_large', limit: field.max };
+      return null;
+    }
+  }
+}
+
+const isSameValue = (field: MonitorConfigField, a: string, b: string) => {
+  const left = a.trim();
+  const right = b.trim();
+  const [leftNumber, rightNumber] = [Number(left), Number(right)];
+  if (field.type === 'number' && left && right && Number.isFinite(leftNumber) && Number.isFinite(rightNumber)) {
+    return leftNumber === rightNumber;
+  }
+  return left === right;
+};
+
+/**
+ * Validates monitor configuration values, including rules that span fields.
+ *
+ * Given the saved values, only fields that differ from them are checked, so a
+ * value the server already holds never blocks saving other changes.
+ *
+ * @param values - The values to check
+ * @param original - Values currently saved on the server
+ * @returns Errors by field; empty when everything is valid
+ */
+export function validateMonitorConfig(
+  values: MonitorConfigValues,
+  original?: MonitorConfigValues
+): MonitorConfigErrors {
+  const errors: MonitorConfigErrors = {};
+  const changed = new Set<MonitorConfigKey>();
+  for (const [key, field] of FIELDS) {
+    if (original && isSameValue(field, original[key], values[key])) continue;
+    changed.add(key);
+    const error = validateField(field, values[key]);
+    if (error) errors[key] = error;
+  }
+
+  const sectionLength = Number(values.SectionLength);
+  if (
+    (changed.has('MinSectionLength') || changed.has('SectionLength')) &&
+    !errors.MinSectionLength &&
+    !errors.SectionLength &&
+    Number(values.MinSectionLength) > sectionLength
+  ) {
+    errors.MinSectionLength = { code: 'min_section_exceeds_section', limit: sectionLength };
+  }
+
+  return errors;
+}
+
+/**
+ * Lists the fields whose values differ, in section order.
+ *
+ * @param original - Values currently saved on the server
+ * @param values - Edited values
+ * @returns The changed fields with their old and new values (trimmed)
+ */
+export function diffMonitorConfig(original: MonitorConfigValues, values: MonitorConfigValues): MonitorConfigChange[] {
+  const changes: MonitorConfigChange[] = [];
+  for (const [key, field] of FIELDS) {
+    if (!isSameValue(field, original[key], values[key])) {
+      changes.push({ key, from: original[key].trim(), to: values[key].trim() });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Builds the updateMonitor form fields for a set of changes.
+ *
+ * @param changes - Changes from diffMonitorConfig
+ * @param direction - 'apply' sends the new values, 'revert' the old ones
+ * @returns Fields keyed as Monitor[Field]
+ */
+export function buildMonitorConfigUpdate(
+  changes: MonitorConfigChange[],
+  direction: 'apply' | 'revert' = 'apply'
+): Record<string, string> {
+  return Object.fromEntries(
+    changes.map((change) => [`Monitor[${change.key}]`, direction === 'apply' ? change.to : change.from])
+  );
+}
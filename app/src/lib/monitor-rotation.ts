@@ -66,3 +66,29 @@ export function getMonitorAspectRatio(
 
   return `${orientedWidth} / ${orientedHeight}`;
 }
+
+/**
+ * Maps a point on the displayed image back to the camera's own image.
+ * ZoneMinder rotates and flips the stream, but a PTZ camera moves in the
+ * frame of its sensor. Points are normalized (0-1) on both sides.
+ */
+export function toCameraPoint(
+  point: { x: number; y: number },
+  rotation: MonitorRotation
+): { x: number; y: number } {
+  switch (rotation.kind) {
+    case 'flip_horizontal':
+      return { x: 1 - point.x, y: point.y };
+    case 'flip_vertical':
+      return { x: point.x, y: 1 - point.y };
+    case 'degrees': {
+      const normalized = ((rotation.degrees % 360) + 360) % 360;
+      if (normalized === 90) return { x: 1 - point.y, y: point.x };
+      if (normalized === 180) return { x: 1 - point.x, y: 1 - point.y };
+      if (normalized === 270) return { x: point.y, y: 1 - point.x };
+      return point;
+    }
+    default:
+      return point;
+  }
+}
@@ -0,0 +1,170 @@
+/**
+ * Monitor Status History Utilities
+ *
+ * ZoneMinder's Monitor_Status only reports the current capture FPS, analysis
+ * FPS and capture bandwidth. These helpers turn each status poll into a
+ * sample, keep a bounded history per monitor and detect monitors whose
+ * capture rate has dropped, so gradual camera failures show up before
+ * events go missing.
+ */
+
+import type { MonitorStatus } from '../api/types';
+import { MONITOR_STATUS_HISTORY } from './zmng-constants';
+
+export interface MonitorStatusSample {
+  /** Sample time in ms since epoch */
+  time: number;
+  captureFps: number | null;
+  analysisFps: number | null;
+  /** Capture bandwidth in bytes per second */
+  bandwidth: number | null;
+}
+
+/** Monitor ID -> samples, oldest first */
+export type MonitorStatusHistory = Record<string, MonitorStatusSample[]>;
+
+const parseMetric = (value: string | null | undefined): number | null => {
+  if (value == null || value === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+};
+
+/**
+ * Build a sample from a monitor status.
+ * Returns null when the status carries none of the sampled values.
+ */
+export function createStatusSample(
+  status: MonitorStatus | undefined,
+  time: number
+): MonitorStatusSample | null {
+  if (!status) return null;
+
+  const sample = {
+    time,
+    captureFps: parseMetric(status.CaptureFPS),
+    analysisFps: parseMetric(status.AnalysisFPS),
+    bandwidth: parseMetric(status.CaptureBandwidth),
+  };
+
+  if (sample.captureFps === null && sample.analysisFps === null && sample.bandwidth === null) {
+    return null;
+  }
+  return sample;
+}
+
+/**
+ * Append a sample, dropping samples that are too old or over the limit.
+ * A sample that is not newer than the last one is ignored.
+ */
+export function appendStatusSample(
+  samples: MonitorStatusSample[],
+  sample: MonitorStatusSample,
+  maxSamples: number = MONITOR_STATUS_HISTORY.maxSamples,
+  maxAgeMs: number = MONITOR_STATUS_HISTORY.maxAgeMs
+): MonitorStatusSample[] {
+  const last = samples[samples.length - 1];
+  if (last && last.time >= sample.time) return samples;
+
+  const oldest = sample.time - maxAgeMs;
+  const kept = samples.filter((existing) => existing.time >= oldest);
+  kept.push(sample);
+  return kept.length > maxSamples ? kept.slice(kept.length - maxSamples) : kept;
+}
+
+/**
+ * Drop samples older than the age limit from every monitor.
+ * Monitors left without samples are removed.
+ */
+export function pruneStatusHistory(
+  history: MonitorStatusHistory,
+  now: number,
+  maxAgeMs: number = MONITOR_STATUS_HISTORY.maxAgeMs
+): MonitorStatusHistory {
+  const oldest = now - maxAgeMs;
+  const pruned: MonitorStatusHistory = {};
+
+  Object.entries(history).forEach(([monitorId, samples]) => {
+    const kept = samples.filter((sample) => sample.time >= oldest);
+    if (kept.length > 0) {
+      pruned[monitorId] = kept.length === samples.length ? samples : kept;
+    }
+  });
+
+  return pruned;
+}
+
+/**
+ * Average capture FPS of the most recent samples that report one.
+ * Returns null when there are no such samples.
+ */
+export function getRecentCaptureFps(
+  samples: MonitorStatusSample[],
+  count: number = MONITOR_STATUS_HISTORY.lowFpsSampleCount
+): number | null {
+  const recent: number[] = [];
+  for (let i = samples.length - 1; i >= 0 && recent.length < count; i--) {
+    const fps = samples[i].captureFps;
+    if (fps !== null) recent.push(fps);
+  }
+
+  if (recent.length === 0) return null;
+  return recent.reduce((sum, fps) => sum + fps, 0) / recent.length;
+}
+
+/**
+ * Whether the recent capture FPS is below the threshold.
+ * A threshold of 0 turns the check off. A single slow poll is not enough:
+ * the most recent samples are averaged first.
+ */
+export function isLowFps(samples: MonitorStatusSample[], threshold: number): boolean {
+  if (threshold <= 0) return false;
+  const fps = getRecentCaptureFps(samples);
+  return fps !== null && fps < threshold;
+}
+
+/**
+ * Scale values into SVG polyline points for a sparkline.
+ * Missing values break the line, so one points string is returned per run.
+ */
+export function buildSparklinePaths(
+  values: (number | null)[],
+  width: number,
+  height: number
+): string[] {
+  const present = values.filter((value): value is number => value !== null);
+  if (present.length === 0) return [];
+
+  const min = Math.min(...present);
+  const max = Math.max(...present);
+  const range = max - min;
+  const step = values.length > 1 ? width / (values.length - 1) : 0;
+
+  const paths: string[] = [];
+  let current: string[] = [];
+
+  values.forEach((value, index) => {
+    if (value === null) {
+      if (current.length > 0) paths.push(current.join(' '));
+      current = [];
+      return;
+    }
+    // A flat line sits in the middle rather than on the bottom edge
+    const y = range === 0 ? height / 2 : height - ((value - min) / range) * height;
+    current.push(`${round(index * step)},${round(y)}`);
+  });
+  if (current.length > 0) paths.push(current.join(' '));
+
+  return paths;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Format a bandwidth in bytes per second.
+ */
+export function formatBandwidth(bytesPerSecond: number | null): string {
+  if (bytesPerSecond === null) return '-';
+  if (bytesPerSecond >= 1024 * 1024) return `${(bytesPerSecond / (1024 * 1024)).toFixed(1)} MB/s`;
+  if (bytesPerSecond >= 1024) return `${Math.round(bytesPerSecond / 1024)} kB/s`;
+  return `${Math.round(bytesPerSecond)} B/s`;
+}
@@ -0,0 +1,199 @@
+/**
+ * Object Detection Utilities
+ *
+ * Reads object detection results written by zmeventnotification's detection
+ * hook (zm_detect) for an event. Two sources are supported:
+ * - objdetect.json in the event directory: labels, confidences, boxes and the
+ *   analysed frame
+ * - The event Notes ("[a] detected:person:97% car:80% Motion: All"): labels and
+ *   confidences only, used when the JSON file is not available
+ */
+
+import { z } from 'zod';
+import { httpGet } from './http';
+import { log, LogLevel } from './logger';
+import { getEventFileUrl } from './url-builder';
+
+/**
+ * Bounding box in image pixels of the original (unrotated) frame.
+ */
+export interface DetectionBox {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+export interface DetectedObject {
+  label: string;
+  /** Confidence from 0 to 1, null when unknown */
+  confidence: number | null;
+  /** Bounding box, null when only the label is known (Notes) */
+  box: DetectionBox | null;
+}
+
+/**
+ * Frame the detection ran on: 'alarm', 'snapshot' or a frame number.
+ */
+export type DetectionFrameId = 'alarm' | 'snapshot' | number;
+
+export interface ObjectDetectionResult {
+  objects: DetectedObject[];
+  frameId: DetectionFrameId | null;
+  /** Size of the analysed image, when reported */
+  imageWidth?: number;
+  imageHeight?: number;
+  source: 'json' | 'notes';
+}
+
+/** File written to the event directory by zm_detect */
+export const OBJDETECT_JSON_FILE = 'objdetect.json';
+
+const DimensionsSchema = z.tuple([z.coerce.number(), z.coerce.number()]); // [height, width]
+
+const ObjectDetectionJsonSchema = z.object({
+  labels: z.array(z.string()),
+  boxes: z.array(z.array(z.coerce.number()).length(4)).optional(),
+  confidences: z.array(z.coerce.number()).optional(),
+  frame_id: z.union([z.string(), z.number()]).nullable().optional(),
+  image_dimensions: z
+    .object({
+      original: DimensionsSchema.nullable().optional(),
+      resized: DimensionsSchema.nullable().optional(),
+    })
+    .nullable()
+    .optional(),
+});
+
+/**
+ * Normalize the frame reference used by zm_detect ('alarm', 'snapshot', '123').
+ */
+function parseFrameId(value: unknown): DetectionFrameId | null {
+  if (value === null || value === undefined) return null;
+  const text = String(value).trim().toLowerCase();
+  if (text === 'alarm' || text === 'a') return 'alarm';
+  if (text === 'snapshot' || text === 's') return 'snapshot';
+  const frame = Number(text);
+  return Number.isInteger(frame) && frame > 0 ? frame : null;
+}
+
+/**
+ * Parse the contents of objdetect.json.
+ *
+ * Boxes are reported for the image the model saw; when zm_detect resized the
+ * frame first, they are scaled back to the original frame size.
+ *
+ * @param data - Parsed JSON
+ * @returns Detection result, or null if the data is not a detection result
+ */
+export function parseDetectionJson(data: unknown): ObjectDetectionResult | null {
+  const parsed = ObjectDetectionJsonSchema.safeParse(data);
+  if (!parsed.success) {
+    log.app('Unrecognized object detection JSON', LogLevel.DEBUG, { issues: parsed.error.issues.length });
+    return null;
+  }
+
+  const { labels, boxes = [], confidences = [], frame_id, image_dimensions } = parsed.data;
+  const original = image_dimensions?.original;
+  const resized = image_dimensions?.resized;
+  const scaleX = original && resized && resized[1] > 0 ? original[1] / resized[1] : 1;
+  const scaleY = original && resized && resized[0] > 0 ? original[0] / resized[0] : 1;
+
+  const objects = labels.map((label, index): DetectedObject => {
+    const box = boxes[index];
+    const confidence = confidences[index];
+    return {
+      label,
+      confidence: Number.isFinite(confidence) ? confidence : null,
+      box: box
+        ? {
+            x1: Math.round(box[0] * scaleX),
+            y1: Math.round(box[1] * scaleY),
+            x2: Math.round(box[2] * scaleX),
+            y2: Math.round(box[3] * scaleY),
+          }
+        : null,
+    };
+  });
+
+  return {
+    objects,
+    frameId: parseFrameId(frame_id),
+    imageWidth: original?.[1],
+    imageHeight: original?.[0],
+    source: 'json',
+  };
+}
+
+/**
+ * Parse detection results from event Notes.
+ *
+ * @param notes - Event Notes field
+ * @returns Detection result, or null if the notes contain no detections
+ *
+ * @example
+ * parseDetectionNotes('[a] detected:person:97% car:80% Motion: All')
+ * // Returns: { frameId: 'alarm', objects: [{ label: 'person', confidence: 0.97, box: null }, ...] }
+ */
+export function parseDetectionNotes(notes: string | null | undefined): ObjectDetectionResult | null {
+  if (!notes) return null;
+
+  const match = /(?:\[(\w+)\]\s*)?detected:(.*)$/im.exec(notes);
+  if (!match) return null;
+
+  const objects: DetectedObject[] = [];
+  for (const token of match[2].trim().split(/[\s,]+/)) {
+    // Detections are "label:NN%"; the text after them is the motion cause
+    const item = /^([^:]+):(\d+(?:\.\d+)?)%$/.exec(token);
+    if (!item) break;
+    objects.push({ label: item[1], confidence: Number(item[2]) / 100, box: null });
+  }
+
+  if (objects.length === 0) return null;
+
+  return {
+    objects,
+    frameId: parseFrameId(match[1]),
+    source: 'notes',
+  };
+}
+
+/**
+ * Get the object detection results of an event.
+ *
+ * Reads objdetect.json from the event directory and falls back to the event
+ * Notes when the file is missing or not readable.
+ *
+ * @param portalUrl - Portal URL
+ * @param eventId - Event ID
+ * @param notes - Event Notes field
+ * @param options - Auth options
+ * @returns Detection result, or null when the event has no detections
+ */
+export async function getEventDetections(
+  portalUrl: string,
+  eventId: string,
+  notes: string | null | undefined,
+  options: { token?: string; apiUrl?: string } = {}
+): Promise<ObjectDetectionResult | null> {
+  const url = getEventFileUrl(portalUrl, eventId, OBJDETECT_JSON_FILE, options);
+
+  try {
+    const response = await httpGet<unknown>(url);
+    const result = parseDetectionJson(response.data);
+    if (result && result.objects.length > 0) {
+      log.app('Loaded object detection results', LogLevel.DEBUG, {
+        eventId,
+        count: result.objects.length,
+      });
+      return result;
+    }
+  } catch (error) {
+    log.app('Object detection file not available, using event notes', LogLevel.DEBUG, {
+      eventId,
+      error,
+    });
+  }
+
+  return parseDetectionNotes(notes);
+}
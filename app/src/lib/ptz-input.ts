@@ -0,0 +1,119 @@
+/**
+ * PTZ Input Utilities
+ *
+ * Maps PTZ buttons, keys and gamepad sticks to ZoneMinder move commands.
+ * Continuous moves (moveCon*, zoomCon*) run until a stop command is sent,
+ * relative moves (moveRel*, zoomRel*) move one step per command.
+ */
+
+import type { ZMControl } from '../api/types';
+import { PTZ_INPUT } from './zmng-constants';
+
+export type PtzDirection = 'Up' | 'Down' | 'Left' | 'Right' | 'UpLeft' | 'UpRight' | 'DownLeft' | 'DownRight';
+
+/** Arrow and WASD keys, by KeyboardEvent.code so other layouts keep the positions */
+export const PTZ_KEY_DIRECTIONS: Record<string, PtzDirection> = {
+  ArrowUp: 'Up',
+  ArrowDown: 'Down',
+  ArrowLeft: 'Left',
+  ArrowRight: 'Right',
+  KeyW: 'Up',
+  KeyS: 'Down',
+  KeyA: 'Left',
+  KeyD: 'Right',
+};
+
+/**
+ * Move command prefix for a control, preferring continuous moves.
+ */
+export function getMovePrefix(control: ZMControl | undefined): 'moveCon' | 'moveRel' {
+  return control?.CanMoveCon !== '1' && control?.CanMoveRel === '1' ? 'moveRel' : 'moveCon';
+}
+
+/**
+ * Zoom command prefix for a control, preferring continuous zoom.
+ */
+export function getZoomPrefix(control: ZMControl | undefined): 'zoomCon' | 'zoomRel' {
+  return control?.CanZoomCon !== '1' && control?.CanZoomRel === '1' ? 'zoomRel' : 'zoomCon';
+}
+
+/**
+ * Whether a command keeps the camera moving until it is stopped.
+ */
+export function isContinuousCommand(command: string): boolean {
+  return command.startsWith('moveCon') || command.startsWith('zoomCon');
+}
+
+/**
+ * Command that ends a continuous move or zoom.
+ */
+export function getStopCommand(command: string): 'moveStop' | 'zoomStop' {
+  return command.startsWith('zoom') ? 'zoomStop' : 'moveStop';
+}
+
+/**
+ * Whether the control takes a pan or tilt speed.
+ */
+export function hasMoveSpeed(control: ZMControl | undefined): boolean {
+  return control?.HasPanSpeed === '1' || control?.HasTiltSpeed === '1';
+}
+
+/**
+ * Combine up to two held directions, e.g. Up and Left into UpLeft.
+ * Opposite directions cancel out. Without diagonal support the most
+ * recently pressed direction wins.
+ */
+export function combineDirections(held: PtzDirection[], allowDiagonal: boolean): PtzDirection | null {
+  const vertical = held.includes('Up') === held.includes('Down') ? null : held.includes('Up') ? 'Up' : 'Down';
+  const horizontal =
+    held.includes('Left') === held.includes('Right') ? null : held.includes('Left') ? 'Left' : 'Right';
+
+  if (vertical && horizontal) {
+    if (allowDiagonal) return `${vertical}${horizontal}` as const;
+    return [...held].reverse().find((direction) => direction === vertical || direction === horizontal) ?? null;
+  }
+  return vertical ?? horizontal;
+}
+
+/**
+ * Read a gamepad stick as a direction and speed (%).
+ *
+ * Deflection inside the deadzone is ignored and the rest is rescaled to the
+ * full speed range, rounded to the speed step. y follows the Gamepad API and
+ * is negative when the stick is pushed up.
+ */
+export function readGamepadStick(
+  x: number,
+  y: number,
+  allowDiagonal: boolean,
+  deadzone: number = PTZ_INPUT.gamepadDeadzone
+): { direction: PtzDirection; speed: number } | null {
+  const magnitude = Math.min(1, Math.hypot(x, y));
+  if (magnitude <= deadzone) return null;
+
+  // Sector 0 is right, counting counter-clockwise
+  const sectors = allowDiagonal ? 8 : 4;
+  const angle = Math.atan2(-y, x);
+  const sector = (Math.round((angle / (2 * Math.PI)) * sectors) + sectors) % sectors;
+  const direction: PtzDirection = allowDiagonal
+    ? (['Right', 'UpRight', 'Up', 'UpLeft', 'Left', 'DownLeft', 'Down', 'DownRight'] as const)[sector]
+    : (['Right', 'Up', 'Left', 'Down'] as const)[sector];
+
+  const step = PTZ_INPUT.gamepadSpeedStep;
+  const scaled = ((magnitude - deadzone) / (1 - deadzone)) * 100;
+  const speed = Math.min(100, Math.max(step, Math.round(scaled / step) * step));
+  return { direction, speed };
+}
+
+/**
+ * Whether a key event comes from a field, menu, slider or dialog that uses
+ * arrow keys itself.
+ */
+export function isKeyboardControlTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  return (
+    target.isContentEditable ||
+    ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) ||
+    target.closest('[role="listbox"], [role="menu"], [role="slider"], [role="dialog"], [role="alertdialog"]') !== null
+  );
+}
@@ -0,0 +1,90 @@
+/**
+ * PTZ Patrol Utilities
+ *
+ * A patrol is an ordered list of presets the camera visits in turn, waiting
+ * at each for its dwell time, for cameras whose own auto-scan is missing or
+ * not flexible enough. Patrols are run by the app while the live view is
+ * open, so they only need ZoneMinder's presetGoto and presetHome commands.
+ */
+
+import { PTZ_PATROL } from './zmng-constants';
+
+export interface PtzPatrolStop {
+  /** ZoneMinder preset number */
+  preset: number;
+  /** Time spent at the stop, including the move to it */
+  dwellSeconds: number;
+}
+
+export interface PtzPatrol {
+  stops: PtzPatrolStop[];
+  /** Send the camera to its home position when the patrol ends */
+  returnHome: boolean;
+  /** Run the patrol whenever the monitor's live view is open */
+  enabled: boolean;
+}
+
+export const EMPTY_PATROL: PtzPatrol = { stops: [], returnHome: false, enabled: false };
+
+/**
+ * Round a dwell time to whole seconds within the allowed range.
+ */
+export function clampDwell(seconds: number): number {
+  if (!Number.isFinite(seconds)) return PTZ_PATROL.defaultDwellSeconds;
+  return Math.min(PTZ_PATROL.maxDwellSeconds, Math.max(PTZ_PATROL.minDwellSeconds, Math.round(seconds)));
+}
+
+/**
+ * Add a stop at the end of the patrol.
+ */
+export function addPatrolStop(patrol: PtzPatrol, preset: number): PtzPatrol {
+  return {
+    ...patrol,
+    stops: [...patrol.stops, { preset, dwellSeconds: PTZ_PATROL.defaultDwellSeconds }],
+  };
+}
+
+/**
+ * Apply changes to one stop.
+ */
+export function updatePatrolStop(patrol: PtzPatrol, index: number, changes: Partial<PtzPatrolStop>): PtzPatrol {
+  return {
+    ...patrol,
+    stops: patrol.stops.map((stop, i) => {
+      if (i !== index) return stop;
+      const updated = { ...stop, ...changes };
+      return { ...updated, dwellSeconds: clampDwell(updated.dwellSeconds) };
+    }),
+  };
+}
+
+/**
+ * Remove one stop. A patrol left without stops is switched off.
+ */
+export function removePatrolStop(patrol: PtzPatrol, index: number): PtzPatrol {
+  const stops = patrol.stops.filter((_, i) => i !== index);
+  return { ...patrol, stops, enabled: patrol.enabled && stops.length > 0 };
+}
+
+/**
+ * Move a stop up (-1) or down (+1) in the patrol.
+ */
+export function movePatrolStop(patrol: PtzPatrol, index: number, offset: -1 | 1): PtzPatrol {
+  const target = index + offset;
+  if (index < 0 || index >= patrol.stops.length || target < 0 || target >= patrol.stops.length) return patrol;
+
+  const stops = [...patrol.stops];
+  [stops[index], stops[target]] = [stops[target], stops[index]];
+  return { ...patrol, stops };
+}
+
+/**
+ * Preset to add as a new stop: the one after the last stop, wrapping
+ * around to the first preset.
+ */
+export function getNextStopPreset(patrol: PtzPatrol, presets: number[]): number | null {
+  if (presets.length === 0) return null;
+  const last = patrol.stops[patrol.stops.length - 1];
+  const index = last ? presets.indexOf(last.preset) : -1;
+  return presets[(index + 1) % presets.length];
+}
@@ -0,0 +1,206 @@
+/**
+ * PTZ Point and Zoom Utilities
+ *
+ * Turns a tap on the live view into the moves that center the camera on that
+ * point, and a drawn rectangle into a center move followed by a zoom.
+ * Cameras with map moves are sent the point itself. Cameras with relative
+ * moves step by the offset from the center, and cameras with only continuous
+ * moves run for a time based on the offset, which is an approximation.
+ *
+ * Absolute moves need the camera's current position, which ZoneMinder does
+ * not report, so CanMoveAbs cameras use their relative or continuous moves.
+ */
+
+import type { ZMControl } from '../api/types';
+import type { MonitorFeedFit } from '../stores/settings';
+import { getZoomPrefix } from './ptz-input';
+import { PTZ_POINT } from './zmng-constants';
+
+/** Point on an image, normalized to 0-1 */
+export interface PtzPoint {
+  x: number;
+  y: number;
+}
+
+/** Area of an image from its top-left corner, normalized to 0-1 */
+export interface PtzRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** One control command of a point or zoom move */
+export interface PtzStep {
+  command: string;
+  speed?: number;
+  tiltSpeed?: number;
+  /** Image point in pixels, for map moves */
+  point?: { x: number; y: number };
+  /** Continuous commands are stopped after this long (ms) */
+  holdMs?: number;
+}
+
+export type PtzPointMode = 'map' | 'relative' | 'continuous';
+
+interface Box {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * How a control centers on a point, or null when it cannot move.
+ */
+export function getPointMode(control: ZMControl | undefined): PtzPointMode | null {
+  if (control?.CanMove !== '1') return null;
+  if (control.CanMoveMap === '1') return 'map';
+  if (control.CanMoveRel === '1') return 'relative';
+  if (control.CanMoveCon === '1') return 'continuous';
+  return null;
+}
+
+/**
+ * Where an image of the given size is drawn inside an element with
+ * object-fit, centered as with the default object-position.
+ */
+export function getObjectFitBox(
+  element: Box,
+  image: { width: number; height: number },
+  fit: MonitorFeedFit
+): Box {
+  if (fit === 'fill' || image.width <= 0 || image.height <= 0) {
+    return element;
+  }
+
+  const containScale = Math.min(element.width / image.width, element.height / image.height);
+  const scale =
+    fit === 'cover'
+      ? Math.max(element.width / image.width, element.height / image.height)
+      : fit === 'none'
+        ? 1
+        : fit === 'scale-down'
+          ? Math.min(1, containScale)
+          : containScale;
+
+  const width = image.width * scale;
+  const height = image.height * scale;
+  return {
+    left: element.left + (element.width - width) / 2,
+    top: element.top + (element.height - height) / 2,
+    width,
+    height,
+  };
+}
+
+/**
+ * Normalized image point under a pointer, or null outside the image.
+ */
+export function getImagePoint(clientX: number, clientY: number, box: Box): PtzPoint | null {
+  if (box.width <= 0 || box.height <= 0) return null;
+
+  const x = (clientX - box.left) / box.width;
+  const y = (clientY - box.top) / box.height;
+  if (x < 0 || x > 1 || y < 0 || y > 1) return null;
+  return { x, y };
+}
+
+/**
+ * Rectangle spanned by two points.
+ */
+export function getRegion(a: PtzPoint, b: PtzPoint): PtzRegion {
+  return {
+    x: Math.min(a.x, b.x),
+    y: Math.min(a.y, b.y),
+    width: Math.abs(a.x - b.x),
+    height: Math.abs(a.y - b.y),
+  };
+}
+
+/**
+ * Whether a drag was short enough to be a tap.
+ */
+export function isTap(a: PtzPoint, b: PtzPoint): boolean {
+  return Math.hypot(a.x - b.x, a.y - b.y) < PTZ_POINT.tapTolerance;
+}
+
+/**
+ * Commands that center the camera on a point of its own image.
+ *
+ * @param point - Point in camera image coordinates (after undoing rotation)
+ * @param cameraSize - Camera image size in pixels, for map moves
+ * @param speed - Move speed in percent, for continuous moves
+ */
+export function planCenterMove(
+  control: ZMControl | undefined,
+  point: PtzPoint,
+  cameraSize: { width: number; height: number },
+  speed: number
+): PtzStep[] {
+  const mode = getPointMode(control);
+  if (!mode) return [];
+
+  if (mode === 'map') {
+    return [{ command: 'moveMap', point: { x: point.x * cameraSize.width, y: point.y * cameraSize.height } }];
+  }
+
+  const dx = point.x - 0.5;
+  const dy = point.y - 0.5;
+  const pan = Math.abs(dx) < PTZ_POINT.centerTolerance ? null : dx < 0 ? 'Left' : 'Right';
+  const tilt = Math.abs(dy) < PTZ_POINT.centerTolerance ? null : dy < 0 ? 'Up' : 'Down';
+  if (!pan && !tilt) return [];
+
+  // Offsets in percent of half the image; the edge of the image is 100
+  const panAmount = Math.round(Math.min(1, Math.abs(dx) * 2) * 100);
+  const tiltAmount = Math.round(Math.min(1, Math.abs(dy) * 2) * 100);
+  const diagonal = !!pan && !!tilt && control?.CanMoveDiag === '1';
+
+  if (mode === 'relative') {
+    // ZoneMinder scales relative steps between the control's min and max step
+    if (diagonal) {
+      return [{ command: `moveRel${tilt}${pan}`, speed: panAmount, tiltSpeed: tiltAmount }];
+    }
+    const steps: PtzStep[] = [];
+    if (pan) steps.push({ command: `moveRel${pan}`, speed: panAmount });
+    if (tilt) steps.push({ command: `moveRel${tilt}`, speed: tiltAmount });
+    return steps;
+  }
+
+  const holdMs = (amount: number) => Math.round((amount / 100) * PTZ_POINT.continuousEdgeMs);
+  if (diagonal) {
+    return [{ command: `moveCon${tilt}${pan}`, speed, holdMs: holdMs(Math.max(panAmount, tiltAmount)) }];
+  }
+  const steps: PtzStep[] = [];
+  if (pan) steps.push({ command: `moveCon${pan}`, speed, holdMs: holdMs(panAmount) });
+  if (tilt) steps.push({ command: `moveCon${tilt}`, speed, holdMs: holdMs(tiltAmount) });
+  return steps;
+}
+
+/**
+ * Commands that center the camera on an area of its own image and zoom in
+ * until the area fills the view. Cameras without zoom are only centered.
+ */
+export function planRegionZoom(
+  control: ZMControl | undefined,
+  region: PtzRegion,
+  cameraSize: { width: number; height: number },
+  speed: number
+): PtzStep[] {
+  const center = { x: region.x + region.width / 2, y: region.y + region.height / 2 };
+  const steps = planCenterMove(control, center, cameraSize, speed);
+
+  const size = Math.max(region.width, region.height);
+  if (control?.CanZoom !== '1' || size <= 0 || size >= 1) return steps;
+
+  if (getZoomPrefix(control) === 'zoomRel') {
+    steps.push({ command: 'zoomRelTele', speed: Math.round((1 - size) * 100) });
+  } else {
+    steps.push({
+      command: 'zoomConTele',
+      speed,
+      holdMs: Math.round(Math.log2(1 / size) * PTZ_POINT.continuousZoomDoublingMs),
+    });
+  }
+  return steps;
+}
@@ -0,0 +1,147 @@
+/**
+ * PTZ Preset Utilities
+ *
+ * ZoneMinder only numbers PTZ presets (presetGoto1, presetSet1, ...). These
+ * helpers keep the names, thumbnails, order and quick button choice the user
+ * gives each preset number, and capture a small thumbnail of the view a
+ * preset points at.
+ */
+
+import type { ZMControl } from '../api/types';
+import { convertToSnapshotUrl } from './download';
+import { httpRequest } from './http';
+import { log, LogLevel } from './logger';
+import { wrapWithImageProxyIfNeeded } from './proxy-utils';
+import { PTZ_PRESETS } from './zmng-constants';
+
+export interface PtzPreset {
+  /** ZoneMinder preset number, starting at 1 */
+  number: number;
+  name?: string;
+  /** JPEG data URL of the preset view */
+  thumbnail?: string;
+  /** Shown as a quick button over the live view */
+  pinned?: boolean;
+}
+
+/**
+ * Number of presets a control supports, 0 when it has none.
+ */
+export function getPresetCount(control: ZMControl | undefined): number {
+  if (control?.HasPresets !== '1') return 0;
+  const count = parseInt(control.NumPresets || '0', 10);
+  return Number.isFinite(count) && count > 0 ? count : 0;
+}
+
+/**
+ * Whether the current view can be stored as a preset.
+ */
+export function canSetPresets(control: ZMControl | undefined): boolean {
+  return getPresetCount(control) > 0 && control?.CanSetPresets === '1';
+}
+
+/**
+ * Full, ordered preset list for a control.
+ * Saved presets keep their order, presets the control no longer has are
+ * dropped and presets never saved are appended by number.
+ */
+export function resolvePresets(saved: PtzPreset[], count: number): PtzPreset[] {
+  const seen = new Set<number>();
+  const presets = saved.filter((preset) => {
+    if (preset.number < 1 || preset.number > count || seen.has(preset.number)) return false;
+    seen.add(preset.number);
+    return true;
+  });
+
+  for (let number = 1; number <= count; number++) {
+    if (!seen.has(number)) {
+      presets.push({ number });
+    }
+  }
+  return presets;
+}
+
+/**
+ * Apply changes to one preset.
+ */
+export function updatePreset(
+  presets: PtzPreset[],
+  number: number,
+  changes: Partial<Omit<PtzPreset, 'number'>>
+): PtzPreset[] {
+  return presets.map((preset) => (preset.number === number ? { ...preset, ...changes } : preset));
+}
+
+/**
+ * Move a preset up (-1) or down (+1) in the list.
+ */
+export function movePreset(presets: PtzPreset[], number: number, offset: -1 | 1): PtzPreset[] {
+  const index = presets.findIndex((preset) => preset.number === number);
+  const target = index + offset;
+  if (index === -1 || target < 0 || target >= presets.length) return presets;
+
+  const moved = [...presets];
+  [moved[index], moved[target]] = [moved[target], moved[index]];
+  return moved;
+}
+
+/**
+ * Trim a preset name and limit its length. Returns undefined for blank names.
+ */
+export function normalizePresetName(name: string): string | undefined {
+  const trimmed = name.trim().slice(0, PTZ_PRESETS.maxNameLength);
+  return trimmed || undefined;
+}
+
+function drawThumbnail(source: CanvasImageSource, width: number, height: number): string {
+  const canvas = document.createElement('canvas');
+  canvas.width = PTZ_PRESETS.thumbnailWidth;
+  canvas.height = Math.max(1, Math.round((PTZ_PRESETS.thumbnailWidth * height) / width));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Failed to get canvas context');
+  }
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', PTZ_PRESETS.thumbnailQuality);
+}
+
+/**
+ * Capture a small thumbnail of what a live view element shows.
+ *
+ * Video frames are drawn directly. A cross-origin MJPEG stream cannot be read
+ * back from a canvas, so a single frame is fetched from ZoneMinder instead.
+ * Returns null when no thumbnail could be made.
+ */
+export async function capturePresetThumbnail(
+  element: HTMLImageElement | HTMLVideoElement
+): Promise<string | null> {
+  try {
+    if (element instanceof HTMLVideoElement) {
+      if (!element.videoWidth) return null;
+      return drawThumbnail(element, element.videoWidth, element.videoHeight);
+    }
+
+    if (element.naturalWidth) {
+      try {
+        return drawThumbnail(element, element.naturalWidth, element.naturalHeight);
+      } catch {
+        // Tainted canvas, fall back to fetching a frame
+      }
+    }
+
+    if (!element.src) return null;
+    const response = await httpRequest<Blob>(wrapWithImageProxyIfNeeded(convertToSnapshotUrl(element.src)), {
+      method: 'GET',
+      responseType: 'blob',
+    });
+    const bitmap = await createImageBitmap(response.data);
+    try {
+      return drawThumbnail(bitmap, bitmap.width, bitmap.height);
+    } finally {
+      bitmap.close();
+    }
+  } catch (error) {
+    log.monitorDetail('Failed to capture PTZ preset thumbnail', LogLevel.WARN, error);
+    return null;
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Review Playback Utilities
+ *
+ * Helpers for the Timeline review mode, which plays every selected monitor
+ * at the same moment in time. Finds the event covering a moment on each
+ * monitor and maps the shared clock to a position inside that event.
+ */
+
+import type { EventData } from '../api/types';
+
+/** Start and end of an event, in epoch milliseconds */
+export interface EventTimeRange {
+  start: number;
+  end: number;
+}
+
+/** What a monitor shows at a moment in review mode */
+export interface ReviewCoverage {
+  /** Event covering the moment, if any */
+  event: EventData | null;
+  /** First event starting after the moment, for the gap indicator */
+  nextEvent: EventData | null;
+}
+
+/**
+ * Get the time range of an event. Events still recording (no end time)
+ * use their current length.
+ */
+export function getEventTimeRange({ Event }: EventData): EventTimeRange {
+  const start = new Date(Event.StartDateTime.replace(' ', 'T')).getTime();
+  const end = Event.EndDateTime
+    ? new Date(Event.EndDateTime.replace(' ', 'T')).getTime()
+    : start + (parseFloat(Event.Length) || 0) * 1000;
+  return { start, end };
+}
+
+/**
+ * Find what a monitor recorded at a moment.
+ *
+ * When events overlap, the one that started last wins.
+ *
+ * @param events - Events of any monitors
+ * @param monitorId - Monitor to look up
+ * @param time - Moment in epoch milliseconds
+ */
+export function getReviewCoverage(events: EventData[], monitorId: string, time: number): ReviewCoverage {
+  let event: EventData | null = null;
+  let eventStart = -Infinity;
+  let nextEvent: EventData | null = null;
+  let nextStart = Infinity;
+
+  for (const candidate of events) {
+    if (candidate.Event.MonitorId !== monitorId) continue;
+    const { start, end } = getEventTimeRange(candidate);
+    if (start <= time && time < end && start > eventStart) {
+      event = candidate;
+      eventStart = start;
+    } else if (start > time && start < nextStart) {
+      nextEvent = candidate;
+      nextStart = start;
+    }
+  }
+
+  return { event, nextEvent };
+}
+
+/**
+ * Seconds into an event that correspond to a moment, clamped to the event.
+ */
+export function getEventOffsetSeconds(event: EventData, time: number): number {
+  const { start, end } = getEventTimeRange(event);
+  return Math.max(0, Math.min(time, end) - start) / 1000;
+}
+
+/**
+ * Frame number (1-based) shown at an offset into a JPEG-only event.
+ * Frames are assumed to be evenly spread over the event length.
+ */
+export function getEventFrameAtOffset({ Event }: EventData, offsetSeconds: number): number {
+  const frames = parseInt(Event.Frames, 10) || 1;
+  const length = parseFloat(Event.Length) || 0;
+  if (length <= 0) return 1;
+  return Math.min(frames, Math.max(1, Math.floor((offsetSeconds / length) * frames) + 1));
+}
@@ -0,0 +1,243 @@
+/**
+ * Saved Event Search Utilities
+ *
+ * Named event searches that can be recalled on the Events page, the Timeline
+ * page and the dashboard Events widget.
+ *
+ * A saved search stores the filter selection rather than a URL, so relative
+ * date ranges ("last 24 hours") are resolved each time the search is applied.
+ * Searches can be exported to and imported from JSON.
+ */
+
+import { z } from 'zod';
+import type { EventFilters } from '../api/events';
+import { advancedFiltersToParams, type EventAdvancedFilters } from './event-filter-params';
+import { formatLocalDateTime } from './time';
+
+/**
+ * Date range of a saved search.
+ * - relative: the last `hours` hours before the search is applied
+ * - absolute: fixed local date/times in datetime-local format (YYYY-MM-DDTHH:mm)
+ */
+export type SavedSearchDateRange =
+  | { type: 'relative'; hours: number }
+  | { type: 'absolute'; start: string; end: string };
+
+export interface SavedEventSearch {
+  id: string;
+  name: string;
+  monitorIds: string[];
+  tagIds: string[];
+  /** Null when the search has no date range */
+  dateRange: SavedSearchDateRange | null;
+  favoritesOnly: boolean;
+  advanced: EventAdvancedFilters;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Fields supplied when creating or importing a search */
+export type SavedEventSearchInput = Omit<SavedEventSearch, 'id' | 'createdAt' | 'updatedAt'>;
+
+/** Relative ranges offered when saving a search, in hours */
+export const RELATIVE_RANGE_PRESETS = [1, 6, 12, 24, 48, 168, 336, 720];
+
+/** Version written to exported files */
+export const SAVED_SEARCHES_EXPORT_VERSION = 1;
+
+/** Format marker written to exported files */
+export const SAVED_SEARCHES_EXPORT_FORMAT = 'zmng-saved-event-searches';
+
+/**
+ * A "to" date within this window of now is treated as "now" when guessing
+ * whether the current filter is a relative range.
+ */
+const RELATIVE_END_TOLERANCE_MS = 5 * 60 * 1000;
+
+const TextFilterSchema = z.object({
+  value: z.string(),
+  match: z.enum(['equals', 'contains', 'regexp']).optional(),
+  negate: z.boolean().optional(),
+});
+
+const RangeFilterSchema = z.object({
+  min: z.number().optional(),
+  max: z.number().optional(),
+});
+
+const AdvancedFiltersSchema = z.object({
+  archived: z.boolean().optional(),
+  cause: TextFilterSchema.optional(),
+  name: TextFilterSchema.optional(),
+  notes: TextFilterSchema.optional(),
+  maxScore: RangeFilterSchema.optional(),
+  avgScore: RangeFilterSchema.optional(),
+  length: RangeFilterSchema.optional(),
+  frames: RangeFilterSchema.optional(),
+  storage: z.object({ ids: z.array(z.string()), negate: z.boolean().optional() }).optional(),
+});
+
+const DateRangeSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('relative'), hours: z.number().positive() }),
+  z.object({ type: z.literal('absolute'), start: z.string(), end: z.string() }),
+]);
+
+const SavedSearchImportSchema = z.object({
+  name: z.string().trim().min(1),
+  monitorIds: z.array(z.coerce.string()).default([]),
+  tagIds: z.array(z.coerce.string()).default([]),
+  dateRange: DateRangeSchema.nullable().default(null),
+  favoritesOnly: z.boolean().default(false),
+  advanced: AdvancedFiltersSchema.default({}),
+});
+
+const SavedSearchesFileSchema = z.object({
+  format: z.literal(SAVED_SEARCHES_EXPORT_FORMAT).optional(),
+  version: z.number().optional(),
+  searches: z.array(z.unknown()),
+});
+
+/**
+ * Resolve the date range of a saved search to datetime-local strings.
+ *
+ * @param dateRange - Saved date range
+ * @param now - Reference time for relative ranges
+ * @returns Start and end, empty strings when the search has no date range
+ */
+export function resolveSavedSearchDates(
+  dateRange: SavedSearchDateRange | null,
+  now: Date = new Date()
+): { start: string; end: string } {
+  if (!dateRange) return { start: '', end: '' };
+  if (dateRange.type === 'absolute') {
+    return { start: dateRange.start, end: dateRange.end };
+  }
+  const start = new Date(now.getTime() - dateRange.hours * 60 * 60 * 1000);
+  return { start: formatLocalDateTime(start), end: formatLocalDateTime(now) };
+}
+
+/**
+ * Build the date range to store for the given filter inputs.
+ *
+ * A range ending (about) now is stored as relative so the search keeps
+ * following the clock; anything else is stored as entered.
+ *
+ * @param start - Start in datetime-local format, may be empty
+ * @param end - End in datetime-local format, may be empty
+ * @param now - Reference time
+ */
+export function inferSavedSearchDateRange(
+  start: string,
+  end: string,
+  now: Date = new Date()
+): SavedSearchDateRange | null {
+  if (!start && !end) return null;
+
+  const startDate = new Date(start);
+  const endDate = new Date(end);
+  if (
+    start &&
+    end &&
+    !isNaN(startDate.getTime()) &&
+    !isNaN(endDate.getTime()) &&
+    Math.abs(now.getTime() - endDate.getTime()) <= RELATIVE_END_TOLERANCE_MS
+  ) {
+    const hours = Math.round((endDate.getTime() - startDate.getTime()) / (60 * 60 * 1000));
+    if (hours > 0) return { type: 'relative', hours };
+  }
+
+  return { type: 'absolute', start, end };
+}
+
+/**
+ * Convert a saved search to Events page URL search parameters.
+ * Mirrors the parameters written by useEventFilters.
+ */
+export function savedSearchToParams(search: SavedEventSearch, now: Date = new Date()): Record<string, string> {
+  const { start, end } = resolveSavedSearchDates(search.dateRange, now);
+  const params: Record<string, string> = {
+    sort: 'StartDateTime',
+    direction: 'desc',
+    ...advancedFiltersToParams(search.advanced),
+  };
+  if (search.monitorIds.length > 0) params.monitorId = search.monitorIds.join(',');
+  if (start) params.startDateTime = start;
+  if (end) params.endDateTime = end;
+  if (search.favoritesOnly) params.favorites = 'true';
+  if (search.tagIds.length > 0) params.tagIds = search.tagIds.join(',');
+  return params;
+}
+
+/**
+ * Convert a saved search to server-side event filters.
+ * Tags and favorites are not server-side filters and must be applied by the caller.
+ *
+ * @param search - Saved search
+ * @param formatDate - Converts a local date to the server's date format
+ * @param now - Reference time for relative ranges
+ */
+export function savedSearchToEventFilters(
+  search: SavedEventSearch,
+  formatDate: (date: Date) => string,
+  now: Date = new Date()
+): EventFilters {
+  const { start, end } = resolveSavedSearchDates(search.dateRange, now);
+  return {
+    ...search.advanced,
+    monitorId: search.monitorIds.length > 0 ? search.monitorIds.join(',') : undefined,
+    startDateTime: start ? formatDate(new Date(start)) : undefined,
+    endDateTime: end ? formatDate(new Date(end)) : undefined,
+  };
+}
+
+/**
+ * Serialize saved searches for export.
+ * IDs and timestamps are left out; they are assigned again on import.
+ */
+export function exportSavedSearches(searches: SavedEventSearch[]): string {
+  return JSON.stringify(
+    {
+      format: SAVED_SEARCHES_EXPORT_FORMAT,
+      version: SAVED_SEARCHES_EXPORT_VERSION,
+      searches: searches.map(({ name, monitorIds, tagIds, dateRange, favoritesOnly, advanced }) => ({
+        name,
+        monitorIds,
+        tagIds,
+        dateRange,
+        favoritesOnly,
+        advanced,
+      })),
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Parse an exported saved searches file.
+ * Accepts the export format or a bare array of searches; invalid entries are skipped.
+ *
+ * @param text - File contents
+ * @returns Valid searches and the number of skipped entries
+ * @throws Error if the text is not JSON or contains no search list
+ */
+export function parseSavedSearchesImport(text: string): { searches: SavedEventSearchInput[]; skipped: number } {
+  const data: unknown = JSON.parse(text);
+  const file = SavedSearchesFileSchema.safeParse(Array.isArray(data) ? { searches: data } : data);
+  if (!file.success) {
+    throw new Error('Not a saved searches file');
+  }
+
+  const searches: SavedEventSearchInput[] = [];
+  let skipped = 0;
+  file.data.searches.forEach((entry) => {
+    const parsed = SavedSearchImportSchema.safeParse(entry);
+    if (parsed.success) {
+      searches.push(parsed.data);
+    } else {
+      skipped++;
+    }
+  });
+
+  return { searches, skipped };
+}
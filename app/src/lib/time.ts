@@ -5,6 +5,16 @@
 import { useProfileStore } from '../stores/profile';
 import { log, LogLevel } from './logger';
 
+/**
+ * Timezone of the current profile, falling back to the device timezone.
+ */
+export function getProfileTimeZone(): string {
+    // Access primitives directly to avoid deprecated currentProfile() getter
+    const { profiles, currentProfileId } = useProfileStore.getState();
+    const currentProfile = profiles.find(p => p.id === currentProfileId);
+    return currentProfile?.timezone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
 /**
  * Format a date for the ZM API using the server's timezone.
  * ZM API expects 'YYYY-MM-DD HH:mm:ss' (space, not T).
@@ -13,10 +23,7 @@ import { log, LogLevel } from './logger';
  * @returns String formatted in server's timezone
  */
 export function formatForServer(date: Date): string {
-    // Access primitives directly to avoid deprecated currentProfile() getter
-    const { profiles, currentProfileId } = useProfileStore.getState();
-    const currentProfile = profiles.find(p => p.id === currentProfileId);
-    const timeZone = currentProfile?.timezone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+    const timeZone = getProfileTimeZone();
 
     // Format: 'yyyy-MM-dd HH:mm:ss' in the TARGET timezone
     // This effectively shifts the time.
@@ -58,3 +65,65 @@ export function formatLocalDateTime(date: Date): string {
     const minutes = String(date.getMinutes()).padStart(2, '0');
     return `${year}-${month}-${day}T${hours}:${minutes}`;
 }
+
+/**
+ * Wall-clock date and time in a particular timezone (month is 1-12).
+ */
+export interface ZonedDateTime {
+    year: number;
+    month: number;
+    day: number;
+    hour: number;
+    minute: number;
+    second: number;
+}
+
+/**
+ * Read the wall-clock date and time of an instant in a timezone.
+ *
+ * @param date - The instant
+ * @param timeZone - IANA timezone name
+ * @returns Wall-clock fields in that timezone
+ */
+export function getZonedDateTime(date: Date, timeZone: string): ZonedDateTime {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric',
+        hourCycle: 'h23',
+    }).formatToParts(date);
+    const get = (type: Intl.DateTimeFormatPartTypes) =>
+        Number(parts.find(part => part.type === type)?.value ?? 0);
+    return {
+        year: get('year'),
+        month: get('month'),
+        day: get('day'),
+        hour: get('hour'),
+        minute: get('minute'),
+        second: get('second'),
+    };
+}
+
+/**
+ * Find the instant at which a timezone's wall clock shows the given time.
+ * Out-of-range fields roll over (day 0 is the last day of the previous month).
+ *
+ * @param time - Wall-clock fields
+ * @param timeZone - IANA timezone name
+ * @returns The matching instant
+ */
+export function zonedDateTimeToDate(time: ZonedDateTime, timeZone: string): Date {
+    const wallClock = Date.UTC(time.year, time.month - 1, time.day, time.hour, time.minute, time.second);
+    const offsetAt = (instant: number) => {
+        const zoned = getZonedDateTime(new Date(instant), timeZone);
+        return Date.UTC(zoned.year, zoned.month - 1, zoned.day, zoned.hour, zoned.minute, zoned.second) - instant;
+    };
+
+    // The offset at the first guess can be off by a DST shift, so check it once more
+    const guess = wallClock - offsetAt(wallClock);
+    return new Date(wallClock - offsetAt(guess));
+}
@@ -167,9 +167,19 @@ export function getMonitorControlUrl(
   options: {
     token?: string;
     apiUrl?: string;
+    /** Move speed in percent; ZoneMinder scales it between the control's min and max speeds */
+    speed?: number;
+    /** Tilt speed in percent, when it differs from the pan speed */
+    tiltSpeed?: number;
+    /** Image point in pixels for map moves, sent instead of the speeds */
+    point?: { x: number; y: number };
   } = {}
 ): string {
-  const { token, apiUrl } = options;
+  const { token, apiUrl, speed = 0, tiltSpeed = speed, point } = options;
+  const toFactor = (value: number) => String(Math.round(Math.min(100, Math.max(0, value))));
+  const moveParams = point
+    ? { x: String(Math.round(point.x)), y: String(Math.round(point.y)), scale: '100' }
+    : { xge: toFactor(speed), yge: toFactor(tiltSpeed) };
 
   return buildUrl(
     portalUrl,
@@ -179,8 +189,7 @@ export function getMonitorControlUrl(
       request: 'control',
       id: monitorId,
       control: command,
-      xge: '0',
-      yge: '0',
+      ...moveParams,
     },
     token,
     apiUrl
@@ -199,7 +208,7 @@ export function getMonitorControlUrl(
 export function getEventImageUrl(
   portalUrl: string,
   eventId: string,
-  frame: number | 'snapshot' | 'objdetect',
+  frame: number | 'snapshot' | 'alarm' | 'objdetect',
   options: {
     token?: string;
     width?: number;
@@ -221,6 +230,42 @@ export function getEventImageUrl(
   return buildUrl(portalUrl, '/index.php', params, token, apiUrl);
 }
 
+/**
+ * Get the URL of a file stored in an event's directory
+ * (e.g. objdetect.json written by the object detection hook).
+ *
+ * Format: /index.php?view=file&eid=<eventId>&file=<fileName>&token=<token>
+ *
+ * @param portalUrl - Portal URL
+ * @param eventId - Event ID
+ * @param fileName - Name of the file in the event directory
+ * @param options - Auth options
+ * @returns Event file URL
+ */
+export function getEventFileUrl(
+  portalUrl: string,
+  eventId: string,
+  fileName: string,
+  options: {
+    token?: string;
+    apiUrl?: string;
+  } = {}
+): string {
+  const { token, apiUrl } = options;
+
+  return buildUrl(
+    portalUrl,
+    '/index.php',
+    {
+      view: 'file',
+      eid: eventId,
+      file: fileName,
+    },
+    token,
+    apiUrl
+  );
+}
+
 /**
  * Get event video URL (MP4/H.264 format)
  *
@@ -2,11 +2,12 @@
  * Video Markers Utility
  *
  * Utilities for calculating and generating video timeline markers from ZoneMinder event data.
- * Converts frame numbers to video timestamps for alarm frame visualization.
+ * Converts frame numbers to video timestamps for alarm frame visualization, and
+ * groups the event's stored frames into alarm runs when frame data is available.
  */
 
 import { log, LogLevel } from './logger';
-import type { Event } from '../api/types';
+import type { Event, Frame } from '../api/types';
 
 /**
  * Video marker for timeline visualization
@@ -20,6 +21,28 @@ export interface VideoMarker {
   type: 'alarm' | 'maxScore';
   /** Associated frame ID */
   frameId?: number;
+  /** End of the alarm run in seconds (alarm markers built from frame data) */
+  endTime?: number;
+  /** Last frame of the alarm run (alarm markers built from frame data) */
+  endFrameId?: number;
+  /** Highest score in the run, or the frame score for max score markers */
+  score?: number;
+}
+
+/**
+ * Consecutive alarm frames of an event
+ */
+export interface AlarmFrameRun {
+  startFrameId: number;
+  endFrameId: number;
+  /** Seconds since event start of the first alarm frame */
+  startTime: number;
+  /** Seconds since event start of the last alarm frame */
+  endTime: number;
+  maxScore: number;
+  maxScoreFrameId: number;
+  /** Seconds since event start of the highest-scoring frame */
+  maxScoreTime: number;
 }
 
 /**
@@ -67,14 +90,135 @@ export function frameToTimestamp(
   return Math.max(0, Math.min(timestamp, eventLength)); // Clamp to valid range
 }
 
+/**
+ * Group stored frames into runs of consecutive alarm frames.
+ *
+ * A run ends at the first stored frame that is not an alarm frame, so runs
+ * stay correct when the server only stores some frames (Mocord bulk frames).
+ *
+ * @param frames - Frames of one event
+ * @returns Alarm runs in frame order
+ *
+ * @example
+ * getAlarmFrameRuns(frames)
+ * // Returns: [{ startFrameId: 40, endFrameId: 55, startTime: 4, endTime: 5.5,
+ * //             maxScore: 38, maxScoreFrameId: 47, maxScoreTime: 4.7 }]
+ */
+export function getAlarmFrameRuns(frames: Frame[]): AlarmFrameRun[] {
+  const runs: AlarmFrameRun[] = [];
+  let current: AlarmFrameRun | null = null;
+
+  [...frames]
+    .sort((a, b) => a.FrameId - b.FrameId)
+    .forEach((frame) => {
+      if (frame.Type !== 'Alarm') {
+        current = null;
+        return;
+      }
+
+      if (!current) {
+        current = {
+          startFrameId: frame.FrameId,
+          endFrameId: frame.FrameId,
+          startTime: frame.Delta,
+          endTime: frame.Delta,
+          maxScore: frame.Score,
+          maxScoreFrameId: frame.FrameId,
+          maxScoreTime: frame.Delta,
+        };
+        runs.push(current);
+        return;
+      }
+
+      current.endFrameId = frame.FrameId;
+      current.endTime = frame.Delta;
+      if (frame.Score > current.maxScore) {
+        current.maxScore = frame.Score;
+        current.maxScoreFrameId = frame.FrameId;
+        current.maxScoreTime = frame.Delta;
+      }
+    });
+
+  return runs;
+}
+
+/**
+ * Point of the score-over-time series
+ */
+export interface FrameScorePoint {
+  /** Seconds since event start */
+  time: number;
+  score: number;
+  frameId: number;
+}
+
+/**
+ * Build the score-over-time series of an event for charting.
+ *
+ * Long events are reduced to at most `maxPoints` points by keeping the
+ * highest-scoring frame of each bucket, so short alarm spikes stay visible.
+ *
+ * @param frames - Frames of one event
+ * @param maxPoints - Maximum number of points to return
+ * @returns Points ordered by time
+ */
+export function buildFrameScoreSeries(frames: Frame[], maxPoints = 500): FrameScorePoint[] {
+  const sorted = [...frames].sort((a, b) => a.FrameId - b.FrameId);
+  const bucketSize = Math.max(1, Math.ceil(sorted.length / Math.max(1, maxPoints)));
+  const points: FrameScorePoint[] = [];
+
+  for (let start = 0; start < sorted.length; start += bucketSize) {
+    const peak = sorted
+      .slice(start, start + bucketSize)
+      .reduce((best, frame) => (frame.Score > best.Score ? frame : best));
+    points.push({ time: peak.Delta, score: peak.Score, frameId: peak.FrameId });
+  }
+
+  return points;
+}
+
+/**
+ * Build markers from the event's alarm runs: one alarm marker at the start of
+ * each run, plus a max score marker at the highest-scoring frame when it is
+ * not already the start of a run.
+ */
+function generateFrameRunMarkers(runs: AlarmFrameRun[], eventLength: number): VideoMarker[] {
+  const clampTime = (time: number) => Math.max(0, Math.min(time, eventLength));
+
+  const markers: VideoMarker[] = runs.map((run) => ({
+    time: clampTime(run.startTime),
+    endTime: clampTime(run.endTime),
+    type: 'alarm',
+    frameId: run.startFrameId,
+    endFrameId: run.endFrameId,
+    score: run.maxScore,
+  }));
+
+  const peakRun = runs.reduce((best, run) => (run.maxScore > best.maxScore ? run : best));
+  if (peakRun.maxScoreFrameId !== peakRun.startFrameId) {
+    markers.push({
+      time: clampTime(peakRun.maxScoreTime),
+      type: 'maxScore',
+      frameId: peakRun.maxScoreFrameId,
+      score: peakRun.maxScore,
+    });
+  }
+
+  return markers;
+}
+
 /**
  * Generate video markers from ZoneMinder event data
  *
- * Creates markers for:
+ * When the event's frames are available, creates one alarm marker per run of
+ * consecutive alarm frames and a max score marker at the peak frame.
+ *
+ * Otherwise falls back to the event summary and creates markers for:
  * - Alarm frame (red marker)
  * - Max score frame (yellow marker, only if different from alarm frame)
  *
  * @param event - ZoneMinder event object
+ * @param frames - Optional frames of the event (from getEventFrames)
  * @returns Array of video markers (empty if invalid data)
  *
  * @example
@@ -84,7 +228,10 @@ export function frameToTimestamp(
  * //   { time: 7.8, type: 'maxScore', frameId: 78 }
  * // ]
  */
-export function generateEventMarkers(event: Event | null | undefined): VideoMarker[] {
+export function generateEventMarkers(
+  event: Event | null | undefined,
+  frames?: Frame[]
+): VideoMarker[] {
   if (!event) {
     log.videoMarkers('No event data provided for markers', LogLevel.DEBUG);
     return [];
@@ -111,6 +258,17 @@ export function generateEventMarkers(event: Event | null | undefined): VideoMark
     return [];
   }
 
+  // Prefer real alarm runs over the two summary frame IDs
+  const runs = frames ? getAlarmFrameRuns(frames) : [];
+  if (runs.length > 0) {
+    const runMarkers = generateFrameRunMarkers(runs, eventLength);
+    log.videoMarkers('Generated video markers from alarm runs', LogLevel.INFO, {
+      eventId: event.Id,
+      runs: runs.length,
+    });
+    return runMarkers;
+  }
+
   // Add alarm frame marker (red)
   if (alarmFrameId && Number.isFinite(alarmFrameId)) {
     const alarmTime = frameToTimestamp(alarmFrameId, totalFrames, eventLength);
@@ -0,0 +1,152 @@
+/**
+ * ZIP Archive Writer
+ *
+ * Builds ZIP archives in memory without compression ("stored" entries).
+ * Event media (MP4, JPEG) is already compressed, so storing keeps bundle
+ * creation fast and the output byte-for-byte verifiable against checksums.
+ *
+ * Archives are limited to the classic ZIP format: at most 65535 entries and
+ * 4 GiB in total (no ZIP64).
+ */
+
+export interface ZipEntry {
+  /** Path inside the archive, using forward slashes */
+  name: string;
+  data: Uint8Array;
+  /** Modification time stored for the entry (default: now) */
+  modified?: Date;
+}
+
+const LOCAL_FILE_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_DIRECTORY_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+
+/** Version 2.0: needed for folders in paths */
+const ZIP_VERSION = 20;
+/** General purpose flag bit 11: file names are UTF-8 */
+const UTF8_FLAG = 0x0800;
+
+const MAX_ENTRIES = 0xffff;
+const MAX_SIZE = 0xffffffff;
+
+let crcTable: Uint32Array | null = null;
+
+function getCrcTable(): Uint32Array {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  return crcTable;
+}
+
+/**
+ * Compute the CRC-32 checksum used by ZIP.
+ */
+export function crc32(data: Uint8Array): number {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Encode a date as MS-DOS date and time (local time, 2 second resolution).
+ */
+function toDosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.min(Math.max(date.getFullYear(), 1980), 2107);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Build a ZIP archive from the given entries.
+ *
+ * @throws Error if the archive would exceed the classic ZIP limits
+ *
+ * @example
+ * ```typescript
+ * const zip = createZipArchive([
+ *   { name: 'manifest.json', data: new TextEncoder().encode('{}') },
+ * ]);
+ * ```
+ */
+export function createZipArchive(entries: ZipEntry[]): Uint8Array {
+  if (entries.length > MAX_ENTRIES) {
+    throw new Error(`ZIP archive cannot hold more than ${MAX_ENTRIES} files`);
+  }
+
+  const encoder = new TextEncoder();
+  const prepared = entries.map((entry) => ({
+    name: encoder.encode(entry.name),
+    data: entry.data,
+    crc: crc32(entry.data),
+    ...toDosDateTime(entry.modified ?? new Date()),
+  }));
+
+  const localSize = prepared.reduce((sum, entry) => sum + 30 + entry.name.length + entry.data.length, 0);
+  const centralSize = prepared.reduce((sum, entry) => sum + 46 + entry.name.length, 0);
+  const totalSize = localSize + centralSize + 22;
+  if (totalSize > MAX_SIZE) {
+    throw new Error('ZIP archive would be larger than 4 GiB');
+  }
+
+  const output = new Uint8Array(totalSize);
+  const view = new DataView(output.buffer);
+  const offsets: number[] = [];
+  let offset = 0;
+
+  for (const entry of prepared) {
+    offsets.push(offset);
+    view.setUint32(offset, LOCAL_FILE_HEADER_SIGNATURE, true);
+    view.setUint16(offset + 4, ZIP_VERSION, true);
+    view.setUint16(offset + 6, UTF8_FLAG, true);
+    view.setUint16(offset + 8, 0, true); // stored
+    view.setUint16(offset + 10, entry.time, true);
+    view.setUint16(offset + 12, entry.date, true);
+    view.setUint32(offset + 14, entry.crc, true);
+    view.setUint32(offset + 18, entry.data.length, true);
+    view.setUint32(offset + 22, entry.data.length, true);
+    view.setUint16(offset + 26, entry.name.length, true);
+    view.setUint16(offset + 28, 0, true);
+    output.set(entry.name, offset + 30);
+    output.set(entry.data, offset + 30 + entry.name.length);
+    offset += 30 + entry.name.length + entry.data.length;
+  }
+
+  const centralStart = offset;
+  prepared.forEach((entry, index) => {
+    view.setUint32(offset, CENTRAL_DIRECTORY_SIGNATURE, true);
+    view.setUint16(offset + 4, ZIP_VERSION, true);
+    view.setUint16(offset + 6, ZIP_VERSION, true);
+    view.setUint16(offset + 8, UTF8_FLAG, true);
+    view.setUint16(offset + 10, 0, true);
+    view.setUint16(offset + 12, entry.time, true);
+    view.setUint16(offset + 14, entry.date, true);
+    view.setUint32(offset + 16, entry.crc, true);
+    view.setUint32(offset + 20, entry.data.length, true);
+    view.setUint32(offset + 24, entry.data.length, true);
+    view.setUint16(offset + 28, entry.name.length, true);
+    // Extra field, comment, disk number, internal and external attributes stay 0
+    view.setUint32(offset + 42, offsets[index], true);
+    output.set(entry.name, offset + 46);
+    offset += 46 + entry.name.length;
+  });
+
+  view.setUint32(offset, END_OF_CENTRAL_DIRECTORY_SIGNATURE, true);
+  view.setUint16(offset + 8, prepared.length, true);
+  view.setUint16(offset + 10, prepared.length, true);
+  view.setUint32(offset + 12, offset - centralStart, true);
+  view.setUint32(offset + 16, centralStart, true);
+
+  return output;
+}
@@ -123,12 +123,25 @@ export const ZM_MONITOR_FUNCTIONS = {
   nodect: 'Nodect',
 } as const;
 
+/**
+ * Zone Check Methods
+ *
+ * How a zone decides it is alarmed: by alarmed pixels alone, by pixels that
+ * survive the noise filter, or by blobs of filtered pixels.
+ */
+export const ZM_ZONE_CHECK_METHODS = {
+  alarmedPixels: 'AlarmedPixels',
+  filteredPixels: 'FilteredPixels',
+  blobs: 'Blobs',
+} as const;
+
 /**
  * Type-safe command values
  */
 export type ZmsCommand = typeof ZMS_COMMANDS[keyof typeof ZMS_COMMANDS];
 export type ZmsMode = typeof ZMS_MODES[keyof typeof ZMS_MODES];
 export type ZmMonitorFunction = typeof ZM_MONITOR_FUNCTIONS[keyof typeof ZM_MONITOR_FUNCTIONS];
+export type ZmZoneCheckMethod = typeof ZM_ZONE_CHECK_METHODS[keyof typeof ZM_ZONE_CHECK_METHODS];
 
 /**
  * Tags API Constants
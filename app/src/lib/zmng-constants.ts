@@ -112,6 +112,25 @@ export const TIMELINE = {
 
   // Maximum zoom level (1 week)
   zoomMax: 7 * 24 * 60 * 60 * 1000,
+
+  // Length of the review scrubber, centered on the picked moment (10 minutes)
+  reviewWindowMs: 10 * 60 * 1000,
+
+  // Review loads events that started this long before its window, so recordings
+  // already running at the window's start are found (1 hour)
+  reviewLookbackMs: 60 * 60 * 1000,
+
+  // Most events loaded for one review window
+  reviewEventLimit: 1000,
+
+  // How often the review clock advances while playing (ms)
+  reviewTickMs: 250,
+
+  // Playback speeds offered in review mode
+  reviewSpeeds: [0.5, 1, 2, 4, 8],
+
+  // Seconds a review tile may drift from the shared clock before it is re-seeked
+  reviewSyncToleranceSec: 1,
 } as const;
 
 /**
@@ -197,6 +216,124 @@ export const MONITOR_STATUS_COLORS = {
   error: '#795548', // Brown - error state
 } as const;
 
+/**
+ * Monitor Status History Constants
+ *
+ * Configuration for the FPS and bandwidth history kept for each monitor.
+ */
+export const MONITOR_STATUS_HISTORY = {
+  // Samples kept per monitor (1 hour at the normal 20 sec status interval)
+  maxSamples: 180,
+
+  // Samples older than this are dropped (24 hours)
+  maxAgeMs: 24 * 60 * 60 * 1000,
+
+  // Recent samples averaged before a monitor is flagged for low FPS
+  lowFpsSampleCount: 3,
+
+  // Capture FPS thresholds offered for the low FPS flag (0 = off)
+  lowFpsThresholds: [0, 1, 2, 5, 10],
+} as const;
+
+/**
+ * Camera Health Watchdog Constants
+ *
+ * Configuration for client-side camera health alerts.
+ */
+export const CAMERA_HEALTH = {
+  // Grace periods offered before a camera problem is reported (seconds)
+  gracePeriods: [30, 60, 120, 300, 600],
+} as const;
+
+/**
+ * PTZ Preset Constants
+ *
+ * Configuration for named PTZ presets and their thumbnails.
+ */
+export const PTZ_PRESETS = {
+  // Thumbnail width in pixels (height follows the aspect ratio)
+  thumbnailWidth: 160,
+
+  // JPEG quality of preset thumbnails (0-1)
+  thumbnailQuality: 0.6,
+
+  // Time for the camera to reach a preset before its thumbnail is captured (ms)
+  gotoSettleDelay: 4000,
+
+  // Maximum length of a preset name
+  // Longest name of a saved zoom view
+  maxNameLength: 32,
+} as const;
+
+/**
+ * PTZ Input Constants
+ *
+ * Configuration for press-and-hold, keyboard and gamepad PTZ control.
+ */
+export const PTZ_INPUT = {
+  // Stick deflection ignored as drift (0-1)
+  gamepadDeadzone: 0.2,
+
+  // Stick speeds are rounded to this step (%) so small wobbles do not resend the move
+  gamepadSpeedStep: 10,
+} as const;
+
+/**
+ * PTZ Point and Zoom Constants
+ *
+ * Configuration for centering the camera on a tapped point and zooming to a
+ * drawn area of the live view.
+ */
+export const PTZ_POINT = {
+  // Drags shorter than this (fraction of the image) count as a tap
+  tapTolerance: 0.02,
+
+  // Offsets from the center smaller than this (fraction of the image) are not moved
+  centerTolerance: 0.03,
+
+  // Continuous move time to bring the edge of the image to the center (ms)
+  continuousEdgeMs: 1500,
+
+  // Continuous zoom time to double the magnification (ms)
+  continuousZoomDoublingMs: 1000,
+} as const;
+
+/**
+ * PTZ Patrol Constants
+ *
+ * Configuration for patrol tours, which visit a monitor's presets in turn
+ * while its live view is open.
+ */
+export const PTZ_PATROL = {
+  // Time spent at a stop, including the move to it (seconds)
+  defaultDwellSeconds: 20,
+  minDwellSeconds: 5,
+  maxDwellSeconds: 3600,
+
+  // A patrol paused by manual PTZ input resumes after this long without input (ms)
+  manualResumeDelay: 60000,
+} as const;
+
+/**
+ * Digital Zoom Constants
+ *
+ * Configuration for zooming into live and recorded views in the app, and for
+ * the zoom views saved per monitor.
+ */
+export const DIGITAL_ZOOM = {
+  // Largest magnification
+  maxScale: 8,
+
+  // Magnification per pixel of wheel scroll
+  wheelSensitivity: 0.002,
+
+  // Magnification a double click zooms to
+  doubleClickScale: 2,
+
+  // Longest name of a saved zoom view
+  maxNameLength: 32,
+} as const;
+
 /**
  * Logging and Debugging Constants
  *
@@ -246,6 +383,8 @@ export interface BandwidthSettings {
   imageQuality: number;
   /** Stream max FPS */
   streamMaxFps: number;
+  /** Frames sampled for hover/long-press event previews */
+  eventPreviewFrames: number;
 }
 
 /**
@@ -266,6 +405,7 @@ export const BANDWIDTH_SETTINGS: Record<BandwidthMode, BandwidthSettings> = {
     imageScale: 100, // 100%
     imageQuality: 100, // 100%
     streamMaxFps: 10, // 10 FPS
+    eventPreviewFrames: 12,
   },
   low: {
     monitorStatusInterval: 40000, // 40 sec
@@ -278,6 +418,7 @@ export const BANDWIDTH_SETTINGS: Record<BandwidthMode, BandwidthSettings> = {
     imageScale: 50, // 50%
     imageQuality: 50, // 50%
     streamMaxFps: 5, // 5 FPS
+    eventPreviewFrames: 6,
   },
 } as const;
 
@@ -187,3 +187,188 @@ export function getOrientedDimensions(
   }
   return { width, height };
 }
+
+/**
+ * Reverses transformPoint: maps a point on the rotated display back to the
+ * original (unrotated) coordinate space zones are stored in.
+ *
+ * @param point - The point in display coordinates
+ * @param transform - The transformation parameters
+ * @returns The point in original coordinates
+ */
+export function inverseTransformPoint(point: Point, transform: ZoneTransform): Point {
+  const { rotation, originalWidth, originalHeight } = transform;
+
+  if (rotation.kind !== 'degrees') {
+    return point;
+  }
+
+  const degrees = ((rotation.degrees % 360) + 360) % 360;
+
+  switch (degrees) {
+    case 90:
+      // (X, Y) -> (width - Y, X)
+      return { x: originalWidth - point.y, y: point.x };
+    case 180:
+      return { x: originalWidth - point.x, y: originalHeight - point.y };
+    case 270:
+      // (X, Y) -> (Y, height - X)
+      return { x: point.y, y: originalHeight - point.x };
+    default:
+      return point;
+  }
+}
+
+/**
+ * Formats points as a ZoneMinder coordinate string ("x,y x,y ...").
+ * Coordinates are rounded to whole pixels.
+ *
+ * @param points - The polygon points
+ * @returns Coordinate string for the Coords field
+ */
+export function formatZoneCoords(points: Point[]): string {
+  return points.map(p => `${Math.round(p.x)},${Math.round(p.y)}`).join(' ');
+}
+
+/**
+ * Calculates the area of a polygon in square pixels (shoelace formula).
+ *
+ * @param points - The polygon points, in order
+ * @returns The polygon area
+ */
+export function getPolygonArea(points: Point[]): number {
+  let doubled = 0;
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i];
+    const b = points[(i + 1) % points.length];
+    doubled += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(doubled) / 2;
+}
+
+/**
+ * Returns the four corners of the rectangle spanned by two points.
+ *
+ * @param a - One corner
+ * @param b - The opposite corner
+ * @returns Corners clockwise from the top left
+ */
+export function getRectanglePoints(a: Point, b: Point): Point[] {
+  const left = Math.min(a.x, b.x);
+  const right = Math.max(a.x, b.x);
+  const top = Math.min(a.y, b.y);
+  const bottom = Math.max(a.y, b.y);
+  return [
+    { x: left, y: top },
+    { x: right, y: top },
+    { x: right, y: bottom },
+    { x: left, y: bottom },
+  ];
+}
+
+/**
+ * Clamps a point to the monitor image.
+ *
+ * @param point - The point to clamp
+ * @param width - Image width
+ * @param height - Image height
+ * @returns The point moved inside 0..width-1, 0..height-1
+ */
+export function clampPoint(point: Point, width: number, height: number): Point {
+  return {
+    x: Math.min(Math.max(point.x, 0), width - 1),
+    y: Math.min(Math.max(point.y, 0), height - 1),
+  };
+}
+
+const cross = (o: Point, a: Point, b: Point) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+const onSegment = (p: Point, a: Point, b: Point) =>
+  Math.min(a.x, b.x) <= p.x && p.x <= Math.max(a.x, b.x) && Math.min(a.y, b.y) <= p.y && p.y <= Math.max(a.y, b.y);
+
+/**
+ * Checks whether segments ab and cd touch or cross.
+ */
+function segmentsIntersect(a: Point, b: Point, c: Point, d: Point): boolean {
+  const d1 = cross(c, d, a);
+  const d2 = cross(c, d, b);
+  const d3 = cross(a, b, c);
+  const d4 = cross(a, b, d);
+
+  if (((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0))) {
+    return true;
+  }
+  return (
+    (d1 === 0 && onSegment(a, c, d)) ||
+    (d2 === 0 && onSegment(b, c, d)) ||
+    (d3 === 0 && onSegment(c, a, b)) ||
+    (d4 === 0 && onSegment(d, a, b))
+  );
+}
+
+/**
+ * Checks whether any two non-adjacent edges of a polygon touch or cross.
+ *
+ * @param points - The polygon points, in order
+ * @returns True if the polygon is self-intersecting
+ */
+export function isPolygonSelfIntersecting(points: Point[]): boolean {
+  const count = points.length;
+  if (count < 4) return false;
+
+  for (let i = 0; i < count; i++) {
+    for (let j = i + 1; j < count; j++) {
+      // Skip edges that share a vertex
+      if (j === i + 1 || (i === 0 && j === count - 1)) continue;
+      if (segmentsIntersect(points[i], points[(i + 1) % count], points[j], points[(j + 1) % count])) {
+        return true;
+      }
+    }
+  }
+  return false;
+}
+
+/**
+ * Problems found when validating a zone before saving.
+ */
+export type ZoneValidationCode =
+  | 'NAME_REQUIRED'
+  | 'TOO_FEW_POINTS'
+  | 'OUT_OF_BOUNDS'
+  | 'SELF_INTERSECTING'
+  | 'ZERO_AREA'
+  | 'INVALID_THRESHOLD';
+
+export class ZoneValidationError extends Error {
+  public code: ZoneValidationCode;
+
+  constructor(message: string, code: ZoneValidationCode) {
+    super(message);
+    this.name = 'ZoneValidationError';
+    this.code = code;
+  }
+}
+
+/**
+ * Validates a zone polygon against the monitor image.
+ *
+ * @param points - The polygon points in original coordinates
+ * @param width - Monitor width (original, before rotation)
+ * @param height - Monitor height (original, before rotation)
+ * @returns The first problem found, or null if the polygon is valid
+ */
+export function validateZonePolygon(points: Point[], width: number, height: number): ZoneValidationCode | null {
+  if (points.length < 3) {
+    return 'TOO_FEW_POINTS';
+  }
+  if (points.some(p => p.x < 0 || p.y < 0 || p.x >= width || p.y >= height)) {
+    return 'OUT_OF_BOUNDS';
+  }
+  if (isPolygonSelfIntersecting(points)) {
+    return 'SELF_INTERSECTING';
+  }
+  if (getPolygonArea(points) === 0) {
+    return 'ZERO_AREA';
+  }
+  return null;
+}
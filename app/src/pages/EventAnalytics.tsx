@@ -0,0 +1,317 @@
+/**
+ * Event Analytics Page
+ *
+ * Aggregate charts over the events of a date range: events per monitor,
+ * hour of day and weekday, cause breakdown, duration and score histograms,
+ * and archived vs unarchived. Charts fill in as event pages arrive and the
+ * aggregate can be downloaded as CSV.
+ */
+
+import { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useTranslation } from 'react-i18next';
+import { format, subDays } from 'date-fns';
+import { toast } from 'sonner';
+import {
+  AlertCircle,
+  Archive,
+  BarChart3,
+  CalendarDays,
+  Clock,
+  Download,
+  Filter,
+  Gauge,
+  RefreshCw,
+  Tag,
+  Timer,
+  Video,
+} from 'lucide-react';
+import { getMonitors } from '../api/monitors';
+import { Button } from '../components/ui/button';
+import { Card, CardContent } from '../components/ui/card';
+import { Input } from '../components/ui/input';
+import { Label } from '../components/ui/label';
+import { Progress } from '../components/ui/progress';
+import { Popover, PopoverContent, PopoverTrigger } from '../components/ui/popover';
+import { QuickDateRangeButtons } from '../components/ui/quick-date-range-buttons';
+import { EmptyState } from '../components/ui/empty-state';
+import { MonitorFilterPopoverContent } from '../components/filters/MonitorFilterPopover';
+import { EventAnalyticsChart, type EventAnalyticsBar } from '../components/events/EventAnalyticsChart';
+import { useEventAnalytics } from '../hooks/useEventAnalytics';
+import {
+  DURATION_BUCKETS,
+  SCORE_BUCKETS,
+  getEventAnalyticsCsv,
+  getHistogramBucketLabel,
+} from '../lib/event-analytics';
+import { downloadTextFile } from '../lib/download';
+import { filterEnabledMonitors } from '../lib/filters';
+import { log, LogLevel } from '../lib/logger';
+
+// 2024-01-07 is a Sunday, so day 0-6 maps to Sunday-Saturday
+const getWeekdayDate = (day: number) => new Date(2024, 0, 7 + day);
+
+const sortByCount = (bars: EventAnalyticsBar[]) => [...bars].sort((a, b) => b.count - a.count);
+
+export default function EventAnalytics() {
+  const { t, i18n } = useTranslation();
+  const [startDate, setStartDate] = useState(format(subDays(new Date(), 6), 'yyyy-MM-dd'));
+  const [endDate, setEndDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [selectedMonitorIds, setSelectedMonitorIds] = useState<string[]>([]);
+
+  const { data: monitorsData } = useQuery({
+    queryKey: ['monitors'],
+    queryFn: getMonitors,
+  });
+
+  const enabledMonitors = useMemo(
+    () => (monitorsData?.monitors ? filterEnabledMonitors(monitorsData.monitors) : []),
+    [monitorsData]
+  );
+
+  const monitorNames = useMemo(
+    () => new Map((monitorsData?.monitors ?? []).map(({ Monitor }) => [Monitor.Id, Monitor.Name])),
+    [monitorsData]
+  );
+
+  const { analytics, progress, isComplete, isLoading, error, refetch } = useEventAnalytics({
+    startDate,
+    endDate,
+    monitorIds: selectedMonitorIds,
+  });
+
+  const weekdayName = useMemo(() => {
+    const formatter = new Intl.DateTimeFormat(i18n.language, { weekday: 'short' });
+    return (day: number) => formatter.format(getWeekdayDate(day));
+  }, [i18n.language]);
+
+  const monitorName = (monitorId: string) => monitorNames.get(monitorId) ?? `#${monitorId}`;
+
+  const charts = useMemo(() => {
+    if (!analytics) return null;
+    return {
+      monitors: sortByCount(
+        Object.entries(analytics.byMonitor).map(([monitorId, count]) => ({
+          label: monitorNames.get(monitorId) ?? `#${monitorId}`,
+          count,
+        }))
+      ),
+      hours: analytics.byHour.map((count, hour) => ({ label: String(hour).padStart(2, '0'), count })),
+      weekdays: analytics.byWeekday.map((count, day) => ({ label: weekdayName(day), count })),
+      causes: sortByCount(
+        Object.entries(analytics.byCause).map(([cause, count]) => ({
+          label: cause || t('analytics.no_cause'),
+          count,
+        }))
+      ),
+      durations: analytics.byDuration.map((count, index) => ({
+        label: getHistogramBucketLabel(index, DURATION_BUCKETS),
+        count,
+      })),
+      scores: analytics.byScore.map((count, index) => ({
+        label: getHistogramBucketLabel(index, SCORE_BUCKETS),
+        count,
+      })),
+      archive: [
+        { label: t('analytics.archived'), count: analytics.archived },
+        { label: t('analytics.unarchived'), count: analytics.total - analytics.archived },
+      ],
+    };
+  }, [analytics, monitorNames, weekdayName, t]);
+
+  const handleExport = async () => {
+    if (!analytics) return;
+    const csv = getEventAnalyticsCsv(analytics, {
+      section: {
+        monitor: t('analytics.by_monitor'),
+        hour: t('analytics.by_hour'),
+        weekday: t('analytics.by_weekday'),
+        cause: t('analytics.by_cause'),
+        duration: t('analytics.by_duration'),
+        score: t('analytics.by_score'),
+        archived: t('analytics.archive_state'),
+      },
+      header: [t('analytics.csv_section'), t('analytics.csv_value'), t('analytics.events')],
+      monitorName,
+      weekdayName,
+      noCause: t('analytics.no_cause'),
+      archived: t('analytics.archived'),
+      unarchived: t('analytics.unarchived'),
+    });
+    try {
+      if (await downloadTextFile(csv, `zmng-event-analytics-${startDate}-${endDate}.csv`, 'text/csv')) {
+        toast.success(t('analytics.export_success'));
+      }
+    } catch (err) {
+      log.download('Analytics export failed', LogLevel.ERROR, { error: err });
+      toast.error(t('analytics.export_failed'));
+    }
+  };
+
+  const progressPercent = progress && progress.total > 0 ? Math.round((progress.fetched / progress.total) * 100) : 0;
+
+  return (
+    <div className="p-3 sm:p-4 md:p-6 space-y-3 sm:space-y-4 md:space-y-6" data-testid="analytics-page">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <div>
+          <h1 className="text-xl sm:text-2xl md:text-3xl font-bold tracking-tight">{t('analytics.title')}</h1>
+          <p className="text-xs sm:text-sm text-muted-foreground mt-0.5 hidden sm:block">{t('analytics.subtitle')}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            onClick={handleExport}
+            variant="outline"
+            size="sm"
+            className="h-8 sm:h-9"
+            disabled={!analytics || !isComplete}
+            title={t('analytics.export')}
+            data-testid="analytics-export-button"
+          >
+            <Download className="h-4 w-4 sm:mr-2" />
+            <span className="hidden sm:inline">{t('analytics.export')}</span>
+          </Button>
+          <Button onClick={refetch} variant="outline" size="sm" className="h-8 sm:h-9" data-testid="analytics-refresh-button">
+            <RefreshCw className="h-4 w-4 sm:mr-2" />
+            <span className="hidden sm:inline">{t('common.refresh')}</span>
+          </Button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="analyticsStartDate">{t('timeline.start_date')}</Label>
+              <Input
+                id="analyticsStartDate"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+                data-testid="analytics-start-date"
+              />
+            </div>
+            <div>
+              <Label htmlFor="analyticsEndDate">{t('timeline.end_date')}</Label>
+              <Input
+                id="analyticsEndDate"
+                type="date"
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+                data-testid="analytics-end-date"
+              />
+            </div>
+            <div>
+              <Label>{t('timeline.monitors')}</Label>
+              <Popover>
+                <PopoverTrigger asChild>
+                  <Button variant="outline" className="w-full justify-between" data-testid="analytics-monitor-filter">
+                    {selectedMonitorIds.length === 0
+                      ? t('timeline.all_monitors')
+                      : t('timeline.monitors_selected', { count: selectedMonitorIds.length })}
+                    <Filter className="h-4 w-4 ml-2" />
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent className="w-[calc(100vw-2rem)] sm:w-80 max-w-sm">
+                  <MonitorFilterPopoverContent
+                    monitors={enabledMonitors}
+                    selectedMonitorIds={selectedMonitorIds}
+                    onSelectionChange={setSelectedMonitorIds}
+                    idPrefix="analytics"
+                  />
+                </PopoverContent>
+              </Popover>
+            </div>
+          </div>
+
+          <div className="space-y-2 mt-4">
+            <Label className="text-sm text-muted-foreground">{t('events.quick_ranges')}</Label>
+            <QuickDateRangeButtons
+              onRangeSelect={({ start, end }) => {
+                setStartDate(format(start, 'yyyy-MM-dd'));
+                setEndDate(format(end, 'yyyy-MM-dd'));
+              }}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {error ? (
+        <div className="p-4 bg-destructive/10 text-destructive rounded-md flex items-center gap-2" data-testid="analytics-error">
+          <AlertCircle className="h-5 w-5" />
+          {t('analytics.load_error')}: {error.message}
+        </div>
+      ) : isLoading || !analytics || !charts ? (
+        <div className="grid gap-4 md:grid-cols-2">
+          {[0, 1, 2, 3].map((item) => (
+            <div key={item} className="h-64 bg-muted rounded-xl animate-pulse" />
+          ))}
+        </div>
+      ) : analytics.total === 0 && isComplete ? (
+        <EmptyState icon={BarChart3} title={t('analytics.no_events')} description={t('timeline.adjust_filters')} />
+      ) : (
+        <>
+          <div className="space-y-2" data-testid="analytics-summary">
+            <p className="text-sm">
+              {t('analytics.total', { count: analytics.total })}
+              {!isComplete && progress && (
+                <span className="text-muted-foreground">
+                  {' '}
+                  {t('analytics.loading_progress', { fetched: progress.fetched, total: progress.total })}
+                </span>
+              )}
+            </p>
+            {!isComplete && <Progress value={progressPercent} className="h-1" data-testid="analytics-progress" />}
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <EventAnalyticsChart
+              title={t('analytics.by_monitor')}
+              icon={Video}
+              data={charts.monitors}
+              horizontal
+              testId="analytics-chart-monitor"
+            />
+            <EventAnalyticsChart
+              title={t('analytics.by_cause')}
+              icon={Tag}
+              data={charts.causes}
+              horizontal
+              testId="analytics-chart-cause"
+            />
+            <EventAnalyticsChart
+              title={t('analytics.by_hour')}
+              icon={Clock}
+              data={charts.hours}
+              testId="analytics-chart-hour"
+            />
+            <EventAnalyticsChart
+              title={t('analytics.by_weekday')}
+              icon={CalendarDays}
+              data={charts.weekdays}
+              testId="analytics-chart-weekday"
+            />
+            <EventAnalyticsChart
+              title={t('analytics.by_duration')}
+              icon={Timer}
+              data={charts.durations}
+              testId="analytics-chart-duration"
+            />
+            <EventAnalyticsChart
+              title={t('analytics.by_score')}
+              icon={Gauge}
+              data={charts.scores}
+              testId="analytics-chart-score"
+            />
+            <EventAnalyticsChart
+              title={t('analytics.archive_state')}
+              icon={Archive}
+              data={charts.archive}
+              testId="analytics-chart-archive"
+            />
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
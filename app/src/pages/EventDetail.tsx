@@ -2,33 +2,64 @@
  * Event Detail Page
  *
  * Displays detailed information about a specific event.
- * Includes video playback (or image fallback), metadata, and download options.
+ * Includes video playback (or image fallback), metadata, download options,
+ * inline editing of the event name, cause and notes, and tag assignment.
+ * A per-frame score chart follows playback and seeks the player when clicked.
+ * Object detection results are listed and drawn as boxes over the media.
+ * In continuous playback the monitor's next event starts when one ends.
  */
 
 import { useParams, useNavigate, useLocation } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
-import { getEvent, getEventVideoUrl, getEventImageUrl } from '../api/events';
+import type videojs from 'video.js';
+import { getEvent, getEventFrames, getEventVideoUrl, getEventImageUrl } from '../api/events';
 import { getMonitor } from '../api/monitors';
 import { useCurrentProfile } from '../hooks/useCurrentProfile';
 import { useAuthStore } from '../stores/auth';
-import { useEventTagMapping } from '../hooks/useEventTags';
+import { useEventTagMapping, useEventTags } from '../hooks/useEventTags';
 import { Button } from '../components/ui/button';
 import { Card } from '../components/ui/card';
 import { Badge } from '../components/ui/badge';
 import { VideoPlayer } from '../components/ui/video-player';
-import { ZmsEventPlayer } from '../components/events/ZmsEventPlayer';
-import { TagChip } from '../components/events/TagChip';
-import { ArrowLeft, Calendar, Clock, HardDrive, AlertTriangle, Download, Archive, Video, Star, Timer, Tag } from 'lucide-react';
+import { ZmsEventPlayer, type ZmsSeekRequest } from '../components/events/ZmsEventPlayer';
+import { EventScoreChart } from '../components/events/EventScoreChart';
+import { DetectionOverlay } from '../components/video/DetectionOverlay';
+import { EventTagEditor } from '../components/events/EventTagEditor';
+import { EventEditForm } from '../components/events/EventEditForm';
+import { ContinuousPlaybackBar } from '../components/events/ContinuousPlaybackBar';
+import { ContinuousGapOverlay } from '../components/events/ContinuousGapOverlay';
+import { ZoomIndicator } from '../components/video/ZoomIndicator';
+import { ZoomViewMenu } from '../components/video/ZoomViewMenu';
+import { ArrowLeft, Calendar, Clock, HardDrive, AlertTriangle, Download, Archive, Video, Star, Timer, Tag, StickyNote, Pencil, Activity, ScanSearch, Eye, EyeOff, ListVideo } from 'lucide-react';
 import { getEventCauseIcon } from '../lib/event-icons';
 import { format } from 'date-fns';
 import { downloadEventVideo } from '../lib/download';
 import { parseMonitorRotation } from '../lib/monitor-rotation';
 import { toast } from 'sonner';
-import { useState, useMemo, useCallback } from 'react';
+import { useState, useMemo, useCallback, useRef, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
 import { log, LogLevel } from '../lib/logger';
 import { generateEventMarkers, type VideoMarker } from '../lib/video-markers';
+import { getEventDetections } from '../lib/object-detection';
 import { useEventFavoritesStore } from '../stores/eventFavorites';
+import { useSettingsStore } from '../stores/settings';
+import { useContinuousPlayback } from '../hooks/useContinuousPlayback';
+import { useDigitalZoom } from '../hooks/useDigitalZoom';
+import { useZoomViews } from '../hooks/useZoomViews';
+import { getOrientedDimensions } from '../lib/zone-utils';
+import { getGapSeconds, type ContinuousPlaybackSettings } from '../lib/continuous-playback';
+import { getEventTimeRange } from '../lib/review-playback';
+
+type Player = ReturnType<typeof videojs>;
+
+/** Gap to the next event that is announced over the player, in seconds */
+const MIN_ANNOUNCED_GAP_SECONDS = 1;
+
+interface PendingGap {
+  eventId: string;
+  gapSeconds: number;
+  nextStart: number;
+}
 
 export default function EventDetail() {
   const { id } = useParams<{ id: string }>();
@@ -39,6 +70,23 @@ export default function EventDetail() {
   // Check if user came from another page (navigation state tracking)
   const referrer = location.state?.from as string | undefined;
   const [useZmsFallback, setUseZmsFallback] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [playbackTime, setPlaybackTime] = useState<number | null>(null);
+  const [zmsSeekRequest, setZmsSeekRequest] = useState<ZmsSeekRequest | null>(null);
+  const [showDetections, setShowDetections] = useState(true);
+  const [pendingGap, setPendingGap] = useState<PendingGap | null>(null);
+  const playerRef = useRef<Player | null>(null);
+  const [videoElement, setVideoElement] = useState<HTMLVideoElement | null>(null);
+
+  // Continuous playback replaces the route's event without remounting the page
+  const [playerEventId, setPlayerEventId] = useState(id);
+  if (playerEventId !== id) {
+    setPlayerEventId(id);
+    setUseZmsFallback(false);
+    setPlaybackTime(null);
+    setZmsSeekRequest(null);
+    setPendingGap(null);
+  }
 
   const { data: event, isLoading, error } = useQuery({
     queryKey: ['event', id],
@@ -50,14 +98,61 @@ export default function EventDetail() {
     queryFn: () => getMonitor(event!.Event.MonitorId),
     enabled: !!event?.Event.MonitorId,
   });
+  const { data: frames } = useQuery({
+    queryKey: ['eventFrames', id],
+    queryFn: () => getEventFrames(id!),
+    enabled: !!id,
+  });
 
-  const { currentProfile } = useCurrentProfile();
+  const { currentProfile, settings } = useCurrentProfile();
   const accessToken = useAuthStore((state) => state.accessToken);
+  const updateSettings = useSettingsStore((state) => state.updateProfileSettings);
+  const continuous = settings.continuousPlayback;
+
+  const { playlist, range, previous, next } = useContinuousPlayback({
+    event,
+    span: continuous.span,
+    enabled: continuous.enabled,
+  });
+
+  const { data: detection } = useQuery({
+    queryKey: ['eventDetections', id, event?.Event.Notes],
+    queryFn: () =>
+      getEventDetections(currentProfile!.portalUrl, id!, event!.Event.Notes, {
+        token: accessToken || undefined,
+        apiUrl: currentProfile!.apiUrl,
+      }),
+    enabled: !!id && !!event && !!currentProfile,
+  });
   const { isFavorited, toggleFavorite } = useEventFavoritesStore();
 
+  // Playback keeps its own zoom per monitor; saved views are shared with the live view
+  const zoomViews = useZoomViews(event?.Event.MonitorId ?? '', 'recorded');
+  const { ref: digitalZoomRef, ...digitalZoom } = useDigitalZoom({
+    crop: zoomViews.crop,
+    onCropChange: zoomViews.setCrop,
+    imageSize: getOrientedDimensions(
+      Number(event?.Event.Width) || 1920,
+      Number(event?.Event.Height) || 1080,
+      parseMonitorRotation(event?.Event.Orientation ?? monitorData?.Monitor.Orientation)
+    ),
+    fit: 'contain',
+    ignoreSelector: '.vjs-control-bar',
+  });
+
+  // video.js owns the <video> element, so the zoom is set on it directly
+  const { transform: zoomTransform, transition: zoomTransition } = digitalZoom.mediaStyle;
+  useEffect(() => {
+    if (!videoElement) return;
+    videoElement.style.setProperty('transform-origin', '0 0');
+    videoElement.style.setProperty('transform', zoomTransform ?? '');
+    videoElement.style.setProperty('transition', zoomTransition ?? '');
+  }, [videoElement, zoomTransform, zoomTransition]);
+
   const isFav = currentProfile && event ? isFavorited(currentProfile.id, event.Event.Id) : false;
 
   // Fetch tags for this event
+  const { tagsSupported } = useEventTags();
   const { getTagsForEvent } = useEventTagMapping({
     eventIds: id ? [id] : [],
     enabled: !!id,
@@ -80,16 +175,22 @@ export default function EventDetail() {
   // NOTE: This hook must be called before any conditional returns
   const videoMarkers = useMemo(() => {
     if (!event) return [];
-    const markers = generateEventMarkers(event.Event);
+    const markers = generateEventMarkers(event.Event, frames);
 
     // Add internationalized text to markers
     return markers.map(marker => ({
       ...marker,
       text: marker.type === 'alarm'
-        ? t('event_detail.alarm_frame_marker', { frameId: marker.frameId })
+        ? marker.endFrameId !== undefined
+          ? t('event_detail.alarm_run_marker', {
+            start: marker.frameId,
+            end: marker.endFrameId,
+            score: marker.score,
+          })
+          : t('event_detail.alarm_frame_marker', { frameId: marker.frameId })
         : t('event_detail.max_score_marker', { frameId: marker.frameId })
     }));
-  }, [event, t]);
+  }, [event, frames, t]);
 
   // Handle marker clicks
   // NOTE: This hook must be called before any conditional returns
@@ -101,6 +202,70 @@ export default function EventDetail() {
     toast.info(t('event_detail.marker_jumped', { text: marker.text }));
   }, [t]);
 
+  const updateContinuous = useCallback((changes: Partial<ContinuousPlaybackSettings>) => {
+    if (!currentProfile) return;
+    updateSettings(currentProfile.id, { continuousPlayback: { ...continuous, ...changes } });
+  }, [currentProfile, updateSettings, continuous]);
+
+  // Keep the referrer so the back button still leaves the playlist
+  const playEvent = useCallback((eventId: string) => {
+    navigate(`/events/${eventId}`, { replace: true, state: location.state });
+  }, [navigate, location.state]);
+
+  const handleEventEnded = useCallback(() => {
+    if (!continuous.enabled || !event || !next) return;
+    const gapSeconds = getGapSeconds(event, next);
+    log.eventDetail('Event ended, continuing with next event', LogLevel.INFO, {
+      eventId: event.Event.Id,
+      nextEventId: next.Event.Id,
+      gapSeconds,
+    });
+    if (continuous.gaps === 'overlay' && gapSeconds >= MIN_ANNOUNCED_GAP_SECONDS) {
+      setPendingGap({ eventId: next.Event.Id, gapSeconds, nextStart: getEventTimeRange(next).start });
+    } else {
+      playEvent(next.Event.Id);
+    }
+  }, [continuous.enabled, continuous.gaps, event, next, playEvent]);
+
+  // Players subscribe once, so they call the latest handler through a ref
+  const endedRef = useRef(handleEventEnded);
+  useEffect(() => {
+    endedRef.current = handleEventEnded;
+  }, [handleEventEnded]);
+  const handleZmsEnded = useCallback(() => endedRef.current(), []);
+
+  const handleGapContinue = useCallback(() => {
+    if (pendingGap) playEvent(pendingGap.eventId);
+  }, [pendingGap, playEvent]);
+
+  // Keep the score chart in sync with the MP4 player
+  // NOTE: Callbacks passed to VideoPlayer must be stable, or it reloads the source
+  const handlePlayerReady = useCallback((player: Player) => {
+    playerRef.current = player;
+    setVideoElement(player.el().querySelector('video'));
+    player.on('timeupdate', () => setPlaybackTime(player.currentTime() ?? 0));
+    player.on('ended', () => endedRef.current());
+  }, []);
+
+  const handleVideoError = useCallback(() => {
+    log.eventDetail('Video playback failed, falling back to ZMS stream', LogLevel.INFO);
+    toast.error(t('event_detail.video_playback_failed'));
+    playerRef.current = null;
+    setVideoElement(null);
+    setUseZmsFallback(true);
+  }, [t]);
+
+  const handleChartSeek = useCallback((time: number) => {
+    log.eventDetail('Score chart seek', LogLevel.DEBUG, { time });
+    const player = playerRef.current;
+    if (player && !player.isDisposed()) {
+      player.currentTime(time);
+      setPlaybackTime(time);
+    } else {
+      setZmsSeekRequest({ time });
+    }
+  }, []);
+
   const orientedResolution = useMemo(() => {
     const width = Number(event?.Event.Width ?? monitorData?.Monitor.Width);
     const height = Number(event?.Event.Height ?? monitorData?.Monitor.Height);
@@ -176,6 +341,28 @@ export default function EventDetail() {
 
   const startTime = new Date(event.Event.StartDateTime.replace(' ', 'T'));
 
+  // Buffer the next recording so continuous playback starts without a stall
+  const nextHasVideo = !!(next?.Event.DefaultVideo || next?.Event.Videoed === '1');
+  const nextVideoUrl = continuous.enabled && next && nextHasVideo && currentProfile
+    ? getEventVideoUrl(currentProfile.portalUrl, next.Event.Id, accessToken || undefined, currentProfile.apiUrl)
+    : '';
+
+  // Detection boxes are in the analysed frame's pixels (before rotation)
+  const detectionRotation = parseMonitorRotation(event.Event.Orientation ?? monitorData?.Monitor.Orientation);
+  const detectionWidth = detection?.imageWidth ?? Number(event.Event.Width);
+  const detectionHeight = detection?.imageHeight ?? Number(event.Event.Height);
+  const hasDetectionBoxes = !!detection?.objects.some((object) => object.box)
+    && detectionWidth > 0 && detectionHeight > 0;
+  const renderDetectionOverlay = (visible: boolean) => hasDetectionBoxes && detection && (
+    <DetectionOverlay
+      objects={detection.objects}
+      imageWidth={detectionWidth}
+      imageHeight={detectionHeight}
+      rotation={detectionRotation}
+      visible={visible}
+    />
+  );
+
   return (
     <div className="flex flex-col h-full bg-background">
       {/* Header */}
@@ -207,6 +394,18 @@ export default function EventDetail() {
           </div>
         </div>
         <div className="flex items-center gap-1.5 sm:gap-2 flex-wrap">
+          <Button
+            variant={continuous.enabled ? "default" : "outline"}
+            size="sm"
+            className="gap-2 h-8 sm:h-9"
+            onClick={() => updateContinuous({ enabled: !continuous.enabled })}
+            title={t('event_detail.continuous.toggle_hint')}
+            aria-pressed={continuous.enabled}
+            data-testid="event-detail-continuous-toggle"
+          >
+            <ListVideo className="h-4 w-4" />
+            <span className="hidden sm:inline">{t('event_detail.continuous.toggle')}</span>
+          </Button>
           <Button
             variant={isFav ? "default" : "outline"}
             size="sm"
@@ -222,6 +421,17 @@ export default function EventDetail() {
             <Video className="h-4 w-4" />
             <span className="hidden sm:inline">{t('event_detail.view_camera')}</span>
           </Button>
+          {(hasVideo || hasJPEGs) && (
+            <ZoomViewMenu
+              views={zoomViews.views}
+              canSave={digitalZoom.isZoomed}
+              onApply={(view) => zoomViews.setCrop(view.crop)}
+              onSave={(name) => zoomViews.saveView(name, zoomViews.crop)}
+              onRemove={zoomViews.removeView}
+              variant="outline"
+              className="sm:h-9 sm:w-9"
+            />
+          )}
           <Button variant="outline" size="sm" className="gap-2 h-8 sm:h-9" onClick={() => navigate(`/events?monitorId=${event.Event.MonitorId}`)} title={t('event_detail.all_events')}>
             <Clock className="h-4 w-4" />
             <span className="hidden sm:inline">{t('event_detail.all_events')}</span>
@@ -260,11 +470,59 @@ export default function EventDetail() {
       <div className="flex-1 p-2 sm:p-3 md:p-4 flex flex-col items-center bg-muted/10 overflow-y-auto">
         <div className="w-full max-w-5xl space-y-3 sm:space-y-4 md:space-y-6">
           {/* Video Player or ZMS Playback */}
-          {hasVideo ? (
-            useZmsFallback ? (
-              // ZMS playback with controls
+          <div className="relative">
+            {hasVideo ? (
+              useZmsFallback ? (
+                // ZMS playback with controls
+                currentProfile && (
+                  <ZmsEventPlayer
+                    key={event.Event.Id}
+                    portalUrl={currentProfile.portalUrl}
+                    eventId={event.Event.Id}
+                    token={accessToken || undefined}
+                    apiUrl={currentProfile.apiUrl}
+                    totalFrames={parseInt(event.Event.Frames)}
+                    alarmFrames={parseInt(event.Event.AlarmFrames)}
+                    alarmFrameId={event.Event.AlarmFrameId}
+                    maxScoreFrameId={event.Event.MaxScoreFrameId}
+                    eventLength={parseFloat(event.Event.Length)}
+                    markers={videoMarkers}
+                    seekRequest={zmsSeekRequest}
+                    onTimeUpdate={setPlaybackTime}
+                    onEnded={handleZmsEnded}
+                    overlay={renderDetectionOverlay(showDetections)}
+                    viewportRef={digitalZoomRef}
+                    mediaStyle={digitalZoom.mediaStyle}
+                    className="space-y-4"
+                  />
+                )
+              ) : (
+                // MP4 video playback
+                <Card className="overflow-hidden shadow-2xl border-0 ring-1 ring-border/20 bg-black">
+                  <div ref={digitalZoomRef} className="aspect-video relative overflow-hidden">
+                    <VideoPlayer
+                      key={event.Event.Id}
+                      src={videoUrl}
+                      type="video/mp4"
+                      className="w-full h-full"
+                      poster={posterUrl}
+                      autoplay
+                      markers={videoMarkers}
+                      onMarkerClick={handleMarkerClick}
+                      onReady={handlePlayerReady}
+                      onError={handleVideoError}
+                    />
+                    <div className="absolute inset-0 pointer-events-none" style={digitalZoom.mediaStyle}>
+                      {renderDetectionOverlay(showDetections)}
+                    </div>
+                  </div>
+                </Card>
+              )
+            ) : hasJPEGs ? (
+              // ZMS playback for JPEG-only events
               currentProfile && (
                 <ZmsEventPlayer
+                  key={event.Event.Id}
                   portalUrl={currentProfile.portalUrl}
                   eventId={event.Event.Id}
                   token={accessToken || undefined}
@@ -274,57 +532,148 @@ export default function EventDetail() {
                   alarmFrameId={event.Event.AlarmFrameId}
                   maxScoreFrameId={event.Event.MaxScoreFrameId}
                   eventLength={parseFloat(event.Event.Length)}
+                  markers={videoMarkers}
+                  seekRequest={zmsSeekRequest}
+                  onTimeUpdate={setPlaybackTime}
+                  onEnded={handleZmsEnded}
+                  overlay={renderDetectionOverlay(showDetections)}
+                  viewportRef={digitalZoomRef}
+                  mediaStyle={digitalZoom.mediaStyle}
                   className="space-y-4"
                 />
               )
             ) : (
-              // MP4 video playback
+              // No media available
               <Card className="overflow-hidden shadow-2xl border-0 ring-1 ring-border/20 bg-black">
                 <div className="aspect-video relative">
-                  <VideoPlayer
-                    src={videoUrl}
-                    type="video/mp4"
-                    className="w-full h-full"
-                    poster={posterUrl}
-                    autoplay
-                    markers={videoMarkers}
-                    onMarkerClick={handleMarkerClick}
-                    onError={() => {
-                      log.eventDetail('Video playback failed, falling back to ZMS stream', LogLevel.INFO);
-                      toast.error(t('event_detail.video_playback_failed'));
-                      setUseZmsFallback(true);
-                    }}
-                  />
+                  <div className="w-full h-full flex items-center justify-center text-muted-foreground">
+                    <div className="text-center">
+                      <AlertTriangle className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                      <p>{t('event_detail.no_media')}</p>
+                    </div>
+                  </div>
                 </div>
               </Card>
-            )
-          ) : hasJPEGs ? (
-            // ZMS playback for JPEG-only events
-            currentProfile && (
-              <ZmsEventPlayer
-                portalUrl={currentProfile.portalUrl}
-                eventId={event.Event.Id}
-                token={accessToken || undefined}
-                apiUrl={currentProfile.apiUrl}
-                totalFrames={parseInt(event.Event.Frames)}
-                alarmFrames={parseInt(event.Event.AlarmFrames)}
-                alarmFrameId={event.Event.AlarmFrameId}
-                maxScoreFrameId={event.Event.MaxScoreFrameId}
+            )}
+            {digitalZoom.isZoomed && <ZoomIndicator scale={zoomViews.crop.scale} onReset={digitalZoom.reset} />}
+            {continuous.enabled && pendingGap && (
+              <ContinuousGapOverlay
+                gapSeconds={pendingGap.gapSeconds}
+                nextStart={pendingGap.nextStart}
+                onContinue={handleGapContinue}
+                onCancel={() => setPendingGap(null)}
+              />
+            )}
+            {nextVideoUrl && <video src={nextVideoUrl} preload="auto" muted className="hidden" aria-hidden="true" />}
+          </div>
+
+          {/* Continuous Playback */}
+          {continuous.enabled && range && (
+            <Card className="p-4 space-y-2" data-testid="event-continuous-card">
+              <div className="flex items-center gap-2">
+                <ListVideo className="h-4 w-4 text-primary" />
+                <h3 className="font-semibold text-sm text-muted-foreground uppercase tracking-wider">
+                  {t('event_detail.continuous.title')}
+                </h3>
+              </div>
+              <ContinuousPlaybackBar
+                playlist={playlist}
+                range={range}
+                span={continuous.span}
+                gaps={continuous.gaps}
+                currentEventId={event.Event.Id}
+                currentTime={playbackTime}
+                previous={previous}
+                next={next}
+                onSpanChange={(span) => updateContinuous({ span })}
+                onGapsChange={(gaps) => updateContinuous({ gaps })}
+                onSelectEvent={playEvent}
+                onSeek={handleChartSeek}
+              />
+            </Card>
+          )}
+
+          {/* Alarm Score Chart */}
+          {frames && frames.length > 0 && (hasVideo || hasJPEGs) && (
+            <Card className="p-4 space-y-2" data-testid="event-score-card">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <Activity className="h-4 w-4 text-primary" />
+                  <h3 className="font-semibold text-sm text-muted-foreground uppercase tracking-wider">
+                    {t('event_detail.score_chart_title')}
+                  </h3>
+                </div>
+                <span className="text-xs text-muted-foreground hidden sm:inline">
+                  {t('event_detail.score_chart_hint')}
+                </span>
+              </div>
+              <EventScoreChart
+                frames={frames}
                 eventLength={parseFloat(event.Event.Length)}
-                className="space-y-4"
+                currentTime={playbackTime}
+                onSeek={handleChartSeek}
               />
-            )
-          ) : (
-            // No media available
-            <Card className="overflow-hidden shadow-2xl border-0 ring-1 ring-border/20 bg-black">
-              <div className="aspect-video relative">
-                <div className="w-full h-full flex items-center justify-center text-muted-foreground">
-                  <div className="text-center">
-                    <AlertTriangle className="h-12 w-12 mx-auto mb-4 opacity-50" />
-                    <p>{t('event_detail.no_media')}</p>
-                  </div>
+            </Card>
+          )}
+
+          {/* Object Detection */}
+          {detection && detection.objects.length > 0 && (
+            <Card className="p-4 space-y-3" data-testid="event-detections-card">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <ScanSearch className="h-4 w-4 text-primary" />
+                  <h3 className="font-semibold text-sm text-muted-foreground uppercase tracking-wider">
+                    {t('event_detail.detections_title')}
+                  </h3>
                 </div>
+                {hasDetectionBoxes && (hasVideo || hasJPEGs) && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="gap-2 h-8"
+                    onClick={() => setShowDetections(!showDetections)}
+                    data-testid="event-detections-toggle"
+                  >
+                    {showDetections ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                    {showDetections ? t('event_detail.hide_detections') : t('event_detail.show_detections')}
+                  </Button>
+                )}
+              </div>
+              <div className="flex flex-wrap gap-2" data-testid="event-detections-list">
+                {detection.objects.map((object, index) => (
+                  <Badge key={`${object.label}-${index}`} variant="secondary" className="gap-1">
+                    {object.label}
+                    {object.confidence !== null && (
+                      <span className="text-muted-foreground">{Math.round(object.confidence * 100)}%</span>
+                    )}
+                  </Badge>
+                ))}
               </div>
+              {hasDetectionBoxes && currentProfile && (
+                <div className="relative w-full max-w-md bg-black rounded overflow-hidden">
+                  <img
+                    src={getEventImageUrl(currentProfile.portalUrl, event.Event.Id, detection.frameId ?? 'alarm', {
+                      token: accessToken || undefined,
+                      apiUrl: currentProfile.apiUrl,
+                    })}
+                    alt={t('event_detail.detections_frame')}
+                    className="w-full h-auto object-contain"
+                  />
+                  {renderDetectionOverlay(true)}
+                </div>
+              )}
+              {detection.frameId !== null && (
+                <p className="text-xs text-muted-foreground">
+                  {t('event_detail.detections_frame_info', {
+                    frame: typeof detection.frameId === 'number'
+                      ? detection.frameId
+                      : t(`event_detail.detections_frame_${detection.frameId}`),
+                  })}
+                </p>
+              )}
+              {detection.source === 'notes' && (
+                <p className="text-xs text-muted-foreground">{t('event_detail.detections_source_notes')}</p>
+              )}
             </Card>
           )}
 
@@ -400,20 +749,49 @@ export default function EventDetail() {
             </Card>
           </div>
 
+          {/* Notes Section - inline editor for name, cause and notes */}
+          <Card className="p-6 space-y-4" data-testid="event-notes-card">
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <StickyNote className="h-5 w-5 text-primary" />
+                <h3 className="font-semibold text-sm text-muted-foreground uppercase tracking-wider">
+                  {t('event_detail.notes')}
+                </h3>
+              </div>
+              {!isEditing && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="gap-2 h-8"
+                  onClick={() => setIsEditing(true)}
+                  data-testid="event-detail-edit-button"
+                >
+                  <Pencil className="h-4 w-4" />
+                  {t('common.edit')}
+                </Button>
+              )}
+            </div>
+            {isEditing ? (
+              <EventEditForm event={event.Event} onDone={() => setIsEditing(false)} focusNotes />
+            ) : event.Event.Notes ? (
+              <p className="text-sm whitespace-pre-wrap break-words" data-testid="event-detail-notes">
+                {event.Event.Notes}
+              </p>
+            ) : (
+              <p className="text-sm text-muted-foreground">{t('event_detail.no_notes')}</p>
+            )}
+          </Card>
+
           {/* Tags Section */}
-          {eventTags.length > 0 && (
-            <Card className="p-6 space-y-4">
+          {(tagsSupported || eventTags.length > 0) && (
+            <Card className="p-6 space-y-4" data-testid="event-detail-tags">
               <div className="flex items-center gap-2">
                 <Tag className="h-5 w-5 text-primary" />
                 <h3 className="font-semibold text-sm text-muted-foreground uppercase tracking-wider">
                   {t('event_detail.tags')}
                 </h3>
               </div>
-              <div className="flex flex-wrap gap-2">
-                {eventTags.map((tag) => (
-                  <TagChip key={tag.Id} tag={tag} size="md" />
-                ))}
-              </div>
+              <EventTagEditor eventId={event.Event.Id} tags={eventTags} />
             </Card>
           )}
         </div>
@@ -9,7 +9,8 @@ import { useMemo, useRef, useState, useEffect } from 'react';
 import { useQuery, keepPreviousData } from '@tanstack/react-query';
 import { useNavigate, useLocation, useSearchParams } from 'react-router-dom';
 import { useShallow } from 'zustand/react/shallow';
-import { getEvents } from '../api/events';
+import { getAllEvents, getEvents } from '../api/events';
+import { getEventTags } from '../api/tags';
 import { getMonitors } from '../api/monitors';
 import { useCurrentProfile } from '../hooks/useCurrentProfile';
 import { useAuthStore } from '../stores/auth';
@@ -19,9 +20,12 @@ import { usePullToRefresh } from '../hooks/usePullToRefresh';
 import { useEventPagination } from '../hooks/useEventPagination';
 import { useEventMontageGrid } from '../hooks/useEventMontageGrid';
 import { useEventTags, useEventTagMapping } from '../hooks/useEventTags';
+import { useEventSelection } from '../hooks/useEventSelection';
+import { useBulkEventActions } from '../hooks/useBulkEventActions';
+import { useEventExport } from '../hooks/useEventExport';
 import { PullToRefreshIndicator } from '../components/ui/pull-to-refresh-indicator';
 import { Button } from '../components/ui/button';
-import { RefreshCw, Filter, AlertCircle, ArrowLeft, LayoutGrid, List, Clock } from 'lucide-react';
+import { RefreshCw, Filter, AlertCircle, ArrowLeft, LayoutGrid, List, Clock, ListChecks, FileDown, Layers } from 'lucide-react';
 import { filterMonitorsByGroup } from '../lib/filters';
 import { useGroupFilter } from '../hooks/useGroupFilter';
 import { GroupFilterSelect } from '../components/filters/GroupFilterSelect';
@@ -31,11 +35,20 @@ import { EventMontageView } from '../components/events/EventMontageView';
 import { EventListView } from '../components/events/EventListView';
 import { EventMontageGridControls } from '../components/events/EventMontageGridControls';
 import { EventsFilterPopover } from '../components/events/EventsFilterPopover';
+import { SavedSearchesMenu, type SavedSearchDraft } from '../components/events/SavedSearchesMenu';
+import { EventQuickSearch } from '../components/events/EventQuickSearch';
+import { EventSelectionBar, type BulkEventAction } from '../components/events/EventSelectionBar';
+import { TagManagerDialog } from '../components/events/TagManagerDialog';
+import { EventExportDialog } from '../components/events/EventExportDialog';
+import type { EventExportColumn, EventExportFormat } from '../lib/event-export';
 import { useTranslation } from 'react-i18next';
 import { formatForServer, formatLocalDateTime } from '../lib/time';
 import { EmptyState } from '../components/ui/empty-state';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
 import { useEventFavoritesStore } from '../stores/eventFavorites';
+import { log, LogLevel } from '../lib/logger';
+import { toast } from 'sonner';
+import type { Tag } from '../api/types';
 
 export default function Events() {
   const navigate = useNavigate();
@@ -81,16 +94,34 @@ export default function Events() {
     startDateInput,
     endDateInput,
     favoritesOnly,
+    advancedFilters,
+    quickSearchQuery,
     setSelectedMonitorIds,
     setSelectedTagIds,
     setStartDateInput,
     setEndDateInput,
     setFavoritesOnly,
+    setAdvancedFilters,
     applyFilters,
     clearFilters,
+    applySavedSearch,
+    applyQuickSearch,
     activeFilterCount,
   } = useEventFilters();
 
+  // Current filter inputs, offered when saving a named search
+  const savedSearchDraft = useMemo<SavedSearchDraft>(
+    () => ({
+      monitorIds: selectedMonitorIds,
+      tagIds: selectedTagIds,
+      startDateTime: startDateInput,
+      endDateTime: endDateInput,
+      favoritesOnly,
+      advanced: advancedFilters,
+    }),
+    [selectedMonitorIds, selectedTagIds, startDateInput, endDateInput, favoritesOnly, advancedFilters]
+  );
+
   // Fetch available tags and check if tags are supported
   const {
     availableTags,
@@ -139,6 +170,26 @@ export default function Events() {
     return undefined;
   }, [filters.monitorId, isGroupFilterActive, groupMonitorIds]);
 
+  // Multi-select mode
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [isSelectingMatching, setIsSelectingMatching] = useState(false);
+  // Names of selected events that are not loaded, for download filenames
+  const matchingEventNamesRef = useRef(new Map<string, string>());
+  const [isTagManagerOpen, setIsTagManagerOpen] = useState(false);
+  const bulkActions = useBulkEventActions();
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const { exportEvents } = useEventExport();
+
+  // Filters as sent to the server
+  const serverFilters = useMemo(() => ({
+    ...filters,
+    // Use effective monitor ID (user filter or group filter)
+    monitorId: effectiveMonitorId,
+    // Convert local time inputs to server time for the API
+    startDateTime: filters.startDateTime ? formatForServer(new Date(filters.startDateTime)) : undefined,
+    endDateTime: filters.endDateTime ? formatForServer(new Date(filters.endDateTime)) : undefined,
+  }), [filters, effectiveMonitorId]);
+
   // Fetch events with configured limit
   // Include effectiveMonitorId and group filter state in query key for proper cache invalidation
   const [currentEventLimit, setCurrentEventLimit] = useState(settings.defaultEventLimit || 100);
@@ -146,12 +197,7 @@ export default function Events() {
     queryKey: ['events', filters, currentEventLimit, effectiveMonitorId, isGroupFilterActive],
     queryFn: () =>
       getEvents({
-        ...filters,
-        // Use effective monitor ID (user filter or group filter)
-        monitorId: effectiveMonitorId,
-        // Convert local time inputs to server time for the API
-        startDateTime: filters.startDateTime ? formatForServer(new Date(filters.startDateTime)) : undefined,
-        endDateTime: filters.endDateTime ? formatForServer(new Date(filters.endDateTime)) : undefined,
+        ...serverFilters,
         limit: currentEventLimit,
       }),
     enabled: !!currentProfile && isAuthenticated,
@@ -212,6 +258,96 @@ export default function Events() {
     return filtered;
   }, [eventsData?.events, favoritesOnly, favoriteIds, selectedTagIds, eventTagMap]);
 
+  const orderedEventIds = useMemo(() => allEvents.map(({ Event }) => Event.Id), [allEvents]);
+  const selection = useEventSelection(orderedEventIds);
+  const selectedEventIds = useMemo(() => Array.from(selection.selectedIds), [selection.selectedIds]);
+  const clearSelection = selection.clear;
+
+  // A selection only makes sense for the filters it was made with. Compare the
+  // applied values, since the filter objects are rebuilt on unrelated renders.
+  const appliedFiltersKey = JSON.stringify([serverFilters, favoritesOnly, selectedTagIds]);
+  useEffect(() => {
+    clearSelection();
+    matchingEventNamesRef.current.clear();
+  }, [appliedFiltersKey, clearSelection]);
+
+  const exitSelection = () => {
+    setIsSelecting(false);
+    selection.clear();
+  };
+
+  // Select every event matching the filters, not just the loaded ones
+  const handleSelectAllMatching = async () => {
+    setIsSelectingMatching(true);
+    try {
+      let matching = await getAllEvents(serverFilters);
+
+      // Apply the same client-side filters as the list
+      if (favoritesOnly) {
+        matching = matching.filter(({ Event }) => favoriteIds.includes(Event.Id));
+      }
+      if (selectedTagIds.length > 0) {
+        const tagMap = await getEventTags(matching.map(({ Event }) => Event.Id));
+        if (tagMap) {
+          matching = matching.filter(({ Event }) =>
+            (tagMap.get(Event.Id) || []).some((tag) => selectedTagIds.includes(tag.Id))
+          );
+        }
+      }
+
+      matchingEventNamesRef.current = new Map(matching.map(({ Event }) => [Event.Id, Event.Name]));
+      selection.selectIds(matching.map(({ Event }) => Event.Id));
+    } catch (err) {
+      log.api('Failed to select all matching events', LogLevel.ERROR, { error: err });
+      toast.error(t('events.selection.select_matching_failed'));
+    } finally {
+      setIsSelectingMatching(false);
+    }
+  };
+
+  const handleBulkAction = (action: BulkEventAction) => {
+    const ids = selectedEventIds;
+    switch (action) {
+      case 'archive':
+      case 'unarchive':
+        bulkActions.archive(ids, action === 'archive');
+        break;
+      case 'favorite':
+      case 'unfavorite':
+        bulkActions.favorite(ids, action === 'favorite');
+        break;
+      case 'download': {
+        const names = new Map(matchingEventNamesRef.current);
+        allEvents.forEach(({ Event }) => names.set(Event.Id, Event.Name));
+        bulkActions.download(ids.map((id) => ({ Id: id, Name: names.get(id) ?? '' })));
+        break;
+      }
+      case 'bundle':
+        bulkActions.bundle(ids, new Map(allMonitors.map(({ Monitor }) => [Monitor.Id, Monitor.Name])));
+        break;
+      case 'delete':
+        bulkActions.remove(ids);
+        selection.clear();
+        break;
+    }
+  };
+
+  const handleBulkTag = (tag: Tag, mode: 'assign' | 'unassign') => {
+    bulkActions.tag(selectedEventIds, tag, mode);
+  };
+
+  // Export every event matching the filters, not just the loaded ones
+  const handleExport = (format: EventExportFormat, columns: EventExportColumn[]) => {
+    exportEvents({
+      filters: serverFilters,
+      favoritesOnly,
+      tagIds: selectedTagIds,
+      format,
+      columns,
+      monitorNames: new Map(allMonitors.map(({ Monitor }) => [Monitor.Id, Monitor.Name])),
+    });
+  };
+
   // Use grid management hook (only active when in montage mode)
   const gridControls = useEventMontageGrid({
     initialCols: settings.eventMontageGridCols,
@@ -327,6 +463,34 @@ export default function Events() {
 
             <div className="flex items-center gap-2">
               <GroupFilterSelect />
+              <Button
+                variant={isSelecting ? 'default' : 'outline'}
+                size="icon"
+                onClick={() => (isSelecting ? exitSelection() : setIsSelecting(true))}
+                aria-label={t('events.selection.toggle')}
+                title={t('events.selection.toggle')}
+                data-testid="events-select-toggle"
+              >
+                <ListChecks className="h-4 w-4" />
+              </Button>
+              {viewMode === 'list' && (
+                <Button
+                  variant={settings.eventGrouping === 'incidents' ? 'default' : 'outline'}
+                  size="icon"
+                  onClick={() =>
+                    currentProfile &&
+                    updateSettings(currentProfile.id, {
+                      eventGrouping: settings.eventGrouping === 'incidents' ? 'none' : 'incidents',
+                    })
+                  }
+                  aria-label={t('events.incidents.toggle')}
+                  aria-pressed={settings.eventGrouping === 'incidents'}
+                  title={t('events.incidents.toggle')}
+                  data-testid="events-incident-toggle"
+                >
+                  <Layers className="h-4 w-4" />
+                </Button>
+              )}
               <Button
                 variant="outline"
                 size="icon"
@@ -405,8 +569,26 @@ export default function Events() {
                   selectedTagIds={selectedTagIds}
                   onTagSelectionChange={setSelectedTagIds}
                   isLoadingTags={isLoadingTags}
+                  onManageTags={() => setIsTagManagerOpen(true)}
+                  advancedFilters={advancedFilters}
+                  onAdvancedFiltersChange={setAdvancedFilters}
                 />
               </Popover>
+              <SavedSearchesMenu
+                onApply={applySavedSearch}
+                draft={savedSearchDraft}
+                testId="events-saved-searches"
+              />
+              <Button
+                variant="outline"
+                size="icon"
+                onClick={() => setIsExportOpen(true)}
+                aria-label={t('events.export.title')}
+                title={t('events.export.title')}
+                data-testid="events-export-button"
+              >
+                <FileDown className="h-4 w-4" />
+              </Button>
 
               <Button
                 onClick={() => refetch()}
@@ -422,6 +604,12 @@ export default function Events() {
           {viewMode === 'montage' && gridControls.isScreenTooSmall && (
             <p className="text-xs text-destructive">{t('eventMontage.screen_too_small')}</p>
           )}
+          <EventQuickSearch
+            query={quickSearchQuery}
+            monitors={allMonitors}
+            tags={availableTags}
+            onSearch={applyQuickSearch}
+          />
         </div>
 
         {/* Event Heatmap */}
@@ -455,6 +643,22 @@ export default function Events() {
             );
           })()}
 
+        {isSelecting && allEvents.length > 0 && (
+          <EventSelectionBar
+            selectedEventIds={selectedEventIds}
+            visibleCount={allEvents.length}
+            hasUnloadedMatches={(eventsData?.pagination?.totalCount ?? 0) > (eventsData?.events.length ?? 0)}
+            isSelectingMatching={isSelectingMatching}
+            onSelectAll={selection.selectAll}
+            onSelectAllMatching={handleSelectAllMatching}
+            onClearSelection={selection.clear}
+            onDone={exitSelection}
+            onAction={handleBulkAction}
+            onTag={handleBulkTag}
+            eventTagMap={eventTagMap}
+          />
+        )}
+
         {/* Events List or Montage View */}
         {allEvents.length === 0 ? (
           <div data-testid="events-empty-state">
@@ -462,7 +666,7 @@ export default function Events() {
               icon={Clock}
               title={t('events.no_events')}
               action={
-                filters.monitorId || filters.startDateTime || filters.endDateTime
+                activeFilterCount > 0
                   ? {
                       label: t('events.clear_filters'),
                       onClick: clearFilters,
@@ -486,6 +690,8 @@ export default function Events() {
             isFetching={isFetching}
             onLoadMore={loadNextPage}
             eventTagMap={eventTagMap}
+            selectedEventIds={isSelecting ? selection.selectedIds : undefined}
+            onToggleSelect={isSelecting ? selection.toggle : undefined}
           />
         ) : (
           <EventListView
@@ -502,9 +708,27 @@ export default function Events() {
             parentRef={parentRef}
             parentElement={parentElement}
             eventTagMap={eventTagMap}
+            selectedEventIds={isSelecting ? selection.selectedIds : undefined}
+            onToggleSelect={isSelecting ? selection.toggle : undefined}
+            grouping={settings.eventGrouping}
+            incidentGapSeconds={settings.incidentGapSeconds}
+            onIncidentGapChange={(seconds) =>
+              currentProfile && updateSettings(currentProfile.id, { incidentGapSeconds: seconds })
+            }
           />
         )}
       </div>
+      {isTagManagerOpen && (
+        <TagManagerDialog open={isTagManagerOpen} onOpenChange={setIsTagManagerOpen} />
+      )}
+      {isExportOpen && (
+        <EventExportDialog
+          open={isExportOpen}
+          onOpenChange={setIsExportOpen}
+          matchCount={favoritesOnly || selectedTagIds.length > 0 ? undefined : eventsData?.pagination?.totalCount}
+          onExport={handleExport}
+        />
+      )}
     </>
   );
 }
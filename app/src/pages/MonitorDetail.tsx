@@ -15,25 +15,52 @@ import { useSettingsStore } from '../stores/settings';
 import { Button } from '../components/ui/button';
 import { Card } from '../components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
-import { Switch } from '../components/ui/switch';
-import { Label } from '../components/ui/label';
-import { ArrowLeft, Settings, Maximize2, Clock, AlertTriangle, Download, ChevronUp, ChevronDown, Layers } from 'lucide-react';
-import { useState, useRef, useMemo } from 'react';
+import { ArrowLeft, Settings, Maximize2, Clock, AlertTriangle, Download, ChevronUp, ChevronDown, Layers, PencilRuler, Focus } from 'lucide-react';
+import { useState, useRef, useMemo, useCallback } from 'react';
 import { cn } from '../lib/utils';
 import { toast } from 'sonner';
 import { downloadSnapshotFromElement } from '../lib/download';
 import { useTranslation } from 'react-i18next';
 import { useInsomnia } from '../hooks/useInsomnia';
+import { useBandwidthSettings } from '../hooks/useBandwidthSettings';
+import { useMonitorStatusSamples } from '../hooks/useMonitorStatusHistory';
+import { useMonitorStatusHistoryStore } from '../stores/monitorStatusHistory';
 import { PTZControls } from '../components/monitors/PTZControls';
+import { PTZPresetPanel } from '../components/monitor-detail/PTZPresetPanel';
+import { PTZPatrolPanel } from '../components/monitor-detail/PTZPatrolPanel';
+import { PTZPresetQuickButtons } from '../components/monitor-detail/PTZPresetQuickButtons';
+import { PTZPointOverlay } from '../components/monitor-detail/PTZPointOverlay';
 import { VideoPlayer } from '../components/video/VideoPlayer';
 import { ZoneOverlay } from '../components/video/ZoneOverlay';
+import { ZoomIndicator } from '../components/video/ZoomIndicator';
+import { ZoomViewMenu } from '../components/video/ZoomViewMenu';
+import { useDigitalZoom } from '../hooks/useDigitalZoom';
+import { useZoomViews } from '../hooks/useZoomViews';
+import { FULL_CROP } from '../lib/digital-zoom';
 import { log, LogLevel } from '../lib/logger';
 import { parseMonitorRotation } from '../lib/monitor-rotation';
+import { getOrientedDimensions } from '../lib/zone-utils';
+import { getMovePrefix, type PtzDirection } from '../lib/ptz-input';
+import { getPointMode, planCenterMove, planRegionZoom, type PtzPoint, type PtzRegion } from '../lib/ptz-point';
 
 // Extracted hooks and components
-import { usePTZControl, useAlarmControl, useModeControl, useMonitorNavigation } from './hooks';
+import {
+  usePTZControl,
+  usePTZPresets,
+  usePTZPatrol,
+  usePTZKeyboard,
+  usePTZGamepad,
+  useAlarmControl,
+  useModeControl,
+  useMonitorConfig,
+  useMonitorNavigation,
+  useZoneEditor,
+} from './hooks';
 import { MonitorSettingsDialog } from '../components/monitor-detail/MonitorSettingsDialog';
 import { MonitorControlsCard } from '../components/monitor-detail/MonitorControlsCard';
+import { MonitorStatusHistoryCard } from '../components/monitor-detail/MonitorStatusHistoryCard';
+import { ZoneEditorOverlay } from '../components/monitor-detail/ZoneEditorOverlay';
+import { ZoneEditorPanel } from '../components/monitor-detail/ZoneEditorPanel';
 
 export default function MonitorDetail() {
   const { id } = useParams<{ id: string }>();
@@ -42,10 +69,15 @@ export default function MonitorDetail() {
   const { t } = useTranslation();
 
   // Local UI state
-  const [isContinuous, setIsContinuous] = useState(true);
   const [showPTZ, setShowPTZ] = useState(true);
   const [showSettingsDialog, setShowSettingsDialog] = useState(false);
   const [showZones, setShowZones] = useState(false);
+  // Monitor the zone editor was opened for, so it closes when navigating away
+  const [zoneEditorMonitorId, setZoneEditorMonitorId] = useState<string | null>(null);
+  const isZoneEditorOpen = !!id && zoneEditorMonitorId === id;
+  // Likewise for point-and-zoom PTZ, which gives way to the zone editor
+  const [ptzPointMonitorId, setPtzPointMonitorId] = useState<string | null>(null);
+  const isPTZPointOpen = !!id && ptzPointMonitorId === id && !isZoneEditorOpen;
   const [scale, setScale] = useState(100);
   const mediaRef = useRef<HTMLImageElement | HTMLVideoElement>(null);
 
@@ -56,6 +88,9 @@ export default function MonitorDetail() {
   const { currentProfile, settings } = useCurrentProfile();
   const accessToken = useAuthStore((state) => state.accessToken);
   const updateSettings = useSettingsStore((state) => state.updateProfileSettings);
+  const bandwidth = useBandwidthSettings();
+  const statusSamples = useMonitorStatusSamples(id ?? '');
+  const clearMonitorHistory = useMonitorStatusHistoryStore((state) => state.clearMonitorHistory);
 
   // Keep screen awake when Insomnia is enabled
   useInsomnia({ enabled: settings.insomnia });
@@ -74,26 +109,114 @@ export default function MonitorDetail() {
     enabled: !!monitor?.Monitor.ControlId && monitor.Monitor.Controllable === '1',
   });
 
-  // Fetch zones when showZones is enabled
+  // Fetch zones when showZones or the zone editor is enabled
   const { data: zones = [], isLoading: isZonesLoading } = useQuery({
     queryKey: ['zones', id],
     queryFn: () => getZones(id!),
-    enabled: !!id && showZones,
+    enabled: !!id && (showZones || isZoneEditorOpen),
+  });
+
+  // Digital zoom, kept per monitor. Zone editing and point-and-zoom draw on
+  // the whole image, so they show it unzoomed
+  const zoomViews = useZoomViews(monitor?.Monitor.Id || '');
+  const isZoomLocked = isZoneEditorOpen || isPTZPointOpen;
+  const monitorRotation = parseMonitorRotation(monitor?.Monitor.Orientation);
+  const { ref: digitalZoomRef, ...digitalZoom } = useDigitalZoom({
+    crop: isZoomLocked ? FULL_CROP : zoomViews.crop,
+    onCropChange: zoomViews.setCrop,
+    imageSize: getOrientedDimensions(
+      Number(monitor?.Monitor.Width) || 1920,
+      Number(monitor?.Monitor.Height) || 1080,
+      monitorRotation
+    ),
+    fit: settings.monitorDetailFeedFit,
+    enabled: !isZoomLocked,
   });
 
   // Custom hooks for extracted logic
+  // Editing zones, steering the camera or panning a zoom pauses cycling and swiping so drags stay on this monitor
   const { swipeNavigation, isSliding } = useMonitorNavigation({
     currentMonitorId: id,
-    cycleSeconds: settings.monitorDetailCycleSeconds,
+    cycleSeconds: isZoneEditorOpen || isPTZPointOpen ? 0 : settings.monitorDetailCycleSeconds,
+    swipeEnabled: !isZoneEditorOpen && !isPTZPointOpen && !digitalZoom.isZoomed,
+  });
+
+  const zoneEditor = useZoneEditor({
+    monitorId: monitor?.Monitor.Id,
+    width: Number(monitor?.Monitor.Width) || 1920,
+    height: Number(monitor?.Monitor.Height) || 1080,
+  });
+
+  const monitorZones = useMemo(
+    () => zones.filter((zone) => String(zone.MonitorId) === id),
+    [zones, id]
+  );
+
+  const handleZoneEditorToggle = () => {
+    zoneEditor.cancel();
+    setZoneEditorMonitorId(isZoneEditorOpen ? null : id ?? null);
+    setPtzPointMonitorId(null);
+  };
+
+  const ptzControl = monitor?.Monitor.Controllable === '1' ? controlData?.control.Control : undefined;
+
+  const ptzPatrol = usePTZPatrol({
+    portalUrl: currentProfile?.portalUrl || '',
+    monitorId: monitor?.Monitor.Id || '',
+    accessToken,
+    speed: settings.ptzSpeed,
+    enabled: monitor?.Monitor.Controllable === '1',
   });
 
-  const { handlePTZCommand } = usePTZControl({
+  const { handlePTZCommand, startPTZMove, stopPTZMove, runPTZSteps } = usePTZControl({
     portalUrl: currentProfile?.portalUrl || '',
     monitorId: monitor?.Monitor.Id || '',
     accessToken,
-    isContinuous,
+    speed: settings.ptzSpeed,
+    onManualInput: ptzPatrol.pauseForInput,
   });
 
+  const ptzPresets = usePTZPresets({
+    monitorId: monitor?.Monitor.Id || '',
+    control: ptzControl,
+    mediaRef,
+    onCommand: handlePTZCommand,
+  });
+
+  // Keyboard and gamepad moves, while the PTZ controls are shown
+  const handlePTZDirection = useCallback(
+    (direction: PtzDirection, speed?: number) => startPTZMove(`${getMovePrefix(ptzControl)}${direction}`, speed),
+    [ptzControl, startPTZMove]
+  );
+  const ptzInputOptions = {
+    enabled: ptzControl?.CanMove === '1' && showPTZ && !isZoneEditorOpen,
+    allowDiagonal: ptzControl?.CanMoveDiag === '1',
+    onMove: handlePTZDirection,
+    onStop: stopPTZMove,
+  };
+  usePTZKeyboard(ptzInputOptions);
+  usePTZGamepad(ptzInputOptions);
+
+  // Point-and-zoom on the live view
+  const ptzPointMode = getPointMode(ptzControl);
+  const ptzCameraSize = {
+    width: Number(monitor?.Monitor.Width) || 1920,
+    height: Number(monitor?.Monitor.Height) || 1080,
+  };
+
+  const handlePTZPointToggle = () => {
+    if (isZoneEditorOpen) handleZoneEditorToggle();
+    setPtzPointMonitorId(isPTZPointOpen ? null : id ?? null);
+  };
+
+  const handlePTZCenter = (point: PtzPoint) => {
+    runPTZSteps(planCenterMove(ptzControl, point, ptzCameraSize, settings.ptzSpeed));
+  };
+
+  const handlePTZZoom = (region: PtzRegion) => {
+    runPTZSteps(planRegionZoom(ptzControl, region, ptzCameraSize, settings.ptzSpeed));
+  };
+
   const {
     hasAlarmStatus,
     displayAlarmArmed,
@@ -112,6 +235,11 @@ export default function MonitorDetail() {
     onSuccess: refetch,
   });
 
+  const monitorConfig = useMonitorConfig({
+    monitorId: monitor?.Monitor.Id,
+    onSuccess: refetch,
+  });
+
   // Computed values
   const rotationStatus = useMemo(() => {
     const rotation = parseMonitorRotation(monitor?.Monitor.Orientation);
@@ -165,6 +293,21 @@ export default function MonitorDetail() {
     });
   };
 
+  const handleLowFpsThresholdChange = (threshold: number) => {
+    if (!currentProfile) return;
+    updateSettings(currentProfile.id, { lowFpsThreshold: threshold });
+  };
+
+  const handlePTZSpeedChange = (speed: number) => {
+    if (!currentProfile) return;
+    updateSettings(currentProfile.id, { ptzSpeed: speed });
+  };
+
+  const handleClearStatusHistory = () => {
+    if (!currentProfile || !id) return;
+    clearMonitorHistory(currentProfile.id, id);
+  };
+
   // Log monitor status for debugging
   if (monitor?.Monitor) {
     log.monitorDetail('Monitor loaded in Single View', LogLevel.INFO, {
@@ -280,6 +423,7 @@ export default function MonitorDetail() {
       {/* Main Content */}
       <div className="flex-1 p-2 sm:p-3 md:p-4 flex flex-col items-center justify-center bg-muted/10">
         <Card
+          ref={digitalZoomRef}
           {...swipeNavigation.bind()}
           className={cn(
             'relative w-full max-w-5xl aspect-video bg-black overflow-hidden shadow-2xl border-0 touch-pan-y transition-shadow',
@@ -294,15 +438,41 @@ export default function MonitorDetail() {
             objectFit={settings.monitorDetailFeedFit}
             showStatus={true}
             className="data-[testid=monitor-player]"
+            mediaStyle={digitalZoom.mediaStyle}
           />
-          <ZoneOverlay
-            zones={zones}
-            monitorWidth={Number(monitor.Monitor.Width) || 1920}
-            monitorHeight={Number(monitor.Monitor.Height) || 1080}
-            rotation={parseMonitorRotation(monitor.Monitor.Orientation)}
-            monitorId={monitor.Monitor.Id}
-            visible={showZones && !isZonesLoading}
-          />
+          {isZoneEditorOpen ? (
+            <ZoneEditorOverlay
+              editor={zoneEditor}
+              zones={monitorZones}
+              rotation={parseMonitorRotation(monitor.Monitor.Orientation)}
+            />
+          ) : (
+            <div className="absolute inset-0" style={digitalZoom.mediaStyle}>
+              <ZoneOverlay
+                zones={zones}
+                monitorWidth={Number(monitor.Monitor.Width) || 1920}
+                monitorHeight={Number(monitor.Monitor.Height) || 1080}
+                rotation={parseMonitorRotation(monitor.Monitor.Orientation)}
+                monitorId={monitor.Monitor.Id}
+                visible={showZones && !isZonesLoading}
+              />
+            </div>
+          )}
+          {digitalZoom.isZoomed && <ZoomIndicator scale={zoomViews.crop.scale} onReset={digitalZoom.reset} />}
+          {isPTZPointOpen && (
+            <PTZPointOverlay
+              mediaRef={mediaRef}
+              rotation={parseMonitorRotation(monitor.Monitor.Orientation)}
+              width={ptzCameraSize.width}
+              height={ptzCameraSize.height}
+              fit={settings.monitorDetailFeedFit}
+              onCenter={handlePTZCenter}
+              onZoom={handlePTZZoom}
+            />
+          )}
+          {!isZoneEditorOpen && (
+            <PTZPresetQuickButtons presets={ptzPresets.pinnedPresets} onGoto={ptzPresets.gotoPreset} />
+          )}
         </Card>
 
         {/* Video Controls Bar */}
@@ -327,6 +497,14 @@ export default function MonitorDetail() {
             >
               <Download className="h-4 w-4" />
             </Button>
+            <ZoomViewMenu
+              views={zoomViews.views}
+              canSave={digitalZoom.isZoomed}
+              onApply={(view) => zoomViews.setCrop(view.crop)}
+              onSave={(name) => zoomViews.saveView(name, zoomViews.crop)}
+              onRemove={zoomViews.removeView}
+              onToggleMontage={zoomViews.toggleMontage}
+            />
             <Button
               variant="ghost"
               size="icon"
@@ -348,6 +526,32 @@ export default function MonitorDetail() {
             >
               <Layers className={cn('h-4 w-4', isZonesLoading && 'animate-pulse')} />
             </Button>
+            <Button
+              variant={isZoneEditorOpen ? 'secondary' : 'ghost'}
+              size="icon"
+              className="h-8 w-8"
+              onClick={handleZoneEditorToggle}
+              title={isZoneEditorOpen ? t('zone_editor.close') : t('zone_editor.open')}
+              aria-label={isZoneEditorOpen ? t('zone_editor.close') : t('zone_editor.open')}
+              aria-pressed={isZoneEditorOpen}
+              data-testid="zone-editor-toggle"
+            >
+              <PencilRuler className="h-4 w-4" />
+            </Button>
+            {ptzPointMode && (
+              <Button
+                variant={isPTZPointOpen ? 'secondary' : 'ghost'}
+                size="icon"
+                className="h-8 w-8"
+                onClick={handlePTZPointToggle}
+                title={t('ptz.point_mode')}
+                aria-label={t('ptz.point_mode')}
+                aria-pressed={isPTZPointOpen}
+                data-testid="ptz-point-toggle"
+              >
+                <Focus className="h-4 w-4" />
+              </Button>
+            )}
           </div>
           <div className="flex items-center gap-1">
             <Button
@@ -364,6 +568,13 @@ export default function MonitorDetail() {
           </div>
         </div>
 
+        {/* Zone Editor */}
+        {isZoneEditorOpen && (
+          <div className="w-full max-w-5xl mt-4">
+            <ZoneEditorPanel editor={zoneEditor} zones={monitorZones} onClose={handleZoneEditorToggle} />
+          </div>
+        )}
+
         {/* PTZ Controls */}
         {monitor.Monitor.Controllable === '1' && (
           <div className="mt-8 w-full max-w-md flex flex-col items-center">
@@ -379,16 +590,21 @@ export default function MonitorDetail() {
 
             {showPTZ && (
               <div className="w-full flex flex-col items-center gap-4">
-                {controlData?.control.Control.CanMoveCon === '1' && (
-                  <div className="flex items-center space-x-2">
-                    <Switch id="continuous-mode" checked={isContinuous} onCheckedChange={setIsContinuous} />
-                    <Label htmlFor="continuous-mode">{t('ptz.continuous_movement')}</Label>
-                  </div>
-                )}
                 <PTZControls
                   onCommand={handlePTZCommand}
+                  onMoveStart={startPTZMove}
+                  onMoveStop={stopPTZMove}
+                  speed={settings.ptzSpeed}
+                  onSpeedChange={handlePTZSpeedChange}
                   className="w-full"
-                  control={controlData?.control.Control}
+                  control={ptzControl}
+                />
+                <PTZPresetPanel presets={ptzPresets} className="p-4 bg-card/50 rounded-xl border shadow-sm" />
+                <PTZPatrolPanel
+                  patrol={ptzPatrol}
+                  presets={ptzPresets.presets}
+                  canGoHome={ptzControl?.HasHomePreset === '1'}
+                  className="p-4 bg-card/50 rounded-xl border shadow-sm"
                 />
               </div>
             )}
@@ -409,6 +625,18 @@ export default function MonitorDetail() {
             onModeChange={handleModeChange}
           />
         </div>
+
+        {/* FPS and bandwidth history */}
+        <div className="w-full max-w-5xl mt-4">
+          <MonitorStatusHistoryCard
+            samples={statusSamples}
+            isRunning={monitor.Monitor_Status?.Status === 'Connected'}
+            lowFpsThreshold={settings.lowFpsThreshold}
+            onLowFpsThresholdChange={handleLowFpsThresholdChange}
+            onClearHistory={handleClearStatusHistory}
+            sampleIntervalSeconds={bandwidth.monitorStatusInterval / 1000}
+          />
+        </div>
       </div>
 
       {/* Settings Dialog */}
@@ -421,6 +649,7 @@ export default function MonitorDetail() {
         feedFit={settings.monitorDetailFeedFit}
         orientedResolution={orientedResolution}
         rotationStatus={rotationStatus}
+        config={monitorConfig}
       />
     </div>
   );
@@ -16,7 +16,7 @@ import { useBandwidthSettings } from '../hooks/useBandwidthSettings';
 import { useAuthStore } from '../stores/auth';
 import { useSettingsStore } from '../stores/settings';
 import { Button } from '../components/ui/button';
-import { RefreshCw, AlertCircle, Settings, Video } from 'lucide-react';
+import { RefreshCw, AlertCircle, Settings, Video, FolderCog } from 'lucide-react';
 import { MonitorCard } from '../components/monitors/MonitorCard';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
 import {
@@ -29,12 +29,14 @@ import {
 import { filterEnabledMonitors, filterMonitorsByGroup } from '../lib/filters';
 import { useGroupFilter } from '../hooks/useGroupFilter';
 import { GroupFilterSelect } from '../components/filters/GroupFilterSelect';
+import { GroupManagerDialog } from '../components/groups/GroupManagerDialog';
 import type { Monitor } from '../api/types';
 export default function Monitors() {
   const { t } = useTranslation();
   const navigate = useNavigate();
   const [selectedMonitor, setSelectedMonitor] = useState<Monitor | null>(null);
   const [showPropertiesDialog, setShowPropertiesDialog] = useState(false);
+  const [showGroupManager, setShowGroupManager] = useState(false);
 
   const { currentProfile, settings } = useCurrentProfile();
   const bandwidth = useBandwidthSettings();
@@ -128,6 +130,17 @@ export default function Monitors() {
         </div>
         <div className="flex items-center gap-2">
           <GroupFilterSelect />
+          <Button
+            variant="outline"
+            size="icon"
+            className="h-8 w-8 sm:h-9 sm:w-9 shrink-0"
+            onClick={() => setShowGroupManager(true)}
+            title={t('groups.manage_title')}
+            aria-label={t('groups.manage_title')}
+            data-testid="group-manager-button"
+          >
+            <FolderCog className="h-4 w-4" />
+          </Button>
           <div className="flex items-center gap-2">
             <span className="text-xs text-muted-foreground hidden md:inline">{t('monitors.feed_fit')}</span>
             <Select value={settings.monitorsFeedFit} onValueChange={handleFeedFitChange}>
@@ -308,6 +321,11 @@ export default function Monitors() {
           )}
         </DialogContent>
       </Dialog>
+
+      {/* Mounted only while open, so it starts fresh each time */}
+      {showGroupManager && (
+        <GroupManagerDialog open onOpenChange={setShowGroupManager} monitors={enabledMonitors} />
+      )}
     </div>
   );
 }
@@ -12,6 +12,8 @@ import { useCurrentProfile } from '../hooks/useCurrentProfile';
 import { useBandwidthSettings } from '../hooks/useBandwidthSettings';
 import { useAuthStore } from '../stores/auth';
 import { useSettingsStore } from '../stores/settings';
+import { useZoomViewsStore } from '../stores/zoomViews';
+import { getViewTileId } from '../lib/digital-zoom';
 import { useState, useEffect, useMemo } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Button } from '../components/ui/button';
@@ -37,6 +39,7 @@ import {
   useMontageGrid,
   useContainerResize,
   useFullscreenMode,
+  type MontageViewTile,
 } from '../components/montage';
 
 const WrappedGridLayout = WidthProvider(GridLayout);
@@ -81,6 +84,25 @@ export default function Montage() {
     return filterMonitorsByGroup(enabledMonitors, filteredMonitorIds);
   }, [enabledMonitors, isFilterActive, filteredMonitorIds]);
 
+  // Zoom views picked for the montage get tiles of their own
+  const profileZoom = useZoomViewsStore((state) =>
+    currentProfile ? state.profileZoom[currentProfile.id] : undefined
+  );
+  const viewTiles = useMemo<MontageViewTile[]>(
+    () =>
+      monitors.flatMap(({ Monitor, Monitor_Status }) =>
+        (profileZoom?.[Monitor.Id]?.views ?? [])
+          .filter((view) => view.montage)
+          .map((view) => ({
+            id: getViewTileId(Monitor.Id, view.id),
+            monitor: Monitor,
+            status: Monitor_Status,
+            view,
+          }))
+      ),
+    [monitors, profileZoom]
+  );
+
   // Edit mode state lifted to page level
   const [isEditMode, setIsEditMode] = useState(false);
 
@@ -104,6 +126,7 @@ export default function Montage() {
     handleWidthChange,
   } = useMontageGrid({
     monitors,
+    viewTiles,
     currentProfile,
     settings,
     isFullscreen,
@@ -339,6 +362,21 @@ export default function Montage() {
                   />
                 </div>
               ))}
+              {viewTiles.map((tile) => (
+                <div key={tile.id} className="relative group">
+                  <MontageMonitor
+                    monitor={tile.monitor}
+                    status={tile.status}
+                    currentProfile={currentProfile}
+                    accessToken={accessToken}
+                    navigate={navigate}
+                    isFullscreen={isFullscreen}
+                    isEditing={isEditMode}
+                    objectFit={settings.montageFeedFit}
+                    zoomView={tile.view}
+                  />
+                </div>
+              ))}
             </WrappedGridLayout>
           </div>
         </div>
@@ -6,7 +6,7 @@
  */
 
 import { useState } from 'react';
-import { useNotificationStore } from '../stores/notifications';
+import { useNotificationStore, type NotificationEvent } from '../stores/notifications';
 import { useCurrentProfile } from '../hooks/useCurrentProfile';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../components/ui/card';
 import { Button } from '../components/ui/button';
@@ -21,8 +21,21 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '../components/ui/alert-dialog';
-import { Bell, Trash2, CheckCheck, ExternalLink, AlertCircle, Wifi, Smartphone, RefreshCw } from 'lucide-react';
+import {
+  Bell,
+  Trash2,
+  CheckCheck,
+  ExternalLink,
+  AlertCircle,
+  AlertTriangle,
+  CheckCircle2,
+  HeartPulse,
+  Wifi,
+  Smartphone,
+  RefreshCw,
+} from 'lucide-react';
 import { getEventCauseIcon } from '../lib/event-icons';
+import { getCameraHealthMessage } from '../lib/camera-health';
 import { formatDistanceToNow } from 'date-fns';
 import { useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
@@ -38,11 +51,12 @@ export default function NotificationHistory() {
   const events = currentProfile ? getEvents(currentProfile.id) : [];
   const unreadCount = currentProfile ? getUnreadCount(currentProfile.id) : 0;
 
-  const handleViewEvent = (eventId: number) => {
+  const handleViewEvent = (event: NotificationEvent) => {
     if (currentProfile) {
-      markEventRead(currentProfile.id, eventId);
+      markEventRead(currentProfile.id, event.EventId);
     }
-    navigate(`/events/${eventId}`);
+    // Camera health entries point at the monitor rather than an event
+    navigate(event.health ? `/monitors/${event.MonitorId}` : `/events/${event.EventId}`);
   };
 
   const handleMarkAllRead = () => {
@@ -144,6 +158,11 @@ export default function NotificationHistory() {
                             <Smartphone className="h-3 w-3" />
                             <span className="hidden sm:inline">{t('notification_history.source_push')}</span>
                           </>
+                        ) : event.source === 'health' ? (
+                          <>
+                            <HeartPulse className="h-3 w-3" />
+                            <span className="hidden sm:inline">{t('notification_history.source_health')}</span>
+                          </>
                         ) : event.source === 'poll' ? (
                           <>
                             <RefreshCw className="h-3 w-3" />
@@ -161,11 +180,13 @@ export default function NotificationHistory() {
                   <Button
                     variant="ghost"
                     size="sm"
-                    onClick={() => handleViewEvent(event.EventId)}
+                    onClick={() => handleViewEvent(event)}
                     className="shrink-0 h-8 sm:h-9 px-2 sm:px-3"
                   >
                     <ExternalLink className="h-4 w-4 sm:mr-2" />
-                    <span className="hidden sm:inline">{t('notification_history.view_event')}</span>
+                    <span className="hidden sm:inline">
+                      {event.health ? t('notification_history.view_monitor') : t('notification_history.view_event')}
+                    </span>
                   </Button>
                 </div>
               </CardHeader>
@@ -177,7 +198,7 @@ export default function NotificationHistory() {
                         src={event.ImageUrl}
                         alt={`Event ${event.EventId}`}
                         className="h-32 w-auto rounded-lg border object-cover cursor-pointer hover:opacity-80 transition-opacity"
-                        onClick={() => handleViewEvent(event.EventId)}
+                        onClick={() => handleViewEvent(event)}
                         onError={(e) => {
                           e.currentTarget.style.display = 'none';
                         }}
@@ -185,17 +206,34 @@ export default function NotificationHistory() {
                     </div>
                   )}
                   <div className="flex-1 space-y-2">
-                    {(() => {
-                      const CauseIcon = getEventCauseIcon(event.Cause);
-                      return (
-                        <div className="flex items-center gap-2">
-                          <CauseIcon className="h-4 w-4 text-muted-foreground" />
-                          <span className="text-sm font-medium">{event.Cause}</span>
-                        </div>
-                      );
-                    })()}
+                    {event.health ? (
+                      (() => {
+                        const { key, options } = getCameraHealthMessage(event.health);
+                        const isRecovery = event.health.status === 'recovered';
+                        return (
+                          <div className="flex items-center gap-2" data-testid="notification-health">
+                            {isRecovery ? (
+                              <CheckCircle2 className="h-4 w-4 text-green-600" />
+                            ) : (
+                              <AlertTriangle className="h-4 w-4 text-amber-600" />
+                            )}
+                            <span className="text-sm font-medium">{t(key, options)}</span>
+                          </div>
+                        );
+                      })()
+                    ) : (
+                      (() => {
+                        const CauseIcon = getEventCauseIcon(event.Cause);
+                        return (
+                          <div className="flex items-center gap-2">
+                            <CauseIcon className="h-4 w-4 text-muted-foreground" />
+                            <span className="text-sm font-medium">{event.Cause}</span>
+                          </div>
+                        );
+                      })()
+                    )}
                     <div className="text-xs text-muted-foreground space-y-1">
-                      <div>{t('notification_history.event_id', { id: event.EventId })}</div>
+                      {!event.health && <div>{t('notification_history.event_id', { id: event.EventId })}</div>}
                       <div>{t('notification_history.monitor_id', { id: event.MonitorId })}</div>
                     </div>
                     {!event.read && currentProfile && (
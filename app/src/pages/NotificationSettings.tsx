@@ -33,6 +33,7 @@ import {
   AlertCircle,
   Loader2,
   History,
+  HeartPulse,
 } from 'lucide-react';
 import { toast } from 'sonner';
 import { Capacitor } from '@capacitor/core';
@@ -41,6 +42,7 @@ import { useTranslation } from 'react-i18next';
 import { log, LogLevel } from '../lib/logger';
 import { checkNotificationsApiSupport } from '../api/notifications';
 import { getEventPoller } from '../services/eventPoller';
+import { CAMERA_HEALTH } from '../lib/zmng-constants';
 import type { NotificationMode } from '../types/notifications';
 
 export default function NotificationSettings() {
@@ -384,6 +386,65 @@ export default function NotificationSettings() {
           </CardContent>
         </Card>
 
+        {/* Camera Health Alerts (client-side, independent of event notifications) */}
+        <Card>
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <HeartPulse className="h-5 w-5 text-primary" />
+              <CardTitle>{t('notification_settings.health_title')}</CardTitle>
+            </div>
+            <CardDescription>
+              {t('notification_settings.health_desc')}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label htmlFor="health-alerts">{t('notification_settings.health_enable')}</Label>
+                <p className="text-xs text-muted-foreground">
+                  {t('notification_settings.health_enable_desc')}
+                </p>
+              </div>
+              <Switch
+                id="health-alerts"
+                checked={settings.healthAlerts}
+                onCheckedChange={(checked) => updateProfileSettings(currentProfile.id, { healthAlerts: checked })}
+                data-testid="health-alerts-toggle"
+              />
+            </div>
+            {settings.healthAlerts && (
+              <>
+                <Separator />
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label>{t('notification_settings.health_grace_period')}</Label>
+                    <p className="text-xs text-muted-foreground">
+                      {t('notification_settings.health_grace_period_desc')}
+                    </p>
+                  </div>
+                  <Select
+                    value={String(settings.healthGracePeriod)}
+                    onValueChange={(value) =>
+                      updateProfileSettings(currentProfile.id, { healthGracePeriod: parseInt(value, 10) })
+                    }
+                  >
+                    <SelectTrigger className="w-28" data-testid="health-grace-period-select">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CAMERA_HEALTH.gracePeriods.map((seconds) => (
+                        <SelectItem key={seconds} value={String(seconds)}>
+                          {seconds < 60 ? `${seconds}s` : `${seconds / 60}m`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Notification Mode Selector */}
         {settings.enabled && (
           <Card>
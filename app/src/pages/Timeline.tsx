@@ -7,7 +7,7 @@ import { Card, CardContent } from '../components/ui/card';
 import { Button } from '../components/ui/button';
 import { Input } from '../components/ui/input';
 import { Label } from '../components/ui/label';
-import { RefreshCw, Filter, Activity, AlertCircle, Clock } from 'lucide-react';
+import { RefreshCw, Filter, Activity, AlertCircle, Clock, Bookmark, X, MonitorPlay } from 'lucide-react';
 import { format, subDays } from 'date-fns';
 import { filterEnabledMonitors } from '../lib/filters';
 import { TIMELINE } from '../lib/zmng-constants';
@@ -26,6 +26,19 @@ import { useTranslation } from 'react-i18next';
 import { QuickDateRangeButtons } from '../components/ui/quick-date-range-buttons';
 import { MonitorFilterPopoverContent } from '../components/filters/MonitorFilterPopover';
 import { EmptyState } from '../components/ui/empty-state';
+import { SavedSearchesMenu, type SavedSearchDraft } from '../components/events/SavedSearchesMenu';
+import { useCurrentProfile } from '../hooks/useCurrentProfile';
+import { useEventTagMapping } from '../hooks/useEventTags';
+import { useEventFavoritesStore } from '../stores/eventFavorites';
+import { resolveSavedSearchDates, type SavedEventSearch } from '../lib/saved-searches';
+import { getEventTimeRange } from '../lib/review-playback';
+import { useReviewClock } from '../hooks/useReviewClock';
+import { useReviewEvents } from '../hooks/useReviewEvents';
+import { useAuthStore } from '../stores/auth';
+import { TimelineReview } from '../components/timeline/TimelineReview';
+
+/** ID of the vis-timeline custom time bar that follows review playback */
+const REVIEW_TIME_BAR_ID = 'review';
 
 interface TimelineGroup {
   id: string;
@@ -44,6 +57,21 @@ export default function Timeline() {
   );
   const [endDate, setEndDate] = useState(format(new Date(), 'yyyy-MM-dd'));
   const [selectedMonitorIds, setSelectedMonitorIds] = useState<string[]>([]);
+  // Saved search last applied; its tag, favorite and advanced filters stay active until cleared
+  const [activeSearch, setActiveSearch] = useState<SavedEventSearch | null>(null);
+  const { currentProfile } = useCurrentProfile();
+  const favoriteIds = useEventFavoritesStore((state) =>
+    currentProfile ? state.profileFavorites[currentProfile.id] : undefined
+  );
+  const accessToken = useAuthStore((state) => state.accessToken);
+
+  // Review mode: every selected monitor plays the same moment
+  const [isReviewing, setIsReviewing] = useState(false);
+  const reviewClock = useReviewClock();
+  const { jumpTo: jumpReviewTo, time: reviewTime } = reviewClock;
+  // Read by the vis-timeline handlers, which are registered once
+  const isReviewingRef = useRef(isReviewing);
+  const hasReviewTimeBar = useRef(false);
 
   // Fetch monitors
   const { data: monitorsData } = useQuery({
@@ -65,10 +93,13 @@ export default function Timeline() {
     return selectedMonitorIds.join(',');
   }, [selectedMonitorIds]);
 
-  const { data, isLoading, error, refetch } = useQuery({
-    queryKey: ['timeline-events', startDate, endDate, monitorFilter],
+  const advancedFilters = activeSearch?.advanced;
+
+  const { data: eventsData, isLoading, error, refetch } = useQuery({
+    queryKey: ['timeline-events', startDate, endDate, monitorFilter, advancedFilters],
     queryFn: () =>
       getEvents({
+        ...advancedFilters,
         startDateTime: formatForServer(new Date(`${startDate} 00:00:00`)),
         endDateTime: formatForServer(new Date(`${endDate} 23:59:59`)),
         monitorId: monitorFilter,
@@ -78,6 +109,100 @@ export default function Timeline() {
       }),
   });
 
+  // Tags and favorites are not server-side filters
+  const searchTagIds = activeSearch?.tagIds;
+  const eventIdsForTags = useMemo(
+    () => (searchTagIds?.length ? eventsData?.events.map(({ Event }) => Event.Id) ?? [] : []),
+    [eventsData, searchTagIds]
+  );
+  const { eventTagMap, isLoading: isTagMapLoading } = useEventTagMapping({
+    eventIds: eventIdsForTags,
+    enabled: eventIdsForTags.length > 0,
+  });
+
+  const data = useMemo(() => {
+    if (!eventsData || !activeSearch) return eventsData;
+    const favorites = new Set(favoriteIds ?? []);
+    const events = eventsData.events.filter(({ Event }) => {
+      if (activeSearch.favoritesOnly && !favorites.has(Event.Id)) return false;
+      if (activeSearch.tagIds.length > 0) {
+        const tags = eventTagMap.get(Event.Id) || [];
+        if (!tags.some((tag) => activeSearch.tagIds.includes(tag.Id))) return false;
+      }
+      return true;
+    });
+    return { ...eventsData, events };
+  }, [eventsData, activeSearch, favoriteIds, eventTagMap]);
+
+  const savedSearchDraft = useMemo<SavedSearchDraft>(
+    () => ({
+      monitorIds: selectedMonitorIds,
+      tagIds: activeSearch?.tagIds ?? [],
+      startDateTime: `${startDate}T00:00`,
+      endDateTime: `${endDate}T23:59`,
+      favoritesOnly: activeSearch?.favoritesOnly ?? false,
+      advanced: activeSearch?.advanced ?? {},
+    }),
+    [selectedMonitorIds, startDate, endDate, activeSearch]
+  );
+
+  // The timeline works in whole days, so the resolved range is widened to full days
+  const handleApplySavedSearch = (search: SavedEventSearch) => {
+    const { start, end } = resolveSavedSearchDates(search.dateRange);
+    setSelectedMonitorIds(search.monitorIds);
+    setStartDate(start ? format(new Date(start), 'yyyy-MM-dd') : format(subDays(new Date(), 1), 'yyyy-MM-dd'));
+    setEndDate(end ? format(new Date(end), 'yyyy-MM-dd') : format(new Date(), 'yyyy-MM-dd'));
+    setActiveSearch(search);
+  };
+
+  // Review plays every recording of its monitors, not just the events listed here
+  const reviewEvents = useReviewEvents({
+    monitorIds: selectedMonitorIds,
+    reviewWindow: reviewClock.window,
+    enabled: isReviewing,
+  });
+
+  const reviewMonitors = useMemo(
+    () =>
+      selectedMonitorIds.length > 0
+        ? enabledMonitors.filter(({ Monitor }) => selectedMonitorIds.includes(Monitor.Id))
+        : enabledMonitors,
+    [enabledMonitors, selectedMonitorIds]
+  );
+
+  // Start reviewing at the most recent event, until a moment is picked on the timeline
+  const handleToggleReview = () => {
+    const next = !isReviewing;
+    if (next && data?.events.length) {
+      jumpReviewTo(getEventTimeRange(data.events[0]).start);
+    }
+    if (!next) {
+      reviewClock.pause();
+    }
+    setIsReviewing(next);
+  };
+
+  useEffect(() => {
+    isReviewingRef.current = isReviewing;
+  }, [isReviewing]);
+
+  // Show the review moment on the timeline
+  useEffect(() => {
+    const timeline = timelineInstance.current;
+    if (!timeline) return;
+    if (isReviewing) {
+      if (hasReviewTimeBar.current) {
+        timeline.setCustomTime(new Date(reviewTime), REVIEW_TIME_BAR_ID);
+      } else {
+        timeline.addCustomTime(new Date(reviewTime), REVIEW_TIME_BAR_ID);
+        hasReviewTimeBar.current = true;
+      }
+    } else if (hasReviewTimeBar.current) {
+      timeline.removeCustomTime(REVIEW_TIME_BAR_ID);
+      hasReviewTimeBar.current = false;
+    }
+  }, [isReviewing, reviewTime, data]);
+
   // Initialize and update timeline
   useEffect(() => {
     if (!timelineRef.current || !data?.events) return;
@@ -195,13 +320,27 @@ export default function Timeline() {
     if (!timelineInstance.current) {
       timelineInstance.current = new VisTimeline(timelineRef.current, items, groups, options);
 
-      // Handle event click
+      // Handle event click (in review mode a click picks the moment instead)
       timelineInstance.current.on('select', (properties) => {
+        if (isReviewingRef.current) return;
         if (properties.items && properties.items.length > 0) {
           const eventId = properties.items[0];
           navigate(`/events/${eventId}`);
         }
       });
+
+      timelineInstance.current.on('click', (properties) => {
+        if (isReviewingRef.current && properties.time) {
+          jumpReviewTo(properties.time.getTime());
+        }
+      });
+
+      // Dragging the review time bar moves playback
+      timelineInstance.current.on('timechange', (properties) => {
+        if (properties.id === REVIEW_TIME_BAR_ID) {
+          jumpReviewTo(properties.time.getTime());
+        }
+      });
     } else {
       timelineInstance.current.setItems(items);
       timelineInstance.current.setGroups(groups);
@@ -211,7 +350,7 @@ export default function Timeline() {
     return () => {
       // Don't destroy the instance on every render, only when component unmounts
     };
-  }, [data, enabledMonitors, navigate]);
+  }, [data, enabledMonitors, navigate, jumpReviewTo]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -219,6 +358,7 @@ export default function Timeline() {
       if (timelineInstance.current) {
         timelineInstance.current.destroy();
         timelineInstance.current = null;
+        hasReviewTimeBar.current = false;
       }
     };
   }, []);
@@ -245,6 +385,25 @@ export default function Timeline() {
           </p>
         </div>
         <div className="flex items-center gap-2">
+          <Button
+            onClick={handleToggleReview}
+            variant={isReviewing ? 'default' : 'outline'}
+            size="sm"
+            className="h-8 sm:h-9"
+            aria-pressed={isReviewing}
+            title={t('timeline.review.toggle_hint')}
+            data-testid="timeline-review-toggle"
+          >
+            <MonitorPlay className="h-4 w-4 sm:mr-2" />
+            <span className="hidden sm:inline">{t('timeline.review.toggle')}</span>
+          </Button>
+          <SavedSearchesMenu
+            onApply={handleApplySavedSearch}
+            draft={savedSearchDraft}
+            activeSearchId={activeSearch?.id}
+            showLabel
+            testId="timeline-saved-searches"
+          />
           <Button onClick={() => refetch()} variant="outline" size="sm" className="h-8 sm:h-9" data-testid="timeline-refresh-button">
             <RefreshCw className="h-4 w-4 sm:mr-2" />
             <span className="hidden sm:inline">{t('common.refresh')}</span>
@@ -255,6 +414,23 @@ export default function Timeline() {
       {/* Filters */}
       <Card>
         <CardContent className="pt-6">
+          {activeSearch && (
+            <div className="flex items-center gap-2 mb-4 text-sm" data-testid="timeline-active-search">
+              <Bookmark className="h-4 w-4 text-primary" />
+              <span className="truncate">{t('saved_searches.active', { name: activeSearch.name })}</span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={() => setActiveSearch(null)}
+                aria-label={t('saved_searches.clear_active')}
+                title={t('saved_searches.clear_active')}
+                data-testid="timeline-active-search-clear"
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          )}
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <div>
               <Label htmlFor="startDate">{t('timeline.start_date')}</Label>
@@ -312,10 +488,27 @@ export default function Timeline() {
         </CardContent>
       </Card>
 
+      {/* Synchronized review playback */}
+      {isReviewing && currentProfile && (
+        <Card>
+          <CardContent className="pt-6">
+            <TimelineReview
+              events={reviewEvents}
+              monitors={reviewMonitors}
+              clock={reviewClock}
+              portalUrl={currentProfile.portalUrl}
+              token={accessToken || undefined}
+              apiUrl={currentProfile.apiUrl}
+            />
+          </CardContent>
+        </Card>
+      )}
+
       {/* Timeline Graph */}
       <Card className="shadow-lg">
         <CardContent className="p-0">
-          {isLoading ? (
+          {/* Tag filtering hides every event until the event tags are known */}
+          {isLoading || isTagMapLoading ? (
             <div className="flex flex-col items-center justify-center h-[600px] gap-4" data-testid="timeline-loading">
               <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary"></div>
               <div className="text-muted-foreground">{t('timeline.loading')}</div>
@@ -335,7 +528,7 @@ export default function Timeline() {
                   {t('timeline.showing_events', { count: data?.events.length })}
                 </div>
                 <div className="text-xs text-muted-foreground">
-                  {t('timeline.tip')}
+                  {isReviewing ? t('timeline.review.tip') : t('timeline.tip')}
                 </div>
               </div>
               <div
@@ -54,6 +54,7 @@ vi.mock('../../hooks/useEventFilters', () => ({
     startDateInput: '',
     endDateInput: '',
     favoritesOnly: false,
+    quickSearchQuery: '',
     setSelectedMonitorIds: vi.fn(),
     setSelectedTagIds: vi.fn(),
     setStartDateInput: vi.fn(),
@@ -61,10 +62,22 @@ vi.mock('../../hooks/useEventFilters', () => ({
     setFavoritesOnly: vi.fn(),
     applyFilters,
     clearFilters,
+    applyQuickSearch: vi.fn(),
     activeFilterCount: 0,
   }),
 }));
 
+vi.mock('../../hooks/useBulkEventActions', () => ({
+  useBulkEventActions: () => ({
+    archive: vi.fn(),
+    remove: vi.fn(),
+    favorite: vi.fn(),
+    tag: vi.fn(),
+    download: vi.fn(),
+    bundle: vi.fn(),
+  }),
+}));
+
 vi.mock('../../hooks/usePullToRefresh', () => ({
   usePullToRefresh: () => ({
     containerRef: { current: null },
@@ -0,0 +1,100 @@
+import { describe, expect, it, vi, beforeEach } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import { usePTZControl } from '../usePTZControl';
+import { controlMonitor } from '../../../api/monitors';
+
+vi.mock('../../../api/monitors', () => ({
+  controlMonitor: vi.fn(),
+}));
+
+vi.mock('react-i18next', () => {
+  const t = (key: string) => key;
+  return { useTranslation: () => ({ t }) };
+});
+
+vi.mock('sonner', () => ({
+  toast: { error: vi.fn() },
+}));
+
+const options = { portalUrl: 'https://zm.example.com', monitorId: '1', speed: 50 };
+
+describe('usePTZControl', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('sends the stop only after the start it ends has finished', async () => {
+    let finishStart = () => {};
+    vi.mocked(controlMonitor).mockImplementationOnce(
+      () => new Promise<void>((resolve) => (finishStart = resolve)) as ReturnType<typeof controlMonitor>
+    );
+    const { result } = renderHook(() => usePTZControl({ ...options, accessToken: 'token' }));
+
+    act(() => {
+      result.current.startPTZMove('moveConLeft');
+      result.current.stopPTZMove();
+    });
+    await act(async () => {});
+    expect(controlMonitor).toHaveBeenCalledTimes(1);
+
+    await act(async () => finishStart());
+    expect(vi.mocked(controlMonitor).mock.calls.map((call) => call[2])).toEqual(['moveConLeft', 'moveStop']);
+  });
+
+  it('queues commands of another instance for the same monitor behind a held move', async () => {
+    let finishStart = () => {};
+    vi.mocked(controlMonitor).mockImplementationOnce(
+      () => new Promise<void>((resolve) => (finishStart = resolve)) as ReturnType<typeof controlMonitor>
+    );
+    const { result: page } = renderHook(() => usePTZControl({ ...options, accessToken: 'token' }));
+    const { result: patrol } = renderHook(() => usePTZControl({ ...options, accessToken: 'token' }));
+
+    act(() => {
+      page.current.startPTZMove('moveConLeft');
+      patrol.current.handlePTZCommand('presetGoto1');
+      page.current.stopPTZMove();
+    });
+    await act(async () => {});
+    expect(controlMonitor).toHaveBeenCalledTimes(1);
+
+    await act(async () => finishStart());
+    expect(vi.mocked(controlMonitor).mock.calls.map((call) => call[2])).toEqual([
+      'moveConLeft',
+      'presetGoto1',
+      'moveStop',
+    ]);
+  });
+
+  it('keeps a held move going when the access token refreshes', async () => {
+    const { result, rerender } = renderHook(({ accessToken }) => usePTZControl({ ...options, accessToken }), {
+      initialProps: { accessToken: 'old' },
+    });
+
+    act(() => {
+      result.current.startPTZMove('moveConUp');
+    });
+    rerender({ accessToken: 'new' });
+    await act(async () => {});
+
+    expect(vi.mocked(controlMonitor).mock.calls.map((call) => call[2])).toEqual(['moveConUp']);
+
+    act(() => {
+      result.current.stopPTZMove();
+    });
+    await act(async () => {});
+
+    expect(controlMonitor).toHaveBeenLastCalledWith(options.portalUrl, '1', 'moveStop', 'new', { speed: 50 });
+  });
+
+  it('stops a held move when leaving the monitor', async () => {
+    const { result, unmount } = renderHook(() => usePTZControl({ ...options, accessToken: 'token' }));
+
+    act(() => {
+      result.current.startPTZMove('zoomConTele');
+    });
+    unmount();
+    await act(async () => {});
+
+    expect(controlMonitor).toHaveBeenLastCalledWith(options.portalUrl, '1', 'zoomStop', 'token', { speed: 50 });
+  });
+});
@@ -5,7 +5,13 @@
  */
 
 export { usePTZControl } from './usePTZControl';
+export { usePTZPresets, type UsePTZPresetsReturn } from './usePTZPresets';
+export { usePTZPatrol, type UsePTZPatrolReturn } from './usePTZPatrol';
+export { usePTZKeyboard } from './usePTZKeyboard';
+export { usePTZGamepad } from './usePTZGamepad';
 export { useAlarmControl } from './useAlarmControl';
 export { useModeControl, type MonitorFunction } from './useModeControl';
+export { useMonitorConfig } from './useMonitorConfig';
 export { useStreamLifecycle } from './useStreamLifecycle';
 export { useMonitorNavigation } from './useMonitorNavigation';
+export { useZoneEditor, type ZoneEditorTool, type ZoneDraft } from './useZoneEditor';
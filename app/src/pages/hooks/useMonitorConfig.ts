@@ -0,0 +1,90 @@
+/**
+ * Hook for monitor configuration changes
+ *
+ * Saves edited monitor fields through updateMonitor and keeps the last saved
+ * change so it can be undone.
+ */
+
+import { useState, useCallback } from 'react';
+import { toast } from 'sonner';
+import { useTranslation } from 'react-i18next';
+import { updateMonitor } from '../../api/monitors';
+import { log, LogLevel } from '../../lib/logger';
+import { buildMonitorConfigUpdate, type MonitorConfigChange } from '../../lib/monitor-config';
+
+interface UseMonitorConfigOptions {
+  monitorId: string | undefined;
+  onSuccess?: () => Promise<unknown>;
+}
+
+export interface UseMonitorConfigReturn {
+  isConfigSaving: boolean;
+  /** Changes from the last save, until they are undone */
+  lastConfigChanges: MonitorConfigChange[] | null;
+  saveConfigChanges: (changes: MonitorConfigChange[]) => Promise<boolean>;
+  undoLastConfigChange: () => Promise<void>;
+}
+
+export function useMonitorConfig({ monitorId, onSuccess }: UseMonitorConfigOptions): UseMonitorConfigReturn {
+  const { t } = useTranslation();
+  const [isConfigSaving, setIsConfigSaving] = useState(false);
+  const [lastConfigChanges, setLastConfigChanges] = useState<MonitorConfigChange[] | null>(null);
+
+  const undoLastConfigChange = useCallback(async () => {
+    if (!monitorId || !lastConfigChanges) return;
+
+    setIsConfigSaving(true);
+    try {
+      await updateMonitor(monitorId, buildMonitorConfigUpdate(lastConfigChanges, 'revert'));
+      setLastConfigChanges(null);
+      if (onSuccess) {
+        await onSuccess();
+      }
+      toast.success(t('monitor_config.undone'));
+    } catch (configError) {
+      log.monitorDetail('Monitor configuration undo failed', LogLevel.ERROR, {
+        monitorId,
+        fields: lastConfigChanges.map((change) => change.key),
+        error: configError,
+      });
+      toast.error(t('monitor_config.undo_failed'));
+    } finally {
+      setIsConfigSaving(false);
+    }
+  }, [monitorId, lastConfigChanges, onSuccess, t]);
+
+  const saveConfigChanges = useCallback(
+    async (changes: MonitorConfigChange[]) => {
+      if (!monitorId || changes.length === 0) return false;
+
+      setIsConfigSaving(true);
+      try {
+        await updateMonitor(monitorId, buildMonitorConfigUpdate(changes));
+        setLastConfigChanges(changes);
+        if (onSuccess) {
+          await onSuccess();
+        }
+        toast.success(t('monitor_config.saved', { count: changes.length }));
+        return true;
+      } catch (configError) {
+        log.monitorDetail('Monitor configuration update failed', LogLevel.ERROR, {
+          monitorId,
+          fields: changes.map((change) => change.key),
+          error: configError,
+        });
+        toast.error(t('monitor_config.save_failed'));
+        return false;
+      } finally {
+        setIsConfigSaving(false);
+      }
+    },
+    [monitorId, onSuccess, t]
+  );
+
+  return {
+    isConfigSaving,
+    lastConfigChanges,
+    saveConfigChanges,
+    undoLastConfigChange,
+  };
+}
@@ -15,6 +15,8 @@ import type { MonitorData } from '../../api/types';
 interface UseMonitorNavigationOptions {
   currentMonitorId: string | undefined;
   cycleSeconds?: number;
+  /** Set to false while another gesture (e.g. zone editing) owns the view */
+  swipeEnabled?: boolean;
 }
 
 interface UseMonitorNavigationReturn {
@@ -29,6 +31,7 @@ interface UseMonitorNavigationReturn {
 export function useMonitorNavigation({
   currentMonitorId,
   cycleSeconds = 0,
+  swipeEnabled = true,
 }: UseMonitorNavigationOptions): UseMonitorNavigationReturn {
   const navigate = useNavigate();
   const location = useLocation();
@@ -70,7 +73,7 @@ export function useMonitorNavigation({
       }
     },
     threshold: 80,
-    enabled: enabledMonitors.length > 1,
+    enabled: swipeEnabled && enabledMonitors.length > 1,
   });
 
   // Slide animation on monitor change
@@ -1,59 +1,147 @@
 /**
  * Hook for PTZ (Pan-Tilt-Zoom) camera control
  *
- * Handles sending PTZ commands with optional auto-stop for non-continuous mode.
+ * Handles sending PTZ commands at the chosen speed. Continuous moves started
+ * with startPTZMove keep running until stopPTZMove, and are stopped when the
+ * page leaves the monitor. runPTZSteps sends the planned commands of a point
+ * or zoom move in order. Commands of a monitor are sent one after another,
+ * whichever hook instance sends them (the page's controls or a patrol), so a
+ * stop never overtakes the move it ends. Commands resolve to whether
+ * ZoneMinder accepted them.
+ * Each of these counts as manual input, which pauses a running patrol.
  */
 
-import { useCallback } from 'react';
+import { useCallback, useEffect, useRef } from 'react';
 import { toast } from 'sonner';
 import { useTranslation } from 'react-i18next';
-import { controlMonitor } from '../../api/monitors';
+import { controlMonitor, type PTZCommandOptions } from '../../api/monitors';
+import { getStopCommand, isContinuousCommand } from '../../lib/ptz-input';
+import type { PtzStep } from '../../lib/ptz-point';
 import { log, LogLevel } from '../../lib/logger';
 
+/** Last queued command per server and monitor; the next one is sent once it has finished */
+const commandQueues = new Map<string, Promise<unknown>>();
+
 interface UsePTZControlOptions {
   portalUrl: string;
   monitorId: string;
   accessToken: string | null;
-  isContinuous: boolean;
+  /** Move speed in percent of the control's speed range */
+  speed: number;
+  /** Called when the user steers the camera */
+  onManualInput?: () => void;
 }
 
 interface UsePTZControlReturn {
-  handlePTZCommand: (command: string) => Promise<void>;
+  handlePTZCommand: (command: string) => Promise<boolean>;
+  startPTZMove: (command: string, speed?: number) => void;
+  stopPTZMove: () => void;
+  runPTZSteps: (steps: PtzStep[]) => Promise<void>;
 }
 
 export function usePTZControl({
   portalUrl,
   monitorId,
   accessToken,
-  isContinuous,
+  speed,
+  onManualInput,
 }: UsePTZControlOptions): UsePTZControlReturn {
   const { t } = useTranslation();
+  const activeMoveRef = useRef<{ command: string; speed: number } | null>(null);
+
+  // Token refreshes must not restart the hook's callbacks or stop a held move
+  const accessTokenRef = useRef(accessToken);
+  useEffect(() => {
+    accessTokenRef.current = accessToken;
+  }, [accessToken]);
+
+  const sendCommand = useCallback(
+    (command: string, options: PTZCommandOptions) => {
+      const send = async () => {
+        if (!portalUrl || !monitorId) return false;
+
+        try {
+          await controlMonitor(portalUrl, monitorId, command, accessTokenRef.current || undefined, options);
+          return true;
+        } catch (error) {
+          log.monitorDetail('PTZ command failed', LogLevel.ERROR, { command, error });
+          toast.error(t('monitor_detail.ptz_failed'));
+          return false;
+        }
+      };
+
+      const queueKey = `${portalUrl}|${monitorId}`;
+      const result = (commandQueues.get(queueKey) ?? Promise.resolve()).then(send);
+      commandQueues.set(queueKey, result);
+      // Drop the queue once it has run empty
+      result.then(() => {
+        if (commandQueues.get(queueKey) === result) commandQueues.delete(queueKey);
+      });
+      return result;
+    },
+    [portalUrl, monitorId, t]
+  );
 
   const handlePTZCommand = useCallback(
-    async (command: string) => {
-      if (!portalUrl || !monitorId) return;
-
-      try {
-        await controlMonitor(portalUrl, monitorId, command, accessToken || undefined);
-
-        // Auto-stop logic for non-continuous mode
-        // Only apply to moveCon* and zoomCon* commands
-        if (!isContinuous && (command.startsWith('moveCon') || command.startsWith('zoomCon'))) {
-          setTimeout(async () => {
-            try {
-              await controlMonitor(portalUrl, monitorId, 'moveStop', accessToken || undefined);
-            } catch (e) {
-              log.monitorDetail('Auto-stop command failed', LogLevel.WARN, { error: e });
-            }
-          }, 500);
+    (command: string) => {
+      onManualInput?.();
+      return sendCommand(command, { speed });
+    },
+    [sendCommand, speed, onManualInput]
+  );
+
+  const startPTZMove = useCallback(
+    (command: string, moveSpeed: number = speed) => {
+      onManualInput?.();
+      if (!isContinuousCommand(command)) {
+        sendCommand(command, { speed: moveSpeed });
+        return;
+      }
+
+      // Held keys and sticks report the same move repeatedly
+      const active = activeMoveRef.current;
+      if (active?.command === command && active.speed === moveSpeed) return;
+
+      activeMoveRef.current = { command, speed: moveSpeed };
+      sendCommand(command, { speed: moveSpeed });
+    },
+    [sendCommand, speed, onManualInput]
+  );
+
+  const stopActiveMove = useCallback(() => {
+    const active = activeMoveRef.current;
+    if (!active) return false;
+
+    activeMoveRef.current = null;
+    sendCommand(getStopCommand(active.command), { speed: active.speed });
+    return true;
+  }, [sendCommand]);
+
+  const stopPTZMove = useCallback(() => {
+    // The resume delay counts from the end of a held move
+    if (stopActiveMove()) onManualInput?.();
+  }, [stopActiveMove, onManualInput]);
+
+  const runPTZSteps = useCallback(
+    async (steps: PtzStep[]) => {
+      onManualInput?.();
+      for (const { command, holdMs, ...options } of steps) {
+        if (!(await sendCommand(command, options))) return;
+        if (holdMs) {
+          await new Promise((resolve) => setTimeout(resolve, holdMs));
+          if (!(await sendCommand(getStopCommand(command), options))) return;
         }
-      } catch (error) {
-        log.monitorDetail('PTZ command failed', LogLevel.ERROR, { command, error });
-        toast.error(t('monitor_detail.ptz_failed'));
       }
     },
-    [portalUrl, monitorId, accessToken, isContinuous, t]
+    [sendCommand, onManualInput]
   );
 
-  return { handlePTZCommand };
+  // Never leave a camera moving after switching monitors or leaving the page
+  useEffect(() => {
+    return () => {
+      stopActiveMove();
+    };
+  }, [stopActiveMove]);
+
+  return { handlePTZCommand, startPTZMove, stopPTZMove, runPTZSteps };
 }
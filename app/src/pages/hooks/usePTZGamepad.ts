@@ -0,0 +1,75 @@
+/**
+ * Hook for gamepad PTZ control
+ *
+ * While a gamepad is connected, its left stick is polled every animation
+ * frame. Pushing the stick past the deadzone moves the camera in that
+ * direction, faster the further it is pushed, and letting go stops it.
+ */
+
+import { useEffect } from 'react';
+import { readGamepadStick, type PtzDirection } from '../../lib/ptz-input';
+import { log, LogLevel } from '../../lib/logger';
+
+interface UsePTZGamepadOptions {
+  enabled: boolean;
+  allowDiagonal: boolean;
+  onMove: (direction: PtzDirection, speed: number) => void;
+  onStop: () => void;
+}
+
+const getGamepad = (): Gamepad | undefined =>
+  Array.from(navigator.getGamepads()).find((pad): pad is Gamepad => !!pad?.connected);
+
+export function usePTZGamepad({ enabled, allowDiagonal, onMove, onStop }: UsePTZGamepadOptions): void {
+  useEffect(() => {
+    if (!enabled || typeof navigator.getGamepads !== 'function') return;
+
+    let frameId: number | null = null;
+    let current: { direction: PtzDirection; speed: number } | null = null;
+
+    const release = () => {
+      if (!current) return;
+      current = null;
+      onStop();
+    };
+
+    const poll = () => {
+      const pad = getGamepad();
+      if (!pad) {
+        // Disconnected; polling resumes on the next gamepadconnected
+        frameId = null;
+        release();
+        return;
+      }
+
+      const stick = readGamepadStick(pad.axes[0] ?? 0, pad.axes[1] ?? 0, allowDiagonal);
+      if (!stick) {
+        release();
+      } else if (stick.direction !== current?.direction || stick.speed !== current.speed) {
+        current = stick;
+        onMove(stick.direction, stick.speed);
+      }
+      frameId = requestAnimationFrame(poll);
+    };
+
+    const startPolling = () => {
+      if (frameId === null) {
+        frameId = requestAnimationFrame(poll);
+      }
+    };
+
+    const handleConnected = (event: GamepadEvent) => {
+      log.monitorDetail('Gamepad connected for PTZ control', LogLevel.INFO, { id: event.gamepad.id });
+      startPolling();
+    };
+
+    window.addEventListener('gamepadconnected', handleConnected);
+    if (getGamepad()) startPolling();
+
+    return () => {
+      window.removeEventListener('gamepadconnected', handleConnected);
+      if (frameId !== null) cancelAnimationFrame(frameId);
+      release();
+    };
+  }, [enabled, allowDiagonal, onMove, onStop]);
+}
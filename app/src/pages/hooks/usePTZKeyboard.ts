@@ -0,0 +1,82 @@
+/**
+ * Hook for keyboard PTZ control
+ *
+ * Arrow keys and WASD move the camera for as long as they are held. Two keys
+ * held together make a diagonal move when the control supports one. Keys
+ * typed into fields, menus, sliders and dialogs are left alone.
+ */
+
+import { useEffect } from 'react';
+import {
+  combineDirections,
+  isKeyboardControlTarget,
+  PTZ_KEY_DIRECTIONS,
+  type PtzDirection,
+} from '../../lib/ptz-input';
+
+interface UsePTZKeyboardOptions {
+  enabled: boolean;
+  allowDiagonal: boolean;
+  onMove: (direction: PtzDirection) => void;
+  onStop: () => void;
+}
+
+export function usePTZKeyboard({ enabled, allowDiagonal, onMove, onStop }: UsePTZKeyboardOptions): void {
+  useEffect(() => {
+    if (!enabled) return;
+
+    // Held directions in the order they were pressed
+    const held: PtzDirection[] = [];
+    let current: PtzDirection | null = null;
+
+    const update = () => {
+      const direction = combineDirections(held, allowDiagonal);
+      if (direction === current) return;
+
+      current = direction;
+      if (direction) {
+        onMove(direction);
+      } else {
+        onStop();
+      }
+    };
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const direction = PTZ_KEY_DIRECTIONS[event.code];
+      if (!direction || event.altKey || event.ctrlKey || event.metaKey) return;
+      if (isKeyboardControlTarget(event.target)) return;
+
+      event.preventDefault();
+      // Ignore key repeat
+      if (held.includes(direction)) return;
+      held.push(direction);
+      update();
+    };
+
+    const handleKeyUp = (event: KeyboardEvent) => {
+      const direction = PTZ_KEY_DIRECTIONS[event.code];
+      const index = direction ? held.indexOf(direction) : -1;
+      if (index === -1) return;
+
+      held.splice(index, 1);
+      update();
+    };
+
+    // Keys released while the window is in the background never report keyup
+    const handleBlur = () => {
+      held.length = 0;
+      update();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+      if (current) onStop();
+    };
+  }, [enabled, allowDiagonal, onMove, onStop]);
+}
@@ -0,0 +1,182 @@
+/**
+ * Hook for running a PTZ patrol tour
+ *
+ * Visits the monitor's patrol stops in turn with presetGoto, waiting at each
+ * for its dwell time, for as long as the view using the hook is open. A
+ * patrol can be paused by hand, and is paused by manual PTZ input until the
+ * camera has been left alone for a while. A failed command pauses it too, so
+ * an unreachable camera does not report an error at every stop.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useCurrentProfile } from '../../hooks/useCurrentProfile';
+import { usePtzPatrolsStore } from '../../stores/ptzPatrols';
+import {
+  addPatrolStop,
+  EMPTY_PATROL,
+  movePatrolStop,
+  removePatrolStop,
+  updatePatrolStop,
+  type PtzPatrol,
+  type PtzPatrolStop,
+} from '../../lib/ptz-patrol';
+import { log, LogLevel } from '../../lib/logger';
+import { PTZ_PATROL } from '../../lib/zmng-constants';
+import { usePTZControl } from './usePTZControl';
+
+interface UsePTZPatrolOptions {
+  portalUrl: string;
+  monitorId: string;
+  accessToken: string | null;
+  speed: number;
+  /** Whether the monitor can be controlled at all */
+  enabled: boolean;
+}
+
+export interface UsePTZPatrolReturn {
+  patrol: PtzPatrol;
+  /** Whether the patrol is switched on for this monitor */
+  isRunning: boolean;
+  isPaused: boolean;
+  /** Paused by manual PTZ input, resuming by itself */
+  isPausedByInput: boolean;
+  /** Index of the stop being visited, null when not patrolling */
+  currentStop: number | null;
+  start: () => void;
+  stop: () => void;
+  pause: () => void;
+  resume: () => void;
+  pauseForInput: () => void;
+  addStop: (preset: number) => void;
+  updateStop: (index: number, changes: Partial<PtzPatrolStop>) => void;
+  removeStop: (index: number) => void;
+  moveStop: (index: number, offset: -1 | 1) => void;
+  setReturnHome: (returnHome: boolean) => void;
+}
+
+export function usePTZPatrol({
+  portalUrl,
+  monitorId,
+  accessToken,
+  speed,
+  enabled,
+}: UsePTZPatrolOptions): UsePTZPatrolReturn {
+  const { currentProfile } = useCurrentProfile();
+  const profileId = currentProfile?.id;
+
+  const patrol = usePtzPatrolsStore((state) =>
+    profileId ? state.profilePatrols[profileId]?.[monitorId] ?? EMPTY_PATROL : EMPTY_PATROL
+  );
+  const setStoredPatrol = usePtzPatrolsStore((state) => state.setPatrol);
+
+  // Patrol commands are not manual input, so they get their own control
+  const { handlePTZCommand } = usePTZControl({ portalUrl, monitorId, accessToken, speed });
+
+  // Stops visited so far and the pause, both for the monitor they were set on
+  const [visits, setVisits] = useState({ monitorId, count: 0 });
+  const [pause, setPause] = useState<{ monitorId: string; byInput: boolean } | null>(null);
+
+  const stopCount = patrol.stops.length;
+  const isRunning = enabled && patrol.enabled && stopCount > 0;
+  const isPaused = isRunning && pause?.monitorId === monitorId;
+  const isPausedByInput = isPaused && !!pause?.byInput;
+  const visitCount = visits.monitorId === monitorId ? visits.count : 0;
+  const currentStop = isRunning && !isPaused ? visitCount % stopCount : null;
+
+  const stop = currentStop === null ? undefined : patrol.stops[currentStop];
+  const preset = stop?.preset;
+  const dwellSeconds = stop?.dwellSeconds;
+
+  useEffect(() => {
+    if (preset === undefined || dwellSeconds === undefined) return;
+
+    let cancelled = false;
+    handlePTZCommand(`presetGoto${preset}`).then((ok) => {
+      if (!ok && !cancelled) {
+        setPause({ monitorId, byInput: false });
+      }
+    });
+
+    const timer = setTimeout(() => {
+      setVisits({ monitorId, count: visitCount + 1 });
+    }, dwellSeconds * 1000);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [monitorId, preset, dwellSeconds, visitCount, handlePTZCommand]);
+
+  // Resume once the camera has been left alone
+  useEffect(() => {
+    if (!pause?.byInput) return;
+
+    const timer = setTimeout(() => {
+      setPause((current) => (current === pause ? null : current));
+    }, PTZ_PATROL.manualResumeDelay);
+    return () => clearTimeout(timer);
+  }, [pause]);
+
+  // Send the camera home when the view closes or moves to another monitor
+  const goHomeRef = useRef<(() => void) | null>(null);
+  useEffect(() => {
+    goHomeRef.current = isRunning && patrol.returnHome ? () => handlePTZCommand('presetHome') : null;
+  });
+  useEffect(() => {
+    return () => {
+      goHomeRef.current?.();
+    };
+  }, [monitorId]);
+
+  const savePatrol = useCallback(
+    (next: PtzPatrol) => {
+      if (!profileId) return;
+      setStoredPatrol(profileId, monitorId, next);
+    },
+    [profileId, monitorId, setStoredPatrol]
+  );
+
+  const start = useCallback(() => {
+    log.monitorDetail('Starting PTZ patrol', LogLevel.INFO, { monitorId, stops: stopCount });
+    setVisits({ monitorId, count: 0 });
+    setPause(null);
+    savePatrol({ ...patrol, enabled: true });
+  }, [monitorId, stopCount, patrol, savePatrol]);
+
+  const stopPatrol = useCallback(() => {
+    log.monitorDetail('Stopping PTZ patrol', LogLevel.INFO, { monitorId });
+    savePatrol({ ...patrol, enabled: false });
+    if (isRunning && patrol.returnHome) {
+      handlePTZCommand('presetHome');
+    }
+  }, [monitorId, patrol, isRunning, savePatrol, handlePTZCommand]);
+
+  const pausePatrol = useCallback(() => setPause({ monitorId, byInput: false }), [monitorId]);
+
+  const resume = useCallback(() => setPause(null), []);
+
+  // A pause chosen by hand is kept; otherwise each input restarts the delay
+  const pauseForInput = useCallback(() => {
+    setPause((current) =>
+      current?.monitorId === monitorId && !current.byInput ? current : { monitorId, byInput: true }
+    );
+  }, [monitorId]);
+
+  return {
+    patrol,
+    isRunning,
+    isPaused,
+    isPausedByInput,
+    currentStop,
+    start,
+    stop: stopPatrol,
+    pause: pausePatrol,
+    resume,
+    pauseForInput,
+    addStop: (preset) => savePatrol(addPatrolStop(patrol, preset)),
+    updateStop: (index, changes) => savePatrol(updatePatrolStop(patrol, index, changes)),
+    removeStop: (index) => savePatrol(removePatrolStop(patrol, index)),
+    moveStop: (index, offset) => savePatrol(movePatrolStop(patrol, index, offset)),
+    setReturnHome: (returnHome) => savePatrol({ ...patrol, returnHome }),
+  };
+}
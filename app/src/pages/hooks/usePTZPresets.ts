@@ -0,0 +1,160 @@
+/**
+ * Hook for PTZ preset management
+ *
+ * Combines the preset numbers ZoneMinder reports for a control with the
+ * names, thumbnails, order and quick buttons stored for the monitor, and
+ * sends presetGoto/presetSet commands. The preset thumbnail is captured from
+ * the live view once the camera has reached the preset.
+ */
+
+import { useCallback, useEffect, useMemo, useRef, type RefObject } from 'react';
+import { toast } from 'sonner';
+import { useTranslation } from 'react-i18next';
+import type { ZMControl } from '../../api/types';
+import { useCurrentProfile } from '../../hooks/useCurrentProfile';
+import { usePtzPresetsStore } from '../../stores/ptzPresets';
+import {
+  canSetPresets,
+  capturePresetThumbnail,
+  getPresetCount,
+  normalizePresetName,
+  resolvePresets,
+  type PtzPreset,
+} from '../../lib/ptz-presets';
+import { PTZ_PRESETS } from '../../lib/zmng-constants';
+
+const NO_PRESETS: PtzPreset[] = [];
+
+interface UsePTZPresetsOptions {
+  monitorId: string;
+  control: ZMControl | undefined;
+  mediaRef: RefObject<HTMLImageElement | HTMLVideoElement | null>;
+  onCommand: (command: string) => Promise<boolean>;
+}
+
+export interface UsePTZPresetsReturn {
+  presets: PtzPreset[];
+  pinnedPresets: PtzPreset[];
+  canSet: boolean;
+  gotoPreset: (number: number) => Promise<void>;
+  savePreset: (number: number) => Promise<void>;
+  renamePreset: (number: number, name: string) => void;
+  togglePinned: (number: number) => void;
+  movePreset: (number: number, offset: -1 | 1) => void;
+  clearPresets: () => void;
+}
+
+export function usePTZPresets({
+  monitorId,
+  control,
+  mediaRef,
+  onCommand,
+}: UsePTZPresetsOptions): UsePTZPresetsReturn {
+  const { t } = useTranslation();
+  const { currentProfile } = useCurrentProfile();
+  const profileId = currentProfile?.id;
+  const captureTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const count = getPresetCount(control);
+  const canSet = canSetPresets(control);
+
+  const saved = usePtzPresetsStore((state) =>
+    profileId ? state.profilePresets[profileId]?.[monitorId] ?? NO_PRESETS : NO_PRESETS
+  );
+  const updateStoredPreset = usePtzPresetsStore((state) => state.updatePreset);
+  const moveStoredPreset = usePtzPresetsStore((state) => state.movePreset);
+  const clearStoredPresets = usePtzPresetsStore((state) => state.clearPresets);
+
+  const presets = useMemo(() => resolvePresets(saved, count), [saved, count]);
+  const pinnedPresets = useMemo(() => presets.filter((preset) => preset.pinned), [presets]);
+
+  // A pending capture belongs to the monitor it was started on
+  useEffect(() => {
+    return () => {
+      if (captureTimerRef.current) {
+        clearTimeout(captureTimerRef.current);
+        captureTimerRef.current = null;
+      }
+    };
+  }, [monitorId]);
+
+  const captureThumbnail = useCallback(
+    async (number: number) => {
+      if (!profileId || !mediaRef.current) return;
+      const thumbnail = await capturePresetThumbnail(mediaRef.current);
+      if (thumbnail) {
+        updateStoredPreset(profileId, monitorId, count, number, { thumbnail });
+      }
+    },
+    [profileId, monitorId, count, mediaRef, updateStoredPreset]
+  );
+
+  const gotoPreset = useCallback(
+    async (number: number) => {
+      if (!(await onCommand(`presetGoto${number}`))) return;
+
+      // Refresh the thumbnail once the camera has arrived
+      if (captureTimerRef.current) {
+        clearTimeout(captureTimerRef.current);
+      }
+      captureTimerRef.current = setTimeout(() => {
+        captureTimerRef.current = null;
+        captureThumbnail(number);
+      }, PTZ_PRESETS.gotoSettleDelay);
+    },
+    [onCommand, captureThumbnail]
+  );
+
+  const savePreset = useCallback(
+    async (number: number) => {
+      if (!canSet || !(await onCommand(`presetSet${number}`))) return;
+
+      const preset = presets.find((item) => item.number === number);
+      toast.success(t('ptz.preset_saved', { name: preset?.name || t('ptz.preset_number', { number }) }));
+      await captureThumbnail(number);
+    },
+    [canSet, onCommand, presets, captureThumbnail, t]
+  );
+
+  const renamePreset = useCallback(
+    (number: number, name: string) => {
+      if (!profileId) return;
+      updateStoredPreset(profileId, monitorId, count, number, { name: normalizePresetName(name) });
+    },
+    [profileId, monitorId, count, updateStoredPreset]
+  );
+
+  const togglePinned = useCallback(
+    (number: number) => {
+      if (!profileId) return;
+      const preset = presets.find((item) => item.number === number);
+      updateStoredPreset(profileId, monitorId, count, number, { pinned: !preset?.pinned });
+    },
+    [profileId, monitorId, count, presets, updateStoredPreset]
+  );
+
+  const movePreset = useCallback(
+    (number: number, offset: -1 | 1) => {
+      if (!profileId) return;
+      moveStoredPreset(profileId, monitorId, count, number, offset);
+    },
+    [profileId, monitorId, count, moveStoredPreset]
+  );
+
+  const clearPresets = useCallback(() => {
+    if (!profileId) return;
+    clearStoredPresets(profileId, monitorId);
+  }, [profileId, monitorId, clearStoredPresets]);
+
+  return {
+    presets,
+    pinnedPresets,
+    canSet,
+    gotoPreset,
+    savePreset,
+    renamePreset,
+    togglePinned,
+    movePreset,
+    clearPresets,
+  };
+}
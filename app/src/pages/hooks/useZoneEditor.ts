@@ -0,0 +1,268 @@
+/**
+ * Hook for the zone editor
+ *
+ * Holds the zone being edited (an existing zone or a newly drawn one), the
+ * active drawing tool and the vertex selection, and saves or deletes zones
+ * through the zones API. Points are kept in the monitor's original
+ * (unrotated) coordinates; the overlay converts to and from the display.
+ */
+
+import { useCallback, useMemo, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { useTranslation } from 'react-i18next';
+import type { Zone } from '../../api/types';
+import { createZone, deleteZone, updateZone, type ZoneInput } from '../../api/zones';
+import { log, LogLevel } from '../../lib/logger';
+import { ZM_ZONE_CHECK_METHODS } from '../../lib/zm-constants';
+import {
+  formatZoneCoords,
+  getPolygonArea,
+  parseZoneCoords,
+  validateZonePolygon,
+  ZoneValidationError,
+  type Point,
+  type ZoneValidationCode,
+} from '../../lib/zone-utils';
+
+export type ZoneEditorTool = 'select' | 'polygon' | 'rectangle';
+
+export interface ZoneDraft {
+  /** Zone ID, null for a zone that has not been saved yet */
+  id: number | null;
+  fields: Omit<ZoneInput, 'Coords'>;
+  points: Point[];
+}
+
+interface UseZoneEditorOptions {
+  monitorId: string | undefined;
+  /** Monitor image size (original, before rotation) */
+  width: number;
+  height: number;
+}
+
+export interface UseZoneEditorReturn {
+  draft: ZoneDraft | null;
+  tool: ZoneEditorTool;
+  selectedVertex: number | null;
+  /** Points placed so far with the polygon tool */
+  pendingPoints: Point[];
+  /** Problem with the draft polygon, shown before saving */
+  polygonProblem: ZoneValidationCode | null;
+  isSaving: boolean;
+  width: number;
+  height: number;
+  setTool: (tool: ZoneEditorTool) => void;
+  selectZone: (zone: Zone) => void;
+  addPendingPoint: (point: Point) => void;
+  finishPolygon: () => void;
+  createFromPoints: (points: Point[]) => void;
+  moveVertex: (index: number, point: Point) => void;
+  insertVertex: (afterIndex: number, point: Point) => void;
+  removeVertex: (index: number) => void;
+  setSelectedVertex: (index: number | null) => void;
+  updateFields: (fields: Partial<ZoneDraft['fields']>) => void;
+  save: () => Promise<void>;
+  remove: () => Promise<void>;
+  cancel: () => void;
+}
+
+/**
+ * Threshold defaults for a new zone, scaled to its area like ZoneMinder's
+ * "Best, medium sensitivity" preset.
+ */
+function getDefaultZoneFields(name: string, area: number): ZoneDraft['fields'] {
+  const percent = (value: number) => Math.round((area * value) / 100);
+  return {
+    Name: name,
+    Type: 'Active',
+    CheckMethod: ZM_ZONE_CHECK_METHODS.blobs,
+    MinPixelThreshold: 40,
+    MaxPixelThreshold: 0,
+    MinAlarmPixels: percent(3),
+    MaxAlarmPixels: percent(75),
+    FilterX: 3,
+    FilterY: 3,
+    MinFilterPixels: percent(3),
+    MaxFilterPixels: percent(75),
+    MinBlobPixels: percent(2),
+    MaxBlobPixels: 0,
+    MinBlobs: 1,
+    MaxBlobs: 0,
+  };
+}
+
+const zoneToFields = (zone: Zone): ZoneDraft['fields'] => ({
+  Name: zone.Name,
+  Type: zone.Type,
+  CheckMethod: zone.CheckMethod,
+  MinPixelThreshold: zone.MinPixelThreshold,
+  MaxPixelThreshold: zone.MaxPixelThreshold,
+  MinAlarmPixels: zone.MinAlarmPixels,
+  MaxAlarmPixels: zone.MaxAlarmPixels,
+  FilterX: zone.FilterX,
+  FilterY: zone.FilterY,
+  MinFilterPixels: zone.MinFilterPixels,
+  MaxFilterPixels: zone.MaxFilterPixels,
+  MinBlobPixels: zone.MinBlobPixels,
+  MaxBlobPixels: zone.MaxBlobPixels,
+  MinBlobs: zone.MinBlobs,
+  MaxBlobs: zone.MaxBlobs,
+});
+
+export function useZoneEditor({ monitorId, width, height }: UseZoneEditorOptions): UseZoneEditorReturn {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+  const [draft, setDraft] = useState<ZoneDraft | null>(null);
+  const [tool, setToolState] = useState<ZoneEditorTool>('select');
+  const [selectedVertex, setSelectedVertex] = useState<number | null>(null);
+  const [pendingPoints, setPendingPoints] = useState<Point[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const polygonProblem = useMemo(
+    () => (draft ? validateZonePolygon(draft.points, width, height) : null),
+    [draft, width, height]
+  );
+
+  const setTool = useCallback((nextTool: ZoneEditorTool) => {
+    setToolState(nextTool);
+    setPendingPoints([]);
+    setSelectedVertex(null);
+    if (nextTool !== 'select') setDraft(null);
+  }, []);
+
+  const selectZone = useCallback((zone: Zone) => {
+    setDraft({ id: zone.Id, fields: zoneToFields(zone), points: parseZoneCoords(zone.Coords) });
+    setSelectedVertex(null);
+  }, []);
+
+  const createFromPoints = useCallback(
+    (points: Point[]) => {
+      setDraft({
+        id: null,
+        fields: getDefaultZoneFields(t('zone_editor.new_zone_name'), getPolygonArea(points)),
+        points,
+      });
+      setPendingPoints([]);
+      setSelectedVertex(null);
+      setToolState('select');
+    },
+    [t]
+  );
+
+  const addPendingPoint = useCallback((point: Point) => {
+    setPendingPoints((prev) => [...prev, point]);
+  }, []);
+
+  const finishPolygon = useCallback(() => {
+    if (pendingPoints.length >= 3) createFromPoints(pendingPoints);
+  }, [pendingPoints, createFromPoints]);
+
+  const updatePoints = (update: (points: Point[]) => Point[]) => {
+    setDraft((prev) => (prev ? { ...prev, points: update(prev.points) } : prev));
+  };
+
+  const moveVertex = useCallback((index: number, point: Point) => {
+    updatePoints((points) => points.map((p, i) => (i === index ? point : p)));
+  }, []);
+
+  const insertVertex = useCallback((afterIndex: number, point: Point) => {
+    updatePoints((points) => [...points.slice(0, afterIndex + 1), point, ...points.slice(afterIndex + 1)]);
+    setSelectedVertex(afterIndex + 1);
+  }, []);
+
+  const removeVertex = useCallback((index: number) => {
+    // A zone needs at least three points
+    updatePoints((points) => (points.length > 3 ? points.filter((_, i) => i !== index) : points));
+    setSelectedVertex(null);
+  }, []);
+
+  const updateFields = useCallback((fields: Partial<ZoneDraft['fields']>) => {
+    setDraft((prev) => (prev ? { ...prev, fields: { ...prev.fields, ...fields } } : prev));
+  }, []);
+
+  const cancel = useCallback(() => {
+    setDraft(null);
+    setPendingPoints([]);
+    setSelectedVertex(null);
+    setToolState('select');
+  }, []);
+
+  const refreshZones = useCallback(
+    () => queryClient.invalidateQueries({ queryKey: ['zones', monitorId] }),
+    [queryClient, monitorId]
+  );
+
+  const save = useCallback(async () => {
+    if (!draft || !monitorId) return;
+    const zone: ZoneInput = { ...draft.fields, Coords: formatZoneCoords(draft.points) };
+    const bounds = { width, height };
+
+    setIsSaving(true);
+    try {
+      if (draft.id === null) {
+        await createZone(monitorId, zone, bounds);
+      } else {
+        await updateZone(draft.id, zone, bounds);
+      }
+      await refreshZones();
+      setDraft(null);
+      setSelectedVertex(null);
+      toast.success(t('zone_editor.saved', { name: zone.Name.trim() }));
+    } catch (error) {
+      if (error instanceof ZoneValidationError) {
+        toast.error(t(`zone_editor.errors.${error.code}`));
+      } else {
+        log.monitorDetail('Zone save failed', LogLevel.ERROR, { monitorId, zoneId: draft.id, error });
+        toast.error(t('zone_editor.save_failed'));
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  }, [draft, monitorId, width, height, refreshZones, t]);
+
+  const remove = useCallback(async () => {
+    if (!draft) return;
+    if (draft.id === null) {
+      cancel();
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await deleteZone(draft.id);
+      await refreshZones();
+      toast.success(t('zone_editor.deleted', { name: draft.fields.Name }));
+      cancel();
+    } catch (error) {
+      log.monitorDetail('Zone delete failed', LogLevel.ERROR, { monitorId, zoneId: draft.id, error });
+      toast.error(t('zone_editor.delete_failed'));
+    } finally {
+      setIsSaving(false);
+    }
+  }, [draft, monitorId, refreshZones, cancel, t]);
+
+  return {
+    draft,
+    tool,
+    selectedVertex,
+    pendingPoints,
+    polygonProblem,
+    isSaving,
+    width,
+    height,
+    setTool,
+    selectZone,
+    addPendingPoint,
+    finishPolygon,
+    createFromPoints,
+    moveVertex,
+    insertVertex,
+    removeVertex,
+    setSelectedVertex,
+    updateFields,
+    save,
+    remove,
+    cancel,
+  };
+}
@@ -0,0 +1,200 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// --- Mocks (vi.hoisted so they're available in vi.mock factories) ---
+
+const {
+  mockGetMonitors,
+  mockGetDaemonStatus,
+  mockAddEvent,
+  mockGetQueryClient,
+} = vi.hoisted(() => ({
+  mockGetMonitors: vi.fn(),
+  mockGetDaemonStatus: vi.fn(),
+  mockAddEvent: vi.fn(),
+  mockGetQueryClient: vi.fn(),
+}));
+
+vi.mock('../../api/monitors', () => ({
+  getMonitors: mockGetMonitors,
+  getDaemonStatus: mockGetDaemonStatus,
+}));
+
+vi.mock('../../stores/query-cache', () => ({
+  getQueryClient: mockGetQueryClient,
+}));
+
+vi.mock('../../stores/notifications', () => ({
+  useNotificationStore: {
+    getState: () => ({
+      getProfileSettings: () => ({ healthGracePeriod: 30 }),
+      addEvent: mockAddEvent,
+    }),
+  },
+}));
+
+vi.mock('../../stores/settings', () => ({
+  useSettingsStore: {
+    getState: () => ({
+      getProfileSettings: () => ({ bandwidthMode: 'normal' }),
+    }),
+  },
+}));
+
+vi.mock('../../lib/logger', () => ({
+  log: {
+    notifications: vi.fn(),
+  },
+  LogLevel: {
+    DEBUG: 0,
+    INFO: 1,
+    WARN: 2,
+    ERROR: 3,
+    NONE: 4,
+  },
+}));
+
+import { QueryClient } from '@tanstack/react-query';
+import { getHealthWatchdog } from '../healthWatchdog';
+
+// --- Helpers ---
+
+function makeMonitor(status: string, captureFps = '10.00', fn = 'Record') {
+  return {
+    Monitor: { Id: '1', Name: 'Front Door', Function: fn, Enabled: '1' },
+    Monitor_Status: { MonitorId: '1', Status: status, CaptureFPS: captureFps },
+  };
+}
+
+const running = { status: 'ok', statustext: "'zmc -m 1' running since 19/10/26 10:00:00, pid = 123" };
+const notRunning = { status: 'ok', statustext: "'zmc -m 1' not running" };
+
+// Normal bandwidth mode polls status every 20s
+const STATUS_INTERVAL = 20_000;
+
+// --- Tests ---
+
+describe('HealthWatchdogService', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.clearAllMocks();
+
+    mockGetMonitors.mockResolvedValue({ monitors: [makeMonitor('Connected')] });
+    mockGetDaemonStatus.mockResolvedValue(running);
+    mockGetQueryClient.mockReturnValue(null);
+  });
+
+  afterEach(() => {
+    getHealthWatchdog().stop();
+    vi.useRealTimers();
+  });
+
+  it('keeps polling while running', async () => {
+    const watchdog = getHealthWatchdog();
+    watchdog.start('profile-1');
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(watchdog.isRunning()).toBe(true);
+    expect(mockGetMonitors).toHaveBeenCalledTimes(1);
+    expect(mockGetDaemonStatus).toHaveBeenCalledWith('1', 'zmc');
+
+    await vi.advanceTimersByTimeAsync(STATUS_INTERVAL);
+    expect(mockGetMonitors).toHaveBeenCalledTimes(2);
+    expect(mockAddEvent).not.toHaveBeenCalled();
+  });
+
+  it('reuses monitor status the app fetched within the interval', async () => {
+    const queryClient = new QueryClient();
+    mockGetQueryClient.mockReturnValue(queryClient);
+    queryClient.setQueryData(['monitors', 'profile-1'], { monitors: [makeMonitor('NotRunning', '0.00')] });
+
+    getHealthWatchdog().start('profile-1');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(mockGetMonitors).not.toHaveBeenCalled();
+
+    // Nothing refreshed the cache, so the next poll fetches and stores the status
+    await vi.advanceTimersByTimeAsync(STATUS_INTERVAL);
+    expect(mockGetMonitors).toHaveBeenCalledTimes(1);
+    expect(queryClient.getQueryData(['monitors', 'profile-1'])).toEqual({
+      monitors: [makeMonitor('Connected')],
+    });
+    queryClient.clear();
+  });
+
+  it('alerts when a camera stays offline past the grace period, then reports recovery', async () => {
+    mockGetMonitors.mockResolvedValue({ monitors: [makeMonitor('NotRunning', '0.00')] });
+
+    getHealthWatchdog().start('profile-1');
+    await vi.advanceTimersByTimeAsync(0);
+    await vi.advanceTimersByTimeAsync(STATUS_INTERVAL);
+    expect(mockAddEvent).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(STATUS_INTERVAL);
+    expect(mockAddEvent).toHaveBeenCalledTimes(1);
+    expect(mockAddEvent).toHaveBeenCalledWith(
+      'profile-1',
+      expect.objectContaining({
+        MonitorId: 1,
+        MonitorName: 'Front Door',
+        Cause: 'Camera offline',
+        health: { issue: 'offline', status: 'alert', daemon: undefined },
+      }),
+      'health',
+    );
+    expect(mockAddEvent.mock.calls[0][1].EventId).toBeLessThan(0);
+
+    mockGetMonitors.mockResolvedValue({ monitors: [makeMonitor('Connected')] });
+    await vi.advanceTimersByTimeAsync(STATUS_INTERVAL);
+
+    expect(mockAddEvent).toHaveBeenCalledTimes(2);
+    expect(mockAddEvent).toHaveBeenLastCalledWith(
+      'profile-1',
+      expect.objectContaining({ health: { issue: 'offline', status: 'recovered', daemon: undefined } }),
+      'health',
+    );
+    expect(mockAddEvent.mock.calls[1][1].EventId).not.toBe(mockAddEvent.mock.calls[0][1].EventId);
+  });
+
+  it('alerts when the capture daemon is not running', async () => {
+    mockGetDaemonStatus.mockResolvedValue(notRunning);
+
+    getHealthWatchdog().start('profile-1');
+    // Daemons are checked every 30s in normal bandwidth mode
+    await vi.advanceTimersByTimeAsync(0);
+    await vi.advanceTimersByTimeAsync(STATUS_INTERVAL * 2);
+
+    expect(mockAddEvent).toHaveBeenCalledWith(
+      'profile-1',
+      expect.objectContaining({
+        Cause: 'zmc not running',
+        health: { issue: 'daemon', status: 'alert', daemon: 'zmc' },
+      }),
+      'health',
+    );
+  });
+
+  it('ignores a zma daemon that was never seen running', async () => {
+    mockGetMonitors.mockResolvedValue({ monitors: [makeMonitor('Connected', '10.00', 'Modect')] });
+    mockGetDaemonStatus.mockImplementation((_id: string, daemon: string) =>
+      Promise.resolve(daemon === 'zma' ? notRunning : running)
+    );
+
+    getHealthWatchdog().start('profile-1');
+    await vi.advanceTimersByTimeAsync(0);
+    await vi.advanceTimersByTimeAsync(STATUS_INTERVAL * 3);
+
+    expect(mockGetDaemonStatus).toHaveBeenCalledWith('1', 'zma');
+    expect(mockAddEvent).not.toHaveBeenCalled();
+  });
+
+  it('stop() ends polling', async () => {
+    const watchdog = getHealthWatchdog();
+    watchdog.start('profile-1');
+    await vi.advanceTimersByTimeAsync(0);
+
+    watchdog.stop();
+    await vi.advanceTimersByTimeAsync(STATUS_INTERVAL * 2);
+
+    expect(watchdog.isRunning()).toBe(false);
+    expect(mockGetMonitors).toHaveBeenCalledTimes(1);
+  });
+});
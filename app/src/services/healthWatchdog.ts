@@ -0,0 +1,214 @@
+/**
+ * Camera Health Watchdog Service
+ *
+ * Polls monitor status at the bandwidth mode's monitor status interval, and
+ * the zmc/zma daemon status at its daemon check interval. Monitor status is
+ * read through the ['monitors', profileId] query, so the app's own monitor
+ * poll is reused instead of sending a second identical request. Cameras that go
+ * offline, stall at 0 FPS or lose a daemon for longer than the grace period
+ * are added to the notification store as 'health' entries, followed by a
+ * recovery entry when they come back.
+ */
+
+import { getMonitors, getDaemonStatus } from '../api/monitors';
+import type { MonitorData, MonitorsResponse } from '../api/types';
+import { getQueryClient } from '../stores/query-cache';
+import { useNotificationStore } from '../stores/notifications';
+import { useSettingsStore } from '../stores/settings';
+import { getBandwidthSettings } from '../lib/zmng-constants';
+import {
+  describeCameraHealth,
+  evaluateCameraHealth,
+  getExpectedDaemons,
+  isDaemonRunning,
+  isMonitorWatched,
+  observeCameraHealth,
+  type CameraDaemon,
+  type CameraHealthNotice,
+  type CameraHealthState,
+} from '../lib/camera-health';
+import { log, LogLevel } from '../lib/logger';
+
+class HealthWatchdogService {
+  private timerId: ReturnType<typeof setTimeout> | null = null;
+  private profileId: string | null = null;
+  private states: Record<string, CameraHealthState> = {};
+  private deadDaemons = new Map<string, CameraDaemon>();
+  // zma is not used by every ZoneMinder version, so it is only watched once seen running
+  private seenAnalysisDaemons = new Set<string>();
+  private lastDaemonCheck = 0;
+  private lastHealthId = 0;
+
+  /**
+   * Start watching camera health for a profile.
+   */
+  start(profileId: string): void {
+    if (this.timerId) {
+      this.stop();
+    }
+
+    this.profileId = profileId;
+    this._reset();
+
+    log.notifications('Starting camera health watchdog', LogLevel.INFO, { profileId });
+    this._pollAndSchedule();
+  }
+
+  /**
+   * Stop watching.
+   */
+  stop(): void {
+    if (this.timerId) {
+      clearTimeout(this.timerId);
+      this.timerId = null;
+    }
+    this.profileId = null;
+    this._reset();
+
+    log.notifications('Stopped camera health watchdog', LogLevel.INFO);
+  }
+
+  /**
+   * Check if the watchdog is running.
+   */
+  isRunning(): boolean {
+    return this.timerId !== null;
+  }
+
+  private _reset(): void {
+    this.states = {};
+    this.deadDaemons.clear();
+    this.seenAnalysisDaemons.clear();
+    this.lastDaemonCheck = 0;
+  }
+
+  private _getBandwidthSettings() {
+    const settings = useSettingsStore.getState().getProfileSettings(this.profileId!);
+    return getBandwidthSettings(settings.bandwidthMode);
+  }
+
+  private _pollAndSchedule(): void {
+    if (!this.profileId) return;
+
+    this._poll().finally(() => {
+      // Schedule next poll only if still running (not stopped during _poll)
+      if (this.profileId) {
+        this.timerId = setTimeout(
+          () => this._pollAndSchedule(),
+          this._getBandwidthSettings().monitorStatusInterval
+        );
+      }
+    });
+  }
+
+  private async _poll(): Promise<void> {
+    const profileId = this.profileId;
+    if (!profileId) return;
+
+    try {
+      const result = await this._fetchMonitors(profileId);
+      const monitors = result.monitors.filter(isMonitorWatched);
+      const now = Date.now();
+
+      if (now - this.lastDaemonCheck >= this._getBandwidthSettings().daemonCheckInterval) {
+        this.lastDaemonCheck = now;
+        await this._checkDaemons(monitors);
+      }
+
+      // Stopped or switched profile while waiting on the server
+      if (this.profileId !== profileId) return;
+
+      const observations = monitors.map((monitor) =>
+        observeCameraHealth(monitor, this.deadDaemons.get(monitor.Monitor.Id) ?? null)
+      );
+      const gracePeriodMs =
+        useNotificationStore.getState().getProfileSettings(profileId).healthGracePeriod * 1000;
+      const { states, notices } = evaluateCameraHealth(this.states, observations, now, gracePeriodMs);
+
+      this.states = states;
+      notices.forEach((notice) => this._notify(profileId, notice));
+    } catch (error) {
+      log.notifications('Camera health watchdog poll failed', LogLevel.WARN, error);
+    }
+  }
+
+  private _fetchMonitors(profileId: string): Promise<MonitorsResponse> {
+    const queryClient = getQueryClient();
+    if (!queryClient) {
+      return getMonitors();
+    }
+
+    // Status fetched by the app within the last interval is still current
+    return queryClient.fetchQuery({
+      queryKey: ['monitors', profileId],
+      queryFn: getMonitors,
+      staleTime: this._getBandwidthSettings().monitorStatusInterval,
+    });
+  }
+
+  private async _checkDaemons(monitors: MonitorData[]): Promise<void> {
+    const checks = monitors.flatMap((monitor) =>
+      getExpectedDaemons(monitor).map((daemon) => ({ monitorId: monitor.Monitor.Id, daemon }))
+    );
+
+    const results = await Promise.allSettled(
+      checks.map(({ monitorId, daemon }) => getDaemonStatus(monitorId, daemon))
+    );
+
+    this.deadDaemons.clear();
+    results.forEach((result, index) => {
+      // A failed request says nothing about the daemon
+      if (result.status !== 'fulfilled') return;
+
+      const { monitorId, daemon } = checks[index];
+      const analysisKey = `${monitorId}:${daemon}`;
+      if (isDaemonRunning(result.value.statustext)) {
+        if (daemon === 'zma') this.seenAnalysisDaemons.add(analysisKey);
+        return;
+      }
+      if (daemon === 'zma' && !this.seenAnalysisDaemons.has(analysisKey)) return;
+      if (!this.deadDaemons.has(monitorId)) {
+        this.deadDaemons.set(monitorId, daemon);
+      }
+    });
+  }
+
+  private _notify(profileId: string, notice: CameraHealthNotice): void {
+    const { monitorId, monitorName, issue, status, daemon } = notice;
+    const health = { issue, status, daemon };
+
+    // Health entries use negative IDs so they never collide with ZoneMinder events
+    this.lastHealthId = Math.min(-Date.now(), this.lastHealthId - 1);
+
+    log.notifications('Camera health changed', status === 'alert' ? LogLevel.WARN : LogLevel.INFO, {
+      monitorId,
+      monitorName,
+      issue,
+      status,
+      daemon,
+    });
+
+    useNotificationStore.getState().addEvent(
+      profileId,
+      {
+        MonitorId: parseInt(monitorId, 10),
+        MonitorName: monitorName,
+        EventId: this.lastHealthId,
+        Cause: describeCameraHealth(health),
+        Name: monitorName,
+        health,
+      },
+      'health'
+    );
+  }
+}
+
+// Singleton
+let healthWatchdog: HealthWatchdogService | null = null;
+
+export function getHealthWatchdog(): HealthWatchdogService {
+  if (!healthWatchdog) {
+    healthWatchdog = new HealthWatchdogService();
+  }
+  return healthWatchdog;
+}
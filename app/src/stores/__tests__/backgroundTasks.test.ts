@@ -7,6 +7,7 @@
  * - Completing tasks
  * - Failing tasks
  * - Cancelling tasks
+ * - Per-item progress and retrying failed items
  * - Removing tasks
  * - Drawer state management
  */
@@ -224,6 +225,56 @@ describe('Background Tasks Store', () => {
     });
   });
 
+  describe('Multi-item Tasks', () => {
+    it('should derive progress from processed items', () => {
+      const { addTask, updateItems } = useBackgroundTasks.getState();
+
+      const taskId = addTask({
+        type: 'bulk',
+        metadata: { title: 'Archive 4 events' },
+        items: { total: 4, succeeded: 0, failed: [] },
+      });
+
+      updateItems(taskId, { total: 4, succeeded: 2, failed: [{ id: '9', error: 'Forbidden' }] });
+
+      const task = useBackgroundTasks.getState().tasks[0];
+      expect(task.status).toBe('in_progress');
+      expect(task.progress).toBe(75);
+      expect(task.items?.failed).toEqual([{ id: '9', error: 'Forbidden' }]);
+    });
+
+    it('should replace a failed task with its retry', () => {
+      const { addTask, failTask, retryTask } = useBackgroundTasks.getState();
+      const retryFn = vi.fn();
+
+      const taskId = addTask({
+        type: 'bulk',
+        metadata: { title: 'Archive 4 events' },
+        retryFn,
+      });
+      failTask(taskId, new Error('1 of 4 items failed'));
+
+      retryTask(taskId);
+
+      expect(retryFn).toHaveBeenCalledOnce();
+      expect(useBackgroundTasks.getState().tasks).toHaveLength(0);
+    });
+
+    it('should ignore retry for tasks without a retry function', () => {
+      const { addTask, failTask, retryTask } = useBackgroundTasks.getState();
+
+      const taskId = addTask({
+        type: 'download',
+        metadata: { title: 'test.mp4' },
+      });
+      failTask(taskId, new Error('Network error'));
+
+      retryTask(taskId);
+
+      expect(useBackgroundTasks.getState().tasks).toHaveLength(1);
+    });
+  });
+
   describe('Removing Tasks', () => {
     it('should remove a task', () => {
       const { addTask, removeTask } = useBackgroundTasks.getState();
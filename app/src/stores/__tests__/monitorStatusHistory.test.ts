@@ -0,0 +1,66 @@
+import { describe, expect, it, beforeEach } from 'vitest';
+import { useMonitorStatusHistoryStore } from '../monitorStatusHistory';
+import type { MonitorData } from '../../api/types';
+
+const monitorData = (id: string, captureFps: string | null): MonitorData =>
+  ({
+    Monitor: { Id: id, Name: `Camera ${id}` },
+    Monitor_Status: { MonitorId: id, Status: 'Connected', CaptureFPS: captureFps },
+  }) as unknown as MonitorData;
+
+describe('MonitorStatusHistory Store', () => {
+  beforeEach(() => {
+    useMonitorStatusHistoryStore.setState({ profileHistory: {} });
+    localStorage.clear();
+  });
+
+  it('records a sample per monitor and profile', () => {
+    const { recordStatuses, getSamples } = useMonitorStatusHistoryStore.getState();
+
+    recordStatuses('profile-1', [monitorData('1', '10.00'), monitorData('2', '5.00')], 1000);
+    recordStatuses('profile-1', [monitorData('1', '9.50'), monitorData('2', '5.00')], 2000);
+
+    expect(getSamples('profile-1', '1').map((sample) => sample.captureFps)).toEqual([10, 9.5]);
+    expect(getSamples('profile-1', '2')).toHaveLength(2);
+    expect(getSamples('profile-2', '1')).toEqual([]);
+  });
+
+  it('skips monitors without status values', () => {
+    const { recordStatuses, getSamples } = useMonitorStatusHistoryStore.getState();
+
+    recordStatuses('profile-1', [monitorData('1', null)], 1000);
+
+    expect(getSamples('profile-1', '1')).toEqual([]);
+  });
+
+  it('drops monitors that stopped reporting a day ago', () => {
+    const { recordStatuses, getSamples } = useMonitorStatusHistoryStore.getState();
+
+    recordStatuses('profile-1', [monitorData('1', '10'), monitorData('2', '10')], 1000);
+    recordStatuses('profile-1', [monitorData('1', '10')], 1000 + 25 * 60 * 60 * 1000);
+
+    expect(getSamples('profile-1', '1')).toHaveLength(1);
+    expect(useMonitorStatusHistoryStore.getState().profileHistory['profile-1']).not.toHaveProperty('2');
+  });
+
+  it('clears the history of one monitor', () => {
+    const { recordStatuses, clearMonitorHistory, getSamples } = useMonitorStatusHistoryStore.getState();
+
+    recordStatuses('profile-1', [monitorData('1', '10'), monitorData('2', '10')], 1000);
+    clearMonitorHistory('profile-1', '1');
+
+    expect(getSamples('profile-1', '1')).toEqual([]);
+    expect(getSamples('profile-1', '2')).toHaveLength(1);
+  });
+
+  it('writes the history to storage when the app is closed, not on every poll', () => {
+    const { recordStatuses } = useMonitorStatusHistoryStore.getState();
+
+    recordStatuses('profile-1', [monitorData('1', '10.00')], 1000);
+    expect(localStorage.getItem('zmng-monitor-status-history')).toBeNull();
+
+    window.dispatchEvent(new Event('pagehide'));
+    const stored = JSON.parse(localStorage.getItem('zmng-monitor-status-history') ?? '{}');
+    expect(stored.state.profileHistory['profile-1']['1']).toHaveLength(1);
+  });
+});
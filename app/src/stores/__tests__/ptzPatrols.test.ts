@@ -0,0 +1,33 @@
+import { describe, expect, it, beforeEach } from 'vitest';
+import { usePtzPatrolsStore } from '../ptzPatrols';
+import { EMPTY_PATROL } from '../../lib/ptz-patrol';
+
+const patrol = { stops: [{ preset: 1, dwellSeconds: 20 }], returnHome: true, enabled: true };
+
+describe('PtzPatrols Store', () => {
+  beforeEach(() => {
+    usePtzPatrolsStore.setState({ profilePatrols: {} });
+    localStorage.clear();
+  });
+
+  it('stores patrols per monitor and profile', () => {
+    const { setPatrol, getPatrol } = usePtzPatrolsStore.getState();
+
+    setPatrol('profile-1', '1', patrol);
+
+    expect(getPatrol('profile-1', '1')).toEqual(patrol);
+    expect(getPatrol('profile-1', '2')).toBe(EMPTY_PATROL);
+    expect(getPatrol('profile-2', '1')).toBe(EMPTY_PATROL);
+  });
+
+  it('clears the patrol of one monitor', () => {
+    const { setPatrol, clearPatrol, getPatrol } = usePtzPatrolsStore.getState();
+
+    setPatrol('profile-1', '1', patrol);
+    setPatrol('profile-1', '2', patrol);
+    clearPatrol('profile-1', '1');
+
+    expect(getPatrol('profile-1', '1')).toBe(EMPTY_PATROL);
+    expect(getPatrol('profile-1', '2')).toEqual(patrol);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it, beforeEach } from 'vitest';
+import { usePtzPresetsStore } from '../ptzPresets';
+
+describe('PtzPresets Store', () => {
+  beforeEach(() => {
+    usePtzPresetsStore.setState({ profilePresets: {} });
+    localStorage.clear();
+  });
+
+  it('stores preset names per monitor and profile', () => {
+    const { updatePreset, getPresets } = usePtzPresetsStore.getState();
+
+    updatePreset('profile-1', '1', 3, 2, { name: 'Gate' });
+
+    expect(getPresets('profile-1', '1')).toEqual([{ number: 1 }, { number: 2, name: 'Gate' }, { number: 3 }]);
+    expect(getPresets('profile-1', '2')).toEqual([]);
+    expect(getPresets('profile-2', '1')).toEqual([]);
+  });
+
+  it('keeps the order presets were moved into', () => {
+    const { movePreset, updatePreset, getPresets } = usePtzPresetsStore.getState();
+
+    movePreset('profile-1', '1', 3, 3, -1);
+    movePreset('profile-1', '1', 3, 3, -1);
+    updatePreset('profile-1', '1', 3, 1, { pinned: true });
+
+    expect(getPresets('profile-1', '1')).toEqual([{ number: 3 }, { number: 1, pinned: true }, { number: 2 }]);
+  });
+
+  it('clears the presets of one monitor', () => {
+    const { updatePreset, clearPresets, getPresets } = usePtzPresetsStore.getState();
+
+    updatePreset('profile-1', '1', 2, 1, { name: 'Gate' });
+    updatePreset('profile-1', '2', 2, 1, { name: 'Drive' });
+    clearPresets('profile-1', '1');
+
+    expect(getPresets('profile-1', '1')).toEqual([]);
+    expect(getPresets('profile-1', '2')).toHaveLength(2);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it, beforeEach } from 'vitest';
+import { useSavedSearchesStore } from '../savedSearches';
+import type { SavedEventSearchInput } from '../../lib/saved-searches';
+
+const makeInput = (overrides: Partial<SavedEventSearchInput> = {}): SavedEventSearchInput => ({
+  name: 'Driveway',
+  monitorIds: ['1'],
+  tagIds: [],
+  dateRange: { type: 'relative', hours: 24 },
+  favoritesOnly: false,
+  advanced: {},
+  ...overrides,
+});
+
+describe('SavedSearches Store', () => {
+  beforeEach(() => {
+    useSavedSearchesStore.setState({ profileSearches: {} });
+    localStorage.clear();
+  });
+
+  describe('addSearch', () => {
+    it('stores a search with an ID and timestamps', () => {
+      const { addSearch, getSearches } = useSavedSearchesStore.getState();
+      const search = addSearch('profile-1', makeInput({ name: '  Driveway  ' }));
+
+      expect(search.id).toBeTruthy();
+      expect(search.name).toBe('Driveway');
+      expect(search.createdAt).toBeTruthy();
+      expect(getSearches('profile-1')).toEqual([search]);
+    });
+
+    it('keeps searches separate per profile', () => {
+      const { addSearch, getSearches } = useSavedSearchesStore.getState();
+      addSearch('profile-1', makeInput({ name: 'A' }));
+      addSearch('profile-2', makeInput({ name: 'B' }));
+
+      expect(getSearches('profile-1').map((s) => s.name)).toEqual(['A']);
+      expect(getSearches('profile-2').map((s) => s.name)).toEqual(['B']);
+    });
+  });
+
+  describe('updateSearch', () => {
+    it('updates filters and keeps the ID', () => {
+      const { addSearch, updateSearch, getSearch } = useSavedSearchesStore.getState();
+      const search = addSearch('profile-1', makeInput());
+
+      updateSearch('profile-1', search.id, { favoritesOnly: true, monitorIds: ['2', '3'] });
+
+      const updated = getSearch('profile-1', search.id);
+      expect(updated?.favoritesOnly).toBe(true);
+      expect(updated?.monitorIds).toEqual(['2', '3']);
+      expect(updated?.createdAt).toBe(search.createdAt);
+    });
+
+    it('ignores unknown searches', () => {
+      const { updateSearch, getSearches } = useSavedSearchesStore.getState();
+      updateSearch('profile-1', 'missing', { name: 'X' });
+      expect(getSearches('profile-1')).toEqual([]);
+    });
+  });
+
+  describe('removeSearch', () => {
+    it('removes only the given search', () => {
+      const { addSearch, removeSearch, getSearches } = useSavedSearchesStore.getState();
+      const a = addSearch('profile-1', makeInput({ name: 'A' }));
+      addSearch('profile-1', makeInput({ name: 'B' }));
+
+      removeSearch('profile-1', a.id);
+
+      expect(getSearches('profile-1').map((s) => s.name)).toEqual(['B']);
+    });
+  });
+
+  describe('importSearches', () => {
+    it('adds new searches and replaces searches with the same name', () => {
+      const { addSearch, importSearches, getSearches } = useSavedSearchesStore.getState();
+      const existing = addSearch('profile-1', makeInput({ name: 'Driveway' }));
+
+      const count = importSearches('profile-1', [
+        makeInput({ name: 'driveway', favoritesOnly: true }),
+        makeInput({ name: 'Garden' }),
+      ]);
+
+      const searches = getSearches('profile-1');
+      expect(count).toBe(2);
+      expect(searches).toHaveLength(2);
+      expect(searches[0].id).toBe(existing.id);
+      expect(searches[0].favoritesOnly).toBe(true);
+      expect(searches[1].name).toBe('Garden');
+    });
+
+    it('returns 0 for an empty import', () => {
+      const { importSearches } = useSavedSearchesStore.getState();
+      expect(importSearches('profile-1', [])).toBe(0);
+    });
+  });
+});
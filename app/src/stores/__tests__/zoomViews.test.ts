@@ -0,0 +1,58 @@
+import { describe, expect, it, beforeEach } from 'vitest';
+import { useZoomViewsStore } from '../zoomViews';
+
+const crop = { x: 0.25, y: 0.25, scale: 2 };
+
+describe('ZoomViews Store', () => {
+  beforeEach(() => {
+    useZoomViewsStore.setState({ profileZoom: {} });
+    localStorage.clear();
+  });
+
+  it('saves views per monitor and profile', () => {
+    const { saveView, getViews } = useZoomViewsStore.getState();
+
+    const view = saveView('profile-1', '1', 'Driveway', crop);
+
+    expect(view).toMatchObject({ name: 'Driveway', crop });
+    expect(getViews('profile-1', '1')).toEqual([view]);
+    expect(getViews('profile-1', '2')).toEqual([]);
+    expect(getViews('profile-2', '1')).toEqual([]);
+  });
+
+  it('keeps the live zoom next to the saved views', () => {
+    const { saveView, setCrop } = useZoomViewsStore.getState();
+
+    const view = saveView('profile-1', '1', 'Driveway', crop);
+    setCrop('profile-1', '1', { x: 0, y: 0, scale: 1 });
+
+    expect(useZoomViewsStore.getState().profileZoom['profile-1']['1']).toEqual({
+      crop: { x: 0, y: 0, scale: 1 },
+      views: [view],
+    });
+  });
+
+  it('keeps the zoom of recorded events apart from the live zoom', () => {
+    const { setCrop } = useZoomViewsStore.getState();
+
+    setCrop('profile-1', '1', crop, 'recorded');
+    setCrop('profile-1', '1', { x: 0, y: 0, scale: 1 });
+
+    expect(useZoomViewsStore.getState().profileZoom['profile-1']['1']).toEqual({
+      crop: { x: 0, y: 0, scale: 1 },
+      recordedCrop: crop,
+      views: [],
+    });
+  });
+
+  it('updates and removes one view', () => {
+    const { saveView, updateView, removeView, getViews } = useZoomViewsStore.getState();
+
+    const first = saveView('profile-1', '1', 'Driveway', crop);
+    const second = saveView('profile-1', '1', 'Gate', crop);
+    updateView('profile-1', '1', second.id, { montage: true });
+    removeView('profile-1', '1', first.id);
+
+    expect(getViews('profile-1', '1')).toEqual([{ ...second, montage: true }]);
+  });
+});
@@ -1,9 +1,22 @@
 import { create } from 'zustand';
 
-export type TaskType = 'download' | 'upload' | 'sync' | 'export';
+export type TaskType = 'download' | 'upload' | 'sync' | 'export' | 'bulk';
 
 export type TaskStatus = 'pending' | 'in_progress' | 'completed' | 'failed' | 'cancelled';
 
+/** An item of a multi-item task that could not be processed */
+export interface BackgroundTaskItemFailure {
+  id: string;
+  error: string;
+}
+
+/** Per-item progress for tasks that process a list of items (e.g. bulk event actions) */
+export interface BackgroundTaskItems {
+  total: number;
+  succeeded: number;
+  failed: BackgroundTaskItemFailure[];
+}
+
 export interface BackgroundTask {
   id: string;
   type: TaskType;
@@ -22,6 +35,10 @@ export interface BackgroundTask {
   completedAt?: number;
   // For cancellable tasks
   cancelFn?: () => void;
+  // For multi-item tasks
+  items?: BackgroundTaskItems;
+  // Re-runs only the failed items of a multi-item task
+  retryFn?: () => void;
 }
 
 interface BackgroundTasksState {
@@ -31,9 +48,11 @@ interface BackgroundTasksState {
   // Actions
   addTask: (task: Omit<BackgroundTask, 'id' | 'createdAt' | 'status' | 'progress'>) => string;
   updateProgress: (taskId: string, progress: number, bytesProcessed?: number) => void;
+  updateItems: (taskId: string, items: BackgroundTaskItems) => void;
   completeTask: (taskId: string) => void;
   failTask: (taskId: string, error: Error) => void;
   cancelTask: (taskId: string) => void;
+  retryTask: (taskId: string) => void;
   removeTask: (taskId: string) => void;
   clearCompleted: () => void;
   setDrawerState: (state: 'hidden' | 'badge' | 'collapsed' | 'expanded') => void;
@@ -85,6 +104,23 @@ export const useBackgroundTasks = create<BackgroundTasksState>((set, get) => ({
     }));
   },
 
+  updateItems: (taskId, items) => {
+    const processed = items.succeeded + items.failed.length;
+    const progress = items.total > 0 ? Math.round((processed / items.total) * 100) : 100;
+    set((state) => ({
+      tasks: state.tasks.map((task) =>
+        task.id === taskId
+          ? {
+              ...task,
+              status: 'in_progress',
+              progress: Math.min(100, Math.max(0, progress)),
+              items,
+            }
+          : task
+      ),
+    }));
+  },
+
   completeTask: (taskId) => {
     set((state) => ({
       tasks: state.tasks.map((task) =>
@@ -140,6 +176,15 @@ export const useBackgroundTasks = create<BackgroundTasksState>((set, get) => ({
     }));
   },
 
+  retryTask: (taskId) => {
+    const task = get().tasks.find((t) => t.id === taskId);
+    if (!task?.retryFn) return;
+
+    // The retry runs as a new task, so drop the failed one
+    get().removeTask(taskId);
+    task.retryFn();
+  },
+
   removeTask: (taskId) => {
     set((state) => ({
       tasks: state.tasks.filter((task) => task.id !== taskId),
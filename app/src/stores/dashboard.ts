@@ -24,7 +24,10 @@ export interface DashboardWidget {
         monitorId?: string;
         monitorIds?: string[];
         feedFit?: MonitorFeedFit;
+        zoomViews?: Record<string, string>; // Saved zoom view shown by monitor widgets, per monitor ID
         eventCount?: number;
+        savedSearchId?: string; // Saved event search shown by events widgets
+        groupIncidents?: boolean; // Events widgets show incidents instead of single events
         showThumbnails?: boolean;
         refreshInterval?: number; // in milliseconds
         autoRefresh?: boolean;
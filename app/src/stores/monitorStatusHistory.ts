@@ -0,0 +1,137 @@
+/**
+ * Monitor Status History Store
+ *
+ * Keeps a bounded history of capture FPS, analysis FPS and bandwidth for each
+ * monitor, scoped by profile for multi-server support. Samples are recorded
+ * from the monitor status polls and persisted, so trends survive restarts.
+ * Polls arrive every few seconds, so the history is written to localStorage
+ * at most once a minute, and when the app is hidden or closed.
+ */
+
+import { create } from 'zustand';
+import { createJSONStorage, persist, type PersistStorage, type StorageValue } from 'zustand/middleware';
+import { log, LogLevel } from '../lib/logger';
+import type { MonitorData } from '../api/types';
+import {
+  appendStatusSample,
+  createStatusSample,
+  pruneStatusHistory,
+  type MonitorStatusHistory,
+  type MonitorStatusSample,
+} from '../lib/monitor-status-history';
+
+interface MonitorStatusHistoryState {
+  // History per profile ID
+  profileHistory: Record<string, MonitorStatusHistory>;
+
+  // Record one status poll of all monitors
+  recordStatuses: (profileId: string, monitors: MonitorData[], time?: number) => void;
+
+  // Get the samples of a monitor, oldest first
+  getSamples: (profileId: string, monitorId: string) => MonitorStatusSample[];
+
+  // Clear the history of one monitor
+  clearMonitorHistory: (profileId: string, monitorId: string) => void;
+}
+
+const PERSIST_DELAY_MS = 60 * 1000;
+
+/**
+ * localStorage that keeps only the latest write and stores it after a delay.
+ */
+function createDeferredStorage<S>(): PersistStorage<S> | undefined {
+  const storage = createJSONStorage<S>(() => localStorage);
+  if (!storage) {
+    return undefined;
+  }
+
+  let pending: { name: string; value: StorageValue<S> } | null = null;
+  let timerId: ReturnType<typeof setTimeout> | null = null;
+
+  const flush = () => {
+    if (timerId) {
+      clearTimeout(timerId);
+      timerId = null;
+    }
+    if (pending) {
+      storage.setItem(pending.name, pending.value);
+      pending = null;
+    }
+  };
+
+  if (typeof window !== 'undefined') {
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') flush();
+    });
+    window.addEventListener('pagehide', flush);
+  }
+
+  return {
+    getItem: (name) => storage.getItem(name),
+    setItem: (name, value) => {
+      pending = { name, value };
+      timerId ??= setTimeout(flush, PERSIST_DELAY_MS);
+    },
+    removeItem: (name) => {
+      pending = null;
+      storage.removeItem(name);
+    },
+  };
+}
+
+export const useMonitorStatusHistoryStore = create<MonitorStatusHistoryState>()(
+  persist(
+    (set, get) => ({
+      profileHistory: {},
+
+      recordStatuses: (profileId, monitors, time = Date.now()) => {
+        set((state) => {
+          // Also drops monitors that have not reported for a while
+          const history = pruneStatusHistory(state.profileHistory[profileId] || {}, time);
+
+          monitors.forEach(({ Monitor, Monitor_Status }) => {
+            const sample = createStatusSample(Monitor_Status, time);
+            if (sample) {
+              history[Monitor.Id] = appendStatusSample(history[Monitor.Id] || [], sample);
+            }
+          });
+
+          return {
+            profileHistory: {
+              ...state.profileHistory,
+              [profileId]: history,
+            },
+          };
+        });
+      },
+
+      getSamples: (profileId, monitorId) => {
+        return get().profileHistory[profileId]?.[monitorId] || [];
+      },
+
+      clearMonitorHistory: (profileId, monitorId) => {
+        set((state) => {
+          const history = state.profileHistory[profileId];
+          if (!history?.[monitorId]) {
+            return state;
+          }
+
+          log.monitor('Cleared monitor status history', LogLevel.INFO, { profileId, monitorId });
+
+          const remaining = { ...history };
+          delete remaining[monitorId];
+          return {
+            profileHistory: {
+              ...state.profileHistory,
+              [profileId]: remaining,
+            },
+          };
+        });
+      },
+    }),
+    {
+      name: 'zmng-monitor-status-history',
+      storage: createDeferredStorage<MonitorStatusHistoryState>(),
+    }
+  )
+);
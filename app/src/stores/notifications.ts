@@ -13,6 +13,7 @@ import {
 import { log, LogLevel } from '../lib/logger';
 import { getAppVersion } from '../lib/version';
 import { updateNotification } from '../api/notifications';
+import type { CameraHealthDetails } from '../lib/camera-health';
 
 export interface NotificationSettings {
   enabled: boolean;
@@ -26,6 +27,8 @@ export interface NotificationSettings {
   onlyDetectedEvents: boolean; // Only notify for events with object detection results (direct mode)
   pollingInterval: number; // Seconds between event polls in direct mode (desktop)
   showToasts: boolean; // Show toast notifications for events
+  healthAlerts: boolean; // Alert when cameras go offline, stall or lose a daemon (client-side)
+  healthGracePeriod: number; // Seconds a camera problem must last before alerting
   playSound: boolean; // Play sound on notification
   badgeCount: number; // Current unread count
 }
@@ -36,12 +39,13 @@ export interface MonitorNotificationConfig {
   checkInterval: number; // Seconds between checks (60, 120, etc.)
 }
 
-export type NotificationSource = 'websocket' | 'push' | 'poll';
+export type NotificationSource = 'websocket' | 'push' | 'poll' | 'health';
 
 export interface NotificationEvent extends ZMAlarmEvent {
   receivedAt: number; // Timestamp when received
   read: boolean; // Whether user has seen it
   source: NotificationSource; // How the event was delivered
+  health?: CameraHealthDetails; // Camera health alert or recovery (EventId is synthetic and negative)
 }
 
 interface NotificationState {
@@ -71,7 +75,11 @@ interface NotificationState {
   reconnect: () => Promise<void>;
 
   // Actions - Events
-  addEvent: (profileId: string, event: ZMAlarmEvent, source?: NotificationSource) => void;
+  addEvent: (
+    profileId: string,
+    event: ZMAlarmEvent & Pick<NotificationEvent, 'health'>,
+    source?: NotificationSource
+  ) => void;
   markEventRead: (profileId: string, eventId: number) => void;
   markAllRead: (profileId: string) => void;
   clearEvents: (profileId: string) => void;
@@ -105,6 +113,8 @@ const DEFAULT_SETTINGS: NotificationSettings = {
   onlyDetectedEvents: false,
   pollingInterval: 30,
   showToasts: true,
+  healthAlerts: true,
+  healthGracePeriod: 60,
   playSound: false,
   badgeCount: 0,
 };
@@ -309,7 +319,7 @@ export const useNotificationStore = create<NotificationState>()(
        * Events can come from WebSocket (when connected) or FCM push notifications
        * Duplicate prevention: if an event with the same ID already exists, it will be replaced
        */
-      addEvent: (profileId: string, event: ZMAlarmEvent, source: NotificationSource = 'websocket') => {
+      addEvent: (profileId, event, source = 'websocket') => {
         log.notifications('Adding notification event', LogLevel.INFO, { profileId,
           monitor: event.MonitorName,
           eventId: event.EventId,
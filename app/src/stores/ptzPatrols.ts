@@ -0,0 +1,73 @@
+/**
+ * PTZ Patrols Store
+ *
+ * Keeps the patrol tour of each monitor, scoped by profile for multi-server
+ * support. Only the tour itself is stored; where a running patrol is in its
+ * tour belongs to the view running it.
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { log, LogLevel } from '../lib/logger';
+import { EMPTY_PATROL, type PtzPatrol } from '../lib/ptz-patrol';
+
+interface PtzPatrolsState {
+  // Patrols per profile ID, then per monitor ID
+  profilePatrols: Record<string, Record<string, PtzPatrol>>;
+
+  // Get the patrol of a monitor
+  getPatrol: (profileId: string, monitorId: string) => PtzPatrol;
+
+  // Replace the patrol of a monitor
+  setPatrol: (profileId: string, monitorId: string, patrol: PtzPatrol) => void;
+
+  // Forget the patrol of a monitor
+  clearPatrol: (profileId: string, monitorId: string) => void;
+}
+
+export const usePtzPatrolsStore = create<PtzPatrolsState>()(
+  persist(
+    (set, get) => ({
+      profilePatrols: {},
+
+      getPatrol: (profileId, monitorId) => {
+        return get().profilePatrols[profileId]?.[monitorId] || EMPTY_PATROL;
+      },
+
+      setPatrol: (profileId, monitorId, patrol) => {
+        set((state) => ({
+          profilePatrols: {
+            ...state.profilePatrols,
+            [profileId]: {
+              ...state.profilePatrols[profileId],
+              [monitorId]: patrol,
+            },
+          },
+        }));
+      },
+
+      clearPatrol: (profileId, monitorId) => {
+        set((state) => {
+          const patrols = state.profilePatrols[profileId];
+          if (!patrols?.[monitorId]) {
+            return state;
+          }
+
+          log.monitor('Cleared PTZ patrol', LogLevel.INFO, { profileId, monitorId });
+
+          const remaining = { ...patrols };
+          delete remaining[monitorId];
+          return {
+            profilePatrols: {
+              ...state.profilePatrols,
+              [profileId]: remaining,
+            },
+          };
+        });
+      },
+    }),
+    {
+      name: 'zmng-ptz-patrols',
+    }
+  )
+);
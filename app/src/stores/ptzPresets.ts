@@ -0,0 +1,94 @@
+/**
+ * PTZ Presets Store
+ *
+ * Keeps the names, thumbnails, order and quick buttons of each monitor's PTZ
+ * presets, scoped by profile for multi-server support. ZoneMinder itself only
+ * knows preset numbers, so this is the only place the labels live.
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { log, LogLevel } from '../lib/logger';
+import { movePreset, resolvePresets, updatePreset, type PtzPreset } from '../lib/ptz-presets';
+
+interface PtzPresetsState {
+  // Presets per profile ID, then per monitor ID, in display order
+  profilePresets: Record<string, Record<string, PtzPreset[]>>;
+
+  // Get the saved presets of a monitor
+  getPresets: (profileId: string, monitorId: string) => PtzPreset[];
+
+  // Change one preset; count is the number of presets the camera supports
+  updatePreset: (
+    profileId: string,
+    monitorId: string,
+    count: number,
+    number: number,
+    changes: Partial<Omit<PtzPreset, 'number'>>
+  ) => void;
+
+  // Move a preset up (-1) or down (+1)
+  movePreset: (profileId: string, monitorId: string, count: number, number: number, offset: -1 | 1) => void;
+
+  // Forget all preset names and thumbnails of a monitor
+  clearPresets: (profileId: string, monitorId: string) => void;
+}
+
+export const usePtzPresetsStore = create<PtzPresetsState>()(
+  persist(
+    (set, get) => {
+      const setMonitorPresets = (profileId: string, monitorId: string, presets: PtzPreset[]) => {
+        set((state) => ({
+          profilePresets: {
+            ...state.profilePresets,
+            [profileId]: {
+              ...state.profilePresets[profileId],
+              [monitorId]: presets,
+            },
+          },
+        }));
+      };
+
+      return {
+        profilePresets: {},
+
+        getPresets: (profileId, monitorId) => {
+          return get().profilePresets[profileId]?.[monitorId] || [];
+        },
+
+        updatePreset: (profileId, monitorId, count, number, changes) => {
+          const presets = resolvePresets(get().getPresets(profileId, monitorId), count);
+          setMonitorPresets(profileId, monitorId, updatePreset(presets, number, changes));
+        },
+
+        movePreset: (profileId, monitorId, count, number, offset) => {
+          const presets = resolvePresets(get().getPresets(profileId, monitorId), count);
+          setMonitorPresets(profileId, monitorId, movePreset(presets, number, offset));
+        },
+
+        clearPresets: (profileId, monitorId) => {
+          set((state) => {
+            const presets = state.profilePresets[profileId];
+            if (!presets?.[monitorId]) {
+              return state;
+            }
+
+            log.monitor('Cleared PTZ presets', LogLevel.INFO, { profileId, monitorId });
+
+            const remaining = { ...presets };
+            delete remaining[monitorId];
+            return {
+              profilePresets: {
+                ...state.profilePresets,
+                [profileId]: remaining,
+              },
+            };
+          });
+        },
+      };
+    },
+    {
+      name: 'zmng-ptz-presets',
+    }
+  )
+);
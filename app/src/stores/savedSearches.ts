@@ -0,0 +1,153 @@
+/**
+ * Saved Searches Store
+ *
+ * Manages named event searches per profile.
+ * Searches are scoped by profile because monitor and tag IDs are server specific.
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { log, LogLevel } from '../lib/logger';
+import type { SavedEventSearch, SavedEventSearchInput } from '../lib/saved-searches';
+
+interface SavedSearchesState {
+  // Saved searches per profile ID
+  profileSearches: Record<string, SavedEventSearch[]>;
+
+  // Get all saved searches for a profile
+  getSearches: (profileId: string) => SavedEventSearch[];
+
+  // Get a saved search by ID
+  getSearch: (profileId: string, searchId: string) => SavedEventSearch | undefined;
+
+  // Save a new search, returns the stored search
+  addSearch: (profileId: string, input: SavedEventSearchInput) => SavedEventSearch;
+
+  // Update the name or filters of a search
+  updateSearch: (profileId: string, searchId: string, updates: Partial<SavedEventSearchInput>) => void;
+
+  // Delete a search
+  removeSearch: (profileId: string, searchId: string) => void;
+
+  // Add imported searches; a search with the same name is replaced. Returns the number stored.
+  importSearches: (profileId: string, inputs: SavedEventSearchInput[]) => number;
+}
+
+export const useSavedSearchesStore = create<SavedSearchesState>()(
+  persist(
+    (set, get) => ({
+      profileSearches: {},
+
+      getSearches: (profileId) => {
+        return get().profileSearches[profileId] || [];
+      },
+
+      getSearch: (profileId, searchId) => {
+        return get().profileSearches[profileId]?.find((search) => search.id === searchId);
+      },
+
+      addSearch: (profileId, input) => {
+        const now = new Date().toISOString();
+        const search: SavedEventSearch = {
+          ...input,
+          name: input.name.trim(),
+          id: crypto.randomUUID(),
+          createdAt: now,
+          updatedAt: now,
+        };
+
+        log.profile('Saved event search', LogLevel.INFO, { profileId, searchId: search.id });
+
+        set((state) => ({
+          profileSearches: {
+            ...state.profileSearches,
+            [profileId]: [...(state.profileSearches[profileId] || []), search],
+          },
+        }));
+
+        return search;
+      },
+
+      updateSearch: (profileId, searchId, updates) => {
+        set((state) => {
+          const searches = state.profileSearches[profileId] || [];
+          if (!searches.some((search) => search.id === searchId)) {
+            return state;
+          }
+
+          log.profile('Updated saved event search', LogLevel.INFO, { profileId, searchId });
+
+          return {
+            profileSearches: {
+              ...state.profileSearches,
+              [profileId]: searches.map((search) =>
+                search.id === searchId
+                  ? {
+                      ...search,
+                      ...updates,
+                      name: (updates.name ?? search.name).trim(),
+                      updatedAt: new Date().toISOString(),
+                    }
+                  : search
+              ),
+            },
+          };
+        });
+      },
+
+      removeSearch: (profileId, searchId) => {
+        set((state) => {
+          const searches = state.profileSearches[profileId] || [];
+          if (!searches.some((search) => search.id === searchId)) {
+            return state;
+          }
+
+          log.profile('Deleted saved event search', LogLevel.INFO, { profileId, searchId });
+
+          return {
+            profileSearches: {
+              ...state.profileSearches,
+              [profileId]: searches.filter((search) => search.id !== searchId),
+            },
+          };
+        });
+      },
+
+      importSearches: (profileId, inputs) => {
+        if (inputs.length === 0) return 0;
+
+        set((state) => {
+          const now = new Date().toISOString();
+          const searches = [...(state.profileSearches[profileId] || [])];
+
+          inputs.forEach((input) => {
+            const name = input.name.trim();
+            const existingIndex = searches.findIndex(
+              (search) => search.name.toLowerCase() === name.toLowerCase()
+            );
+            if (existingIndex >= 0) {
+              // Keep the ID so widgets pointing at the search follow the update
+              searches[existingIndex] = { ...searches[existingIndex], ...input, name, updatedAt: now };
+            } else {
+              searches.push({ ...input, name, id: crypto.randomUUID(), createdAt: now, updatedAt: now });
+            }
+          });
+
+          log.profile('Imported saved event searches', LogLevel.INFO, { profileId, count: inputs.length });
+
+          return {
+            profileSearches: {
+              ...state.profileSearches,
+              [profileId]: searches,
+            },
+          };
+        });
+
+        return inputs.length;
+      },
+    }),
+    {
+      name: 'zmng-saved-searches',
+    }
+  )
+);
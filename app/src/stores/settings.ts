@@ -3,6 +3,14 @@ import { persist } from 'zustand/middleware';
 import type { Layouts } from 'react-grid-layout';
 import { LogLevel } from '../lib/log-level';
 import type { BandwidthMode } from '../lib/zmng-constants';
+import type { EventAdvancedFilters } from '../lib/event-filter-params';
+import {
+  DEFAULT_EVENT_EXPORT_COLUMNS,
+  type EventExportColumn,
+  type EventExportFormat,
+} from '../lib/event-export';
+import { DEFAULT_CONTINUOUS_PLAYBACK, type ContinuousPlaybackSettings } from '../lib/continuous-playback';
+import { DEFAULT_INCIDENT_GAP_SECONDS, type EventGrouping } from '../lib/event-incidents';
 
 export type ViewMode = 'snapshot' | 'streaming';
 export type DisplayMode = 'normal' | 'compact';
@@ -12,6 +20,14 @@ export type ThemePreference = 'amber' | 'cream' | 'dark' | 'light' | 'slate' | '
 export type StreamingMethod = 'auto' | 'mjpeg';
 export type WebRTCProtocol = 'webrtc' | 'mse' | 'hls';
 
+/** Quick search applied on the Events page */
+export interface EventsQuickSearch {
+  /** Text the user typed */
+  query: string;
+  /** Detection filter the query set, if any */
+  notesRegexp?: string;
+}
+
 export interface ProfileSettings {
   viewMode: ViewMode;
   displayMode: DisplayMode;
@@ -30,10 +46,14 @@ export interface ProfileSettings {
   montageIsFullscreen: boolean; // Fullscreen state for Montage page
   montageFeedFit: MonitorFeedFit; // Object-fit for montage feeds
   eventsViewMode: EventsViewMode; // List vs montage view for Events page
+  eventGrouping: EventGrouping; // Single events or incidents in the Events list
+  incidentGapSeconds: number; // Largest gap between events of one incident
   monitorsFeedFit: MonitorFeedFit; // Object-fit for monitor grid feeds
   monitorDetailFeedFit: MonitorFeedFit; // Object-fit for monitor detail feed
   eventsThumbnailFit: MonitorFeedFit; // Object-fit for event thumbnails
   monitorDetailCycleSeconds: number; // Auto-cycle interval for single monitor view (0 = off)
+  lowFpsThreshold: number; // Flag monitors capturing below this FPS (0 = off)
+  ptzSpeed: number; // PTZ move speed in percent of the camera's speed range
   insomnia: boolean; // Global: Keep screen awake across all pages
   monitorDetailInsomnia: boolean; // @deprecated - use global insomnia instead
   montageInsomnia: boolean; // @deprecated - use global insomnia instead
@@ -49,7 +69,16 @@ export interface ProfileSettings {
     startDateTime: string;
     endDateTime: string;
     favoritesOnly: boolean;
+    advanced?: EventAdvancedFilters; // Cause/name/notes/score/length/frames/storage/archived filters
+    quickSearch?: EventsQuickSearch; // Applied quick search, kept with the detection filter it set
   };
+  // Last used format and columns of the Events page export
+  eventExport: {
+    format: EventExportFormat;
+    columns: EventExportColumn[];
+  };
+  // Continuous playback of a monitor's events on the event detail page
+  continuousPlayback: ContinuousPlaybackSettings;
   disableLogRedaction: boolean;
   lastRoute: string; // Last visited route for this profile
   // Streaming method: 'auto' tries WebRTC/MSE/HLS for Go2RTC-enabled monitors, 'mjpeg' forces MJPEG for all
@@ -115,10 +144,14 @@ export const DEFAULT_SETTINGS: ProfileSettings = {
   montageIsFullscreen: false,
   montageFeedFit: 'contain',
   eventsViewMode: 'list',
+  eventGrouping: 'none',
+  incidentGapSeconds: DEFAULT_INCIDENT_GAP_SECONDS,
   monitorsFeedFit: 'cover',
   monitorDetailFeedFit: 'contain',
   eventsThumbnailFit: 'contain',
   monitorDetailCycleSeconds: 0,
+  lowFpsThreshold: 2,
+  ptzSpeed: 50,
   insomnia: false,
   monitorDetailInsomnia: false,
   montageInsomnia: false,
@@ -134,7 +167,13 @@ export const DEFAULT_SETTINGS: ProfileSettings = {
     startDateTime: '',
     endDateTime: '',
     favoritesOnly: false,
+    advanced: {},
+  },
+  eventExport: {
+    format: 'csv',
+    columns: DEFAULT_EVENT_EXPORT_COLUMNS,
   },
+  continuousPlayback: DEFAULT_CONTINUOUS_PLAYBACK,
   disableLogRedaction: false,
   lastRoute: '/monitors',
   // Auto mode: use WebRTC/MSE/HLS for Go2RTC-enabled monitors, MJPEG for others
@@ -0,0 +1,112 @@
+/**
+ * Zoom Views Store
+ *
+ * Keeps each monitor's digital zoom, scoped by profile for multi-server
+ * support: the zoom last used on its live view and on its recorded events, so
+ * they survive a reload, and the named zoom views saved for it, which can also
+ * be shown as montage tiles and dashboard widgets.
+ */
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { log, LogLevel } from '../lib/logger';
+import type { ZoomCrop, ZoomView } from '../lib/digital-zoom';
+
+export interface MonitorZoom {
+  /** Zoom of the live view */
+  crop?: ZoomCrop;
+  /** Zoom of recorded event playback */
+  recordedCrop?: ZoomCrop;
+  views: ZoomView[];
+}
+
+/** Which view of a monitor a zoom belongs to */
+export type ZoomSource = 'live' | 'recorded';
+
+interface ZoomViewsState {
+  // Zoom per profile ID, then per monitor ID
+  profileZoom: Record<string, Record<string, MonitorZoom>>;
+
+  // Get the saved views of a monitor
+  getViews: (profileId: string, monitorId: string) => ZoomView[];
+
+  // Remember the zoom of a monitor's live view or recorded events
+  setCrop: (profileId: string, monitorId: string, crop: ZoomCrop, source?: ZoomSource) => void;
+
+  // Save a zoom under a name; returns the new view
+  saveView: (profileId: string, monitorId: string, name: string, crop: ZoomCrop) => ZoomView;
+
+  // Change one saved view
+  updateView: (
+    profileId: string,
+    monitorId: string,
+    viewId: string,
+    changes: Partial<Omit<ZoomView, 'id'>>
+  ) => void;
+
+  // Delete one saved view
+  removeView: (profileId: string, monitorId: string, viewId: string) => void;
+}
+
+const EMPTY_ZOOM: MonitorZoom = { views: [] };
+
+export const useZoomViewsStore = create<ZoomViewsState>()(
+  persist(
+    (set, get) => {
+      const updateMonitorZoom = (
+        profileId: string,
+        monitorId: string,
+        update: (zoom: MonitorZoom) => MonitorZoom
+      ) => {
+        set((state) => ({
+          profileZoom: {
+            ...state.profileZoom,
+            [profileId]: {
+              ...state.profileZoom[profileId],
+              [monitorId]: update(state.profileZoom[profileId]?.[monitorId] ?? EMPTY_ZOOM),
+            },
+          },
+        }));
+      };
+
+      return {
+        profileZoom: {},
+
+        getViews: (profileId, monitorId) => {
+          return get().profileZoom[profileId]?.[monitorId]?.views || [];
+        },
+
+        setCrop: (profileId, monitorId, crop, source = 'live') => {
+          updateMonitorZoom(profileId, monitorId, (zoom) =>
+            source === 'live' ? { ...zoom, crop } : { ...zoom, recordedCrop: crop }
+          );
+        },
+
+        saveView: (profileId, monitorId, name, crop) => {
+          const view: ZoomView = { id: crypto.randomUUID(), name, crop };
+          log.monitor('Saved zoom view', LogLevel.INFO, { profileId, monitorId, name });
+          updateMonitorZoom(profileId, monitorId, (zoom) => ({ ...zoom, views: [...zoom.views, view] }));
+          return view;
+        },
+
+        updateView: (profileId, monitorId, viewId, changes) => {
+          updateMonitorZoom(profileId, monitorId, (zoom) => ({
+            ...zoom,
+            views: zoom.views.map((view) => (view.id === viewId ? { ...view, ...changes } : view)),
+          }));
+        },
+
+        removeView: (profileId, monitorId, viewId) => {
+          log.monitor('Removed zoom view', LogLevel.INFO, { profileId, monitorId, viewId });
+          updateMonitorZoom(profileId, monitorId, (zoom) => ({
+            ...zoom,
+            views: zoom.views.filter((view) => view.id !== viewId),
+          }));
+        },
+      };
+    },
+    {
+      name: 'zmng-zoom-views',
+    }
+  )
+);